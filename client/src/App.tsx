@@ -34,6 +34,10 @@ import PromotionsPage from "@/pages/promotions";
 import AIPage from "@/pages/ai";
 import CompetitorsPage from "@/pages/competitors";
 import CreditReconciliationPage from "@/pages/credit-reconciliation";
+import AuditLogPage from "@/pages/audit-log";
+import StockTransfersPage from "@/pages/stock-transfers";
+import PurchaseOrdersPage from "@/pages/purchase-orders";
+import ExpiringStockPage from "@/pages/expiring-stock";
 
 function AuthenticatedRouter() {
   return (
@@ -46,6 +50,9 @@ function AuthenticatedRouter() {
           <Route path="/inventory" component={Inventory} />
           <Route path="/products/:id" component={ProductDetail} />
           <Route path="/stock-taking" component={StockTaking} />
+          <Route path="/stock-transfers" component={StockTransfersPage} />
+          <Route path="/purchase-orders" component={PurchaseOrdersPage} />
+          <Route path="/expiring-stock" component={ExpiringStockPage} />
           <Route path="/invoices" component={Invoices} />
           <Route path="/invoices/create" component={InvoiceWizard} />
           <Route path="/holds" component={Holds} />
@@ -54,6 +61,7 @@ function AuthenticatedRouter() {
           <Route path="/stores" component={StoresPage} />
           <Route path="/suppliers" component={Suppliers} />
           <Route path="/administration" component={Administration} />
+          <Route path="/audit-log" component={AuditLogPage} />
           <Route path="/till" component={TillPage} />
           <Route path="/auth" component={AuthPage} />
           <Route path="/common" component={CommonPage} />
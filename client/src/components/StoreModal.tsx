@@ -23,7 +23,33 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Building2, Loader2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { readApprovalPolicy, type ApprovalPolicy } from "@shared/approvals";
+import { COSTING_METHODS, COSTING_METHOD_LABELS, readInventoryPolicy, type CostingMethod, type InventoryPolicy } from "@shared/inventory";
+import {
+  EMBEDDED_VALUE_LABELS,
+  EMBEDDED_VALUE_TYPES,
+  NEW_WEIGHTED_BARCODE_RULE,
+  checkWeightedBarcodeRule,
+  readBarcodeSettings,
+  type EmbeddedValueType,
+  type WeightedBarcodeRule,
+} from "@shared/barcodes";
+import { Building2, ImagePlus, Loader2, Plus, Trash2, X } from "lucide-react";
+
+// Document branding kept in stores.settings and used on PDF invoices/receipts
+interface StoreDocumentSettings {
+  nameAr: string;
+  addressAr: string;
+  logoUrl: string;
+}
+
+const readDocumentSettings = (settings: unknown): StoreDocumentSettings => {
+  const values = settings && typeof settings === "object" ? (settings as Record<string, unknown>) : {};
+  const read = (key: string) => (typeof values[key] === "string" ? (values[key] as string) : "");
+  return { nameAr: read("nameAr"), addressAr: read("addressAr"), logoUrl: read("logoUrl") };
+};
 
 interface StoreModalProps {
   store?: Store | null;
@@ -34,6 +60,12 @@ interface StoreModalProps {
 }
 
 export function StoreModal({ store, isOpen, onClose, onSubmit, isLoading }: StoreModalProps) {
+  const { toast } = useToast();
+  const [documentSettings, setDocumentSettings] = useState<StoreDocumentSettings>(readDocumentSettings(null));
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>(readApprovalPolicy(null));
+  const [inventoryPolicy, setInventoryPolicy] = useState<InventoryPolicy>(readInventoryPolicy(null));
+  const [barcodeRules, setBarcodeRules] = useState<WeightedBarcodeRule[]>(readBarcodeSettings(null).weighted);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
   const { data: users = [] } = useQuery<User[]>({
     queryKey: ["/api/users"],
     enabled: isOpen,
@@ -71,6 +103,10 @@ export function StoreModal({ store, isOpen, onClose, onSubmit, isLoading }: Stor
         defaultVatRate: store.defaultVatRate || "5.00",
         settings: store.settings || null,
       });
+      setDocumentSettings(readDocumentSettings(store.settings));
+      setApprovalPolicy(readApprovalPolicy(store.settings));
+      setInventoryPolicy(readInventoryPolicy(store.settings));
+      setBarcodeRules(readBarcodeSettings(store.settings).weighted);
     } else {
       form.reset({
         name: "",
@@ -85,23 +121,79 @@ export function StoreModal({ store, isOpen, onClose, onSubmit, isLoading }: Stor
         defaultVatRate: "5.00",
         settings: null,
       });
+      setDocumentSettings(readDocumentSettings(null));
+      setApprovalPolicy(readApprovalPolicy(null));
+      setInventoryPolicy(readInventoryPolicy(null));
+      setBarcodeRules(readBarcodeSettings(null).weighted);
     }
   }, [store, form]);
 
+  const handleLogoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploadingLogo(true);
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+      const response = await fetch("/api/upload/image", {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        throw new Error("Failed to upload image");
+      }
+      const result = await response.json();
+      setDocumentSettings((prev) => ({ ...prev, logoUrl: result.url }));
+    } catch (error) {
+      toast({
+        title: "Logo Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to upload logo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  };
+
   // Watch vatEnabled to conditionally show/enable VAT rate field
   const vatEnabled = form.watch("vatEnabled");
 
   const handleSubmit = (data: InsertStore) => {
+    const invalidRule = barcodeRules.map(checkWeightedBarcodeRule).find((problem) => problem !== null);
+    if (invalidRule) {
+      toast({ title: "Check the scale label rules", description: invalidRule, variant: "destructive" });
+      return;
+    }
     // Sanitize data - convert empty defaultVatRate to "0.00"
+    const existingSettings = data.settings && typeof data.settings === "object" ? data.settings : {};
     const sanitizedData = {
       ...data,
       defaultVatRate: data.defaultVatRate && data.defaultVatRate.trim() !== "" 
         ? data.defaultVatRate 
-        : "0.00"
+        : "0.00",
+      settings: {
+        ...existingSettings,
+        nameAr: documentSettings.nameAr.trim() || undefined,
+        addressAr: documentSettings.addressAr.trim() || undefined,
+        logoUrl: documentSettings.logoUrl || undefined,
+        approvals: approvalPolicy,
+        inventory: inventoryPolicy,
+        barcodes: { weighted: barcodeRules },
+      },
     };
     onSubmit(sanitizedData);
   };
 
+  // An empty limit means the action never needs approval
+  const setApprovalLimit = (key: "refundLimit" | "discountPercentLimit", value: string) => {
+    const limit = parseFloat(value);
+    setApprovalPolicy((prev) => ({ ...prev, [key]: value.trim() === "" || isNaN(limit) ? null : Math.max(0, limit) }));
+  };
+
+  const updateBarcodeRule = (index: number, changes: Partial<WeightedBarcodeRule>) =>
+    setBarcodeRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+
   const handleClose = () => {
     form.reset();
     onClose();
@@ -326,6 +418,249 @@ export function StoreModal({ store, isOpen, onClose, onSubmit, isLoading }: Stor
               )}
             />
 
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <div className="text-base font-medium">Invoice &amp; Receipt Branding</div>
+                <div className="text-sm text-muted-foreground">
+                  Shown on PDF invoices and receipts alongside the English details
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="store-name-ar">Store Name (Arabic)</Label>
+                  <Input
+                    id="store-name-ar"
+                    dir="rtl"
+                    value={documentSettings.nameAr}
+                    onChange={(e) => setDocumentSettings((prev) => ({ ...prev, nameAr: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="store-address-ar">Address (Arabic)</Label>
+                  <Input
+                    id="store-address-ar"
+                    dir="rtl"
+                    value={documentSettings.addressAr}
+                    onChange={(e) => setDocumentSettings((prev) => ({ ...prev, addressAr: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4">
+                {documentSettings.logoUrl ? (
+                  <div className="relative">
+                    <img
+                      src={documentSettings.logoUrl}
+                      alt="Store logo"
+                      className="h-16 w-16 rounded border object-contain"
+                    />
+                    <button
+                      type="button"
+                      className="absolute -right-2 -top-2 rounded-full bg-white p-0.5 shadow"
+                      onClick={() => setDocumentSettings((prev) => ({ ...prev, logoUrl: "" }))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex h-16 w-16 items-center justify-center rounded border border-dashed text-muted-foreground">
+                    <ImagePlus className="h-5 w-5" />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label htmlFor="store-logo" className="cursor-pointer text-sm font-medium text-blue-600">
+                    {isUploadingLogo ? "Uploading..." : documentSettings.logoUrl ? "Replace logo" : "Upload logo"}
+                  </Label>
+                  <input
+                    id="store-logo"
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={handleLogoSelect}
+                    disabled={isUploadingLogo}
+                    className="hidden"
+                  />
+                  <div className="text-xs text-muted-foreground">PNG or JPEG</div>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <div className="text-base font-medium">Manager Approvals</div>
+                <div className="text-sm text-muted-foreground">
+                  When cashiers need a manager PIN or badge at the till
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="approval-void">Voiding a sale</Label>
+                <Switch
+                  id="approval-void"
+                  checked={approvalPolicy.voidRequiresApproval}
+                  onCheckedChange={(checked) => setApprovalPolicy((prev) => ({ ...prev, voidRequiresApproval: checked }))}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="approval-price">Selling below the store price</Label>
+                <Switch
+                  id="approval-price"
+                  checked={approvalPolicy.priceOverrideRequiresApproval}
+                  onCheckedChange={(checked) => setApprovalPolicy((prev) => ({ ...prev, priceOverrideRequiresApproval: checked }))}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="approval-refund-limit">Refunds above (QR)</Label>
+                  <Input
+                    id="approval-refund-limit"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Never"
+                    value={approvalPolicy.refundLimit ?? ""}
+                    onChange={(e) => setApprovalLimit("refundLimit", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="approval-discount-limit">Discounts above (%)</Label>
+                  <Input
+                    id="approval-discount-limit"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    placeholder="Never"
+                    value={approvalPolicy.discountPercentLimit ?? ""}
+                    onChange={(e) => setApprovalLimit("discountPercentLimit", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Leave a limit empty to never ask. A refund limit of 0 asks for every refund.
+              </div>
+            </div>
+
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <div className="text-base font-medium">Inventory</div>
+                <div className="text-sm text-muted-foreground">
+                  Stock limits and how sold stock is costed
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="inventory-negative">Allow negative stock</Label>
+                <Switch
+                  id="inventory-negative"
+                  checked={inventoryPolicy.allowNegativeStock}
+                  onCheckedChange={(checked) => setInventoryPolicy((prev) => ({ ...prev, allowNegativeStock: checked }))}
+                />
+              </div>
+              <div className="text-xs text-muted-foreground">
+                When off, a sale or write-off that would take an item below zero is refused. Offline sales are always accepted.
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="inventory-costing">Cost of goods sold</Label>
+                <Select
+                  value={inventoryPolicy.costingMethod}
+                  onValueChange={(value) => setInventoryPolicy((prev) => ({ ...prev, costingMethod: value as CostingMethod }))}
+                >
+                  <SelectTrigger id="inventory-costing" className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COSTING_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>{COSTING_METHOD_LABELS[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                The cost stamped on each sale. Changing it applies to sales from now on; past sales keep their cost.
+              </div>
+            </div>
+
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="flex items-start justify-between">
+                <div className="space-y-0.5">
+                  <div className="text-base font-medium">Scale Labels</div>
+                  <div className="text-sm text-muted-foreground">
+                    How to read the weight and price labels printed by this store's scales
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setBarcodeRules((prev) => [...prev, { ...NEW_WEIGHTED_BARCODE_RULE }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add rule
+                </Button>
+              </div>
+
+              {barcodeRules.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No scale labels. Barcodes must match a product exactly.</div>
+              ) : (
+                barcodeRules.map((rule, index) => (
+                  <div key={index} className="grid grid-cols-7 items-end gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Prefix</Label>
+                      <Input value={rule.prefix} maxLength={3} onChange={(e) => updateBarcodeRule(index, { prefix: e.target.value.trim() })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">PLU digits</Label>
+                      <Input type="number" min="1" max="6" value={rule.pluDigits} onChange={(e) => updateBarcodeRule(index, { pluDigits: Number(e.target.value) })} />
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      <Label className="text-xs">Carries</Label>
+                      <Select value={rule.valueType} onValueChange={(value) => updateBarcodeRule(index, { valueType: value as EmbeddedValueType })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EMBEDDED_VALUE_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{EMBEDDED_VALUE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Digits</Label>
+                      <Input type="number" min="1" max="6" value={rule.valueDigits} onChange={(e) => updateBarcodeRule(index, { valueDigits: Number(e.target.value) })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Decimals</Label>
+                      <Input type="number" min="0" max="3" value={rule.decimals} onChange={(e) => updateBarcodeRule(index, { decimals: Number(e.target.value) })} />
+                    </div>
+                    <div className="flex items-center justify-between gap-1 pb-2">
+                      <Switch
+                        checked={rule.validateCheckDigit}
+                        onCheckedChange={(checked) => updateBarcodeRule(index, { validateCheckDigit: checked })}
+                        title="Check the EAN-13 check digit"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setBarcodeRules((prev) => prev.filter((_, i) => i !== index))}
+                        title="Remove rule"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+              <div className="text-xs text-muted-foreground">
+                The PLU follows the prefix and is matched against each product's PLU. The weight or price sits just
+                before the check digit; weights are read in kilos, so grams need 3 decimals.
+              </div>
+            </div>
+
             <div className="flex justify-end gap-3 pt-4">
               <Button
                 type="button"
@@ -335,7 +670,7 @@ export function StoreModal({ store, isOpen, onClose, onSubmit, isLoading }: Stor
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={isLoading}>
+              <Button type="submit" disabled={isLoading || isUploadingLogo}>
                 {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                 {store ? "Update Store" : "Create Store"}
               </Button>
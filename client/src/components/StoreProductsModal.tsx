@@ -14,6 +14,8 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Package, Plus, Edit, Save, X, Search, Coins } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useStore } from "@/hooks/useStore";
+import { InTransitBadge, PendingTransfers, useInTransitStock } from "@/components/inventory/pending-transfers";
 
 interface StoreProductsModalProps {
   store?: Store | null;
@@ -32,6 +34,9 @@ export function StoreProductsModal({ store, isOpen, onClose }: StoreProductsModa
   const [newPrice, setNewPrice] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { availableStores } = useStore();
+  const inTransit = useInTransitStock(isOpen ? store?.id : undefined);
+  const storeNames = new Map(availableStores.map((s) => [s.id, s.name]));
 
   const { data: allProducts = [], isLoading: loadingProducts } = useQuery<Product[]>({
     queryKey: ["/api/products"],
@@ -171,13 +176,16 @@ export function StoreProductsModal({ store, isOpen, onClose }: StoreProductsModa
           </div>
 
           <Tabs defaultValue="store-products" className="flex-1 overflow-hidden flex flex-col">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="store-products">
                 Store Pricing ({productsWithStorePrice.length})
               </TabsTrigger>
               <TabsTrigger value="all-products">
                 All Products ({productsWithoutStorePrice.length})
               </TabsTrigger>
+              <TabsTrigger value="transfers">
+                Transfers
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="store-products" className="flex-1 overflow-y-auto">
@@ -248,6 +256,7 @@ export function StoreProductsModal({ store, isOpen, onClose }: StoreProductsModa
                             <Badge className="text-xs">
                               Store: QR {product.storePrice}
                             </Badge>
+                            <InTransitBadge entry={inTransit.get(product.id)} />
                           </div>
 
                           {editingProduct === product.id ? (
@@ -402,6 +411,10 @@ export function StoreProductsModal({ store, isOpen, onClose }: StoreProductsModa
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="transfers" className="flex-1 overflow-y-auto">
+              <PendingTransfers storeId={store.id} storeNames={storeNames} compact />
+            </TabsContent>
           </Tabs>
         </div>
 
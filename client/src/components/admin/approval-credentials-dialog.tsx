@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ApprovalCredentialsDialogProps {
+  user: { id: number; username: string };
+}
+
+// Sets the PIN or badge a manager uses to approve voids, refunds and discounts at the till
+export function ApprovalCredentialsDialog({ user }: ApprovalCredentialsDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [pin, setPin] = useState("");
+  const [badgeCode, setBadgeCode] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setPin("");
+      setBadgeCode("");
+    }
+  }, [isOpen]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (credentials: { pin?: string | null; badgeCode?: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/users/${user.id}/approval-credentials`, credentials);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Approval credentials saved",
+        description: `${user.username} can now approve at the till`,
+      });
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save approval credentials",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    // Only send what was entered so an existing PIN or badge is kept
+    saveMutation.mutate({
+      ...(pin ? { pin } : {}),
+      ...(badgeCode.trim() ? { badgeCode: badgeCode.trim() } : {}),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <KeyRound className="mr-2 h-4 w-4" />
+          Approval PIN
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Approval PIN for {user.username}</DialogTitle>
+          <DialogDescription>
+            Used at the till to approve voids, refunds, discounts and price changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="approval-credentials-pin">New PIN (4-8 digits)</Label>
+            <Input
+              id="approval-credentials-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="approval-credentials-badge">Badge code</Label>
+            <Input
+              id="approval-credentials-badge"
+              autoComplete="off"
+              placeholder="Scan the badge"
+              value={badgeCode}
+              onChange={(e) => setBadgeCode(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between pt-4 border-t">
+          <Button
+            variant="ghost"
+            onClick={() => saveMutation.mutate({ pin: null, badgeCode: null })}
+            disabled={saveMutation.isPending}
+          >
+            Remove both
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saveMutation.isPending || (pin.length < 4 && !badgeCode.trim())}
+          >
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,8 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Loader2, Coins, RefreshCw, TrendingUp, Globe } from "lucide-react";
+import { Loader2, Coins, RefreshCw, TrendingUp, Globe, Banknote, Plus, Trash2 } from "lucide-react";
 import type { CurrencyRate } from "@shared/schema";
+import { DEFAULT_DENOMINATIONS, type Denomination } from "@shared/denominations";
 
 const CURRENCIES = {
   QAR: { name: 'Qatari Riyal', symbol: 'QR' },
@@ -249,6 +250,8 @@ export default function CurrencyManagement({ storeId }: CurrencyManagementProps)
         </CardContent>
       </Card>
 
+      <DenominationSetEditor />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
@@ -314,4 +317,117 @@ export default function CurrencyManagement({ storeId }: CurrencyManagementProps)
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// The notes and coins each currency is counted in at the day close
+function DenominationSetEditor() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [currency, setCurrency] = useState("QAR");
+  const [rows, setRows] = useState<{ value: string; label: string; kind: Denomination["kind"] }[]>([]);
+
+  const { data: sets } = useQuery<Record<string, Denomination[]>>({
+    queryKey: ['/api/denomination-sets'],
+  });
+
+  useEffect(() => {
+    const set = sets?.[currency] ?? DEFAULT_DENOMINATIONS[currency] ?? [];
+    setRows(set.map((denomination) => ({ ...denomination, value: String(denomination.value) })));
+  }, [sets, currency]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const denominations = rows.map((row) => ({ ...row, value: parseFloat(row.value) }));
+      return apiRequest('PUT', `/api/denomination-sets/${currency}`, { denominations });
+    },
+    onSuccess: () => {
+      toast({ title: `${currency} notes and coins saved` });
+      queryClient.invalidateQueries({ queryKey: ['/api/denomination-sets'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save notes and coins", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const updateRow = (index: number, change: Partial<(typeof rows)[number]>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Banknote className="w-5 h-5" />
+          <span>Cash Denominations</span>
+        </CardTitle>
+        <CardDescription>
+          Notes and coins counted at the day close for each currency the tills hold
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Select value={currency} onValueChange={setCurrency}>
+          <SelectTrigger className="w-60">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CURRENCIES).map(([code, info]) => (
+              <SelectItem key={code} value={code}>
+                {code} - {info.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_2fr_1fr_auto] gap-2">
+              <Input
+                type="number"
+                step="0.001"
+                min="0"
+                value={row.value}
+                onChange={(e) => updateRow(index, { value: e.target.value })}
+                aria-label="Value"
+              />
+              <Input value={row.label} onChange={(e) => updateRow(index, { label: e.target.value })} aria-label="Label" />
+              <Select value={row.kind} onValueChange={(kind) => updateRow(index, { kind: kind as Denomination["kind"] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="note">Note</SelectItem>
+                  <SelectItem value="coin">Coin</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                aria-label="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex space-x-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setRows((prev) => [...prev, { value: "", label: "", kind: "note" }])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || rows.length === 0}>
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Save {currency}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, Ticket, Copy } from "lucide-react";
+import type { Coupon, Customer, Promotion } from "@shared/schema";
+
+interface PromotionCouponsProps {
+  promotion: Promotion | null;
+  storeId: number;
+  onClose: () => void;
+}
+
+type Mode = "generate" | "codes" | "customers";
+
+interface BatchDraft {
+  count: string;
+  prefix: string;
+  codes: string;
+  customerIds: number[];
+  singleUse: boolean;
+  maxRedemptions: string;
+  expiresAt: string;
+  batchLabel: string;
+}
+
+const emptyBatch = (): BatchDraft => ({
+  count: "10",
+  prefix: "",
+  codes: "",
+  customerIds: [],
+  singleUse: true,
+  maxRedemptions: "",
+  expiresAt: "",
+  batchLabel: "",
+});
+
+/** Body for POST /api/promotions/:id/coupons; only the fields of the chosen mode are sent. */
+function toBatchPayload(mode: Mode, draft: BatchDraft) {
+  return {
+    count: mode === "generate" ? draft.count : undefined,
+    prefix: mode === "codes" ? null : draft.prefix.trim() || null,
+    codes: mode === "codes" ? draft.codes.split(/[\s,]+/).filter(Boolean) : undefined,
+    customerIds: mode === "customers" ? draft.customerIds : undefined,
+    maxRedemptions: draft.singleUse ? 1 : draft.maxRedemptions.trim() || null,
+    expiresAt: draft.expiresAt ? new Date(draft.expiresAt).toISOString() : null,
+    batchLabel: draft.batchLabel.trim() || null,
+  };
+}
+
+const couponStatus = (coupon: Coupon) => {
+  if (!coupon.isActive) return { label: "Disabled", variant: "secondary" as const };
+  if (coupon.expiresAt && new Date(coupon.expiresAt) < new Date()) return { label: "Expired", variant: "secondary" as const };
+  if (coupon.maxRedemptions && (coupon.redemptionCount || 0) >= coupon.maxRedemptions) {
+    return { label: "Used", variant: "outline" as const };
+  }
+  return { label: "Active", variant: "default" as const };
+};
+
+export default function PromotionCoupons({ promotion, storeId, onClose }: PromotionCouponsProps) {
+  const [mode, setMode] = useState<Mode>("generate");
+  const [draft, setDraft] = useState<BatchDraft>(emptyBatch);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const update = (changes: Partial<BatchDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const { data: coupons = [], isLoading } = useQuery<Coupon[]>({
+    queryKey: ["/api/promotions", promotion?.id, "coupons"],
+    queryFn: () => fetch(`/api/promotions/${promotion!.id}/coupons`).then((res) => res.json()),
+    enabled: !!promotion,
+  });
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers", storeId],
+    queryFn: () => fetch(`/api/customers?storeId=${storeId}`).then((res) => res.json()),
+    enabled: !!promotion,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/promotions/${promotion!.id}/coupons`, toBatchPayload(mode, draft));
+      return (await response.json()) as Coupon[];
+    },
+    onSuccess: (created) => {
+      toast({ title: `${created.length} coupon code${created.length === 1 ? "" : "s"} created` });
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions", promotion?.id, "coupons"] });
+      setDraft(emptyBatch());
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create coupons", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: number; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/coupons/${id}`, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions", promotion?.id, "coupons"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to update coupon", variant: "destructive" });
+    },
+  });
+
+  const customerName = (id: number | null) => customers.find((customer) => customer.id === id)?.name || `Customer #${id}`;
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(coupons.map((coupon) => coupon.code).join("\n"));
+    toast({ title: "Codes copied to clipboard" });
+  };
+
+  const toggleCustomer = (id: number, checked: boolean) =>
+    update({ customerIds: checked ? [...draft.customerIds, id] : draft.customerIds.filter((customerId) => customerId !== id) });
+
+  return (
+    <Dialog open={!!promotion} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Ticket className="w-5 h-5 mr-2" />
+            Coupons · {promotion?.name}
+          </DialogTitle>
+          <DialogDescription>
+            {promotion?.requiresCoupon
+              ? "This promotion only applies when one of its codes is entered at the till."
+              : "This promotion also applies automatically; codes are tracked as redemptions."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+            <TabsList className="grid grid-cols-3">
+              <TabsTrigger value="generate">Generate</TabsTrigger>
+              <TabsTrigger value="codes">Own Codes</TabsTrigger>
+              <TabsTrigger value="customers">Per Customer</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="generate" className="grid grid-cols-2 gap-4 pt-2">
+              <div>
+                <Label htmlFor="couponCount">Number of Codes</Label>
+                <Input
+                  id="couponCount"
+                  type="number"
+                  min="1"
+                  max="1000"
+                  value={draft.count}
+                  onChange={(e) => update({ count: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="couponPrefix">Prefix</Label>
+                <Input
+                  id="couponPrefix"
+                  value={draft.prefix}
+                  onChange={(e) => update({ prefix: e.target.value.toUpperCase() })}
+                  placeholder="Optional, e.g. EID"
+                />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="codes" className="pt-2">
+              <Label htmlFor="couponCodes">Codes</Label>
+              <Input
+                id="couponCodes"
+                value={draft.codes}
+                onChange={(e) => update({ codes: e.target.value.toUpperCase() })}
+                placeholder="WELCOME10, SUMMER25"
+              />
+            </TabsContent>
+
+            <TabsContent value="customers" className="pt-2">
+              <Label>Issue one voucher to each selected customer</Label>
+              <div className="mt-2 max-h-48 overflow-y-auto border rounded-md divide-y">
+                {customers.map((customer) => (
+                  <label key={customer.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={draft.customerIds.includes(customer.id)}
+                      onCheckedChange={(checked) => toggleCustomer(customer.id, checked === true)}
+                    />
+                    <span className="flex-1">{customer.name}</span>
+                    <span className="text-muted-foreground">{customer.phone}</span>
+                  </label>
+                ))}
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex items-center space-x-2 pt-6">
+              <Switch id="singleUse" checked={draft.singleUse} onCheckedChange={(checked) => update({ singleUse: checked })} />
+              <Label htmlFor="singleUse">Single use</Label>
+            </div>
+            {!draft.singleUse && (
+              <div>
+                <Label htmlFor="maxRedemptions">Uses per Code</Label>
+                <Input
+                  id="maxRedemptions"
+                  type="number"
+                  min="1"
+                  value={draft.maxRedemptions}
+                  onChange={(e) => update({ maxRedemptions: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="couponExpiry">Expires</Label>
+              <Input
+                id="couponExpiry"
+                type="datetime-local"
+                value={draft.expiresAt}
+                onChange={(e) => update({ expiresAt: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="batchLabel">Batch Label</Label>
+              <Input
+                id="batchLabel"
+                value={draft.batchLabel}
+                onChange={(e) => update({ batchLabel: e.target.value })}
+                placeholder="Optional, e.g. Newsletter May"
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={createMutation.isPending}>
+            {createMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Create Codes
+          </Button>
+        </form>
+
+        <div className="border-t pt-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold">Codes ({coupons.length})</h4>
+            {coupons.length > 0 && (
+              <Button type="button" variant="ghost" size="sm" onClick={copyCodes}>
+                <Copy className="w-4 h-4 mr-1" />
+                Copy all
+              </Button>
+            )}
+          </div>
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : coupons.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No codes yet</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto divide-y border rounded-md">
+              {coupons.map((coupon) => {
+                const status = couponStatus(coupon);
+                return (
+                  <div key={coupon.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div className="space-y-0.5">
+                      <div className="font-mono font-semibold">{coupon.code}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {coupon.redemptionCount || 0}/{coupon.maxRedemptions ?? "∞"} used
+                        {coupon.customerId ? ` · ${customerName(coupon.customerId)}` : ""}
+                        {coupon.expiresAt ? ` · until ${new Date(coupon.expiresAt).toLocaleDateString()}` : ""}
+                        {coupon.batchLabel ? ` · ${coupon.batchLabel}` : ""}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                      <Switch
+                        checked={coupon.isActive || false}
+                        onCheckedChange={(checked) => toggleMutation.mutate({ id: coupon.id, isActive: checked })}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
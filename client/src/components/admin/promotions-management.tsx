@@ -10,73 +10,278 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Loader2, Tags, Plus, Calendar, Users, Package } from "lucide-react";
-import type { Promotion } from "@shared/schema";
+import { describePromotion, PROMOTION_TYPE_LABELS } from "@/lib/promotions";
+import { Checkbox } from "@/components/ui/checkbox";
+import PromotionCoupons from "./promotion-coupons";
+import { Loader2, Tags, Plus, Calendar, Users, Pencil, Trash2, X, Ticket } from "lucide-react";
+import {
+  CUSTOMER_TYPES,
+  PROMOTION_TYPES,
+  type CustomerType,
+  type Product,
+  type Promotion,
+  type PromotionRule,
+  type PromotionTier,
+  type PromotionType,
+} from "@shared/schema";
 
 interface PromotionsManagementProps {
   storeId: number;
 }
 
+type Scope = "all_products" | "category" | "product";
+
+interface TierDraft {
+  threshold: string;
+  discountType: PromotionTier["discountType"];
+  value: string;
+}
+
+interface PromotionDraft {
+  name: string;
+  description: string;
+  type: PromotionType;
+  value: string;
+  minOrderAmount: string;
+  maxDiscountAmount: string;
+  startDate: string;
+  endDate: string;
+  usageLimit: string;
+  customerLimit: string;
+  // How the deal combines with others
+  priority: string;
+  isExclusive: boolean;
+  stackableGroup: string;
+  // Who can use it
+  requiresCoupon: boolean;
+  customerTypes: CustomerType[]; // empty = everyone
+  // Which items the deal covers (every type except bundles)
+  scope: Scope;
+  categories: string[];
+  productIds: number[];
+  // buy_x_get_y
+  buyQuantity: string;
+  getQuantity: string;
+  // bundle
+  bundleItems: Array<{ productId: number | null; quantity: string }>;
+  // mix_match
+  groupQuantity: string;
+  // tiered / spend_threshold
+  tiers: TierDraft[];
+}
+
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const emptyDraft = (): PromotionDraft => ({
+  name: "",
+  description: "",
+  type: "percentage",
+  value: "",
+  minOrderAmount: "",
+  maxDiscountAmount: "",
+  startDate: toLocalInput(new Date()),
+  endDate: toLocalInput(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)),
+  usageLimit: "",
+  customerLimit: "",
+  priority: "0",
+  isExclusive: false,
+  stackableGroup: "",
+  requiresCoupon: false,
+  customerTypes: [],
+  scope: "all_products",
+  categories: [],
+  productIds: [],
+  buyQuantity: "1",
+  getQuantity: "1",
+  bundleItems: [{ productId: null, quantity: "1" }],
+  groupQuantity: "3",
+  tiers: [{ threshold: "", discountType: "percentage", value: "" }],
+});
+
+function draftFromPromotion(promotion: Promotion, rules: PromotionRule[]): PromotionDraft {
+  const draft = emptyDraft();
+  const productRules = rules.filter((rule) => rule.ruleType === "product" && rule.productId);
+  const categoryRules = rules.filter((rule) => rule.ruleType === "category" && rule.category);
+  const tiers = Array.isArray(promotion.tiers) ? (promotion.tiers as PromotionTier[]) : [];
+
+  return {
+    ...draft,
+    name: promotion.name,
+    description: promotion.description || "",
+    type: promotion.type as PromotionType,
+    value: promotion.value || "",
+    minOrderAmount: promotion.minOrderAmount || "",
+    maxDiscountAmount: promotion.maxDiscountAmount || "",
+    startDate: toLocalInput(new Date(promotion.startDate)),
+    endDate: toLocalInput(new Date(promotion.endDate)),
+    usageLimit: promotion.usageLimit ? String(promotion.usageLimit) : "",
+    customerLimit: promotion.customerLimit ? String(promotion.customerLimit) : "",
+    priority: String(promotion.priority ?? 0),
+    isExclusive: promotion.isExclusive || false,
+    stackableGroup: promotion.stackableGroup || "",
+    requiresCoupon: promotion.requiresCoupon || false,
+    customerTypes: (promotion.applicableToCustomerTypes || []).filter((type): type is CustomerType =>
+      (CUSTOMER_TYPES as readonly string[]).includes(type)
+    ),
+    scope: productRules.length > 0 ? "product" : categoryRules.length > 0 ? "category" : "all_products",
+    categories: categoryRules.map((rule) => rule.category!),
+    productIds: productRules.map((rule) => rule.productId!),
+    buyQuantity: String(rules[0]?.buyQuantity ?? draft.buyQuantity),
+    getQuantity: String(rules[0]?.getQuantity ?? draft.getQuantity),
+    bundleItems: productRules.length > 0
+      ? productRules.map((rule) => ({ productId: rule.productId, quantity: String(rule.buyQuantity || 1) }))
+      : draft.bundleItems,
+    groupQuantity: promotion.groupQuantity ? String(promotion.groupQuantity) : draft.groupQuantity,
+    tiers: tiers.length > 0
+      ? tiers.map((tier) => ({ threshold: String(tier.threshold), discountType: tier.discountType, value: String(tier.value) }))
+      : draft.tiers,
+  };
+}
+
+const optionalNumber = (value: string) => (value.trim() === "" ? null : value.trim());
+
+/** Turns the editor state into the body expected by /api/promotions. */
+function toPayload(draft: PromotionDraft, storeId: number) {
+  let rules: Array<Record<string, unknown>>;
+  if (draft.type === "bundle") {
+    rules = draft.bundleItems
+      .filter((item) => item.productId)
+      .map((item) => ({ ruleType: "product", productId: item.productId, buyQuantity: item.quantity || "1" }));
+  } else if (draft.scope === "category") {
+    rules = draft.categories.map((category) => ({ ruleType: "category", category }));
+  } else if (draft.scope === "product") {
+    rules = draft.productIds.map((productId) => ({ ruleType: "product", productId }));
+  } else {
+    rules = [{ ruleType: "all_products" }];
+  }
+
+  if (draft.type === "buy_x_get_y") {
+    rules = rules.map((rule) => ({ ...rule, buyQuantity: draft.buyQuantity, getQuantity: draft.getQuantity }));
+  }
+
+  const usesTiers = draft.type === "tiered" || draft.type === "spend_threshold";
+  const usesValue = !usesTiers && draft.type !== "buy_x_get_y";
+
+  return {
+    storeId,
+    name: draft.name,
+    description: draft.description || null,
+    type: draft.type,
+    value: usesValue ? optionalNumber(draft.value) : null,
+    minOrderAmount: optionalNumber(draft.minOrderAmount),
+    maxDiscountAmount: optionalNumber(draft.maxDiscountAmount),
+    groupQuantity: draft.type === "mix_match" ? optionalNumber(draft.groupQuantity) : null,
+    tiers: usesTiers
+      ? draft.tiers
+          .filter((tier) => tier.threshold && tier.value)
+          .map((tier) => ({ threshold: Number(tier.threshold), discountType: tier.discountType, value: Number(tier.value) }))
+      : null,
+    startDate: new Date(draft.startDate).toISOString(),
+    endDate: new Date(draft.endDate).toISOString(),
+    usageLimit: optionalNumber(draft.usageLimit),
+    customerLimit: optionalNumber(draft.customerLimit),
+    priority: Number(draft.priority) || 0,
+    isExclusive: draft.isExclusive,
+    stackableGroup: draft.isExclusive ? null : draft.stackableGroup.trim() || null,
+    requiresCoupon: draft.requiresCoupon,
+    applicableToCustomerTypes: draft.customerTypes.length > 0 ? draft.customerTypes : null,
+    rules,
+  };
+}
+
+const VALUE_LABELS: Partial<Record<PromotionType, { label: string; placeholder: string }>> = {
+  percentage: { label: "Discount (%)", placeholder: "10" },
+  fixed_amount: { label: "Discount Amount (QR)", placeholder: "5.00" },
+  bundle: { label: "Bundle Price (QR)", placeholder: "15.00" },
+  mix_match: { label: "Group Price (QR)", placeholder: "20.00" },
+};
+
 export default function PromotionsManagement({ storeId }: PromotionsManagementProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [couponPromotion, setCouponPromotion] = useState<Promotion | null>(null);
+  const [draft, setDraft] = useState<PromotionDraft>(emptyDraft);
 
   const { data: promotions, isLoading } = useQuery({
     queryKey: ['/api/promotions', storeId],
     queryFn: () => fetch(`/api/stores/${storeId}/promotions`).then(res => res.json()),
   });
 
-  const createPromotionMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return apiRequest('/api/promotions', 'POST', {
-        storeId,
-        ...data,
-      });
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products', { storeId }],
+    queryFn: () => fetch(`/api/products?storeId=${storeId}`).then(res => res.json()),
+    enabled: showCreateForm,
+  });
+
+  const { data: categories = [] } = useQuery<string[]>({
+    queryKey: ['/api/products/categories'],
+    enabled: showCreateForm,
+  });
+
+  const update = (changes: Partial<PromotionDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const closeForm = () => {
+    setShowCreateForm(false);
+    setEditingId(null);
+    setDraft(emptyDraft());
+  };
+
+  const savePromotionMutation = useMutation({
+    mutationFn: async (data: ReturnType<typeof toPayload>) => {
+      return editingId
+        ? apiRequest('PATCH', `/api/promotions/${editingId}`, data)
+        : apiRequest('POST', '/api/promotions', data);
     },
     onSuccess: () => {
-      toast({ title: "Promotion created successfully" });
+      toast({ title: editingId ? "Promotion updated successfully" : "Promotion created successfully" });
       queryClient.invalidateQueries({ queryKey: ['/api/promotions', storeId] });
-      setShowCreateForm(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/promotions/active'] });
+      closeForm();
     },
-    onError: () => {
-      toast({ title: "Failed to create promotion", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Failed to save promotion", description: error.message, variant: "destructive" });
     },
   });
 
   const togglePromotionMutation = useMutation({
     mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
-      return apiRequest(`/api/promotions/${id}`, 'PATCH', { isActive });
+      return apiRequest('PATCH', `/api/promotions/${id}`, { isActive });
     },
     onSuccess: () => {
       toast({ title: "Promotion updated successfully" });
       queryClient.invalidateQueries({ queryKey: ['/api/promotions', storeId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/promotions/active'] });
     },
     onError: () => {
       toast({ title: "Failed to update promotion", variant: "destructive" });
     },
   });
 
-  const handleCreatePromotion = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleEdit = async (promotion: Promotion) => {
+    try {
+      const rules: PromotionRule[] = await fetch(`/api/promotions/${promotion.id}/rules`).then(res => res.json());
+      setDraft(draftFromPromotion(promotion, rules));
+      setEditingId(promotion.id);
+      setShowCreateForm(true);
+    } catch (error) {
+      toast({ title: "Failed to load promotion", variant: "destructive" });
+    }
+  };
+
+  const handleSavePromotion = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    
-    const promotionData = {
-      name: formData.get('name') as string,
-      description: formData.get('description') as string,
-      type: formData.get('type') as string,
-      value: parseFloat(formData.get('value') as string),
-      minOrderAmount: formData.get('minOrderAmount') ? parseFloat(formData.get('minOrderAmount') as string) : null,
-      maxDiscountAmount: formData.get('maxDiscountAmount') ? parseFloat(formData.get('maxDiscountAmount') as string) : null,
-      startDate: formData.get('startDate') ? new Date(formData.get('startDate') as string) : new Date(),
-      endDate: formData.get('endDate') ? new Date(formData.get('endDate') as string) : null,
-      usageLimit: formData.get('usageLimit') ? parseInt(formData.get('usageLimit') as string) : null,
-      customerLimit: formData.get('customerLimit') ? parseInt(formData.get('customerLimit') as string) : null,
-    };
-    
-    createPromotionMutation.mutate(promotionData);
+    savePromotionMutation.mutate(toPayload(draft, storeId));
   };
 
+  const productName = (id: number | null) => products.find((product) => product.id === id)?.name || `Product #${id}`;
+  const valueField = VALUE_LABELS[draft.type];
+  const tierUnit = draft.type === "tiered" ? "Minimum Quantity" : "Minimum Spend (QR)";
+
   if (isLoading) {
     return (
       <Card>
@@ -96,8 +301,8 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
               <Tags className="w-5 h-5" />
               <span>Promotions Management</span>
             </div>
-            <Button 
-              onClick={() => setShowCreateForm(!showCreateForm)}
+            <Button
+              onClick={() => (showCreateForm ? closeForm() : setShowCreateForm(true))}
               size="sm"
             >
               <Plus className="w-4 h-4 mr-2" />
@@ -108,29 +313,31 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
             Create and manage promotional offers for your store
           </CardDescription>
         </CardHeader>
-        
+
         {showCreateForm && (
           <CardContent>
-            <form onSubmit={handleCreatePromotion} className="space-y-4">
+            <form onSubmit={handleSavePromotion} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="name">Promotion Name</Label>
                   <Input
                     id="name"
-                    name="name"
-                    placeholder="e.g., Summer Sale, BOGO T-shirts"
+                    value={draft.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    placeholder="e.g., Summer Sale, Any 3 Snacks for QR 20"
                     required
                   />
                 </div>
                 <div>
                   <Label htmlFor="type">Type</Label>
-                  <Select name="type" required>
-                    <SelectTrigger>
+                  <Select value={draft.type} onValueChange={(type) => update({ type: type as PromotionType })}>
+                    <SelectTrigger id="type">
                       <SelectValue placeholder="Select type" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="percentage">Percentage Discount</SelectItem>
-                      <SelectItem value="fixed_amount">Fixed Amount Off</SelectItem>
+                      {PROMOTION_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{PROMOTION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -140,32 +347,258 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
                 <Label htmlFor="description">Description</Label>
                 <Textarea
                   id="description"
-                  name="description"
+                  value={draft.description}
+                  onChange={(e) => update({ description: e.target.value })}
                   placeholder="Describe the promotion..."
                 />
               </div>
 
+              {/* Deal settings for the selected type */}
+              <div className="rounded-lg border p-4 space-y-4">
+                {draft.type === "bundle" ? (
+                  <div className="space-y-2">
+                    <Label>Bundle Items</Label>
+                    {draft.bundleItems.map((item, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Select
+                          value={item.productId ? String(item.productId) : ""}
+                          onValueChange={(value) => update({
+                            bundleItems: draft.bundleItems.map((current, i) => i === index ? { ...current, productId: Number(value) } : current),
+                          })}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map((product) => (
+                              <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          className="w-20"
+                          type="number"
+                          min="1"
+                          value={item.quantity}
+                          onChange={(e) => update({
+                            bundleItems: draft.bundleItems.map((current, i) => i === index ? { ...current, quantity: e.target.value } : current),
+                          })}
+                          aria-label="Quantity"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={draft.bundleItems.length === 1}
+                          onClick={() => update({ bundleItems: draft.bundleItems.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => update({ bundleItems: [...draft.bundleItems, { productId: null, quantity: "1" }] })}
+                    >
+                      <Plus className="w-4 h-4 mr-1" /> Add Item
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>Applies To</Label>
+                    <Select value={draft.scope} onValueChange={(scope) => update({ scope: scope as Scope })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all_products">All products</SelectItem>
+                        <SelectItem value="category">Categories</SelectItem>
+                        <SelectItem value="product">Specific products</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    {draft.scope === "category" && (
+                      <Select
+                        value=""
+                        onValueChange={(category) => update({ categories: Array.from(new Set([...draft.categories, category])) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Add category" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.filter((category) => !draft.categories.includes(category)).map((category) => (
+                            <SelectItem key={category} value={category}>{category}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {draft.scope === "product" && (
+                      <Select
+                        value=""
+                        onValueChange={(id) => update({ productIds: Array.from(new Set([...draft.productIds, Number(id)])) })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Add product" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {products.filter((product) => !draft.productIds.includes(product.id)).map((product) => (
+                            <SelectItem key={product.id} value={String(product.id)}>{product.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    <div className="flex flex-wrap gap-1">
+                      {draft.scope === "category" && draft.categories.map((category) => (
+                        <Badge key={category} variant="secondary" className="gap-1">
+                          {category}
+                          <button type="button" onClick={() => update({ categories: draft.categories.filter((c) => c !== category) })}>
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                      {draft.scope === "product" && draft.productIds.map((id) => (
+                        <Badge key={id} variant="secondary" className="gap-1">
+                          {productName(id)}
+                          <button type="button" onClick={() => update({ productIds: draft.productIds.filter((p) => p !== id) })}>
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {draft.type === "buy_x_get_y" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="buyQuantity">Buy Quantity</Label>
+                      <Input
+                        id="buyQuantity"
+                        type="number"
+                        min="1"
+                        value={draft.buyQuantity}
+                        onChange={(e) => update({ buyQuantity: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="getQuantity">Get Free</Label>
+                      <Input
+                        id="getQuantity"
+                        type="number"
+                        min="1"
+                        value={draft.getQuantity}
+                        onChange={(e) => update({ getQuantity: e.target.value })}
+                        required
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {draft.type === "mix_match" && (
+                  <div>
+                    <Label htmlFor="groupQuantity">Items per Group</Label>
+                    <Input
+                      id="groupQuantity"
+                      type="number"
+                      min="2"
+                      value={draft.groupQuantity}
+                      onChange={(e) => update({ groupQuantity: e.target.value })}
+                      required
+                    />
+                  </div>
+                )}
+
+                {(draft.type === "tiered" || draft.type === "spend_threshold") && (
+                  <div className="space-y-2">
+                    <Label>Tiers</Label>
+                    {draft.tiers.map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder={tierUnit}
+                          value={tier.threshold}
+                          onChange={(e) => update({
+                            tiers: draft.tiers.map((current, i) => i === index ? { ...current, threshold: e.target.value } : current),
+                          })}
+                        />
+                        <Select
+                          value={tier.discountType}
+                          onValueChange={(discountType) => update({
+                            tiers: draft.tiers.map((current, i) => i === index ? { ...current, discountType: discountType as TierDraft["discountType"] } : current),
+                          })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="percentage">% off</SelectItem>
+                            <SelectItem value="fixed">{draft.type === "tiered" ? "QR off each" : "QR off"}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="Discount"
+                          value={tier.value}
+                          onChange={(e) => update({
+                            tiers: draft.tiers.map((current, i) => i === index ? { ...current, value: e.target.value } : current),
+                          })}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={draft.tiers.length === 1}
+                          onClick={() => update({ tiers: draft.tiers.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => update({ tiers: [...draft.tiers, { threshold: "", discountType: "percentage", value: "" }] })}
+                    >
+                      <Plus className="w-4 h-4 mr-1" /> Add Tier
+                    </Button>
+                  </div>
+                )}
+              </div>
+
               <div className="grid grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="value">Discount Value</Label>
-                  <Input
-                    id="value"
-                    name="value"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    placeholder="10 (for 10% or $10)"
-                    required
-                  />
-                </div>
+                {valueField && (
+                  <div>
+                    <Label htmlFor="value">{valueField.label}</Label>
+                    <Input
+                      id="value"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={draft.value}
+                      onChange={(e) => update({ value: e.target.value })}
+                      placeholder={valueField.placeholder}
+                      required
+                    />
+                  </div>
+                )}
                 <div>
                   <Label htmlFor="minOrderAmount">Minimum Order</Label>
                   <Input
                     id="minOrderAmount"
-                    name="minOrderAmount"
                     type="number"
                     step="0.01"
                     min="0"
+                    value={draft.minOrderAmount}
+                    onChange={(e) => update({ minOrderAmount: e.target.value })}
                     placeholder="Optional"
                   />
                 </div>
@@ -173,10 +606,11 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
                   <Label htmlFor="maxDiscountAmount">Max Discount</Label>
                   <Input
                     id="maxDiscountAmount"
-                    name="maxDiscountAmount"
                     type="number"
                     step="0.01"
                     min="0"
+                    value={draft.maxDiscountAmount}
+                    onChange={(e) => update({ maxDiscountAmount: e.target.value })}
                     placeholder="Optional"
                   />
                 </div>
@@ -187,17 +621,20 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
                   <Label htmlFor="startDate">Start Date</Label>
                   <Input
                     id="startDate"
-                    name="startDate"
                     type="datetime-local"
-                    defaultValue={new Date().toISOString().slice(0, 16)}
+                    value={draft.startDate}
+                    onChange={(e) => update({ startDate: e.target.value })}
+                    required
                   />
                 </div>
                 <div>
                   <Label htmlFor="endDate">End Date</Label>
                   <Input
                     id="endDate"
-                    name="endDate"
                     type="datetime-local"
+                    value={draft.endDate}
+                    onChange={(e) => update({ endDate: e.target.value })}
+                    required
                   />
                 </div>
               </div>
@@ -207,9 +644,10 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
                   <Label htmlFor="usageLimit">Total Usage Limit</Label>
                   <Input
                     id="usageLimit"
-                    name="usageLimit"
                     type="number"
                     min="1"
+                    value={draft.usageLimit}
+                    onChange={(e) => update({ usageLimit: e.target.value })}
                     placeholder="Optional"
                   />
                 </div>
@@ -217,28 +655,94 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
                   <Label htmlFor="customerLimit">Per Customer Limit</Label>
                   <Input
                     id="customerLimit"
-                    name="customerLimit"
                     type="number"
                     min="1"
+                    value={draft.customerLimit}
+                    onChange={(e) => update({ customerLimit: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="priority">Priority</Label>
+                  <Input
+                    id="priority"
+                    type="number"
+                    step="1"
+                    value={draft.priority}
+                    onChange={(e) => update({ priority: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Higher priority deals are applied first</p>
+                </div>
+                <div>
+                  <Label htmlFor="stackableGroup">Stackable Group</Label>
+                  <Input
+                    id="stackableGroup"
+                    value={draft.stackableGroup}
+                    onChange={(e) => update({ stackableGroup: e.target.value })}
                     placeholder="Optional"
+                    disabled={draft.isExclusive}
                   />
+                  <p className="text-xs text-muted-foreground mt-1">Deals in the same group can discount the same item</p>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="isExclusive"
+                  checked={draft.isExclusive}
+                  onCheckedChange={(checked) => update({ isExclusive: checked })}
+                />
+                <Label htmlFor="isExclusive">Exclusive (never combined with other promotions)</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="requiresCoupon"
+                  checked={draft.requiresCoupon}
+                  onCheckedChange={(checked) => update({ requiresCoupon: checked })}
+                />
+                <Label htmlFor="requiresCoupon">Coupon code required (does not apply automatically)</Label>
+              </div>
+
+              <div>
+                <Label>Customers</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {CUSTOMER_TYPES.map((type) => (
+                    <label key={type} className="flex items-center gap-2 text-sm capitalize cursor-pointer">
+                      <Checkbox
+                        checked={draft.customerTypes.includes(type)}
+                        onCheckedChange={(checked) =>
+                          update({
+                            customerTypes: checked === true
+                              ? [...draft.customerTypes, type]
+                              : draft.customerTypes.filter((selected) => selected !== type),
+                          })
+                        }
+                      />
+                      {type}
+                    </label>
+                  ))}
                 </div>
+                <p className="text-xs text-muted-foreground mt-1">Leave all unticked to offer it to everyone, including walk-in sales</p>
               </div>
 
               <div className="flex space-x-2">
-                <Button 
-                  type="submit" 
-                  disabled={createPromotionMutation.isPending}
+                <Button
+                  type="submit"
+                  disabled={savePromotionMutation.isPending}
                 >
-                  {createPromotionMutation.isPending ? (
+                  {savePromotionMutation.isPending ? (
                     <Loader2 className="w-4 h-4 animate-spin mr-2" />
                   ) : null}
-                  Create Promotion
+                  {editingId ? "Save Changes" : "Create Promotion"}
                 </Button>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => setShowCreateForm(false)}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={closeForm}
                 >
                   Cancel
                 </Button>
@@ -262,8 +766,8 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
               </div>
             ) : (
               promotions.map((promotion: Promotion) => (
-              <div 
-                key={promotion.id} 
+              <div
+                key={promotion.id}
                 className="flex items-center justify-between p-4 border rounded-lg"
               >
                 <div className="space-y-1">
@@ -272,6 +776,12 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
                     <Badge variant={promotion.isActive ? "default" : "secondary"}>
                       {promotion.isActive ? "Active" : "Inactive"}
                     </Badge>
+                    <Badge variant="outline">
+                      {PROMOTION_TYPE_LABELS[promotion.type as PromotionType] || promotion.type}
+                    </Badge>
+                    {promotion.isExclusive && <Badge variant="outline">Exclusive</Badge>}
+                    {promotion.stackableGroup && <Badge variant="outline">Stacks: {promotion.stackableGroup}</Badge>}
+                    {promotion.requiresCoupon && <Badge variant="outline">Coupon only</Badge>}
                   </div>
                   <p className="text-sm text-muted-foreground">
                     {promotion.description}
@@ -279,9 +789,7 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
                   <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                     <div className="flex items-center space-x-1">
                       <Tags className="w-4 h-4" />
-                      <span>
-                        {promotion.type === 'percentage' ? `${promotion.value}%` : `$${promotion.value}`} off
-                      </span>
+                      <span>{describePromotion(promotion)}</span>
                     </div>
                     {promotion.usageCount !== undefined && (
                       <div className="flex items-center space-x-1">
@@ -298,12 +806,18 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
+                  <Button variant="ghost" size="sm" onClick={() => setCouponPromotion(promotion)} title="Coupon codes">
+                    <Ticket className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(promotion)} title="Edit promotion">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
                   <Switch
                     checked={promotion.isActive || false}
-                    onCheckedChange={(checked) => 
-                      togglePromotionMutation.mutate({ 
-                        id: promotion.id, 
-                        isActive: checked 
+                    onCheckedChange={(checked) =>
+                      togglePromotionMutation.mutate({
+                        id: promotion.id,
+                        isActive: checked
                       })
                     }
                   />
@@ -314,6 +828,8 @@ export default function PromotionsManagement({ storeId }: PromotionsManagementPr
           </div>
         </CardContent>
       </Card>
+
+      <PromotionCoupons promotion={couponPromotion} storeId={storeId} onClose={() => setCouponPromotion(null)} />
     </div>
   );
-}
\ No newline at end of file
+}
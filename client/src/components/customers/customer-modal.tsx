@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
@@ -43,6 +44,7 @@ export default function CustomerModal({ isOpen, onClose, customer }: CustomerMod
       address: "",
       creditLimit: "0.00",
       notes: "",
+      isVip: false,
     },
   });
 
@@ -55,6 +57,7 @@ export default function CustomerModal({ isOpen, onClose, customer }: CustomerMod
         address: customer.address || "",
         creditLimit: customer.creditLimit || "0.00",
         notes: customer.notes || "",
+        isVip: customer.isVip || false,
       });
       setProfileImagePreview(customer.profileImage || "");
       setIdCardImagePreview(customer.idCardImage || "");
@@ -66,6 +69,7 @@ export default function CustomerModal({ isOpen, onClose, customer }: CustomerMod
         address: "",
         creditLimit: "0.00",
         notes: "",
+        isVip: false,
       });
       setProfileImagePreview("");
       setIdCardImagePreview("");
@@ -431,6 +435,22 @@ export default function CustomerModal({ isOpen, onClose, customer }: CustomerMod
                   </CardContent>
                 </Card>
 
+                <FormField
+                  control={form.control}
+                  name="isVip"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <FormLabel>VIP Customer</FormLabel>
+                        <p className="text-xs text-slate-500">Eligible for promotions targeted at VIP customers</p>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="notes"
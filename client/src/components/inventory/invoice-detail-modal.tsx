@@ -35,6 +35,7 @@ import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import type { Supplier, SupplierInvoice, SupplierInvoiceItem, SupplierPayment } from "@shared/schema";
 import PaymentModal from "./payment-modal";
+import InvoiceMatchPanel from "./invoice-match-panel";
 
 interface InvoiceDetailModalProps {
   isOpen: boolean;
@@ -574,6 +575,8 @@ export default function InvoiceDetailModal({ isOpen, onClose, invoice, supplier
               </CardContent>
             </Card>
 
+            <InvoiceMatchPanel invoice={invoice} />
+
             {/* Scanned Invoice Attachment */}
             <Card className="border-slate-200 shadow-sm bg-white">
               <CardHeader className="border-b border-slate-100 bg-slate-50/50">
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import type { PurchaseOrder, SupplierInvoice } from "@shared/schema";
+
+interface MatchLine {
+  productId: number | null;
+  productName: string;
+  ordered: number;
+  received: number;
+  invoiced: number;
+  orderUnitCost: number | null;
+  invoiceUnitCost: number | null;
+  problems: string[];
+}
+
+export interface SupplierInvoiceMatch {
+  invoice: SupplierInvoice;
+  purchaseOrder: PurchaseOrder;
+  match: { status: "matched" | "discrepancy"; lines: MatchLine[] };
+}
+
+export const MATCH_STATUS_LABELS: Record<string, string> = {
+  matched: "Matched",
+  discrepancy: "Discrepancy",
+  accepted: "Differences accepted",
+};
+
+export const MATCH_STATUS_STYLES: Record<string, string> = {
+  matched: "bg-green-100 text-green-800",
+  discrepancy: "bg-red-100 text-red-800",
+  accepted: "bg-amber-100 text-amber-800",
+};
+
+const formatCost = (value: number | null) => (value === null ? "—" : value.toFixed(2));
+
+/**
+ * Three-way match of a supplier invoice against its purchase order and the
+ * goods received on it. Unlinked invoices can be tied to an order here.
+ */
+export default function InvoiceMatchPanel({ invoice }: { invoice: SupplierInvoice }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [orderId, setOrderId] = useState("");
+  const [reason, setReason] = useState("");
+
+  const canRead = hasPermission(user?.role, "purchasing", "read");
+  const canLink = hasPermission(user?.role, "purchasing", "update");
+  const canAccept = hasPermission(user?.role, "purchasing", "approve");
+
+  const { data: match, isLoading } = useQuery<SupplierInvoiceMatch>({
+    queryKey: [`/api/supplier-invoices/${invoice.id}/match`],
+    enabled: canRead && !!invoice.purchaseOrderId,
+    staleTime: 0,
+  });
+
+  const { data: orders = [] } = useQuery<PurchaseOrder[]>({
+    queryKey: [`/api/purchase-orders?supplierId=${invoice.supplierId}`],
+    enabled: canLink && !invoice.purchaseOrderId && !!invoice.supplierId,
+  });
+
+  const refresh = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0] ?? "");
+        return key.startsWith("/api/supplier-invoices") || key.startsWith("/api/purchase-orders");
+      },
+    });
+
+  const link = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/supplier-invoices/${invoice.id}/purchase-order`, { purchaseOrderId: Number(orderId) });
+      return (await response.json()) as SupplierInvoiceMatch;
+    },
+    onSuccess: (linked) => {
+      refresh();
+      toast({ title: `Linked to ${linked.purchaseOrder.poNumber}` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not link the order", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const accept = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/supplier-invoices/${invoice.id}/match/accept`, { reason: reason.trim() });
+      return (await response.json()) as SupplierInvoiceMatch;
+    },
+    onSuccess: () => {
+      refresh();
+      setReason("");
+      toast({ title: "Differences accepted; the invoice can be paid" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not accept the differences", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  if (!canRead || invoice.type === "return") return null;
+
+  const status = match?.invoice.matchStatus ?? invoice.matchStatus;
+  const billable = orders.filter((order) => order.status !== "draft" && order.status !== "cancelled");
+
+  return (
+    <Card className="border-slate-200 shadow-sm bg-white">
+      <CardHeader className="border-b border-slate-100 bg-slate-50/50">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base font-semibold text-slate-900">
+            <div className="p-1.5 bg-indigo-100 rounded">
+              <ClipboardCheck className="w-4 h-4 text-indigo-600" />
+            </div>
+            Purchase order match
+          </CardTitle>
+          {status && (
+            <Badge variant="secondary" className={MATCH_STATUS_STYLES[status]}>
+              {MATCH_STATUS_LABELS[status] ?? status}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {!invoice.purchaseOrderId ? (
+          canLink ? (
+            <div className="flex items-center gap-2">
+              <Select value={orderId} onValueChange={setOrderId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={billable.length ? "Choose the order this invoice bills" : "No open orders for this supplier"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {billable.map((order) => (
+                    <SelectItem key={order.id} value={String(order.id)}>
+                      {order.poNumber}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button disabled={!orderId || link.isPending} onClick={() => link.mutate()}>
+                Link order
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">Not entered against a purchase order.</p>
+          )
+        ) : isLoading || !match ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-slate-600">
+              Checked against <span className="font-mono">{match.purchaseOrder.poNumber}</span> and the goods received on it.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Billed</TableHead>
+                  <TableHead className="text-right">Order cost</TableHead>
+                  <TableHead className="text-right">Billed cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {match.match.lines.map((line, index) => (
+                  <TableRow key={`${line.productId ?? "unlinked"}-${index}`}>
+                    <TableCell>
+                      <div className="font-medium">{line.productName}</div>
+                      {line.problems.map((problem) => (
+                        <div key={problem} className="text-xs text-red-700">
+                          {problem}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">{line.ordered}</TableCell>
+                    <TableCell className="text-right">{line.received}</TableCell>
+                    <TableCell className="text-right">{line.invoiced}</TableCell>
+                    <TableCell className="text-right">{formatCost(line.orderUnitCost)}</TableCell>
+                    <TableCell className="text-right">{formatCost(line.invoiceUnitCost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {match.invoice.matchStatus === "accepted" && match.invoice.matchNote && (
+              <p className="text-sm text-amber-700">Accepted: {match.invoice.matchNote}</p>
+            )}
+            {match.invoice.matchStatus === "discrepancy" &&
+              (canAccept ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="Why can this invoice be paid as billed?"
+                    value={reason}
+                    onChange={(event) => setReason(event.target.value)}
+                  />
+                  <Button disabled={!reason.trim() || accept.isPending} onClick={() => accept.mutate()}>
+                    Accept differences
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-red-700">Payments are held until an admin accepts the differences.</p>
+              ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
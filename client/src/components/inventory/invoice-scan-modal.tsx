@@ -23,6 +23,7 @@ import {
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useStore } from "@/hooks/useStore";
 import type { Supplier, Product } from "@shared/schema";
 
 interface InvoiceScanModalProps {
@@ -77,6 +78,7 @@ export default function InvoiceScanModal({ isOpen, onClose, type }: InvoiceScanM
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { currentStore } = useStore();
   const queryClient = useQueryClient();
 
   const { data: suppliers = [] } = useQuery<Supplier[]>({
@@ -325,6 +327,7 @@ export default function InvoiceScanModal({ isOpen, onClose, type }: InvoiceScanM
       invoiceData,
       items,
       stockAdjustments,
+      storeId: currentStore?.id,
     });
   };
 
@@ -788,6 +788,34 @@ export default function InvoiceWizardModal({ isOpen, onClose }: InvoiceWizardMod
                         </div>
                       </div>
 
+                      {/* Lot and expiry, for perishables */}
+                      {invoiceType === 'receipt' && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-2">
+                          <div>
+                            <Label className="text-xs font-semibold text-slate-700 uppercase tracking-wider mb-1">
+                              Lot Number
+                            </Label>
+                            <Input 
+                              value={item.lotNumber || ''}
+                              onChange={(e) => updateItemValue(index, 'lotNumber', e.target.value)}
+                              placeholder="Batch or lot on the packaging"
+                              className="border-slate-300 focus:border-blue-500 focus:ring-blue-500"
+                            />
+                          </div>
+                          <div>
+                            <Label className="text-xs font-semibold text-slate-700 uppercase tracking-wider mb-1">
+                              Expiry Date
+                            </Label>
+                            <Input 
+                              type="date"
+                              value={item.expiryDate || ''}
+                              onChange={(e) => updateItemValue(index, 'expiryDate', e.target.value)}
+                              className="border-slate-300 focus:border-blue-500 focus:ring-blue-500"
+                            />
+                          </div>
+                        </div>
+                      )}
+
                       {/* Quantity, Unit Price, Total Price */}
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
                         <div>
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatTransferQuantity } from "./pending-transfers";
+
+interface LotVarianceLine {
+  lotId: number | null;
+  lotNumber: string | null;
+  expiryDate: string | null;
+  opening: number;
+  received: number;
+  sold: number;
+  other: number;
+  systemClosing: number;
+  counted: number | null;
+  variance: number | null;
+  varianceValue: number | null;
+}
+
+interface LotBreakdown {
+  lines: LotVarianceLine[];
+  totals: { systemClosing: number; counted: number | null; variance: number | null; varianceValue: number | null };
+}
+
+interface LotVariancePanelProps {
+  monitoringId: number;
+  reconciled: boolean;
+  notes?: string;
+  onReconciled: () => void;
+}
+
+const lineKey = (line: LotVarianceLine) => (line.lotId === null ? "untracked" : String(line.lotId));
+
+const varianceClass = (variance: number | null) =>
+  variance === null ? "" : variance === 0 ? "text-green-600" : variance > 0 ? "text-blue-600" : "text-red-600";
+
+/**
+ * A monitored product's day broken down by lot. Before reconciliation each
+ * lot can be counted on its own; the product's closing count is their sum.
+ * Products without lots show nothing here.
+ */
+export default function LotVariancePanel({ monitoringId, reconciled, notes, onReconciled }: LotVariancePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const url = `/api/daily-monitoring/${monitoringId}/lots`;
+
+  const { data, isLoading } = useQuery<LotBreakdown>({ queryKey: [url] });
+
+  const reconcile = useMutation({
+    mutationFn: async (lines: LotVarianceLine[]) => {
+      const response = await apiRequest("POST", `${url}/reconcile`, {
+        notes: notes || undefined,
+        counts: lines.map((line) => ({ lotId: line.lotId, countedQuantity: Number(counts[lineKey(line)]) })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      onReconciled();
+      toast({ title: "Reconciled by lot" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not reconcile", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-slate-400" />;
+  }
+  const lines = data?.lines ?? [];
+  if (!lines.some((line) => line.lotId !== null)) return null;
+
+  const allCounted = lines.every((line) => counts[lineKey(line)] !== undefined && counts[lineKey(line)] !== "");
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3 bg-white">
+      <h5 className="font-medium text-gray-700">By lot</h5>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Lot</TableHead>
+            <TableHead className="text-right">Opening</TableHead>
+            <TableHead className="text-right">In</TableHead>
+            <TableHead className="text-right">Sold</TableHead>
+            <TableHead className="text-right">Other</TableHead>
+            <TableHead className="text-right">Expected</TableHead>
+            <TableHead className="text-right">Counted</TableHead>
+            <TableHead className="text-right">Variance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.map((line) => (
+            <TableRow key={lineKey(line)}>
+              <TableCell>
+                {line.lotId === null ? (
+                  <span className="text-slate-500">Not in a lot</span>
+                ) : (
+                  <>
+                    <div className="font-mono text-xs">{line.lotNumber ?? `#${line.lotId}`}</div>
+                    {line.expiryDate && <div className="text-xs text-slate-500">exp. {line.expiryDate}</div>}
+                  </>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{formatTransferQuantity(line.opening)}</TableCell>
+              <TableCell className="text-right">{formatTransferQuantity(line.received)}</TableCell>
+              <TableCell className="text-right">{formatTransferQuantity(line.sold)}</TableCell>
+              <TableCell className="text-right">{formatTransferQuantity(line.other)}</TableCell>
+              <TableCell className="text-right">{formatTransferQuantity(line.systemClosing)}</TableCell>
+              <TableCell className="text-right">
+                {reconciled ? (
+                  line.counted === null ? "—" : formatTransferQuantity(line.counted)
+                ) : (
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-20 ml-auto"
+                    placeholder={formatTransferQuantity(line.systemClosing)}
+                    value={counts[lineKey(line)] ?? ""}
+                    onChange={(event) => setCounts((current) => ({ ...current, [lineKey(line)]: event.target.value }))}
+                  />
+                )}
+              </TableCell>
+              <TableCell className={cn("text-right", varianceClass(line.variance))}>
+                {line.variance === null ? "—" : `${formatTransferQuantity(line.variance)} (QR ${line.varianceValue?.toFixed(2)})`}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {!reconciled && (
+        <Button size="sm" variant="outline" className="w-full" disabled={!allCounted || reconcile.isPending} onClick={() => reconcile.mutate(lines)}>
+          {reconcile.isPending ? "Reconciling..." : "Reconcile from lot counts"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useLocation } from "wouter";
-import { usePOSStore } from "@/lib/pos-store";
+import { lineAmount, usePOSStore } from "@/lib/pos-store";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
@@ -51,7 +51,8 @@ export default function PaymentModal() {
     getTransactionDiscount,
     clearCart,
     clearTransactionDiscount,
-    setResumedHeldTransactionId
+    setResumedHeldTransactionId,
+    registerByStore
   } = usePOSStore();
   const [, navigate] = useLocation();
 
@@ -149,6 +150,7 @@ export default function PaymentModal() {
         customerId: currentCustomer?.id || null,
         cashierId: user?.id || null,
         storeId: currentStore.id,
+        registerId: registerByStore[currentStore.id] ?? null,
         subtotal: subtotal.toFixed(2),
         tax: vat.toFixed(2),
         vatAmount: vat.toFixed(2), // VAT amount same as tax
@@ -167,9 +169,8 @@ export default function PaymentModal() {
         orderType: "pos",
         tipAmount: null,
         items: cartItems.filter(item => !item.sku?.startsWith('DISCOUNT-')).map(item => {
-          const price = parseFloat(item.price);
           const quantity = item.quantity;
-          const baseTotal = price * quantity; // Subtotal for this item (before VAT, before discount)
+          const baseTotal = lineAmount(item); // Subtotal for this item (before VAT, before discount)
           const itemVatRate = item.vatRate || 0; // Default 0% VAT
           const vatAmount = (baseTotal * itemVatRate) / 100; // VAT on base total
           
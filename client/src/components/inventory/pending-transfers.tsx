@@ -0,0 +1,134 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowRightLeft, ChevronRight, Truck } from "lucide-react";
+import type { StockTransfer, StockTransferItem } from "@shared/schema";
+
+export interface InTransitStock {
+  productId: number;
+  incoming: number;
+  outgoing: number;
+}
+
+export type StockTransferLine = StockTransferItem & { productName: string | null; productSku: string | null };
+export type TransferWithItems = StockTransfer & { items: StockTransferLine[] };
+
+export const TRANSFER_STATUS_LABELS: Record<string, string> = {
+  requested: "Requested",
+  dispatched: "In transit",
+  partially_received: "Partly received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export const TRANSFER_STATUS_STYLES: Record<string, string> = {
+  requested: "bg-slate-500/10 text-slate-700 dark:text-slate-300",
+  dispatched: "bg-blue-500/10 text-blue-700 dark:text-blue-300",
+  partially_received: "bg-amber-500/10 text-amber-700 dark:text-amber-300",
+  received: "bg-green-500/10 text-green-700 dark:text-green-300",
+  cancelled: "bg-red-500/10 text-red-700 dark:text-red-300",
+};
+
+export const formatTransferQuantity = (value: string | number | null | undefined) => {
+  const quantity = typeof value === "number" ? value : parseFloat(value ?? "0");
+  return Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(2);
+};
+
+/** In-transit quantities for a store, keyed by product. */
+export function useInTransitStock(storeId?: number | null) {
+  const { data = [] } = useQuery<InTransitStock[]>({
+    queryKey: [`/api/stores/${storeId}/in-transit`],
+    enabled: !!storeId,
+  });
+  return useMemo(() => new Map(data.map((entry) => [entry.productId, entry])), [data]);
+}
+
+export function InTransitBadge({ entry }: { entry?: InTransitStock }) {
+  if (!entry || (entry.incoming <= 0 && entry.outgoing <= 0)) return null;
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {entry.incoming > 0 && (
+        <Badge variant="outline" className="text-xs border-blue-300 text-blue-700 dark:text-blue-300">
+          +{formatTransferQuantity(entry.incoming)} incoming
+        </Badge>
+      )}
+      {entry.outgoing > 0 && (
+        <Badge variant="outline" className="text-xs border-amber-300 text-amber-700 dark:text-amber-300">
+          {formatTransferQuantity(entry.outgoing)} outgoing
+        </Badge>
+      )}
+    </span>
+  );
+}
+
+interface PendingTransfersProps {
+  storeId: number;
+  storeNames: Map<number, string>;
+  // Hide the link to the transfers page, e.g. when already inside a dialog
+  compact?: boolean;
+}
+
+/** Open transfers into or out of a store. */
+export function PendingTransfers({ storeId, storeNames, compact = false }: PendingTransfersProps) {
+  const { data: transfers = [] } = useQuery<TransferWithItems[]>({
+    queryKey: [`/api/stock-transfers?storeId=${storeId}&open=true`],
+  });
+
+  if (transfers.length === 0) {
+    return compact ? <p className="text-sm text-muted-foreground py-6 text-center">No open transfers for this store.</p> : null;
+  }
+
+  return (
+    <div className="mb-6 rounded-xl border border-blue-200 dark:border-blue-900 bg-blue-50/60 dark:bg-blue-950/20 p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2 font-medium text-slate-900 dark:text-slate-100">
+          <Truck className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          Pending transfers
+          <Badge variant="secondary">{transfers.length}</Badge>
+        </div>
+        {!compact && (
+          <Button asChild variant="outline" size="sm">
+            <Link href="/stock-transfers">
+              Manage transfers
+              <ChevronRight className="h-4 w-4 ml-2" />
+            </Link>
+          </Button>
+        )}
+      </div>
+      <div className="space-y-1.5">
+        {transfers.slice(0, compact ? transfers.length : 5).map((transfer) => {
+          const outgoing = transfer.fromStoreId === storeId;
+          const otherStore = outgoing ? transfer.toStoreId : transfer.fromStoreId;
+          const units = transfer.items.reduce(
+            (sum, item) => sum + parseFloat(transfer.status === "requested" ? item.quantityRequested : item.quantityDispatched),
+            0,
+          );
+          return (
+            <div
+              key={transfer.id}
+              className="flex items-center justify-between gap-2 p-2 rounded-md bg-white dark:bg-slate-900 border border-blue-100 dark:border-blue-900 text-sm"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <ArrowRightLeft className="h-4 w-4 text-slate-400 flex-shrink-0" />
+                <span className="font-mono">{transfer.transferNumber}</span>
+                <span className="truncate text-slate-600 dark:text-slate-400">
+                  {outgoing ? "to" : "from"} {storeNames.get(otherStore) ?? `Store ${otherStore}`}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className="text-xs text-slate-500">
+                  {transfer.items.length} lines · {formatTransferQuantity(units)} units
+                </span>
+                <Badge variant="secondary" className={TRANSFER_STATUS_STYLES[transfer.status]}>
+                  {TRANSFER_STATUS_LABELS[transfer.status] ?? transfer.status}
+                </Badge>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Competitor, Product, ProductIdentifier, ProductIdentifierType, Supplier } from "@shared/schema";
+
+const TYPE_LABELS: Record<ProductIdentifierType, string> = {
+  barcode: "Barcode",
+  supplier_code: "Supplier item code",
+  competitor_sku: "Competitor SKU",
+};
+
+/**
+ * The other codes this product goes by: extra barcodes from other suppliers or
+ * pack revisions, suppliers' item codes and competitors' SKUs. Invoice scans,
+ * barcode lookups and competitor price matching find the product by any of them.
+ */
+export default function ProductIdentifiers({ product }: { product: Product }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const url = `/api/products/${product.id}/identifiers`;
+  const { data: identifiers = [], isLoading } = useQuery<ProductIdentifier[]>({ queryKey: [url] });
+  const { data: suppliers = [] } = useQuery<Supplier[]>({ queryKey: ["/api/suppliers"] });
+  const { data: competitors = [] } = useQuery<Competitor[]>({ queryKey: ["/api/competitors"] });
+
+  const [type, setType] = useState<ProductIdentifierType>("barcode");
+  const [code, setCode] = useState("");
+  const [ownerId, setOwnerId] = useState("");
+
+  const ownerName = (identifier: ProductIdentifier) =>
+    identifier.supplierId
+      ? suppliers.find((supplier) => supplier.id === identifier.supplierId)?.name ?? `Supplier #${identifier.supplierId}`
+      : identifier.competitorId
+        ? competitors.find((competitor) => competitor.id === identifier.competitorId)?.name ?? `Competitor #${identifier.competitorId}`
+        : "—";
+
+  const add = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", url, {
+        type,
+        code,
+        ...(type === "supplier_code" && { supplierId: ownerId ? Number(ownerId) : null }),
+        ...(type === "competitor_sku" && { competitorId: ownerId ? Number(ownerId) : null }),
+      })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      setCode("");
+      toast({ title: "Code added" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not add code", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async (identifierId: number) => (await apiRequest("DELETE", `${url}/${identifierId}`)).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not remove code", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const owners = type === "supplier_code" ? suppliers : type === "competitor_sku" ? competitors : [];
+
+  return (
+    <Card className="shadow-sm border-gray-200">
+      <CardHeader>
+        <CardTitle className="text-gray-800">Codes</CardTitle>
+        <CardDescription>
+          Extra barcodes, supplier item codes and competitor SKUs for this product. Once a code is here, invoices and
+          competitor prices carrying it are matched to this product without AI.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {product.barcode && (
+                <TableRow>
+                  <TableCell>
+                    <Badge variant="outline">Main barcode</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono">{product.barcode}</TableCell>
+                  <TableCell>—</TableCell>
+                  <TableCell>—</TableCell>
+                  <TableCell />
+                </TableRow>
+              )}
+              {identifiers.length === 0 && !product.barcode ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-slate-500">No codes yet</TableCell>
+                </TableRow>
+              ) : (
+                identifiers.map((identifier) => (
+                  <TableRow key={identifier.id}>
+                    <TableCell>
+                      <Badge variant="outline">{TYPE_LABELS[identifier.type as ProductIdentifierType] ?? identifier.type}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono">{identifier.code}</TableCell>
+                    <TableCell>{ownerName(identifier)}</TableCell>
+                    <TableCell className="text-sm text-slate-500">
+                      {identifier.createdAt ? new Date(identifier.createdAt).toLocaleDateString() : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={`Remove ${identifier.code}`}
+                        onClick={() => remove.mutate(identifier.id)}
+                        disabled={remove.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="rounded-lg border p-4 space-y-3">
+          <div className="text-sm font-medium">Add a code</div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => { setType(value as ProductIdentifierType); setOwnerId(""); }}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {type !== "barcode" && (
+              <div className="space-y-1">
+                <Label>{type === "supplier_code" ? "Supplier" : "Competitor"}</Label>
+                <Select value={ownerId} onValueChange={setOwnerId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Choose…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {owners.map((owner) => (
+                      <SelectItem key={owner.id} value={String(owner.id)}>{owner.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="new-identifier">Code</Label>
+              <Input id="new-identifier" className="w-48" value={code} onChange={(event) => setCode(event.target.value)} />
+            </div>
+            <Button size="sm" onClick={() => add.mutate()} disabled={add.isPending || !code.trim() || (type !== "barcode" && !ownerId)}>
+              {add.isPending ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Plus className="mr-1 h-4 w-4" />}
+              Add code
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
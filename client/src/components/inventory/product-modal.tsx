@@ -43,6 +43,7 @@ export default function ProductModal({ isOpen, onClose, product }: ProductModalP
       cost: "0.00",
       sku: "",
       barcode: "",
+      plu: "",
       stock: 0,
       quantity: 0,
       imageUrl: "",
@@ -62,6 +63,7 @@ export default function ProductModal({ isOpen, onClose, product }: ProductModalP
         cost: product.cost || "0.00",
         sku: product.sku,
         barcode: product.barcode || "",
+        plu: product.plu || "",
         stock: product.stock || 0,
         quantity: product.quantity || 0,
         imageUrl: product.imageUrl || "",
@@ -83,6 +85,7 @@ export default function ProductModal({ isOpen, onClose, product }: ProductModalP
         cost: "0.00",
         sku: "",
         barcode: "",
+        plu: "",
         stock: 0,
         quantity: 0,
         imageUrl: "",
@@ -223,6 +226,7 @@ export default function ProductModal({ isOpen, onClose, product }: ProductModalP
 
       const productData = {
         ...data,
+        plu: data.plu?.trim() || null,
         imageUrl: imageUrl || "",
         storeId: currentStore?.id, // Include storeId for new products
       };
@@ -587,6 +591,25 @@ export default function ProductModal({ isOpen, onClose, product }: ProductModalP
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="plu"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scale PLU</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        value={field.value ?? ""}
+                        inputMode="numeric"
+                        placeholder="For weight and price labels"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
             {/* Product Image Upload Section */}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ProductUnit } from "@shared/schema";
+
+interface ProductUnitSet {
+  productId: number;
+  baseUnit: string;
+  baseUnitDecimal: boolean;
+  units: ProductUnit[];
+}
+
+interface UnitRow {
+  code: string;
+  name: string;
+  factor: string;
+  allowsDecimal: boolean;
+  price: string;
+  isPurchaseUnit: boolean;
+  isSalesUnit: boolean;
+}
+
+const toRow = (unit: ProductUnit): UnitRow => ({
+  code: unit.code,
+  name: unit.name ?? "",
+  factor: String(Number(unit.factor)),
+  allowsDecimal: unit.allowsDecimal,
+  price: unit.price ?? "",
+  isPurchaseUnit: unit.isPurchaseUnit,
+  isSalesUnit: unit.isSalesUnit,
+});
+
+const emptyRow = (): UnitRow => ({
+  code: "",
+  name: "",
+  factor: "",
+  allowsDecimal: false,
+  price: "",
+  isPurchaseUnit: true,
+  isSalesUnit: false,
+});
+
+/**
+ * The unit a product's stock is kept in and the other units it is bought
+ * or sold in: a carton of 24 received from the supplier, a kilo weighed at
+ * the till. Invoices, counts and sales in those units convert to the base.
+ */
+export default function ProductUnits({ productId }: { productId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const url = `/api/products/${productId}/units`;
+  const { data, isLoading } = useQuery<ProductUnitSet>({ queryKey: [url] });
+
+  const [baseUnit, setBaseUnit] = useState("pcs");
+  const [baseUnitDecimal, setBaseUnitDecimal] = useState(false);
+  const [rows, setRows] = useState<UnitRow[]>([]);
+
+  useEffect(() => {
+    if (!data) return;
+    setBaseUnit(data.baseUnit);
+    setBaseUnitDecimal(data.baseUnitDecimal);
+    setRows(data.units.map(toRow));
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", url, {
+        baseUnit,
+        baseUnitDecimal,
+        units: rows.map((row) => ({
+          code: row.code,
+          name: row.name.trim() || null,
+          factor: row.factor,
+          allowsDecimal: row.allowsDecimal,
+          price: row.price === "" ? null : row.price,
+          isPurchaseUnit: row.isPurchaseUnit,
+          isSalesUnit: row.isSalesUnit,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      toast({ title: "Units saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not save units", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<UnitRow>) =>
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  return (
+    <Card className="shadow-sm border-gray-200">
+      <CardHeader>
+        <CardTitle className="text-gray-800">Units of measure</CardTitle>
+        <CardDescription>
+          Stock is counted in the base unit. Each other unit holds a fixed number of base units; weigh loose goods
+          in grams with a kilo unit that allows decimals.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="base-unit">Base unit</Label>
+                <Input id="base-unit" className="w-32" value={baseUnit} onChange={(event) => setBaseUnit(event.target.value)} />
+              </div>
+              <label className="flex items-center gap-2 pb-2 text-sm">
+                <Checkbox checked={baseUnitDecimal} onCheckedChange={(checked) => setBaseUnitDecimal(checked === true)} />
+                Sold in part units
+              </label>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Base units</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-center">Decimals</TableHead>
+                  <TableHead className="text-center">Bought</TableHead>
+                  <TableHead className="text-center">Sold</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-slate-500">Bought and sold in {baseUnit} only</TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Input className="w-24" value={row.code} placeholder="ctn" onChange={(event) => updateRow(index, { code: event.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input value={row.name} placeholder="Carton of 24" onChange={(event) => updateRow(index, { name: event.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input className="w-24 text-right" type="number" min={0} step="any" value={row.factor} onChange={(event) => updateRow(index, { factor: event.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input className="w-24 text-right" type="number" min={0} step="0.01" value={row.price} placeholder="Auto" onChange={(event) => updateRow(index, { price: event.target.value })} />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Checkbox checked={row.allowsDecimal} onCheckedChange={(checked) => updateRow(index, { allowsDecimal: checked === true })} />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Checkbox checked={row.isPurchaseUnit} onCheckedChange={(checked) => updateRow(index, { isPurchaseUnit: checked === true })} />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Checkbox checked={row.isSalesUnit} onCheckedChange={(checked) => updateRow(index, { isSalesUnit: checked === true })} />
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => setRows((current) => current.filter((_, i) => i !== index))} title="Remove unit">
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            <div className="flex justify-between">
+              <Button variant="outline" size="sm" onClick={() => setRows((current) => [...current, emptyRow()])}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add unit
+              </Button>
+              <Button size="sm" onClick={() => save.mutate()} disabled={save.isPending}>
+                {save.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Save units
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,348 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, Unlink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useStore } from "@/hooks/useStore";
+import { apiRequest } from "@/lib/queryClient";
+import type { Product } from "@shared/schema";
+import { MAX_VARIANT_AXES, variantLabel } from "@shared/variants";
+
+interface VariantRow extends Product {
+  reorderLevel: string | null;
+  inStore: boolean;
+}
+
+interface ProductVariantsData {
+  parent: Product;
+  axes: string[];
+  variants: VariantRow[];
+}
+
+// Catalogue prices when no store is chosen
+const ALL_STORES = "all";
+
+const capitalise = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Sizes, flavours and colours of one product. Each variant is a product of
+ * its own with its own SKU, barcode, price and stock; the parent holds the
+ * attributes they differ by and the details they share.
+ */
+export default function ProductVariants({ product }: { product: Product }) {
+  if (product.parentId) return <VariantOf product={product} />;
+  return <VariantList product={product} />;
+}
+
+function VariantOf({ product }: { product: Product }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: parent } = useQuery<Product>({ queryKey: [`/api/products/${product.parentId}`] });
+
+  const detach = useMutation({
+    mutationFn: async () => (await apiRequest("DELETE", `/api/products/${product.id}/parent`)).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/products/${product.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/products/${product.parentId}/variants`] });
+      toast({ title: "Variant detached" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not detach variant", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="shadow-sm border-gray-200">
+      <CardHeader>
+        <CardTitle className="text-gray-800">Variant</CardTitle>
+        <CardDescription>
+          A variant of{" "}
+          <Link href={`/products/${product.parentId}`} className="text-blue-600 hover:underline">
+            {parent?.name ?? "its parent product"}
+          </Link>
+          . Its category, supplier and VAT follow the parent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(product.variantOptions ?? {}).map(([axis, value]) => (
+            <Badge key={axis} variant="outline">{capitalise(axis)}: {value}</Badge>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => detach.mutate()} disabled={detach.isPending}>
+          <Unlink className="mr-1 h-4 w-4" />
+          Make a product of its own
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function VariantList({ product }: { product: Product }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentStore, availableStores } = useStore();
+  const [storeId, setStoreId] = useState<string>(currentStore ? String(currentStore.id) : ALL_STORES);
+  const baseUrl = `/api/products/${product.id}/variants`;
+  const url = storeId === ALL_STORES ? baseUrl : `${baseUrl}?storeId=${storeId}`;
+  const { data, isLoading } = useQuery<ProductVariantsData>({ queryKey: [url] });
+
+  const [axesText, setAxesText] = useState("");
+  const [selected, setSelected] = useState<number[]>([]);
+  const [bulkPrice, setBulkPrice] = useState("");
+  const [bulkReorderLevel, setBulkReorderLevel] = useState("");
+  const [newOptions, setNewOptions] = useState<Record<string, string>>({});
+  const [newSku, setNewSku] = useState("");
+  const [newBarcode, setNewBarcode] = useState("");
+  const [newPrice, setNewPrice] = useState("");
+
+  useEffect(() => {
+    setAxesText((product.variantAxes ?? []).join(", "));
+  }, [product.variantAxes]);
+
+  const axes = data?.axes ?? [];
+  const variants = data?.variants ?? [];
+  const refresh = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith(baseUrl) });
+  };
+  const failed = (title: string) => (error: any) =>
+    toast({ title, description: error?.message, variant: "destructive" });
+
+  const saveAxes = useMutation({
+    mutationFn: async () => {
+      const list = axesText.split(",").map((axis) => axis.trim()).filter(Boolean);
+      return (await apiRequest("PUT", `/api/products/${product.id}/variant-axes`, { axes: list })).json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/products/${product.id}`] });
+      refresh();
+      toast({ title: "Attributes saved" });
+    },
+    onError: failed("Could not save attributes"),
+  });
+
+  const addVariant = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", baseUrl, {
+        sku: newSku,
+        barcode: newBarcode.trim() || null,
+        ...(newPrice !== "" && { price: newPrice }),
+        options: newOptions,
+      })).json(),
+    onSuccess: () => {
+      refresh();
+      setNewOptions({});
+      setNewSku("");
+      setNewBarcode("");
+      setNewPrice("");
+      toast({ title: "Variant added" });
+    },
+    onError: failed("Could not add variant"),
+  });
+
+  const bulkUpdate = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("PATCH", baseUrl, {
+        ...(selected.length > 0 && { variantIds: selected }),
+        ...(storeId !== ALL_STORES && { storeId: Number(storeId) }),
+        ...(bulkPrice !== "" && { price: bulkPrice }),
+        ...(bulkReorderLevel !== "" && { reorderLevel: bulkReorderLevel }),
+      })).json() as Promise<{ updated: number[] }>,
+    onSuccess: (result) => {
+      refresh();
+      setBulkPrice("");
+      setBulkReorderLevel("");
+      toast({ title: `Updated ${result.updated.length} variant${result.updated.length === 1 ? "" : "s"}` });
+    },
+    onError: failed("Could not update variants"),
+  });
+
+  const detach = useMutation({
+    mutationFn: async (variantId: number) => (await apiRequest("DELETE", `/api/products/${variantId}/parent`)).json(),
+    onSuccess: () => {
+      refresh();
+      setSelected([]);
+    },
+    onError: failed("Could not detach variant"),
+  });
+
+  const toggle = (id: number, checked: boolean) =>
+    setSelected((current) => (checked ? [...current, id] : current.filter((selectedId) => selectedId !== id)));
+
+  return (
+    <Card className="shadow-sm border-gray-200">
+      <CardHeader>
+        <CardTitle className="text-gray-800">Variants</CardTitle>
+        <CardDescription>
+          Name up to {MAX_VARIANT_AXES} attributes the variants differ by, such as size or flavour. Variants share this
+          product's category, supplier and VAT; each has its own SKU, barcode, price and stock.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="variant-axes">Attributes</Label>
+            <Input
+              id="variant-axes"
+              className="w-72"
+              placeholder="size, flavour"
+              value={axesText}
+              disabled={variants.length > 0}
+              onChange={(event) => setAxesText(event.target.value)}
+            />
+          </div>
+          <Button size="sm" variant="outline" onClick={() => saveAxes.mutate()} disabled={saveAxes.isPending || variants.length > 0}>
+            Save attributes
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        ) : axes.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label>Prices and stock in</Label>
+                <Select value={storeId} onValueChange={(value) => { setStoreId(value); setBulkReorderLevel(""); }}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_STORES}>Catalogue</SelectItem>
+                    {availableStores.map((store) => (
+                      <SelectItem key={store.id} value={String(store.id)}>{store.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bulk-price">Price</Label>
+                <Input id="bulk-price" className="w-28" type="number" min={0} step="0.01" value={bulkPrice} onChange={(event) => setBulkPrice(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bulk-reorder">Reorder level</Label>
+                <Input
+                  id="bulk-reorder"
+                  className="w-28"
+                  type="number"
+                  min={0}
+                  value={bulkReorderLevel}
+                  disabled={storeId === ALL_STORES}
+                  placeholder={storeId === ALL_STORES ? "Per store" : ""}
+                  onChange={(event) => setBulkReorderLevel(event.target.value)}
+                />
+              </div>
+              <Button
+                size="sm"
+                onClick={() => bulkUpdate.mutate()}
+                disabled={bulkUpdate.isPending || variants.length === 0 || (bulkPrice === "" && bulkReorderLevel === "")}
+              >
+                {bulkUpdate.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                {selected.length > 0 ? `Apply to ${selected.length} selected` : "Apply to all variants"}
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  {axes.map((axis) => <TableHead key={axis}>{capitalise(axis)}</TableHead>)}
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Reorder level</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {variants.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={axes.length + 7} className="text-center text-slate-500">No variants yet</TableCell>
+                  </TableRow>
+                ) : (
+                  variants.map((variant) => (
+                    <TableRow key={variant.id} className={variant.inStore ? "" : "opacity-60"}>
+                      <TableCell>
+                        <Checkbox checked={selected.includes(variant.id)} onCheckedChange={(checked) => toggle(variant.id, checked === true)} />
+                      </TableCell>
+                      {axes.map((axis) => <TableCell key={axis}>{variant.variantOptions?.[axis] ?? "—"}</TableCell>)}
+                      <TableCell>
+                        <Link href={`/products/${variant.id}`} className="text-blue-600 hover:underline">{variant.sku}</Link>
+                      </TableCell>
+                      <TableCell>{variant.barcode ?? "—"}</TableCell>
+                      <TableCell className="text-right">QR {parseFloat(variant.price || "0").toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{variant.inStore ? variant.stock ?? 0 : "Not stocked"}</TableCell>
+                      <TableCell className="text-right">{variant.reorderLevel === null ? "—" : Number(variant.reorderLevel)}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title={`Detach ${variantLabel(axes, variant.variantOptions)}`}
+                          onClick={() => detach.mutate(variant.id)}
+                          disabled={detach.isPending}
+                        >
+                          <Unlink className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="text-sm font-medium">Add a variant</div>
+              <div className="flex flex-wrap items-end gap-3">
+                {axes.map((axis) => (
+                  <div key={axis} className="space-y-1">
+                    <Label htmlFor={`new-${axis}`}>{capitalise(axis)}</Label>
+                    <Input
+                      id={`new-${axis}`}
+                      className="w-32"
+                      value={newOptions[axis] ?? ""}
+                      onChange={(event) => setNewOptions((current) => ({ ...current, [axis]: event.target.value }))}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label htmlFor="new-sku">SKU</Label>
+                  <Input id="new-sku" className="w-36" value={newSku} onChange={(event) => setNewSku(event.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="new-barcode">Barcode</Label>
+                  <Input id="new-barcode" className="w-40" value={newBarcode} onChange={(event) => setNewBarcode(event.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="new-price">Price</Label>
+                  <Input
+                    id="new-price"
+                    className="w-28"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder={parseFloat(product.price).toFixed(2)}
+                    value={newPrice}
+                    onChange={(event) => setNewPrice(event.target.value)}
+                  />
+                </div>
+                <Button size="sm" onClick={() => addVariant.mutate()} disabled={addVariant.isPending || !newSku.trim()}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add variant
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, ShoppingCart } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatTransferQuantity } from "./pending-transfers";
+
+interface ReorderSuggestion {
+  productId: number;
+  productName: string;
+  sku: string;
+  supplierId: number | null;
+  onHand: number;
+  onOrder: number;
+  velocity: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  targetLevel: number;
+  daysOfCover: number | null;
+  quantity: number;
+  unitCost: number;
+}
+
+interface SupplierReorderGroup {
+  supplierId: number | null;
+  supplierName: string | null;
+  leadTimeDays: number | null;
+  lines: ReorderSuggestion[];
+  total: number;
+}
+
+interface ReorderSuggestions {
+  storeId: number;
+  generatedAt: string;
+  groups: SupplierReorderGroup[];
+}
+
+interface ReorderConversion {
+  message: string;
+  orders: Array<SupplierReorderGroup & { purchaseOrder?: { id: number; poNumber: string } }>;
+}
+
+const SERVICE_LEVELS = [
+  { value: "0.90", label: "90%" },
+  { value: "0.95", label: "95%" },
+  { value: "0.98", label: "98%" },
+  { value: "0.99", label: "99%" },
+];
+
+interface ReorderSuggestionsDialogProps {
+  storeId: number;
+  storeName: string;
+  onClose: () => void;
+  onCreated: (conversion: ReorderConversion) => void;
+}
+
+/**
+ * Suggested reorders for one store, grouped by supplier. The manager can
+ * adjust quantities, leave suppliers out, and turn the rest into drafts.
+ */
+export function ReorderSuggestionsDialog({ storeId, storeName, onClose, onCreated }: ReorderSuggestionsDialogProps) {
+  const { toast } = useToast();
+  const [lookbackDays, setLookbackDays] = useState("28");
+  const [coverDays, setCoverDays] = useState("14");
+  const [serviceLevel, setServiceLevel] = useState("0.95");
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+
+  const settings = { lookbackDays: Number(lookbackDays) || 28, coverDays: Number(coverDays) || 14, serviceLevel };
+  const { data, isLoading, isError, error } = useQuery<ReorderSuggestions>({
+    queryKey: [
+      `/api/stores/${storeId}/reorder-suggestions?lookbackDays=${settings.lookbackDays}&coverDays=${settings.coverDays}&serviceLevel=${serviceLevel}`,
+    ],
+    staleTime: 0,
+  });
+
+  // Edits belong to one set of suggestions
+  useEffect(() => {
+    setQuantities({});
+  }, [data]);
+
+  const groups = data?.groups ?? [];
+  const orderable = groups.filter((group) => group.supplierId !== null && !excluded.has(group.supplierId));
+
+  const convert = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stores/${storeId}/reorder-suggestions/purchase-orders`, {
+        ...settings,
+        supplierIds: orderable.map((group) => group.supplierId),
+        items: orderable.flatMap((group) =>
+          group.lines
+            .filter((line) => quantities[line.productId] !== undefined && quantities[line.productId] !== "")
+            .map((line) => ({ productId: line.productId, quantity: Number(quantities[line.productId]) })),
+        ),
+      });
+      return (await response.json()) as ReorderConversion;
+    },
+    onSuccess: onCreated,
+    onError: (err: any) => {
+      toast({ title: "Could not create the orders", description: err?.message, variant: "destructive" });
+    },
+  });
+
+  const toggleSupplier = (supplierId: number, included: boolean) =>
+    setExcluded((current) => {
+      const next = new Set(current);
+      if (included) next.delete(supplierId);
+      else next.add(supplierId);
+      return next;
+    });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reorder suggestions · {storeName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Sales history (days)</Label>
+            <Input type="number" min="7" max="365" value={lookbackDays} onChange={(event) => setLookbackDays(event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Order enough for (days)</Label>
+            <Input type="number" min="1" max="180" value={coverDays} onChange={(event) => setCoverDays(event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Service level</Label>
+            <Select value={serviceLevel} onValueChange={setServiceLevel}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SERVICE_LEVELS.map((level) => (
+                  <SelectItem key={level.value} value={level.value}>
+                    {level.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+          </div>
+        ) : isError ? (
+          <p className="text-center text-red-600 py-8">{(error as Error)?.message}</p>
+        ) : groups.length === 0 ? (
+          <p className="text-center text-slate-500 py-12">Nothing needs reordering at this store.</p>
+        ) : (
+          groups.map((group) => (
+            <div key={group.supplierId ?? "none"} className="space-y-2 rounded-md border border-slate-200 p-3">
+              <div className="flex items-center justify-between">
+                {group.supplierId === null ? (
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">No supplier</span>
+                    <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                      Set a supplier on these products to order them
+                    </Badge>
+                  </div>
+                ) : (
+                  <label className="flex items-center gap-2">
+                    <Checkbox
+                      checked={!excluded.has(group.supplierId)}
+                      onCheckedChange={(checked) => toggleSupplier(group.supplierId!, checked === true)}
+                    />
+                    <span className="font-semibold">{group.supplierName}</span>
+                    <span className="text-sm text-slate-500">{group.leadTimeDays} day lead time</span>
+                  </label>
+                )}
+                <span className="text-sm font-medium">{group.total.toFixed(2)}</span>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">On hand</TableHead>
+                    <TableHead className="text-right">On order</TableHead>
+                    <TableHead className="text-right">Sells / day</TableHead>
+                    <TableHead className="text-right">Days left</TableHead>
+                    <TableHead className="text-right">Reorder at</TableHead>
+                    <TableHead>Order</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {group.lines.map((line) => (
+                    <TableRow key={line.productId}>
+                      <TableCell>
+                        <div className="font-medium">{line.productName}</div>
+                        <div className="text-xs text-slate-500 font-mono">{line.sku}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatTransferQuantity(line.onHand)}</TableCell>
+                      <TableCell className="text-right">{formatTransferQuantity(line.onOrder)}</TableCell>
+                      <TableCell className="text-right">{line.velocity}</TableCell>
+                      <TableCell className="text-right">{line.daysOfCover ?? "—"}</TableCell>
+                      <TableCell className="text-right" title={`Includes ${line.safetyStock} safety stock`}>
+                        {formatTransferQuantity(line.reorderPoint)}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          className="w-24"
+                          disabled={group.supplierId === null}
+                          placeholder={String(line.quantity)}
+                          value={quantities[line.productId] ?? ""}
+                          onChange={(event) => setQuantities((current) => ({ ...current, [line.productId]: event.target.value }))}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ))
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button disabled={convert.isPending || orderable.length === 0} onClick={() => convert.mutate()}>
+            {convert.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShoppingCart className="h-4 w-4 mr-2" />}
+            Create {orderable.length} draft order{orderable.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,11 @@
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { AlertTriangle, X, Package, ChevronRight } from "lucide-react";
+import { AlertTriangle, X, Package, ChevronRight, ShoppingCart } from "lucide-react";
 import { useState } from "react";
 import type { Product } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { useAuth } from "@/hooks/useAuth";
 import { Link } from "wouter";
 
 interface StockAlertProps {
@@ -13,6 +15,8 @@ interface StockAlertProps {
 
 export function StockAlert({ lowStockProducts, onDismiss }: StockAlertProps) {
   const [isDismissed, setIsDismissed] = useState(false);
+  const { user } = useAuth();
+  const canReorder = hasPermission(user?.role, "purchasing", "create");
 
   if (isDismissed || lowStockProducts.length === 0) {
     return null;
@@ -52,16 +56,30 @@ export function StockAlert({ lowStockProducts, onDismiss }: StockAlertProps) {
                   {lowStockProducts.length} {lowStockProducts.length === 1 ? 'item' : 'items'}
                 </Badge>
               </div>
-              <Link href="/inventory?filter=low-stock">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="bg-amber-50 hover:bg-amber-100 border-amber-300 text-amber-800 hover:text-amber-900 dark:bg-amber-950/30 dark:hover:bg-amber-950/50 dark:border-amber-800 dark:text-amber-200"
-                >
-                  View All Items ({lowStockProducts.length})
-                  <ChevronRight className="h-4 w-4 ml-2" />
-                </Button>
-              </Link>
+              <div className="flex items-center gap-2">
+                {canReorder && (
+                  <Link href="/purchase-orders?reorder=1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="bg-amber-50 hover:bg-amber-100 border-amber-300 text-amber-800 hover:text-amber-900 dark:bg-amber-950/30 dark:hover:bg-amber-950/50 dark:border-amber-800 dark:text-amber-200"
+                    >
+                      <ShoppingCart className="h-4 w-4 mr-2" />
+                      Reorder
+                    </Button>
+                  </Link>
+                )}
+                <Link href="/inventory?filter=low-stock">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="bg-amber-50 hover:bg-amber-100 border-amber-300 text-amber-800 hover:text-amber-900 dark:bg-amber-950/30 dark:hover:bg-amber-950/50 dark:border-amber-800 dark:text-amber-200"
+                  >
+                    View All Items ({lowStockProducts.length})
+                    <ChevronRight className="h-4 w-4 ml-2" />
+                  </Button>
+                </Link>
+              </div>
             </AlertTitle>
             <AlertDescription className="space-y-3">
               <div className="flex flex-wrap items-center gap-4 text-sm">
@@ -21,6 +21,7 @@ interface SupplierModalProps {
 
 const supplierFormSchema = insertSupplierSchema.extend({
   name: z.string().min(1, "Supplier name is required"),
+  leadTimeDays: z.coerce.number().int("Use whole days").min(0).max(365),
 });
 
 export default function SupplierModal({ isOpen, onClose, supplier }: SupplierModalProps) {
@@ -37,6 +38,7 @@ export default function SupplierModal({ isOpen, onClose, supplier }: SupplierMod
       address: "",
       taxId: "",
       paymentTerms: "",
+      leadTimeDays: 7,
       isActive: true,
     },
   });
@@ -52,6 +54,7 @@ export default function SupplierModal({ isOpen, onClose, supplier }: SupplierMod
         address: supplier.address || "",
         taxId: supplier.taxId || "",
         paymentTerms: supplier.paymentTerms || "",
+        leadTimeDays: supplier.leadTimeDays ?? 7,
         isActive: supplier.isActive ?? true,
       });
     } else {
@@ -63,6 +66,7 @@ export default function SupplierModal({ isOpen, onClose, supplier }: SupplierMod
         address: "",
         taxId: "",
         paymentTerms: "",
+        leadTimeDays: 7,
         isActive: true,
       });
     }
@@ -236,6 +240,20 @@ export default function SupplierModal({ isOpen, onClose, supplier }: SupplierMod
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="leadTimeDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lead Time (days)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="1" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
             <div className="flex justify-end gap-2 pt-4">
@@ -213,10 +213,16 @@ export default function AddItemModal({ isOpen, onClose }: AddItemModalProps) {
         description: "Custom item",
         cost: "0",
         barcode: null,
+        plu: null,
         imageUrl: null,
         productType: null,
         category: null,
         supplierId: null,
+        baseUnit: "pcs",
+        baseUnitDecimal: false,
+        parentId: null,
+        variantAxes: null,
+        variantOptions: null,
         isActive: true,
         requiresDailyMonitoring: false,
         vatRate: null,
@@ -1,9 +1,60 @@
 import { useState, useEffect, useRef, useMemo } from "react";
-import { usePOSStore } from "@/lib/pos-store";
+import { lineAmount, usePOSStore } from "@/lib/pos-store";
 import { Button } from "@/components/ui/button";
 import { Trash2, Plus, Minus, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CartItem, ProductUnit } from "@shared/schema";
+import { baseUnitOf, resolveUnit, roundQuantity, type UnitProduct } from "@shared/units";
+
+interface ProductUnitSet extends UnitProduct {
+  productId: number;
+  units: ProductUnit[];
+}
+
+// Quantity of a line in the product's base unit, which stock is counted in
+const baseQuantity = (item: Pick<CartItem, "quantity" | "unitFactor">) => roundQuantity(item.quantity * (item.unitFactor ?? 1));
+
+const BASE_UNIT_VALUE = "__base__";
+
+/**
+ * The unit a line is sold in. Products with sales units (a pack, a kilo)
+ * get a picker that reprices the line; everything else shows its base unit.
+ */
+function UnitCell({ item }: { item: CartItem }) {
+  const setCartItemUnit = usePOSStore((state) => state.setCartItemUnit);
+  const productId = item.productId ?? null;
+  const { data: unitSet } = useQuery<ProductUnitSet>({
+    queryKey: [`/api/products/${productId}/units`],
+    enabled: productId !== null,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const salesUnits = unitSet?.units.filter((unit) => unit.isSalesUnit) ?? [];
+  const label = (item.unitLabel ?? (unitSet ? baseUnitOf(unitSet).label : "pcs")).toUpperCase();
+  if (!unitSet || salesUnits.length === 0) return <>{label}</>;
+
+  return (
+    <Select
+      value={item.unit ?? BASE_UNIT_VALUE}
+      onValueChange={(value) => {
+        const unit = resolveUnit(unitSet, unitSet.units, value === BASE_UNIT_VALUE ? null : value, "sale");
+        if (unit) setCartItemUnit(productId, item.sku, unit);
+      }}
+    >
+      <SelectTrigger className="h-7 px-1 text-xs uppercase">
+        <SelectValue>{label}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BASE_UNIT_VALUE} className="uppercase">{baseUnitOf(unitSet).label}</SelectItem>
+        {salesUnits.map((unit) => (
+          <SelectItem key={unit.code} value={unit.code} className="uppercase">{unit.name || unit.code}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
 
 export default function CartTable() {
   const {
@@ -114,12 +165,14 @@ export default function CartTable() {
     cartItems.forEach(item => {
       if (item.productId !== null) {
         const currentStock = stockMap.get(item.productId!);
-        if (currentStock !== undefined && item.quantity > currentStock) {
-          // Quantity exceeds available stock, adjust it
-          updateCartItemQuantity(item.productId!, item.sku, currentStock!);
+        if (currentStock !== undefined && baseQuantity(item) > currentStock) {
+          // Quantity exceeds available stock, adjust it to what the stock covers in the line's unit
+          const factor = item.unitFactor ?? 1;
+          const available = item.allowsDecimal ? roundQuantity(currentStock / factor) : Math.floor(currentStock / factor);
+          updateCartItemQuantity(item.productId!, item.sku, available);
           toast({
             title: "Quantity Adjusted",
-            description: `${item.name} quantity adjusted to ${currentStock} (available stock: ${currentStock})`,
+            description: `${item.name} quantity adjusted to ${available} (available stock: ${currentStock})`,
             variant: "destructive",
           });
         }
@@ -140,7 +193,7 @@ export default function CartTable() {
     // Check real-time stock availability for non-custom items
     if (productId !== null) {
       const currentStock = stockMap.get(productId);
-      if (currentStock !== undefined && newQuantity > currentStock) {
+      if (currentStock !== undefined && baseQuantity({ ...item, quantity: newQuantity }) > currentStock) {
         toast({
           title: "Insufficient Stock",
           description: `Only ${currentStock} units available for ${item.name}. Cannot increase quantity to ${newQuantity}.`,
@@ -166,6 +219,14 @@ export default function CartTable() {
     }
   };
 
+  // Weighed lines take their quantity typed in rather than stepped
+  const handleQuantityInput = (productId: number | null, sku: string, value: string) => {
+    const quantity = parseFloat(value);
+    if (!isNaN(quantity) && quantity > 0) {
+      updateCartItemQuantity(productId, sku, quantity);
+    }
+  };
+
   const handleDiscountInputChange = (productId: number | null, sku: string, value: string) => {
     const key = `${productId || 'null'}-${sku}`;
     setEditingDiscount((prev) => ({
@@ -214,10 +275,9 @@ export default function CartTable() {
   };
 
   const getItemAmount = (item: any) => {
-    // Always show the base total (price × quantity) without discount
+    // Always show the base total (price × quantity, or the scale label's price) without discount
     // Discount will only be reflected in the final total calculation
-    const baseTotal = parseFloat(item.price) * item.quantity;
-    return baseTotal;
+    return lineAmount(item);
   };
 
   return (
@@ -257,8 +317,9 @@ export default function CartTable() {
                 const currentStock = item.productId !== null 
                   ? (stockMap.get(item.productId!) ?? item.stock ?? undefined)
                   : undefined;
-                const isOutOfStock = currentStock !== undefined && item.quantity > currentStock;
-                const isLowStock = currentStock !== undefined && currentStock > 0 && currentStock < item.quantity;
+                const isOutOfStock = currentStock !== undefined && baseQuantity(item) > currentStock;
+                const isLowStock = currentStock !== undefined && currentStock > 0 && currentStock < baseQuantity(item);
+                const atStockLimit = currentStock !== undefined && baseQuantity({ ...item, quantity: item.quantity + 1 }) > currentStock;
                 
                 return (
                   <tr
@@ -283,11 +344,28 @@ export default function CartTable() {
                         </div>
                       )}
                     </td>
-                    <td className="py-1.5 px-5 w-16 text-center text-black font-medium text-xs">PC</td>
+                    <td className="py-1.5 px-1 w-16 text-center text-black font-medium text-xs">
+                      <UnitCell item={item} />
+                    </td>
                     <td className="py-1.5 px-5 w-20 text-center text-black font-medium text-xs">
                       {parseFloat(item.price).toFixed(1)}
                     </td>
                     <td className="py-1.5 px-5 w-32 text-center">
+                      {item.allowsDecimal ? (
+                        <input
+                          key={`${item.sku}-${item.quantity}`}
+                          type="number"
+                          min={0.001}
+                          step={0.001}
+                          defaultValue={item.quantity}
+                          className={`w-24 h-8 rounded border border-blue-300 px-2 text-center text-xs font-medium ${isOutOfStock ? 'text-red-600' : 'text-black'}`}
+                          onBlur={(e) => handleQuantityInput(item.productId ?? null, item.sku, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") e.currentTarget.blur();
+                          }}
+                          title="Quantity"
+                        />
+                      ) : (
                       <div className="flex items-center justify-center gap-1">
                         <Button
                           variant="outline"
@@ -307,12 +385,13 @@ export default function CartTable() {
                           size="sm"
                           className="w-8 h-8 p-0 hover:bg-blue-100 border-blue-300"
                           onClick={() => handleQuantityIncrease(item.productId ?? null, item.sku)}
-                          disabled={currentStock !== undefined && item.quantity >= currentStock}
-                          title={currentStock !== undefined && item.quantity >= currentStock ? "Out of stock" : "Increase quantity"}
+                          disabled={atStockLimit}
+                          title={atStockLimit ? "Out of stock" : "Increase quantity"}
                         >
                           <Plus className="w-4 h-4 text-blue-600" />
                         </Button>
                       </div>
+                      )}
                     </td>
                     <td className="py-1.5 px-5 w-24 text-center text-black font-medium text-xs">
                       {getItemAmount(item).toFixed(1)}
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Vault } from "lucide-react";
+import { usePOSStore } from "@/lib/pos-store";
+import { useStore } from "@/hooks/useStore";
+import CashMovementDialog from "./cash-movement-dialog";
+import type { Register } from "@shared/schema";
+
+interface CeilingStatus {
+  sessionId: number | null;
+  hasCeiling: boolean;
+  overCeiling: boolean;
+}
+
+/**
+ * Asks the cashier to drop cash to the safe once this till's drawer holds more
+ * than its register's ceiling. The server only says whether it does, not how
+ * much is in the drawer, so the closing count stays blind.
+ */
+export default function CashDropPrompt() {
+  const { currentStore } = useStore();
+  const { registerByStore } = usePOSStore();
+  const registerId = currentStore ? registerByStore[currentStore.id] : undefined;
+  const [isDropOpen, setIsDropOpen] = useState(false);
+
+  const { data: status } = useQuery<CeilingStatus>({
+    queryKey: [`/api/registers/${registerId}/ceiling-status`],
+    enabled: Boolean(registerId),
+    refetchInterval: 60_000,
+  });
+  const { data: registers = [] } = useQuery<Register[]>({
+    queryKey: [`/api/registers?storeId=${currentStore?.id}&activeOnly=true`],
+    enabled: Boolean(currentStore?.id && status?.overCeiling),
+  });
+
+  if (!status?.overCeiling || !status.sessionId) {
+    return null;
+  }
+
+  const registerName = registers.find((register) => register.id === registerId)?.name ?? "This till";
+
+  return (
+    <>
+      <Alert className="bg-amber-50 border-amber-200">
+        <Vault className="h-4 w-4 text-amber-600" />
+        <AlertTitle className="text-sm font-bold text-amber-900">Drawer over its cash limit</AlertTitle>
+        <AlertDescription className="flex items-center justify-between gap-4 text-xs text-amber-800">
+          <span>Drop cash to the safe and keep the slip with the bag.</span>
+          <Button size="sm" variant="outline" className="bg-white" onClick={() => setIsDropOpen(true)}>
+            Record drop
+          </Button>
+        </AlertDescription>
+      </Alert>
+      <CashMovementDialog
+        open={isDropOpen}
+        onOpenChange={setIsDropOpen}
+        sessionId={status.sessionId}
+        registerName={registerName}
+        defaultType="cash_drop"
+      />
+    </>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { printSlip, slipHtml } from "@/lib/slip-printer";
+import { hasPermission } from "@shared/permissions";
+import { DRAWER_MOVEMENT_REASONS, DRAWER_MOVEMENT_TYPES, type CashMovement, type DrawerMovementType } from "@shared/schema";
+
+const TYPE_LABELS: Record<DrawerMovementType, string> = {
+  cash_drop: "Cash drop to safe",
+  cash_pickup: "Cash pickup",
+  paid_in: "Paid in",
+  paid_out: "Paid out",
+};
+
+const REASON_LABELS: Record<string, string> = {
+  over_ceiling: "Drawer over its limit",
+  scheduled: "Scheduled drop",
+  end_of_shift: "End of shift",
+  manager_pickup: "Collected by manager",
+  bank_deposit: "For bank deposit",
+  float_top_up: "Float top-up",
+  change_delivery: "Change delivered",
+  petty_cash_return: "Petty cash returned",
+  supplier_delivery: "Supplier paid on delivery",
+  petty_expense: "Petty expense",
+  staff_advance: "Staff advance",
+  other: "Other",
+};
+
+const SLIP_PREFIX: Record<DrawerMovementType, string> = {
+  cash_drop: "DROP",
+  cash_pickup: "PICK",
+  paid_in: "PIN",
+  paid_out: "POUT",
+};
+
+interface CashMovementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: number;
+  registerName: string;
+  defaultType?: DrawerMovementType;
+}
+
+/** Records cash going into or out of a drawer mid-shift and prints its slip. */
+export default function CashMovementDialog({ open, onOpenChange, sessionId, registerName, defaultType = "cash_drop" }: CashMovementDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [type, setType] = useState<DrawerMovementType>(defaultType);
+  const [reasonCode, setReasonCode] = useState<string>(DRAWER_MOVEMENT_REASONS[defaultType][0]);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [reference, setReference] = useState("");
+  const [printAfter, setPrintAfter] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setType(defaultType);
+    setReasonCode(DRAWER_MOVEMENT_REASONS[defaultType][0]);
+    setAmount("");
+    setNote("");
+    setReference("");
+  }, [open, defaultType]);
+
+  // Pickups are collected by a supervisor or manager
+  const types = DRAWER_MOVEMENT_TYPES.filter(
+    (option) => option !== "cash_pickup" || hasPermission(user?.role, "shifts", "update"),
+  );
+
+  const printMovementSlip = (movement: CashMovement) => {
+    const kind = movement.type as DrawerMovementType;
+    const lines = [
+      { label: "Slip", value: `${SLIP_PREFIX[kind]}-${String(movement.id).padStart(6, "0")}` },
+      { label: "Register", value: registerName },
+      { label: "Date", value: new Date(movement.createdAt ?? Date.now()).toLocaleString() },
+      { label: "Reason", value: REASON_LABELS[movement.reasonCode ?? ""] ?? movement.reasonCode ?? "" },
+      { label: "Amount", value: `QR ${Number(movement.amount).toFixed(2)}` },
+      ...(movement.reference ? [{ label: "Reference", value: movement.reference }] : []),
+      ...(note.trim() ? [{ label: "Note", value: note.trim() }] : []),
+      { label: "Cashier", value: user?.firstName ? `${user.firstName} ${user.lastName ?? ""}`.trim() : user?.username ?? "" },
+    ];
+    const signatures = kind === "paid_out" ? ["Cashier", "Received by"] : ["Cashier", "Witness"];
+    printSlip(`${TYPE_LABELS[kind]} slip`, slipHtml(TYPE_LABELS[kind], lines, signatures));
+  };
+
+  const record = useMutation({
+    mutationFn: async (): Promise<CashMovement> =>
+      (await apiRequest("POST", `/api/drawer-sessions/${sessionId}/movements`, {
+        type,
+        reasonCode,
+        amount,
+        note: note.trim() || null,
+        reference: reference.trim() || null,
+      })).json(),
+    onSuccess: (movement) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = String(query.queryKey[0]);
+          return key.includes("/ceiling-status") || key.includes("/drawer-movements") || key.includes(`/drawer-sessions/${sessionId}/movements`);
+        },
+      });
+      toast({ title: `${TYPE_LABELS[type]} of QR ${Number(movement.amount).toFixed(2)} recorded` });
+      if (printAfter) {
+        try {
+          printMovementSlip(movement);
+        } catch (error) {
+          toast({ title: "Could not print the slip", description: String(error), variant: "destructive" });
+        }
+      }
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not record the movement", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cash movement · {registerName}</DialogTitle>
+          <DialogDescription>Cash taken out of or put into this drawer. It is counted in the drawer's expected cash.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Movement</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => {
+                  const next = value as DrawerMovementType;
+                  setType(next);
+                  setReasonCode(DRAWER_MOVEMENT_REASONS[next][0]);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {types.map((option) => (
+                    <SelectItem key={option} value={option}>{TYPE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Select value={reasonCode} onValueChange={setReasonCode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DRAWER_MOVEMENT_REASONS[type].map((reason) => (
+                    <SelectItem key={reason} value={reason}>{REASON_LABELS[reason] ?? reason}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="movement-amount">Amount</Label>
+            <Input
+              id="movement-amount"
+              type="number"
+              min={0}
+              step="0.01"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="movement-note">Note</Label>
+              <Input id="movement-note" value={note} onChange={(event) => setNote(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="movement-reference">Reference</Label>
+              <Input
+                id="movement-reference"
+                placeholder="Bag or receipt no."
+                value={reference}
+                onChange={(event) => setReference(event.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="movement-print" checked={printAfter} onCheckedChange={(checked) => setPrintAfter(checked === true)} />
+            <Label htmlFor="movement-print" className="font-normal">Print a slip</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => record.mutate()} disabled={record.isPending || !(Number(amount) > 0)}>
+            {record.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+            Record
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
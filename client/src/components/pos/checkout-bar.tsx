@@ -32,7 +32,8 @@ export default function CheckoutBar() {
     getCartTotal,
     clearCart,
     setResumedHeldTransactionId,
-    openPaymentModal
+    openPaymentModal,
+    registerByStore
   } = usePOSStore();
 
   const [showReceiptModal, setShowReceiptModal] = useState(false);
@@ -56,6 +57,7 @@ export default function CheckoutBar() {
       const transactionData = {
         transactionNumber: currentTransactionNumber,
         storeId: currentStore.id,
+        registerId: registerByStore[currentStore.id] ?? null,
         customerId: currentCustomer?.id || null,
         cashierId: 1,
         subtotal: getCartSubtotal().toFixed(2),
@@ -70,6 +72,7 @@ export default function CheckoutBar() {
         items: cartItems.map(item => ({
           productId: item.productId,
           quantity: item.quantity,
+          unit: item.unit ?? null,
           unitPrice: item.price,
           total: item.total
         }))
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { usePOSStore } from "@/lib/pos-store";
 import { useStore } from "@/hooks/useStore";
+import { fetchWithOfflineCache, OFFLINE_CACHE_KEYS } from "@/lib/offline-storage";
 import { 
   Dialog, 
   DialogContent, 
@@ -39,14 +40,10 @@ export default function CustomerSearchModal({ isOpen, onClose }: CustomerSearchM
   const { setCurrentCustomer } = usePOSStore();
   const { currentStore } = useStore();
 
-  const storeQueryParam = currentStore?.id ? `?storeId=${currentStore.id}` : "";
-  
   const { data: customers = [] } = useQuery<Customer[]>({
     queryKey: ["/api/customers", currentStore?.id],
     queryFn: async () => {
-      const response = await fetch(`/api/customers${storeQueryParam}`);
-      if (!response.ok) throw new Error('Failed to fetch customers');
-      return response.json();
+      return fetchWithOfflineCache<Customer[]>(OFFLINE_CACHE_KEYS.customers(currentStore!.id));
     },
     enabled: isOpen && !!currentStore?.id,
   });
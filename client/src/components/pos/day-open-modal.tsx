@@ -22,6 +22,7 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { usePOSStore } from "@/lib/pos-store";
 import { useStore } from "@/hooks/useStore";
+import ReopenReasonDialog from "./reopen-reason-dialog";
 
 interface DayOpenModalProps {
   isOpen: boolean;
@@ -33,6 +34,7 @@ export default function DayOpenModal({ isOpen, onClose, onDayOpened }: DayOpenMo
   const [openingCash, setOpeningCash] = useState<string>("");
   const [openingBankBalance, setOpeningBankBalance] = useState<string>("");
   const [cashierName, setCashierName] = useState<string>("Admin");
+  const [isReopenReasonOpen, setIsReopenReasonOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { selectedDate, setSelectedDate } = usePOSStore();
@@ -184,7 +186,7 @@ export default function DayOpenModal({ isOpen, onClose, onDayOpened }: DayOpenMo
   });
 
   const reopenDayMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (reason: string) => {
       if (!dayStatus?.dayOperation?.id) {
         throw new Error('No day operation found for selected date');
       }
@@ -214,7 +216,8 @@ export default function DayOpenModal({ isOpen, onClose, onDayOpened }: DayOpenMo
 
       const reopenResponse = await apiRequest({
         url: `/api/day-operations/${dayStatus.dayOperation.id}/reopen`,
-        method: "PATCH"
+        method: "PATCH",
+        body: { reason }
       });
 
       // Safely parse JSON response, handling empty or malformed responses
@@ -261,6 +264,7 @@ export default function DayOpenModal({ isOpen, onClose, onDayOpened }: DayOpenMo
       queryClient.invalidateQueries({ queryKey: ["/api/daily-monitoring"] });
       
       // Close modal
+      setIsReopenReasonOpen(false);
       onClose();
       
       console.log('✅ Day reopened successfully - all queries invalidated, no reload needed');
@@ -597,7 +601,7 @@ export default function DayOpenModal({ isOpen, onClose, onDayOpened }: DayOpenMo
           {/* Show Reopen button when day is closed and user has permission */}
           {dayStatus?.status === 'closed' && dayStatus?.canReopen && dayStatus?.dayOperation?.id ? (
             <Button 
-              onClick={() => reopenDayMutation.mutate()}
+              onClick={() => setIsReopenReasonOpen(true)}
               disabled={reopenDayMutation.isPending}
               className="flex-1 sm:flex-none bg-amber-600 hover:bg-amber-700 text-white"
             >
@@ -666,6 +670,14 @@ export default function DayOpenModal({ isOpen, onClose, onDayOpened }: DayOpenMo
           )}
         </DialogFooter>
       </DialogContent>
+
+      <ReopenReasonDialog
+        isOpen={isReopenReasonOpen}
+        onClose={() => setIsReopenReasonOpen(false)}
+        onConfirm={(reason) => reopenDayMutation.mutate(reason)}
+        isPending={reopenDayMutation.isPending}
+        date={dayStatus?.dayOperation?.date}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
@@ -5,8 +5,20 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Percent, Coins, X } from "lucide-react";
+import { Percent, Coins, X, Ticket, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useStore } from "@/hooks/useStore";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { approvalNeeded, readApprovalPolicy } from "@/lib/approvals";
+import { hasPermission } from "@shared/permissions";
+import ManagerApprovalModal from "./manager-approval-modal";
+
+interface PendingDiscount {
+  amount: number;
+  type: 'percentage' | 'fixed';
+  value: number;
+}
 
 interface DiscountModalProps {
   isOpen: boolean;
@@ -16,6 +28,12 @@ interface DiscountModalProps {
 export default function DiscountModal({ isOpen, onClose }: DiscountModalProps) {
   const [discountType, setDiscountType] = useState("percentage");
   const [discountValue, setDiscountValue] = useState("");
+  const [couponInput, setCouponInput] = useState("");
+  const [isCheckingCoupon, setIsCheckingCoupon] = useState(false);
+  // A discount over the store's limit, held until a manager approves it
+  const [pendingDiscount, setPendingDiscount] = useState<PendingDiscount | null>(null);
+  const { currentStore } = useStore();
+  const { user } = useAuth();
   const { 
     cartItems, 
     getCartSubtotal, 
@@ -25,7 +43,10 @@ export default function DiscountModal({ isOpen, onClose }: DiscountModalProps) {
     transactionDiscount,
     transactionDiscountType,
     transactionDiscountValue,
-    clearTransactionDiscount
+    clearTransactionDiscount,
+    currentCustomer,
+    couponCode,
+    setCouponCode
   } = usePOSStore();
   const { toast } = useToast();
 
@@ -76,12 +97,26 @@ export default function DiscountModal({ isOpen, onClose }: DiscountModalProps) {
       discountAmount = value;
     }
 
+    const discount: PendingDiscount = { amount: discountAmount, type: discountType as 'percentage' | 'fixed', value };
+    const needsApproval = !!currentStore &&
+      !hasPermission(user?.role, "approvals", "grant") &&
+      approvalNeeded(readApprovalPolicy(currentStore.settings), "discount", discountAmount, originalNetTotal);
+
+    if (needsApproval) {
+      setPendingDiscount(discount);
+      return;
+    }
+
+    applyDiscount(discount);
+  };
+
+  const applyDiscount = ({ amount, type, value }: PendingDiscount, approvalToken: string | null = null) => {
     // Set transaction-level discount only (not item-level)
-    setTransactionDiscount(discountAmount, discountType as 'percentage' | 'fixed', value);
+    setTransactionDiscount(amount, type, value, approvalToken);
 
     toast({
       title: "Success",
-      description: `Applied ${discountType === "percentage" ? `${value}%` : `QR ${value.toFixed(2)}`} discount`,
+      description: `Applied ${type === "percentage" ? `${value}%` : `QR ${value.toFixed(2)}`} discount`,
     });
 
     // Reset form and close modal
@@ -90,6 +125,13 @@ export default function DiscountModal({ isOpen, onClose }: DiscountModalProps) {
     onClose();
   };
 
+  const handleApproved = (approvalToken: string) => {
+    if (pendingDiscount) {
+      applyDiscount(pendingDiscount, approvalToken);
+    }
+    setPendingDiscount(null);
+  };
+
   const handleRemoveDiscount = () => {
     clearTransactionDiscount();
     toast({
@@ -104,9 +146,49 @@ export default function DiscountModal({ isOpen, onClose }: DiscountModalProps) {
   const handleClose = () => {
     setDiscountValue("");
     setDiscountType("percentage");
+    setCouponInput("");
     onClose();
   };
 
+  // The server checks the code (store, expiry, redemptions, customer) before it is
+  // added; the promotion itself is then priced with the rest of the cart
+  const handleApplyCoupon = async () => {
+    const code = couponInput.trim();
+    if (!code || !currentStore) return;
+
+    setIsCheckingCoupon(true);
+    try {
+      const response = await apiRequest("POST", "/api/coupons/validate", {
+        storeId: currentStore.id,
+        code,
+        customerId: currentCustomer?.id ?? null,
+      });
+      const { coupon, promotion } = await response.json();
+      setCouponCode(coupon.code);
+      setCouponInput("");
+      toast({
+        title: "Coupon applied",
+        description: `${coupon.code}: ${promotion.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Coupon not accepted",
+        description: error instanceof Error ? error.message : "Could not check this coupon",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setCouponCode(null);
+    toast({
+      title: "Success",
+      description: "Coupon has been removed",
+    });
+  };
+
   // Load existing discount if any
   React.useEffect(() => {
     if (isOpen && transactionDiscount > 0 && transactionDiscountType) {
@@ -136,7 +218,7 @@ export default function DiscountModal({ isOpen, onClose }: DiscountModalProps) {
             Apply Discount
           </DialogTitle>
           <DialogDescription className="text-base">
-            Apply a percentage or fixed amount discount to the current transaction
+            Redeem a coupon or apply a percentage or fixed amount discount to the current transaction
           </DialogDescription>
         </DialogHeader>
         
@@ -170,6 +252,54 @@ export default function DiscountModal({ isOpen, onClose }: DiscountModalProps) {
             </div>
           )}
 
+          <div>
+            <Label htmlFor="couponCode" className="text-base font-semibold mb-2 block">Coupon Code</Label>
+            {couponCode ? (
+              <div className="flex items-center justify-between gap-3 bg-blue-50 border-2 border-blue-300 rounded-lg p-3">
+                <div className="flex items-center text-blue-900 font-semibold">
+                  <Ticket className="w-5 h-5 mr-2 text-blue-600" />
+                  {couponCode}
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleRemoveCoupon}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50 shrink-0"
+                  title="Remove coupon"
+                >
+                  <X className="w-5 h-5" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  id="couponCode"
+                  placeholder="Enter or scan a coupon code"
+                  value={couponInput}
+                  onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleApplyCoupon();
+                    }
+                  }}
+                  className="h-12 text-lg font-mono"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleApplyCoupon}
+                  disabled={!couponInput.trim() || isCheckingCoupon}
+                  className="h-12 px-5"
+                >
+                  {isCheckingCoupon ? <Loader2 className="w-5 h-5 animate-spin" /> : <Ticket className="w-5 h-5 mr-2" />}
+                  {!isCheckingCoupon && "Apply"}
+                </Button>
+              </div>
+            )}
+          </div>
+
           <div className="bg-slate-100 border border-slate-300 rounded-lg p-4">
             <div className="text-sm font-medium text-slate-600 mb-2">Net Total:</div>
             <div className="text-3xl font-bold text-slate-900 tracking-tight">QR {netTotal.toFixed(2)}</div>
@@ -272,6 +402,16 @@ export default function DiscountModal({ isOpen, onClose }: DiscountModalProps) {
           </div>
         </form>
       </DialogContent>
+
+      {currentStore && (
+        <ManagerApprovalModal
+          isOpen={!!pendingDiscount}
+          onClose={() => setPendingDiscount(null)}
+          onApproved={handleApproved}
+          storeId={currentStore.id}
+          request={pendingDiscount ? { action: "discount", amount: pendingDiscount.amount, transactionId: null } : null}
+        />
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
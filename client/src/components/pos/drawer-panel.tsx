@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Monitor, Plus } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { usePOSStore } from "@/lib/pos-store";
+import { cn } from "@/lib/utils";
+import { hasPermission } from "@shared/permissions";
+import type { DrawerSession, Register } from "@shared/schema";
+import CashMovementDialog from "./cash-movement-dialog";
+
+const money = (value: string | number | null | undefined) => `QR ${Number(value ?? 0).toFixed(2)}`;
+
+type DrawerAction = { kind: "open" | "count" | "ceiling"; register: Register; session?: DrawerSession };
+
+/**
+ * The store's registers and their drawers. Each drawer opens with a float and
+ * closes with a blind count: the cashier only sees what it should have held
+ * once the count is in.
+ */
+export default function DrawerPanel({ storeId }: { storeId: number }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { registerByStore, setRegister } = usePOSStore();
+  const registersUrl = `/api/registers?storeId=${storeId}&activeOnly=true`;
+  const sessionsUrl = `/api/drawer-sessions?storeId=${storeId}&status=open`;
+  const { data: registers = [], isLoading } = useQuery<Register[]>({ queryKey: [registersUrl] });
+  const { data: openSessions = [] } = useQuery<DrawerSession[]>({ queryKey: [sessionsUrl] });
+
+  const [newRegister, setNewRegister] = useState("");
+  const [action, setAction] = useState<DrawerAction | null>(null);
+  const [amount, setAmount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [counted, setCounted] = useState<DrawerSession | null>(null);
+  const [moving, setMoving] = useState<{ session: DrawerSession; register: Register } | null>(null);
+
+  const canManage = hasPermission(user?.role, "settings", "update");
+  const thisTill = registerByStore[storeId];
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [registersUrl] });
+    queryClient.invalidateQueries({ queryKey: [sessionsUrl] });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).includes("/drawers") });
+  };
+  const failed = (title: string) => (error: any) =>
+    toast({ title, description: error?.message, variant: "destructive" });
+
+  const addRegister = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/registers", { storeId, name: newRegister })).json(),
+    onSuccess: () => {
+      setNewRegister("");
+      refresh();
+    },
+    onError: failed("Could not add register"),
+  });
+
+  const retireRegister = useMutation({
+    mutationFn: async (registerId: number) =>
+      (await apiRequest("PATCH", `/api/registers/${registerId}`, { isActive: false })).json(),
+    onSuccess: (_data, registerId) => {
+      if (thisTill === registerId) setRegister(storeId, null);
+      refresh();
+    },
+    onError: failed("Could not retire register"),
+  });
+
+  // Counted on the X and Z reports, so every drawer opened without a sale is accounted for
+  const noSale = useMutation({
+    mutationFn: async (sessionId: number) => (await apiRequest("POST", `/api/drawer-sessions/${sessionId}/no-sale`, {})).json(),
+    onSuccess: () => toast({ title: "No-sale recorded" }),
+    onError: failed("Could not record the no-sale"),
+  });
+
+  const setCeiling = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("PATCH", `/api/registers/${action!.register.id}`, { cashCeiling: amount === "" ? null : amount })).json(),
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).includes("/ceiling-status") });
+      closeDialog();
+    },
+    onError: failed("Could not set the cash ceiling"),
+  });
+
+  const submit = useMutation({
+    mutationFn: async (): Promise<DrawerSession> => {
+      if (!action) throw new Error("Nothing to submit");
+      const response = action.kind === "open"
+        ? await apiRequest("POST", "/api/drawer-sessions", { registerId: action.register.id, openingFloat: amount })
+        : await apiRequest("POST", `/api/drawer-sessions/${action.session!.id}/close`, { countedCash: amount, notes: notes.trim() || null });
+      return response.json();
+    },
+    onSuccess: (session) => {
+      refresh();
+      if (action?.kind === "count") {
+        setCounted(session);
+      } else {
+        toast({ title: `${action?.register.name} drawer opened` });
+        closeDialog();
+      }
+    },
+    onError: failed(action?.kind === "open" ? "Could not open drawer" : "Could not count drawer"),
+  });
+
+  const startAction = (next: DrawerAction) => {
+    setAction(next);
+    setAmount(next.kind === "ceiling" ? next.register.cashCeiling ?? "" : "");
+    setNotes("");
+    setCounted(null);
+  };
+  const closeDialog = () => {
+    setAction(null);
+    setCounted(null);
+  };
+
+  const variance = counted ? Number(counted.variance ?? 0) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Monitor className="h-5 w-5 text-slate-600" />
+          Registers
+        </CardTitle>
+        <CardDescription>
+          Each register's drawer is opened with a float and counted blind at the end of the cashier's session.
+          Choose the register this device rings sales up on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Register</TableHead>
+                <TableHead>Drawer</TableHead>
+                <TableHead>Cash ceiling</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {registers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="py-6 text-center text-sm text-muted-foreground">
+                    No registers yet. Sales are counted at store level until one is added.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                registers.map((register) => {
+                  const session = openSessions.find((open) => open.registerId === register.id);
+                  return (
+                    <TableRow key={register.id}>
+                      <TableCell className="font-medium">
+                        {register.name}
+                        {thisTill === register.id && <Badge className="ml-2" variant="secondary">This till</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {session ? (
+                          <span>
+                            Open since {session.openedAt ? new Date(session.openedAt).toLocaleTimeString() : "—"}, float {money(session.openingFloat)}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">Closed</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {canManage ? (
+                          <Button size="sm" variant="link" className="h-auto p-0" onClick={() => startAction({ kind: "ceiling", register })}>
+                            {register.cashCeiling ? money(register.cashCeiling) : "Set ceiling"}
+                          </Button>
+                        ) : register.cashCeiling ? (
+                          money(register.cashCeiling)
+                        ) : (
+                          <span className="text-muted-foreground">None</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {thisTill !== register.id && (
+                          <Button size="sm" variant="ghost" onClick={() => setRegister(storeId, register.id)}>
+                            Use on this till
+                          </Button>
+                        )}
+                        {session && thisTill === register.id && (
+                          <Button size="sm" variant="ghost" onClick={() => noSale.mutate(session.id)} disabled={noSale.isPending}>
+                            No sale
+                          </Button>
+                        )}
+                        {session && (
+                          <Button size="sm" variant="ghost" onClick={() => setMoving({ session, register })}>
+                            Cash movement
+                          </Button>
+                        )}
+                        {session ? (
+                          <Button size="sm" variant="outline" onClick={() => startAction({ kind: "count", register, session })}>
+                            Count drawer
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => startAction({ kind: "open", register })}>
+                            Open drawer
+                          </Button>
+                        )}
+                        {canManage && !session && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600"
+                            onClick={() => retireRegister.mutate(register.id)}
+                            disabled={retireRegister.isPending}
+                          >
+                            Retire
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        {canManage && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="new-register">New register</Label>
+              <Input
+                id="new-register"
+                className="w-56"
+                placeholder="Till 2"
+                value={newRegister}
+                onChange={(event) => setNewRegister(event.target.value)}
+              />
+            </div>
+            <Button size="sm" onClick={() => addRegister.mutate()} disabled={addRegister.isPending || !newRegister.trim()}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add register
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {action?.kind === "open"
+                ? `Open ${action.register.name}`
+                : action?.kind === "ceiling"
+                  ? `${action.register.name} cash ceiling`
+                  : `Count ${action?.register.name}`}
+            </DialogTitle>
+            <DialogDescription>
+              {action?.kind === "open"
+                ? "Enter the float put in the drawer."
+                : action?.kind === "ceiling"
+                  ? "The cashier is asked to drop cash to the safe once the drawer holds more than this. Leave it empty for no limit."
+                  : "Count every note and coin in the drawer and enter the total. The expected amount is shown once the count is in."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {counted ? (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between"><span>Counted</span><span className="font-mono">{money(counted.countedCash)}</span></div>
+              <div className="flex justify-between"><span>Expected</span><span className="font-mono">{money(counted.expectedCash)}</span></div>
+              <div className={cn("flex justify-between font-semibold", variance < 0 ? "text-red-600" : variance > 0 ? "text-amber-600" : "text-green-600")}>
+                <span>{variance < 0 ? "Short" : variance > 0 ? "Over" : "Balanced"}</span>
+                <span className="font-mono">{money(Math.abs(variance))}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="drawer-amount">
+                  {action?.kind === "open" ? "Opening float" : action?.kind === "ceiling" ? "Cash ceiling" : "Counted cash"}
+                </Label>
+                <Input
+                  id="drawer-amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={amount}
+                  onChange={(event) => setAmount(event.target.value)}
+                  autoFocus
+                />
+              </div>
+              {action?.kind === "count" && (
+                <div className="space-y-1">
+                  <Label htmlFor="drawer-notes">Notes</Label>
+                  <Textarea id="drawer-notes" value={notes} onChange={(event) => setNotes(event.target.value)} />
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {counted ? (
+              <Button onClick={closeDialog}>Done</Button>
+            ) : action?.kind === "ceiling" ? (
+              <Button onClick={() => setCeiling.mutate()} disabled={setCeiling.isPending}>
+                {setCeiling.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            ) : (
+              <Button onClick={() => submit.mutate()} disabled={submit.isPending || amount === ""}>
+                {submit.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                {action?.kind === "open" ? "Open drawer" : "Submit count"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {moving && (
+        <CashMovementDialog
+          open
+          onOpenChange={(open) => !open && setMoving(null)}
+          sessionId={moving.session.id}
+          registerName={moving.register.name}
+        />
+      )}
+    </Card>
+  );
+}
@@ -38,10 +38,14 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
+import LotVariancePanel from "@/components/inventory/lot-variance-panel";
 import { useToast } from "@/hooks/use-toast";
 import { usePOSStore } from "@/lib/pos-store";
 import { useStore } from "@/hooks/useStore";
 import { cn } from "@/lib/utils";
+import ReopenReasonDialog from "./reopen-reason-dialog";
+import ForeignCashCount from "./foreign-cash-count";
+import { DEFAULT_DENOMINATIONS, dayCashReconciliation, type CashCountLine, type DayCurrencyCash, type Denomination } from "@shared/denominations";
 
 interface EnhancedDayCloseModalProps {
   isOpen: boolean;
@@ -70,6 +74,7 @@ interface PerformanceMetrics {
 interface CashDenomination {
   value: number;
   label: string;
+  kind: "note" | "coin";
   count: number;
 }
 
@@ -127,19 +132,23 @@ interface DailyProductMonitoring {
   };
 }
 
+// The server's reconciliation of the day; the close is rejected if its totals disagree
+interface ServerReconciliation {
+  sales: {
+    total: number;
+    cash: number;
+    card: number;
+    credit: number;
+    split: number;
+    transactions: number;
+    counts: { cash: number; card: number; credit: number; split: number };
+  };
+  cash: { expected: number };
+  bank: { expected: number; difference: number | null };
+  totals: Record<string, number>;
+}
+
 interface ReconciliationData {
-  // Cash counts (Qatari Riyal)
-  cashCount_500: number;
-  cashCount_200: number;
-  cashCount_100: number;
-  cashCount_50: number;
-  cashCount_20: number;
-  cashCount_10: number;
-  cashCount_5: number;
-  cashCount_1: number;
-  cashCount_050: number;
-  cashCount_025: number;
-  
   // Owner transactions
   ownerDeposits: number;
   ownerWithdrawals: number;
@@ -252,6 +261,8 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   const dayStatusUrl = `/api/day-operations/status/${selectedDate}${storeId ? `?storeId=${storeId}` : ""}`;
   const openDayUrl = `/api/day-operations/open${storeId ? `?storeId=${storeId}` : ""}`;
   const [cashMovements, setCashMovements] = useState<CashMovement[]>([]);
+  // Notes and coins counted at close: currency -> denomination -> how many
+  const [cashCount, setCashCount] = useState<Record<string, Record<number, number>>>({});
   
   // Convert selectedDate string to Date for format function
   const selectedDateObj = new Date(selectedDate);
@@ -268,16 +279,6 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   });
 
   const [reconciliationData, setReconciliationData] = useState<ReconciliationData>({
-    cashCount_500: 0,
-    cashCount_200: 0,
-    cashCount_100: 0,
-    cashCount_50: 0,
-    cashCount_20: 0,
-    cashCount_10: 0,
-    cashCount_5: 0,
-    cashCount_1: 0,
-    cashCount_050: 0,
-    cashCount_025: 0,
     ownerDeposits: 0,
     ownerWithdrawals: 0,
     ownerBankDeposits: 0,
@@ -306,6 +307,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReopenReasonOpen, setIsReopenReasonOpen] = useState(false);
 
   // Tab validation state (Phase 2.3 Enhancement)
   const [tabValidation, setTabValidation] = useState({
@@ -348,9 +350,9 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
 
   // Get supplier payments for selected date for auto-population
   const { data: todaySupplierPayments } = useQuery({
-    queryKey: ["/api/supplier-payments/date", selectedDate],
+    queryKey: ["/api/supplier-payments/date", selectedDate, storeId],
     queryFn: async () => {
-      const response = await fetch(`/api/supplier-payments/date/${selectedDate}`);
+      const response = await fetch(`/api/supplier-payments/date/${selectedDate}${storeId ? `?storeId=${storeId}` : ""}`);
       if (!response.ok) throw new Error('Failed to fetch supplier payments');
       return response.json();
     },
@@ -368,6 +370,34 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
     enabled: isOpen && Boolean(storeId)
   });
 
+  // Drops, pickups, paid-ins and paid-outs recorded at the registers; taken as recorded, not re-keyed
+  const { data: drawerMovements } = useQuery<{ paidIn: number; paidOut: number; dropped: number; pickedUp: number }>({
+    queryKey: [`/api/day-operations/${dayOpForDate?.id}/drawer-movements`],
+    enabled: isOpen && Boolean(dayOpForDate?.id),
+  });
+  const drawerPaidIn = drawerMovements?.paidIn ?? 0;
+  const drawerPaidOut = drawerMovements?.paidOut ?? 0;
+  const drawerDropped = (drawerMovements?.dropped ?? 0) + (drawerMovements?.pickedUp ?? 0);
+
+  // Sales, credit and supplier figures and the expected balances, worked out on the server
+  // from the day's records and the movements declared on this form
+  const declaredParams = new URLSearchParams({
+    ownerDeposits: String(reconciliationData.ownerDeposits || 0),
+    ownerWithdrawals: String(reconciliationData.ownerWithdrawals || 0),
+    ownerBankDeposits: String(reconciliationData.ownerBankDeposits || 0),
+    ownerBankWithdrawals: String(reconciliationData.ownerBankWithdrawals || 0),
+    expensePayments: String(reconciliationData.expensePayments || 0),
+    bankWithdrawals: String(reconciliationData.bankWithdrawals || 0),
+    bankTransfers: String(reconciliationData.bankTransfers || 0),
+    actualBankBalance: String(reconciliationData.actualBankBalance || 0),
+  });
+  const reconciliationUrl = `/api/day-operations/${dayOpForDate?.id}/reconciliation?${declaredParams}`;
+  const { data: serverReconciliation } = useQuery<ServerReconciliation>({
+    queryKey: [reconciliationUrl],
+    enabled: isOpen && Boolean(dayOpForDate?.id),
+    placeholderData: (previous) => previous,
+  });
+
   // Get day status for selected date
   const { data: dayStatus, isLoading: loadingStatus } = useQuery({
     queryKey: [dayStatusUrl],
@@ -383,16 +413,6 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   // Reset reconciliation data when date changes
   useEffect(() => {
     setReconciliationData({
-      cashCount_500: 0,
-      cashCount_200: 0,
-      cashCount_100: 0,
-      cashCount_50: 0,
-      cashCount_20: 0,
-      cashCount_10: 0,
-      cashCount_5: 0,
-      cashCount_1: 0,
-      cashCount_050: 0,
-      cashCount_025: 0,
       ownerDeposits: 0,
       ownerWithdrawals: 0,
       ownerBankDeposits: 0,
@@ -420,43 +440,66 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
       editableOpeningBankBalance: undefined
     });
     setCashMovements([]);
+    setCashCount({});
   }, [selectedDate]);
 
-  const cashDenominations: CashDenomination[] = [
-    { value: 500, label: "QR 500", count: reconciliationData.cashCount_500 },
-    { value: 200, label: "QR 200", count: reconciliationData.cashCount_200 },
-    { value: 100, label: "QR 100", count: reconciliationData.cashCount_100 },
-    { value: 50, label: "QR 50", count: reconciliationData.cashCount_50 },
-    { value: 20, label: "QR 20", count: reconciliationData.cashCount_20 },
-    { value: 10, label: "QR 10", count: reconciliationData.cashCount_10 },
-    { value: 5, label: "QR 5", count: reconciliationData.cashCount_5 },
-    { value: 1, label: "QR 1", count: reconciliationData.cashCount_1 },
-    { value: 0.50, label: "50 Dirhams", count: reconciliationData.cashCount_050 },
-    { value: 0.25, label: "25 Dirhams", count: reconciliationData.cashCount_025 }
-  ];
-
-  // Helper to get the correct denomination key
-  const getDenominationKey = (value: number): keyof ReconciliationData => {
-    if (value >= 1) {
-      return `cashCount_${value}` as keyof ReconciliationData;
-    } else {
-      // For decimal values: 0.50 -> 050, 0.25 -> 025
-      const decimalPart = Math.round(value * 100);
-      return `cashCount_0${decimalPart}` as keyof ReconciliationData;
-    }
-  };
+  const { data: denominationSets } = useQuery<Record<string, Denomination[]>>({
+    queryKey: ["/api/denomination-sets"],
+    enabled: isOpen,
+  });
+
+  // Foreign cash in the drawers: opening count, cash sales taken in it and the day's rate
+  const { data: currencyCash } = useQuery<{ baseCurrency: string; date: string; currencies: DayCurrencyCash[] }>({
+    queryKey: [`/api/day-operations/${dayOpForDate?.id}/currency-cash`],
+    enabled: isOpen && Boolean(dayOpForDate?.id),
+  });
+  const baseCurrency = currencyCash?.baseCurrency ?? currentStore?.baseCurrency ?? "QAR";
+  const foreignCurrencies = currencyCash?.currencies ?? [];
+  const denominationsFor = (currency: string) =>
+    denominationSets?.[currency] ?? DEFAULT_DENOMINATIONS[currency] ?? [];
+
+  const cashDenominations: CashDenomination[] = denominationsFor(baseCurrency).map((denomination) => ({
+    ...denomination,
+    count: cashCount[baseCurrency]?.[denomination.value] ?? 0,
+  }));
+  const baseNotes = cashDenominations.filter((denomination) => denomination.kind === "note");
+  const baseCoins = cashDenominations.filter((denomination) => denomination.kind === "coin");
+
+  const cashCountLines: CashCountLine[] = Object.entries(cashCount).flatMap(([currency, counts]) =>
+    Object.entries(counts)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([denomination, quantity]) => ({ currency, denomination: Number(denomination), quantity })),
+  );
 
   // Calculate totals from transaction data with split payment support
   function calculateTotals() {
+    if (serverReconciliation) {
+      const { sales } = serverReconciliation;
+      return {
+        totalSales: sales.total,
+        cashSales: sales.cash,
+        cardSales: sales.card,
+        creditSales: sales.credit,
+        splitSales: sales.split,
+        totalTransactions: sales.transactions,
+        cashTransactionCount: sales.counts.cash,
+        cardTransactionCount: sales.counts.card,
+        creditTransactionCount: sales.counts.credit,
+        splitTransactionCount: sales.counts.split
+      };
+    }
+
     const cashTransactions = todayTransactions.filter((t: any) => t.paymentMethod === 'cash');
     const cardTransactions = todayTransactions.filter((t: any) => t.paymentMethod === 'card');
     const creditTransactions = todayTransactions.filter((t: any) => t.paymentMethod === 'credit');
     const splitTransactions = todayTransactions.filter((t: any) => t.paymentMethod === 'split');
 
-    const cashSales = cashTransactions.reduce((sum: number, t: any) => sum + parseFloat(t.total || "0"), 0);
-    const cardSales = cardTransactions.reduce((sum: number, t: any) => sum + parseFloat(t.total || "0"), 0);
-    const creditSales = creditTransactions.reduce((sum: number, t: any) => sum + parseFloat(t.total || "0"), 0);
-    const splitSales = splitTransactions.reduce((sum: number, t: any) => sum + parseFloat(t.total || "0"), 0);
+    // Sales taken in another currency count at their base-currency value
+    const baseTotal = (t: any) => parseFloat(t.baseCurrencyTotal || t.total || "0");
+    const cashSales = cashTransactions.reduce((sum: number, t: any) => sum + baseTotal(t), 0);
+    const cardSales = cardTransactions.reduce((sum: number, t: any) => sum + baseTotal(t), 0);
+    const creditSales = creditTransactions.reduce((sum: number, t: any) => sum + baseTotal(t), 0);
+    const splitSales = splitTransactions.reduce((sum: number, t: any) => sum + baseTotal(t), 0);
     const totalSales = cashSales + cardSales + creditSales + splitSales;
 
     return {
@@ -493,14 +536,15 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
     // Calculate actual vs expected cash
     const actualCashCount = calculateActualCashCount();
     const expectedCash = calculateExpectedCash();
-    const cashVariance = actualCashCount - expectedCash;
+    const cashVariance = calculateCurrencyReconciliation().totalVarianceInBase;
 
     // Calculate bank variance (must match the full calculation below)
     const actualBankBalance = parseFloat(reconciliationData.actualBankBalance.toString()) || 0;
     const openingBankBalance = parseFloat(currentDayOp.openingBankBalance || "0");
     const netOwnerBankMovement = (reconciliationData.ownerBankDeposits || 0) - (reconciliationData.ownerBankWithdrawals || 0);
     const netBankTransfers = reconciliationData.bankTransfers || 0; // Positive = cash to bank, Negative = bank to cash
-    const expectedBankBalance = openingBankBalance + totals.cardSales + (reconciliationData.creditPaymentsCard || 0) + netOwnerBankMovement + netBankTransfers - (reconciliationData.bankWithdrawals || 0);
+    const expectedBankBalance = serverReconciliation?.bank.expected ??
+      openingBankBalance + totals.cardSales + (reconciliationData.creditPaymentsCard || 0) + netOwnerBankMovement + netBankTransfers - (reconciliationData.bankWithdrawals || 0) - parseFloat(currentDayOp.cardRefunds || "0");
     const bankVariance = actualBankBalance - expectedBankBalance;
 
     const totalVariance = Math.abs(cashVariance) + Math.abs(bankVariance);
@@ -588,6 +632,16 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
 
   // Auto-populate credit transactions from actual data
   const autoCreditPayments = useMemo(() => {
+    if (serverReconciliation) {
+      const { totals } = serverReconciliation;
+      return {
+        cashPayments: totals.creditPaymentsCash,
+        cardPayments: totals.creditPaymentsCard,
+        refunds: totals.creditRefundsGiven,
+        total: totals.creditPaymentsCash + totals.creditPaymentsCard
+      };
+    }
+
     const cashPayments = todayCreditTransactions
       .filter((credit: any) => credit.type === 'payment' && credit.paymentMethod === 'cash')
       .reduce((sum: number, credit: any) => sum + parseFloat(credit.amount || 0), 0);
@@ -601,19 +655,21 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
       .reduce((sum: number, credit: any) => sum + parseFloat(credit.amount || 0), 0);
 
     return { cashPayments, cardPayments, refunds, total: cashPayments + cardPayments };
-  }, [todayCreditTransactions]);
+  }, [todayCreditTransactions, serverReconciliation]);
 
   // Auto-populate supplier payments from actual data
   const autoSupplierPayments = useMemo(() => {
+    if (serverReconciliation) return serverReconciliation.totals.supplierPayments;
     if (!todaySupplierPayments?.totals) return 0;
     
     // Return only cash supplier payments (not including card payments in cash reconciliation)
     return todaySupplierPayments.totals.cash;
-  }, [todaySupplierPayments]);
+  }, [todaySupplierPayments, serverReconciliation]);
 
   // FULLY AUTOMATED: Auto-populate ALL financial data when data loads
   useEffect(() => {
-    if (!isOpen || !dayOpForDate) return;
+    // Wait for the server's figures so the fields start from what the close will accept
+    if (!isOpen || !dayOpForDate || !serverReconciliation) return;
 
     const totals = calculateTotals();
     const currentDayOp = dayOpForDate || dayOperation;
@@ -670,7 +726,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
       }
       return prev;
     });
-  }, [isOpen, dayOpForDate, todayTransactions, autoCreditPayments, autoSupplierPayments, dayOperation]);
+  }, [isOpen, dayOpForDate, serverReconciliation, autoCreditPayments, autoSupplierPayments, dayOperation]);
 
   // Calculate actual cash count from denominations
   const calculateActualCashCount = () => {
@@ -681,6 +737,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
 
   // Calculate expected cash based on opening cash and transactions
   const calculateExpectedCash = () => {
+    if (serverReconciliation) return serverReconciliation.cash.expected;
     const currentDayOp = dayOpForDate || dayOperation;
     const openingCash = reconciliationData.editableOpeningCash ?? parseFloat(currentDayOp?.openingCash || "0");
     const totals = calculateTotals();
@@ -696,11 +753,26 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
     const expensePayments = reconciliationData.expensePayments;
     const creditRefunds = reconciliationData.creditRefundsGiven;
     const bankTransfers = reconciliationData.bankTransfers;
+    // Cash paid back on returns, recorded by the returns ledger
+    const saleRefunds = parseFloat(currentDayOp?.cashRefunds || "0");
+    // Foreign notes taken as payment are in their own currency's pile, not this one
+    const foreignCashSales = foreignCurrencies.reduce((sum, currency) => sum + currency.cashSalesInBase, 0);
     
-    return openingCash + cashSales + ownerDeposits + creditPaymentsCash 
-           - ownerWithdrawals - supplierPayments - expensePayments - creditRefunds - bankTransfers;
+    return openingCash + cashSales + ownerDeposits + creditPaymentsCash + drawerPaidIn
+           - ownerWithdrawals - supplierPayments - expensePayments - creditRefunds - bankTransfers - saleRefunds
+           - drawerPaidOut - drawerDropped - foreignCashSales;
   };
 
+  // Every currency's count against what it should be, the variance converted to the base currency
+  const calculateCurrencyReconciliation = () =>
+    dayCashReconciliation({
+      baseCurrency,
+      baseExpected: calculateExpectedCash(),
+      extraBaseCash: reconciliationData.cashMiscAmount,
+      counts: cashCountLines,
+      currencies: foreignCurrencies,
+    });
+
   // Enhanced cash calculation considering all cash movements
   const currentDayOp = dayOpForDate || dayOperation;
   const openingCash = reconciliationData.editableOpeningCash ?? parseFloat(currentDayOp?.openingCash || "0");
@@ -730,7 +802,8 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   // Calculate actual cash count and expected cash
   const actualCashCount = calculateActualCashCount();
   const expectedCash = calculateExpectedCash();
-  const cashVariance = actualCashCount - expectedCash;
+  const currencyReconciliation = calculateCurrencyReconciliation();
+  const cashVariance = currencyReconciliation.totalVarianceInBase;
   
   // Get variance analysis and performance metrics
   const varianceAnalysis = calculateVarianceAnalysis();
@@ -745,7 +818,8 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   const cardSwipeVariance = reconciliationData.posCardSwipeAmount - cardReconciliationTotal;
   
   // Bank balance includes card sales, card credit payments, owner bank movements, and bank transfers
-  const expectedBankBalance = openingBankBalance + actualTotals.cardSales + (reconciliationData.creditPaymentsCard || 0) + netOwnerBankMovement + netBankTransfers - reconciliationData.bankWithdrawals;
+  const expectedBankBalance = serverReconciliation?.bank.expected ??
+    openingBankBalance + actualTotals.cardSales + (reconciliationData.creditPaymentsCard || 0) + netOwnerBankMovement + netBankTransfers - reconciliationData.bankWithdrawals - parseFloat(currentDayOp?.cardRefunds || "0");
   const bankVariance = reconciliationData.actualBankBalance - expectedBankBalance;
   
   // Store card swipe variance in reconciliation data
@@ -791,10 +865,10 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   // Calculate net credit movement for display
   const netCreditMovement = (reconciliationData.creditPaymentsCash || 0) + (reconciliationData.creditPaymentsCard || 0) - (reconciliationData.creditRefundsGiven || 0);
 
-  const updateCashCount = (denominationKey: keyof ReconciliationData, value: number) => {
-    setReconciliationData(prev => ({
+  const updateCashCount = (denomination: number, value: number, currency = baseCurrency) => {
+    setCashCount(prev => ({
       ...prev,
-      [denominationKey]: Math.max(0, value)
+      [currency]: { ...prev[currency], [denomination]: Math.max(0, value) }
     }));
   };
 
@@ -862,6 +936,8 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
         creditNetImpact: netCreditMovement,
         // All other reconciliation data
         ...reconciliationData,
+        // The server settles the variance across currencies from this count
+        cashCounts: cashCountLines,
         status: 'closed',
         closedAt: new Date().toISOString()
       };
@@ -929,6 +1005,8 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
     },
     onError: (error: any) => {
       console.error("Day close error:", error);
+      // A rejected close may mean the day's records moved on; show the server's latest figures
+      queryClient.invalidateQueries({ queryKey: [reconciliationUrl] });
       const errorMessage = error?.response?.data?.message || error?.message || "Failed to close day. Please try again.";
       toast({
         title: "Error Closing Day",
@@ -939,7 +1017,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   });
 
   const reopenDayMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (reason: string) => {
       if (!dayOpForDate) {
         throw new Error('No day operation found for selected date');
       }
@@ -969,7 +1047,8 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
 
       const reopenResponse = await apiRequest({
         url: `/api/day-operations/${dayOpForDate.id}/reopen`,
-        method: "PATCH"
+        method: "PATCH",
+        body: { reason }
       });
 
       // Safely parse JSON response, handling empty or malformed responses
@@ -1014,6 +1093,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/daily-monitoring"] });
       
+      setIsReopenReasonOpen(false);
       onClose();
       
       // NO PAGE RELOAD - React Query handles data refresh automatically!
@@ -1036,7 +1116,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
   };
 
   const handleReopen = () => {
-    reopenDayMutation.mutate();
+    setIsReopenReasonOpen(true);
   };
 
   if (!isOpen) return null;
@@ -1470,18 +1550,9 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                         onClick={() => {
                           setReconciliationData(prev => ({
                             ...prev,
-                            cashCount_500: 0,
-                            cashCount_200: 0,
-                            cashCount_100: 0,
-                            cashCount_50: 0,
-                            cashCount_20: 0,
-                            cashCount_10: 0,
-                            cashCount_5: 0,
-                            cashCount_1: 0,
-                            cashCount_050: 0,
-                            cashCount_025: 0,
                             cashMiscAmount: 0
                           }));
+                          setCashCount({});
                           toast({
                             title: "Cash Count Reset",
                             description: "All denomination counts have been cleared."
@@ -1518,8 +1589,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                           Large Bills
                         </h4>
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-                          {cashDenominations.slice(0, 3).map((denom, index) => {
-                            const denomKey = getDenominationKey(denom.value);
+                          {baseNotes.slice(0, 3).map((denom, index) => {
                             return (
                               <div key={index} className="group relative p-4 border-2 rounded-xl bg-white dark:bg-slate-900 hover:border-emerald-500 transition-all">
                                 <div className="flex items-center justify-between mb-3">
@@ -1533,7 +1603,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                                     type="button"
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => updateCashCount(denomKey, Math.max(0, denom.count - 1))}
+                                    onClick={() => updateCashCount(denom.value, Math.max(0, denom.count - 1))}
                                     className="h-10 w-10 p-0 shrink-0"
                                     disabled={denom.count === 0}
                                   >
@@ -1543,14 +1613,14 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                                     type="number"
                                     min="0"
                                     value={denom.count}
-                                    onChange={(e) => updateCashCount(denomKey, parseInt(e.target.value) || 0)}
+                                    onChange={(e) => updateCashCount(denom.value, parseInt(e.target.value) || 0)}
                                     className="h-10 text-center text-xl font-semibold"
                                   />
                                   <Button
                                     type="button"
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => updateCashCount(denomKey, denom.count + 1)}
+                                    onClick={() => updateCashCount(denom.value, denom.count + 1)}
                                     className="h-10 w-10 p-0 shrink-0"
                                   >
                                     <Plus className="h-4 w-4" />
@@ -1574,8 +1644,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                           Medium Bills
                         </h4>
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
-                          {cashDenominations.slice(3, 7).map((denom, index) => {
-                            const denomKey = getDenominationKey(denom.value);
+                          {baseNotes.slice(3).map((denom, index) => {
                             return (
                               <div key={index} className="group relative p-3 border-2 rounded-xl bg-white dark:bg-slate-900 hover:border-blue-500 transition-all">
                                 <div className="flex items-center justify-between mb-2">
@@ -1589,7 +1658,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                                     type="button"
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => updateCashCount(denomKey, Math.max(0, denom.count - 1))}
+                                    onClick={() => updateCashCount(denom.value, Math.max(0, denom.count - 1))}
                                     className="h-9 w-9 p-0 shrink-0"
                                     disabled={denom.count === 0}
                                   >
@@ -1599,14 +1668,14 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                                     type="number"
                                     min="0"
                                     value={denom.count}
-                                    onChange={(e) => updateCashCount(denomKey, parseInt(e.target.value) || 0)}
+                                    onChange={(e) => updateCashCount(denom.value, parseInt(e.target.value) || 0)}
                                     className="h-9 text-center text-lg font-semibold"
                                   />
                                   <Button
                                     type="button"
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => updateCashCount(denomKey, denom.count + 1)}
+                                    onClick={() => updateCashCount(denom.value, denom.count + 1)}
                                     className="h-9 w-9 p-0 shrink-0"
                                   >
                                     <Plus className="h-3 w-3" />
@@ -1627,11 +1696,10 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                       <div>
                         <h4 className="text-xs font-semibold text-muted-foreground mb-3 flex items-center gap-2">
                           <Coins className="h-4 w-4" />
-                          Coins (Dirhams)
+                          Coins
                         </h4>
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-                          {cashDenominations.slice(7).map((denom, index) => {
-                            const denomKey = getDenominationKey(denom.value);
+                          {baseCoins.map((denom, index) => {
                             return (
                               <div key={index} className="group relative p-3 border-2 rounded-xl bg-white dark:bg-slate-900 hover:border-amber-500 transition-all">
                                 <div className="flex items-center justify-between mb-2">
@@ -1645,7 +1713,7 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                                     type="button"
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => updateCashCount(denomKey, Math.max(0, denom.count - 1))}
+                                    onClick={() => updateCashCount(denom.value, Math.max(0, denom.count - 1))}
                                     className="h-9 w-9 p-0 shrink-0"
                                     disabled={denom.count === 0}
                                   >
@@ -1655,14 +1723,14 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                                     type="number"
                                     min="0"
                                     value={denom.count}
-                                    onChange={(e) => updateCashCount(denomKey, parseInt(e.target.value) || 0)}
+                                    onChange={(e) => updateCashCount(denom.value, parseInt(e.target.value) || 0)}
                                     className="h-9 text-center text-base font-semibold"
                                   />
                                   <Button
                                     type="button"
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => updateCashCount(denomKey, denom.count + 1)}
+                                    onClick={() => updateCashCount(denom.value, denom.count + 1)}
                                     className="h-9 w-9 p-0 shrink-0"
                                   >
                                     <Plus className="h-3 w-3" />
@@ -1714,6 +1782,15 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                     </div>
                   </CardContent>
                 </Card>
+
+                <ForeignCashCount
+                  baseCurrency={baseCurrency}
+                  currencies={foreignCurrencies}
+                  reconciliation={currencyReconciliation}
+                  denominationsFor={denominationsFor}
+                  counts={cashCount}
+                  onCountChange={(currency, denomination, quantity) => updateCashCount(denomination, quantity, currency)}
+                />
               </TabsContent>
 
               {/* Movements & Bank Tab - Combines Cash Movements + Bank Reconciliation */}
@@ -2033,6 +2110,18 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                           <span>Credit Refunds Given:</span>
                           <span className="text-red-600">-QR {(reconciliationData.creditRefundsGiven || 0).toFixed(2)}</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span>Sale Refunds (Cash){currentDayOp?.refundCount ? ` · ${currentDayOp.refundCount} returns` : ''}:</span>
+                          <span className="text-red-600">-QR {parseFloat(currentDayOp?.cashRefunds || "0").toFixed(2)}</span>
+                        </div>
+                        {(parseFloat(currentDayOp?.cardRefunds || "0") > 0 || parseFloat(currentDayOp?.storeCreditRefunds || "0") > 0) && (
+                          <div className="flex justify-between text-xs text-slate-500">
+                            <span>Card / Store Credit Refunds:</span>
+                            <span>
+                              QR {parseFloat(currentDayOp?.cardRefunds || "0").toFixed(2)} / QR {parseFloat(currentDayOp?.storeCreditRefunds || "0").toFixed(2)}
+                            </span>
+                          </div>
+                        )}
                         <div className="flex justify-between">
                           <span>Expense Payments:</span>
                           <span className="text-red-600">-QR {reconciliationData.expensePayments.toFixed(2)}</span>
@@ -2045,6 +2134,30 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                           <span>Bank Transfers:</span>
                           <span>QR {reconciliationData.bankTransfers.toFixed(2)} {reconciliationData.bankTransfers > 0 ? '(to bank)' : reconciliationData.bankTransfers < 0 ? '(from bank)' : ''}</span>
                         </div>
+                        {(drawerPaidIn > 0 || drawerPaidOut > 0 || drawerDropped > 0) && (
+                          <>
+                            <div className="flex justify-between">
+                              <span>Till Paid In:</span>
+                              <span>QR {drawerPaidIn.toFixed(2)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span>Till Paid Out:</span>
+                              <span className="text-red-600">-QR {drawerPaidOut.toFixed(2)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span>Dropped to Safe / Picked Up:</span>
+                              <span className="text-red-600">-QR {drawerDropped.toFixed(2)}</span>
+                            </div>
+                          </>
+                        )}
+                        {currencyReconciliation.lines.length > 1 && (
+                          <div className="flex justify-between">
+                            <span>Taken in Other Currencies:</span>
+                            <span className="text-red-600">
+                              -QR {foreignCurrencies.reduce((sum, currency) => sum + currency.cashSalesInBase, 0).toFixed(2)}
+                            </span>
+                          </div>
+                        )}
                         <Separator />
                         <div className="flex justify-between font-bold">
                           <span>Expected Cash:</span>
@@ -2061,6 +2174,27 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                           <span>Cash Variance:</span>
                           <span>QR {cashVariance.toFixed(2)}</span>
                         </div>
+                        {currencyReconciliation.lines.length > 1 && (
+                          <div className="space-y-1 text-xs text-slate-500">
+                            {currencyReconciliation.lines.map((line) => (
+                              <div key={line.currency} className="flex justify-between">
+                                <span>{line.currency} variance:</span>
+                                <span>
+                                  {line.currency} {line.variance.toFixed(2)}
+                                  {line.currency !== baseCurrency && ` = QR ${line.varianceInBase?.toFixed(2) ?? "—"}`}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {currencyReconciliation.missingRates.length > 0 && (
+                          <Alert>
+                            <AlertTriangle className="h-4 w-4" />
+                            <AlertDescription>
+                              Add an exchange rate for {currencyReconciliation.missingRates.join(", ")} before closing the day.
+                            </AlertDescription>
+                          </Alert>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -2095,6 +2229,8 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
                     </CardContent>
                   </Card>
                 </div>
+
+                <DrawerRollUpCard dayOperationId={dayOpForDate?.id} />
               </TabsContent>
             </Tabs>
           )}
@@ -2158,10 +2294,103 @@ export default function EnhancedDayCloseModal({ isOpen, onClose, dayOperation }:
           </div>
         </div>
       </DialogContent>
+
+      <ReopenReasonDialog
+        isOpen={isReopenReasonOpen}
+        onClose={() => setIsReopenReasonOpen(false)}
+        onConfirm={(reason) => reopenDayMutation.mutate(reason)}
+        isPending={reopenDayMutation.isPending}
+        date={dayOpForDate?.date}
+      />
     </Dialog>
   );
 }
 
+// Drawer sessions of the day, each with the variance found at its blind count
+interface DrawerRollUp {
+  drawers: {
+    sessionId: number;
+    registerName: string;
+    status: string;
+    openingFloat: number;
+    expectedCash: number | null;
+    countedCash: number | null;
+    variance: number | null;
+  }[];
+  openDrawers: number;
+  totals: { openingFloat: number; expectedCash: number; countedCash: number; variance: number };
+}
+
+function DrawerRollUpCard({ dayOperationId }: { dayOperationId?: number }) {
+  const { data: rollUp } = useQuery<DrawerRollUp>({
+    queryKey: [`/api/day-operations/${dayOperationId}/drawers`],
+    enabled: !!dayOperationId,
+  });
+
+  if (!rollUp || rollUp.drawers.length === 0) return null;
+
+  const amount = (value: number | null) => (value === null ? "—" : `QR ${value.toFixed(2)}`);
+  const varianceClass = (value: number | null) =>
+    value === null || Math.abs(value) < 0.01 ? "" : value < 0 ? "text-red-600" : "text-amber-600";
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Coins className="h-5 w-5" />
+          Drawers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rollUp.openDrawers > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {rollUp.openDrawers} drawer{rollUp.openDrawers === 1 ? " is" : "s are"} still open. Count every drawer on the Till page before closing the day.
+            </AlertDescription>
+          </Alert>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-slate-500">
+                <th className="py-2 font-medium">Register</th>
+                <th className="py-2 text-right font-medium">Float</th>
+                <th className="py-2 text-right font-medium">Expected</th>
+                <th className="py-2 text-right font-medium">Counted</th>
+                <th className="py-2 text-right font-medium">Variance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rollUp.drawers.map((drawer) => (
+                <tr key={drawer.sessionId} className="border-b last:border-0">
+                  <td className="py-2">
+                    {drawer.registerName}
+                    {drawer.status === "open" && <Badge variant="outline" className="ml-2">Open</Badge>}
+                  </td>
+                  <td className="py-2 text-right">{amount(drawer.openingFloat)}</td>
+                  <td className="py-2 text-right">{amount(drawer.expectedCash)}</td>
+                  <td className="py-2 text-right">{amount(drawer.countedCash)}</td>
+                  <td className={cn("py-2 text-right", varianceClass(drawer.variance))}>{amount(drawer.variance)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-bold">
+                <td className="py-2">Total counted</td>
+                <td className="py-2 text-right">{amount(rollUp.totals.openingFloat)}</td>
+                <td className="py-2 text-right">{amount(rollUp.totals.expectedCash)}</td>
+                <td className="py-2 text-right">{amount(rollUp.totals.countedCash)}</td>
+                <td className={cn("py-2 text-right", varianceClass(rollUp.totals.variance))}>{amount(rollUp.totals.variance)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 // Product Monitoring Tab Component
 interface ProductMonitoringTabProps {
   dayOperationId?: number;
@@ -2435,6 +2664,12 @@ function ProductMonitoringTab({ dayOperationId }: ProductMonitoringTabProps) {
                   </div>
                   
                   <div className="space-y-3">
+                    <LotVariancePanel
+                      monitoringId={item.id}
+                      reconciled={!!item.isReconciled}
+                      notes={reconciliationNotes[item.id]}
+                      onReconciled={() => queryClient.invalidateQueries({ queryKey: [`/api/day-operations/${dayOperationId}/product-monitoring`] })}
+                    />
                     {item.isReconciled && (
                       <div className="p-3 border rounded-lg bg-gray-50">
                         <h5 className="font-medium text-gray-700 mb-2">Reconciliation Summary</h5>
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Globe } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { currencyDecimals, type CurrencyReconciliation, type DayCurrencyCash, type Denomination } from "@shared/denominations";
+
+interface ForeignCashCountProps {
+  baseCurrency: string;
+  currencies: DayCurrencyCash[];
+  reconciliation: CurrencyReconciliation;
+  denominationsFor: (currency: string) => Denomination[];
+  counts: Record<string, Record<number, number>>;
+  onCountChange: (currency: string, denomination: number, quantity: number) => void;
+}
+
+/**
+ * Counts the notes and coins held in currencies other than the store's own,
+ * each against its opening count plus the cash sales taken in it.
+ */
+export default function ForeignCashCount({
+  baseCurrency,
+  currencies,
+  reconciliation,
+  denominationsFor,
+  counts,
+  onCountChange,
+}: ForeignCashCountProps) {
+  const [added, setAdded] = useState<string[]>([]);
+
+  // Currencies the day held or took are always counted; others once added
+  const shown = currencies.filter(
+    (currency) => currency.opening !== 0 || currency.cashSales !== 0 || added.includes(currency.currency) || counts[currency.currency],
+  );
+  const addable = currencies.filter((currency) => !shown.includes(currency));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Globe className="h-5 w-5 text-sky-600" />
+            Other Currencies
+          </CardTitle>
+          {addable.length > 0 && (
+            <Select value="" onValueChange={(currency) => setAdded((prev) => [...prev, currency])}>
+              <SelectTrigger className="h-8 w-44 text-xs">
+                <SelectValue placeholder="Count another currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {addable.map((currency) => (
+                  <SelectItem key={currency.currency} value={currency.currency}>{currency.currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Variances are converted to {baseCurrency} at the rate in effect on the day.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {shown.length === 0 && (
+          <p className="text-sm text-muted-foreground">No cash in other currencies was held or taken today.</p>
+        )}
+        {shown.map((currency) => {
+          const line = reconciliation.lines.find((candidate) => candidate.currency === currency.currency);
+          const variance = line?.variance ?? 0;
+          const decimals = currencyDecimals(currency.currency);
+          return (
+            <div key={currency.currency} className="rounded-lg border p-3 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="font-semibold">{currency.currency}</span>
+                <span className="text-muted-foreground">
+                  Opening {currency.opening.toFixed(decimals)} + cash sales {currency.cashSales.toFixed(decimals)}
+                </span>
+                {currency.rate === null ? (
+                  <Badge variant="destructive">No rate</Badge>
+                ) : (
+                  <Badge variant="outline">1 {currency.currency} = {currency.rate.toFixed(4)} {baseCurrency}</Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-4 lg:grid-cols-6">
+                {denominationsFor(currency.currency).map((denomination) => (
+                  <div key={denomination.value} className="space-y-1">
+                    <Label className="text-xs">{denomination.label}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={counts[currency.currency]?.[denomination.value] ?? 0}
+                      onChange={(e) => onCountChange(currency.currency, denomination.value, parseInt(e.target.value) || 0)}
+                      className="h-8 text-center"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <div>
+                  <p className="text-xs text-muted-foreground">Expected</p>
+                  <p className="font-medium">{(line?.expected ?? 0).toFixed(decimals)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Counted</p>
+                  <p className="font-medium">{(line?.counted ?? 0).toFixed(decimals)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Variance</p>
+                  <p className={cn("font-medium", Math.abs(variance) < 0.001 ? "" : variance < 0 ? "text-red-600" : "text-amber-600")}>
+                    {variance.toFixed(decimals)}
+                    {line?.varianceInBase !== null && line?.varianceInBase !== undefined && variance !== 0 && (
+                      <span className="ml-1 text-xs text-muted-foreground">({baseCurrency} {line.varianceInBase.toFixed(2)})</span>
+                    )}
+                  </p>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
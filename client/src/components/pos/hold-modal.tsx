@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useStore } from "@/hooks/useStore";
 
 interface HoldModalProps {
   isOpen: boolean;
@@ -29,6 +30,7 @@ export default function HoldModal({ isOpen, onClose }: HoldModalProps) {
     getCartVAT,
     getCartTotal 
   } = usePOSStore();
+  const { currentStore } = useStore();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -67,6 +69,7 @@ export default function HoldModal({ isOpen, onClose }: HoldModalProps) {
         url: "/api/held-transactions",
         method: "POST",
         body: {
+          storeId: currentStore?.id ?? null,
           transactionData: JSON.stringify(transactionData),
           customerId: currentCustomer?.id || null,
           holdReason: holdReason.trim() || "Customer request",
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ShieldCheck, KeyRound, IdCard } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { APPROVAL_ACTION_LABELS, type ApprovalPrompt } from "@/lib/approvals";
+
+interface ManagerApprovalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The approval token for the cashier's next request
+  onApproved: (token: string) => void;
+  storeId: number;
+  request: ApprovalPrompt | null;
+  defaultReason?: string;
+}
+
+export default function ManagerApprovalModal({
+  isOpen,
+  onClose,
+  onApproved,
+  storeId,
+  request,
+  defaultReason = "",
+}: ManagerApprovalModalProps) {
+  const [method, setMethod] = useState<"pin" | "badge">("pin");
+  const [username, setUsername] = useState("");
+  const [pin, setPin] = useState("");
+  const [badgeCode, setBadgeCode] = useState("");
+  const [reason, setReason] = useState(defaultReason);
+  const [error, setError] = useState<string | null>(null);
+
+  // Credentials never outlive a single prompt
+  useEffect(() => {
+    if (isOpen) {
+      setUsername("");
+      setPin("");
+      setBadgeCode("");
+      setReason(defaultReason);
+      setError(null);
+    }
+  }, [isOpen, defaultReason]);
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/approvals", {
+        action: request!.action,
+        amount: request!.amount,
+        transactionId: request!.transactionId,
+        storeId,
+        reason,
+        ...(method === "pin" ? { username, pin } : { badgeCode }),
+      });
+      return response.json() as Promise<{ token: string }>;
+    },
+    onSuccess: ({ token }) => {
+      onApproved(token);
+    },
+    onError: (error: any) => {
+      setPin("");
+      setBadgeCode("");
+      setError(error.message || "Approval failed");
+    },
+  });
+
+  const canSubmit = reason.trim().length > 0 &&
+    (method === "pin" ? username.trim().length > 0 && pin.length > 0 : badgeCode.trim().length > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!request || !canSubmit) return;
+    setError(null);
+    approveMutation.mutate();
+  };
+
+  if (!request) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-sm" aria-describedby="manager-approval-description">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ShieldCheck className="w-5 h-5 mr-2 text-amber-600" />
+            Manager Approval
+          </DialogTitle>
+          <DialogDescription id="manager-approval-description">
+            {request.message || `${APPROVAL_ACTION_LABELS[request.action]} needs manager approval`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="bg-amber-50 border border-amber-200 p-3 rounded-lg text-sm flex justify-between">
+            <span className="text-amber-800">{APPROVAL_ACTION_LABELS[request.action]}</span>
+            <span className="font-semibold text-amber-900">QR {request.amount.toFixed(2)}</span>
+          </div>
+
+          <Tabs value={method} onValueChange={(value) => setMethod(value as "pin" | "badge")}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="pin">
+                <KeyRound className="w-4 h-4 mr-2" />
+                PIN
+              </TabsTrigger>
+              <TabsTrigger value="badge">
+                <IdCard className="w-4 h-4 mr-2" />
+                Badge
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="pin" className="space-y-3 pt-2">
+              <div>
+                <Label htmlFor="approval-username">Manager username</Label>
+                <Input
+                  id="approval-username"
+                  autoComplete="off"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  autoFocus
+                />
+              </div>
+              <div>
+                <Label htmlFor="approval-pin">PIN</Label>
+                <Input
+                  id="approval-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                  maxLength={8}
+                />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="badge" className="pt-2">
+              <Label htmlFor="approval-badge">Scan badge</Label>
+              <Input
+                id="approval-badge"
+                type="password"
+                autoComplete="off"
+                value={badgeCode}
+                onChange={(e) => setBadgeCode(e.target.value)}
+                placeholder="Scan or type the badge code"
+              />
+            </TabsContent>
+          </Tabs>
+
+          <div>
+            <Label htmlFor="approval-reason">Reason</Label>
+            <Textarea
+              id="approval-reason"
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is this being approved?"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || approveMutation.isPending}>
+              {approveMutation.isPending ? "Checking..." : "Approve"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
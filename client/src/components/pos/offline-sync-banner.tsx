@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+import { useStore } from "@/hooks/useStore";
+import { AlertTriangle, RefreshCw, WifiOff } from "lucide-react";
+import type { ApprovalPrompt } from "@/lib/approvals";
+import type { OfflineTransaction } from "@/lib/offline-storage";
+import ManagerApprovalModal from "./manager-approval-modal";
+
+const approvalFor = (sale: OfflineTransaction) => sale.conflicts?.find((conflict) => conflict.approval)?.approval;
+
+export default function OfflineSyncBanner() {
+  const { currentStore } = useStore();
+  const { isOnline, isSyncing, queuedSales, conflictedSales, syncNow, retry, discard } = useOfflineSync(currentStore?.id);
+  // A sale held back for a manager's approval, retried with the token once given
+  const [approving, setApproving] = useState<{ saleId: string; storeId: number; request: ApprovalPrompt } | null>(null);
+
+  if (isOnline && queuedSales.length === 0 && conflictedSales.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {(!isOnline || queuedSales.length > 0) && (
+        <Alert className="bg-amber-50 border-amber-200">
+          <WifiOff className="h-4 w-4 text-amber-600" />
+          <AlertTitle className="text-sm font-bold text-amber-900">
+            {isOnline ? "Syncing Offline Sales" : "Working Offline"}
+          </AlertTitle>
+          <AlertDescription className="flex items-center justify-between gap-4 text-xs text-amber-800">
+            <span>
+              {queuedSales.length} sale{queuedSales.length === 1 ? "" : "s"} waiting to sync.
+              {!isOnline && " Sales will be sent automatically when the connection returns."}
+            </span>
+            {isOnline && (
+              <Button size="sm" variant="outline" onClick={syncNow} disabled={isSyncing} className="bg-white">
+                <RefreshCw className={`h-3 w-3 mr-1 ${isSyncing ? "animate-spin" : ""}`} />
+                Sync Now
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {conflictedSales.length > 0 && (
+        <Alert variant="destructive" className="bg-rose-50 border-rose-200">
+          <AlertTriangle className="h-4 w-4 text-rose-600" />
+          <AlertTitle className="text-sm font-bold text-rose-900">
+            {conflictedSales.length} Offline Sale{conflictedSales.length === 1 ? "" : "s"} Rejected
+          </AlertTitle>
+          <AlertDescription className="space-y-2 text-xs text-rose-700">
+            {conflictedSales.map((sale) => (
+              <div key={sale.id} className="flex items-center justify-between gap-4">
+                <span>
+                  <strong>{sale.data?.transactionNumber ?? sale.id}</strong> ({sale.data?.total} {sale.data?.currency}):{" "}
+                  {sale.conflicts?.map((conflict) => conflict.message).join(" ")}
+                </span>
+                <div className="flex gap-2">
+                  {approvalFor(sale) ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="bg-white"
+                      onClick={() => setApproving({ saleId: sale.id, storeId: Number(sale.data?.storeId), request: approvalFor(sale)! })}
+                      disabled={!isOnline || isSyncing}
+                    >
+                      Get Approval
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" className="bg-white" onClick={() => retry(sale.id)} disabled={!isOnline || isSyncing}>
+                      Retry
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="bg-white border-rose-300 text-rose-700"
+                    onClick={() => {
+                      if (confirm("Discard this offline sale? It will not be recorded.")) {
+                        discard(sale.id);
+                      }
+                    }}
+                  >
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {approving && (
+        <ManagerApprovalModal
+          isOpen
+          onClose={() => setApproving(null)}
+          onApproved={(token) => {
+            retry(approving.saleId, token);
+            setApproving(null);
+          }}
+          storeId={approving.storeId}
+          request={approving.request}
+          defaultReason="Offline sale"
+        />
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useLocation } from "wouter";
-import { usePOSStore } from "@/lib/pos-store";
+import { lineAmount, usePOSStore } from "@/lib/pos-store";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { offlineStorage, createIdempotencyKey, isNetworkError } from "@/lib/offline-storage";
 import { useAuth } from "@/hooks/useAuth";
+import { readApprovalPrompt, type ApprovalPrompt } from "@/lib/approvals";
 import { 
   Dialog, 
   DialogContent, 
@@ -31,6 +33,7 @@ import {
 } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import ReceiptModal from "./receipt-modal";
+import ManagerApprovalModal from "./manager-approval-modal";
 
 export default function PaymentModal() {
   const { toast } = useToast();
@@ -49,10 +52,18 @@ export default function PaymentModal() {
     getCartVAT,
     getCartTotal,
     getTransactionDiscount,
+    getPromotionDiscount,
+    promotionLines,
+    appliedPromotions,
+    couponCode,
+    discountApprovalToken,
     clearCart,
     clearTransactionDiscount,
-    setResumedHeldTransactionId
+    setResumedHeldTransactionId,
+    registerByStore
   } = usePOSStore();
+  // A payment the server refused until a manager approves a discount or price change
+  const [pendingApproval, setPendingApproval] = useState<{ paymentData: any; prompt: ApprovalPrompt } | null>(null);
   const [, navigate] = useLocation();
 
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>("");
@@ -63,6 +74,13 @@ export default function PaymentModal() {
   const [generatedInvoice, setGeneratedInvoice] = useState<any>(null);
   const [whatsappLink, setWhatsappLink] = useState<string>("");
   const [shouldAutoPrint, setShouldAutoPrint] = useState(false);
+  // One key per checkout so retries (and offline replays) are only recorded once
+  const idempotencyKeyRef = useRef<string | null>(null);
+
+  // A different cart is a different sale
+  useEffect(() => {
+    idempotencyKeyRef.current = null;
+  }, [cartItems]);
 
   // Fetch fresh customer data when store credit is selected to ensure we have latest balance
   const { data: freshCustomerData, isLoading: isLoadingCustomer } = useQuery({
@@ -104,7 +122,8 @@ export default function PaymentModal() {
     const subtotal = getCartSubtotal();
     const vat = getCartVAT();
     const transactionDiscount = getTransactionDiscount();
-    const total = subtotal + vat - transactionDiscount;  // Cash amount validation with numeric checks
+    const promotionDiscount = getPromotionDiscount();
+    const total = subtotal + vat - transactionDiscount - promotionDiscount;  // Cash amount validation with numeric checks
   const parsedCash = parseFloat(cashTendered);
   const safeCashTendered = isNaN(parsedCash) || parsedCash < 0 ? 0 : parsedCash;
   const changeDue = safeCashTendered > 0 ? Math.max(0, safeCashTendered - total) : 0;
@@ -143,17 +162,30 @@ export default function PaymentModal() {
       // Get transaction-level discount
       const totalDiscount = getTransactionDiscount();
 
+      if (!idempotencyKeyRef.current) {
+        idempotencyKeyRef.current = createIdempotencyKey();
+      }
+
       // Prepare transaction data
       const transactionPayload = {
+        idempotencyKey: idempotencyKeyRef.current,
         transactionNumber: currentTransactionNumber,
         customerId: currentCustomer?.id || null,
         cashierId: user?.id || null,
         storeId: currentStore.id,
+        registerId: registerByStore[currentStore.id] ?? null,
         subtotal: subtotal.toFixed(2),
         tax: vat.toFixed(2),
         vatAmount: vat.toFixed(2), // VAT amount same as tax
         discountAmount: totalDiscount.toFixed(2),
-        promotionDiscountAmount: "0.00", // No promotion discounts
+        promotionDiscountAmount: promotionDiscount.toFixed(2),
+        // Recorded as promotion usage; the server re-checks coupons and limits first
+        couponCode,
+        appliedPromotions: appliedPromotions.map(promotion => ({
+          promotionId: promotion.promotionId,
+          discountAmount: promotion.discountAmount,
+        })),
+        approvalTokens: [discountApprovalToken, ...(paymentData.approvalTokens ?? [])].filter(Boolean),
         total: total.toFixed(2),
         status: "completed",
         paymentMethod: paymentData.method,
@@ -166,24 +198,26 @@ export default function PaymentModal() {
         baseCurrencyTotal: total.toFixed(2),
         orderType: "pos",
         tipAmount: null,
-        items: cartItems.filter(item => !item.sku?.startsWith('DISCOUNT-')).map(item => {
-          const price = parseFloat(item.price);
+        items: cartItems.filter(item => !item.sku?.startsWith('DISCOUNT-')).map((item, index) => {
           const quantity = item.quantity;
-          const baseTotal = price * quantity; // Subtotal for this item (before VAT, before discount)
+          const baseTotal = lineAmount(item); // Subtotal for this item (before VAT, before discount)
           const itemVatRate = item.vatRate || 0; // Default 0% VAT
           const vatAmount = (baseTotal * itemVatRate) / 100; // VAT on base total
           
-          // For transaction-level discount, we don't calculate item-level discount here
-          // The discount is applied at transaction level only
+          // Manual transaction discounts stay at transaction level; promotion discounts
+          // are recorded on the lines they were given on so reports can attribute them
+          const allocation = promotionLines[index]?.sku === item.sku ? promotionLines[index] : undefined;
           
           return {
             productId: item.productId,
             quantity: quantity,
+            unit: item.unit ?? null,
             unitPrice: item.price,
             total: baseTotal.toFixed(2), // Item total before VAT (price × quantity)
             vatRate: itemVatRate.toFixed(2),
             vatAmount: vatAmount.toFixed(2), // VAT calculated on base total
-            discountAmount: "0.00", // Transaction-level discount, not item-level
+            discountAmount: (allocation?.discountAmount ?? 0).toFixed(2),
+            promotionId: allocation?.promotionId ?? null,
             originalUnitPrice: item.price
           };
         })
@@ -191,10 +225,19 @@ export default function PaymentModal() {
 
       console.log("Sending transaction payload:", JSON.stringify(transactionPayload, null, 2));
 
-      // Create transaction with proper request format
-      const transactionResponse = await apiRequest("POST", "/api/transactions", transactionPayload);
+      // Create transaction with proper request format; queue it locally if the network is down
+      if (!navigator.onLine) {
+        return await queueOfflineSale(transactionPayload);
+      }
 
-      return transactionResponse;
+      try {
+        return await apiRequest("POST", "/api/transactions", transactionPayload);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          return await queueOfflineSale(transactionPayload);
+        }
+        throw error;
+      }
     } catch (error: any) {
       // If authentication error and we haven't retried yet, try once more
       if (retryCount === 0 && (
@@ -216,15 +259,33 @@ export default function PaymentModal() {
     }
   };
 
+  // Store the sale for later sync and hand back a provisional receipt
+  const queueOfflineSale = async (transactionPayload: any): Promise<Response> => {
+    const capturedAt = new Date().toISOString();
+    await offlineStorage.queueSale({ ...transactionPayload, capturedAt });
+    window.dispatchEvent(new CustomEvent("offlineSaleQueued"));
+
+    const { items, ...transaction } = transactionPayload;
+    return new Response(JSON.stringify({
+      transaction: { ...transaction, createdAt: capturedAt, status: "pending_sync" },
+      transactionItems: items,
+      offline: true,
+    }));
+  };
+
   const processPaymentMutation = useMutation({
     mutationFn: processPaymentWithRetry,
     onSuccess: async (response: any) => {
+      const data = await response.json();
+      idempotencyKeyRef.current = null;
+
       toast({
-        title: "Payment Processed",
-        description: "Transaction completed successfully",
+        title: data.offline ? "Sale Saved Offline" : "Payment Processed",
+        description: data.offline
+          ? "No connection. The sale will sync automatically when the network returns."
+          : "Transaction completed successfully",
       });
-      
-      const data = await response.json();
+
       // Store transaction data for receipt  
       setCompletedTransaction(data.transaction || data);
       setTransactionItems(data.transactionItems || []);
@@ -311,7 +372,13 @@ export default function PaymentModal() {
         });
       }
     },
-    onError: (error: any) => {
+    onError: (error: any, paymentData) => {
+      const approvalPrompt = readApprovalPrompt(error);
+      if (approvalPrompt) {
+        setPendingApproval({ paymentData, prompt: approvalPrompt });
+        return;
+      }
+
       console.error("Payment error:", error);
       console.error("Error response:", error?.response);
       console.error("Error data:", error?.response?.data);
@@ -333,7 +400,7 @@ export default function PaymentModal() {
       let description = errorMessage || "Failed to process payment. Please try again.";
       
       // If we have validation details, show them
-      if (errorDetails) {
+      if (typeof errorDetails === "string") {
         description = `${errorMessage}: ${errorDetails}`;
       }
       
@@ -406,6 +473,15 @@ export default function PaymentModal() {
         });
         return;
       }
+
+      if (errorCode === "INSUFFICIENT_STOCK") {
+        toast({
+          title: "Not Enough Stock",
+          description: `${errorMessage}. This store does not allow selling below zero; adjust the cart or receive stock first.`,
+          variant: "destructive",
+        });
+        return;
+      }
       
       toast({
         title,
@@ -713,6 +789,12 @@ export default function PaymentModal() {
                   <span>-QR {transactionDiscount.toFixed(2)}</span>
                 </div>
               )}
+              {promotionDiscount > 0 && (
+                <div className="flex justify-between text-green-600 dark:text-green-400">
+                  <span>Promotions:</span>
+                  <span>-QR {promotionDiscount.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between font-semibold text-lg border-t pt-1 mt-1">
                 <span>Total Amount:</span>
                 <span>QR {total.toFixed(2)}</span>
@@ -812,6 +894,25 @@ export default function PaymentModal() {
         </DialogContent>
       </Dialog>
 
+      {currentStore && (
+        <ManagerApprovalModal
+          isOpen={!!pendingApproval}
+          onClose={() => setPendingApproval(null)}
+          onApproved={(token) => {
+            if (pendingApproval) {
+              const { paymentData } = pendingApproval;
+              processPaymentMutation.mutate({
+                ...paymentData,
+                approvalTokens: [...(paymentData.approvalTokens ?? []), token],
+              });
+            }
+            setPendingApproval(null);
+          }}
+          storeId={currentStore.id}
+          request={pendingApproval?.prompt ?? null}
+        />
+      )}
+
       {showReceiptModal && (
         <ReceiptModal
           isOpen={showReceiptModal}
@@ -19,9 +19,11 @@ import CartTable from "@/components/pos/cart-table";
 import ReduceItemModal from "@/components/pos/reduce-item-modal";
 import { useStore } from "@/hooks/useStore";
 import { apiRequest } from "@/lib/queryClient";
+import { findCachedProductByBarcode, isNetworkError, searchCachedProducts } from "@/lib/offline-storage";
 import { format } from "date-fns";
 import { safePaymentMethod, safeCurrencyFormat } from "@/lib/error-handler";
 import type { Transaction } from "@shared/schema";
+import { addScannedProduct, lookUpBarcode, type BarcodeLookup } from "@/lib/barcode-scan";
 import { MdEmail, MdWhatsapp } from "react-icons/md";
 import {
   Camera,
@@ -117,17 +119,18 @@ export default function ProductSearchBar({
   };
 
   // Automatic barcode lookup
+  // With the store given, scale labels come back with the weight or price they carry
   const { data: barcodeProduct, isLoading: barcodeLoading } = useQuery({
-    queryKey: ["/api/products/barcode", searchQuery],
-    queryFn: async () => {
+    queryKey: ["/api/products/barcode", searchQuery, currentStore?.id],
+    queryFn: async (): Promise<BarcodeLookup> => {
       if (!isBarcode(searchQuery)) return null;
       try {
-        const res = await fetch(
-          `/api/products/barcode/${encodeURIComponent(searchQuery)}`,
-        );
-        if (!res.ok) return null;
-        return res.json();
+        return await lookUpBarcode(searchQuery, currentStore?.id);
       } catch (error) {
+        // Offline: look the code up in the cached store catalog
+        if (isNetworkError(error) && currentStore?.id) {
+          return findCachedProductByBarcode(currentStore.id, searchQuery.trim());
+        }
         return null;
       }
     },
@@ -146,6 +149,9 @@ export default function ProductSearchBar({
         if (!res.ok) return null;
         return res.json();
       } catch (error) {
+        if (isNetworkError(error) && currentStore?.id) {
+          return findCachedProductByBarcode(currentStore.id, searchQuery.trim().toUpperCase());
+        }
         return null;
       }
     },
@@ -166,13 +172,23 @@ export default function ProductSearchBar({
       return;
     }
 
+    if (barcodeProduct && "scanError" in barcodeProduct) {
+      processedBarcodeRef.current = searchQuery.trim();
+      toast({
+        title: "Label Not Accepted",
+        description: barcodeProduct.scanError,
+        variant: "destructive",
+      });
+      setSearchQuery("");
+      return;
+    }
+
     // Product found - add to cart
     if (barcodeProduct) {
       processedBarcodeRef.current = searchQuery.trim();
-      addToCart(barcodeProduct, 1, currentStore?.id);
       toast({
         title: "Product Added",
-        description: `${barcodeProduct.name} added to cart automatically`,
+        description: addScannedProduct(barcodeProduct, currentStore?.id),
       });
       setSearchQuery("");
       return;
@@ -223,6 +239,9 @@ export default function ProductSearchBar({
         if (!res.ok) return [];
         return res.json();
       } catch (error) {
+        if (isNetworkError(error) && currentStore?.id) {
+          return searchCachedProducts(currentStore.id, searchQuery);
+        }
         return [];
       }
     },
@@ -50,11 +50,15 @@ import AddItemModal from "./add-item-modal";
 import DiscountModal from "./discount-modal";
 import HoldModal from "./hold-modal";
 import ReceiptModal from "./receipt-modal";
+import VariantPicker from "./variant-picker";
 import AIProductModal from "@/components/inventory/ai-product-modal";
 import { BarcodeScanner } from "@/components/ui/barcode-scanner";
 import { ProductSkeleton } from "@/components/ui/skeleton-loader";
 import LoadingSpinner from "@/components/ui/loading-spinner";
 import { useStore } from "@/hooks/useStore";
+import { fetchWithOfflineCache, OFFLINE_CACHE_KEYS } from "@/lib/offline-storage";
+import { addScannedProduct, lookUpBarcode, type BarcodeLookup } from "@/lib/barcode-scan";
+import { isVariantParent } from "@shared/variants";
 
 interface ProductSectionProps {
   searchQuery?: string;
@@ -115,6 +119,7 @@ export default function ProductSection({
   const [selectedTransactionItems, setSelectedTransactionItems] = useState<any[]>([]);
   const [selectedCustomer, setSelectedCustomer] = useState<any>(null);
   const [currentPage, setCurrentPage] = useState(0);
+  const [variantParent, setVariantParent] = useState<any>(null);
   const { addToCart, openScanner, cartItems } = usePOSStore();
   const { currentStore } = useStore();
   const { toast } = useToast();
@@ -130,9 +135,7 @@ export default function ProductSection({
         return [];
       }
       console.log('[POS] Fetching products for store:', currentStore.id, currentStore.name);
-      const response = await fetch(`/api/stores/${currentStore.id}/products`);
-      if (!response.ok) throw new Error('Failed to fetch store products');
-      const data = await response.json();
+      const data = await fetchWithOfflineCache(OFFLINE_CACHE_KEYS.storeProducts(currentStore.id));
       console.log('[POS] Received', data.length, 'products for store', currentStore.id);
       return data;
     },
@@ -292,7 +295,9 @@ export default function ProductSection({
 
   // Smart product filtering and sorting with improved fuzzy search
   const getFilteredProducts = () => {
-    let products = searchQuery.trim() ? searchResults : allProducts.slice(0, 20);
+    // Variants are picked through their parent unless searched for by name or code
+    const browsable = allProducts.filter((product: any) => !product.parentId);
+    let products = searchQuery.trim() ? searchResults : browsable.slice(0, 20);
 
     // Enhanced local fuzzy search as fallback if API search fails or for immediate feedback
     if (searchQuery.trim() && searchResults.length === 0) {
@@ -320,7 +325,7 @@ export default function ProductSection({
 
     // Apply category filter if not searching
     if (!searchQuery.trim() && searchCategory !== "all") {
-      products = allProducts.filter(
+      products = browsable.filter(
         (p: any) => p.category?.toLowerCase() === searchCategory.toLowerCase(),
       );
     }
@@ -372,21 +377,17 @@ export default function ProductSection({
     return /^[A-Z0-9\-_]{3,20}$/.test(cleaned) && /[A-Z]/.test(cleaned);
   };
 
-  // Automatic barcode lookup for exact matches
+  // Automatic barcode lookup for exact matches and the store's scale labels
   const {
     data: barcodeProduct,
     error: barcodeError,
     isLoading: barcodeLoading,
   } = useQuery({
-    queryKey: ["/api/products/barcode", searchQuery],
-    queryFn: async () => {
+    queryKey: ["/api/products/barcode", searchQuery, currentStore?.id],
+    queryFn: async (): Promise<BarcodeLookup> => {
       if (!isBarcode(searchQuery)) return null;
       try {
-        const res = await fetch(
-          `/api/products/barcode/${encodeURIComponent(searchQuery)}`,
-        );
-        if (!res.ok) return null;
-        return res.json();
+        return await lookUpBarcode(searchQuery, currentStore?.id);
       } catch (error) {
         return null;
       }
@@ -425,6 +426,17 @@ export default function ProductSection({
       return;
     }
 
+    if (barcodeProduct && "scanError" in barcodeProduct) {
+      processedBarcodeRef.current = searchQuery.trim();
+      toast({
+        title: "Label Not Accepted",
+        description: barcodeProduct.scanError,
+        variant: "destructive",
+      });
+      setSearchQuery("");
+      return;
+    }
+
     // Product found - check stock and add to cart
     if (barcodeProduct) {
       processedBarcodeRef.current = searchQuery.trim();
@@ -438,10 +450,9 @@ export default function ProductSection({
         setSearchQuery(""); // Clear search
         return;
       }
-      addToCart(barcodeProduct);
       toast({
         title: "Product Added",
-        description: `${barcodeProduct.name} added to cart automatically`,
+        description: addScannedProduct(barcodeProduct, currentStore?.id),
       });
       setSearchQuery(""); // Clear search after adding
       return;
@@ -465,7 +476,7 @@ export default function ProductSection({
 
       return () => clearTimeout(timer);
     }
-  }, [barcodeProduct, barcodeLoading, searchQuery, addToCart, toast, setSearchQuery, setAISearchQuery, setShowAIProductModal]);
+  }, [barcodeProduct, barcodeLoading, searchQuery, addToCart, toast, setSearchQuery, setAISearchQuery, setShowAIProductModal, currentStore?.id]);
 
   // Effect to automatically add SKU products to cart
   useEffect(() => {
@@ -522,6 +533,10 @@ export default function ProductSection({
   }, [cartItems.length, toast]);
 
   const handleProductClick = (product: any) => {
+    if (isVariantParent(product)) {
+      setVariantParent(product);
+      return;
+    }
     // Check stock before adding
     const currentStock = product.stock ?? product.quantity ?? 0;
     if (currentStock <= 0) {
@@ -739,8 +754,9 @@ export default function ProductSection({
             {/* Compact Product List */}
             <div className="space-y-2">
               {paginatedProducts.map((product: any) => {
+                const isParent = isVariantParent(product);
                 const currentStock = product.stock ?? product.quantity ?? 0;
-                const isOutOfStock = currentStock <= 0;
+                const isOutOfStock = !isParent && currentStock <= 0;
                 const isLowStock = currentStock > 0 && currentStock <= 10;
                 
                 return (
@@ -780,7 +796,11 @@ export default function ProductSection({
                           <Badge variant="outline" className="text-xs">
                             {product.sku}
                           </Badge>
-                          {product.stock !== undefined && (
+                          {isParent ? (
+                            <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700 border-blue-300">
+                              Choose variant
+                            </Badge>
+                          ) : product.stock !== undefined && (
                             <Badge
                               variant="outline"
                               className={`text-xs ${
@@ -857,6 +877,16 @@ export default function ProductSection({
         onScan={handleBarcodeScanned}
       />
 
+      <VariantPicker
+        parent={variantParent}
+        storeId={currentStore?.id}
+        onClose={() => setVariantParent(null)}
+        onPick={(variant) => {
+          setVariantParent(null);
+          handleProductClick(variant);
+        }}
+      />
+
       {/* Recent Sales Modal */}
       <Dialog open={showRecentSales} onOpenChange={setShowRecentSales}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -1,10 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import { Sparkles, Tag, Percent } from "lucide-react";
+import { Sparkles, Tag, Percent, Ticket } from "lucide-react";
 import { usePOSStore } from "@/lib/pos-store";
 import { useStore } from "@/hooks/useStore";
-import { useMemo } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { PromotionEvaluation } from "@/lib/promotions";
+import { useEffect, useMemo } from "react";
 
 interface Promotion {
   id: number;
@@ -14,14 +15,14 @@ interface Promotion {
 }
 
 export default function PromotionIndicator() {
-  const { cartItems } = usePOSStore();
+  const { cartItems, currentCustomer, appliedPromotions, setAppliedPromotions, couponCode } = usePOSStore();
   const { currentStore } = useStore();
 
   // Create a stable identifier from cart items to avoid unnecessary refetches
   const cartKey = useMemo(() => {
     if (cartItems.length === 0) return "empty";
     return cartItems
-      .map(item => `${item.productId}:${item.quantity}`)
+      .map(item => `${item.productId}:${item.sku}:${item.price}:${item.quantity}`)
       .sort()
       .join(",");
   }, [cartItems]);
@@ -33,47 +34,45 @@ export default function PromotionIndicator() {
     refetchOnWindowFocus: false,
   });
 
-  const { data: applicablePromotions = [] } = useQuery<Promotion[]>({
-    queryKey: ["/api/promotions/applicable", cartKey],
-    enabled: cartItems.length > 0 && !!currentStore && cartKey !== "empty",
+  // The server resolves overlapping deals; the cart just shows the outcome
+  const { data: evaluation } = useQuery<PromotionEvaluation>({
+    queryKey: ["/api/promotions/apply", currentStore?.id, cartKey, currentCustomer?.id ?? null, couponCode],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/promotions/apply", {
+        storeId: currentStore!.id,
+        customerId: currentCustomer?.id,
+        couponCodes: couponCode ? [couponCode] : [],
+        items: cartItems
+          .filter(item => !item.sku?.startsWith('DISCOUNT-'))
+          .map(item => ({
+            productId: item.productId,
+            sku: item.sku,
+            quantity: item.quantity,
+            price: item.price,
+          })),
+      });
+      return response.json();
+    },
+    enabled: cartKey !== "empty" && !!currentStore && (activePromotions.length > 0 || !!couponCode),
     staleTime: 5000, // Cache for 5 seconds
     refetchOnWindowFocus: false,
   });
 
-  const handleApplyPromotions = async () => {
-    try {
-      for (const promotion of applicablePromotions) {
-        const response = await fetch('/api/promotions/apply', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          credentials: 'include',
-          body: JSON.stringify({
-            promotionId: promotion.id,
-            cartItems: cartItems.map(item => ({
-              productId: item.productId,
-              quantity: item.quantity,
-              price: item.price
-            }))
-          })
-        });
-        
-        if (response.ok) {
-          const result = await response.json();
-          console.log(`Applied promotion ${promotion.name}:`, result);
-          // Update POS store with promotion discount
-          const discountEvent = new CustomEvent('promotionApplied', {
-            detail: { promotion: promotion, discount: result.discount }
-          });
-          window.dispatchEvent(discountEvent);
-        }
-      }
-    } catch (error) {
-      console.error('Error applying promotions:', error);
+  // Clear deals as soon as the cart changes so a stale discount is never charged
+  useEffect(() => {
+    if (cartKey === "empty" || !evaluation) {
+      setAppliedPromotions([]);
+    } else {
+      setAppliedPromotions(evaluation.appliedPromotions, evaluation.lines ?? []);
     }
-  };
+  }, [evaluation, cartKey, setAppliedPromotions]);
+
+  const couponRejection = evaluation?.coupons?.find(coupon => coupon.rejection)?.rejection;
 
   // Safely check if activePromotions exists and has length
-  if (!activePromotions || activePromotions.length === 0) return null;
+  if ((!activePromotions || activePromotions.length === 0) && !couponCode) return null;
+
+  const promotionDiscount = appliedPromotions.reduce((sum, promotion) => sum + promotion.discountAmount, 0);
 
   return (
     <div className="flex items-center space-x-2 flex-wrap">
@@ -85,35 +84,32 @@ export default function PromotionIndicator() {
         </Badge>
       </div>
 
-      {applicablePromotions && applicablePromotions.length > 0 && (
-        <div className="flex items-center space-x-2">
-          <Badge className="text-xs bg-green-100 border-green-200 text-green-700 animate-pulse">
-            <Percent className="w-3 h-3 mr-1" />
-            {applicablePromotions.length} Available
-          </Badge>
-          <Button
-            onClick={handleApplyPromotions}
-            size="sm"
-            className="text-xs bg-green-600 hover:bg-green-700 text-white"
-          >
-            Apply Now
-          </Button>
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={handleApplyPromotions}
-            className="h-6 text-xs px-2 bg-green-50 dark:bg-green-950/30 hover:bg-green-100 dark:hover:bg-green-900/30 border-green-200"
-          >
-            Apply Discounts
-          </Button>
-        </div>
+      {appliedPromotions.length > 0 && (
+        <Badge
+          className="text-xs bg-green-100 border-green-200 text-green-700"
+          title={appliedPromotions.map(promotion => promotion.name).join(", ")}
+        >
+          <Percent className="w-3 h-3 mr-1" />
+          {appliedPromotions.length} Applied · -QR {promotionDiscount.toFixed(2)}
+        </Badge>
       )}
 
-      {applicablePromotions && applicablePromotions.length === 0 && cartItems.length > 0 && (
+      {couponCode && (
+        <Badge
+          variant="outline"
+          className={couponRejection ? "text-xs border-red-200 bg-red-50 text-red-700" : "text-xs border-blue-200 bg-blue-50 text-blue-700"}
+          title={couponRejection?.message}
+        >
+          <Ticket className="w-3 h-3 mr-1" />
+          {couponCode}{couponRejection ? " · not applied" : ""}
+        </Badge>
+      )}
+
+      {appliedPromotions.length === 0 && cartItems.length > 0 && (
         <Badge variant="outline" className="text-xs text-muted-foreground">
           Add more items for discounts
         </Badge>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
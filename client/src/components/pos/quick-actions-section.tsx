@@ -1,4 +1,4 @@
-import { Plus, Percent, RotateCcw, Pause, CreditCard, Coins, Tags, Printer, UserPlus, X } from "lucide-react";
+import { Plus, Percent, RotateCcw, Pause, CreditCard, Coins, Tags, Printer, Tag, UserPlus, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { usePOSStore } from "@/lib/pos-store";
@@ -26,7 +26,9 @@ export default function QuickActionsSection() {
     getTransactionDiscount,
     transactionDiscountType,
     transactionDiscountValue,
-    clearTransactionDiscount
+    clearTransactionDiscount,
+    appliedPromotions,
+    promotionDiscount
   } = usePOSStore();
   const [, navigate] = useLocation();
   const { toast } = useToast();
@@ -41,7 +43,8 @@ export default function QuickActionsSection() {
   const vat = getCartVAT();
   const totalDiscountAmount = getTransactionDiscount();
   const grandTotal = subtotal + vat; // Total before discount
-  const total = grandTotal - totalDiscountAmount; // Final total after discount
+  const total = grandTotal - totalDiscountAmount - promotionDiscount; // Final total after discounts and promotions
+  const itemNames = new Map(cartItems.map(item => [item.sku, item.name]));
   
   // Calculate discount percentage
   const discountPercent = transactionDiscountType === 'percentage' && transactionDiscountValue > 0 
@@ -285,6 +288,24 @@ export default function QuickActionsSection() {
                     {totalDiscountAmount > 0 ? `-QR ${totalDiscountAmount.toFixed(2)}` : 'QR 0.00'}
                   </span>
                 </div>
+                {appliedPromotions.map((promotion) => (
+                  <div key={promotion.promotionId} className="mb-1">
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-green-700 flex items-center gap-1 min-w-0">
+                        <Tag className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{promotion.name}</span>
+                      </span>
+                      <span className="text-sm font-semibold text-green-700">-QR {promotion.discountAmount.toFixed(2)}</span>
+                    </div>
+                    {/* Items the deal used */}
+                    {promotion.items.map((item) => (
+                      <div key={item.sku} className="flex justify-between pl-4 text-xs text-slate-500">
+                        <span className="truncate">{item.quantity} × {itemNames.get(item.sku) || item.sku}</span>
+                        <span>-QR {item.discountAmount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
                 <div className="flex justify-between items-center pt-2 border-t border-slate-300">
                   <span className="text-base font-bold text-slate-900">Total Amount:</span>
                   <span className="text-xl font-bold text-slate-900">QR {total.toFixed(2)}</span>
@@ -34,7 +34,8 @@ export default function QuickCheckout() {
     getCartVAT,
     getCartTotal,
     clearCart,
-    setResumedHeldTransactionId
+    setResumedHeldTransactionId,
+    registerByStore
   } = usePOSStore();
 
   const [showReceiptModal, setShowReceiptModal] = useState(false);
@@ -70,6 +71,7 @@ export default function QuickCheckout() {
       const transactionResponse = await apiRequest("POST", "/api/transactions", {
         transactionNumber: currentTransactionNumber,
         storeId: currentStore.id,
+        registerId: registerByStore[currentStore.id] ?? null,
         customerId: currentCustomer?.id || null,
         cashierId: 1, // Default cashier
         subtotal: getCartSubtotal().toFixed(2),
@@ -84,6 +86,7 @@ export default function QuickCheckout() {
         items: cartItems.map(item => ({
           productId: item.productId,
           quantity: item.quantity,
+          unit: item.unit ?? null,
           unitPrice: item.price,
           total: item.total
         }))
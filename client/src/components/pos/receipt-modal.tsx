@@ -274,9 +274,10 @@ export default function ReceiptModal({
 
     transactionItems.forEach(item => {
       const productName = (item as any).productName || (item as any).name || 'Unknown Product';
-      const price = parseFloat((item as any).unitPrice || item.total) / item.quantity || 0;
+      const quantity = Number(item.quantity);
+      const price = parseFloat((item as any).unitPrice || item.total) / quantity || 0;
       lines.push(`${productName}`);
-      lines.push(`  Qty: ${item.quantity} x QR ${price.toFixed(2)} = QR ${(price * item.quantity).toFixed(2)}`);
+      lines.push(`  Qty: ${quantity}${item.unit ? ` ${item.unit}` : ''} x QR ${price.toFixed(2)} = QR ${(price * quantity).toFixed(2)}`);
     });
 
     lines.push("");
@@ -482,7 +483,7 @@ export default function ReceiptModal({
   const subtotal = transactionItems.reduce((sum, item) => {
     // Use unitPrice if available, otherwise calculate from total
     const price = parseFloat((item as any).unitPrice || String(item.total)) || 0;
-    return sum + (price * item.quantity);
+    return sum + (price * Number(item.quantity));
   }, 0);
   
   // Use actual VAT from transaction (5% in Qatar), not hardcoded 8%
@@ -586,7 +587,8 @@ export default function ReceiptModal({
             <div className="space-y-2 mb-4">
               {transactionItems.map((item) => {
                 const productName = (item as any).productName || (item as any).name || 'Unknown Product';
-                const price = parseFloat((item as any).unitPrice || item.total) / item.quantity || 0;
+                const quantity = Number(item.quantity);
+                const price = parseFloat((item as any).unitPrice || item.total) / quantity || 0;
                 return (
                   <div key={item.id}>
                     <div className="flex justify-between">
@@ -594,8 +596,8 @@ export default function ReceiptModal({
                       <span>QR {price.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between text-xs text-gray-600">
-                      <span>Qty: {item.quantity}</span>
-                      <span>Total: QR {(price * item.quantity).toFixed(2)}</span>
+                      <span>Qty: {quantity}{item.unit ? ` ${item.unit}` : ''}</span>
+                      <span>Total: QR {(price * quantity).toFixed(2)}</span>
                     </div>
                   </div>
                 );
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { 
   Dialog, 
   DialogContent, 
@@ -8,16 +8,32 @@ import {
   DialogDescription 
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { RefreshCw, AlertTriangle, CheckCircle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { readApprovalPrompt, type ApprovalPrompt } from "@/lib/approvals";
 import { useToast } from "@/hooks/use-toast";
-import type { Transaction } from "@shared/schema";
+import { REFUND_METHODS, RETURN_REASON_CODES, type Transaction } from "@shared/schema";
+import {
+  REFUND_METHOD_LABELS,
+  RETURN_REASON_LABELS,
+  getAllowedRefundMethods,
+  type ReturnableItem,
+} from "@/lib/returns";
+import ManagerApprovalModal from "./manager-approval-modal";
+import { usePOSStore } from "@/lib/pos-store";
 
 interface RefundModalProps {
   isOpen: boolean;
@@ -26,9 +42,9 @@ interface RefundModalProps {
 }
 
 const refundSchema = z.object({
-  refundAmount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, {
-    message: "Refund amount must be a positive number",
-  }),
+  reasonCode: z.enum(RETURN_REASON_CODES, { required_error: "Select a reason" }),
+  refundMethod: z.enum(REFUND_METHODS),
+  restock: z.boolean(),
   reason: z.string().min(5, "Reason must be at least 5 characters"),
 });
 
@@ -37,24 +53,50 @@ type RefundForm = z.infer<typeof refundSchema>;
 export default function RefundModal({ isOpen, onClose, transaction }: RefundModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [approvalPrompt, setApprovalPrompt] = useState<ApprovalPrompt | null>(null);
+  const { registerByStore } = usePOSStore();
+
+  const allowedRefundMethods = getAllowedRefundMethods(transaction);
 
   const form = useForm<RefundForm>({
     resolver: zodResolver(refundSchema),
     defaultValues: {
-      refundAmount: transaction.total,
+      refundMethod: allowedRefundMethods[0],
+      restock: true,
       reason: "",
     },
   });
 
+  // A full refund covers whatever has not already been returned
+  const { data: returnableItems = [], isLoading: isLoadingReturnable } = useQuery<ReturnableItem[]>({
+    queryKey: [`/api/transactions/${transaction.id}/returnable`],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({ refundMethod: allowedRefundMethods[0], restock: true, reason: "" });
+    }
+  }, [isOpen, transaction.id]);
+
+  const remainingRefund = returnableItems
+    .filter((item) => item.remainingQuantity > 0)
+    .reduce((sum, item) => sum + item.refundableAmount, 0);
+  const alreadyRefunded = returnableItems.reduce((sum, item) => sum + item.refundedAmount, 0);
+
   const refundMutation = useMutation({
-    mutationFn: async (data: RefundForm) => {
+    mutationFn: async ({ data, approvalToken }: { data: RefundForm; approvalToken?: string }) => {
       return apiRequest({
         url: `/api/transactions/${transaction.id}/refund`,
         method: "POST",
         body: {
-          refundAmount: data.refundAmount,
+          refundAmount: remainingRefund.toFixed(2),
           reason: data.reason,
-          refundedBy: 1 // Current user ID - should come from auth context
+          reasonCode: data.reasonCode,
+          refundMethod: data.refundMethod,
+          restock: data.restock,
+          registerId: registerByStore[transaction.storeId] ?? null,
+          approvalToken,
         },
       });
     },
@@ -64,10 +106,18 @@ export default function RefundModal({ isOpen, onClose, transaction }: RefundModa
         description: "Transaction has been successfully refunded.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/day-operations"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/transactions/${transaction.id}/returnable`] });
       form.reset();
       onClose();
     },
     onError: (error: any) => {
+      const prompt = readApprovalPrompt(error);
+      if (prompt) {
+        setApprovalPrompt(prompt);
+        return;
+      }
       toast({
         title: "Refund Failed",
         description: error.message || "Failed to process refund",
@@ -77,11 +127,15 @@ export default function RefundModal({ isOpen, onClose, transaction }: RefundModa
   });
 
   const onSubmit = (data: RefundForm) => {
-    refundMutation.mutate(data);
+    refundMutation.mutate({ data });
+  };
+
+  const handleApproved = (approvalToken: string) => {
+    setApprovalPrompt(null);
+    refundMutation.mutate({ data: form.getValues(), approvalToken });
   };
 
-  const maxRefundAmount = parseFloat(transaction.total);
-  const currentRefundAmount = parseFloat(form.watch("refundAmount") || "0");
+  const nothingLeftToRefund = !isLoadingReturnable && remainingRefund <= 0;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -120,27 +174,77 @@ export default function RefundModal({ isOpen, onClose, transaction }: RefundModa
           </div>
 
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <div>
-              <Label htmlFor="refundAmount">Refund Amount (QR)</Label>
-              <Input
-                id="refundAmount"
-                type="number"
-                step="0.01"
-                max={maxRefundAmount}
-                placeholder="0.00"
-                {...form.register("refundAmount")}
+            <div className="flex items-center justify-between bg-orange-50 p-3 rounded-lg">
+              <div>
+                <div className="text-sm text-slate-600">Refund Amount</div>
+                {alreadyRefunded > 0 && (
+                  <div className="text-xs text-slate-500">
+                    QR {alreadyRefunded.toFixed(2)} already refunded
+                  </div>
+                )}
+              </div>
+              <div className="text-lg font-bold text-orange-700">
+                {isLoadingReturnable ? "..." : `QR ${remainingRefund.toFixed(2)}`}
+              </div>
+            </div>
+            {nothingLeftToRefund && (
+              <div className="flex items-center gap-1 text-red-600 text-xs">
+                <AlertTriangle className="w-3 h-3" />
+                All items on this sale have already been returned
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Reason Code</Label>
+                <Select
+                  value={form.watch("reasonCode")}
+                  onValueChange={(value) => form.setValue("reasonCode", value as RefundForm["reasonCode"], { shouldValidate: true })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETURN_REASON_CODES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {RETURN_REASON_LABELS[code]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {form.formState.errors.reasonCode && (
+                  <p className="text-sm text-red-600 mt-1">
+                    {form.formState.errors.reasonCode.message}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label>Refund To</Label>
+                <Select
+                  value={form.watch("refundMethod")}
+                  onValueChange={(value) => form.setValue("refundMethod", value as RefundForm["refundMethod"])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allowedRefundMethods.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {REFUND_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="restock">Return items to stock</Label>
+              <Switch
+                id="restock"
+                checked={form.watch("restock")}
+                onCheckedChange={(checked) => form.setValue("restock", checked)}
               />
-              {form.formState.errors.refundAmount && (
-                <p className="text-sm text-red-600 mt-1">
-                  {form.formState.errors.refundAmount.message}
-                </p>
-              )}
-              {currentRefundAmount > maxRefundAmount && (
-                <div className="flex items-center gap-1 text-red-600 text-xs mt-1">
-                  <AlertTriangle className="w-3 h-3" />
-                  Cannot exceed original amount
-                </div>
-              )}
             </div>
 
             <div>
@@ -166,7 +270,7 @@ export default function RefundModal({ isOpen, onClose, transaction }: RefundModa
                   <div className="font-medium">Important:</div>
                   <ul className="text-xs mt-1 space-y-1">
                     <li>• This action cannot be undone</li>
-                    <li>• Stock will be restored for refunded items</li>
+                    <li>• {form.watch("restock") ? "Stock will be restored for refunded items" : "Refunded items will be written off"}</li>
                     <li>• Requires supervisor approval</li>
                   </ul>
                 </div>
@@ -179,7 +283,7 @@ export default function RefundModal({ isOpen, onClose, transaction }: RefundModa
               </Button>
               <Button 
                 type="submit" 
-                disabled={refundMutation.isPending || currentRefundAmount > maxRefundAmount}
+                disabled={refundMutation.isPending || isLoadingReturnable || nothingLeftToRefund}
                 className="bg-orange-600 hover:bg-orange-700"
               >
                 {refundMutation.isPending ? (
@@ -195,6 +299,15 @@ export default function RefundModal({ isOpen, onClose, transaction }: RefundModa
           </form>
         </div>
       </DialogContent>
+
+      <ManagerApprovalModal
+        isOpen={!!approvalPrompt}
+        onClose={() => setApprovalPrompt(null)}
+        onApproved={handleApproved}
+        storeId={transaction.storeId}
+        request={approvalPrompt}
+        defaultReason={form.getValues("reason")}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { History } from "lucide-react";
+
+interface ReopenReasonDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (reason: string) => void;
+  isPending?: boolean;
+  date?: string;
+}
+
+// Reopening a closed day is recorded in the audit log, so the server insists on a reason
+export default function ReopenReasonDialog({ isOpen, onClose, onConfirm, isPending = false, date }: ReopenReasonDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (isOpen) setReason("");
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    onConfirm(reason.trim());
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-sm" aria-describedby="reopen-reason-description">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="w-5 h-5 mr-2 text-amber-600" />
+            Reopen Day
+          </DialogTitle>
+          <DialogDescription id="reopen-reason-description">
+            {date ? `Day ${date} is closed.` : "This day is closed."} Say why it needs to be reopened.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="reopen-reason">Reason</Label>
+            <Textarea
+              id="reopen-reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Supplier payment missed from the close"
+              autoFocus
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!reason.trim() || isPending}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              {isPending ? "Reopening..." : "Reopen Day"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
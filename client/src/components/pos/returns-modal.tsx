@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { readApprovalPrompt, type ApprovalPrompt } from "@/lib/approvals";
 import {
   Dialog,
   DialogContent,
@@ -14,31 +15,61 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { RotateCcw, Search, Receipt, Package } from "lucide-react";
 import { format } from "date-fns";
-import type { Transaction, TransactionItem } from "@shared/schema";
+import {
+  RETURN_DISPOSITIONS,
+  RETURN_REASON_CODES,
+  type RefundMethod,
+  type ReturnDisposition,
+  type ReturnReasonCode,
+  type Transaction,
+} from "@shared/schema";
+import {
+  REFUND_METHOD_LABELS,
+  RETURN_DISPOSITION_LABELS,
+  RETURN_REASON_LABELS,
+  estimateLineRefund,
+  getAllowedRefundMethods,
+  type ReturnableItem,
+} from "@/lib/returns";
+import ManagerApprovalModal from "./manager-approval-modal";
+import { usePOSStore } from "@/lib/pos-store";
+import { formatQuantity, roundQuantity } from "@shared/units";
+
+interface ReturnRequest {
+  transactionId: number;
+  items: ReturnItem[];
+  reasonCode: ReturnReasonCode;
+  refundMethod: RefundMethod;
+  notes?: string;
+  registerId?: number | null;
+  approvalToken?: string;
+}
 
 type ReturnTransaction = Transaction & {
   customerName?: string | null;
   totalAmount?: string | null;
 };
 
-type ReturnTransactionItem = TransactionItem & {
-  productName?: string | null;
-  productSku?: string | null;
-  productBarcode?: string | null;
-};
-
 interface ReturnsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
 interface ReturnItem {
-  id: number;
+  transactionItemId: number;
   quantity: number;
-  reason: string;
+  disposition: ReturnDisposition;
 }
 
 const formatDateTime = (value?: Date | string | null) => {
@@ -70,7 +101,12 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedTransaction, setSelectedTransaction] = useState<ReturnTransaction | null>(null);
   const [returnItems, setReturnItems] = useState<ReturnItem[]>([]);
-  const [returnReason, setReturnReason] = useState("");
+  const [reasonCode, setReasonCode] = useState<ReturnReasonCode | "">("");
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>("cash");
+  const [notes, setNotes] = useState("");
+  const { registerByStore } = usePOSStore();
+  // A return waiting for a manager to approve the refund
+  const [pendingApproval, setPendingApproval] = useState<{ request: ReturnRequest; prompt: ApprovalPrompt } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -79,20 +115,21 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
     enabled: isOpen,
   });
 
-  const { data: transactionItems = [], isLoading: isLoadingItems } = useQuery<ReturnTransactionItem[]>({
-    queryKey: [`/api/transactions/${selectedTransaction?.id}/items`],
+  const { data: returnableItems = [], isLoading: isLoadingItems } = useQuery<ReturnableItem[]>({
+    queryKey: [`/api/transactions/${selectedTransaction?.id}/returnable`],
     enabled: Boolean(selectedTransaction?.id),
   });
 
-  // Debug logs removed to clean up console output
-
   const filteredTransactions = transactions.filter((tx) =>
-    tx.transactionNumber.includes(searchQuery) ||
-    tx.customerName?.toLowerCase().includes(searchQuery.toLowerCase())
+    tx.status === "completed" &&
+    (tx.transactionNumber.includes(searchQuery) ||
+      tx.customerName?.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
+  const allowedRefundMethods = selectedTransaction ? getAllowedRefundMethods(selectedTransaction) : [];
+
   const processReturnMutation = useMutation({
-    mutationFn: async (returnData: { transactionId: number; items: ReturnItem[]; reason: string }) => {
+    mutationFn: async (returnData: ReturnRequest) => {
       return apiRequest({
         url: "/api/returns",
         method: "POST",
@@ -105,9 +142,17 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
         description: "The return has been processed successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/day-operations"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/transactions/${selectedTransaction?.id}/returnable`] });
       resetForm();
     },
-    onError: (error: { message?: string }) => {
+    onError: (error: { message?: string }, returnData) => {
+      const prompt = readApprovalPrompt(error);
+      if (prompt) {
+        setPendingApproval({ request: returnData, prompt });
+        return;
+      }
       toast({
         title: "Return Failed",
         description: error.message || "Failed to process return",
@@ -120,41 +165,44 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
     setSearchQuery("");
     setSelectedTransaction(null);
     setReturnItems([]);
-    setReturnReason("");
+    setReasonCode("");
+    setRefundMethod("cash");
+    setNotes("");
   };
 
   const handleTransactionSelect = (transaction: ReturnTransaction) => {
     setSelectedTransaction(transaction);
     setReturnItems([]);
+    setRefundMethod(getAllowedRefundMethods(transaction)[0]);
   };
 
-  const handleItemToggle = (item: ReturnTransactionItem, checked: boolean) => {
+  const handleItemToggle = (item: ReturnableItem, checked: boolean) => {
     if (checked) {
       setReturnItems((prev) => [
         ...prev,
         {
-          id: item.id,
-          quantity: item.quantity,
-          reason: returnReason,
+          transactionItemId: item.transactionItemId,
+          quantity: item.remainingQuantity,
+          disposition: "restock",
         },
       ]);
       return;
     }
 
-    setReturnItems((prev) => prev.filter((returnItem) => returnItem.id !== item.id));
+    setReturnItems((prev) => prev.filter((returnItem) => returnItem.transactionItemId !== item.transactionItemId));
   };
 
-  const handleQuantityChange = (itemId: number, quantity: number) => {
+  const handleItemChange = (itemId: number, changes: Partial<ReturnItem>) => {
     setReturnItems((prev) =>
-      prev.map((item) => (item.id === itemId ? { ...item, quantity } : item))
+      prev.map((item) => (item.transactionItemId === itemId ? { ...item, ...changes } : item))
     );
   };
 
   const handleProcessReturn = () => {
-    if (!selectedTransaction || returnItems.length === 0) {
+    if (!selectedTransaction || returnItems.length === 0 || !reasonCode) {
       toast({
         title: "Missing Information",
-        description: "Please select items to return",
+        description: "Please select items to return and a reason",
         variant: "destructive",
       });
       return;
@@ -163,16 +211,25 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
     const returnData = {
       transactionId: selectedTransaction.id,
       items: returnItems,
-      reason: returnReason,
+      reasonCode,
+      refundMethod,
+      notes: notes.trim() || undefined,
+      // Cash refunds come out of this till's drawer
+      registerId: registerByStore[selectedTransaction.storeId] ?? null,
     };
 
     processReturnMutation.mutate(returnData);
   };
 
+  const handleApproved = (approvalToken: string) => {
+    if (!pendingApproval) return;
+    processReturnMutation.mutate({ ...pendingApproval.request, approvalToken });
+    setPendingApproval(null);
+  };
+
   const totalReturnAmount = returnItems.reduce((sum, returnItem) => {
-    const item = transactionItems.find((ti) => ti.id === returnItem.id);
-    const unitPrice = item ? toNumber(item.unitPrice) : 0;
-    return sum + unitPrice * returnItem.quantity;
+    const item = returnableItems.find((ri) => ri.transactionItemId === returnItem.transactionItemId);
+    return sum + (item ? estimateLineRefund(item, returnItem.quantity) : 0);
   }, 0);
 
   const resolveTransactionTotal = (transaction: ReturnTransaction) => {
@@ -292,14 +349,48 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
                 </CardContent>
               </Card>
 
-              {/* Return Reason */}
+              {/* Return Reason & Refund Tender */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Return Reason</Label>
+                  <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as ReturnReasonCode)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a reason..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RETURN_REASON_CODES.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {RETURN_REASON_LABELS[code]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Refund To</Label>
+                  <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as RefundMethod)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {allowedRefundMethods.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {REFUND_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
               <div className="space-y-2">
-                <Label htmlFor="returnReason">Return Reason</Label>
-                <Input
-                  id="returnReason"
-                  placeholder="Enter reason for return..."
-                  value={returnReason}
-                  onChange={(e) => setReturnReason(e.target.value)}
+                <Label htmlFor="returnNotes">Notes</Label>
+                <Textarea
+                  id="returnNotes"
+                  placeholder="Optional details about this return..."
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
                 />
               </div>
 
@@ -311,65 +402,84 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
                     <div className="text-center py-8">
                       <p className="text-slate-500">Loading items...</p>
                     </div>
-                  ) : transactionItems.length === 0 ? (
+                  ) : returnableItems.length === 0 ? (
                     <div className="text-center py-8">
                       <Package className="w-12 h-12 mx-auto mb-4 text-slate-300" />
                       <p className="text-slate-500">No items found for this transaction</p>
                     </div>
                   ) : (
-                    transactionItems.map((item: ReturnTransactionItem) => {
-                      const isSelected = returnItems.some((ri) => ri.id === item.id);
-                      const returnItem = returnItems.find((ri) => ri.id === item.id);
-                      
-                      // Get the unit price and quantity
+                    returnableItems.map((item) => {
+                      const returnItem = returnItems.find((ri) => ri.transactionItemId === item.transactionItemId);
+                      const isSelected = Boolean(returnItem);
+                      const isFullyReturned = item.remainingQuantity <= 0;
                       const unitPrice = toNumber(item.unitPrice);
-                      const quantity = item.quantity || 0;
-                      const itemTotal = unitPrice * quantity;
-                      
-                      // Get product name from the joined data
                       const productName = item.productName || 'Unknown Product';
 
-                      console.log("Item Debug:", {
-                        id: item.id,
-                        productName,
-                        unitPrice: item.unitPrice,
-                        parsedUnitPrice: unitPrice,
-                        quantity,
-                        itemTotal,
-                        fullItem: item
-                      });
-
                       return (
-                        <Card key={item.id} className={isSelected ? "border-blue-500" : ""}>
+                        <Card
+                          key={item.transactionItemId}
+                          className={isSelected ? "border-blue-500" : isFullyReturned ? "opacity-60" : ""}
+                        >
                           <CardContent className="p-4">
                             <div className="flex items-center space-x-4">
                               <Checkbox
                                 checked={isSelected}
+                                disabled={isFullyReturned}
                                 onCheckedChange={(checked) => handleItemToggle(item, checked as boolean)}
                               />
                               <Package className="w-8 h-8 text-slate-400" />
                               <div className="flex-1">
                                 <h4 className="font-medium">{productName}</h4>
                                 <p className="text-sm text-slate-600">
-                                  QR{unitPrice.toFixed(2)} × {quantity} = QR{itemTotal.toFixed(2)}
+                                  QR{unitPrice.toFixed(2)} × {formatQuantity(item.soldQuantity, item.unit)} sold
+                                  {item.returnedQuantity > 0 && ` · ${formatQuantity(item.returnedQuantity, item.unit)} already returned`}
                                 </p>
+                                {isFullyReturned && (
+                                  <Badge variant="secondary" className="mt-1">Fully returned</Badge>
+                                )}
                               </div>
-                              {isSelected && (
+                              {returnItem && (
                                 <div className="flex items-center space-x-2">
-                                  <Label htmlFor={`qty-${item.id}`} className="text-sm">
+                                  <Label htmlFor={`qty-${item.transactionItemId}`} className="text-sm">
                                     Qty:
                                   </Label>
                                   <Input
-                                    id={`qty-${item.id}`}
+                                    id={`qty-${item.transactionItemId}`}
                                     type="number"
-                                    min="1"
-                                    max={item.quantity}
-                                    value={returnItem?.quantity || item.quantity}
-                                    onChange={(e) =>
-                                      handleQuantityChange(item.id, Math.max(1, parseInt(e.target.value) || 1))
-                                    }
+                                    min={item.allowsDecimal ? "0.001" : "1"}
+                                    step={item.allowsDecimal ? "0.001" : "1"}
+                                    max={item.remainingQuantity}
+                                    value={returnItem.quantity}
+                                    onChange={(e) => {
+                                      const entered = item.allowsDecimal
+                                        ? roundQuantity(parseFloat(e.target.value) || 0)
+                                        : parseInt(e.target.value) || 1;
+                                      handleItemChange(item.transactionItemId, {
+                                        quantity: Math.min(
+                                          item.remainingQuantity,
+                                          Math.max(item.allowsDecimal ? 0.001 : 1, entered)
+                                        ),
+                                      });
+                                    }}
                                     className="w-16"
                                   />
+                                  <Select
+                                    value={returnItem.disposition}
+                                    onValueChange={(value) =>
+                                      handleItemChange(item.transactionItemId, { disposition: value as ReturnDisposition })
+                                    }
+                                  >
+                                    <SelectTrigger className="w-28">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {RETURN_DISPOSITIONS.map((disposition) => (
+                                        <SelectItem key={disposition} value={disposition}>
+                                          {RETURN_DISPOSITION_LABELS[disposition]}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                 </div>
                               )}
                             </div>
@@ -414,7 +524,7 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
               <Button
                 onClick={handleProcessReturn}
                 disabled={
-                  returnItems.length === 0 || !returnReason.trim() || processReturnMutation.isPending
+                  returnItems.length === 0 || !reasonCode || processReturnMutation.isPending
                 }
                 className="flex-1"
               >
@@ -428,6 +538,17 @@ export default function ReturnsModal({ isOpen, onClose }: ReturnsModalProps) {
           </div>
         )}
       </DialogContent>
+
+      {selectedTransaction && (
+        <ManagerApprovalModal
+          isOpen={!!pendingApproval}
+          onClose={() => setPendingApproval(null)}
+          onApproved={handleApproved}
+          storeId={selectedTransaction.storeId}
+          request={pendingApproval?.prompt ?? null}
+          defaultReason={notes}
+        />
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
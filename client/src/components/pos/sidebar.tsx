@@ -33,6 +33,9 @@ import {
   ClipboardList,
   Warehouse,
   TrendingUp,
+  ScrollText,
+  ArrowRightLeft,
+  CalendarClock,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
@@ -205,6 +208,27 @@ export default function Sidebar({ onNavigate, isMobile, collapsed = false }: Sid
           onClick: () => handleNavigate("/inventory"),
           visible: true,
         },
+        {
+          label: "Stock Transfers",
+          icon: ArrowRightLeft,
+          routes: ["/stock-transfers"],
+          onClick: () => handleNavigate("/stock-transfers"),
+          visible: true,
+        },
+        {
+          label: "Purchase Orders",
+          icon: ClipboardList,
+          routes: ["/purchase-orders"],
+          onClick: () => handleNavigate("/purchase-orders"),
+          visible: canAccess("/purchase-orders"),
+        },
+        {
+          label: "Expiring Stock",
+          icon: CalendarClock,
+          routes: ["/expiring-stock"],
+          onClick: () => handleNavigate("/expiring-stock"),
+          visible: canAccess("/expiring-stock"),
+        },
         {
           label: "Stores",
           icon: Building2,
@@ -305,6 +329,13 @@ export default function Sidebar({ onNavigate, isMobile, collapsed = false }: Sid
           onClick: () => handleNavigate("/administration"),
           visible: isAdmin,
         },
+        {
+          label: "Audit Log",
+          icon: ScrollText,
+          routes: ["/audit-log"],
+          onClick: () => handleNavigate("/audit-log"),
+          visible: isAdmin,
+        },
         {
           label: "Authentication",
           icon: KeyRound,
@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileJson, FileText, Loader2, Printer, Receipt } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { printSlip, sectionedSlipHtml } from "@/lib/slip-printer";
+import { hasPermission } from "@shared/permissions";
+import { tillReportSections, tillReportTitle, zReportNumber, type TillReport } from "@shared/till-reports";
+import type { Register, ZReport } from "@shared/schema";
+
+const WHOLE_DAY = "day";
+
+interface TillReportsPanelProps {
+  storeId: number;
+  day: { id: number; date: string; status?: string };
+}
+
+interface Preview {
+  report: TillReport;
+  pdfUrl: string;
+}
+
+const headerLines = (report: TillReport) => [
+  { label: "Store", value: report.store.name },
+  { label: "Register", value: report.register?.name ?? "All registers" },
+  { label: "Trading day", value: report.date },
+  { label: report.kind === "z" ? "Issued" : "Printed", value: new Date(report.generatedAt).toLocaleString() },
+];
+
+function printReport(report: TillReport) {
+  const title = report.kind === "z" ? `Z REPORT ${report.number ?? ""}`.trim() : "X REPORT";
+  printSlip(tillReportTitle(report), sectionedSlipHtml(title, headerLines(report), tillReportSections(report)));
+}
+
+function downloadJson(report: TillReport) {
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${report.number ?? `X-${report.date}`}${report.register ? `-${report.register.name}` : ""}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * X readings and Z reports for the selected day, for one register or the
+ * whole store. An X report can be taken at any time without resetting
+ * anything; a Z report is issued once per register and day, after its
+ * drawers (or the day) are closed, and stays as issued.
+ */
+export default function TillReportsPanel({ storeId, day }: TillReportsPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const registersUrl = `/api/registers?storeId=${storeId}`;
+  const zReportsUrl = `/api/z-reports?dayOperationId=${day.id}`;
+  const { data: registers = [] } = useQuery<Register[]>({ queryKey: [registersUrl] });
+  const { data: zReports = [], isLoading } = useQuery<ZReport[]>({ queryKey: [zReportsUrl] });
+
+  const [scope, setScope] = useState(WHOLE_DAY);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [confirming, setConfirming] = useState(false);
+
+  const canIssue = hasPermission(user?.role, "day-operations", "close");
+  const registerId = scope === WHOLE_DAY ? null : Number(scope);
+  const scopeName = registerId ? registers.find((register) => register.id === registerId)?.name ?? "Register" : "the whole day";
+  const failed = (title: string) => (error: any) =>
+    toast({ title, description: error?.message, variant: "destructive" });
+
+  const xReport = useMutation({
+    mutationFn: async (): Promise<TillReport> =>
+      (await apiRequest("GET", `/api/day-operations/${day.id}/x-report${registerId ? `?registerId=${registerId}` : ""}`)).json(),
+    onSuccess: (report) =>
+      setPreview({
+        report,
+        pdfUrl: `/api/day-operations/${day.id}/x-report/pdf${registerId ? `?registerId=${registerId}` : ""}`,
+      }),
+    onError: failed("Could not take an X reading"),
+  });
+
+  const issueZ = useMutation({
+    mutationFn: async (): Promise<ZReport> =>
+      (await apiRequest("POST", `/api/day-operations/${day.id}/z-reports`, { registerId })).json(),
+    onSuccess: (issued) => {
+      queryClient.invalidateQueries({ queryKey: [zReportsUrl] });
+      setConfirming(false);
+      toast({ title: `${zReportNumber(issued.zNumber)} issued` });
+      setPreview({ report: issued.content as TillReport, pdfUrl: `/api/z-reports/${issued.id}/pdf` });
+    },
+    onError: (error: any) => {
+      setConfirming(false);
+      failed("Could not issue the Z report")(error);
+    },
+  });
+
+  const issuedForScope = zReports.some((report) => (report.registerId ?? null) === registerId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Receipt className="h-5 w-5 text-slate-600" />
+          X and Z Reports
+        </CardTitle>
+        <CardDescription>
+          Take an X reading at any time during {day.date}. Issue the Z report once a register's drawers are counted,
+          or for the whole store once the day is closed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={WHOLE_DAY}>Whole day</SelectItem>
+              {registers.map((register) => (
+                <SelectItem key={register.id} value={String(register.id)}>{register.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => xReport.mutate()} disabled={xReport.isPending}>
+            {xReport.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+            X report
+          </Button>
+          {canIssue && (
+            <Button size="sm" onClick={() => setConfirming(true)} disabled={issueZ.isPending || issuedForScope}>
+              {issueZ.isPending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+              {issuedForScope ? "Z report issued" : "Issue Z report"}
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Z report</TableHead>
+                <TableHead>Covers</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead className="text-right">Net sales</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {zReports.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="py-6 text-center text-sm text-muted-foreground">
+                    No Z reports issued for this day yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                zReports.map((issued) => {
+                  const report = issued.content as TillReport;
+                  return (
+                    <TableRow key={issued.id}>
+                      <TableCell className="font-mono font-medium">{zReportNumber(issued.zNumber)}</TableCell>
+                      <TableCell>
+                        {report.register ? report.register.name : <Badge variant="secondary">Whole day</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(issued.issuedAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {report.currency} {report.sales.net.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setPreview({ report, pdfUrl: `/api/z-reports/${issued.id}/pdf` })}
+                        >
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Issue the Z report for {scopeName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The Z report takes the next number in sequence and cannot be changed or issued again for {day.date}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => issueZ.mutate()} disabled={issueZ.isPending}>
+              Issue Z report
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          {preview && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{tillReportTitle(preview.report)}</DialogTitle>
+                <DialogDescription>
+                  {preview.report.kind === "z"
+                    ? `Issued ${new Date(preview.report.generatedAt).toLocaleString()}`
+                    : "A reading of the day so far; nothing is reset."}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3 text-sm">
+                {tillReportSections(preview.report).map((section) => (
+                  <div key={section.heading}>
+                    <p className="border-b border-dashed pb-1 font-semibold">{section.heading}</p>
+                    {section.lines.map((line) => (
+                      <div key={line.label} className="flex justify-between">
+                        <span className="whitespace-pre">{line.label}</span>
+                        <span className="font-mono">{line.value}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <DialogFooter className="gap-2">
+                <Button variant="outline" onClick={() => downloadJson(preview.report)}>
+                  <FileJson className="mr-1 h-4 w-4" />
+                  JSON
+                </Button>
+                <Button asChild variant="outline">
+                  <a href={preview.pdfUrl} target="_blank" rel="noreferrer">
+                    <FileText className="mr-1 h-4 w-4" />
+                    PDF
+                  </a>
+                </Button>
+                <Button onClick={() => printReport(preview.report)}>
+                  <Printer className="mr-1 h-4 w-4" />
+                  Print
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
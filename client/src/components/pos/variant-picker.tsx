@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, Layers } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Product } from "@shared/schema";
+import { axisValues, variantLabel } from "@shared/variants";
+
+interface VariantRow extends Product {
+  reorderLevel: string | null;
+  inStore: boolean;
+}
+
+interface ProductVariants {
+  parent: Product;
+  axes: string[];
+  variants: VariantRow[];
+}
+
+interface VariantPickerProps {
+  parent: Product | null;
+  storeId?: number;
+  onClose: () => void;
+  onPick: (variant: VariantRow) => void;
+}
+
+const capitalise = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Parents are not sold themselves: picking one at the till asks which of its variants
+export default function VariantPicker({ parent, storeId, onClose, onPick }: VariantPickerProps) {
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const url = parent ? `/api/products/${parent.id}/variants${storeId ? `?storeId=${storeId}` : ""}` : "";
+  const { data, isLoading } = useQuery<ProductVariants>({ queryKey: [url], enabled: !!parent });
+
+  useEffect(() => {
+    setSelection({});
+  }, [parent?.id]);
+
+  const axes = data?.axes ?? [];
+  const sellable = (data?.variants ?? []).filter((variant) => variant.inStore && variant.isActive !== false);
+  const values = axisValues(axes, sellable);
+  const matching = sellable.filter((variant) =>
+    Object.entries(selection).every(([axis, value]) => variant.variantOptions?.[axis]?.trim().toLowerCase() === value.toLowerCase()),
+  );
+
+  const toggle = (axis: string, value: string) =>
+    setSelection((current) => {
+      const { [axis]: selected, ...rest } = current;
+      return selected === value ? rest : { ...rest, [axis]: value };
+    });
+
+  return (
+    <Dialog open={!!parent} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg" aria-describedby="variant-picker-description">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-blue-600" />
+            {parent?.name}
+          </DialogTitle>
+          <DialogDescription id="variant-picker-description">Choose the variant to sell</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+        ) : sellable.length === 0 ? (
+          <p className="text-sm text-slate-500">No variants of this product are sold in this store.</p>
+        ) : (
+          <div className="space-y-4">
+            {axes.map((axis) => (
+              <div key={axis} className="space-y-1">
+                <div className="text-sm font-medium text-slate-600">{capitalise(axis)}</div>
+                <div className="flex flex-wrap gap-2">
+                  {values[axis].map((value) => (
+                    <Button
+                      key={value}
+                      size="sm"
+                      variant={selection[axis] === value ? "default" : "outline"}
+                      onClick={() => toggle(axis, value)}
+                    >
+                      {value}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="max-h-72 space-y-2 overflow-y-auto">
+              {matching.map((variant) => {
+                const stock = variant.stock ?? 0;
+                return (
+                  <button
+                    key={variant.id}
+                    type="button"
+                    disabled={stock <= 0}
+                    onClick={() => onPick(variant)}
+                    className={cn(
+                      "flex w-full items-center justify-between rounded-lg border p-3 text-left transition-colors",
+                      stock <= 0 ? "cursor-not-allowed opacity-60" : "hover:border-blue-400 hover:bg-blue-50",
+                    )}
+                  >
+                    <div>
+                      <div className="font-medium">{variantLabel(axes, variant.variantOptions) || variant.name}</div>
+                      <Badge variant="outline" className="mt-1 text-xs">{variant.sku}</Badge>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-bold text-blue-600">QR {parseFloat(variant.price || "0").toFixed(2)}</div>
+                      <div className={cn("text-xs", stock <= 0 ? "text-red-600" : "text-slate-500")}>
+                        {stock <= 0 ? "Out of stock" : `${stock} in stock`}
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
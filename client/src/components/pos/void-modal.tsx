@@ -15,8 +15,10 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { XCircle, AlertTriangle, CheckCircle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { readApprovalPrompt, type ApprovalPrompt } from "@/lib/approvals";
 import { useToast } from "@/hooks/use-toast";
 import type { Transaction } from "@shared/schema";
+import ManagerApprovalModal from "./manager-approval-modal";
 
 interface VoidModalProps {
   isOpen: boolean;
@@ -33,6 +35,7 @@ type VoidForm = z.infer<typeof voidSchema>;
 export default function VoidModal({ isOpen, onClose, transaction }: VoidModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [approvalPrompt, setApprovalPrompt] = useState<ApprovalPrompt | null>(null);
 
   const form = useForm<VoidForm>({
     resolver: zodResolver(voidSchema),
@@ -42,13 +45,13 @@ export default function VoidModal({ isOpen, onClose, transaction }: VoidModalPro
   });
 
   const voidMutation = useMutation({
-    mutationFn: async (data: VoidForm) => {
+    mutationFn: async ({ data, approvalToken }: { data: VoidForm; approvalToken?: string }) => {
       return apiRequest({
         url: `/api/transactions/${transaction.id}/void`,
         method: "POST",
         body: {
           reason: data.reason,
-          voidedBy: 1 // Current user ID - should come from auth context
+          approvalToken,
         },
       });
     },
@@ -62,6 +65,11 @@ export default function VoidModal({ isOpen, onClose, transaction }: VoidModalPro
       onClose();
     },
     onError: (error: any) => {
+      const prompt = readApprovalPrompt(error);
+      if (prompt) {
+        setApprovalPrompt(prompt);
+        return;
+      }
       toast({
         title: "Void Failed",
         description: error.message || "Failed to void transaction",
@@ -71,7 +79,12 @@ export default function VoidModal({ isOpen, onClose, transaction }: VoidModalPro
   });
 
   const onSubmit = (data: VoidForm) => {
-    voidMutation.mutate(data);
+    voidMutation.mutate({ data });
+  };
+
+  const handleApproved = (approvalToken: string) => {
+    setApprovalPrompt(null);
+    voidMutation.mutate({ data: form.getValues(), approvalToken });
   };
 
   // Check if transaction is eligible for voiding (same day)
@@ -192,6 +205,15 @@ export default function VoidModal({ isOpen, onClose, transaction }: VoidModalPro
           )}
         </div>
       </DialogContent>
+
+      <ManagerApprovalModal
+        isOpen={!!approvalPrompt}
+        onClose={() => setApprovalPrompt(null)}
+        onApproved={handleApproved}
+        storeId={transaction.storeId}
+        request={approvalPrompt}
+        defaultReason={form.getValues("reason")}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfMonth } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatTransferQuantity } from "@/components/inventory/pending-transfers";
+import { COSTING_METHOD_LABELS, type CostingMethod } from "@shared/inventory";
+
+interface MarginRow {
+  key: string;
+  label: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  grossMargin: number;
+  marginPercent: number | null;
+  estimatedQuantity: number;
+}
+
+interface SalesReport {
+  totalSales: number;
+  totalTransactions: number;
+  grossMargin: MarginRow;
+  marginByProduct: MarginRow[];
+  marginByParent: MarginRow[];
+  marginByCategory: MarginRow[];
+  marginByDay: MarginRow[];
+}
+
+interface StockValuation {
+  date: string;
+  method: CostingMethod;
+  lines: Array<{
+    productId: number;
+    productName: string;
+    sku: string | null;
+    quantity: number;
+    averageCost: number | null;
+    averageValue: number;
+    fifoValue: number;
+    value: number;
+  }>;
+  totals: { quantity: number; averageValue: number; fifoValue: number; value: number };
+}
+
+type Breakdown = "product" | "parent" | "category" | "day";
+
+const BREAKDOWN_HEADINGS: Record<Breakdown, string> = {
+  product: "Product",
+  parent: "Product (variants combined)",
+  category: "Category",
+  day: "Day",
+};
+
+const money = (value: number) => `QR ${value.toFixed(2)}`;
+
+const marginClass = (row: MarginRow) => (row.grossMargin < 0 ? "text-red-600" : "text-green-700");
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error((await response.json().catch(() => null))?.message ?? "Request failed");
+  return response.json();
+}
+
+/**
+ * Gross margin from the cost stamped on each sale, by product (with or
+ * without variants rolled up into their parent), category or day, and what the store's stock was worth at the end of a chosen day.
+ */
+export default function MarginReport({ storeId }: { storeId?: number }) {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(today);
+  const [breakdown, setBreakdown] = useState<Breakdown>("product");
+  const [valuationDate, setValuationDate] = useState(today);
+
+  const salesParams = new URLSearchParams({ start_date: startDate, end_date: endDate });
+  if (storeId) salesParams.append("storeId", String(storeId));
+  const { data: report, isLoading } = useQuery<SalesReport>({
+    queryKey: ["/api/reports/sales", startDate, endDate, storeId],
+    queryFn: () => fetchJson(`/api/reports/sales?${salesParams.toString()}`),
+    enabled: !!startDate && !!endDate && startDate <= endDate,
+  });
+
+  const valuationUrl = `/api/stores/${storeId}/stock-valuation?date=${valuationDate}`;
+  const { data: valuation, isLoading: loadingValuation } = useQuery<StockValuation>({
+    queryKey: [valuationUrl],
+    queryFn: () => fetchJson(valuationUrl),
+    enabled: !!storeId && !!valuationDate,
+  });
+
+  const rows = report
+    ? {
+        product: report.marginByProduct,
+        parent: report.marginByParent,
+        category: report.marginByCategory,
+        day: report.marginByDay,
+      }[breakdown]
+    : [];
+  const estimated = report?.grossMargin.estimatedQuantity ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-end justify-between gap-4">
+            <span>Gross margin</span>
+            <div className="flex flex-wrap items-end gap-3 text-sm font-normal">
+              <div className="space-y-1">
+                <Label htmlFor="margin-from">From</Label>
+                <Input id="margin-from" type="date" value={startDate} max={endDate} onChange={(event) => setStartDate(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="margin-to">To</Label>
+                <Input id="margin-to" type="date" value={endDate} min={startDate} onChange={(event) => setEndDate(event.target.value)} />
+              </div>
+              <Select value={breakdown} onValueChange={(value) => setBreakdown(value as Breakdown)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="product">By product</SelectItem>
+                  <SelectItem value="parent">By parent product</SelectItem>
+                  <SelectItem value="category">By category</SelectItem>
+                  <SelectItem value="day">By day</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading || !report ? (
+            <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                <div>
+                  <div className="text-sm text-slate-500">Revenue (ex. VAT)</div>
+                  <div className="text-xl font-semibold">{money(report.grossMargin.revenue)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-slate-500">Cost of goods sold</div>
+                  <div className="text-xl font-semibold">{money(report.grossMargin.cost)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-slate-500">Gross margin</div>
+                  <div className={cn("text-xl font-semibold", marginClass(report.grossMargin))}>{money(report.grossMargin.grossMargin)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-slate-500">Margin</div>
+                  <div className="text-xl font-semibold">
+                    {report.grossMargin.marginPercent === null ? "—" : `${report.grossMargin.marginPercent.toFixed(1)}%`}
+                  </div>
+                </div>
+              </div>
+              {estimated > 0 && (
+                <p className="text-xs text-amber-700">
+                  {formatTransferQuantity(estimated)} units were sold before costing started and use today's cost.
+                </p>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{BREAKDOWN_HEADINGS[breakdown]}</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                    <TableHead className="text-right">%</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-slate-500">No sales in this period</TableCell>
+                    </TableRow>
+                  ) : (
+                    rows.map((row) => (
+                      <TableRow key={row.key}>
+                        <TableCell>
+                          {row.label}
+                          {row.estimatedQuantity > 0 && <Badge variant="outline" className="ml-2 text-xs">estimated</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatTransferQuantity(row.quantity)}</TableCell>
+                        <TableCell className="text-right">{money(row.revenue)}</TableCell>
+                        <TableCell className="text-right">{money(row.cost)}</TableCell>
+                        <TableCell className={cn("text-right", marginClass(row))}>{money(row.grossMargin)}</TableCell>
+                        <TableCell className="text-right">{row.marginPercent === null ? "—" : `${row.marginPercent.toFixed(1)}%`}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-end justify-between gap-4">
+            <span>Stock valuation</span>
+            <div className="space-y-1 text-sm font-normal">
+              <Label htmlFor="valuation-date">At the end of</Label>
+              <Input id="valuation-date" type="date" value={valuationDate} max={today} onChange={(event) => setValuationDate(event.target.value)} />
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!storeId ? (
+            <p className="text-sm text-slate-500">Choose a store to value its stock.</p>
+          ) : loadingValuation || !valuation ? (
+            <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+          ) : (
+            <>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                <div>
+                  <div className="text-sm text-slate-500">Value ({COSTING_METHOD_LABELS[valuation.method]})</div>
+                  <div className="text-xl font-semibold">{money(valuation.totals.value)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-slate-500">At weighted average</div>
+                  <div className="text-lg">{money(valuation.totals.averageValue)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-slate-500">At first in, first out</div>
+                  <div className="text-lg">{money(valuation.totals.fifoValue)}</div>
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">On hand</TableHead>
+                    <TableHead className="text-right">Average cost</TableHead>
+                    <TableHead className="text-right">Average value</TableHead>
+                    <TableHead className="text-right">FIFO value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {valuation.lines.map((line) => (
+                    <TableRow key={line.productId}>
+                      <TableCell>
+                        <div>{line.productName}</div>
+                        {line.sku && <div className="font-mono text-xs text-slate-500">{line.sku}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatTransferQuantity(line.quantity)}</TableCell>
+                      <TableCell className="text-right">{line.averageCost === null ? "—" : line.averageCost.toFixed(4)}</TableCell>
+                      <TableCell className="text-right">{money(line.averageValue)}</TableCell>
+                      <TableCell className="text-right">{money(line.fifoValue)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import {
+  discardOfflineSale,
+  fetchWithOfflineCache,
+  getPendingOfflineSales,
+  OFFLINE_CACHE_KEYS,
+  retryOfflineSale,
+  syncOfflineData,
+  type OfflineSyncSummary,
+  type OfflineTransaction,
+} from '@/lib/offline-storage';
+
+export function useOfflineSync(storeId?: number) {
+  const isOnline = useOnlineStatus();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingSales, setPendingSales] = useState<OfflineTransaction[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPendingSales(await getPendingOfflineSales());
+    } catch (error) {
+      console.error('Failed to read offline queue:', error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await syncOfflineData();
+    } finally {
+      setIsSyncing(false);
+      await refresh();
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener('offlineSaleQueued', refresh);
+    return () => window.removeEventListener('offlineSaleQueued', refresh);
+  }, [refresh]);
+
+  // Drain anything left in the queue whenever we are (back) online
+  useEffect(() => {
+    if (isOnline) {
+      syncNow();
+    }
+  }, [isOnline, syncNow]);
+
+  // Keep the store catalog and customer list cached so sales can be rung up offline
+  useEffect(() => {
+    if (!isOnline || !storeId) return;
+    Promise.all([
+      fetchWithOfflineCache(OFFLINE_CACHE_KEYS.storeProducts(storeId)),
+      fetchWithOfflineCache(OFFLINE_CACHE_KEYS.customers(storeId)),
+    ]).catch(error => console.error('Failed to refresh offline catalog:', error));
+  }, [isOnline, storeId]);
+
+  useEffect(() => {
+    const handleSyncComplete = (event: Event) => {
+      const summary = (event as CustomEvent<OfflineSyncSummary>).detail;
+      refresh();
+
+      if (summary.created > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+        queryClient.invalidateQueries({
+          predicate: (query) => {
+            const key = query.queryKey[0] as string;
+            return typeof key === 'string' && (key.startsWith('/api/products') || key.startsWith('/api/stores'));
+          }
+        });
+        toast({
+          title: "Offline Sales Synced",
+          description: `${summary.created} sale${summary.created === 1 ? '' : 's'} recorded on the server.`,
+        });
+      }
+
+      if (summary.conflicts > 0) {
+        toast({
+          title: "Offline Sales Need Attention",
+          description: summary.conflictedSales
+            .map(sale => `${sale.data?.transactionNumber ?? sale.id}: ${sale.conflicts?.map(c => c.message).join(' ')}`)
+            .join('\n'),
+          variant: "destructive",
+          duration: 15000,
+        });
+      }
+    };
+
+    window.addEventListener('offlineSyncComplete', handleSyncComplete);
+    return () => window.removeEventListener('offlineSyncComplete', handleSyncComplete);
+  }, [queryClient, refresh, toast]);
+
+  const retry = useCallback(async (id: string, approvalToken?: string) => {
+    await retryOfflineSale(id, approvalToken);
+    await syncNow();
+  }, [syncNow]);
+
+  const discard = useCallback(async (id: string) => {
+    await discardOfflineSale(id);
+    await refresh();
+  }, [refresh]);
+
+  return {
+    isOnline,
+    isSyncing,
+    queuedSales: pendingSales.filter(sale => !sale.conflicts?.length),
+    conflictedSales: pendingSales.filter(sale => !!sale.conflicts?.length),
+    syncNow,
+    retry,
+    discard,
+  };
+}
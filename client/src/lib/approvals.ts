@@ -0,0 +1,23 @@
+import type { ApprovalAction } from "@shared/schema";
+
+export { APPROVAL_ACTION_LABELS, approvalNeeded, readApprovalPolicy } from "@shared/approvals";
+
+// What the server asks a manager to approve (403 with code APPROVAL_REQUIRED)
+export interface ApprovalPrompt {
+  action: ApprovalAction;
+  amount: number;
+  transactionId: number | null;
+  message?: string;
+}
+
+/** The approval a failed request is waiting for, if that is why it failed. */
+export function readApprovalPrompt(error: unknown): ApprovalPrompt | null {
+  const data = (error as { response?: { data?: any } } | null)?.response?.data;
+  if (data?.code !== "APPROVAL_REQUIRED") return null;
+  return {
+    action: data.action,
+    amount: Number(data.amount) || 0,
+    transactionId: data.transactionId ?? null,
+    message: data.message,
+  };
+}
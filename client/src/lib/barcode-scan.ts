@@ -0,0 +1,42 @@
+import type { Product } from "@shared/schema";
+import type { ScannedLine } from "@shared/barcodes";
+import { formatQuantity } from "@shared/units";
+import { usePOSStore } from "./pos-store";
+
+// A product found by its code; scale labels come with the line they put in the cart
+export type ScannedProduct = Product & { scan?: ScannedLine };
+
+// What a scanned code finds: a product, a scale label the product cannot be sold by, or nothing
+export type BarcodeLookup = ScannedProduct | { scanError: string } | null;
+
+/**
+ * Looks a scanned code up. With the store given, codes that match no barcode
+ * are read as that store's scale labels. Network failures are thrown so the
+ * caller can fall back to its offline catalog.
+ */
+export async function lookUpBarcode(code: string, storeId?: number | null): Promise<BarcodeLookup> {
+  const storeQueryParam = storeId ? `?storeId=${storeId}` : "";
+  const res = await fetch(`/api/products/barcode/${encodeURIComponent(code)}${storeQueryParam}`);
+  // A scale label for a product that cannot be sold that way
+  if (res.status === 422) {
+    return { scanError: (await res.json()).message as string };
+  }
+  if (!res.ok) return null;
+  return res.json();
+}
+
+/** Adds a scanned product to the cart as its label describes, and says what went in. */
+export function addScannedProduct(product: ScannedProduct, storeId?: number | null): string {
+  const { addToCart } = usePOSStore.getState();
+  const scan = product.scan;
+  if (!scan) {
+    addToCart(product, 1, storeId);
+    return `${product.name} added to cart automatically`;
+  }
+
+  // Price labels on items not sold by weight charge the printed price; on
+  // weighed items the line comes to the printed price whatever the weight rounds to
+  const labelled = scan.price !== null ? { ...product, price: scan.price.toFixed(2) } : product;
+  addToCart(labelled, scan.quantity, storeId, scan.unit, scan.total ?? undefined);
+  return `${formatQuantity(scan.quantity, scan.unit.label)} of ${product.name} added to cart`;
+}
@@ -1,11 +1,53 @@
 // Offline storage utilities for PWA functionality
 
-interface OfflineTransaction {
+import type { ApprovalPrompt } from '@/lib/approvals';
+
+export interface OfflineSaleConflict {
+  code: string;
+  message: string;
+  productId?: number;
+  // Set on APPROVAL_REQUIRED: what a manager has to approve before a retry
+  approval?: ApprovalPrompt;
+}
+
+export interface OfflineTransaction {
   id: string;
   timestamp: number;
   type: 'sale' | 'return' | 'hold';
   data: any;
   synced: boolean;
+  // Set when the server refused the sale; it stays queued until retried or discarded
+  conflicts?: OfflineSaleConflict[];
+}
+
+export interface OfflineSyncSummary {
+  created: number;
+  duplicates: number;
+  conflicts: number;
+  failed: number;
+  conflictedSales: OfflineTransaction[];
+}
+
+const SYNC_BATCH_SIZE = 50;
+
+// Catalog endpoints the POS needs to keep ringing sales without a connection
+export const OFFLINE_CACHE_KEYS = {
+  storeProducts: (storeId: number) => `/api/stores/${storeId}/products`,
+  customers: (storeId: number) => `/api/customers?storeId=${storeId}`,
+};
+
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `sale-${Date.now()}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  return error instanceof TypeError || (error as any)?.message?.includes('Failed to fetch');
 }
 
 class OfflineStorage {
@@ -41,10 +83,12 @@ class OfflineStorage {
     });
   }
 
-  async storeTransaction(transaction: Omit<OfflineTransaction, 'id' | 'timestamp' | 'synced'>): Promise<string> {
+  async storeTransaction(
+    transaction: Omit<OfflineTransaction, 'id' | 'timestamp' | 'synced'>,
+    id: string = `offline-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  ): Promise<string> {
     if (!this.db) await this.init();
     
-    const id = `offline-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const offlineTransaction: OfflineTransaction = {
       id,
       timestamp: Date.now(),
@@ -68,11 +112,57 @@ class OfflineStorage {
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['transactions'], 'readonly');
       const store = transaction.objectStore('transactions');
-      const index = store.index('synced');
-      const request = index.getAll();
+      // Booleans are not valid IndexedDB keys, so the 'synced' index cannot be queried directly
+      const request = store.getAll();
       
       request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
+      request.onsuccess = () => {
+        const pending = (request.result as OfflineTransaction[])
+          .filter(item => !item.synced)
+          .sort((a, b) => a.timestamp - b.timestamp);
+        resolve(pending);
+      };
+    });
+  }
+
+  // Queue a sale captured while offline; the idempotency key doubles as the record id
+  async queueSale(payload: { idempotencyKey: string } & Record<string, any>): Promise<string> {
+    return this.storeTransaction(
+      { type: 'sale', data: { ...payload, capturedAt: payload.capturedAt ?? new Date().toISOString() } },
+      payload.idempotencyKey
+    );
+  }
+
+  async updateTransaction(id: string, changes: Partial<OfflineTransaction>): Promise<void> {
+    if (!this.db) await this.init();
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['transactions'], 'readwrite');
+      const store = transaction.objectStore('transactions');
+      const getRequest = store.get(id);
+      
+      getRequest.onerror = () => reject(getRequest.error);
+      getRequest.onsuccess = () => {
+        if (!getRequest.result) {
+          resolve();
+          return;
+        }
+        const putRequest = store.put({ ...getRequest.result, ...changes });
+        putRequest.onerror = () => reject(putRequest.error);
+        putRequest.onsuccess = () => resolve();
+      };
+    });
+  }
+
+  async removeTransaction(id: string): Promise<void> {
+    if (!this.db) await this.init();
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['transactions'], 'readwrite');
+      const request = transaction.objectStore('transactions').delete(id);
+      
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
     });
   }
 
@@ -169,32 +259,127 @@ export const offlineStorage = new OfflineStorage();
 // Initialize offline storage when module is imported
 offlineStorage.init().catch(console.error);
 
+// Fetch JSON and keep a copy for offline use; falls back to the copy when the network is down
+export async function fetchWithOfflineCache<T = any>(url: string): Promise<T> {
+  try {
+    const response = await fetch(url, { credentials: 'include' });
+    if (!response.ok) throw new Error(`Failed to fetch ${url}`);
+    const data = await response.json();
+    offlineStorage.cacheData(url, data).catch(console.error);
+    return data;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const cached = await offlineStorage.getCachedData(url);
+      if (cached !== undefined) {
+        console.log(`[Offline] Serving cached data for ${url}`);
+        return cached;
+      }
+    }
+    throw error;
+  }
+}
+
+export async function findCachedProductByBarcode(storeId: number, barcode: string): Promise<any | null> {
+  const products = await offlineStorage.getCachedData(OFFLINE_CACHE_KEYS.storeProducts(storeId));
+  if (!Array.isArray(products)) return null;
+  return products.find((product: any) => product.barcode === barcode || product.sku === barcode) ?? null;
+}
+
+export async function searchCachedProducts(storeId: number, query: string): Promise<any[]> {
+  const products = await offlineStorage.getCachedData(OFFLINE_CACHE_KEYS.storeProducts(storeId));
+  if (!Array.isArray(products)) return [];
+  const needle = query.trim().toLowerCase();
+  return products
+    .filter((product: any) => product.isActive !== false && String(product.name ?? '').toLowerCase().includes(needle))
+    .slice(0, 50);
+}
+
+export async function getPendingOfflineSales(): Promise<OfflineTransaction[]> {
+  const unsynced = await offlineStorage.getUnsyncedTransactions();
+  return unsynced.filter(item => item.type === 'sale');
+}
+
+// Put a conflicted sale back in the queue (e.g. after the day was reopened)
+/** Queues a rejected sale again, with the manager approval it was waiting for if one was given. */
+export async function retryOfflineSale(id: string, approvalToken?: string): Promise<void> {
+  if (!approvalToken) {
+    await offlineStorage.updateTransaction(id, { conflicts: undefined });
+    return;
+  }
+  const sale = (await getPendingOfflineSales()).find(pending => pending.id === id);
+  if (!sale) return;
+  await offlineStorage.updateTransaction(id, {
+    conflicts: undefined,
+    data: { ...sale.data, approvalTokens: [...(sale.data?.approvalTokens ?? []), approvalToken] },
+  });
+}
+
+export async function discardOfflineSale(id: string): Promise<void> {
+  await offlineStorage.removeTransaction(id);
+}
+
+let activeSync: Promise<OfflineSyncSummary | null> | null = null;
+
 // Background sync handler
-export async function syncOfflineData() {
+export function syncOfflineData(): Promise<OfflineSyncSummary | null> {
+  if (!activeSync) {
+    activeSync = drainOfflineQueue().finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+}
+
+async function drainOfflineQueue(): Promise<OfflineSyncSummary | null> {
   try {
-    const unsyncedTransactions = await offlineStorage.getUnsyncedTransactions();
-    
-    for (const transaction of unsyncedTransactions) {
-      try {
-        // Attempt to sync with server
-        const response = await fetch('/api/transactions/sync', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(transaction.data)
-        });
-        
-        if (response.ok) {
-          await offlineStorage.markTransactionSynced(transaction.id);
+    const pendingSales = await getPendingOfflineSales();
+    const queued = pendingSales.filter(sale => !sale.conflicts?.length);
+    if (queued.length === 0) {
+      return null;
+    }
+
+    const summary: OfflineSyncSummary = { created: 0, duplicates: 0, conflicts: 0, failed: 0, conflictedSales: [] };
+
+    for (let i = 0; i < queued.length; i += SYNC_BATCH_SIZE) {
+      const batch = queued.slice(i, i + SYNC_BATCH_SIZE);
+      const response = await fetch('/api/transactions/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ sales: batch.map(sale => sale.data) })
+      });
+
+      if (!response.ok) {
+        console.error('Offline sync rejected by server:', response.status);
+        break;
+      }
+
+      const { results } = await response.json();
+      for (const result of results as Array<{ idempotencyKey: string | null; status: string; conflicts?: OfflineSaleConflict[] }>) {
+        const sale = batch.find(item => item.id === result.idempotencyKey);
+        if (!sale) continue;
+
+        if (result.status === 'created' || result.status === 'duplicate') {
+          await offlineStorage.markTransactionSynced(sale.id);
+          summary[result.status === 'created' ? 'created' : 'duplicates']++;
+        } else if (result.status === 'conflict') {
+          await offlineStorage.updateTransaction(sale.id, { conflicts: result.conflicts });
+          summary.conflicts++;
+          summary.conflictedSales.push({ ...sale, conflicts: result.conflicts });
+        } else {
+          summary.failed++;
         }
-      } catch (error) {
-        console.error('Failed to sync transaction:', transaction.id, error);
       }
     }
     
     // Clean up old data
     await offlineStorage.clearOldData();
+
+    window.dispatchEvent(new CustomEvent('offlineSyncComplete', { detail: summary }));
+    return summary;
   } catch (error) {
     console.error('Error during background sync:', error);
+    return null;
   }
 }
 
@@ -1,12 +1,34 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { CartItem, Customer, Product, DayOperation } from '@shared/schema';
+import type { AppliedPromotion, PromotionLineAllocation } from './promotions';
+import { baseUnitOf, roundQuantity, unitPrice, type ResolvedUnit } from '@shared/units';
 
 // Extended CartItem with storeId for multi-store support
 interface ExtendedCartItem extends CartItem {
   storeId?: number | null;
 }
 
+// Whole units for most lines; weighed lines take up to three decimal places
+const lineQuantity = (quantity: number, allowsDecimal?: boolean): number =>
+  allowsDecimal ? Math.max(0.001, roundQuantity(quantity || 0)) : Math.max(1, Math.round(quantity || 1));
+
+// Quantity of a line in the product's base unit, which is what stock is kept in
+const baseQuantityOf = (item: Pick<CartItem, 'quantity' | 'unitFactor'>): number =>
+  item.quantity * (item.unitFactor ?? 1);
+
+// A line's amount before discount: what its scale label was priced at, or price × quantity
+export const lineAmount = (item: Pick<CartItem, 'price' | 'quantity' | 'labelTotal'>): number =>
+  item.labelTotal !== undefined ? parseFloat(item.labelTotal) : parseFloat(item.price || '0') * (item.quantity || 0);
+
+const discountedTotal = (item: Pick<CartItem, 'discountAmount' | 'discountType'>, baseTotal: number): number => {
+  if (!item.discountAmount || !item.discountType) return baseTotal;
+  const discount = parseFloat(item.discountAmount);
+  return item.discountType === 'percentage'
+    ? Math.max(0, baseTotal - baseTotal * (discount / 100))
+    : Math.max(0, baseTotal - discount);
+};
+
 interface POSState {
   // Cart state
   cartItems: ExtendedCartItem[];
@@ -17,6 +39,7 @@ interface POSState {
   currentDay: DayOperation | null;
   isDayOpen: boolean;
   selectedDate: string; // YYYY-MM-DD format for day operations
+  registerByStore: Record<number, number>; // The register this device rings sales up on, per store
   
   // Transaction state
   currentTransactionNumber: string;
@@ -24,6 +47,11 @@ interface POSState {
   transactionDiscount: number; // Transaction-level discount amount
   transactionDiscountType: 'percentage' | 'fixed' | null; // Type of transaction discount
   transactionDiscountValue: number; // Original discount value (percentage or fixed amount)
+  discountApprovalToken: string | null; // Manager approval for the discount, sent with the sale
+  appliedPromotions: AppliedPromotion[]; // Deals the promotion engine applied to the current cart
+  promotionDiscount: number; // Sum of appliedPromotions discounts
+  promotionLines: PromotionLineAllocation[]; // Promotion discount per cart line (DISCOUNT- lines excluded)
+  couponCode: string | null; // Coupon entered for the current sale, validated by the server
   
   // Scanner state
   isScannerOpen: boolean;
@@ -36,11 +64,12 @@ interface POSState {
   isDayOpenModalOpen: boolean;
   
   // Actions
-  addToCart: (product: Product, quantity?: number, storeId?: number | null) => void;
+  addToCart: (product: Product, quantity?: number, storeId?: number | null, unit?: ResolvedUnit, labelTotal?: number) => void;
   setCurrentStoreId: (storeId: number | null) => void;
   filterCartByStore: (storeId: number | null, itemsToFilter?: ExtendedCartItem[]) => void;
   removeFromCart: (productId: number | null, sku?: string) => void;
   updateCartItemQuantity: (productId: number | null, sku: string, quantity: number) => void;
+  setCartItemUnit: (productId: number | null, sku: string, unit: ResolvedUnit) => void;
   updateCartItemDiscount: (productId: number | null, sku: string, discountValue: string, discountType: 'percentage' | 'fixed') => void;
   clearCart: () => void;
   resumeTransaction: (transactionData: any) => void;
@@ -49,10 +78,13 @@ interface POSState {
   setCurrentDay: (day: DayOperation | null) => void;
   setIsDayOpen: (isOpen: boolean) => void;
   setSelectedDate: (date: string) => void;
+  setRegister: (storeId: number, registerId: number | null) => void;
   setCurrentTransactionNumber: (number: string) => void;
   setResumedHeldTransactionId: (id: number | null) => void;
-  setTransactionDiscount: (amount: number, type: 'percentage' | 'fixed', value: number) => void;
+  setTransactionDiscount: (amount: number, type: 'percentage' | 'fixed', value: number, approvalToken?: string | null) => void;
   clearTransactionDiscount: () => void;
+  setAppliedPromotions: (promotions: AppliedPromotion[], lines?: PromotionLineAllocation[]) => void;
+  setCouponCode: (code: string | null) => void;
   
   openScanner: (type: 'barcode' | 'qr' | 'product' | 'invoice') => void;
   closeScanner: () => void;
@@ -75,6 +107,7 @@ interface POSState {
   getCartTotal: () => number;
   getCartItemCount: () => number;
   getTransactionDiscount: () => number;
+  getPromotionDiscount: () => number;
 }
 
 export const usePOSStore = create<POSState>()(
@@ -88,11 +121,17 @@ export const usePOSStore = create<POSState>()(
       currentDay: null,
       isDayOpen: false,
       selectedDate: new Date().toISOString().split('T')[0], // Default to today
+      registerByStore: {},
       currentTransactionNumber: '',
       resumedHeldTransactionId: null,
       transactionDiscount: 0,
       transactionDiscountType: null,
       transactionDiscountValue: 0,
+      discountApprovalToken: null,
+      appliedPromotions: [],
+      promotionDiscount: 0,
+      promotionLines: [],
+      couponCode: null,
       isScannerOpen: false,
       scanType: 'barcode',
       isPaymentModalOpen: false,
@@ -101,7 +140,7 @@ export const usePOSStore = create<POSState>()(
       isDayOpenModalOpen: false,
       
       // Actions
-      addToCart: (product: Product, quantity = 1, storeId?: number | null) => {
+      addToCart: (product: Product, quantity = 1, storeId?: number | null, unit?: ResolvedUnit, labelTotal?: number) => {
         console.log('Adding to cart:', product, 'quantity:', quantity, 'storeId:', storeId);
         
         const state = get();
@@ -125,15 +164,18 @@ export const usePOSStore = create<POSState>()(
           window.dispatchEvent(new CustomEvent('requestTransactionNumber'));
         }
         
+        // Custom items are always sold in their base unit
+        const lineUnit = unit && product.id !== null && product.id !== undefined ? unit : baseUnitOf(product);
+        
         // Use the provided quantity parameter, defaulting to 1 if not provided
-        const qty = Math.max(1, quantity || 1);
+        const qty = lineQuantity(quantity, lineUnit.allowsDecimal);
         
-        // Check stock availability for non-custom items
+        // Check stock availability for non-custom items, in base units
         if (product.id !== null && product.id !== undefined) {
           const currentStock = product.stock ?? product.quantity ?? 0;
           const existingCartItem = cartItems.find(item => item.productId === product.id);
-          const currentCartQuantity = existingCartItem ? existingCartItem.quantity : 0;
-          const requestedQuantity = currentCartQuantity + qty;
+          const currentCartQuantity = existingCartItem ? baseQuantityOf(existingCartItem) : 0;
+          const requestedQuantity = roundQuantity(currentCartQuantity + qty * lineUnit.factor);
           
           if (requestedQuantity > currentStock) {
             // Dispatch event to show out-of-stock warning
@@ -154,7 +196,9 @@ export const usePOSStore = create<POSState>()(
         const priceValue = typeof productPrice === 'number' 
           ? productPrice 
           : (typeof productPrice === 'string' ? parseFloat(productPrice) : 0);
-        const priceString = isNaN(priceValue) || priceValue <= 0 ? '0.00' : priceValue.toString();
+        const basePriceString = isNaN(priceValue) || priceValue <= 0 ? '0.00' : priceValue.toString();
+        const linePrice = unitPrice(basePriceString, lineUnit);
+        const priceString = lineUnit.factor === 1 && lineUnit.price === null ? basePriceString : linePrice.toString();
         
         // Ensure all required fields are present
         const productName = product.name || 'Unknown Product';
@@ -183,8 +227,18 @@ export const usePOSStore = create<POSState>()(
                 return item;
               }
               
-              const newQuantity = item.quantity + qty;
-              const baseTotal = parseFloat(item.price || '0') * newQuantity;
+              // Adding in another unit puts the whole line in the base unit
+              const sameUnit = (item.unit ?? null) === lineUnit.code;
+              const lineBase = sameUnit ? null : baseUnitOf(product);
+              const newQuantity = sameUnit
+                ? roundQuantity(item.quantity + qty)
+                : roundQuantity(baseQuantityOf(item) + qty * lineUnit.factor);
+              const price = lineBase ? basePriceString : item.price;
+              // Two price labels for the same line come to what both labels say
+              const newLabelTotal = sameUnit && item.labelTotal !== undefined && labelTotal !== undefined
+                ? (parseFloat(item.labelTotal) + labelTotal).toFixed(2)
+                : undefined;
+              const baseTotal = lineAmount({ price, quantity: newQuantity, labelTotal: newLabelTotal });
               let newTotal = baseTotal;
               
               // Preserve discount if it exists
@@ -202,7 +256,15 @@ export const usePOSStore = create<POSState>()(
               
               return {
                 ...item,
+                ...(lineBase && {
+                  price,
+                  unit: null,
+                  unitLabel: lineBase.label,
+                  unitFactor: 1,
+                  allowsDecimal: lineBase.allowsDecimal,
+                }),
                 quantity: newQuantity,
+                labelTotal: newLabelTotal,
                 total: newTotal.toFixed(2),
                 stock: currentStock, // Update stock info
                 storeId: storeId ?? item.storeId ?? get().currentStoreId // Ensure storeId is preserved/updated
@@ -216,11 +278,17 @@ export const usePOSStore = create<POSState>()(
             name: productName,
             price: priceString,
             quantity: qty,
-            total: (qty * priceValue).toFixed(2),
+            total: (labelTotal ?? qty * parseFloat(priceString)).toFixed(2),
             imageUrl: product.imageUrl || undefined,
             vatRate: parseFloat(product.vatRate?.toString() || '0'), // Use product's VAT rate or default to 0%
             stock: currentStock, // Store stock at time of adding
             storeId: effectiveStoreId, // Track which store this item belongs to
+            unit: lineUnit.code,
+            unitLabel: lineUnit.label,
+            unitFactor: lineUnit.factor,
+            allowsDecimal: lineUnit.allowsDecimal,
+            basePrice: basePriceString,
+            labelTotal: labelTotal?.toFixed(2),
           };
           
           console.log('[POS Store] Adding new item with storeId:', effectiveStoreId, newItem);
@@ -253,9 +321,6 @@ export const usePOSStore = create<POSState>()(
       },
       
       updateCartItemQuantity: (productId: number | null, sku: string, quantity: number) => {
-        // Ensure quantity is always at least 1
-        const qty = Math.max(1, quantity || 1);
-        
         // Optimized with batch update to prevent lag
         const cartItems = get().cartItems;
         const updatedItems = cartItems.map(item => {
@@ -268,15 +333,19 @@ export const usePOSStore = create<POSState>()(
             return item;
           }
           
-          // Check stock availability for non-custom items
+          // Whole numbers of at least 1, unless the line is sold by weight
+          const qty = lineQuantity(quantity, item.allowsDecimal);
+          
+          // Check stock availability for non-custom items, in base units
           if (productId !== null && item.stock !== undefined) {
-            if (qty > item.stock) {
+            const requestedQuantity = roundQuantity(qty * (item.unitFactor ?? 1));
+            if (requestedQuantity > item.stock) {
               // Dispatch event to show out-of-stock warning
               window.dispatchEvent(new CustomEvent('outOfStock', {
                 detail: {
                   product: item.name,
                   availableStock: item.stock,
-                  requestedQuantity: qty
+                  requestedQuantity
                 }
               }));
               // Don't update quantity if it exceeds stock
@@ -284,7 +353,9 @@ export const usePOSStore = create<POSState>()(
             }
           }
           
-          const baseTotal = parseFloat(item.price) * qty;
+          // A new quantity is no longer what the scale label was priced for
+          const itemLabelTotal = qty === item.quantity ? item.labelTotal : undefined;
+          const baseTotal = lineAmount({ price: item.price, quantity: qty, labelTotal: itemLabelTotal });
           let newTotal = baseTotal;
           
           // Preserve discount if it exists
@@ -303,6 +374,7 @@ export const usePOSStore = create<POSState>()(
           return {
             ...item,
             quantity: qty,
+            labelTotal: itemLabelTotal,
             total: newTotal.toFixed(2)
           };
         });
@@ -310,6 +382,50 @@ export const usePOSStore = create<POSState>()(
         set({ cartItems: updatedItems });
       },
       
+      setCartItemUnit: (productId: number | null, sku: string, unit: ResolvedUnit) => {
+        const cartItems = get().cartItems;
+        const updatedItems = cartItems.map(item => {
+          const isMatch = productId !== null && item.productId !== null
+            ? item.productId === productId
+            : item.sku === sku;
+          
+          if (!isMatch || (item.unit ?? null) === unit.code) {
+            return item;
+          }
+          
+          // The quantity stays as entered, now counted in the new unit
+          const qty = lineQuantity(item.quantity, unit.allowsDecimal);
+          if (item.stock !== undefined && roundQuantity(qty * unit.factor) > item.stock) {
+            window.dispatchEvent(new CustomEvent('outOfStock', {
+              detail: {
+                product: item.name,
+                availableStock: item.stock,
+                requestedQuantity: roundQuantity(qty * unit.factor)
+              }
+            }));
+            return item;
+          }
+          
+          const basePrice = item.basePrice ?? item.price;
+          const price = unitPrice(basePrice, unit).toString();
+          return {
+            ...item,
+            price,
+            basePrice,
+            quantity: qty,
+            unit: unit.code,
+            unitLabel: unit.label,
+            unitFactor: unit.factor,
+            allowsDecimal: unit.allowsDecimal,
+            labelTotal: undefined,
+            total: discountedTotal(item, parseFloat(price) * qty).toFixed(2)
+          };
+        });
+        
+        set({ cartItems: updatedItems });
+        window.dispatchEvent(new CustomEvent('cartChanged'));
+      },
+      
       updateCartItemDiscount: (productId: number | null, sku: string, discountValue: string, discountType: 'percentage' | 'fixed') => {
         const cartItems = get().cartItems;
         const updatedItems = cartItems.map(item => {
@@ -322,7 +438,7 @@ export const usePOSStore = create<POSState>()(
             return item;
           }
           
-          const baseTotal = parseFloat(item.price) * item.quantity;
+          const baseTotal = lineAmount(item);
           let newTotal = baseTotal;
           
           // Apply discount if discountValue is provided
@@ -365,7 +481,12 @@ export const usePOSStore = create<POSState>()(
           resumedHeldTransactionId: null,
           transactionDiscount: 0,
           transactionDiscountType: null,
-          transactionDiscountValue: 0
+          transactionDiscountValue: 0,
+          discountApprovalToken: null,
+          appliedPromotions: [],
+          promotionDiscount: 0,
+          promotionLines: [],
+          couponCode: null
         });
       },
       
@@ -401,6 +522,11 @@ export const usePOSStore = create<POSState>()(
         set({ isDayOpen: isOpen });
       },
 
+      setRegister: (storeId: number, registerId: number | null) => {
+        const { [storeId]: _previous, ...others } = get().registerByStore;
+        set({ registerByStore: registerId ? { ...others, [storeId]: registerId } : others });
+      },
+
       setSelectedDate: (date: string) => {
         // Enhanced date persistence with validation
         console.log('Setting selected date:', date);
@@ -419,11 +545,12 @@ export const usePOSStore = create<POSState>()(
         set({ resumedHeldTransactionId: id });
       },
       
-      setTransactionDiscount: (amount: number, type: 'percentage' | 'fixed', value: number) => {
+      setTransactionDiscount: (amount: number, type: 'percentage' | 'fixed', value: number, approvalToken: string | null = null) => {
         set({
           transactionDiscount: amount,
           transactionDiscountType: type,
-          transactionDiscountValue: value
+          transactionDiscountValue: value,
+          discountApprovalToken: approvalToken
         });
       },
       
@@ -431,10 +558,24 @@ export const usePOSStore = create<POSState>()(
         set({
           transactionDiscount: 0,
           transactionDiscountType: null,
-          transactionDiscountValue: 0
+          transactionDiscountValue: 0,
+          discountApprovalToken: null
         });
       },
       
+      setAppliedPromotions: (promotions: AppliedPromotion[], lines: PromotionLineAllocation[] = []) => {
+        const promotionDiscount = promotions.reduce((sum, promotion) => sum + promotion.discountAmount, 0);
+        set({
+          appliedPromotions: promotions,
+          promotionDiscount: Math.round(promotionDiscount * 100) / 100,
+          promotionLines: lines
+        });
+      },
+
+      setCouponCode: (code: string | null) => {
+        set({ couponCode: code });
+      },
+      
       openScanner: (type: 'barcode' | 'qr' | 'product' | 'invoice') => {
         set({ isScannerOpen: true, scanType: type });
       },
@@ -477,13 +618,9 @@ export const usePOSStore = create<POSState>()(
       
       // Computed values
       getCartSubtotal: () => {
-        // Subtotal = Sum(Item Price × Quantity) for all items
+        // Subtotal = Sum(Item Price × Quantity) for all items, or the label price for scanned price labels
         // This is the base amount before VAT and before discount
-        return get().cartItems.reduce((sum, item) => {
-          const price = parseFloat(item.price || '0');
-          const quantity = item.quantity || 0;
-          return sum + (price * quantity);
-        }, 0);
+        return get().cartItems.reduce((sum, item) => sum + lineAmount(item), 0);
       },
       
       getCartVAT: () => {
@@ -492,9 +629,7 @@ export const usePOSStore = create<POSState>()(
         // VAT is calculated on the subtotal (price × quantity) BEFORE discount
         // VAT = Subtotal × VAT%
         return cartItems.reduce((totalVAT, item) => {
-          const price = parseFloat(item.price || '0');
-          const quantity = item.quantity || 0;
-          const itemSubtotal = price * quantity; // Calculate from price and quantity, not item.total
+          const itemSubtotal = lineAmount(item); // Calculate from price and quantity, not item.total
           
           // Determine VAT rate based on stored VAT rate
           let vatRate = item.vatRate || 0; // Default to stored VAT rate or 0%
@@ -507,14 +642,19 @@ export const usePOSStore = create<POSState>()(
         const subtotal = get().getCartSubtotal();
         const vat = get().getCartVAT();
         const discount = get().transactionDiscount || 0;
-        // Total Amount = Grand Total (Subtotal + VAT) - Discount
-        return subtotal + vat - discount;
+        const promotionDiscount = get().promotionDiscount || 0;
+        // Total Amount = Grand Total (Subtotal + VAT) - Discount - Promotions
+        return subtotal + vat - discount - promotionDiscount;
       },
       
       getTransactionDiscount: () => {
         return get().transactionDiscount || 0;
       },
       
+      getPromotionDiscount: () => {
+        return get().promotionDiscount || 0;
+      },
+      
       setCurrentStoreId: (storeId: number | null) => {
         const currentStoreId = get().currentStoreId;
         const currentCartItems = get().cartItems;
@@ -576,7 +716,8 @@ export const usePOSStore = create<POSState>()(
       },
       
       getCartItemCount: () => {
-        return get().cartItems.reduce((sum, item) => sum + item.quantity, 0);
+        // A weighed line is one item whatever it weighs
+        return get().cartItems.reduce((sum, item) => sum + (item.allowsDecimal ? 1 : item.quantity), 0);
       }
     };
   },
@@ -590,7 +731,9 @@ export const usePOSStore = create<POSState>()(
         resumedHeldTransactionId: state.resumedHeldTransactionId,
         transactionDiscount: state.transactionDiscount,
         transactionDiscountType: state.transactionDiscountType,
-        transactionDiscountValue: state.transactionDiscountValue
+        transactionDiscountValue: state.transactionDiscountValue,
+        couponCode: state.couponCode,
+        registerByStore: state.registerByStore
       })
     }
   )
@@ -0,0 +1,79 @@
+import type { Promotion, PromotionTier, PromotionType } from "@shared/schema";
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: "Percentage Discount",
+  fixed_amount: "Fixed Amount Off",
+  buy_x_get_y: "Buy X Get Y Free",
+  bundle: "Bundle Price",
+  mix_match: "Mix & Match",
+  tiered: "Tiered Quantity Discount",
+  spend_threshold: "Spend Threshold",
+};
+
+// Result of POST /api/promotions/apply, one entry per deal used on the cart
+export interface AppliedPromotion {
+  promotionId: number;
+  name: string;
+  type: string;
+  discountAmount: number;
+  items: Array<{
+    productId: number | null;
+    sku: string;
+    quantity: number;
+    discountAmount: number;
+  }>;
+}
+
+// Discount per cart line, in the order the items were sent
+export interface PromotionLineAllocation {
+  productId: number | null;
+  sku: string;
+  discountAmount: number;
+  promotionId: number | null;
+}
+
+// Outcome for each coupon code sent with the cart
+export interface CouponApplication {
+  code: string;
+  promotionId?: number;
+  rejection?: { code: string; message: string };
+}
+
+export interface PromotionEvaluation {
+  totalDiscount: number;
+  appliedPromotions: AppliedPromotion[];
+  lines: PromotionLineAllocation[];
+  coupons?: CouponApplication[];
+}
+
+const money = (value: number | string | null | undefined) => `QR ${Number(value || 0).toFixed(2)}`;
+
+export const formatTier = (tier: PromotionTier, unit: "items" | "spend"): string => {
+  const reach = unit === "items" ? `${tier.threshold}+ items` : `Spend ${money(tier.threshold)}`;
+  const reward = tier.discountType === "percentage" ? `${tier.value}% off` : `${money(tier.value)} off`;
+  return `${reach}: ${reward}`;
+};
+
+/** One-line summary of what a promotion gives, for lists and badges. */
+export function describePromotion(promotion: Promotion): string {
+  const tiers = Array.isArray(promotion.tiers) ? (promotion.tiers as PromotionTier[]) : [];
+
+  switch (promotion.type) {
+    case "percentage":
+      return `${Number(promotion.value || 0)}% off`;
+    case "fixed_amount":
+      return `${money(promotion.value)} off`;
+    case "buy_x_get_y":
+      return "Buy X get Y free";
+    case "bundle":
+      return `Bundle for ${money(promotion.value)}`;
+    case "mix_match":
+      return `Any ${promotion.groupQuantity || 0} for ${money(promotion.value)}`;
+    case "tiered":
+      return tiers.map((tier) => formatTier(tier, "items")).join(" · ");
+    case "spend_threshold":
+      return tiers.map((tier) => formatTier(tier, "spend")).join(" · ");
+    default:
+      return promotion.type;
+  }
+}
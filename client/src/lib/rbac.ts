@@ -1,90 +1,14 @@
 // Role-Based Access Control (RBAC) Service
 // Comprehensive permission management for POS system
 import React from 'react';
+import { USER_ROLES, type UserRole } from '@shared/schema';
+import { hasPermission } from '@shared/permissions';
 
-export const USER_ROLES = {
-  ADMIN: 'admin',
-  MANAGER: 'manager',
-  SUPERVISOR: 'supervisor',
-  CASHIER: 'cashier',
-  DELIVERY: 'delivery',
-  CUSTOMER: 'customer'
-} as const;
-
-export type UserRole = typeof USER_ROLES[keyof typeof USER_ROLES];
-
-export interface Permission {
-  resource: string;
-  action: string;
-}
-
-// Permission matrix - defines what each role can do
-const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
-  [USER_ROLES.ADMIN]: [
-    // Complete system access
-    { resource: '*', action: '*' },
-  ],
-  
-  [USER_ROLES.MANAGER]: [
-    // Store management and operations
-    { resource: 'transactions', action: 'create' },
-    { resource: 'transactions', action: 'read' },
-    { resource: 'transactions', action: 'update' },
-    { resource: 'transactions', action: 'refund' },
-    { resource: 'customers', action: '*' },
-    { resource: 'products', action: '*' },
-    { resource: 'inventory', action: '*' },
-    { resource: 'reports', action: 'read' },
-    { resource: 'shifts', action: '*' },
-    { resource: 'day-operations', action: '*' },
-    { resource: 'suppliers', action: 'read' },
-    { resource: 'invoices', action: 'read' },
-  ],
-  
-  [USER_ROLES.SUPERVISOR]: [
-    // Operational oversight
-    { resource: 'transactions', action: 'create' },
-    { resource: 'transactions', action: 'read' },
-    { resource: 'transactions', action: 'refund' },
-    { resource: 'customers', action: 'read' },
-    { resource: 'customers', action: 'create' },
-    { resource: 'customers', action: 'update' },
-    { resource: 'products', action: 'read' },
-    { resource: 'products', action: 'update' },
-    { resource: 'inventory', action: 'read' },
-    { resource: 'inventory', action: 'update' },
-    { resource: 'reports', action: 'read' },
-    { resource: 'shifts', action: 'read' },
-    { resource: 'shifts', action: 'update' },
-    { resource: 'day-operations', action: 'read' },
-  ],
-  
-  [USER_ROLES.CASHIER]: [
-    // Basic POS operations
-    { resource: 'transactions', action: 'create' },
-    { resource: 'transactions', action: 'read' },
-    { resource: 'customers', action: 'read' },
-    { resource: 'customers', action: 'create' },
-    { resource: 'products', action: 'read' },
-    { resource: 'inventory', action: 'read' },
-    { resource: 'shifts', action: 'read' },
-    { resource: 'day-operations', action: 'read' },
-  ],
-  
-  [USER_ROLES.DELIVERY]: [
-    // Delivery-specific access
-    { resource: 'transactions', action: 'read' },
-    { resource: 'customers', action: 'read' },
-    { resource: 'products', action: 'read' },
-  ],
-  
-  [USER_ROLES.CUSTOMER]: [
-    // Limited customer access
-    { resource: 'transactions', action: 'read' }, // Own transactions only
-    { resource: 'profile', action: 'read' },
-    { resource: 'profile', action: 'update' },
-  ],
-};
+// The permission matrix lives in @shared/permissions so the server enforces
+// exactly what the UI shows
+export { USER_ROLES, hasPermission };
+export type { UserRole };
+export type { Permission } from '@shared/permissions';
 
 // Get user role from auth context (mock implementation)
 export function getCurrentUserRole(): UserRole {
@@ -93,28 +17,6 @@ export function getCurrentUserRole(): UserRole {
   return USER_ROLES.ADMIN;
 }
 
-// Check if user has permission for specific resource and action
-export function hasPermission(
-  userRole: UserRole,
-  resource: string,
-  action: string
-): boolean {
-  const permissions = ROLE_PERMISSIONS[userRole];
-  
-  // Check for wildcard permissions (admin)
-  if (permissions.some(p => p.resource === '*' && p.action === '*')) {
-    return true;
-  }
-  
-  // Check for specific resource with wildcard action
-  if (permissions.some(p => p.resource === resource && p.action === '*')) {
-    return true;
-  }
-  
-  // Check for exact permission match
-  return permissions.some(p => p.resource === resource && p.action === action);
-}
-
 // Enhanced permission check with context
 export function checkPermission(
   resource: string,
@@ -0,0 +1,61 @@
+import type { RefundMethod, ReturnDisposition, ReturnReasonCode } from "@shared/schema";
+
+export const RETURN_REASON_LABELS: Record<ReturnReasonCode, string> = {
+  damaged: "Damaged",
+  defective: "Defective",
+  wrong_item: "Wrong item",
+  expired: "Expired",
+  not_as_described: "Not as described",
+  customer_changed_mind: "Customer changed mind",
+  other: "Other",
+};
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  store_credit: "Store credit",
+};
+
+export const RETURN_DISPOSITION_LABELS: Record<ReturnDisposition, string> = {
+  restock: "Restock",
+  write_off: "Write off",
+};
+
+// Mirrors ReturnableItem from server/modules/returns/storage.ts
+export interface ReturnableItem {
+  transactionItemId: number;
+  productId: number | null;
+  productName: string | null;
+  productSku: string | null;
+  unitPrice: string;
+  unit: string | null;
+  allowsDecimal: boolean;
+  soldQuantity: number;
+  returnedQuantity: number;
+  remainingQuantity: number;
+  refundableAmount: number;
+  refundedAmount: number;
+}
+
+/**
+ * Tenders a sale can be refunded to: card only when the customer paid by
+ * card, store credit only when the sale has a customer.
+ */
+export function getAllowedRefundMethods(transaction: { paymentMethod?: string | null; customerId?: number | null }): RefundMethod[] {
+  const methods: RefundMethod[] = ["cash"];
+  if (transaction.paymentMethod === "card" || transaction.paymentMethod === "split") {
+    methods.push("card");
+  }
+  if (transaction.customerId) {
+    methods.push("store_credit");
+  }
+  return methods;
+}
+
+/** Estimated refund for a partial quantity, matching the server's per-unit split. */
+export function estimateLineRefund(item: ReturnableItem, quantity: number): number {
+  if (quantity <= 0 || item.remainingQuantity <= 0) return 0;
+  if (quantity >= item.remainingQuantity) return item.refundableAmount;
+  const unitRefund = (item.refundableAmount + item.refundedAmount) / item.soldQuantity;
+  return Math.round(unitRefund * quantity * 100) / 100;
+}
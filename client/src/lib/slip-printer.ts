@@ -0,0 +1,82 @@
+// Prints short till documents (drop slips and the like) on the receipt printer
+// chosen in the printer settings, through the browser's print dialog.
+
+export interface SlipLine {
+  label: string;
+  value: string;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function printerSettings() {
+  try {
+    const saved = localStorage.getItem("pos_printer_config");
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Lays out a titled slip of label/value lines, with signature lines at the foot. */
+export function slipHtml(title: string, lines: SlipLine[], signatures: string[] = []): string {
+  const rows = lines
+    .map((line) => `<tr><td>${escapeHtml(line.label)}</td><td class="value">${escapeHtml(line.value)}</td></tr>`)
+    .join("");
+  const signs = signatures
+    .map((signature) => `<div class="sign">${escapeHtml(signature)}: ____________________</div>`)
+    .join("");
+  return `<h1>${escapeHtml(title)}</h1><table>${rows}</table>${signs}`;
+}
+
+/** A longer slip in headed sections, such as an X or Z report. */
+export function sectionedSlipHtml(title: string, header: SlipLine[], sections: { heading: string; lines: SlipLine[] }[]): string {
+  const table = (lines: SlipLine[]) =>
+    `<table>${lines
+      .map((line) => `<tr><td>${escapeHtml(line.label)}</td><td class="value">${escapeHtml(line.value)}</td></tr>`)
+      .join("")}</table>`;
+  const body = sections.map((section) => `<h2>${escapeHtml(section.heading)}</h2>${table(section.lines)}`).join("");
+  return `<h1>${escapeHtml(title)}</h1>${table(header)}${body}`;
+}
+
+export function printSlip(title: string, bodyHtml: string): void {
+  const config = printerSettings();
+  const paperSize = config?.settings?.paperSize || "80mm";
+  const fontSize = paperSize === "58mm" ? "10px" : paperSize === "80mm" ? "12px" : "14px";
+
+  const printWindow = window.open("", "_blank", "width=400,height=600");
+  if (!printWindow) {
+    throw new Error("Popup blocked. Please allow popups to print slips.");
+  }
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${escapeHtml(title)}</title>
+      <style>
+        @media print { @page { size: ${paperSize} auto; margin: 0; } }
+        body { font-family: 'Courier New', monospace; font-size: ${fontSize}; line-height: 1.3; margin: 0; padding: 10px; max-width: ${paperSize}; }
+        h1 { font-size: 1.2em; text-align: center; margin: 0 0 8px; }
+        h2 { font-size: 1em; margin: 10px 0 4px; border-bottom: 1px dashed #000; }
+        table { width: 100%; border-collapse: collapse; }
+        td { padding: 1px 0; vertical-align: top; }
+        td.value { text-align: right; }
+        .sign { margin-top: 24px; }
+      </style>
+    </head>
+    <body>
+      ${bodyHtml}
+      <script>
+        window.onload = function() {
+          setTimeout(() => {
+            window.print();
+            setTimeout(() => window.close(), 1000);
+          }, 300);
+        };
+      </script>
+    </body>
+    </html>
+  `);
+  printWindow.document.close();
+}
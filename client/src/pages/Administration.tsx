@@ -11,6 +11,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { getRoleDisplayName, getRoleBadgeColor, USER_ROLES } from "@/lib/authUtils";
 import { Shield, Users, Save, Store, Settings, RefreshCw } from "lucide-react";
 import { UserStoreManagement } from "@/components/admin/user-store-management";
+import { ApprovalCredentialsDialog } from "@/components/admin/approval-credentials-dialog";
+import { hasPermission } from "@shared/permissions";
 import { AccessDenied } from "@/components/ui/access-denied";
 import MainLayout from "@/components/layout/main-layout";
 
@@ -225,6 +227,10 @@ export default function Administration() {
                               <Save className="mr-2 h-4 w-4" />
                               Save
                             </Button>
+
+                            {hasPermission(userData.role, "approvals", "grant") && (
+                              <ApprovalCredentialsDialog user={userData} />
+                            )}
                           </div>
                         </div>
                       );
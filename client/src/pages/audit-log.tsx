@@ -0,0 +1,288 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/main-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollText, Download, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { useStore } from "@/hooks/useStore";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, type User } from "@shared/schema";
+
+interface AuditEntry {
+  id: number;
+  createdAt: string;
+  actorId: number | null;
+  actorName: string | null;
+  storeId: number | null;
+  entityType: string;
+  entityId: string;
+  action: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  reason: string | null;
+  requestId: string | null;
+}
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const ENTITY_LABELS: Record<string, string> = {
+  day_operation: "Day operation",
+  product: "Product",
+  store_product: "Store price",
+  stock_adjustment: "Stock adjustment",
+  stock_lot: "Stock lot",
+  customer_credit: "Credit balance",
+  credit_transaction: "Credit transaction",
+  transaction: "Sale",
+  return: "Return",
+  shift: "Shift",
+  drawer_session: "Drawer session",
+  cash_movement: "Cash movement",
+  denomination_set: "Denomination set",
+  z_report: "Z report",
+  supplier_payment: "Supplier payment",
+  supplier_invoice: "Supplier invoice",
+  store: "Store",
+  vat_configuration: "VAT rule",
+  currency_rate: "Currency rate",
+  approval: "Manager approval",
+};
+
+const ACTION_STYLES: Record<string, string> = {
+  create: "bg-green-500/10 text-green-700 dark:text-green-300",
+  update: "bg-amber-500/10 text-amber-700 dark:text-amber-300",
+  delete: "bg-red-500/10 text-red-700 dark:text-red-300",
+  deny: "bg-red-500/10 text-red-700 dark:text-red-300",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+export default function AuditLogPage() {
+  const { availableStores } = useStore();
+  const [storeId, setStoreId] = useState(ALL);
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [actorId, setActorId] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  // The same filters drive the table and the CSV export
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (storeId !== ALL) params.set("storeId", storeId);
+    if (entityType !== ALL) params.set("entityType", entityType);
+    if (action !== ALL) params.set("action", action);
+    if (actorId !== ALL) params.set("actorId", actorId);
+    if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+    return params;
+  }, [storeId, entityType, action, actorId, from, to]);
+
+  const listUrl = useMemo(() => {
+    const params = new URLSearchParams(filterParams);
+    params.set("limit", String(PAGE_SIZE));
+    params.set("offset", String(page * PAGE_SIZE));
+    return `/api/audit-logs?${params.toString()}`;
+  }, [filterParams, page]);
+
+  const { data: entries = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [listUrl],
+    staleTime: 0,
+  });
+
+  const storeNames = useMemo(
+    () => new Map(availableStores.map((store) => [store.id, store.name])),
+    [availableStores],
+  );
+
+  // Any filter change starts again from the newest entries
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <MainLayout pageTitle="Audit Log">
+      <div className="container-responsive py-6 space-y-6">
+        <Card className="border-none shadow-sm bg-slate-50 dark:bg-slate-900/40">
+          <CardHeader className="pb-8">
+            <div className="flex items-start gap-4">
+              <div className="flex-shrink-0 bg-slate-700 rounded-xl p-3 shadow-lg">
+                <ScrollText className="h-8 w-8 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Audit Log</h1>
+                <p className="text-slate-600 dark:text-slate-300 text-base leading-relaxed">
+                  Every change to day operations, prices, stock, credit balances and refunds, with who made it and why.
+                  Entries cannot be edited or deleted.
+                </p>
+              </div>
+              <Button asChild variant="outline">
+                <a href={`/api/audit-logs/export?${filterParams.toString()}`} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </a>
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        <Card className="border-slate-200 dark:border-slate-800 shadow-sm">
+          <CardHeader className="bg-slate-50 dark:bg-slate-900 border-b border-slate-200 dark:border-slate-700">
+            <CardTitle className="text-lg font-bold text-slate-900 dark:text-white">Filters</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-6">
+            <div className="space-y-2">
+              <Label>Store</Label>
+              <Select value={storeId} onValueChange={withReset(setStoreId)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All stores</SelectItem>
+                  {availableStores.map((store) => (
+                    <SelectItem key={store.id} value={String(store.id)}>{store.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Record</Label>
+              <Select value={entityType} onValueChange={withReset(setEntityType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Everything</SelectItem>
+                  {AUDIT_ENTITY_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{ENTITY_LABELS[type] ?? type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Change</Label>
+              <Select value={action} onValueChange={withReset(setAction)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any</SelectItem>
+                  {AUDIT_ACTIONS.map((value) => (
+                    <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={actorId} onValueChange={withReset(setActorId)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Anyone</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={String(user.id)}>{user.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => withReset(setFrom)(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => withReset(setTo)(e.target.value)} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border-slate-200 dark:border-slate-800 shadow-sm">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No changes match these filters.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Store</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.id} className="align-top">
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-sm">{entry.actorName ?? "System"}</TableCell>
+                        <TableCell className="text-sm">
+                          {entry.storeId ? storeNames.get(entry.storeId) ?? `#${entry.storeId}` : "—"}
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {ENTITY_LABELS[entry.entityType] ?? entry.entityType}
+                          <span className="text-muted-foreground"> #{entry.entityId}</span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={`capitalize ${ACTION_STYLES[entry.action] ?? ""}`}>{entry.action}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs font-mono max-w-md">
+                          {Object.entries(entry.changes ?? {}).map(([field, change]) => (
+                            <div key={field} className="break-all">
+                              <span className="font-semibold">{field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-sm max-w-xs">
+                          {entry.reason ?? "—"}
+                          {entry.requestId && (
+                            <div className="text-xs text-muted-foreground font-mono mt-1" title="Request id">
+                              {entry.requestId}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between pt-4">
+              <span className="text-sm text-muted-foreground">Page {page + 1}</span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={entries.length < PAGE_SIZE}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,328 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/main-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, Loader2, Trash2 } from "lucide-react";
+import { formatTransferQuantity } from "@/components/inventory/pending-transfers";
+import { useStore } from "@/hooks/useStore";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+
+type MarkdownSuggestion =
+  | { action: "write_off"; reason: string }
+  | { action: "markdown"; discountPercent: number; suggestedPrice: number; unsoldAtCurrentRate: number };
+
+interface ExpiringLot {
+  lotId: number;
+  productId: number;
+  productName: string;
+  sku: string;
+  lotNumber: string | null;
+  expiryDate: string;
+  quantityRemaining: number;
+  unitCost: number | null;
+  price: number;
+  daysLeft: number;
+  status: "expired" | "expiring" | "ok" | "none";
+  dailySales: number;
+  suggestion: MarkdownSuggestion | null;
+}
+
+interface ExpiringLotsReport {
+  today: string;
+  days: number;
+  lots: ExpiringLot[];
+}
+
+const WINDOWS = ["3", "7", "14", "30"];
+
+const daysLeftLabel = (lot: ExpiringLot) => {
+  if (lot.daysLeft < 0) return `Expired ${-lot.daysLeft} day${lot.daysLeft === -1 ? "" : "s"} ago`;
+  if (lot.daysLeft === 0) return "Expires today";
+  if (lot.daysLeft === 1) return "Expires tomorrow";
+  return `${lot.daysLeft} days left`;
+};
+
+const daysLeftStyle = (lot: ExpiringLot) =>
+  lot.daysLeft < 0
+    ? "bg-red-100 text-red-800"
+    : lot.daysLeft <= 1
+      ? "bg-orange-100 text-orange-800"
+      : "bg-amber-100 text-amber-800";
+
+export default function ExpiringStockPage() {
+  const { currentStore, availableStores } = useStore();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [storeId, setStoreId] = useState<string>(currentStore ? String(currentStore.id) : "");
+  const [days, setDays] = useState("7");
+  const [includeExpired, setIncludeExpired] = useState(true);
+  const [writingOff, setWritingOff] = useState<ExpiringLot | null>(null);
+
+  const canWriteOff = hasPermission(user?.role, "inventory", "write-off");
+  const selectedStore = storeId || (currentStore ? String(currentStore.id) : "");
+
+  const url = useMemo(
+    () => `/api/stores/${selectedStore}/lots/expiring?days=${days}&includeExpired=${includeExpired}`,
+    [selectedStore, days, includeExpired],
+  );
+  const { data, isLoading, isError, error } = useQuery<ExpiringLotsReport>({
+    queryKey: [url],
+    enabled: !!selectedStore,
+    staleTime: 0,
+  });
+
+  const lots = data?.lots ?? [];
+  const expired = lots.filter((lot) => lot.daysLeft < 0);
+  const valueAtRisk = lots.reduce((sum, lot) => sum + lot.quantityRemaining * (lot.unitCost ?? 0), 0);
+
+  const refresh = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0] ?? "");
+        return key.startsWith(`/api/stores/${selectedStore}/`) || key.startsWith("/api/products");
+      },
+    });
+
+  const writeOffExpired = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stores/${selectedStore}/lots/expired/write-off`, { reason: "Expired" });
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (result) => {
+      refresh();
+      toast({ title: result.message });
+    },
+    onError: (err: any) => {
+      toast({ title: "Could not write off", description: err?.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <MainLayout pageTitle="Expiring Stock">
+      <div className="container-responsive py-6 space-y-6">
+        <Card className="border-none shadow-sm bg-slate-50 dark:bg-slate-900/40">
+          <CardHeader className="pb-8">
+            <div className="flex items-start gap-4">
+              <div className="flex-shrink-0 bg-blue-600 rounded-xl p-3 shadow-lg">
+                <CalendarClock className="h-8 w-8 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Expiring Stock</h1>
+                <p className="text-slate-600 dark:text-slate-300 text-base leading-relaxed">
+                  Lots of perishable stock that expire soon, with a suggested markdown where recent sales will not clear
+                  them in time. Expired lots are written off through the stock ledger.
+                </p>
+              </div>
+              {canWriteOff && expired.length > 0 && (
+                <Button variant="destructive" disabled={writeOffExpired.isPending} onClick={() => writeOffExpired.mutate()}>
+                  {writeOffExpired.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+                  Write off {expired.length} expired lot{expired.length === 1 ? "" : "s"}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+        </Card>
+
+        <Card className="border-slate-200 dark:border-slate-800 shadow-sm">
+          <CardHeader className="bg-slate-50 dark:bg-slate-900 border-b border-slate-200 dark:border-slate-700">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4 justify-between">
+              <CardTitle className="text-lg">
+                {lots.length} lot{lots.length === 1 ? "" : "s"}
+                {valueAtRisk > 0 && <span className="text-sm font-normal text-slate-500"> · {valueAtRisk.toFixed(2)} at cost</span>}
+              </CardTitle>
+              <div className="flex flex-wrap items-center gap-3">
+                <Select value={selectedStore} onValueChange={setStoreId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Store" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableStores.map((store) => (
+                      <SelectItem key={store.id} value={String(store.id)}>
+                        {store.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={days} onValueChange={setDays}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WINDOWS.map((window) => (
+                      <SelectItem key={window} value={window}>
+                        Next {window} days
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={includeExpired} onCheckedChange={(checked) => setIncludeExpired(checked === true)} />
+                  Include expired
+                </label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {!selectedStore ? (
+              <p className="text-center text-slate-500 py-12">Choose a store.</p>
+            ) : isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+              </div>
+            ) : isError ? (
+              <p className="text-center text-red-600 py-8">{(error as Error)?.message}</p>
+            ) : lots.length === 0 ? (
+              <p className="text-center text-slate-500 py-12">Nothing expires in this window.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead className="text-right">Left</TableHead>
+                    <TableHead className="text-right">Sells / day</TableHead>
+                    <TableHead>Suggestion</TableHead>
+                    {canWriteOff && <TableHead />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lots.map((lot) => (
+                    <TableRow key={lot.lotId}>
+                      <TableCell>
+                        <div className="font-medium">{lot.productName}</div>
+                        <div className="text-xs text-slate-500 font-mono">{lot.sku}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{lot.lotNumber ?? "—"}</TableCell>
+                      <TableCell>
+                        <div>{lot.expiryDate}</div>
+                        <Badge variant="secondary" className={daysLeftStyle(lot)}>
+                          {daysLeftLabel(lot)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatTransferQuantity(lot.quantityRemaining)}</TableCell>
+                      <TableCell className="text-right">{lot.dailySales}</TableCell>
+                      <TableCell>
+                        {lot.suggestion?.action === "write_off" ? (
+                          <span className="text-red-700">Write off</span>
+                        ) : lot.suggestion?.action === "markdown" ? (
+                          <span>
+                            {lot.suggestion.discountPercent}% off → {lot.suggestion.suggestedPrice.toFixed(2)}
+                            <span className="block text-xs text-slate-500">
+                              ~{formatTransferQuantity(lot.suggestion.unsoldAtCurrentRate)} unsold at full price
+                            </span>
+                          </span>
+                        ) : (
+                          <span className="text-slate-500">Sells through in time</span>
+                        )}
+                      </TableCell>
+                      {canWriteOff && (
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => setWritingOff(lot)}>
+                            Write off
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {writingOff && (
+        <WriteOffLotDialog
+          storeId={selectedStore}
+          lot={writingOff}
+          onClose={() => setWritingOff(null)}
+          onDone={(message) => {
+            setWritingOff(null);
+            refresh();
+            toast({ title: message });
+          }}
+        />
+      )}
+    </MainLayout>
+  );
+}
+
+interface WriteOffLotDialogProps {
+  storeId: string;
+  lot: ExpiringLot;
+  onClose: () => void;
+  onDone: (message: string) => void;
+}
+
+function WriteOffLotDialog({ storeId, lot, onClose, onDone }: WriteOffLotDialogProps) {
+  const { toast } = useToast();
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState(lot.daysLeft < 0 ? "Expired" : "");
+
+  const writeOff = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stores/${storeId}/lots/${lot.lotId}/write-off`, {
+        quantity: quantity ? Number(quantity) : undefined,
+        reason: reason.trim() || undefined,
+      });
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (result) => onDone(result.message),
+    onError: (err: any) => {
+      toast({ title: "Could not write off", description: err?.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Write off {lot.productName}
+            {lot.lotNumber && <span className="font-mono"> · {lot.lotNumber}</span>}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Quantity</Label>
+            <Input
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={lot.quantityRemaining}
+              placeholder={`All ${formatTransferQuantity(lot.quantityRemaining)}`}
+              value={quantity}
+              onChange={(event) => setQuantity(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Input placeholder="Expired" value={reason} onChange={(event) => setReason(event.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="destructive" disabled={writeOff.isPending} onClick={() => writeOff.mutate()}>
+            {writeOff.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Write off
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
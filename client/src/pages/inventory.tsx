@@ -16,6 +16,7 @@ import ProductModal from "@/components/inventory/product-modal";
 import AIProductModal from "@/components/inventory/ai-product-modal";
 import StockUploadModal from "@/components/inventory/stock-upload-modal";
 import { StockAlert } from "@/components/inventory/stock-alert";
+import { InTransitBadge, PendingTransfers, useInTransitStock } from "@/components/inventory/pending-transfers";
 import { ProductSkeleton, TableSkeleton } from "@/components/ui/skeleton-loader";
 import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
 import { getCategoryLabel, getProductTypeLabel } from "@/config/product-categories";
@@ -28,7 +29,7 @@ type SortOrder = 'asc' | 'desc';
 const PAGE_SIZE = 25;
 
 export default function Inventory() {
-  const { currentStore } = useStore();
+  const { currentStore, availableStores } = useStore();
   const [searchQuery, setSearchQuery] = useState("");
   const [showProductModal, setShowProductModal] = useState(false);
   const [showAIModal, setShowAIModal] = useState(false);
@@ -63,6 +64,11 @@ export default function Inventory() {
   }, []);
 
   const queryClient = useQueryClient();
+  const inTransit = useInTransitStock(currentStore?.id);
+  const storeNames = useMemo(
+    () => new Map(availableStores.map((store) => [store.id, store.name])),
+    [availableStores],
+  );
   
   const storeQueryParam = currentStore?.id ? `?storeId=${currentStore.id}` : "";
   
@@ -417,6 +423,9 @@ export default function Inventory() {
         {/* Stock Alert Banner */}
         <StockAlert lowStockProducts={lowStockProducts} />
 
+        {/* Transfers into or out of this store */}
+        {currentStore && <PendingTransfers storeId={currentStore.id} storeNames={storeNames} />}
+
         {/* Enhanced Search and Action Bar */}
         <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4 mb-6 shadow-sm">
           <div className="flex flex-col gap-4">
@@ -684,6 +693,12 @@ export default function Inventory() {
                               {actualStock} {stockStatus.label}
                             </Badge>
                           </div>
+                          {inTransit.has(product.id) && (
+                            <div className="flex justify-between">
+                              <span className="text-slate-600">In transit:</span>
+                              <InTransitBadge entry={inTransit.get(product.id)} />
+                            </div>
+                          )}
                           {product.barcode && (
                             <div className="flex justify-between">
                               <span className="text-slate-600">Barcode:</span>
@@ -797,7 +812,10 @@ export default function Inventory() {
                             ) : '-'}
                           </TableCell>
                           <TableCell className="font-medium">QR {Number(product.price || 0).toFixed(2)}</TableCell>
-                          <TableCell>{actualStock} units</TableCell>
+                          <TableCell>
+                            <div>{actualStock} units</div>
+                            <InTransitBadge entry={inTransit.get(product.id)} />
+                          </TableCell>
                           <TableCell>
                             <Badge variant={stockStatus.variant}>
                               {stockStatus.label}
@@ -854,6 +872,7 @@ export default function Inventory() {
                                   <span>{getCategoryLabel(product.category)}</span>
                                 )}
                                 <span>{actualStock} units</span>
+                                <InTransitBadge entry={inTransit.get(product.id)} />
                                 {product.barcode && (
                                   <div className="flex items-center gap-1">
                                     <Barcode className="w-3 h-3" />
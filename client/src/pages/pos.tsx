@@ -40,6 +40,8 @@ import { format } from "date-fns";
 import { StoreSelector } from "@/components/StoreSelector";
 import CurrencySelector from "@/components/pos/currency-selector";
 import PromotionIndicator from "@/components/pos/promotion-indicator";
+import OfflineSyncBanner from "@/components/pos/offline-sync-banner";
+import CashDropPrompt from "@/components/pos/cash-drop-prompt";
 import AIProductModal from "@/components/inventory/ai-product-modal";
 
 // Quick Navigation Menu Component
@@ -447,6 +449,9 @@ export default function POS() {
               </Alert>
             )}
             
+            <OfflineSyncBanner />
+            <CashDropPrompt />
+
             {openDay ? (
               <div className="flex items-center gap-2 rounded-md border border-emerald-200 bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700">
                 <CheckCircle className="h-3 w-3 text-emerald-600" />
@@ -580,6 +585,11 @@ export default function POS() {
               </Alert>
             </div>
           )}
+
+          <div className="p-2 pb-0 empty:hidden">
+            <OfflineSyncBanner />
+            <CashDropPrompt />
+          </div>
           
           <div className="relative flex flex-1 gap-2 bg-background p-2 overflow-hidden justify-center">
             <div className="flex flex-[3] flex-col gap-2 max-w-[1800px] h-full">
@@ -37,6 +37,7 @@ import {
   Activity,
   Info,
   Store,
+  Scale,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -44,6 +45,9 @@ import { usePOSStore } from "@/lib/pos-store";
 import type { Product, ProductSibling } from "@shared/schema";
 import MainLayout from "@/components/layout/main-layout";
 import ProductModal from "@/components/inventory/product-modal";
+import ProductUnits from "@/components/inventory/product-units";
+import ProductVariants from "@/components/inventory/product-variants";
+import ProductIdentifiers from "@/components/inventory/product-identifiers";
 import { getCategoryLabel, getProductTypeLabel } from "@/config/product-categories";
 
 // Competitive Pricing Component
@@ -755,7 +759,7 @@ export default function ProductDetailPage() {
 
         {/* Enhanced Tabbed Content */}
         <Tabs defaultValue="details" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5 bg-white border border-gray-200 p-1 rounded-lg shadow-sm">
+          <TabsList className="grid w-full grid-cols-8 bg-white border border-gray-200 p-1 rounded-lg shadow-sm">
             <TabsTrigger 
               value="details"
               className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm"
@@ -777,6 +781,27 @@ export default function ProductDetailPage() {
               <TrendingUp className="w-4 h-4 mr-2" />
               Competitive Pricing
             </TabsTrigger>
+            <TabsTrigger 
+              value="units"
+              className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm"
+            >
+              <Scale className="w-4 h-4 mr-2" />
+              Units
+            </TabsTrigger>
+            <TabsTrigger 
+              value="variants"
+              className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm"
+            >
+              <Layers className="w-4 h-4 mr-2" />
+              Variants
+            </TabsTrigger>
+            <TabsTrigger 
+              value="codes"
+              className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm"
+            >
+              <Tag className="w-4 h-4 mr-2" />
+              Codes
+            </TabsTrigger>
             <TabsTrigger 
               value="analytics"
               className="data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:shadow-sm"
@@ -1169,6 +1194,21 @@ export default function ProductDetailPage() {
             <CompetitivePricingSection productId={productId} ourPrice={Number(product.price)} />
           </TabsContent>
 
+          {/* Units Tab */}
+          <TabsContent value="units" className="space-y-4">
+            <ProductUnits productId={productId} />
+          </TabsContent>
+
+          {/* Variants Tab */}
+          <TabsContent value="variants" className="space-y-4">
+            <ProductVariants product={product} />
+          </TabsContent>
+
+          {/* Codes Tab */}
+          <TabsContent value="codes" className="space-y-4">
+            <ProductIdentifiers product={product} />
+          </TabsContent>
+
           {/* Analytics Tab */}
           <TabsContent value="analytics" className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
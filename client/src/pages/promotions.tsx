@@ -3,7 +3,8 @@ import MainLayout from "@/components/layout/main-layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tag, Percent } from "lucide-react";
-import type { Promotion } from "@shared/schema";
+import type { Promotion, PromotionType } from "@shared/schema";
+import { describePromotion, PROMOTION_TYPE_LABELS } from "@/lib/promotions";
 
 export default function PromotionsPage() {
   const { data: promotions = [] } = useQuery<Promotion[]>({
@@ -84,7 +85,11 @@ export default function PromotionsPage() {
                       </div>
                       <div className="flex items-center justify-between">
                         <dt>Type</dt>
-                        <dd className="capitalize">{promotion.type || "general"}</dd>
+                        <dd>{PROMOTION_TYPE_LABELS[promotion.type as PromotionType] || promotion.type || "General"}</dd>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <dt>Deal</dt>
+                        <dd>{describePromotion(promotion)}</dd>
                       </div>
                     </dl>
                   </div>
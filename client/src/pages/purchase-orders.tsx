@@ -0,0 +1,711 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/main-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { Ban, ClipboardList, Loader2, PackageCheck, Pencil, Plus, Printer, Send, ShoppingCart, Trash2 } from "lucide-react";
+import { formatTransferQuantity } from "@/components/inventory/pending-transfers";
+import { ReorderSuggestionsDialog } from "@/components/inventory/reorder-suggestions";
+import { useStore } from "@/hooks/useStore";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import type { GoodsReceivedNote, GoodsReceivedNoteItem, Product, PurchaseOrder, PurchaseOrderItem, Supplier } from "@shared/schema";
+
+type PurchaseOrderLine = PurchaseOrderItem & { productName: string | null; productSku: string | null };
+type PurchaseOrderWithItems = PurchaseOrder & {
+  supplierName: string | null;
+  items: PurchaseOrderLine[];
+  goodsReceivedNotes: Array<GoodsReceivedNote & { items: GoodsReceivedNoteItem[] }>;
+};
+
+const ALL = "all";
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partly received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: "bg-slate-100 text-slate-700",
+  sent: "bg-blue-100 text-blue-800",
+  partially_received: "bg-amber-100 text-amber-800",
+  received: "bg-green-100 text-green-800",
+  cancelled: "bg-red-100 text-red-800",
+};
+
+interface DraftLine {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+const outstanding = (item: PurchaseOrderItem) =>
+  Math.max(0, Math.round((parseFloat(item.quantityOrdered) - parseFloat(item.quantityReceived)) * 100) / 100);
+
+const toDateInput = (value: string | Date | null | undefined) => (value ? new Date(value).toISOString().slice(0, 10) : "");
+
+export default function PurchaseOrdersPage() {
+  const { currentStore, availableStores } = useStore();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [storeFilter, setStoreFilter] = useState<string>(currentStore ? String(currentStore.id) : ALL);
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [editing, setEditing] = useState<PurchaseOrderWithItems | "new" | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  // The stock alert links here with ?reorder=1
+  const [reordering, setReordering] = useState(() => new URLSearchParams(window.location.search).get("reorder") === "1");
+
+  const can = (action: string) => hasPermission(user?.role, "purchasing", action);
+  const reorderStoreId = storeFilter !== ALL ? Number(storeFilter) : currentStore?.id;
+
+  const listUrl = useMemo(() => {
+    const params = new URLSearchParams();
+    if (storeFilter !== ALL) params.set("storeId", storeFilter);
+    if (statusFilter !== ALL) params.set("status", statusFilter);
+    return `/api/purchase-orders?${params.toString()}`;
+  }, [storeFilter, statusFilter]);
+
+  const { data: orders = [], isLoading } = useQuery<PurchaseOrderWithItems[]>({
+    queryKey: [listUrl],
+    staleTime: 0,
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({ queryKey: ["/api/suppliers"] });
+
+  const storeNames = useMemo(
+    () => new Map(availableStores.map((store) => [store.id, store.name])),
+    [availableStores],
+  );
+  const storeName = (id: number) => storeNames.get(id) ?? `Store ${id}`;
+
+  // Receiving moves stock and can change how supplier invoices match
+  const refreshOrders = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0] ?? "");
+        return key.startsWith("/api/purchase-orders") || key.startsWith("/api/supplier-invoices") || key.startsWith("/api/products");
+      },
+    });
+
+  const selected = orders.find((order) => order.id === selectedId) ?? null;
+
+  return (
+    <MainLayout pageTitle="Purchase Orders">
+      <div className="container-responsive py-6 space-y-6">
+        <Card className="border-none shadow-sm bg-slate-50 dark:bg-slate-900/40">
+          <CardHeader className="pb-8">
+            <div className="flex items-start gap-4">
+              <div className="flex-shrink-0 bg-blue-600 rounded-xl p-3 shadow-lg">
+                <ClipboardList className="h-8 w-8 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Purchase Orders</h1>
+                <p className="text-slate-600 dark:text-slate-300 text-base leading-relaxed">
+                  Order from suppliers per store and book deliveries in against the order. Supplier invoices are checked
+                  against what was ordered and received before they are paid.
+                </p>
+              </div>
+              {can("create") && reorderStoreId && (
+                <Button variant="outline" onClick={() => setReordering(true)}>
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  Reorder suggestions
+                </Button>
+              )}
+              {can("create") && (
+                <Button onClick={() => setEditing("new")}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New order
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+        </Card>
+
+        <Card className="border-slate-200 dark:border-slate-800 shadow-sm">
+          <CardHeader className="bg-slate-50 dark:bg-slate-900 border-b border-slate-200 dark:border-slate-700">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4 justify-between">
+              <CardTitle className="text-lg font-bold text-slate-900 dark:text-white">Orders</CardTitle>
+              <div className="flex items-center gap-4">
+                <Select value={storeFilter} onValueChange={setStoreFilter}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All stores</SelectItem>
+                    {availableStores.map((store) => (
+                      <SelectItem key={store.id} value={String(store.id)}>
+                        {store.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All statuses</SelectItem>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+              </div>
+            ) : orders.length === 0 ? (
+              <p className="text-center text-slate-500 py-12">No purchase orders found.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Store</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.map((order) => (
+                    <TableRow key={order.id} className="cursor-pointer hover:bg-slate-50" onClick={() => setSelectedId(order.id)}>
+                      <TableCell className="font-mono">{order.poNumber}</TableCell>
+                      <TableCell>{order.supplierName ?? `Supplier ${order.supplierId}`}</TableCell>
+                      <TableCell>{storeName(order.storeId)}</TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {order.expectedDate ? new Date(order.expectedDate).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{parseFloat(order.subtotal).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={STATUS_STYLES[order.status]}>
+                          {STATUS_LABELS[order.status] ?? order.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing && (
+        <OrderFormDialog
+          order={editing === "new" ? null : editing}
+          defaultStoreId={currentStore?.id}
+          stores={availableStores}
+          suppliers={suppliers}
+          onClose={() => setEditing(null)}
+          onSaved={(order) => {
+            refreshOrders();
+            setEditing(null);
+            setSelectedId(order.id);
+            toast({ title: `${order.poNumber} saved as a draft` });
+          }}
+        />
+      )}
+
+      {reordering && can("create") && reorderStoreId && (
+        <ReorderSuggestionsDialog
+          storeId={reorderStoreId}
+          storeName={storeName(reorderStoreId)}
+          onClose={() => setReordering(false)}
+          onCreated={(conversion) => {
+            refreshOrders();
+            setReordering(false);
+            setStatusFilter("draft");
+            toast({
+              title: conversion.message,
+              description: conversion.orders.map((order) => order.purchaseOrder?.poNumber).filter(Boolean).join(", "),
+            });
+          }}
+        />
+      )}
+
+      {selected && !editing && (
+        <OrderDetailDialog
+          order={selected}
+          storeName={storeName}
+          can={can}
+          onEdit={() => setEditing(selected)}
+          onClose={() => setSelectedId(null)}
+          onChanged={refreshOrders}
+        />
+      )}
+    </MainLayout>
+  );
+}
+
+interface OrderFormDialogProps {
+  order: PurchaseOrderWithItems | null;
+  defaultStoreId?: number;
+  stores: Array<{ id: number; name: string }>;
+  suppliers: Supplier[];
+  onClose: () => void;
+  onSaved: (order: PurchaseOrderWithItems) => void;
+}
+
+function OrderFormDialog({ order, defaultStoreId, stores, suppliers, onClose, onSaved }: OrderFormDialogProps) {
+  const { toast } = useToast();
+  const [supplierId, setSupplierId] = useState(order ? String(order.supplierId) : "");
+  const [storeId, setStoreId] = useState(order ? String(order.storeId) : defaultStoreId ? String(defaultStoreId) : "");
+  const [expectedDate, setExpectedDate] = useState(toDateInput(order?.expectedDate));
+  const [notes, setNotes] = useState(order?.notes ?? "");
+  const [lines, setLines] = useState<DraftLine[]>(
+    order
+      ? order.items.map((item) => ({ productId: String(item.productId), quantity: item.quantityOrdered, unitCost: item.unitCost }))
+      : [{ productId: "", quantity: "1", unitCost: "" }],
+  );
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: [`/api/products?storeId=${storeId}`],
+    enabled: !!storeId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        expectedDate: expectedDate || null,
+        notes: notes.trim() || null,
+        items: lines
+          .filter((line) => line.productId)
+          .map((line) => ({ productId: Number(line.productId), quantity: Number(line.quantity), unitCost: Number(line.unitCost || 0) })),
+      };
+      const response = order
+        ? await apiRequest("PUT", `/api/purchase-orders/${order.id}`, body)
+        : await apiRequest("POST", "/api/purchase-orders", { ...body, supplierId: Number(supplierId), storeId: Number(storeId) });
+      return (await response.json()) as PurchaseOrderWithItems;
+    },
+    onSuccess: onSaved,
+    onError: (error: any) => {
+      toast({ title: "Could not save the order", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) =>
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+
+  // Start new lines at the product's last known cost
+  const chooseProduct = (index: number, productId: string) => {
+    const product = products.find((candidate) => String(candidate.id) === productId);
+    updateLine(index, { productId, unitCost: lines[index].unitCost || (product?.cost ?? "") });
+  };
+
+  const chosen = new Set(lines.map((line) => line.productId));
+  const total = lines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitCost) || 0), 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{order ? `Edit ${order.poNumber}` : "New purchase order"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId} disabled={!!order}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={String(supplier.id)}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Deliver to</Label>
+              <Select value={storeId} onValueChange={setStoreId} disabled={!!order}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Receiving store" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stores.map((store) => (
+                    <SelectItem key={store.id} value={String(store.id)}>
+                      {store.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Expected by</Label>
+              <Input type="date" value={expectedDate} onChange={(event) => setExpectedDate(event.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-slate-500">
+              <span className="flex-1">Product</span>
+              <span className="w-24">Quantity</span>
+              <span className="w-28">Unit cost</span>
+              <span className="w-9" />
+            </div>
+            {lines.map((line, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={line.productId} onValueChange={(productId) => chooseProduct(index, productId)}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={storeId ? "Choose a product" : "Choose the store first"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products
+                      .filter((product) => String(product.id) === line.productId || !chosen.has(String(product.id)))
+                      .map((product) => (
+                        <SelectItem key={product.id} value={String(product.id)}>
+                          {product.name} ({product.sku}) · {formatTransferQuantity(product.stock ?? 0)} in stock
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  className="w-24"
+                  value={line.quantity}
+                  onChange={(event) => updateLine(index, { quantity: event.target.value })}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-28"
+                  value={line.unitCost}
+                  onChange={(event) => updateLine(index, { unitCost: event.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={lines.length === 1}
+                  onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLines((current) => [...current, { productId: "", quantity: "1", unitCost: "" }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add product
+              </Button>
+              <span className="text-sm font-medium">Total {total.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes for the supplier</Label>
+            <Textarea value={notes} onChange={(event) => setNotes(event.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !supplierId || !storeId || !lines.some((line) => line.productId)}
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save draft
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface OrderDetailDialogProps {
+  order: PurchaseOrderWithItems;
+  storeName: (id: number) => string;
+  can: (action: string) => boolean;
+  onEdit: () => void;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+function OrderDetailDialog({ order, storeName, can, onEdit, onClose, onChanged }: OrderDetailDialogProps) {
+  const { toast } = useToast();
+  // Quantities arriving on this delivery, per order line
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  // Lot number and expiry printed on perishable deliveries
+  const [lots, setLots] = useState<Record<number, { lotNumber: string; expiryDate: string }>>({});
+  const [deliveryReference, setDeliveryReference] = useState("");
+  const [deliveryNotes, setDeliveryNotes] = useState("");
+  const [complete, setComplete] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const isOpen = order.status === "sent" || order.status === "partially_received";
+  const canEdit = order.status === "draft" && can("update");
+  const canSend = (order.status === "draft" || order.status === "sent") && can("update");
+  const canReceive = isOpen && can("receive");
+  const canCancel = (order.status === "draft" || order.status === "sent") && can("cancel");
+
+  const action = useMutation({
+    mutationFn: async ({ path, body }: { path: string; body?: unknown }) => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${order.id}/${path}`, body);
+      return (await response.json()) as PurchaseOrderWithItems & { goodsReceivedNote?: GoodsReceivedNote };
+    },
+    onSuccess: (updated) => {
+      onChanged();
+      setQuantities({});
+      setNotes({});
+      setLots({});
+      setDeliveryReference("");
+      setDeliveryNotes("");
+      setComplete(false);
+      toast({
+        title: updated.goodsReceivedNote
+          ? `${updated.goodsReceivedNote.grnNumber} booked against ${updated.poNumber}`
+          : `${updated.poNumber}: ${STATUS_LABELS[updated.status] ?? updated.status}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Order not updated", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const receive = () =>
+    action.mutate({
+      path: "receive",
+      body: {
+        complete,
+        deliveryReference: deliveryReference.trim() || null,
+        notes: deliveryNotes.trim() || null,
+        items: order.items.map((item) => ({
+          itemId: item.id,
+          quantity: Number(quantities[item.id] ?? outstanding(item)),
+          discrepancyNote: notes[item.id]?.trim() || null,
+          lotNumber: lots[item.id]?.lotNumber.trim() || null,
+          expiryDate: lots[item.id]?.expiryDate || null,
+        })),
+      },
+    });
+
+  const setLot = (itemId: number, change: Partial<{ lotNumber: string; expiryDate: string }>) =>
+    setLots((current) => ({ ...current, [itemId]: { ...(current[itemId] ?? { lotNumber: "", expiryDate: "" }), ...change } }));
+
+  const productName = (productId: number) => {
+    const item = order.items.find((line) => line.productId === productId);
+    return item?.productName ?? `Product ${productId}`;
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            <span className="font-mono">{order.poNumber}</span>
+            <Badge variant="secondary" className={STATUS_STYLES[order.status]}>
+              {STATUS_LABELS[order.status] ?? order.status}
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm">
+          <span>
+            Supplier <span className="font-medium">{order.supplierName ?? `Supplier ${order.supplierId}`}</span>
+          </span>
+          <span>
+            Deliver to <span className="font-medium">{storeName(order.storeId)}</span>
+          </span>
+          {order.expectedDate && <span>Expected {new Date(order.expectedDate).toLocaleDateString()}</span>}
+        </div>
+        {order.notes && <p className="text-sm text-slate-600 whitespace-pre-line">{order.notes}</p>}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Ordered</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Unit cost</TableHead>
+              {canReceive && <TableHead>Arrived now</TableHead>}
+              {canReceive && <TableHead>Lot / expiry</TableHead>}
+              {canReceive && <TableHead>Discrepancy note</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {order.items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div className="font-medium">{item.productName ?? `Product ${item.productId}`}</div>
+                  <div className="text-xs text-slate-500 font-mono">{item.productSku}</div>
+                </TableCell>
+                <TableCell className="text-right">{formatTransferQuantity(item.quantityOrdered)}</TableCell>
+                <TableCell className="text-right">{formatTransferQuantity(item.quantityReceived)}</TableCell>
+                <TableCell className="text-right">{parseFloat(item.unitCost).toFixed(2)}</TableCell>
+                {canReceive && (
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-24"
+                      placeholder={formatTransferQuantity(outstanding(item))}
+                      value={quantities[item.id] ?? ""}
+                      onChange={(event) => setQuantities((current) => ({ ...current, [item.id]: event.target.value }))}
+                    />
+                  </TableCell>
+                )}
+                {canReceive && (
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Input
+                        placeholder="Lot"
+                        className="w-24"
+                        value={lots[item.id]?.lotNumber ?? ""}
+                        onChange={(event) => setLot(item.id, { lotNumber: event.target.value })}
+                      />
+                      <Input
+                        type="date"
+                        className="w-36"
+                        value={lots[item.id]?.expiryDate ?? ""}
+                        onChange={(event) => setLot(item.id, { expiryDate: event.target.value })}
+                      />
+                    </div>
+                  </TableCell>
+                )}
+                {canReceive && (
+                  <TableCell>
+                    <Input
+                      placeholder="e.g. 2 short"
+                      value={notes[item.id] ?? ""}
+                      onChange={(event) => setNotes((current) => ({ ...current, [item.id]: event.target.value }))}
+                    />
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-right text-sm font-medium">Total {parseFloat(order.subtotal).toFixed(2)}</p>
+
+        {canReceive && (
+          <div className="space-y-3 rounded-md border border-slate-200 p-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Delivery note / reference</Label>
+                <Input value={deliveryReference} onChange={(event) => setDeliveryReference(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Notes</Label>
+                <Input value={deliveryNotes} onChange={(event) => setDeliveryNotes(event.target.value)} />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={complete} onCheckedChange={(checked) => setComplete(checked === true)} />
+              The supplier will not send the rest — close the order after this delivery
+            </label>
+          </div>
+        )}
+
+        {order.goodsReceivedNotes.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Goods received</h3>
+            {order.goodsReceivedNotes.map((grn) => (
+              <div key={grn.id} className="rounded-md border border-slate-200 p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono font-medium">{grn.grnNumber}</span>
+                  <span className="text-slate-500">{new Date(grn.receivedAt).toLocaleString()}</span>
+                </div>
+                {grn.deliveryReference && <div className="text-slate-600">Reference {grn.deliveryReference}</div>}
+                <ul className="mt-1 space-y-0.5">
+                  {grn.items
+                    .filter((line) => parseFloat(line.quantityReceived) > 0 || line.discrepancyNote)
+                    .map((line) => (
+                      <li key={line.id}>
+                        {productName(line.productId)}: {formatTransferQuantity(line.quantityReceived)}
+                        {(line.lotNumber || line.expiryDate) && (
+                          <span className="text-slate-500">
+                            {" "}
+                            ({[line.lotNumber && `lot ${line.lotNumber}`, line.expiryDate && `exp. ${line.expiryDate}`].filter(Boolean).join(", ")})
+                          </span>
+                        )}
+                        {line.discrepancyNote && <span className="text-amber-700"> — {line.discrepancyNote}</span>}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canCancel && (
+          <div className="space-y-2">
+            <Label>Cancellation reason</Label>
+            <Input value={reason} onChange={(event) => setReason(event.target.value)} />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button asChild variant="outline">
+            <a href={`/api/purchase-orders/${order.id}/pdf`} target="_blank" rel="noreferrer">
+              <Printer className="h-4 w-4 mr-2" />
+              Print order
+            </a>
+          </Button>
+          {canEdit && (
+            <Button variant="outline" onClick={onEdit}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+          {canCancel && (
+            <Button
+              variant="destructive"
+              disabled={action.isPending}
+              onClick={() => action.mutate({ path: "cancel", body: { reason: reason.trim() || null } })}
+            >
+              <Ban className="h-4 w-4 mr-2" />
+              Cancel order
+            </Button>
+          )}
+          {canSend && (
+            <Button variant={order.status === "sent" ? "outline" : "default"} disabled={action.isPending} onClick={() => action.mutate({ path: "send" })}>
+              <Send className="h-4 w-4 mr-2" />
+              {order.status === "sent" ? "Mark sent again" : "Mark as sent"}
+            </Button>
+          )}
+          {canReceive && (
+            <Button disabled={action.isPending} onClick={receive}>
+              <PackageCheck className="h-4 w-4 mr-2" />
+              Receive goods
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
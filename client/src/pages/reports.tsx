@@ -37,12 +37,14 @@ import type { Transaction, DayOperation } from "@shared/schema";
 import MainLayout from "@/components/layout/main-layout";
 import AIChart from "@/components/reports/ai-chart";
 import AIQueryInput from "@/components/reports/ai-query-input";
+import MarginReport from "@/components/reports/margin-report";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useStore } from "@/hooks/useStore";
 
 interface ReportResult {
   data: any[];
+  truncated?: boolean;
   query: {
     sql: string;
     description: string;
@@ -166,7 +168,7 @@ export default function Reports() {
       const response = await apiRequest({
         url: "/api/ai/reports/generate",
         method: "POST",
-        body: { query }
+        body: { query, storeId: currentStore?.id }
       });
       return response.json();
     },
@@ -181,11 +183,15 @@ export default function Reports() {
       const errorMessage = error?.message || String(error);
       const isApiKeyError = errorMessage.includes('OpenAI API key') || 
                            errorMessage.includes('API key is required');
+      // Structured rejection from the server-side report query guard
+      const rejection = error?.response?.status === 422 ? error.response.data : null;
       
       toast({
-        title: isApiKeyError ? "OpenAI API Key Required" : "Report Generation Failed",
+        title: isApiKeyError ? "OpenAI API Key Required" : rejection ? "Report Query Rejected" : "Report Generation Failed",
         description: isApiKeyError 
           ? "AI-powered reports require an OpenAI API key. Please configure your OpenAI API key in the environment variables to use this feature."
+          : rejection
+          ? `${rejection.error} (${rejection.code}). Try rephrasing your question.`
           : "Unable to generate the report. Please check your query and try again.",
         variant: "destructive",
       });
@@ -395,7 +401,7 @@ export default function Reports() {
           </div>
 
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-3 bg-white shadow-sm border border-slate-200 p-1 h-12">
+            <TabsList className="grid w-full grid-cols-4 bg-white shadow-sm border border-slate-200 p-1 h-12">
               <TabsTrigger 
                 value="overview" 
                 className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white font-semibold transition-all"
@@ -403,6 +409,13 @@ export default function Reports() {
                 <Eye className="h-4 w-4 mr-2" />
                 Overview
               </TabsTrigger>
+              <TabsTrigger 
+                value="margins"
+                className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white font-semibold transition-all"
+              >
+                <TrendingUp className="h-4 w-4 mr-2" />
+                Margins
+              </TabsTrigger>
               <TabsTrigger 
                 value="ai-reports"
                 className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white font-semibold transition-all"
@@ -542,6 +555,10 @@ export default function Reports() {
               )}
             </TabsContent>
 
+            <TabsContent value="margins" className="space-y-6 mt-6">
+              <MarginReport storeId={currentStore?.id} />
+            </TabsContent>
+
             <TabsContent value="ai-reports" className="space-y-6 mt-6">
               <div className="flex items-center justify-between bg-white rounded-xl shadow-sm border border-slate-200 p-4">
                 <div className="flex items-center gap-3">
@@ -614,6 +631,11 @@ export default function Reports() {
                         <p className="text-sm text-slate-600 mt-2 font-medium">
                           {aiReport.query?.description || "Generated from your natural language query"}
                         </p>
+                        {aiReport.truncated && (
+                          <p className="text-xs text-amber-600 mt-1">
+                            Showing the first {aiReport.data.length} rows only. Narrow your query to see everything.
+                          </p>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         <Button 
@@ -0,0 +1,524 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/main-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowRightLeft, Loader2, Plus, Printer, Trash2, Truck, PackageCheck, Ban } from "lucide-react";
+import {
+  TRANSFER_STATUS_LABELS,
+  TRANSFER_STATUS_STYLES,
+  formatTransferQuantity,
+  type TransferWithItems,
+} from "@/components/inventory/pending-transfers";
+import { useStore } from "@/hooks/useStore";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import type { Product } from "@shared/schema";
+
+const ALL = "all";
+
+interface DraftLine {
+  productId: string;
+  quantity: string;
+}
+
+const remaining = (dispatched: string, received: string) =>
+  Math.max(0, Math.round((parseFloat(dispatched) - parseFloat(received)) * 100) / 100);
+
+export default function StockTransfersPage() {
+  const { currentStore, availableStores } = useStore();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [storeFilter, setStoreFilter] = useState<string>(currentStore ? String(currentStore.id) : ALL);
+  const [openOnly, setOpenOnly] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const can = (action: string) => hasPermission(user?.role, "transfers", action);
+
+  const listUrl = useMemo(() => {
+    const params = new URLSearchParams();
+    if (storeFilter !== ALL) params.set("storeId", storeFilter);
+    if (openOnly) params.set("open", "true");
+    return `/api/stock-transfers?${params.toString()}`;
+  }, [storeFilter, openOnly]);
+
+  const { data: transfers = [], isLoading } = useQuery<TransferWithItems[]>({
+    queryKey: [listUrl],
+    staleTime: 0,
+  });
+
+  const storeNames = useMemo(
+    () => new Map(availableStores.map((store) => [store.id, store.name])),
+    [availableStores],
+  );
+  const storeName = (id: number) => storeNames.get(id) ?? `Store ${id}`;
+
+  // Transfer lists, detail views and in-transit figures all change together
+  const refreshTransfers = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0] ?? "");
+        return key.startsWith("/api/stock-transfers") || key.endsWith("/in-transit") || key.startsWith("/api/products");
+      },
+    });
+
+  const selected = transfers.find((transfer) => transfer.id === selectedId) ?? null;
+
+  return (
+    <MainLayout pageTitle="Stock Transfers">
+      <div className="container-responsive py-6 space-y-6">
+        <Card className="border-none shadow-sm bg-slate-50 dark:bg-slate-900/40">
+          <CardHeader className="pb-8">
+            <div className="flex items-start gap-4">
+              <div className="flex-shrink-0 bg-blue-600 rounded-xl p-3 shadow-lg">
+                <ArrowRightLeft className="h-8 w-8 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Stock Transfers</h1>
+                <p className="text-slate-600 dark:text-slate-300 text-base leading-relaxed">
+                  Move stock between stores. Dispatch takes it off the sending store; it is added to the receiving store as it
+                  is booked in.
+                </p>
+              </div>
+              {can("create") && (
+                <Button onClick={() => setCreating(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New transfer
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+        </Card>
+
+        <Card className="border-slate-200 dark:border-slate-800 shadow-sm">
+          <CardHeader className="bg-slate-50 dark:bg-slate-900 border-b border-slate-200 dark:border-slate-700">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4 justify-between">
+              <CardTitle className="text-lg font-bold text-slate-900 dark:text-white">Transfers</CardTitle>
+              <div className="flex items-center gap-4">
+                <Select value={storeFilter} onValueChange={setStoreFilter}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All stores</SelectItem>
+                    {availableStores.map((store) => (
+                      <SelectItem key={store.id} value={String(store.id)}>
+                        {store.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={openOnly} onCheckedChange={(checked) => setOpenOnly(checked === true)} />
+                  Open only
+                </label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+              </div>
+            ) : transfers.length === 0 ? (
+              <p className="text-center text-slate-500 py-12">No transfers found.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Lines</TableHead>
+                    <TableHead>Requested</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfers.map((transfer) => (
+                    <TableRow key={transfer.id} className="cursor-pointer hover:bg-slate-50" onClick={() => setSelectedId(transfer.id)}>
+                      <TableCell className="font-mono">{transfer.transferNumber}</TableCell>
+                      <TableCell>{storeName(transfer.fromStoreId)}</TableCell>
+                      <TableCell>{storeName(transfer.toStoreId)}</TableCell>
+                      <TableCell>{transfer.items.length}</TableCell>
+                      <TableCell className="text-sm text-slate-600">{new Date(transfer.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={TRANSFER_STATUS_STYLES[transfer.status]}>
+                          {TRANSFER_STATUS_LABELS[transfer.status] ?? transfer.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {creating && (
+        <CreateTransferDialog
+          defaultFromStoreId={currentStore?.id}
+          stores={availableStores}
+          onClose={() => setCreating(false)}
+          onCreated={(transfer) => {
+            refreshTransfers();
+            setCreating(false);
+            setSelectedId(transfer.id);
+            toast({ title: `Transfer ${transfer.transferNumber} requested` });
+          }}
+        />
+      )}
+
+      {selected && (
+        <TransferDetailDialog
+          transfer={selected}
+          storeName={storeName}
+          can={can}
+          onClose={() => setSelectedId(null)}
+          onChanged={refreshTransfers}
+        />
+      )}
+    </MainLayout>
+  );
+}
+
+interface CreateTransferDialogProps {
+  defaultFromStoreId?: number;
+  stores: Array<{ id: number; name: string }>;
+  onClose: () => void;
+  onCreated: (transfer: TransferWithItems) => void;
+}
+
+function CreateTransferDialog({ defaultFromStoreId, stores, onClose, onCreated }: CreateTransferDialogProps) {
+  const { toast } = useToast();
+  const [fromStoreId, setFromStoreId] = useState(defaultFromStoreId ? String(defaultFromStoreId) : "");
+  const [toStoreId, setToStoreId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([{ productId: "", quantity: "1" }]);
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: [`/api/products?storeId=${fromStoreId}`],
+    enabled: !!fromStoreId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/stock-transfers", {
+        fromStoreId: Number(fromStoreId),
+        toStoreId: Number(toStoreId),
+        notes: notes.trim() || null,
+        items: lines
+          .filter((line) => line.productId)
+          .map((line) => ({ productId: Number(line.productId), quantity: Number(line.quantity) })),
+      });
+      return (await response.json()) as TransferWithItems;
+    },
+    onSuccess: onCreated,
+    onError: (error: any) => {
+      toast({ title: "Could not request transfer", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) =>
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+
+  const chosen = new Set(lines.map((line) => line.productId));
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>New stock transfer</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From store</Label>
+              <Select value={fromStoreId} onValueChange={setFromStoreId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Sending store" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stores.map((store) => (
+                    <SelectItem key={store.id} value={String(store.id)}>
+                      {store.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To store</Label>
+              <Select value={toStoreId} onValueChange={setToStoreId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Receiving store" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stores
+                    .filter((store) => String(store.id) !== fromStoreId)
+                    .map((store) => (
+                      <SelectItem key={store.id} value={String(store.id)}>
+                        {store.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Products</Label>
+            {lines.map((line, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={line.productId} onValueChange={(productId) => updateLine(index, { productId })}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={fromStoreId ? "Choose a product" : "Choose the sending store first"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products
+                      .filter((product) => String(product.id) === line.productId || !chosen.has(String(product.id)))
+                      .map((product) => (
+                        <SelectItem key={product.id} value={String(product.id)}>
+                          {product.name} ({product.sku}) · {formatTransferQuantity(product.stock ?? 0)} in stock
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  className="w-28"
+                  value={line.quantity}
+                  onChange={(event) => updateLine(index, { quantity: event.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={lines.length === 1}
+                  onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, { productId: "", quantity: "1" }])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add product
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(event) => setNotes(event.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || !fromStoreId || !toStoreId || !lines.some((line) => line.productId)}
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Request transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TransferDetailDialogProps {
+  transfer: TransferWithItems;
+  storeName: (id: number) => string;
+  can: (action: string) => boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+function TransferDetailDialog({ transfer, storeName, can, onClose, onChanged }: TransferDetailDialogProps) {
+  const { toast } = useToast();
+  // Quantities typed against each line, for picking or for booking in
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [complete, setComplete] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const canDispatch = transfer.status === "requested" && can("dispatch");
+  const canReceive = (transfer.status === "dispatched" || transfer.status === "partially_received") && can("receive");
+  const canCancel = transfer.status === "requested" && can("cancel");
+
+  const action = useMutation({
+    mutationFn: async ({ path, body }: { path: string; body: unknown }) => {
+      const response = await apiRequest("POST", `/api/stock-transfers/${transfer.id}/${path}`, body);
+      return (await response.json()) as TransferWithItems;
+    },
+    onSuccess: (updated) => {
+      onChanged();
+      setQuantities({});
+      setComplete(false);
+      toast({ title: `${updated.transferNumber}: ${TRANSFER_STATUS_LABELS[updated.status] ?? updated.status}` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Transfer not updated", description: error?.message, variant: "destructive" });
+    },
+  });
+
+  const dispatch = () =>
+    action.mutate({
+      path: "dispatch",
+      body: {
+        items: transfer.items
+          .filter((item) => quantities[item.id] !== undefined && quantities[item.id] !== "")
+          .map((item) => ({ itemId: item.id, quantity: Number(quantities[item.id]) })),
+      },
+    });
+
+  const receive = () =>
+    action.mutate({
+      path: "receive",
+      body: {
+        complete,
+        items: transfer.items.map((item) => ({
+          itemId: item.id,
+          quantity: Number(quantities[item.id] ?? remaining(item.quantityDispatched, item.quantityReceived)),
+          discrepancyNote: notes[item.id]?.trim() || null,
+        })),
+      },
+    });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            <span className="font-mono">{transfer.transferNumber}</span>
+            <Badge variant="secondary" className={TRANSFER_STATUS_STYLES[transfer.status]}>
+              {TRANSFER_STATUS_LABELS[transfer.status] ?? transfer.status}
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3 text-sm">
+          <span className="font-medium">{storeName(transfer.fromStoreId)}</span>
+          <ArrowRightLeft className="h-4 w-4 text-slate-400" />
+          <span className="font-medium">{storeName(transfer.toStoreId)}</span>
+        </div>
+        {transfer.notes && <p className="text-sm text-slate-600 whitespace-pre-line">{transfer.notes}</p>}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Requested</TableHead>
+              <TableHead className="text-right">Sent</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              {(canDispatch || canReceive) && <TableHead>{canDispatch ? "Pick" : "Arrived now"}</TableHead>}
+              {canReceive && <TableHead>Discrepancy note</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transfer.items.map((item) => {
+              const outstanding = remaining(item.quantityDispatched, item.quantityReceived);
+              return (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.productName ?? `Product ${item.productId}`}</div>
+                    <div className="text-xs text-slate-500 font-mono">{item.productSku}</div>
+                    {!canReceive && item.discrepancyNote && (
+                      <div className="text-xs text-amber-700 mt-1">{item.discrepancyNote}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatTransferQuantity(item.quantityRequested)}</TableCell>
+                  <TableCell className="text-right">{formatTransferQuantity(item.quantityDispatched)}</TableCell>
+                  <TableCell className="text-right">{formatTransferQuantity(item.quantityReceived)}</TableCell>
+                  {(canDispatch || canReceive) && (
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24"
+                        placeholder={formatTransferQuantity(canDispatch ? item.quantityRequested : outstanding)}
+                        value={quantities[item.id] ?? ""}
+                        onChange={(event) => setQuantities((current) => ({ ...current, [item.id]: event.target.value }))}
+                      />
+                    </TableCell>
+                  )}
+                  {canReceive && (
+                    <TableCell>
+                      <Input
+                        placeholder={item.discrepancyNote ?? "e.g. 2 damaged"}
+                        value={notes[item.id] ?? ""}
+                        onChange={(event) => setNotes((current) => ({ ...current, [item.id]: event.target.value }))}
+                      />
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {canReceive && (
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={complete} onCheckedChange={(checked) => setComplete(checked === true)} />
+            Nothing more is coming — close the transfer after this receipt
+          </label>
+        )}
+        {canCancel && (
+          <div className="space-y-2">
+            <Label>Cancellation reason</Label>
+            <Input value={reason} onChange={(event) => setReason(event.target.value)} />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button asChild variant="outline">
+            <a href={`/api/stock-transfers/${transfer.id}/note.pdf`} target="_blank" rel="noreferrer">
+              <Printer className="h-4 w-4 mr-2" />
+              Print note
+            </a>
+          </Button>
+          {canCancel && (
+            <Button
+              variant="destructive"
+              disabled={action.isPending}
+              onClick={() => action.mutate({ path: "cancel", body: { reason: reason.trim() || null } })}
+            >
+              <Ban className="h-4 w-4 mr-2" />
+              Cancel transfer
+            </Button>
+          )}
+          {canDispatch && (
+            <Button disabled={action.isPending} onClick={dispatch}>
+              <Truck className="h-4 w-4 mr-2" />
+              Dispatch
+            </Button>
+          )}
+          {canReceive && (
+            <Button disabled={action.isPending} onClick={receive}>
+              <PackageCheck className="h-4 w-4 mr-2" />
+              Receive
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,6 +16,9 @@ import { useStore } from "@/hooks/useStore";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import DayOpenModalWrapper from "@/components/pos/day-open-modal-wrapper";
+import ReopenReasonDialog from "@/components/pos/reopen-reason-dialog";
+import DrawerPanel from "@/components/pos/drawer-panel";
+import TillReportsPanel from "@/components/pos/till-reports-panel";
 import { StoreSelector } from "@/components/StoreSelector";
 import { Loader2, AlertTriangle, RefreshCcw, Sun, Moon, Clock, Calendar as CalendarIcon, Building2, History } from "lucide-react";
 import { format, parseISO } from "date-fns";
@@ -110,6 +113,7 @@ export default function TillPage() {
   const { currentStore } = useStore();
   const storeId = currentStore?.id;
   const [isReopening, setIsReopening] = useState(false);
+  const [isReopenReasonOpen, setIsReopenReasonOpen] = useState(false);
   
   // Debug infinite loop detection
   debugRender('TillPage', { selectedDate, storeId });
@@ -246,7 +250,7 @@ export default function TillPage() {
     openDayCloseModal();
   };
 
-  const handleReopenClick = async () => {
+  const handleReopenClick = () => {
     if (!storeId || !dayStatus?.dayOperation?.id) {
       toast({
         title: "Nothing to reopen",
@@ -256,11 +260,18 @@ export default function TillPage() {
       return;
     }
 
+    setIsReopenReasonOpen(true);
+  };
+
+  const handleReopen = async (reason: string) => {
+    if (!dayStatus?.dayOperation?.id) return;
+
     try {
       setIsReopening(true);
       const response = await apiRequest({
         method: "PATCH",
         url: `/api/day-operations/${dayStatus.dayOperation.id}/reopen`,
+        body: { reason },
       });
       
       // Safely parse JSON response, handling empty or malformed responses
@@ -287,6 +298,8 @@ export default function TillPage() {
           : "Day has been reopened. Refreshing data...",
       });
 
+      setIsReopenReasonOpen(false);
+
       // setCurrentDay already sets isDayOpen based on day?.status === 'open'
       if (reopenedDay) {
         setCurrentDay(reopenedDay);
@@ -702,6 +715,10 @@ export default function TillPage() {
             </Card>
           </div>
 
+          {storeId && <DrawerPanel storeId={storeId} />}
+
+          {storeId && dayStatus?.dayOperation && <TillReportsPanel storeId={storeId} day={dayStatus.dayOperation} />}
+
           <Card>
             <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
               <div>
@@ -776,6 +793,14 @@ export default function TillPage() {
       </MainLayout>
 
       <DayOpenModalWrapper />
+
+      <ReopenReasonDialog
+        isOpen={isReopenReasonOpen}
+        onClose={() => setIsReopenReasonOpen(false)}
+        onConfirm={handleReopen}
+        isPending={isReopening}
+        date={dayStatus?.dayOperation?.date}
+      />
     </>
   );
 }
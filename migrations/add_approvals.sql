@@ -0,0 +1,21 @@
+-- Manager approvals for voids, refunds, discounts and price overrides
+ALTER TABLE users ADD COLUMN IF NOT EXISTS approval_pin VARCHAR;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS badge_code VARCHAR UNIQUE;
+
+CREATE TABLE IF NOT EXISTS approvals (
+  id SERIAL PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  action TEXT NOT NULL,
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  transaction_id INTEGER REFERENCES transactions(id),
+  amount DECIMAL(10, 2),
+  reason TEXT NOT NULL,
+  method TEXT NOT NULL,
+  requested_by INTEGER NOT NULL REFERENCES users(id),
+  approved_by INTEGER NOT NULL REFERENCES users(id),
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approvals_store_created ON approvals(store_id, created_at);
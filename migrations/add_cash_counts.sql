@@ -0,0 +1,25 @@
+-- Denomination sets per currency and per-currency opening and closing counts,
+-- replacing the Qatari Riyal columns on day_operations for new counts
+CREATE TABLE IF NOT EXISTS denomination_sets (
+  id SERIAL PRIMARY KEY,
+  currency TEXT NOT NULL UNIQUE,
+  denominations JSONB NOT NULL,
+  updated_by INTEGER REFERENCES users(id),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS cash_counts (
+  id SERIAL PRIMARY KEY,
+  day_operation_id INTEGER NOT NULL REFERENCES day_operations(id),
+  phase TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  denomination DECIMAL(10, 3) NOT NULL,
+  quantity INTEGER NOT NULL,
+  counted_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_cash_count_line
+  ON cash_counts(day_operation_id, phase, currency, denomination);
+
+ALTER TABLE day_operations ADD COLUMN IF NOT EXISTS currency_variances JSONB;
@@ -0,0 +1,47 @@
+-- Moving average and FIFO cost of goods sold
+ALTER TABLE store_products ADD COLUMN IF NOT EXISTS average_cost DECIMAL(12, 4);
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(12, 4);
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS average_cost_after DECIMAL(12, 4);
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(12, 4);
+
+CREATE TABLE IF NOT EXISTS cost_layers (
+  id SERIAL PRIMARY KEY,
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  inventory_movement_id INTEGER REFERENCES inventory_movements(id),
+  unit_cost DECIMAL(12, 4) NOT NULL,
+  quantity_received DECIMAL(10, 2) NOT NULL,
+  quantity_remaining DECIMAL(10, 2) NOT NULL,
+  received_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_layers_store_product ON cost_layers(store_id, product_id, id);
+
+CREATE TABLE IF NOT EXISTS cost_layer_movements (
+  id SERIAL PRIMARY KEY,
+  layer_id INTEGER NOT NULL REFERENCES cost_layers(id),
+  inventory_movement_id INTEGER REFERENCES inventory_movements(id),
+  quantity DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_layer_movements_layer ON cost_layer_movements(layer_id);
+
+-- Costing starts from today's cost: it becomes the average, and the stock on
+-- hand becomes each store's oldest layer
+UPDATE store_products sp
+SET average_cost = COALESCE(sp.cost_price, p.cost)
+FROM products p
+WHERE p.id = sp.product_id AND sp.average_cost IS NULL AND COALESCE(sp.cost_price, p.cost) IS NOT NULL;
+
+WITH opened AS (
+  INSERT INTO cost_layers (store_id, product_id, unit_cost, quantity_received, quantity_remaining)
+  SELECT sp.store_id, sp.product_id, sp.average_cost, sp.stock_quantity, sp.stock_quantity
+  FROM store_products sp
+  WHERE sp.average_cost IS NOT NULL
+    AND sp.stock_quantity > 0
+    AND NOT EXISTS (SELECT 1 FROM cost_layers cl WHERE cl.store_id = sp.store_id AND cl.product_id = sp.product_id)
+  RETURNING id, quantity_received
+)
+INSERT INTO cost_layer_movements (layer_id, quantity)
+SELECT id, quantity_received FROM opened;
@@ -0,0 +1,20 @@
+-- Coupon codes and customer-targeted vouchers
+CREATE TABLE IF NOT EXISTS coupons (
+  id SERIAL PRIMARY KEY,
+  promotion_id INTEGER NOT NULL REFERENCES promotions(id),
+  code TEXT NOT NULL UNIQUE,
+  customer_id INTEGER REFERENCES customers(id),
+  max_redemptions INTEGER DEFAULT 1,
+  redemption_count INTEGER DEFAULT 0,
+  expires_at TIMESTAMP,
+  batch_label TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_promotion ON coupons(promotion_id);
+
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS requires_coupon BOOLEAN DEFAULT FALSE;
+ALTER TABLE promotion_usage ADD COLUMN IF NOT EXISTS coupon_id INTEGER REFERENCES coupons(id);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS is_vip BOOLEAN DEFAULT FALSE;
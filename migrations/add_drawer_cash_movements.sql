@@ -0,0 +1,4 @@
+-- Mid-shift drops, pickups, paid-ins and paid-outs recorded against a drawer,
+-- and the per-register ceiling that prompts a drop
+ALTER TABLE cash_movements ADD COLUMN IF NOT EXISTS reason_code TEXT;
+ALTER TABLE registers ADD COLUMN IF NOT EXISTS cash_ceiling DECIMAL(10, 2);
@@ -0,0 +1,41 @@
+-- Registers and their drawer sessions, so each drawer is opened with a float,
+-- counted blind and reconciled against its own cash
+CREATE TABLE IF NOT EXISTS registers (
+  id SERIAL PRIMARY KEY,
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_register_name ON registers(store_id, name);
+
+CREATE TABLE IF NOT EXISTS drawer_sessions (
+  id SERIAL PRIMARY KEY,
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  register_id INTEGER NOT NULL REFERENCES registers(id),
+  day_operation_id INTEGER NOT NULL REFERENCES day_operations(id),
+  status TEXT NOT NULL DEFAULT 'open',
+  opening_float DECIMAL(10, 2) NOT NULL,
+  opened_by INTEGER REFERENCES users(id),
+  opened_at TIMESTAMP DEFAULT NOW(),
+  cash_sales DECIMAL(10, 2),
+  cash_refunds DECIMAL(10, 2),
+  cash_in DECIMAL(10, 2),
+  cash_out DECIMAL(10, 2),
+  expected_cash DECIMAL(10, 2),
+  counted_cash DECIMAL(10, 2),
+  variance DECIMAL(10, 2),
+  closed_by INTEGER REFERENCES users(id),
+  closed_at TIMESTAMP,
+  notes TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_drawer_sessions_day ON drawer_sessions(day_operation_id);
+-- A register has at most one open drawer
+CREATE UNIQUE INDEX IF NOT EXISTS unique_open_drawer_session
+  ON drawer_sessions(register_id) WHERE status = 'open';
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS drawer_session_id INTEGER REFERENCES drawer_sessions(id);
+ALTER TABLE returns ADD COLUMN IF NOT EXISTS drawer_session_id INTEGER REFERENCES drawer_sessions(id);
+ALTER TABLE cash_movements ADD COLUMN IF NOT EXISTS drawer_session_id INTEGER REFERENCES drawer_sessions(id);
@@ -0,0 +1,3 @@
+-- Held sales record the store they were rung up in, so only that store's
+-- staff can resume or discard them. Sales held before this stay unassigned.
+ALTER TABLE held_transactions ADD COLUMN IF NOT EXISTS store_id INTEGER REFERENCES stores(id);
@@ -0,0 +1,9 @@
+-- Add idempotency_key column so offline-queued sales can be synced without duplicates
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_idempotency_key_unique
+ON transactions (idempotency_key);
+
+-- Add comment for documentation
+COMMENT ON COLUMN transactions.idempotency_key IS 'Client-generated key used to deduplicate retried and offline-synced sales';
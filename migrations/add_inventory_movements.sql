@@ -0,0 +1,29 @@
+-- Per-store stock ledger. store_products.stock_quantity becomes a cache of
+-- the running total of these rows.
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id SERIAL PRIMARY KEY,
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  movement_type TEXT NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL,
+  balance_after DECIMAL(10, 2) NOT NULL,
+  reason TEXT,
+  source_type TEXT,
+  source_id TEXT,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_store_product ON inventory_movements(store_id, product_id, id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_source ON inventory_movements(source_type, source_id);
+
+ALTER TABLE stock_adjustments ADD COLUMN IF NOT EXISTS store_id INTEGER REFERENCES stores(id);
+
+-- Open the ledger with today's stock so the totals match from the start
+INSERT INTO inventory_movements (store_id, product_id, movement_type, quantity, balance_after, reason)
+SELECT sp.store_id, sp.product_id, 'opening', COALESCE(sp.stock_quantity, 0), COALESCE(sp.stock_quantity, 0),
+       'Opening balance when the stock ledger was introduced'
+FROM store_products sp
+WHERE NOT EXISTS (
+  SELECT 1 FROM inventory_movements m WHERE m.store_id = sp.store_id AND m.product_id = sp.product_id
+);
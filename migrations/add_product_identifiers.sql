@@ -0,0 +1,17 @@
+-- Product identifiers: extra barcodes, supplier item codes and competitor SKUs
+-- a product goes by, so invoices and competitor prices match it by code
+CREATE TABLE IF NOT EXISTS product_identifiers (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  code TEXT NOT NULL,
+  supplier_id INTEGER REFERENCES suppliers(id) ON DELETE CASCADE,
+  competitor_id INTEGER REFERENCES competitors(id) ON DELETE CASCADE,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- A code belongs to one product per supplier or competitor; barcodes are global
+CREATE UNIQUE INDEX IF NOT EXISTS unique_product_identifier
+  ON product_identifiers(type, COALESCE(supplier_id, competitor_id, 0), code);
+CREATE INDEX IF NOT EXISTS idx_product_identifiers_product ON product_identifiers(product_id);
@@ -0,0 +1,7 @@
+-- Product variants: a parent lists the attributes its variants differ by,
+-- and each variant points at its parent with a value for every attribute
+ALTER TABLE products ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES products(id) ON DELETE SET NULL;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_axes JSONB;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_options JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_products_parent ON products(parent_id);
@@ -0,0 +1,3 @@
+-- Bundle, mix-and-match, tiered and spend-threshold promotions
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS group_quantity INTEGER;
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS tiers JSONB;
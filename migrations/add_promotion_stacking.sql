@@ -0,0 +1,4 @@
+-- Promotion priority, exclusivity and stackable groups
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS priority INTEGER DEFAULT 0;
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS is_exclusive BOOLEAN DEFAULT FALSE;
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS stackable_group TEXT;
@@ -0,0 +1,63 @@
+-- Purchase orders, goods received notes and three-way matching of supplier invoices
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id SERIAL PRIMARY KEY,
+  po_number TEXT NOT NULL UNIQUE,
+  supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  status TEXT NOT NULL DEFAULT 'draft',
+  expected_date TIMESTAMP,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0.00,
+  notes TEXT,
+  created_by INTEGER REFERENCES users(id),
+  sent_by INTEGER REFERENCES users(id),
+  cancelled_by INTEGER REFERENCES users(id),
+  sent_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id, status);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_store ON purchase_orders(store_id, status);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id SERIAL PRIMARY KEY,
+  purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  quantity_ordered DECIMAL(10, 2) NOT NULL,
+  quantity_received DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  unit_cost DECIMAL(10, 2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON purchase_order_items(purchase_order_id);
+
+CREATE TABLE IF NOT EXISTS goods_received_notes (
+  id SERIAL PRIMARY KEY,
+  grn_number TEXT NOT NULL UNIQUE,
+  purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id),
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  delivery_reference TEXT,
+  notes TEXT,
+  received_by INTEGER REFERENCES users(id),
+  received_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_order ON goods_received_notes(purchase_order_id);
+
+CREATE TABLE IF NOT EXISTS goods_received_note_items (
+  id SERIAL PRIMARY KEY,
+  grn_id INTEGER NOT NULL REFERENCES goods_received_notes(id) ON DELETE CASCADE,
+  purchase_order_item_id INTEGER NOT NULL REFERENCES purchase_order_items(id),
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  quantity_ordered DECIMAL(10, 2) NOT NULL,
+  quantity_received DECIMAL(10, 2) NOT NULL,
+  discrepancy_note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_received_note_items_grn ON goods_received_note_items(grn_id);
+
+ALTER TABLE supplier_invoices ADD COLUMN IF NOT EXISTS purchase_order_id INTEGER REFERENCES purchase_orders(id);
+ALTER TABLE supplier_invoices ADD COLUMN IF NOT EXISTS match_status TEXT;
+ALTER TABLE supplier_invoices ADD COLUMN IF NOT EXISTS match_note TEXT;
+ALTER TABLE supplier_invoices ADD COLUMN IF NOT EXISTS match_accepted_by INTEGER REFERENCES users(id);
+ALTER TABLE supplier_invoices ADD COLUMN IF NOT EXISTS match_accepted_at TIMESTAMP;
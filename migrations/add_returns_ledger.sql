@@ -0,0 +1,40 @@
+-- Returns ledger: partial, line-level refunds against an original sale
+CREATE TABLE IF NOT EXISTS returns (
+  id SERIAL PRIMARY KEY,
+  return_number TEXT NOT NULL UNIQUE,
+  transaction_id INTEGER NOT NULL REFERENCES transactions(id),
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  customer_id INTEGER REFERENCES customers(id),
+  day_operation_id INTEGER REFERENCES day_operations(id),
+  processed_by INTEGER REFERENCES users(id),
+  reason_code TEXT NOT NULL,
+  notes TEXT,
+  refund_method TEXT NOT NULL,
+  subtotal DECIMAL(10, 2) NOT NULL,
+  vat_amount DECIMAL(10, 2) NOT NULL DEFAULT 0.00,
+  total_refund DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS return_items (
+  id SERIAL PRIMARY KEY,
+  return_id INTEGER NOT NULL REFERENCES returns(id) ON DELETE CASCADE,
+  transaction_item_id INTEGER NOT NULL REFERENCES transaction_items(id),
+  product_id INTEGER REFERENCES products(id),
+  quantity INTEGER NOT NULL,
+  unit_refund DECIMAL(10, 2) NOT NULL,
+  vat_amount DECIMAL(10, 2) NOT NULL DEFAULT 0.00,
+  refund_amount DECIMAL(10, 2) NOT NULL,
+  disposition TEXT NOT NULL,
+  reason_code TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_returns_transaction_id ON returns(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_return_items_transaction_item_id ON return_items(transaction_item_id);
+
+-- Refund totals per day for reconciliation
+ALTER TABLE day_operations
+ADD COLUMN IF NOT EXISTS cash_refunds DECIMAL(10, 2) DEFAULT 0.00,
+ADD COLUMN IF NOT EXISTS card_refunds DECIMAL(10, 2) DEFAULT 0.00,
+ADD COLUMN IF NOT EXISTS store_credit_refunds DECIMAL(10, 2) DEFAULT 0.00,
+ADD COLUMN IF NOT EXISTS refund_count INTEGER DEFAULT 0;
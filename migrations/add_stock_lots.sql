@@ -0,0 +1,48 @@
+-- Lot numbers and expiry dates for perishable stock
+ALTER TABLE supplier_invoice_items ADD COLUMN IF NOT EXISTS lot_number TEXT;
+ALTER TABLE supplier_invoice_items ADD COLUMN IF NOT EXISTS expiry_date TEXT;
+ALTER TABLE goods_received_note_items ADD COLUMN IF NOT EXISTS lot_number TEXT;
+ALTER TABLE goods_received_note_items ADD COLUMN IF NOT EXISTS expiry_date TEXT;
+
+CREATE TABLE IF NOT EXISTS stock_lots (
+  id SERIAL PRIMARY KEY,
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  lot_number TEXT,
+  expiry_date TEXT,
+  quantity_received DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  quantity_remaining DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  unit_cost DECIMAL(10, 2),
+  source_type TEXT,
+  source_id TEXT,
+  received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_lots_store_product ON stock_lots(store_id, product_id, expiry_date);
+CREATE INDEX IF NOT EXISTS idx_stock_lots_store_expiry ON stock_lots(store_id, expiry_date);
+
+CREATE TABLE IF NOT EXISTS stock_lot_movements (
+  id SERIAL PRIMARY KEY,
+  lot_id INTEGER NOT NULL REFERENCES stock_lots(id),
+  inventory_movement_id INTEGER NOT NULL REFERENCES inventory_movements(id),
+  quantity DECIMAL(10, 2) NOT NULL,
+  restored_from_lot_id INTEGER REFERENCES stock_lots(id),
+  restored_from TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_lot_movements_lot ON stock_lot_movements(lot_id);
+CREATE INDEX IF NOT EXISTS idx_stock_lot_movements_movement ON stock_lot_movements(inventory_movement_id);
+CREATE INDEX IF NOT EXISTS idx_stock_lot_movements_restored ON stock_lot_movements(restored_from);
+
+CREATE TABLE IF NOT EXISTS daily_lot_counts (
+  id SERIAL PRIMARY KEY,
+  monitoring_id INTEGER NOT NULL REFERENCES daily_product_monitoring(id) ON DELETE CASCADE,
+  lot_id INTEGER REFERENCES stock_lots(id),
+  system_quantity DECIMAL(10, 2) NOT NULL,
+  counted_quantity DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_lot_counts_monitoring ON daily_lot_counts(monitoring_id);
@@ -0,0 +1,34 @@
+-- Transfer orders that move stock from one store to another
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id SERIAL PRIMARY KEY,
+  transfer_number TEXT NOT NULL UNIQUE,
+  from_store_id INTEGER NOT NULL REFERENCES stores(id),
+  to_store_id INTEGER NOT NULL REFERENCES stores(id),
+  status TEXT NOT NULL DEFAULT 'requested',
+  notes TEXT,
+  requested_by INTEGER REFERENCES users(id),
+  dispatched_by INTEGER REFERENCES users(id),
+  received_by INTEGER REFERENCES users(id),
+  cancelled_by INTEGER REFERENCES users(id),
+  dispatched_at TIMESTAMP,
+  received_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT stock_transfers_distinct_stores CHECK (from_store_id <> to_store_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_from_store ON stock_transfers(from_store_id, status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_to_store ON stock_transfers(to_store_id, status);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_items (
+  id SERIAL PRIMARY KEY,
+  transfer_id INTEGER NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  quantity_requested DECIMAL(10, 2) NOT NULL,
+  quantity_dispatched DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  quantity_received DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  discrepancy_note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer ON stock_transfer_items(transfer_id);
@@ -0,0 +1,2 @@
+-- Supplier lead times drive the reorder suggestions
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS lead_time_days INTEGER NOT NULL DEFAULT 7;
@@ -0,0 +1,10 @@
+-- Supplier payments record the store that paid them so a store's day close
+-- only takes its own. Existing payments take the store of the purchase order
+-- their invoice was raised against; the rest stay unassigned.
+ALTER TABLE supplier_payments ADD COLUMN IF NOT EXISTS store_id INTEGER REFERENCES stores(id);
+
+UPDATE supplier_payments sp
+SET store_id = po.store_id
+FROM supplier_invoices si
+JOIN purchase_orders po ON po.id = si.purchase_order_id
+WHERE si.id = sp.invoice_id AND sp.store_id IS NULL;
@@ -0,0 +1,19 @@
+-- A scale PLU means one product. PLUs compare without leading zeros, so
+-- "00042" and "42" are the same PLU. Where several products share one, the
+-- active product with the lowest id keeps it and the others lose it.
+UPDATE products SET plu = NULL
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY COALESCE(NULLIF(LTRIM(plu, '0'), ''), '0')
+      ORDER BY is_active DESC NULLS LAST, id
+    ) AS position
+    FROM products
+    WHERE plu IS NOT NULL AND plu <> ''
+  ) ranked
+  WHERE position > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_product_plu
+  ON products ((COALESCE(NULLIF(LTRIM(plu, '0'), ''), '0')))
+  WHERE plu IS NOT NULL AND plu <> '';
@@ -0,0 +1,38 @@
+-- Units of measure: each product's base unit, the other units it is bought
+-- and sold in, and decimal quantities for goods sold by weight
+ALTER TABLE products ADD COLUMN IF NOT EXISTS base_unit TEXT NOT NULL DEFAULT 'pcs';
+ALTER TABLE products ADD COLUMN IF NOT EXISTS base_unit_decimal BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS product_units (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  name TEXT,
+  factor DECIMAL(12, 4) NOT NULL,
+  allows_decimal BOOLEAN NOT NULL DEFAULT FALSE,
+  price DECIMAL(10, 2),
+  is_purchase_unit BOOLEAN NOT NULL DEFAULT TRUE,
+  is_sales_unit BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_product_unit_code ON product_units(product_id, code);
+
+-- Line quantities are kept in the unit they were entered in, with the number
+-- of base units in that unit alongside
+ALTER TABLE transaction_items ALTER COLUMN quantity TYPE DECIMAL(10, 3);
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS unit_factor DECIMAL(12, 4) NOT NULL DEFAULT 1;
+
+ALTER TABLE supplier_invoice_items ALTER COLUMN quantity TYPE DECIMAL(10, 3);
+ALTER TABLE supplier_invoice_items ADD COLUMN IF NOT EXISTS unit_factor DECIMAL(12, 4) NOT NULL DEFAULT 1;
+
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit_factor DECIMAL(12, 4) NOT NULL DEFAULT 1;
+
+ALTER TABLE stock_taking_items ADD COLUMN IF NOT EXISTS unit_factor DECIMAL(12, 4) NOT NULL DEFAULT 1;
+
+ALTER TABLE generated_invoice_items ALTER COLUMN quantity TYPE DECIMAL(10, 3);
+ALTER TABLE generated_invoice_items ADD COLUMN IF NOT EXISTS unit TEXT;
+
+ALTER TABLE return_items ALTER COLUMN quantity TYPE DECIMAL(10, 3);
@@ -0,0 +1,3 @@
+-- Scale PLUs for in-store weight and price labels; the label layouts are
+-- kept per store in stores.settings.barcodes
+ALTER TABLE products ADD COLUMN IF NOT EXISTS plu TEXT;
@@ -0,0 +1,44 @@
+-- Z reports, issued once per register and per day and never changed afterwards,
+-- and no-sale drawer opens for the X and Z reports to count
+CREATE TABLE IF NOT EXISTS drawer_no_sales (
+  id SERIAL PRIMARY KEY,
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  register_id INTEGER NOT NULL REFERENCES registers(id),
+  drawer_session_id INTEGER NOT NULL REFERENCES drawer_sessions(id),
+  reason TEXT,
+  opened_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_drawer_no_sales_session ON drawer_no_sales(drawer_session_id);
+
+CREATE TABLE IF NOT EXISTS z_reports (
+  id SERIAL PRIMARY KEY,
+  store_id INTEGER NOT NULL REFERENCES stores(id),
+  register_id INTEGER REFERENCES registers(id),
+  day_operation_id INTEGER NOT NULL REFERENCES day_operations(id),
+  z_number INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  issued_by INTEGER REFERENCES users(id),
+  issued_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_z_report_number ON z_reports(store_id, COALESCE(register_id, 0), z_number);
+CREATE UNIQUE INDEX IF NOT EXISTS unique_z_report_day ON z_reports(day_operation_id, COALESCE(register_id, 0));
+
+-- An issued Z report is final
+CREATE OR REPLACE FUNCTION z_reports_immutable() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'z_reports cannot be changed once issued';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS z_reports_no_update ON z_reports;
+CREATE TRIGGER z_reports_no_update
+  BEFORE UPDATE OR DELETE ON z_reports
+  FOR EACH ROW EXECUTE FUNCTION z_reports_immutable();
+
+DROP TRIGGER IF EXISTS z_reports_no_truncate ON z_reports;
+CREATE TRIGGER z_reports_no_truncate
+  BEFORE TRUNCATE ON z_reports
+  FOR EACH STATEMENT EXECUTE FUNCTION z_reports_immutable();
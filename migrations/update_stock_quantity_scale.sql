@@ -0,0 +1,17 @@
+-- Stock quantities keep three decimals, like sale lines, so a sale of
+-- 0.125 kg reaches the ledger, lots and cost layers without rounding
+ALTER TABLE store_products ALTER COLUMN stock_quantity TYPE DECIMAL(10, 3);
+
+ALTER TABLE inventory_movements ALTER COLUMN quantity TYPE DECIMAL(10, 3);
+ALTER TABLE inventory_movements ALTER COLUMN balance_after TYPE DECIMAL(10, 3);
+
+ALTER TABLE stock_lots ALTER COLUMN quantity_received TYPE DECIMAL(10, 3);
+ALTER TABLE stock_lots ALTER COLUMN quantity_remaining TYPE DECIMAL(10, 3);
+ALTER TABLE stock_lot_movements ALTER COLUMN quantity TYPE DECIMAL(10, 3);
+
+ALTER TABLE cost_layers ALTER COLUMN quantity_received TYPE DECIMAL(10, 3);
+ALTER TABLE cost_layers ALTER COLUMN quantity_remaining TYPE DECIMAL(10, 3);
+ALTER TABLE cost_layer_movements ALTER COLUMN quantity TYPE DECIMAL(10, 3);
+
+ALTER TABLE daily_lot_counts ALTER COLUMN system_quantity TYPE DECIMAL(10, 3);
+ALTER TABLE daily_lot_counts ALTER COLUMN counted_quantity TYPE DECIMAL(10, 3);
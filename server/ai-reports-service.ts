@@ -1,5 +1,6 @@
 import OpenAI from "openai";
 import { storage } from "./storage";
+import { describeReportSchema, prepareReportQuery, ReportQueryError } from "./modules/ai/report-query-guard";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
@@ -13,8 +14,17 @@ interface ReportQuery {
   explanation?: string;
 }
 
+export interface ReportScope {
+  storeIds: number[];
+}
+
+// Guard rails for running model-generated SQL
+const REPORT_STATEMENT_TIMEOUT_MS = 5000;
+const REPORT_ROW_LIMIT = 1000;
+
 interface ReportResult {
   data: any[];
+  truncated: boolean;
   query: ReportQuery;
   summary: string;
   insights: string[];
@@ -28,7 +38,7 @@ interface ReportResult {
   };
 }
 
-export async function generateDynamicReport(userQuery: string): Promise<ReportResult> {
+export async function generateDynamicReport(userQuery: string, scope: ReportScope): Promise<ReportResult> {
   // Check if we have a valid OpenAI API key
   // To get an API key: https://platform.openai.com/api-keys
   const apiKey = process.env.OPENAI_API_KEY;
@@ -54,16 +64,13 @@ export async function generateDynamicReport(userQuery: string): Promise<ReportRe
           role: "system",
           content: `You are an expert PostgreSQL analyst for a Point of Sale (POS) system. Generate ONLY PostgreSQL-compatible SQL queries based on natural language requests.
 
-Database Schema:
-- transactions: id, transaction_number, customer_id, cashier_id, subtotal, tax (VAT amount), total, status, payment_method, created_at, cash_tendered, card_type, card_last4, auth_code, receipt_printed
-- transaction_items: id, transaction_id, product_id, quantity, unit_price, total
-- products: id, sku, name, description, price, cost, stock, quantity, barcode, image_url, category, supplier_id, is_active
-- customers: id, name, email, phone, address, credit_balance, credit_limit, is_active
-- day_operations: id, date, opened_at, closed_at, opening_cash, closing_cash, total_sales, total_transactions, cash_sales, card_sales, credit_sales
-- suppliers: id, name, contact_person, email, phone, address, is_active
+Database Schema (these are the ONLY tables and columns you may use):
+${describeReportSchema()}
+
+Rows are automatically restricted to the stores the user can access, so never filter on store_id unless the user asks for a specific store.
 
 CRITICAL PostgreSQL Rules:
-1. ONLY generate SELECT queries, never INSERT/UPDATE/DELETE
+1. ONLY generate a single SELECT query (WITH is allowed), never INSERT/UPDATE/DELETE, never schema-qualified names
 2. Use ONLY PostgreSQL syntax - NO MySQL functions like CURDATE(), NOW(), etc.
 3. For current date use: CURRENT_DATE
 4. For current timestamp use: CURRENT_TIMESTAMP  
@@ -103,8 +110,8 @@ IMPORTANT: Always respond with valid JSON format containing the required fields.
 
     const queryData: ReportQuery = JSON.parse(queryResponse.choices[0].message.content || '{}');
 
-    // Execute the generated SQL query
-    const data = await executeReportQuery(queryData.sql);
+    // Execute the generated SQL query through the read-only guard
+    const { rows: data, truncated } = await executeReportQuery(queryData.sql, scope);
 
     // Generate insights from the data
     const insights = await generateInsights(userQuery, data, queryData);
@@ -118,10 +125,11 @@ IMPORTANT: Always respond with valid JSON format containing the required fields.
       undefined;
 
     // Generate additional visualizations (pie and bar charts)
-    const additionalVisuals = await generateAdditionalVisuals(userQuery, data, queryData);
+    const additionalVisuals = await generateAdditionalVisuals(userQuery, data, queryData, scope);
 
     return {
       data,
+      truncated,
       query: queryData,
       summary: queryData.description,
       insights,
@@ -132,6 +140,9 @@ IMPORTANT: Always respond with valid JSON format containing the required fields.
 
   } catch (error) {
     console.error('❌ Error generating dynamic report:', error);
+    if (error instanceof ReportQueryError) {
+      throw error;
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
     
     // Check for specific OpenAI API errors
@@ -149,15 +160,47 @@ IMPORTANT: Always respond with valid JSON format containing the required fields.
   }
 }
 
-async function executeReportQuery(sql: string): Promise<any[]> {
+async function executeReportQuery(sql: string, scope: ReportScope): Promise<{ rows: any[]; truncated: boolean }> {
+  // Throws ReportQueryError before anything reaches the database
+  const prepared = prepareReportQuery(sql, { storeIds: scope.storeIds });
+
+  const { pool } = await import('./db');
+  const client = await pool.connect();
   try {
-    // Use the existing database connection from storage
-    const { pool } = await import('./db');
-    const result = await pool.query(sql);
-    return result.rows;
+    await client.query('BEGIN READ ONLY');
+    await client.query(`SET LOCAL statement_timeout = ${REPORT_STATEMENT_TIMEOUT_MS}`);
+    if (process.env.AI_REPORTS_DB_ROLE) {
+      await client.query(`SET LOCAL ROLE "${process.env.AI_REPORTS_DB_ROLE.replace(/"/g, '""')}"`);
+    }
+    // A cursor keeps the model's ORDER BY intact while capping the rows we pull
+    await client.query(`DECLARE report_cursor NO SCROLL CURSOR FOR ${prepared.sql}`);
+    const result = await client.query(`FETCH FORWARD ${REPORT_ROW_LIMIT + 1} FROM report_cursor`);
+    await client.query('ROLLBACK');
+
+    const truncated = result.rows.length > REPORT_ROW_LIMIT;
+    return { rows: truncated ? result.rows.slice(0, REPORT_ROW_LIMIT) : result.rows, truncated };
   } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
     console.error('Error executing report query:', error);
-    throw new Error('Failed to execute query: ' + (error as Error).message);
+    if (error instanceof ReportQueryError) {
+      throw error;
+    }
+    const pgCode = (error as { code?: string }).code;
+    if (pgCode === '57014') {
+      throw new ReportQueryError('QUERY_TIMEOUT', `The report query took longer than ${REPORT_STATEMENT_TIMEOUT_MS / 1000} seconds`);
+    }
+    if (pgCode === '42703') {
+      throw new ReportQueryError('COLUMN_NOT_ALLOWED', (error as Error).message);
+    }
+    if (pgCode === '42P01') {
+      throw new ReportQueryError('TABLE_NOT_ALLOWED', (error as Error).message);
+    }
+    if (pgCode === '25006') {
+      throw new ReportQueryError('NOT_READ_ONLY', (error as Error).message);
+    }
+    throw new ReportQueryError('EXECUTION_FAILED', 'Failed to execute query: ' + (error as Error).message);
+  } finally {
+    client.release();
   }
 }
 
@@ -212,7 +255,7 @@ async function generateInsights(userQuery: string, data: any[], queryInfo: Repor
   }
 }
 
-async function generateAdditionalVisuals(userQuery: string, originalData: any[], originalQuery: ReportQuery) {
+async function generateAdditionalVisuals(userQuery: string, originalData: any[], originalQuery: ReportQuery, scope: ReportScope) {
   try {
     const additionalVisuals: any = {};
 
@@ -224,11 +267,8 @@ async function generateAdditionalVisuals(userQuery: string, originalData: any[],
           role: "system",
           content: `You are a PostgreSQL data visualization expert. Create ONLY PostgreSQL-compatible SQL queries for pie charts showing distribution/breakdown data. 
           
-          Database schema:
-          - transactions: id, transaction_number, cashier_id, customer_id, total, payment_method, status, created_at
-          - transaction_items: transaction_id, product_id, quantity, unit_price, total
-          - products: id, sku, name, description, price, cost, stock, quantity, barcode, image_url, category, supplier_id, is_active
-          - customers: id, name, email, phone, address, credit_limit, credit_balance, is_active
+          Database schema (the ONLY tables and columns you may use):
+${describeReportSchema()}
           
           PostgreSQL Rules:
           - Use CURRENT_DATE for today, CURRENT_DATE - INTERVAL '30 days' for date ranges
@@ -250,7 +290,7 @@ async function generateAdditionalVisuals(userQuery: string, originalData: any[],
 
     const pieQuery = JSON.parse(pieResponse.choices[0].message.content || '{}');
     if (pieQuery.sql) {
-      const pieData = await executeReportQuery(pieQuery.sql);
+      const { rows: pieData } = await executeReportQuery(pieQuery.sql, scope);
       additionalVisuals.pieChart = { ...pieQuery, chartType: 'pie' };
       additionalVisuals.pieData = pieData;
     }
@@ -263,11 +303,8 @@ async function generateAdditionalVisuals(userQuery: string, originalData: any[],
           role: "system",
           content: `You are a PostgreSQL data visualization expert. Create ONLY PostgreSQL-compatible SQL queries for bar charts showing comparison or ranking data.
           
-          Database schema:
-          - transactions: id, transaction_number, cashier_id, customer_id, total, payment_method, status, created_at
-          - transaction_items: transaction_id, product_id, quantity, unit_price, total
-          - products: id, sku, name, description, price, cost, stock, quantity, barcode, image_url, category, supplier_id, is_active
-          - customers: id, name, email, phone, address, credit_limit, credit_balance, is_active
+          Database schema (the ONLY tables and columns you may use):
+${describeReportSchema()}
           
           PostgreSQL Rules:
           - Use CURRENT_DATE for today, CURRENT_DATE - INTERVAL '30 days' for date ranges
@@ -289,7 +326,7 @@ async function generateAdditionalVisuals(userQuery: string, originalData: any[],
 
     const barQuery = JSON.parse(barResponse.choices[0].message.content || '{}');
     if (barQuery.sql) {
-      const barData = await executeReportQuery(barQuery.sql);
+      const { rows: barData } = await executeReportQuery(barQuery.sql, scope);
       additionalVisuals.barChart = { ...barQuery, chartType: 'bar' };
       additionalVisuals.barData = barData;
     }
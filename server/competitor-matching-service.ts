@@ -7,6 +7,7 @@
 
 import OpenAI from "openai";
 import type { Product } from "@shared/schema";
+import { lookupCode, type CodeBook } from "./modules/inventory/identifiers";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -29,7 +30,7 @@ export interface ProductMatch {
   product: Product;
   confidence: number; // 0-100
   matchReason: string;
-  matchedBy: 'exact_barcode' | 'exact_sku' | 'ai_analysis' | 'manual';
+  matchedBy: 'known_code' | 'exact_barcode' | 'exact_sku' | 'ai_analysis' | 'manual';
 }
 
 /**
@@ -37,8 +38,24 @@ export interface ProductMatch {
  */
 export async function matchCompetitorProduct(
   competitorProduct: CompetitorProduct,
-  ourCatalog: Product[]
+  ourCatalog: Product[],
+  knownCodes?: CodeBook
 ): Promise<ProductMatch | null> {
+
+  // Strategy 0: a barcode or this competitor's SKU already mapped to one of ours
+  if (knownCodes) {
+    const known = lookupCode(knownCodes, { barcode: competitorProduct.barcode, code: competitorProduct.sku });
+    const product = known ? ourCatalog.find(p => p.id === known.productId) : undefined;
+    if (known && product) {
+      return {
+        productId: product.id,
+        product,
+        confidence: 100,
+        matchReason: known.matchedBy === 'code' ? 'Competitor SKU mapped to this product' : 'Barcode mapped to this product',
+        matchedBy: 'known_code',
+      };
+    }
+  }
   
   // Strategy 1: Exact barcode match (highest confidence)
   if (competitorProduct.barcode) {
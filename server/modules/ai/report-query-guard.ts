@@ -0,0 +1,406 @@
+import { parse, toSql, type SelectStatement, type Statement } from "pgsql-ast-parser";
+
+/**
+ * Guard for SQL produced by the AI report generator.
+ *
+ * The model is only ever allowed to run a single SELECT/WITH statement over the
+ * tables and columns listed in REPORT_TABLES. Accepted statements are re-emitted
+ * from the parsed AST (so Postgres runs exactly what was validated) and every
+ * whitelisted table is shadowed by a CTE of the same name that projects only the
+ * whitelisted columns and filters rows to the caller's accessible stores.
+ */
+
+export type ReportQueryErrorCode =
+  | "EMPTY_QUERY"
+  | "PARSE_ERROR"
+  | "MULTIPLE_STATEMENTS"
+  | "NOT_READ_ONLY"
+  | "RECURSIVE_QUERY"
+  | "LOCKING_CLAUSE"
+  | "SCHEMA_QUALIFIED"
+  | "TABLE_NOT_ALLOWED"
+  | "COLUMN_NOT_ALLOWED"
+  | "FUNCTION_NOT_ALLOWED"
+  | "PARAMETER_NOT_ALLOWED"
+  | "NO_STORE_ACCESS"
+  | "QUERY_TIMEOUT"
+  | "EXECUTION_FAILED";
+
+export class ReportQueryError extends Error {
+  constructor(public readonly code: ReportQueryErrorCode, message: string) {
+    super(message);
+    this.name = "ReportQueryError";
+  }
+}
+
+type StoreScope =
+  | { type: "column"; column: string } // table has its own store column
+  | { type: "id" } // the table's primary key is the store id
+  | { type: "transaction" } // rows belong to a store through transactions.id
+  | { type: "column_or_shared"; column: string } // null store means shared across stores
+  | { type: "global" };
+
+interface ReportTable {
+  description: string;
+  columns: string[];
+  scope: StoreScope;
+}
+
+export const REPORT_TABLES: Record<string, ReportTable> = {
+  transactions: {
+    description: "sales; tax is the VAT amount, status is 'completed' | 'hold' | 'voided' | 'refunded'",
+    columns: [
+      "id", "transaction_number", "store_id", "customer_id", "cashier_id", "subtotal", "tax", "vat_amount",
+      "discount_amount", "promotion_discount_amount", "total", "status", "payment_method", "cash_tendered",
+      "card_type", "currency", "exchange_rate", "base_currency_total", "order_type", "receipt_printed", "created_at",
+    ],
+    scope: { type: "column", column: "store_id" },
+  },
+  transaction_items: {
+    description: "sale lines; quantity is in the line's unit (null = the product's base unit), quantity * unit_factor is base units",
+    columns: [
+      "id", "transaction_id", "product_id", "quantity", "unit", "unit_factor", "unit_price", "total", "vat_rate",
+      "vat_amount", "original_unit_price", "discount_amount", "promotion_id",
+    ],
+    scope: { type: "transaction" },
+  },
+  products: {
+    description: "product catalog shared by all stores",
+    columns: [
+      "id", "sku", "name", "description", "price", "cost", "stock", "quantity", "barcode", "product_type",
+      "category", "supplier_id", "base_unit", "plu", "parent_id", "is_active", "created_at",
+    ],
+    scope: { type: "global" },
+  },
+  store_products: {
+    description: "per-store price and stock",
+    columns: ["id", "store_id", "product_id", "price", "cost_price", "stock_quantity", "reorder_level", "is_active"],
+    scope: { type: "column", column: "store_id" },
+  },
+  customers: {
+    description: "customers",
+    columns: ["id", "name", "email", "phone", "address", "credit_limit", "credit_balance", "is_active", "store_id"],
+    scope: { type: "column_or_shared", column: "store_id" },
+  },
+  day_operations: {
+    description: "one row per store per business day",
+    columns: [
+      "id", "store_id", "date", "status", "opened_at", "closed_at", "opening_cash", "closing_cash", "total_sales",
+      "total_transactions", "cash_sales", "card_sales", "credit_sales", "split_sales", "expected_cash",
+      "actual_cash_count", "cash_difference",
+    ],
+    scope: { type: "column", column: "store_id" },
+  },
+  suppliers: {
+    description: "suppliers",
+    columns: ["id", "name", "contact_person", "email", "phone", "address", "is_active"],
+    scope: { type: "global" },
+  },
+  stores: {
+    description: "stores",
+    columns: ["id", "name", "code", "base_currency", "is_active"],
+    scope: { type: "id" },
+  },
+};
+
+export const REPORT_FUNCTIONS = new Set([
+  // aggregates
+  "count", "sum", "avg", "min", "max", "string_agg", "array_agg", "bool_and", "bool_or", "stddev", "variance",
+  // window functions
+  "row_number", "rank", "dense_rank", "percent_rank", "ntile", "lag", "lead", "first_value", "last_value",
+  // numeric
+  "round", "trunc", "floor", "ceil", "ceiling", "abs", "greatest", "least", "coalesce", "nullif",
+  // date/time
+  "date_trunc", "date_part", "to_char", "to_date", "date", "age", "now", "make_date", "generate_series",
+  // text
+  "lower", "upper", "initcap", "trim", "btrim", "ltrim", "rtrim", "length", "concat", "concat_ws", "replace",
+  "split_part", "left", "right",
+]);
+
+const STATEMENT_TYPES = new Set(["select", "union", "union all", "with", "with recursive", "values"]);
+
+/** Columns each FROM source exposes; null when unknown (CTEs and subqueries). */
+type SourceFrame = Map<string, Set<string> | null>;
+
+interface WalkContext {
+  cteNames: Set<string>;
+  frames: SourceFrame[];
+  tables: Set<string>;
+}
+
+export interface PreparedReportQuery {
+  sql: string;
+  tables: string[];
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase();
+}
+
+function reject(code: ReportQueryErrorCode, message: string): never {
+  throw new ReportQueryError(code, message);
+}
+
+function checkFunction(fn: { name: string; schema?: string }) {
+  if (fn.schema) {
+    reject("SCHEMA_QUALIFIED", `Schema-qualified function "${fn.schema}.${fn.name}" is not allowed`);
+  }
+  if (!REPORT_FUNCTIONS.has(normalizeName(fn.name))) {
+    reject("FUNCTION_NOT_ALLOWED", `Function "${fn.name}" is not allowed in reports`);
+  }
+}
+
+function checkColumnRef(ref: { name: string; table?: { name: string; schema?: string } }, ctx: WalkContext, outputAliases: Set<string>) {
+  if (ref.name === "*") {
+    return;
+  }
+  const column = normalizeName(ref.name);
+
+  if (ref.table) {
+    if (ref.table.schema) {
+      reject("SCHEMA_QUALIFIED", `Schema-qualified reference "${ref.table.schema}.${ref.table.name}" is not allowed`);
+    }
+    const source = normalizeName(ref.table.name);
+    for (let i = ctx.frames.length - 1; i >= 0; i--) {
+      if (ctx.frames[i].has(source)) {
+        const columns = ctx.frames[i].get(source);
+        if (columns && !columns.has(column)) {
+          reject("COLUMN_NOT_ALLOWED", `Column "${source}.${ref.name}" is not available for reports`);
+        }
+        return;
+      }
+    }
+    // Unknown qualifier: Postgres reports it as a missing FROM entry.
+    return;
+  }
+
+  if (outputAliases.has(column)) {
+    return;
+  }
+  for (const frame of ctx.frames) {
+    for (const columns of Array.from(frame.values())) {
+      if (!columns || columns.has(column)) {
+        return;
+      }
+    }
+  }
+  if (ctx.frames.some((frame) => frame.size > 0)) {
+    reject("COLUMN_NOT_ALLOWED", `Column "${ref.name}" is not available for reports`);
+  }
+}
+
+function walkExpression(node: unknown, ctx: WalkContext, outputAliases: Set<string>): void {
+  if (Array.isArray(node)) {
+    node.forEach((child) => walkExpression(child, ctx, outputAliases));
+    return;
+  }
+  if (!node || typeof node !== "object") {
+    return;
+  }
+
+  const expr = node as Record<string, any>;
+  if (typeof expr.type === "string") {
+    if (STATEMENT_TYPES.has(expr.type)) {
+      walkStatement(expr as Statement, ctx);
+      return;
+    }
+    if (expr.type === "parameter") {
+      reject("PARAMETER_NOT_ALLOWED", "Query parameters are not allowed in reports");
+    }
+    if (expr.type === "call") {
+      checkFunction(expr.function);
+    }
+    if (expr.type === "ref") {
+      checkColumnRef(expr as any, ctx, outputAliases);
+      return;
+    }
+  }
+
+  for (const [key, value] of Object.entries(expr)) {
+    // Function names and type names are identifiers, not column references.
+    if (key === "function" || key === "to" || key === "alias") {
+      continue;
+    }
+    walkExpression(value, ctx, outputAliases);
+  }
+}
+
+function walkSelect(select: Record<string, any>, ctx: WalkContext) {
+  if (select.for) {
+    reject("LOCKING_CLAUSE", "Row locking clauses (FOR UPDATE/SHARE) are not allowed in reports");
+  }
+
+  const frame: SourceFrame = new Map();
+  const inner: WalkContext = { ...ctx, frames: [...ctx.frames, frame] };
+  const joinConditions: unknown[] = [];
+
+  for (const from of select.from ?? []) {
+    if (from.type === "table") {
+      const { name, schema, alias } = from.name as { name: string; schema?: string; alias?: string };
+      if (schema) {
+        reject("SCHEMA_QUALIFIED", `Schema-qualified table "${schema}.${name}" is not allowed`);
+      }
+      const table = normalizeName(name);
+      let columns: Set<string> | null = null;
+      if (ctx.cteNames.has(table)) {
+        columns = null;
+      } else if (REPORT_TABLES[table]) {
+        columns = new Set(REPORT_TABLES[table].columns);
+        ctx.tables.add(table);
+      } else {
+        reject("TABLE_NOT_ALLOWED", `Table "${name}" is not available for reports`);
+      }
+      frame.set(normalizeName(alias ?? name), columns);
+    } else if (from.type === "statement") {
+      walkStatement(from.statement, from.lateral ? inner : ctx);
+      frame.set(normalizeName(from.alias), null);
+    } else if (from.type === "call") {
+      checkFunction(from.function);
+      walkExpression(from.args, ctx, new Set());
+      frame.set(normalizeName(from.alias?.name ?? from.function.name), null);
+    } else {
+      reject("PARSE_ERROR", `Unsupported FROM clause "${from.type}"`);
+    }
+    if (from.join?.on) {
+      joinConditions.push(from.join.on);
+    }
+  }
+
+  const outputAliases = new Set<string>(
+    (select.columns ?? [])
+      .map((column: { alias?: { name: string } }) => column.alias?.name)
+      .filter((alias: string | undefined): alias is string => !!alias)
+      .map(normalizeName),
+  );
+
+  walkExpression(joinConditions, inner, new Set());
+  for (const [key, value] of Object.entries(select)) {
+    if (key === "type" || key === "from") {
+      continue;
+    }
+    // Output column aliases may only be referenced from these clauses.
+    const aliasesInScope = ["groupBy", "having", "orderBy", "distinct"].includes(key) ? outputAliases : new Set<string>();
+    walkExpression(value, inner, aliasesInScope);
+  }
+}
+
+function walkStatement(statement: Statement, ctx: WalkContext): void {
+  switch (statement.type) {
+    case "select":
+      walkSelect(statement as any, ctx);
+      return;
+    case "union":
+    case "union all":
+      walkStatement(statement.left, ctx);
+      walkStatement(statement.right, ctx);
+      return;
+    case "values":
+      walkExpression(statement.values, ctx, new Set());
+      return;
+    case "with": {
+      // A CTE is visible to the CTEs declared after it and to the main query.
+      const scoped: WalkContext = { ...ctx, cteNames: new Set(ctx.cteNames) };
+      for (const bind of statement.bind) {
+        const name = normalizeName(bind.alias.name);
+        if (REPORT_TABLES[name]) {
+          reject("TABLE_NOT_ALLOWED", `Query name "${bind.alias.name}" may not reuse a report table name`);
+        }
+        walkStatement(bind.statement, scoped);
+        scoped.cteNames.add(name);
+      }
+      walkStatement(statement.in, scoped);
+      return;
+    }
+    case "with recursive":
+      reject("RECURSIVE_QUERY", "Recursive queries are not allowed in reports");
+    default:
+      reject("NOT_READ_ONLY", `Only SELECT queries are allowed in reports (got ${statement.type.toUpperCase()})`);
+  }
+}
+
+/**
+ * Parses and validates a generated report query without touching the database.
+ * Returns the parsed statement and the whitelisted tables it reads from.
+ */
+export function validateReportQuery(sql: string): { statement: Statement; tables: string[] } {
+  if (typeof sql !== "string" || sql.trim().length === 0) {
+    reject("EMPTY_QUERY", "The generated report query is empty");
+  }
+
+  let statements: Statement[];
+  try {
+    statements = parse(sql);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message.split("\n")[0] : String(error);
+    reject("PARSE_ERROR", `The generated report query could not be parsed: ${detail}`);
+  }
+
+  if (statements.length === 0) {
+    reject("EMPTY_QUERY", "The generated report query is empty");
+  }
+  if (statements.length > 1) {
+    reject("MULTIPLE_STATEMENTS", "Only a single statement is allowed in reports");
+  }
+
+  const [statement] = statements;
+  const ctx: WalkContext = { cteNames: new Set(), frames: [], tables: new Set() };
+  walkStatement(statement, ctx);
+
+  return { statement, tables: Array.from(ctx.tables).sort() };
+}
+
+function buildScopedTable(table: string, storeList: string): SelectStatement {
+  const { columns, scope } = REPORT_TABLES[table];
+  const projection = columns.join(", ");
+  let where = "";
+  switch (scope.type) {
+    case "column":
+      where = ` WHERE ${scope.column} IN (${storeList})`;
+      break;
+    case "column_or_shared":
+      where = ` WHERE ${scope.column} IS NULL OR ${scope.column} IN (${storeList})`;
+      break;
+    case "id":
+      where = ` WHERE id IN (${storeList})`;
+      break;
+    case "transaction":
+      where = ` WHERE transaction_id IN (SELECT id FROM public.transactions WHERE store_id IN (${storeList}))`;
+      break;
+    case "global":
+      break;
+  }
+  return parse(`SELECT ${projection} FROM public.${table}${where}`)[0] as SelectStatement;
+}
+
+/**
+ * Validates a generated query and rewrites it so every whitelisted table it
+ * reads is restricted to the given stores and whitelisted columns.
+ */
+export function prepareReportQuery(sql: string, options: { storeIds: number[] }): PreparedReportQuery {
+  const storeIds = Array.from(new Set(options.storeIds)).filter((id) => Number.isInteger(id) && id > 0);
+  if (storeIds.length === 0) {
+    reject("NO_STORE_ACCESS", "You do not have access to any store to report on");
+  }
+
+  const { statement, tables } = validateReportQuery(sql);
+  const storeList = storeIds.join(", ");
+  const scopedBinds = tables.map((table) => ({
+    alias: { name: table },
+    statement: buildScopedTable(table, storeList),
+  }));
+
+  const scopedStatement: Statement = scopedBinds.length === 0
+    ? statement
+    : statement.type === "with"
+      ? { ...statement, bind: [...scopedBinds, ...statement.bind] }
+      : { type: "with", bind: scopedBinds, in: statement as any };
+
+  return { sql: toSql.statement(scopedStatement), tables };
+}
+
+/** Prompt fragment describing exactly what the model may query. */
+export function describeReportSchema(): string {
+  return Object.entries(REPORT_TABLES)
+    .map(([table, { columns, description }]) => `- ${table} (${description}): ${columns.join(", ")}`)
+    .join("\n");
+}
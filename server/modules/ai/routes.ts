@@ -2,9 +2,12 @@ import type { Express } from "express";
 import { upload } from "../shared/upload";
 import { storage } from "../../storage";
 import { generateProductRecommendations } from "../../openai-service";
+import { isAuthenticated } from "../../auth";
+import { requirePermission } from "../shared/authorization";
+import { ReportQueryError } from "./report-query-guard";
 
 export function registerAiRoutes(app: Express) {
-  app.post("/api/scan/ai", upload.single("image"), async (req, res) => {
+  app.post("/api/scan/ai", isAuthenticated, requirePermission("ai", "use"), upload.single("image"), async (req, res) => {
     try {
       const type = req.body.type;
 
@@ -43,7 +46,7 @@ export function registerAiRoutes(app: Express) {
     }
   });
 
-  app.post("/api/ai/recommendations", async (req, res) => {
+  app.post("/api/ai/recommendations", isAuthenticated, requirePermission("ai", "use"), async (req, res) => {
     try {
       const { customerId, cartItems } = req.body;
       const recommendations = await generateProductRecommendations(customerId, cartItems);
@@ -54,23 +57,44 @@ export function registerAiRoutes(app: Express) {
     }
   });
 
-  app.post("/api/ai/reports/generate", async (req, res) => {
+  app.post("/api/ai/reports/generate", isAuthenticated, requirePermission("reports", "read"), async (req, res) => {
     try {
-      const { query } = req.body;
+      const { query, storeId } = req.body;
 
       if (!query || typeof query !== "string") {
         return res.status(400).json({ message: "Query is required" });
       }
 
-      console.log(`📊 Generating AI report for query: "${query}"`);
+      const user = req.user as any;
+      const accessibleStores = await storage.getUserAccessibleStores(user.id);
+      let storeIds = accessibleStores.map((store) => store.id);
+
+      if (storeId !== undefined && storeId !== null) {
+        const requestedStoreId = typeof storeId === "number" ? storeId : parseInt(String(storeId), 10);
+        if (!storeIds.includes(requestedStoreId)) {
+          return res.status(403).json({ message: "User does not have access to this store" });
+        }
+        storeIds = [requestedStoreId];
+      }
+
+      console.log(`📊 Generating AI report for query: "${query}" (stores: ${storeIds.join(", ")})`);
 
       const { generateDynamicReport } = await import("../../ai-reports-service");
-      const report = await generateDynamicReport(query);
+      const report = await generateDynamicReport(query, { storeIds });
       
       console.log(`✅ AI report generated successfully: ${report.data.length} rows`);
       res.json(report);
     } catch (error) {
       console.error("❌ Error generating AI report:", error);
+
+      // The generated SQL was rejected by the report query guard
+      if (error instanceof ReportQueryError) {
+        return res.status(422).json({
+          message: "The generated report query was rejected",
+          code: error.code,
+          error: error.message,
+        });
+      }
       
       // Check if this is an API key configuration error
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -99,7 +123,7 @@ export function registerAiRoutes(app: Express) {
     }
   });
 
-  app.get("/api/ai/reports/templates", async (_req, res) => {
+  app.get("/api/ai/reports/templates", isAuthenticated, requirePermission("reports", "read"), async (_req, res) => {
     try {
       const { reportTemplates } = await import("../../ai-reports-service");
       res.json(reportTemplates);
@@ -0,0 +1,171 @@
+import { z } from "zod";
+import { APPROVAL_ACTIONS, type Approval, type ApprovalAction } from "@shared/schema";
+import { APPROVAL_ACTION_LABELS, approvalNeeded, type ApprovalPolicy } from "@shared/approvals";
+
+// Long enough to finish the sale, short enough that a token cannot be kept for later
+export const APPROVAL_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+// Refused attempts a manager's name, or a cashier, may collect before approvals lock
+export const MAX_FAILED_APPROVALS = 5;
+// How far back refused attempts count, and so how long a lockout lasts
+export const APPROVAL_LOCKOUT_MS = 15 * 60 * 1000;
+
+/** Something a cashier is about to do that the store's policy says needs a manager. */
+export interface ApprovalDemand {
+  action: ApprovalAction;
+  amount: number;
+  transactionId?: number | null;
+}
+
+export type ApprovalCheckCode =
+  | "NOT_FOUND"
+  | "EXPIRED"
+  | "USED"
+  | "WRONG_ACTION"
+  | "WRONG_STORE"
+  | "WRONG_USER"
+  | "WRONG_TRANSACTION"
+  | "AMOUNT_EXCEEDED";
+
+export interface ApprovalCheckFailure {
+  code: ApprovalCheckCode;
+  message: string;
+}
+
+/** What a mutating route answers (403) when an approval is missing or unusable. */
+export interface ApprovalRejection {
+  code: "APPROVAL_REQUIRED";
+  message: string;
+  action: ApprovalAction;
+  amount: number;
+  transactionId: number | null;
+  reason?: ApprovalCheckCode;
+}
+
+export const grantApprovalSchema = z
+  .object({
+    action: z.enum(APPROVAL_ACTIONS),
+    storeId: z.coerce.number().int().positive(),
+    transactionId: z.coerce.number().int().positive().nullable().optional(),
+    amount: z.coerce.number().nonnegative().nullable().optional(),
+    reason: z.string().trim().min(1, "A reason is required").max(500),
+    username: z.string().trim().min(1).optional(),
+    pin: z.string().trim().min(1).optional(),
+    badgeCode: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => !!data.badgeCode || (!!data.username && !!data.pin), {
+    message: "Enter a manager username and PIN or scan a badge",
+  });
+
+export type GrantApprovalInput = z.infer<typeof grantApprovalSchema>;
+
+/**
+ * Whether PIN and badge approvals are locked for this attempt: too many
+ * refusals recently against the manager named, or asked for by this cashier.
+ * Guessing one manager's PIN from many tills, or many managers' PINs from one
+ * till, both run into it.
+ */
+export function approvalsLocked(failures: { approver: number; requester: number }): boolean {
+  return failures.approver >= MAX_FAILED_APPROVALS || failures.requester >= MAX_FAILED_APPROVALS;
+}
+
+export const approvalCredentialsSchema = z.object({
+  pin: z.string().regex(/^\d{4,8}$/, "The PIN must be 4 to 8 digits").nullable().optional(),
+  badgeCode: z.string().trim().max(64).nullable().optional(),
+});
+
+/** Checks that an approval covers this action, by this cashier, in this store, right now. */
+export function checkApproval(
+  approval: Pick<Approval, "action" | "storeId" | "transactionId" | "amount" | "requestedBy" | "expiresAt" | "usedAt"> | undefined,
+  demand: ApprovalDemand,
+  context: { storeId: number; userId: number; now: Date },
+): ApprovalCheckFailure | null {
+  if (!approval) {
+    return { code: "NOT_FOUND", message: "The manager approval was not found" };
+  }
+  if (approval.usedAt) {
+    return { code: "USED", message: "The manager approval has already been used" };
+  }
+  if (new Date(approval.expiresAt) <= context.now) {
+    return { code: "EXPIRED", message: "The manager approval has expired" };
+  }
+  if (approval.action !== demand.action) {
+    return { code: "WRONG_ACTION", message: "The manager approval was given for a different action" };
+  }
+  if (approval.storeId !== context.storeId) {
+    return { code: "WRONG_STORE", message: "The manager approval was given in another store" };
+  }
+  if (approval.requestedBy !== context.userId) {
+    return { code: "WRONG_USER", message: "The manager approval was given to another cashier" };
+  }
+  if (approval.transactionId && approval.transactionId !== (demand.transactionId ?? null)) {
+    return { code: "WRONG_TRANSACTION", message: "The manager approval was given for another sale" };
+  }
+  if (approval.amount !== null && demand.amount - parseFloat(approval.amount) > 0.005) {
+    return { code: "AMOUNT_EXCEEDED", message: "The amount is more than the manager approved" };
+  }
+  return null;
+}
+
+export function approvalRequired(demand: ApprovalDemand, failure?: ApprovalCheckFailure): ApprovalRejection {
+  return {
+    code: "APPROVAL_REQUIRED",
+    message: failure?.message ?? `${APPROVAL_ACTION_LABELS[demand.action]} needs manager approval`,
+    action: demand.action,
+    amount: Math.round(demand.amount * 100) / 100,
+    transactionId: demand.transactionId ?? null,
+    ...(failure ? { reason: failure.code } : {}),
+  };
+}
+
+/** Approval tokens sent with a request, as `approvalToken` or `approvalTokens`. */
+export function readApprovalTokens(body: unknown): string[] {
+  const { approvalToken, approvalTokens } = (body ?? {}) as { approvalToken?: unknown; approvalTokens?: unknown };
+  const tokens = [approvalToken, ...(Array.isArray(approvalTokens) ? approvalTokens : [])];
+  return Array.from(new Set(tokens.filter((token): token is string => typeof token === "string" && token.length > 0)));
+}
+
+interface SaleForApproval {
+  subtotal?: unknown;
+  tax?: unknown;
+  discountAmount?: unknown;
+  items?: Array<{ productId?: unknown; unitPrice?: unknown; price?: unknown; quantity?: unknown }> | unknown;
+}
+
+const toAmount = (value: unknown): number => {
+  const amount = parseFloat(String(value ?? 0));
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+/**
+ * What on a checkout needs a manager: the manual sale discount (promotions
+ * never need one; the sale routes price them again before this) and lines
+ * sold below the store's price. Custom items without a product have no price
+ * to compare with.
+ */
+export function saleApprovalDemands(
+  policy: ApprovalPolicy,
+  sale: SaleForApproval,
+  catalogPrices: Map<number, number>,
+): ApprovalDemand[] {
+  const demands: ApprovalDemand[] = [];
+
+  const discount = toAmount(sale.discountAmount);
+  if (approvalNeeded(policy, "discount", discount, toAmount(sale.subtotal) + toAmount(sale.tax))) {
+    demands.push({ action: "discount", amount: discount });
+  }
+
+  const items = Array.isArray(sale.items) ? sale.items : [];
+  const belowCatalog = items.reduce((sum, item) => {
+    const catalogPrice = catalogPrices.get(Number(item.productId));
+    if (catalogPrice === undefined) return sum;
+    const unitPrice = toAmount(item.unitPrice ?? item.price);
+    const quantity = toAmount(item.quantity);
+    return unitPrice < catalogPrice ? sum + (catalogPrice - unitPrice) * quantity : sum;
+  }, 0);
+  if (approvalNeeded(policy, "price_override", belowCatalog)) {
+    demands.push({ action: "price_override", amount: belowCatalog });
+  }
+
+  return demands;
+}
@@ -0,0 +1,102 @@
+import type { Express } from "express";
+import { storage } from "../../storage";
+import { isAuthenticated } from "../../auth";
+import { listableStoreIds, requirePermission } from "../shared/authorization";
+import { approvalCredentialsSchema, grantApprovalSchema } from "./approvals";
+import { grantApproval } from "./service";
+
+export function registerApprovalRoutes(app: Express) {
+  // A manager enters their PIN or scans their badge on the cashier's till
+  app.post("/api/approvals", isAuthenticated, requirePermission("approvals", "request"), async (req, res) => {
+    try {
+      const parsed = grantApprovalSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid approval request",
+          errors: parsed.error.errors,
+        });
+      }
+
+      const result = await grantApproval(req.user!, parsed.data);
+      if (!result.success) {
+        // Not 401: a wrong manager PIN must not look like the cashier's session expiring
+        const status = result.code === "STORE_NOT_FOUND" ? 404 : result.code === "LOCKED_OUT" ? 429 : 403;
+        return res.status(status).json({ message: result.message, code: result.code });
+      }
+
+      res.status(201).json({
+        token: result.approval.token,
+        action: result.approval.action,
+        amount: result.approval.amount,
+        expiresAt: result.approval.expiresAt,
+        approver: result.approver,
+      });
+    } catch (error) {
+      console.error("Error granting approval:", error);
+      res.status(500).json({ message: "Failed to grant approval", error });
+    }
+  });
+
+  // Who approved what, and why
+  app.get("/api/approvals", isAuthenticated, requirePermission("approvals", "read"), async (req, res) => {
+    try {
+      const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
+      if (storeId !== undefined && (isNaN(storeId) || storeId <= 0)) {
+        return res.status(400).json({ message: "Invalid store ID" });
+      }
+
+      const approvals = await storage.getApprovals({
+        storeId,
+        storeIds: storeId ? undefined : await listableStoreIds(req.user!),
+      });
+      // Tokens are bearer credentials until used; the log does not need them
+      res.json(approvals.map(({ token, ...approval }) => approval));
+    } catch (error) {
+      console.error("Error fetching approvals:", error);
+      res.status(500).json({ message: "Failed to fetch approvals" });
+    }
+  });
+
+  app.patch("/api/users/:userId/approval-credentials", isAuthenticated, requirePermission("users", "update"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId) || userId <= 0) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const parsed = approvalCredentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid approval credentials",
+          errors: parsed.error.errors,
+        });
+      }
+
+      const { pin, badgeCode } = parsed.data;
+      const credentials: { approvalPin?: string | null; badgeCode?: string | null } = {};
+      if (pin !== undefined) {
+        const bcrypt = await import("bcryptjs");
+        credentials.approvalPin = pin === null ? null : await bcrypt.default.hash(pin, 10);
+      }
+      if (badgeCode !== undefined) {
+        credentials.badgeCode = badgeCode || null;
+        if (credentials.badgeCode) {
+          const holder = await storage.getUserByBadgeCode(credentials.badgeCode);
+          if (holder && holder.id !== userId) {
+            return res.status(409).json({ message: "That badge is already assigned to another user" });
+          }
+        }
+      }
+
+      const user = await storage.setApprovalCredentials(userId, credentials);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json({ id: user.id, hasApprovalPin: !!user.approvalPin, badgeCode: user.badgeCode });
+    } catch (error) {
+      console.error("Error updating approval credentials:", error);
+      res.status(500).json({ message: "Failed to update approval credentials" });
+    }
+  });
+}
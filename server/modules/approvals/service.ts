@@ -0,0 +1,180 @@
+import { canAccessStore, hasPermission } from "@shared/permissions";
+import { approvalNeeded, readApprovalPolicy, type ApprovalPolicy } from "@shared/approvals";
+import type { Approval, User } from "@shared/schema";
+import { storage } from "../../storage";
+import type { ReturnAuthorizer } from "../returns/storage";
+import type { VoidAuthorizer } from "../transactions/storage";
+import {
+  APPROVAL_LOCKOUT_MS,
+  APPROVAL_TOKEN_TTL_MS,
+  approvalsLocked,
+  saleApprovalDemands,
+  type ApprovalDemand,
+  type ApprovalRejection,
+  type GrantApprovalInput,
+} from "./approvals";
+import type { ApprovalExecutor } from "./storage";
+
+type Requester = Pick<Express.User, "id" | "role">;
+
+export type GrantApprovalResult =
+  | { success: true; approval: Approval; approver: { id: number; username: string } }
+  | { success: false; message: string; code: GrantRefusalCode };
+
+type GrantRefusalCode = "INVALID_CREDENTIALS" | "NOT_AUTHORIZED" | "SELF_APPROVAL" | "LOCKED_OUT" | "STORE_NOT_FOUND";
+
+async function findApprover(input: GrantApprovalInput): Promise<{ approver?: User; method: "pin" | "badge" }> {
+  if (input.badgeCode) {
+    return { approver: await storage.getUserByBadgeCode(input.badgeCode), method: "badge" };
+  }
+
+  const approver = await storage.getUserByUsername(input.username!);
+  if (!approver?.approvalPin) return { method: "pin" };
+
+  const bcrypt = await import("bcryptjs");
+  const valid = await bcrypt.default.compare(input.pin!, approver.approvalPin);
+  return { approver: valid ? approver : undefined, method: "pin" };
+}
+
+/**
+ * Verifies a manager's PIN or badge at the till and issues a single-use,
+ * short-lived token for the cashier's next request. Every grant is logged,
+ * every refusal audited, and too many refusals lock approvals for a while.
+ */
+export async function grantApproval(requester: Requester, input: GrantApprovalInput): Promise<GrantApprovalResult> {
+  const store = await storage.getStore(input.storeId);
+  if (!store) {
+    return { success: false, message: "Store not found", code: "STORE_NOT_FOUND" };
+  }
+
+  const named = input.badgeCode ? null : input.username!;
+  const refuse = async (code: GrantRefusalCode, message: string): Promise<GrantApprovalResult> => {
+    await storage.recordFailedApproval({
+      storeId: store.id,
+      approver: named,
+      action: input.action,
+      method: input.badgeCode ? "badge" : "pin",
+      code,
+      reason: input.reason,
+    });
+    return { success: false, message, code };
+  };
+
+  // Checked before the PIN so a locked-out guess learns nothing, right or wrong
+  const failures = await storage.countFailedApprovals(
+    { approver: named, requestedBy: requester.id },
+    new Date(Date.now() - APPROVAL_LOCKOUT_MS),
+  );
+  if (approvalsLocked(failures)) {
+    return refuse("LOCKED_OUT", `Too many failed approval attempts; try again in ${APPROVAL_LOCKOUT_MS / 60000} minutes`);
+  }
+
+  const { approver, method } = await findApprover(input);
+  if (!approver || approver.isActive === false) {
+    return refuse("INVALID_CREDENTIALS", method === "badge" ? "Badge not recognised" : "Invalid username or PIN");
+  }
+  if (approver.id === requester.id) {
+    return refuse("SELF_APPROVAL", "You cannot approve your own request");
+  }
+
+  const assignments = await storage.getUserStoreAssignments(approver.id);
+  if (!hasPermission(approver.role, "approvals", "grant") || !canAccessStore(approver, store, assignments)) {
+    return refuse("NOT_AUTHORIZED", `${approver.username} cannot approve this in ${store.name}`);
+  }
+
+  const approval = await storage.createApproval({
+    action: input.action,
+    storeId: store.id,
+    transactionId: input.transactionId ?? null,
+    amount: input.amount === null || input.amount === undefined ? null : input.amount.toFixed(2),
+    reason: input.reason,
+    method,
+    requestedBy: requester.id,
+    approvedBy: approver.id,
+    expiresAt: new Date(Date.now() + APPROVAL_TOKEN_TTL_MS),
+  });
+
+  return { success: true, approval, approver: { id: approver.id, username: approver.username } };
+}
+
+/**
+ * Consumes approvals covering `demands`, or says which one is missing.
+ * Users who may grant approvals themselves are never asked for one.
+ */
+export async function enforceApprovals(
+  user: Requester,
+  storeId: number,
+  demands: ApprovalDemand[],
+  tokens: string[],
+  executor?: ApprovalExecutor,
+): Promise<ApprovalRejection | null> {
+  if (demands.length === 0 || hasPermission(user.role, "approvals", "grant")) return null;
+  return storage.redeemApprovals(demands, tokens, { storeId, userId: user.id, now: new Date() }, executor);
+}
+
+export async function getStoreApprovalPolicy(storeId: number): Promise<ApprovalPolicy> {
+  const store = await storage.getStore(storeId);
+  return readApprovalPolicy(store?.settings);
+}
+
+/** Builds the createReturn hook that asks for approval once the refund total is known. */
+export function refundAuthorizer(user: Requester, tokens: string[]): ReturnAuthorizer {
+  return async (refund, tx) => {
+    const policy = await getStoreApprovalPolicy(refund.storeId);
+    if (!approvalNeeded(policy, "refund", refund.totalRefund)) return null;
+    const rejection = await enforceApprovals(
+      user,
+      refund.storeId,
+      [{ action: "refund", amount: refund.totalRefund, transactionId: refund.transactionId }],
+      tokens,
+      tx,
+    );
+    if (!rejection) return null;
+    const { message, code, ...details } = rejection;
+    return { message, code, details };
+  };
+}
+
+/** Builds the voidTransaction hook that uses up the void's approval once the sale is locked and checked. */
+export function voidAuthorizer(user: Requester, tokens: string[]): VoidAuthorizer {
+  return async (sale, tx) => {
+    const policy = await getStoreApprovalPolicy(sale.storeId);
+    if (!approvalNeeded(policy, "void", sale.total)) return null;
+    const rejection = await enforceApprovals(
+      user,
+      sale.storeId,
+      [{ action: "void", amount: sale.total, transactionId: sale.transactionId }],
+      tokens,
+      tx,
+    );
+    if (!rejection) return null;
+    const { message, code, ...details } = rejection;
+    return { message, code, details };
+  };
+}
+
+/** Checks a checkout's manual discount and below-price lines against the store policy. */
+export async function enforceSaleApprovals(
+  user: Requester,
+  storeId: number,
+  sale: Parameters<typeof saleApprovalDemands>[1],
+  tokens: string[],
+): Promise<ApprovalRejection | null> {
+  if (hasPermission(user.role, "approvals", "grant")) return null;
+
+  const policy = await getStoreApprovalPolicy(storeId);
+  const items = Array.isArray(sale.items) ? (sale.items as Array<{ productId?: unknown }>) : [];
+  const productIds = Array.from(
+    new Set(items.map((item) => Number(item.productId)).filter((id) => Number.isInteger(id) && id > 0)),
+  );
+
+  const catalogPrices = new Map<number, number>();
+  if (policy.priceOverrideRequiresApproval) {
+    for (const productId of productIds) {
+      const price = await storage.getStoreSpecificPrice(storeId, productId);
+      if (price !== undefined) catalogPrices.set(productId, parseFloat(price));
+    }
+  }
+
+  return enforceApprovals(user, storeId, saleApprovalDemands(policy, sale, catalogPrices), tokens);
+}
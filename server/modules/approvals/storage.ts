@@ -0,0 +1,184 @@
+import { randomBytes } from "crypto";
+import { and, count, desc, eq, gte, inArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+import { approvals, auditLogs, users, type Approval, type InsertApproval, type User } from "@shared/schema";
+
+import { db } from "../../db";
+import * as auditStorage from "../audit/storage";
+import { approvalRequired, checkApproval, type ApprovalDemand, type ApprovalRejection } from "./approvals";
+
+export type ApprovalExecutor = Pick<typeof db, "select" | "update">;
+
+export type ApprovalLogEntry = Approval & {
+  requestedByName: string | null;
+  approvedByName: string | null;
+};
+
+// Rolls back tokens consumed for a request that still lacks another approval
+class MissingApproval extends Error {
+  constructor(readonly rejection: ApprovalRejection) {
+    super(rejection.message);
+  }
+}
+
+export async function getUserByBadgeCode(badgeCode: string): Promise<User | undefined> {
+  const [user] = await db.select().from(users).where(eq(users.badgeCode, badgeCode));
+  return user;
+}
+
+export async function setApprovalCredentials(
+  userId: number,
+  credentials: { approvalPin?: string | null; badgeCode?: string | null },
+): Promise<User | undefined> {
+  const [user] = await db
+    .update(users)
+    .set({ ...credentials, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning();
+  return user;
+}
+
+export async function createApproval(data: Omit<InsertApproval, "token">): Promise<Approval> {
+  const [approval] = await db
+    .insert(approvals)
+    .values({ ...data, token: randomBytes(24).toString("hex") })
+    .returning();
+  return approval;
+}
+
+/** A manager approval that was refused, audited under the cashier who asked for it. */
+export interface FailedApproval {
+  storeId: number;
+  // The username typed, or null for a badge
+  approver: string | null;
+  action: string;
+  method: "pin" | "badge";
+  code: string;
+  reason: string;
+}
+
+export async function recordFailedApproval(attempt: FailedApproval): Promise<void> {
+  await auditStorage.recordAudit({
+    entityType: "approval",
+    entityId: attempt.approver ?? "badge",
+    action: "deny",
+    storeId: attempt.storeId,
+    after: { action: attempt.action, method: attempt.method, code: attempt.code },
+    reason: attempt.reason,
+  });
+}
+
+/** Refused approvals since `since` against the manager named and asked for by the cashier. */
+export async function countFailedApprovals(
+  attempt: { approver: string | null; requestedBy: number },
+  since: Date,
+): Promise<{ approver: number; requester: number }> {
+  const refused = and(eq(auditLogs.entityType, "approval"), eq(auditLogs.action, "deny"), gte(auditLogs.createdAt, since));
+
+  const [byRequester] = await db
+    .select({ attempts: count() })
+    .from(auditLogs)
+    .where(and(refused, eq(auditLogs.actorId, attempt.requestedBy)));
+  if (!attempt.approver) return { approver: 0, requester: byRequester.attempts };
+
+  const [byApprover] = await db
+    .select({ attempts: count() })
+    .from(auditLogs)
+    .where(and(refused, eq(auditLogs.entityId, attempt.approver)));
+  return { approver: byApprover.attempts, requester: byRequester.attempts };
+}
+
+async function redeem(
+  executor: ApprovalExecutor,
+  demands: ApprovalDemand[],
+  tokens: string[],
+  context: { storeId: number; userId: number; now: Date },
+): Promise<ApprovalRejection | null> {
+  const available = new Set(tokens);
+
+  for (const demand of demands) {
+    let failure;
+    let redeemed = false;
+
+    for (const token of Array.from(available)) {
+      const [approval] = await executor
+        .select()
+        .from(approvals)
+        .where(eq(approvals.token, token))
+        .for("update");
+      const problem = checkApproval(approval, demand, context);
+      if (problem) {
+        // Tokens for other actions are expected when a sale needs several approvals
+        if (problem.code !== "WRONG_ACTION") failure = problem;
+        continue;
+      }
+
+      await executor
+        .update(approvals)
+        .set({ usedAt: context.now, transactionId: approval.transactionId ?? demand.transactionId ?? null })
+        .where(eq(approvals.id, approval.id));
+      available.delete(token);
+      redeemed = true;
+      break;
+    }
+
+    if (!redeemed) return approvalRequired(demand, failure);
+  }
+
+  return null;
+}
+
+/**
+ * Uses up one approval per demand. Inside a caller's transaction the caller
+ * decides what a rejection rolls back; otherwise nothing is consumed unless
+ * every demand is covered.
+ */
+export async function redeemApprovals(
+  demands: ApprovalDemand[],
+  tokens: string[],
+  context: { storeId: number; userId: number; now: Date },
+  executor?: ApprovalExecutor,
+): Promise<ApprovalRejection | null> {
+  if (demands.length === 0) return null;
+  if (executor) return redeem(executor, demands, tokens, context);
+
+  try {
+    return await db.transaction(async (tx) => {
+      const rejection = await redeem(tx, demands, tokens, context);
+      if (rejection) throw new MissingApproval(rejection);
+      return null;
+    });
+  } catch (error) {
+    if (error instanceof MissingApproval) return error.rejection;
+    throw error;
+  }
+}
+
+// A list of stores narrows the log to those stores (none of them: no rows)
+export async function getApprovals(
+  filters: { storeId?: number; storeIds?: number[]; limit?: number } = {},
+): Promise<ApprovalLogEntry[]> {
+  const requester = alias(users, "requester");
+  const approver = alias(users, "approver");
+
+  const rows = await db
+    .select({ approval: approvals, requestedByName: requester.username, approvedByName: approver.username })
+    .from(approvals)
+    .leftJoin(requester, eq(approvals.requestedBy, requester.id))
+    .leftJoin(approver, eq(approvals.approvedBy, approver.id))
+    .where(
+      and(
+        filters.storeId ? eq(approvals.storeId, filters.storeId) : undefined,
+        filters.storeIds ? inArray(approvals.storeId, filters.storeIds) : undefined,
+      ),
+    )
+    .orderBy(desc(approvals.createdAt))
+    .limit(filters.limit ?? 200);
+
+  return rows.map((row) => ({
+    ...row.approval,
+    requestedByName: row.requestedByName,
+    approvedByName: row.approvedByName,
+  }));
+}
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from "@shared/schema";
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEntryRow {
+  id: number;
+  createdAt: Date | string;
+  actorId: number | null;
+  actorName: string | null;
+  storeId: number | null;
+  entityType: string;
+  entityId: string;
+  action: string;
+  changes: unknown;
+  reason: string | null;
+  requestId: string | null;
+}
+
+// Bookkeeping columns every update touches; they say nothing about what changed
+const IGNORED_FIELDS = new Set(["updatedAt", "lastUpdated"]);
+
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-by-field difference between two versions of a record. A missing
+ * `before` describes a creation and a missing `after` a deletion, so every
+ * field of the other side is reported.
+ */
+export function diffRecords(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = normalize(before?.[field]);
+    const to = normalize(after?.[field]);
+    if (!same(from, to)) changes[field] = { from, to };
+  }
+
+  return changes;
+}
+
+export const auditLogQuerySchema = z.object({
+  storeId: z.coerce.number().int().positive().optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+const AUDIT_CSV_COLUMNS = [
+  "id", "createdAt", "actorId", "actorName", "storeId", "entityType", "entityId", "action", "reason", "requestId", "changes",
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from evaluating cells as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditLogsToCsv(rows: AuditEntryRow[]): string {
+  const lines = [AUDIT_CSV_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(AUDIT_CSV_COLUMNS.map((column) => csvCell(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,51 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../../storage";
+import { isAuthenticated } from "../../auth";
+import { requirePermission } from "../shared/authorization";
+import { auditLogQuerySchema, auditLogsToCsv } from "./audit";
+
+// The most rows a single CSV export may contain
+const AUDIT_EXPORT_LIMIT = 10000;
+
+function parseAuditQuery(req: Request, res: Response) {
+  const parsed = auditLogQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({
+      message: parsed.error.errors[0]?.message || "Invalid audit log filters",
+      errors: parsed.error.errors,
+    });
+    return null;
+  }
+  return parsed.data;
+}
+
+export function registerAuditRoutes(app: Express) {
+  app.get("/api/audit-logs", isAuthenticated, requirePermission("audit", "read"), async (req, res) => {
+    try {
+      const filters = parseAuditQuery(req, res);
+      if (!filters) return;
+
+      res.json(await storage.getAuditLogs(filters));
+    } catch (error) {
+      console.error("Error fetching audit logs:", error);
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
+  app.get("/api/audit-logs/export", isAuthenticated, requirePermission("audit", "export"), async (req, res) => {
+    try {
+      const filters = parseAuditQuery(req, res);
+      if (!filters) return;
+
+      // Paging is for the viewer; an export covers everything the filters match
+      const rows = await storage.getAuditLogs({ ...filters, limit: AUDIT_EXPORT_LIMIT, offset: 0 });
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${stamp}.csv"`);
+      res.send(auditLogsToCsv(rows));
+    } catch (error) {
+      console.error("Error exporting audit logs:", error);
+      res.status(500).json({ message: "Failed to export audit logs" });
+    }
+  });
+}
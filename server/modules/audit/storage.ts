@@ -0,0 +1,67 @@
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+
+import { auditLogs, users, type AuditAction, type AuditEntityType } from "@shared/schema";
+
+import { db } from "../../db";
+import { getRequestContext } from "../shared/request-context";
+import { diffRecords, type AuditEntryRow, type AuditLogQuery } from "./audit";
+
+export interface AuditEvent {
+  entityType: AuditEntityType;
+  entityId: string | number;
+  action: AuditAction;
+  storeId?: number | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  // Overrides the reason sent with the request
+  reason?: string | null;
+}
+
+// Writes audit entries: the transaction the change is made in, or db for standalone entries
+export type AuditExecutor = Pick<typeof db, "insert">;
+
+/**
+ * Appends an audit entry attributed to the current request. Updates that
+ * change nothing are skipped. Pass the transaction the change is made in, so
+ * a change is never kept without its entry: a failed write throws and rolls
+ * the change back.
+ */
+export async function recordAudit(event: AuditEvent, executor: AuditExecutor = db): Promise<void> {
+  const changes = diffRecords(event.before, event.after);
+  if (event.action === "update" && Object.keys(changes).length === 0) return;
+
+  const context = getRequestContext();
+  await executor.insert(auditLogs).values({
+    actorId: context?.actorId ?? null,
+    storeId: event.storeId ?? null,
+    entityType: event.entityType,
+    entityId: String(event.entityId),
+    action: event.action,
+    changes,
+    reason: event.reason ?? context?.reason ?? null,
+    requestId: context?.requestId ?? null,
+  });
+}
+
+export async function getAuditLogs(filters: Partial<AuditLogQuery> = {}): Promise<AuditEntryRow[]> {
+  const rows = await db
+    .select({ entry: auditLogs, actorName: users.username })
+    .from(auditLogs)
+    .leftJoin(users, eq(auditLogs.actorId, users.id))
+    .where(
+      and(
+        filters.storeId ? eq(auditLogs.storeId, filters.storeId) : undefined,
+        filters.actorId ? eq(auditLogs.actorId, filters.actorId) : undefined,
+        filters.entityType ? eq(auditLogs.entityType, filters.entityType) : undefined,
+        filters.entityId ? eq(auditLogs.entityId, filters.entityId) : undefined,
+        filters.action ? eq(auditLogs.action, filters.action) : undefined,
+        filters.from ? gte(auditLogs.createdAt, filters.from) : undefined,
+        filters.to ? lte(auditLogs.createdAt, filters.to) : undefined,
+      ),
+    )
+    .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+    .limit(filters.limit ?? 100)
+    .offset(filters.offset ?? 0);
+
+  return rows.map((row) => ({ ...row.entry, actorName: row.actorName }));
+}
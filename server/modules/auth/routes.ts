@@ -1,9 +1,10 @@
 import type { Express } from "express";
 import passport from "passport";
 import { storage } from "../../storage";
+import { publicRoute } from "../shared/authorization";
 
 export function registerAuthRoutes(app: Express) {
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", publicRoute, (req, res, next) => {
     passport.authenticate("local", (err: any, user: any, info: any) => {
       if (err) {
         return res.status(500).json({ message: "Authentication error" });
@@ -29,7 +30,7 @@ export function registerAuthRoutes(app: Express) {
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res) => {
+  app.post("/api/logout", publicRoute, (req, res) => {
     console.log("Logout request received");
 
     req.logout((logoutErr) => {
@@ -58,7 +59,7 @@ export function registerAuthRoutes(app: Express) {
     });
   });
 
-  app.get("/api/auth/user", async (req, res) => {
+  app.get("/api/auth/user", publicRoute, async (req, res) => {
     if (!req.isAuthenticated() || !req.user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
@@ -85,7 +86,7 @@ export function registerAuthRoutes(app: Express) {
     }
   });
 
-  app.post("/api/auth/refresh", (req, res) => {
+  app.post("/api/auth/refresh", publicRoute, (req, res) => {
     if (!req.isAuthenticated() || !req.user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
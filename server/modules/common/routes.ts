@@ -1,12 +1,12 @@
 import type { Express } from "express";
 import { storage } from "../../storage";
-import { insertStoreSchema, insertStoreProductSchema, USER_ROLES } from "@shared/schema";
+import { insertStoreSchema, insertStoreProductSchema } from "@shared/schema";
 import { isAuthenticated } from "../../auth";
-import { requireRole } from "../shared/authorization";
+import { requirePermission, storeItself } from "../shared/authorization";
 
 export function registerCommonRoutes(app: Express) {
   // Store Management Routes
-  app.get("/api/stores", isAuthenticated, async (_req, res) => {
+  app.get("/api/stores", isAuthenticated, requirePermission("stores", "read"), async (_req, res) => {
     try {
       const stores = await storage.getStores();
       res.json(stores);
@@ -16,7 +16,7 @@ export function registerCommonRoutes(app: Express) {
     }
   });
 
-  app.get("/api/stores/active", isAuthenticated, async (req, res) => {
+  app.get("/api/stores/active", isAuthenticated, requirePermission("stores", "read"), async (req, res) => {
     try {
       const user = req.user as any;
       console.log('[Stores API] Fetching active stores for user:', user?.id, 'role:', user?.role);
@@ -33,7 +33,7 @@ export function registerCommonRoutes(app: Express) {
     }
   });
 
-  app.get("/api/stores/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/stores/:id", isAuthenticated, requirePermission("stores", "read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id) || id <= 0) {
@@ -50,7 +50,7 @@ export function registerCommonRoutes(app: Express) {
     }
   });
 
-  app.post("/api/stores", isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.post("/api/stores", isAuthenticated, requirePermission("stores", "create"), async (req, res) => {
     try {
       console.log('Creating store with data:', req.body);
       
@@ -94,7 +94,7 @@ export function registerCommonRoutes(app: Express) {
     }
   });
 
-  app.put("/api/stores/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.put("/api/stores/:id", isAuthenticated, requirePermission("stores", "update", { storeOf: storeItself }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id) || id <= 0) {
@@ -155,7 +155,7 @@ export function registerCommonRoutes(app: Express) {
   });
 
   // Store Products Routes (Store-specific pricing)
-  app.get("/api/stores/:storeId/products", isAuthenticated, async (req, res) => {
+  app.get("/api/stores/:storeId/products", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       if (isNaN(storeId) || storeId <= 0) {
@@ -169,7 +169,7 @@ export function registerCommonRoutes(app: Express) {
     }
   });
 
-  app.get("/api/stores/:storeId/store-products", isAuthenticated, async (req, res) => {
+  app.get("/api/stores/:storeId/store-products", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       if (isNaN(storeId) || storeId <= 0) {
@@ -183,7 +183,7 @@ export function registerCommonRoutes(app: Express) {
     }
   });
 
-  app.get("/api/stores/:storeId/products/:productId/price", isAuthenticated, async (req, res) => {
+  app.get("/api/stores/:storeId/products/:productId/price", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       const productId = parseInt(req.params.productId);
@@ -201,7 +201,7 @@ export function registerCommonRoutes(app: Express) {
   app.post(
     "/api/stores/:storeId/store-products",
     isAuthenticated,
-    requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]),
+    requirePermission("products", "price"),
     async (req, res) => {
       try {
         const storeId = parseInt(req.params.storeId);
@@ -221,7 +221,7 @@ export function registerCommonRoutes(app: Express) {
   app.put(
     "/api/stores/:storeId/store-products/:productId",
     isAuthenticated,
-    requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]),
+    requirePermission("products", "price"),
     async (req, res) => {
       try {
         const storeId = parseInt(req.params.storeId);
@@ -31,16 +31,32 @@ import {
   scrapeEcommercePortal,
   scrapeProductListingPage,
 } from "../../services/ecommerce-scraper";
+import { requirePermission } from "../shared/authorization";
+import { storage } from "../../storage";
+import { normaliseIdentifierCode } from "../inventory/identifiers";
 
 const router = Router();
 
+// A competitor SKU confirmed against one of our products is matched by code from then on
+async function rememberCompetitorSku(competitorId: number, productId: number, sku: string | null | undefined, createdBy?: number) {
+  const code = sku ? normaliseIdentifierCode("competitor_sku", sku) : "";
+  if (!code) return;
+  try {
+    await storage.rememberProductIdentifiers([
+      { productId, type: "competitor_sku", code, supplierId: null, competitorId, createdBy: createdBy ?? null },
+    ]);
+  } catch (error) {
+    console.error("Error remembering competitor SKU:", error);
+  }
+}
+
 // ==================== COMPETITOR ROUTES ====================
 
 /**
  * GET /api/competitors
  * Get all competitors
  */
-router.get("/", async (req, res) => {
+router.get("/", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const activeOnly = req.query.activeOnly === "true";
     const competitors = await getAllCompetitors(activeOnly);
@@ -58,7 +74,7 @@ router.get("/", async (req, res) => {
  * GET /api/competitors/search?q=query
  * Search competitors
  */
-router.get("/search", async (req, res) => {
+router.get("/search", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const query = req.query.q as string;
     
@@ -81,7 +97,7 @@ router.get("/search", async (req, res) => {
  * GET /api/competitors/:id
  * Get competitor by ID
  */
-router.get("/:id", async (req, res) => {
+router.get("/:id", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     
@@ -109,7 +125,7 @@ router.get("/:id", async (req, res) => {
  * GET /api/competitors/:id/stats
  * Get competitor statistics
  */
-router.get("/:id/stats", async (req, res) => {
+router.get("/:id/stats", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     
@@ -132,7 +148,7 @@ router.get("/:id/stats", async (req, res) => {
  * POST /api/competitors
  * Create a new competitor
  */
-router.post("/", async (req, res) => {
+router.post("/", requirePermission("competitors", "create"), async (req, res) => {
   try {
     const validatedData = insertCompetitorSchema.parse(req.body);
     const newCompetitor = await createCompetitor(validatedData);
@@ -158,7 +174,7 @@ router.post("/", async (req, res) => {
  * PUT /api/competitors/:id
  * Update competitor
  */
-router.put("/:id", async (req, res) => {
+router.put("/:id", requirePermission("competitors", "update"), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     
@@ -186,7 +202,7 @@ router.put("/:id", async (req, res) => {
  * DELETE /api/competitors/:id
  * Soft delete competitor
  */
-router.delete("/:id", async (req, res) => {
+router.delete("/:id", requirePermission("competitors", "delete"), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     const hard = req.query.hard === "true";
@@ -222,7 +238,7 @@ router.delete("/:id", async (req, res) => {
  * GET /api/competitors/:id/prices
  * Get all prices for a competitor
  */
-router.get("/:id/prices", async (req, res) => {
+router.get("/:id/prices", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     const activeOnly = req.query.activeOnly !== "false";
@@ -246,7 +262,7 @@ router.get("/:id/prices", async (req, res) => {
  * GET /api/competitors/prices/product/:productId
  * Get competitor prices for a specific product
  */
-router.get("/prices/product/:productId", async (req, res) => {
+router.get("/prices/product/:productId", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const productId = parseInt(req.params.productId);
     const activeOnly = req.query.activeOnly !== "false";
@@ -270,7 +286,7 @@ router.get("/prices/product/:productId", async (req, res) => {
  * GET /api/competitors/prices/comparison/:productId
  * Get price comparison for a product
  */
-router.get("/prices/comparison/:productId", async (req, res) => {
+router.get("/prices/comparison/:productId", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const productId = parseInt(req.params.productId);
     
@@ -298,10 +314,11 @@ router.get("/prices/comparison/:productId", async (req, res) => {
  * POST /api/competitors/prices
  * Add a new competitor price
  */
-router.post("/prices", async (req, res) => {
+router.post("/prices", requirePermission("competitors", "create"), async (req, res) => {
   try {
     const validatedData = insertCompetitorPriceSchema.parse(req.body);
     const newPrice = await createCompetitorPrice(validatedData);
+    await rememberCompetitorSku(newPrice.competitorId, newPrice.productId, newPrice.productSku, req.user?.id);
     res.status(201).json(newPrice);
   } catch (error: any) {
     console.error("Error creating competitor price:", error);
@@ -324,7 +341,7 @@ router.post("/prices", async (req, res) => {
  * POST /api/competitors/prices/bulk
  * Bulk import competitor prices
  */
-router.post("/prices/bulk", async (req, res) => {
+router.post("/prices/bulk", requirePermission("competitors", "create"), async (req, res) => {
   try {
     const { prices } = req.body;
     
@@ -365,7 +382,7 @@ router.post("/prices/bulk", async (req, res) => {
  * PUT /api/competitors/prices/:id
  * Update competitor price
  */
-router.put("/prices/:id", async (req, res) => {
+router.put("/prices/:id", requirePermission("competitors", "update"), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     
@@ -393,7 +410,7 @@ router.put("/prices/:id", async (req, res) => {
  * DELETE /api/competitors/prices/:id
  * Delete competitor price
  */
-router.delete("/prices/:id", async (req, res) => {
+router.delete("/prices/:id", requirePermission("competitors", "delete"), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     const hard = req.query.hard === "true";
@@ -429,9 +446,9 @@ router.delete("/prices/:id", async (req, res) => {
  * POST /api/competitors/match-product
  * Match a competitor product to our catalog using AI
  */
-router.post("/match-product", async (req, res) => {
+router.post("/match-product", requirePermission("competitors", "read"), async (req, res) => {
   try {
-    const { competitorProduct } = req.body;
+    const { competitorProduct, competitorId } = req.body;
 
     if (!competitorProduct || !competitorProduct.name) {
       return res.status(400).json({ error: "Competitor product data required" });
@@ -440,8 +457,9 @@ router.post("/match-product", async (req, res) => {
     // Fetch our catalog
     const { getProducts } = await import("../products/storage");
     const ourCatalog = await getProducts();
+    const knownCodes = await storage.getCodeBook({ competitorId: Number(competitorId) > 0 ? Number(competitorId) : null });
 
-    const match = await matchCompetitorProduct(competitorProduct, ourCatalog);
+    const match = await matchCompetitorProduct(competitorProduct, ourCatalog, knownCodes);
 
     if (!match) {
       return res.json({
@@ -475,7 +493,7 @@ router.post("/match-product", async (req, res) => {
  * POST /api/competitors/suggest-matches
  * Get AI suggestions for potential product matches
  */
-router.post("/suggest-matches", async (req, res) => {
+router.post("/suggest-matches", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const { competitorProduct, limit = 5 } = req.body;
 
@@ -513,7 +531,7 @@ router.post("/suggest-matches", async (req, res) => {
  * POST /api/competitors/extract-from-url
  * Extract product info from competitor URL using AI
  */
-router.post("/extract-from-url", async (req, res) => {
+router.post("/extract-from-url", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const { url } = req.body;
 
@@ -547,7 +565,7 @@ router.post("/extract-from-url", async (req, res) => {
  * POST /api/competitors/batch-import
  * Import multiple competitor products and auto-match them
  */
-router.post("/batch-import", async (req, res) => {
+router.post("/batch-import", requirePermission("competitors", "create"), async (req, res) => {
   try {
     const { competitorId, products } = req.body;
 
@@ -560,6 +578,7 @@ router.post("/batch-import", async (req, res) => {
     // Fetch our catalog
     const { getProducts } = await import("../products/storage");
     const ourCatalog = await getProducts();
+    const knownCodes = await storage.getCodeBook({ competitorId: parseInt(competitorId) });
 
     const results = {
       total: products.length,
@@ -576,7 +595,7 @@ router.post("/batch-import", async (req, res) => {
         const quality = analyzeDataQuality(compProduct);
 
         // Try to match
-        const match = await matchCompetitorProduct(compProduct, ourCatalog);
+        const match = await matchCompetitorProduct(compProduct, ourCatalog, knownCodes);
 
         if (match && match.confidence >= 60) {
           // Create competitor price entry
@@ -597,6 +616,9 @@ router.post("/batch-import", async (req, res) => {
           };
 
           await createCompetitorPrice(priceData);
+          if (match.matchedBy !== "ai_analysis") {
+            await rememberCompetitorSku(priceData.competitorId, match.productId, compProduct.sku, req.user?.id);
+          }
 
           results.matched++;
           results.created++;
@@ -641,7 +663,7 @@ router.post("/batch-import", async (req, res) => {
  * POST /api/competitors/analyze-quality
  * Analyze the data quality of competitor product data
  */
-router.post("/analyze-quality", async (req, res) => {
+router.post("/analyze-quality", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const { competitorProduct } = req.body;
 
@@ -665,7 +687,7 @@ router.post("/analyze-quality", async (req, res) => {
  * POST /api/competitors/scrape-portal
  * Scrape all products from an e-commerce portal URL
  */
-router.post("/scrape-portal", async (req, res) => {
+router.post("/scrape-portal", requirePermission("competitors", "read"), async (req, res) => {
   try {
     const { url, maxProducts = 1000 } = req.body;
 
@@ -1,14 +1,14 @@
 import type { Express } from "express";
-import { insertCustomerSchema, USER_ROLES } from "@shared/schema";
+import { insertCustomerSchema } from "@shared/schema";
 import * as XLSX from "xlsx";
 import fs from "fs";
 import { storage } from "../../storage";
 import { isAuthenticated } from "../../auth";
-import { requireRole } from "../shared/authorization";
+import { publicRoute, requirePermission } from "../shared/authorization";
 import { upload, dataFileUpload } from "../shared/upload";
 
 export function registerCustomerRoutes(app: Express) {
-  app.get("/api/customers", async (req, res) => {
+  app.get("/api/customers", isAuthenticated, requirePermission("customers", "read"), async (req, res) => {
     try {
       const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
       
@@ -30,7 +30,7 @@ export function registerCustomerRoutes(app: Express) {
     }
   });
 
-  app.get("/api/customers/search", async (req, res) => {
+  app.get("/api/customers/search", isAuthenticated, requirePermission("customers", "read"), async (req, res) => {
     const query = req.query.q as string;
     if (!query) {
       return res.status(400).json({ message: "Query parameter 'q' is required" });
@@ -39,7 +39,7 @@ export function registerCustomerRoutes(app: Express) {
     res.json(customers);
   });
 
-  app.get("/api/customers/:id", async (req, res) => {
+  app.get("/api/customers/:id", isAuthenticated, requirePermission("customers", "read"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -51,7 +51,7 @@ export function registerCustomerRoutes(app: Express) {
     res.json(customer);
   });
 
-  app.post("/api/customers", async (req, res) => {
+  app.post("/api/customers", isAuthenticated, requirePermission("customers", "create"), async (req, res) => {
     try {
       const customerData = insertCustomerSchema.parse(req.body);
       const customer = await storage.createCustomer(customerData);
@@ -61,7 +61,7 @@ export function registerCustomerRoutes(app: Express) {
     }
   });
 
-  app.put("/api/customers/:id", async (req, res) => {
+  app.put("/api/customers/:id", isAuthenticated, requirePermission("customers", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id) || id <= 0) {
@@ -78,7 +78,7 @@ export function registerCustomerRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/customers/:id", async (req, res) => {
+  app.patch("/api/customers/:id", isAuthenticated, requirePermission("customers", "update"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -95,7 +95,7 @@ export function registerCustomerRoutes(app: Express) {
     }
   });
 
-  app.delete("/api/customers/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.delete("/api/customers/:id", isAuthenticated, requirePermission("customers", "delete"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -112,7 +112,7 @@ export function registerCustomerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/customers/parse-upload", dataFileUpload.single("file"), async (req, res) => {
+  app.post("/api/customers/parse-upload", isAuthenticated, requirePermission("customers", "import"), dataFileUpload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -191,7 +191,7 @@ export function registerCustomerRoutes(app: Express) {
   });
 
   // Customer authentication endpoints
-  app.post("/api/customers/register", async (req, res) => {
+  app.post("/api/customers/register", publicRoute, async (req, res) => {
     try {
       const { name, email, phone, password } = req.body;
       if (!name || !email || !password) {
@@ -223,7 +223,7 @@ export function registerCustomerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/customers/login", async (req, res) => {
+  app.post("/api/customers/login", publicRoute, async (req, res) => {
     try {
       const { email, password } = req.body;
       if (!email || !password) {
@@ -248,7 +248,7 @@ export function registerCustomerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/customers/reset-password", async (req, res) => {
+  app.post("/api/customers/reset-password", publicRoute, async (req, res) => {
     try {
       const { email } = req.body;
       if (!email) {
@@ -269,7 +269,7 @@ export function registerCustomerRoutes(app: Express) {
     }
   });
 
-  app.post("/api/customers/update-password", async (req, res) => {
+  app.post("/api/customers/update-password", publicRoute, async (req, res) => {
     try {
       const { token, newPassword } = req.body;
       if (!token || !newPassword) {
@@ -0,0 +1,254 @@
+import { z } from "zod";
+
+import type { CostingMethod } from "@shared/inventory";
+
+import { toQuantity } from "./ledger";
+import { allocateToLots, isCalendarDate } from "./lots";
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+const round4 = (value: number): number => Math.round((value + Number.EPSILON) * 10000) / 10000;
+
+const reportDateSchema = z.string().refine(isCalendarDate, "Dates must be YYYY-MM-DD");
+
+/** Reads a stored cost; blank or unreadable costs are unknown rather than zero. */
+export function toCost(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const cost = parseFloat(String(value));
+  return Number.isFinite(cost) && cost >= 0 ? round4(cost) : null;
+}
+
+/**
+ * The store's average cost after stock arrives at a known cost. Stock below
+ * zero has no cost to average with, so the new stock sets the price.
+ */
+export function movingAverageCost(onHand: number, averageCost: number | null, quantity: number, unitCost: number): number {
+  const held = Math.max(0, toQuantity(onHand));
+  const total = held + quantity;
+  if (averageCost === null || held === 0 || total <= 0) return round4(unitCost);
+  return round4((held * averageCost + quantity * unitCost) / total);
+}
+
+/** What stock put back is worth: the cost it was taken out at, weighted by quantity. */
+export function restoredUnitCost(takenOut: Array<{ quantity: unknown; unitCost: unknown }>): number | null {
+  let quantity = 0;
+  let value = 0;
+  for (const row of takenOut) {
+    const cost = toCost(row.unitCost);
+    if (cost === null) continue;
+    const taken = Math.abs(toQuantity(row.quantity));
+    quantity += taken;
+    value += taken * cost;
+  }
+  return quantity > 0 ? round4(value / quantity) : null;
+}
+
+export interface CostLayerPool {
+  id: number;
+  available: number;
+  unitCost: number;
+}
+
+export interface CostLayerUse {
+  layerId: number;
+  quantity: number;
+}
+
+/**
+ * Takes a quantity from the oldest layers first. Anything the layers cannot
+ * cover (stock sold below zero) is costed at the fallback, usually the
+ * store's average cost.
+ */
+export function consumeCostLayers(
+  layers: CostLayerPool[],
+  quantity: number,
+  fallbackCost: number | null,
+): { uses: CostLayerUse[]; uncovered: number; unitCost: number | null } {
+  const { allocations, untracked } = allocateToLots(layers, quantity);
+  const costs = new Map(layers.map((layer) => [layer.id, layer.unitCost]));
+
+  let costed = 0;
+  let value = 0;
+  for (const allocation of allocations) {
+    costed += allocation.quantity;
+    value += allocation.quantity * (costs.get(allocation.lotId) ?? 0);
+  }
+  if (untracked > 0 && fallbackCost !== null) {
+    costed += untracked;
+    value += untracked * fallbackCost;
+  }
+
+  return {
+    uses: allocations.map((allocation) => ({ layerId: allocation.lotId, quantity: allocation.quantity })),
+    uncovered: untracked,
+    unitCost: costed > 0 ? round4(value / costed) : fallbackCost,
+  };
+}
+
+export const stockValuationQuerySchema = z.object({
+  // End of this store-local day; today when left out
+  date: reportDateSchema.optional(),
+});
+
+export const salesReportQuerySchema = z
+  .object({
+    date: reportDateSchema.optional(),
+    start_date: reportDateSchema.optional(),
+    end_date: reportDateSchema.optional(),
+    storeId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((query) => !query.start_date || !query.end_date || query.start_date <= query.end_date, {
+    message: "start_date must not be after end_date",
+  });
+
+export type StockValuationQuery = z.infer<typeof stockValuationQuerySchema>;
+export type SalesReportQuery = z.infer<typeof salesReportQuerySchema>;
+
+export interface StockValuationInput {
+  productId: number;
+  productName: string;
+  sku: string | null;
+  category: string | null;
+  quantity: number;
+  averageCost: number | null;
+  // The layers as they stood at the end of the day, with what was left in each
+  layers: Array<{ quantity: number; unitCost: number }>;
+}
+
+export interface StockValuationLine extends Omit<StockValuationInput, "layers"> {
+  averageValue: number;
+  fifoValue: number;
+  value: number;
+}
+
+export interface StockValuation {
+  date: string;
+  method: CostingMethod;
+  lines: StockValuationLine[];
+  totals: { quantity: number; averageValue: number; fifoValue: number; value: number };
+}
+
+/**
+ * Values stock on hand both ways. Stock the layers do not account for (on
+ * hand from before costing started, or below zero) is valued at the average
+ * cost, so the two methods only differ on layered stock.
+ */
+export function valueStock(date: string, method: CostingMethod, inputs: StockValuationInput[]): StockValuation {
+  const lines = inputs
+    .filter((input) => input.quantity !== 0)
+    .map(({ layers, ...input }) => {
+      const averageCost = input.averageCost ?? 0;
+      const layered = layers.reduce((sum, layer) => sum + Math.max(0, layer.quantity), 0);
+      const layeredValue = layers.reduce((sum, layer) => sum + Math.max(0, layer.quantity) * layer.unitCost, 0);
+      const averageValue = round2(input.quantity * averageCost);
+      const fifoValue = input.quantity > 0 && layered > 0
+        ? round2(layeredValue + (input.quantity - layered) * averageCost)
+        : averageValue;
+      return { ...input, averageValue, fifoValue, value: method === "fifo" ? fifoValue : averageValue };
+    });
+
+  const sum = (pick: (line: StockValuationLine) => number) => round2(lines.reduce((total, line) => total + pick(line), 0));
+  return {
+    date,
+    method,
+    lines,
+    totals: {
+      quantity: sum((line) => line.quantity),
+      averageValue: sum((line) => line.averageValue),
+      fifoValue: sum((line) => line.fifoValue),
+      value: sum((line) => line.value),
+    },
+  };
+}
+
+export interface SoldLine {
+  productId: number | null;
+  productName: string;
+  // The product a variant belongs to, for rolling variants up
+  parentId?: number | null;
+  parentName?: string | null;
+  category: string | null;
+  day: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  // Units sold before costing started, costed at today's cost instead
+  estimatedQuantity: number;
+}
+
+export interface MarginRow {
+  key: string;
+  label: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  grossMargin: number;
+  // Share of revenue kept; null with no revenue
+  marginPercent: number | null;
+  estimatedQuantity: number;
+}
+
+export interface MarginReport {
+  totals: MarginRow;
+  byProduct: MarginRow[];
+  // Variants counted under their parent; other products as they are
+  byParent: MarginRow[];
+  byCategory: MarginRow[];
+  byDay: MarginRow[];
+}
+
+const UNCATEGORISED = "Uncategorised";
+
+function marginRows(lines: SoldLine[], keyOf: (line: SoldLine) => [string, string]): MarginRow[] {
+  const rows = new Map<string, MarginRow>();
+  for (const line of lines) {
+    const [key, label] = keyOf(line);
+    const row = rows.get(key) ?? {
+      key,
+      label,
+      quantity: 0,
+      revenue: 0,
+      cost: 0,
+      grossMargin: 0,
+      marginPercent: null,
+      estimatedQuantity: 0,
+    };
+    row.quantity += line.quantity;
+    row.revenue += line.revenue;
+    row.cost += line.cost;
+    row.estimatedQuantity += line.estimatedQuantity;
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values()).map((row) => {
+    const revenue = round2(row.revenue);
+    const cost = round2(row.cost);
+    const grossMargin = round2(revenue - cost);
+    return {
+      ...row,
+      quantity: toQuantity(row.quantity),
+      revenue,
+      cost,
+      grossMargin,
+      marginPercent: revenue !== 0 ? round2((grossMargin / revenue) * 100) : null,
+      estimatedQuantity: toQuantity(row.estimatedQuantity),
+    };
+  });
+}
+
+/** Gross margin of sold lines, overall and by product, parent product, category and day. */
+export function summariseMargins(lines: SoldLine[]): MarginReport {
+  const byRevenue = (a: MarginRow, b: MarginRow) => b.revenue - a.revenue || a.label.localeCompare(b.label);
+  const [totals] = marginRows(lines, () => ["all", "All sales"]);
+
+  return {
+    totals: totals ?? { key: "all", label: "All sales", quantity: 0, revenue: 0, cost: 0, grossMargin: 0, marginPercent: null, estimatedQuantity: 0 },
+    byProduct: marginRows(lines, (line) => [line.productId === null ? "none" : String(line.productId), line.productName]).sort(byRevenue),
+    byParent: marginRows(lines, (line) =>
+      line.parentId
+        ? [String(line.parentId), line.parentName ?? line.productName]
+        : [line.productId === null ? "none" : String(line.productId), line.productName],
+    ).sort(byRevenue),
+    byCategory: marginRows(lines, (line) => [line.category ?? UNCATEGORISED, line.category ?? UNCATEGORISED]).sort(byRevenue),
+    byDay: marginRows(lines, (line) => [line.day, line.day]).sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
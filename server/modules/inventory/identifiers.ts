@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+import { PRODUCT_IDENTIFIER_TYPES, type ProductIdentifierType } from "@shared/schema";
+
+/**
+ * Codes are compared normalised: barcodes without any spaces, item codes and
+ * SKUs trimmed and upper-cased, so "ab 12" on one invoice is "AB 12" on the next.
+ */
+export function normaliseIdentifierCode(type: ProductIdentifierType, code: string): string {
+  return type === "barcode"
+    ? code.replace(/\s+/g, "")
+    : code.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+export const productIdentifierSchema = z
+  .object({
+    type: z.enum(PRODUCT_IDENTIFIER_TYPES),
+    code: z.string().trim().min(1, "Enter a code").max(100),
+    supplierId: z.number().int().positive().nullable().optional(),
+    competitorId: z.number().int().positive().nullable().optional(),
+  })
+  .superRefine((input, ctx) => {
+    if (input.type === "supplier_code" && !input.supplierId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["supplierId"], message: "Choose the supplier the code is from" });
+    }
+    if (input.type === "competitor_sku" && !input.competitorId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["competitorId"], message: "Choose the competitor the SKU is from" });
+    }
+  })
+  .transform((input) => ({
+    type: input.type,
+    code: normaliseIdentifierCode(input.type, input.code),
+    // Only the owner that goes with the type is kept
+    supplierId: input.type === "supplier_code" ? input.supplierId! : null,
+    competitorId: input.type === "competitor_sku" ? input.competitorId! : null,
+  }));
+
+export type ProductIdentifierInput = z.infer<typeof productIdentifierSchema>;
+
+/**
+ * Every code already mapped to a product that a supplier's invoice or a
+ * competitor's listing can be matched by: barcodes, main and extra, and that
+ * supplier's or competitor's own codes. Both map normalised codes to product ids.
+ */
+export interface CodeBook {
+  barcodes: Map<string, number>;
+  codes: Map<string, number>;
+}
+
+export interface CodeMatch {
+  productId: number;
+  matchedBy: "barcode" | "code";
+}
+
+/** The product a line's barcode or the sender's own code maps to; their own code wins. */
+export function lookupCode(book: CodeBook, line: { barcode?: string | null; code?: string | null }): CodeMatch | null {
+  const code = line.code ? normaliseIdentifierCode("supplier_code", line.code) : "";
+  const byCode = code ? book.codes.get(code) : undefined;
+  if (byCode !== undefined) return { productId: byCode, matchedBy: "code" };
+
+  const barcode = line.barcode ? normaliseIdentifierCode("barcode", line.barcode) : "";
+  const byBarcode = barcode ? book.barcodes.get(barcode) : undefined;
+  if (byBarcode !== undefined) return { productId: byBarcode, matchedBy: "barcode" };
+  return null;
+}
+
+// A scanned invoice line, as read off the page
+interface ScannedLine {
+  productName?: string;
+  itemCode?: string | null;
+  sku?: string | null;
+  barcode?: string | null;
+}
+
+/**
+ * Matches scanned invoice lines by codes already mapped to a product, and
+ * hands only the rest to `matchRest` (the AI matcher). Matches come back in
+ * the order of the lines.
+ */
+export async function matchInvoiceLines<L extends ScannedLine, P extends { id: number }>(
+  lines: L[],
+  catalogue: P[],
+  book: CodeBook,
+  matchRest: (lines: L[]) => Promise<any[]>,
+): Promise<any[]> {
+  const byId = new Map(catalogue.map((product) => [product.id, product]));
+  const known = lines.map((line) => {
+    const match = lookupCode(book, { barcode: line.barcode, code: line.itemCode || line.sku });
+    const product = match ? byId.get(match.productId) : undefined;
+    return match && product ? { product, matchedBy: match.matchedBy === "code" ? "supplier_code" : "barcode" } : null;
+  });
+
+  const rest = lines.filter((_, index) => !known[index]);
+  const restMatches = rest.length > 0 ? await matchRest(rest) : [];
+  let next = 0;
+  return lines.map((line, index) => {
+    const match = known[index];
+    if (!match) return restMatches[next++] ?? { invoiceItem: line, matchedProduct: null, matchConfidence: 0, action: "create_new" };
+    return {
+      invoiceItem: line,
+      matchedProduct: match.product,
+      matchConfidence: 1,
+      matchedBy: match.matchedBy,
+      action: "match",
+    };
+  });
+}
+
+/** The codes a saved supplier invoice confirms for its lines' products. */
+export function invoiceLineCodes(
+  lines: Array<{ productId: number | null; itemCode?: string | null; sku?: string | null; barcode?: string | null }>,
+  supplierId: number | null,
+): Array<ProductIdentifierInput & { productId: number }> {
+  return lines.flatMap((line) => {
+    if (!line.productId) return [];
+    const codes: Array<ProductIdentifierInput & { productId: number }> = [];
+    const code = line.itemCode?.trim() || line.sku?.trim();
+    if (supplierId && code) {
+      codes.push({ productId: line.productId, type: "supplier_code", code: normaliseIdentifierCode("supplier_code", code), supplierId, competitorId: null });
+    }
+    const barcode = line.barcode ? normaliseIdentifierCode("barcode", line.barcode) : "";
+    if (barcode) {
+      codes.push({ productId: line.productId, type: "barcode", code: barcode, supplierId: null, competitorId: null });
+    }
+    return codes;
+  });
+}
@@ -0,0 +1,98 @@
+import type { InventoryMovementType } from "@shared/schema";
+
+export interface StockMovementInput {
+  storeId: number;
+  productId: number;
+  movementType: InventoryMovementType;
+  // Signed change: negative takes stock out of the store
+  quantity: number;
+  reason?: string | null;
+  sourceType?: string | null;
+  sourceId?: string | number | null;
+  createdBy?: number | null;
+  // Receiving: what each unit cost, averaged into the store's cost. Falls back to the lot's cost.
+  unitCost?: number | string | null;
+  // Receiving: the lot the stock arrives in. Without a lot number or expiry it stays untracked.
+  lot?: StockLotDetails | null;
+  // Taking out of, or adding to, one lot rather than the first to expire
+  lotId?: number | null;
+  // Putting stock back: the movements it was taken out by, so it goes back into the same lots
+  restoreFrom?: { sourceType: string; sourceId: string | number } | null;
+}
+
+export interface StockLotDetails {
+  lotNumber?: string | null;
+  expiryDate?: string | null;
+  unitCost?: number | string | null;
+}
+
+// What a movement is, without the quantity; used where the quantity is worked out later
+export type StockMovementSource = Omit<StockMovementInput, "storeId" | "productId" | "quantity">;
+
+export interface StockShortage {
+  storeId: number;
+  productId: number;
+  available: number;
+  requested: number;
+}
+
+export interface LedgerDrift {
+  storeId: number;
+  productId: number;
+  cached: number;
+  ledger: number;
+}
+
+// Rolls back the surrounding transaction when a store does not allow negative stock
+export class InsufficientStockError extends Error {
+  constructor(readonly shortage: StockShortage) {
+    super(`Only ${shortage.available} in stock for product ${shortage.productId}`);
+  }
+}
+
+const OUTBOUND: ReadonlySet<InventoryMovementType> = new Set<InventoryMovementType>(["sale", "supplier_return", "transfer_out", "write_off"]);
+const INBOUND: ReadonlySet<InventoryMovementType> = new Set<InventoryMovementType>(["void", "return", "receipt", "transfer_in"]);
+
+// Ledger quantities keep three decimals, the same as sale lines, so goods sold by weight go out to the gram
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export const toQuantity = (value: unknown): number => {
+  const quantity = parseFloat(String(value ?? 0));
+  return Number.isFinite(quantity) ? round(quantity) : 0;
+};
+
+/** Says what is wrong with a movement, or null if it can be applied. */
+export function checkMovement(movement: Pick<StockMovementInput, "movementType" | "quantity">): string | null {
+  const { movementType, quantity } = movement;
+  if (!Number.isFinite(quantity)) return "Quantity must be a number";
+  if (OUTBOUND.has(movementType) && quantity > 0) return `A ${movementType} movement cannot add stock`;
+  if (INBOUND.has(movementType) && quantity < 0) return `A ${movementType} movement cannot remove stock`;
+  return null;
+}
+
+/**
+ * Maps a stock adjustment's type onto the ledger. Receipts and returns to the
+ * supplier keep their meaning; anything else is a manual adjustment.
+ */
+export function adjustmentMovementType(adjustmentType: string, quantityChange: number): InventoryMovementType {
+  if (adjustmentType === "receipt" && quantityChange >= 0) return "receipt";
+  if (adjustmentType === "return" && quantityChange <= 0) return "supplier_return";
+  if (adjustmentType === "write_off" && quantityChange <= 0) return "write_off";
+  return "adjustment";
+}
+
+/** Store products whose cached quantity no longer matches the sum of their movements. */
+export function findLedgerDrift(
+  onHand: Array<{ storeId: number; productId: number; stockQuantity: unknown }>,
+  ledger: Array<{ storeId: number; productId: number; total: unknown }>,
+): LedgerDrift[] {
+  const totals = new Map(ledger.map((row) => [`${row.storeId}:${row.productId}`, toQuantity(row.total)]));
+
+  return onHand.flatMap((row) => {
+    const cached = toQuantity(row.stockQuantity);
+    const expected = totals.get(`${row.storeId}:${row.productId}`) ?? 0;
+    return Math.abs(cached - expected) < 0.0005
+      ? []
+      : [{ storeId: row.storeId, productId: row.productId, cached, ledger: expected }];
+  });
+}
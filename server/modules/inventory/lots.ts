@@ -0,0 +1,247 @@
+import { z } from "zod";
+
+import { toQuantity } from "./ledger";
+
+export const EXPIRY_STATUSES = ["expired", "expiring", "ok", "none"] as const;
+export type ExpiryStatus = typeof EXPIRY_STATUSES[number];
+
+// Days ahead the expiring-soon dashboard looks by default
+export const DEFAULT_EXPIRY_WARNING_DAYS = 7;
+// Days of sales the markdown suggestions base their sell-through on
+export const MARKDOWN_VELOCITY_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const isCalendarDate = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+export const expiryDateSchema = z.string().refine(isCalendarDate, "Expiry date must be a date (YYYY-MM-DD)");
+
+/**
+ * Reads an expiry date off a form or import: blank means no expiry, and
+ * timestamps are cut down to their date.
+ */
+export function parseExpiryDate(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  const text = value instanceof Date ? value.toISOString() : String(value).trim();
+  const date = text.length > 10 && /^\d{4}-\d{2}-\d{2}T/.test(text) ? text.slice(0, 10) : text;
+  if (!isCalendarDate(date)) throw new Error(`Invalid expiry date "${text}"`);
+  return date;
+}
+
+/** Trims a lot number; blank means the delivery had none. */
+export const normaliseLotNumber = (value: unknown): string | null => {
+  const text = value === undefined || value === null ? "" : String(value).trim();
+  return text === "" ? null : text;
+};
+
+export const expiringLotsQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(365).default(DEFAULT_EXPIRY_WARNING_DAYS),
+  // Include lots that have already expired
+  includeExpired: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+  productId: z.coerce.number().int().positive().optional(),
+});
+
+export const writeOffLotSchema = z.object({
+  // Everything left in the lot when left out
+  quantity: z.coerce.number().positive().optional(),
+  reason: z.string().trim().min(1).max(500).default("Expired"),
+});
+
+export const writeOffExpiredSchema = z.object({
+  reason: z.string().trim().min(1).max(500).default("Expired"),
+});
+
+export const lotCountsSchema = z.object({
+  // One count per lot in the breakdown; lotId null is the stock outside any lot
+  counts: z
+    .array(
+      z.object({
+        lotId: z.coerce.number().int().positive().nullable(),
+        countedQuantity: z.coerce.number().min(0),
+      }),
+    )
+    .min(1, "Count at least one lot"),
+  notes: z.string().max(1000).optional(),
+});
+
+export type ExpiringLotsQuery = z.infer<typeof expiringLotsQuerySchema>;
+export type WriteOffLotInput = z.infer<typeof writeOffLotSchema>;
+export type LotCountsInput = z.infer<typeof lotCountsSchema>;
+
+export interface LotPool {
+  id: number;
+  available: number;
+}
+
+export interface LotAllocation {
+  lotId: number;
+  quantity: number;
+}
+
+/** First expired, first out: earliest expiry first, lots without one last, then oldest receipt. */
+export function compareFefo(
+  a: { id: number; expiryDate: string | null; receivedAt: Date | string },
+  b: { id: number; expiryDate: string | null; receivedAt: Date | string },
+): number {
+  if (a.expiryDate !== b.expiryDate) {
+    if (a.expiryDate === null) return 1;
+    if (b.expiryDate === null) return -1;
+    return a.expiryDate < b.expiryDate ? -1 : 1;
+  }
+  const received = new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime();
+  return received !== 0 ? received : a.id - b.id;
+}
+
+/**
+ * Spreads a quantity over lots in the order given. Whatever the lots cannot
+ * cover is left untracked: it comes from (or goes back to) the stock that
+ * was never received into a lot.
+ */
+export function allocateToLots(pools: LotPool[], quantity: number): { allocations: LotAllocation[]; untracked: number } {
+  const allocations: LotAllocation[] = [];
+  let left = toQuantity(quantity);
+  for (const pool of pools) {
+    if (left <= 0) break;
+    const take = Math.min(left, toQuantity(pool.available));
+    if (take <= 0) continue;
+    allocations.push({ lotId: pool.id, quantity: take });
+    left = toQuantity(left - take);
+  }
+  return { allocations, untracked: Math.max(0, left) };
+}
+
+/** Whole days from `today` until the lot expires; negative once it has. */
+export function daysUntilExpiry(expiryDate: string, today: string): number {
+  return Math.round((Date.parse(`${expiryDate}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+}
+
+/** The YYYY-MM-DD date `days` after `day`. */
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** A lot can still be sold on its expiry date and is expired from the day after. */
+export function expiryStatus(expiryDate: string | null, today: string, warningDays = DEFAULT_EXPIRY_WARNING_DAYS): ExpiryStatus {
+  if (!expiryDate) return "none";
+  const daysLeft = daysUntilExpiry(expiryDate, today);
+  if (daysLeft < 0) return "expired";
+  return daysLeft <= warningDays ? "expiring" : "ok";
+}
+
+export type MarkdownSuggestion =
+  | { action: "write_off"; reason: string }
+  | { action: "markdown"; discountPercent: number; suggestedPrice: number; unsoldAtCurrentRate: number };
+
+/**
+ * What to do with a lot that will not sell through before it expires.
+ * Expired lots are written off. Otherwise, if the product's recent sales
+ * rate would not clear the lot by its expiry date, the discount deepens as
+ * the date gets closer. Lots that will sell anyway get no suggestion.
+ */
+export function suggestMarkdown(lot: {
+  quantityRemaining: number;
+  daysLeft: number;
+  price: number;
+  dailySales: number;
+}): MarkdownSuggestion | null {
+  if (lot.quantityRemaining <= 0) return null;
+  if (lot.daysLeft < 0) return { action: "write_off", reason: "Expired" };
+
+  // The expiry date itself is still a selling day
+  const projected = Math.max(0, lot.dailySales) * (lot.daysLeft + 1);
+  const unsold = round2(lot.quantityRemaining - projected);
+  if (unsold <= 0) return null;
+
+  const discountPercent = lot.daysLeft <= 1 ? 50 : lot.daysLeft <= 3 ? 30 : lot.daysLeft <= 7 ? 20 : 10;
+  return {
+    action: "markdown",
+    discountPercent,
+    suggestedPrice: round2(lot.price * (1 - discountPercent / 100)),
+    unsoldAtCurrentRate: unsold,
+  };
+}
+
+export interface LotDayActivity {
+  lotId: number | null;
+  lotNumber: string | null;
+  expiryDate: string | null;
+  opening: number;
+  received: number;
+  sold: number;
+  // Everything else that day: write-offs, transfers, returns, adjustments
+  other: number;
+}
+
+export interface LotVarianceLine extends LotDayActivity {
+  systemClosing: number;
+  counted: number | null;
+  variance: number | null;
+  varianceValue: number | null;
+}
+
+/**
+ * Breaks a monitored product's day down by lot. The lots come from their
+ * own movements; the rest of the system closing stock is shown as stock
+ * outside any lot so the lines add up to the product's figure.
+ */
+export function lotVarianceBreakdown(
+  lots: LotDayActivity[],
+  systemClosingStock: number,
+  counts: Map<number | null, number>,
+  unitCost: number,
+): { lines: LotVarianceLine[]; totals: { systemClosing: number; counted: number | null; variance: number | null; varianceValue: number | null } } {
+  const line = (activity: LotDayActivity, systemClosing: number): LotVarianceLine => {
+    const counted = counts.has(activity.lotId) ? toQuantity(counts.get(activity.lotId)) : null;
+    const variance = counted === null ? null : toQuantity(counted - systemClosing);
+    return {
+      ...activity,
+      systemClosing,
+      counted,
+      variance,
+      varianceValue: variance === null ? null : round2(variance * unitCost),
+    };
+  };
+
+  const lines = lots.map((lot) => line(lot, toQuantity(lot.opening + lot.received - lot.sold + lot.other)));
+  const inLots = lines.reduce((sum, lotLine) => sum + lotLine.systemClosing, 0);
+  const untracked = toQuantity(systemClosingStock - inLots);
+  if (untracked !== 0 || counts.has(null)) {
+    lines.push(
+      line({ lotId: null, lotNumber: null, expiryDate: null, opening: 0, received: 0, sold: 0, other: 0 }, untracked),
+    );
+  }
+
+  const allCounted = lines.length > 0 && lines.every((lotLine) => lotLine.counted !== null);
+  const counted = allCounted ? toQuantity(lines.reduce((sum, lotLine) => sum + (lotLine.counted ?? 0), 0)) : null;
+  const variance = counted === null ? null : toQuantity(counted - toQuantity(systemClosingStock));
+  return {
+    lines,
+    totals: {
+      systemClosing: toQuantity(systemClosingStock),
+      counted,
+      variance,
+      varianceValue: variance === null ? null : round2(variance * unitCost),
+    },
+  };
+}
+
+/** Says which lines of a breakdown are missing a count or were not in it, or null if the counts fit. */
+export function checkLotCounts(lines: Array<{ lotId: number | null; lotNumber?: string | null }>, counts: LotCountsInput["counts"]): string | null {
+  const expected = new Set(lines.map((lotLine) => lotLine.lotId));
+  const seen = new Set<number | null>();
+  for (const count of counts) {
+    if (!expected.has(count.lotId)) {
+      return count.lotId === null ? "This product has no stock outside its lots" : `Lot ${count.lotId} is not part of this product's day`;
+    }
+    if (seen.has(count.lotId)) return "Each lot can only be counted once";
+    seen.add(count.lotId);
+  }
+  const missing = lines.find((lotLine) => !seen.has(lotLine.lotId));
+  if (missing) return missing.lotId === null ? "Count the stock outside any lot as well" : `Lot ${missing.lotNumber ?? missing.lotId} has not been counted`;
+  return null;
+}
@@ -1,12 +1,25 @@
-import type { Express } from "express";
-import { USER_ROLES, insertProductSchema } from "@shared/schema";
+import type { Express, Request } from "express";
+import { insertProductSchema } from "@shared/schema";
+import { parseWeightedBarcode, readBarcodeSettings, scannedLine } from "@shared/barcodes";
 import { storage } from "../../storage";
 import { isAuthenticated } from "../../auth";
-import { requireRole } from "../shared/authorization";
+import { requirePermission } from "../shared/authorization";
 import { searchProductWithAI } from "../../openai-service";
+import { stockValuationQuerySchema } from "./costing";
+import { expiringLotsQuerySchema, writeOffExpiredSchema, writeOffLotSchema } from "./lots";
+import { productIdentifierSchema } from "./identifiers";
+import { productUnitsSchema } from "./units";
+import { bulkVariantUpdateSchema, createVariantSchema, variantAxesSchema } from "./variants";
+
+const parseId = (value: string): number | null => {
+  const id = parseInt(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const storeParam = async (req: Request) => parseId(req.params.storeId);
 
 export function registerInventoryRoutes(app: Express) {
-  app.get("/api/products", async (req, res) => {
+  app.get("/api/products", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     try {
       const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
       
@@ -28,13 +41,13 @@ export function registerInventoryRoutes(app: Express) {
     }
   });
 
-  app.get("/api/products/recent", async (req, res) => {
+  app.get("/api/products/recent", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 8;
     const products = await storage.getRecentProducts(limit);
     res.json(products);
   });
 
-  app.get("/api/products/categories", async (req, res) => {
+  app.get("/api/products/categories", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     try {
       const categories = await storage.getProductCategories();
       res.json(categories);
@@ -44,7 +57,7 @@ export function registerInventoryRoutes(app: Express) {
     }
   });
 
-  app.get("/api/products/search", async (req, res) => {
+  app.get("/api/products/search", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     const query = req.query.q as string;
     const category = req.query.category as string;
     const sort = req.query.sort as string;
@@ -62,16 +75,40 @@ export function registerInventoryRoutes(app: Express) {
     }
   });
 
-  app.get("/api/products/barcode/:barcode", async (req, res) => {
-    const barcode = req.params.barcode;
-    const product = await storage.getProductByBarcode(barcode);
-    if (!product) {
-      return res.status(404).json({ message: "Product not found" });
+  // Exact barcodes first; with ?storeId= codes that match none are read as
+  // that store's scale labels, and the product comes back at the store's
+  // price with a `scan` of the unit, quantity and price the label puts in the cart
+  app.get("/api/products/barcode/:barcode", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
+    try {
+      const barcode = req.params.barcode;
+      const product = await storage.getProductByBarcode(barcode);
+      if (product) {
+        return res.json(product);
+      }
+
+      const storeId = parseId(String(req.query.storeId ?? ""));
+      const store = storeId ? await storage.getStore(storeId) : undefined;
+      const scan = store ? parseWeightedBarcode(barcode, readBarcodeSettings(store.settings).weighted) : null;
+      const labelled = scan && store ? await storage.getProductByPlu(scan.plu, store.id) : undefined;
+      if (!store || !scan || !labelled) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const storePrice = await storage.getStoreSpecificPrice(store.id, labelled.id);
+      const priced = { ...labelled, price: storePrice ?? labelled.price };
+      const units = await storage.getProductUnits(labelled.id);
+      const result = scannedLine(priced, units?.units ?? [], scan);
+      if (!result.success) {
+        return res.status(422).json({ message: result.message });
+      }
+      res.json({ ...priced, scan: { barcode, plu: scan.plu, ...result.line } });
+    } catch (error) {
+      console.error("Error looking up barcode:", error);
+      res.status(500).json({ message: "Failed to look up barcode" });
     }
-    res.json(product);
   });
 
-  app.get("/api/products/sku/:sku", async (req, res) => {
+  app.get("/api/products/sku/:sku", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     const sku = req.params.sku;
     const product = await storage.getProductBySku(sku);
     if (!product) {
@@ -80,7 +117,7 @@ export function registerInventoryRoutes(app: Express) {
     res.json(product);
   });
 
-  app.get("/api/products/:id", async (req, res) => {
+  app.get("/api/products/:id", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid product ID" });
@@ -92,10 +129,15 @@ export function registerInventoryRoutes(app: Express) {
     res.json(product);
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.post("/api/products", isAuthenticated, requirePermission("products", "create"), async (req, res) => {
     try {
       const productData = insertProductSchema.parse(req.body);
       const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : req.body.storeId;
+
+      const pluOwner = productData.plu ? await storage.getPluOwner(productData.plu) : undefined;
+      if (pluOwner) {
+        return res.status(409).json({ message: `PLU ${productData.plu} already belongs to ${pluOwner.name}` });
+      }
       
       // Create the product
       const product = await storage.createProduct(productData);
@@ -127,7 +169,7 @@ export function registerInventoryRoutes(app: Express) {
     }
   });
 
-  app.post("/api/products/bulk", async (req, res) => {
+  app.post("/api/products/bulk", isAuthenticated, requirePermission("products", "import"), async (req, res) => {
     try {
       const { products } = req.body;
       const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : req.body.storeId;
@@ -168,6 +210,15 @@ export function registerInventoryRoutes(app: Express) {
             stock: productData.stock || productData.quantity || 0,
             category: productData.category || 'General',
           });
+
+          const pluOwner = validatedData.plu ? await storage.getPluOwner(validatedData.plu) : undefined;
+          if (pluOwner) {
+            errors.push({
+              product: validatedData.name,
+              error: `PLU ${validatedData.plu} already belongs to ${pluOwner.name}`,
+            });
+            continue;
+          }
           
           const product = await storage.createProduct(validatedData);
           
@@ -215,7 +266,7 @@ export function registerInventoryRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/products/:id", async (req, res) => {
+  app.patch("/api/products/:id", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid product ID" });
@@ -228,6 +279,11 @@ export function registerInventoryRoutes(app: Express) {
       }
 
       const updateData = insertProductSchema.partial().parse(req.body);
+
+      const pluOwner = updateData.plu ? await storage.getPluOwner(updateData.plu, id) : undefined;
+      if (pluOwner) {
+        return res.status(409).json({ message: `PLU ${updateData.plu} already belongs to ${pluOwner.name}` });
+      }
       
       // Validate quantity: if quantity is being updated, it cannot exceed stock
       if (updateData.quantity !== undefined) {
@@ -256,7 +312,7 @@ export function registerInventoryRoutes(app: Express) {
     }
   });
 
-  app.delete("/api/products/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.delete("/api/products/:id", isAuthenticated, requirePermission("products", "delete"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid product ID" });
@@ -273,7 +329,7 @@ export function registerInventoryRoutes(app: Express) {
     }
   });
 
-  app.post("/api/products/ai-search", async (req, res) => {
+  app.post("/api/products/ai-search", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     try {
       const { query, isBarcode } = req.body;
       if (!query) {
@@ -288,9 +344,212 @@ export function registerInventoryRoutes(app: Express) {
     }
   });
 
+  // The unit a product's stock is kept in, and the units it is bought and sold in
+  app.get("/api/products/:id/units", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    if (!productId) {
+      return res.status(400).json({ message: "Invalid product ID" });
+    }
+
+    try {
+      const units = await storage.getProductUnits(productId);
+      if (!units) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(units);
+    } catch (error) {
+      console.error("Error fetching product units:", error);
+      res.status(500).json({ message: "Failed to fetch product units" });
+    }
+  });
+
+  app.put("/api/products/:id/units", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    if (!productId) {
+      return res.status(400).json({ message: "Invalid product ID" });
+    }
+    const parsed = productUnitsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid units", errors: parsed.error.errors });
+    }
+
+    try {
+      const units = await storage.setProductUnits(productId, parsed.data);
+      if (!units) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(units);
+    } catch (error) {
+      console.error("Error saving product units:", error);
+      res.status(500).json({ message: "Failed to save product units" });
+    }
+  });
+
+  // A parent product's variants; with ?storeId= priced and stocked as in that store
+  app.get("/api/products/:id/variants", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    const storeId = req.query.storeId ? parseId(String(req.query.storeId)) : undefined;
+    if (!productId || storeId === null) {
+      return res.status(400).json({ message: "Invalid product or store ID" });
+    }
+
+    try {
+      const variants = await storage.getProductVariants(productId, storeId);
+      if (!variants) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(variants);
+    } catch (error) {
+      console.error("Error fetching product variants:", error);
+      res.status(500).json({ message: "Failed to fetch product variants" });
+    }
+  });
+
+  app.put("/api/products/:id/variant-axes", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    if (!productId) {
+      return res.status(400).json({ message: "Invalid product ID" });
+    }
+    const parsed = variantAxesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid attributes", errors: parsed.error.errors });
+    }
+
+    try {
+      const result = await storage.setVariantAxes(productId, parsed.data.axes);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json(result);
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error saving variant attributes:", error);
+      res.status(500).json({ message: "Failed to save variant attributes" });
+    }
+  });
+
+  app.post("/api/products/:id/variants", isAuthenticated, requirePermission("products", "create"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    if (!productId) {
+      return res.status(400).json({ message: "Invalid product ID" });
+    }
+    const parsed = createVariantSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid variant", errors: parsed.error.errors });
+    }
+
+    try {
+      const result = await storage.createVariant(productId, parsed.data);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json(result);
+      }
+      res.status(201).json(result.data);
+    } catch (error) {
+      console.error("Error adding product variant:", error);
+      res.status(500).json({ message: "Failed to add product variant" });
+    }
+  });
+
+  // One price or reorder level across some or all of a parent's variants
+  app.patch("/api/products/:id/variants", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    if (!productId) {
+      return res.status(400).json({ message: "Invalid product ID" });
+    }
+    const parsed = bulkVariantUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid update", errors: parsed.error.errors });
+    }
+
+    try {
+      const result = await storage.updateVariants(productId, parsed.data);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json(result);
+      }
+      res.json({ updated: result.data });
+    } catch (error) {
+      console.error("Error updating product variants:", error);
+      res.status(500).json({ message: "Failed to update product variants" });
+    }
+  });
+
+  // Make a variant a product of its own again
+  app.delete("/api/products/:id/parent", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    if (!productId) {
+      return res.status(400).json({ message: "Invalid product ID" });
+    }
+
+    try {
+      const product = await storage.detachVariant(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      res.json(product);
+    } catch (error) {
+      console.error("Error detaching product variant:", error);
+      res.status(500).json({ message: "Failed to detach product variant" });
+    }
+  });
+
+  // Barcodes, supplier item codes and competitor SKUs a product is also known by
+  app.get("/api/products/:id/identifiers", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    if (!productId) {
+      return res.status(400).json({ message: "Invalid product ID" });
+    }
+
+    try {
+      res.json(await storage.getProductIdentifiers(productId));
+    } catch (error) {
+      console.error("Error fetching product codes:", error);
+      res.status(500).json({ message: "Failed to fetch product codes" });
+    }
+  });
+
+  app.post("/api/products/:id/identifiers", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    if (!productId) {
+      return res.status(400).json({ message: "Invalid product ID" });
+    }
+    const parsed = productIdentifierSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid code", errors: parsed.error.errors });
+    }
+
+    try {
+      const result = await storage.addProductIdentifier(productId, { ...parsed.data, createdBy: req.user?.id ?? null });
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 409).json(result);
+      }
+      res.status(201).json(result.data);
+    } catch (error) {
+      console.error("Error adding product code:", error);
+      res.status(500).json({ message: "Failed to add product code" });
+    }
+  });
+
+  app.delete("/api/products/:id/identifiers/:identifierId", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
+    const productId = parseId(req.params.id);
+    const identifierId = parseId(req.params.identifierId);
+    if (!productId || !identifierId) {
+      return res.status(400).json({ message: "Invalid product or code ID" });
+    }
+
+    try {
+      const removed = await storage.removeProductIdentifier(productId, identifierId);
+      if (!removed) {
+        return res.status(404).json({ message: "Code not found" });
+      }
+      res.json(removed);
+    } catch (error) {
+      console.error("Error removing product code:", error);
+      res.status(500).json({ message: "Failed to remove product code" });
+    }
+  });
+
   // Product Siblings Routes
   // Get all siblings for a product
-  app.get("/api/products/:id/siblings", async (req, res) => {
+  app.get("/api/products/:id/siblings", isAuthenticated, requirePermission("products", "read"), async (req, res) => {
     const productId = parseInt(req.params.id);
     if (isNaN(productId) || productId <= 0) {
       return res.status(400).json({ message: "Invalid product ID" });
@@ -306,7 +565,7 @@ export function registerInventoryRoutes(app: Express) {
   });
 
   // Add a sibling relationship
-  app.post("/api/products/:id/siblings", isAuthenticated, async (req, res) => {
+  app.post("/api/products/:id/siblings", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
     const productId = parseInt(req.params.id);
     if (isNaN(productId) || productId <= 0) {
       return res.status(400).json({ message: "Invalid product ID" });
@@ -349,7 +608,7 @@ export function registerInventoryRoutes(app: Express) {
   });
 
   // Remove a sibling relationship
-  app.delete("/api/products/:id/siblings/:siblingRelationId", isAuthenticated, async (req, res) => {
+  app.delete("/api/products/:id/siblings/:siblingRelationId", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
     const productId = parseInt(req.params.id);
     const siblingRelationId = parseInt(req.params.siblingRelationId);
 
@@ -368,4 +627,162 @@ export function registerInventoryRoutes(app: Express) {
       res.status(500).json({ message: "Failed to remove product sibling", error });
     }
   });
+
+  // Store stock ledger: every movement that made up the on-hand quantity
+  app.get("/api/stores/:storeId/stock-movements", isAuthenticated, requirePermission("inventory", "read"), async (req, res) => {
+    const storeId = parseInt(req.params.storeId);
+    const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    if (isNaN(storeId) || storeId <= 0 || (productId !== undefined && (isNaN(productId) || productId <= 0))) {
+      return res.status(400).json({ message: "Invalid store or product ID" });
+    }
+    if (isNaN(limit) || limit < 1 || limit > 1000 || isNaN(offset) || offset < 0) {
+      return res.status(400).json({ message: "Invalid paging parameters" });
+    }
+
+    try {
+      const movements = await storage.getStockMovements({ storeId, productId, limit, offset });
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.get("/api/stores/:storeId/stock-ledger/verify", isAuthenticated, requirePermission("inventory", "read"), async (req, res) => {
+    const storeId = parseInt(req.params.storeId);
+    if (isNaN(storeId) || storeId <= 0) {
+      return res.status(400).json({ message: "Invalid store ID" });
+    }
+
+    try {
+      const drifts = await storage.verifyStockLedger(storeId);
+      res.json({ consistent: drifts.length === 0, drifts });
+    } catch (error) {
+      console.error("Error verifying stock ledger:", error);
+      res.status(500).json({ message: "Failed to verify stock ledger" });
+    }
+  });
+
+  app.post("/api/stores/:storeId/stock-ledger/rebuild", isAuthenticated, requirePermission("inventory", "rebuild"), async (req, res) => {
+    const storeId = parseInt(req.params.storeId);
+    if (isNaN(storeId) || storeId <= 0) {
+      return res.status(400).json({ message: "Invalid store ID" });
+    }
+
+    try {
+      const drifts = await storage.rebuildStockFromLedger(storeId);
+      res.json({ corrected: drifts.length, drifts });
+    } catch (error) {
+      console.error("Error rebuilding stock from ledger:", error);
+      res.status(500).json({ message: "Failed to rebuild stock from ledger" });
+    }
+  });
+
+  // Perishable lots in a store that expire soon or already have, with what to do about each
+  app.get("/api/stores/:storeId/stock-valuation", isAuthenticated, requirePermission("reports", "read", { storeOf: storeParam }), async (req, res) => {
+    const storeId = parseId(req.params.storeId);
+    const parsed = stockValuationQuerySchema.safeParse(req.query);
+    if (!storeId) {
+      return res.status(400).json({ message: "Invalid store ID" });
+    }
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid date", errors: parsed.error.errors });
+    }
+
+    try {
+      const valuation = await storage.getStockValuation(storeId, parsed.data);
+      if (!valuation) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+      res.json(valuation);
+    } catch (error) {
+      console.error("Error valuing stock:", error);
+      res.status(500).json({ message: "Failed to value stock" });
+    }
+  });
+
+  app.get("/api/stores/:storeId/lots/expiring", isAuthenticated, requirePermission("inventory", "read", { storeOf: storeParam }), async (req, res) => {
+    const storeId = parseId(req.params.storeId);
+    const parsed = expiringLotsQuerySchema.safeParse(req.query);
+    if (!storeId) {
+      return res.status(400).json({ message: "Invalid store ID" });
+    }
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid filters", errors: parsed.error.errors });
+    }
+
+    try {
+      const report = await storage.getExpiringLots(storeId, parsed.data);
+      if (!report) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching expiring lots:", error);
+      res.status(500).json({ message: "Failed to fetch expiring lots" });
+    }
+  });
+
+  app.get("/api/stores/:storeId/products/:productId/lots", isAuthenticated, requirePermission("inventory", "read", { storeOf: storeParam }), async (req, res) => {
+    const storeId = parseId(req.params.storeId);
+    const productId = parseId(req.params.productId);
+    if (!storeId || !productId) {
+      return res.status(400).json({ message: "Invalid store or product ID" });
+    }
+
+    try {
+      res.json(await storage.getProductLots(storeId, productId));
+    } catch (error) {
+      console.error("Error fetching product lots:", error);
+      res.status(500).json({ message: "Failed to fetch product lots" });
+    }
+  });
+
+  app.post("/api/stores/:storeId/lots/expired/write-off", isAuthenticated, requirePermission("inventory", "write-off", { storeOf: storeParam }), async (req, res) => {
+    const storeId = parseId(req.params.storeId);
+    const parsed = writeOffExpiredSchema.safeParse(req.body ?? {});
+    if (!storeId) {
+      return res.status(400).json({ message: "Invalid store ID" });
+    }
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid write-off", errors: parsed.error.errors });
+    }
+
+    try {
+      const result = await storage.writeOffExpiredLots(storeId, { ...parsed.data, createdBy: req.user?.id ?? null });
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json(result);
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error writing off expired lots:", error);
+      res.status(500).json({ message: "Failed to write off expired lots" });
+    }
+  });
+
+  app.post("/api/stores/:storeId/lots/:lotId/write-off", isAuthenticated, requirePermission("inventory", "write-off", { storeOf: storeParam }), async (req, res) => {
+    const storeId = parseId(req.params.storeId);
+    const lotId = parseId(req.params.lotId);
+    const parsed = writeOffLotSchema.safeParse(req.body ?? {});
+    if (!storeId || !lotId) {
+      return res.status(400).json({ message: "Invalid store or lot ID" });
+    }
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid write-off", errors: parsed.error.errors });
+    }
+
+    try {
+      const result = await storage.writeOffLot(storeId, lotId, { ...parsed.data, createdBy: req.user?.id ?? null });
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json(result);
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error writing off lot:", error);
+      res.status(500).json({ message: "Failed to write off lot" });
+    }
+  });
 }
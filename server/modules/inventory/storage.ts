@@ -0,0 +1,1007 @@
+import { and, asc, desc, eq, gt, gte, inArray, lt, lte, sql } from "drizzle-orm";
+
+import { readInventoryPolicy, type InventoryPolicy } from "@shared/inventory";
+import {
+  costLayerMovements,
+  costLayers,
+  dailyLotCounts,
+  dailyProductMonitoring,
+  dayOperations,
+  inventoryMovements,
+  products,
+  stockLotMovements,
+  stockLots,
+  storeProducts,
+  stores,
+  type DailyProductMonitoring,
+  type InventoryMovement,
+  type StockLot,
+  type StoreProduct,
+} from "@shared/schema";
+
+import { db } from "../../db";
+import * as auditStorage from "../audit/storage";
+import { getRequestContext } from "../shared/request-context";
+import { formatDateInTimezone, resolveStoreTimezone } from "../shared/store-time";
+import {
+  InsufficientStockError,
+  checkMovement,
+  findLedgerDrift,
+  toQuantity,
+  type LedgerDrift,
+  type StockLotDetails,
+  type StockMovementInput,
+  type StockMovementSource,
+} from "./ledger";
+import {
+  consumeCostLayers,
+  movingAverageCost,
+  restoredUnitCost,
+  toCost,
+  valueStock,
+  type StockValuation,
+  type StockValuationQuery,
+} from "./costing";
+import {
+  MARKDOWN_VELOCITY_DAYS,
+  addDays,
+  allocateToLots,
+  daysUntilExpiry,
+  expiryStatus,
+  lotVarianceBreakdown,
+  normaliseLotNumber,
+  suggestMarkdown,
+  type ExpiringLotsQuery,
+  type ExpiryStatus,
+  type LotCountsInput,
+  type LotVarianceLine,
+  type MarkdownSuggestion,
+  type WriteOffLotInput,
+} from "./lots";
+
+export type StockExecutor = Pick<typeof db, "select" | "update" | "insert">;
+
+export interface StockMovementFilters {
+  storeId?: number;
+  productId?: number;
+  sourceType?: string;
+  sourceId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const storeProductRow = (storeId: number, productId: number) =>
+  and(eq(storeProducts.storeId, storeId), eq(storeProducts.productId, productId));
+
+async function storePolicy(executor: StockExecutor, storeId: number): Promise<InventoryPolicy> {
+  const [store] = await executor.select({ settings: stores.settings }).from(stores).where(eq(stores.id, storeId));
+  return readInventoryPolicy(store?.settings);
+}
+
+/**
+ * Moves stock in one statement so concurrent tills cannot lose each other's
+ * updates, then appends the ledger row at its cost. Products the store does
+ * not stock are skipped.
+ */
+async function applyMovement(
+  executor: StockExecutor,
+  movement: StockMovementInput,
+  policy: InventoryPolicy,
+): Promise<InventoryMovement | undefined> {
+  const problem = checkMovement(movement);
+  if (problem) throw new Error(problem);
+
+  // Locked so the average cost is worked out from the stock it is averaged with
+  const [current] = await executor
+    .select({
+      stockQuantity: storeProducts.stockQuantity,
+      averageCost: storeProducts.averageCost,
+      costPrice: storeProducts.costPrice,
+    })
+    .from(storeProducts)
+    .where(storeProductRow(movement.storeId, movement.productId))
+    .for("update");
+  if (!current) {
+    console.warn(`Product ${movement.productId} is not stocked in store ${movement.storeId}; stock movement skipped`);
+    return undefined;
+  }
+
+  const averageBefore = toCost(current.averageCost) ?? toCost(current.costPrice);
+  const incomingCost = movement.quantity > 0 ? await incomingUnitCost(executor, movement) : null;
+  const averaged = incomingCost === null
+    ? null
+    : movingAverageCost(toQuantity(current.stockQuantity), averageBefore, movement.quantity, incomingCost);
+  const averageAfter = averaged ?? averageBefore;
+
+  const delta = movement.quantity.toFixed(3);
+  const onHand = sql`COALESCE(${storeProducts.stockQuantity}, 0)`;
+  const [row] = await executor
+    .update(storeProducts)
+    .set({
+      stockQuantity: sql`${onHand} + ${delta}`,
+      ...(averaged !== null ? { averageCost: averaged.toFixed(4) } : {}),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        storeProductRow(movement.storeId, movement.productId),
+        policy.allowNegativeStock || movement.quantity >= 0 ? undefined : sql`${onHand} + ${delta} >= 0`,
+      ),
+    )
+    .returning({ stockQuantity: storeProducts.stockQuantity });
+
+  if (!row) {
+    throw new InsufficientStockError({
+      storeId: movement.storeId,
+      productId: movement.productId,
+      available: toQuantity(current.stockQuantity),
+      requested: -movement.quantity,
+    });
+  }
+
+  const layerUses = movement.quantity < 0 ? await takeFromCostLayers(executor, movement, averageBefore) : null;
+  const unitCost = movement.quantity > 0
+    ? incomingCost ?? averageBefore
+    : policy.costingMethod === "fifo" && layerUses ? layerUses.unitCost : averageBefore;
+
+  const [entry] = await executor
+    .insert(inventoryMovements)
+    .values({
+      storeId: movement.storeId,
+      productId: movement.productId,
+      movementType: movement.movementType,
+      quantity: delta,
+      balanceAfter: toQuantity(row.stockQuantity).toFixed(3),
+      reason: movement.reason ?? null,
+      sourceType: movement.sourceType ?? null,
+      sourceId: movement.sourceId === undefined || movement.sourceId === null ? null : String(movement.sourceId),
+      unitCost: unitCost === null ? null : unitCost.toFixed(4),
+      averageCostAfter: averageAfter === null ? null : averageAfter.toFixed(4),
+      createdBy: movement.createdBy ?? getRequestContext()?.actorId ?? null,
+    })
+    .returning();
+
+  if (layerUses) {
+    for (const use of layerUses.uses) {
+      await addToCostLayer(executor, use.layerId, -use.quantity, entry.id);
+    }
+  } else if (unitCost !== null) {
+    // Stock that only makes up for selling below zero has nothing left to layer
+    const layered = Math.min(movement.quantity, toQuantity(row.stockQuantity));
+    if (layered > 0) await openCostLayer(executor, movement.storeId, movement.productId, layered, unitCost, entry.id);
+  }
+  await moveLots(executor, movement, entry);
+  return entry;
+}
+
+/**
+ * What stock coming in cost: the price it was bought at, or for stock put
+ * back, what it cost when it was taken out. Null when neither is known, so
+ * the average cost stays as it is.
+ */
+async function incomingUnitCost(executor: StockExecutor, movement: StockMovementInput): Promise<number | null> {
+  const given = toCost(movement.unitCost) ?? toCost(movement.lot?.unitCost);
+  if (given !== null || !movement.restoreFrom) return given;
+
+  const takenOut = await executor
+    .select({ quantity: inventoryMovements.quantity, unitCost: inventoryMovements.unitCost })
+    .from(inventoryMovements)
+    .where(
+      and(
+        eq(inventoryMovements.sourceType, movement.restoreFrom.sourceType),
+        eq(inventoryMovements.sourceId, String(movement.restoreFrom.sourceId)),
+        eq(inventoryMovements.productId, movement.productId),
+        lt(inventoryMovements.quantity, "0"),
+      ),
+    );
+  return restoredUnitCost(takenOut);
+}
+
+/** Uses up the store's oldest cost layers for stock going out. */
+async function takeFromCostLayers(executor: StockExecutor, movement: StockMovementInput, fallbackCost: number | null) {
+  const layers = await executor
+    .select({ id: costLayers.id, quantityRemaining: costLayers.quantityRemaining, unitCost: costLayers.unitCost })
+    .from(costLayers)
+    .where(
+      and(
+        eq(costLayers.storeId, movement.storeId),
+        eq(costLayers.productId, movement.productId),
+        gt(costLayers.quantityRemaining, "0"),
+      ),
+    )
+    .orderBy(asc(costLayers.id))
+    .for("update");
+  return consumeCostLayers(
+    layers.map((layer) => ({ id: layer.id, available: toQuantity(layer.quantityRemaining), unitCost: toCost(layer.unitCost) ?? 0 })),
+    -movement.quantity,
+    fallbackCost,
+  );
+}
+
+async function openCostLayer(
+  executor: StockExecutor,
+  storeId: number,
+  productId: number,
+  quantity: number,
+  unitCost: number,
+  inventoryMovementId: number | null,
+): Promise<void> {
+  const [layer] = await executor
+    .insert(costLayers)
+    .values({
+      storeId,
+      productId,
+      inventoryMovementId,
+      unitCost: unitCost.toFixed(4),
+      quantityReceived: quantity.toFixed(3),
+      quantityRemaining: quantity.toFixed(3),
+    })
+    .returning({ id: costLayers.id });
+  await executor.insert(costLayerMovements).values({ layerId: layer.id, inventoryMovementId, quantity: quantity.toFixed(3) });
+}
+
+async function addToCostLayer(executor: StockExecutor, layerId: number, quantity: number, inventoryMovementId: number): Promise<void> {
+  const delta = quantity.toFixed(3);
+  await executor
+    .update(costLayers)
+    .set({ quantityRemaining: sql`${costLayers.quantityRemaining} + ${delta}` })
+    .where(eq(costLayers.id, layerId));
+  await executor.insert(costLayerMovements).values({ layerId, inventoryMovementId, quantity: delta });
+}
+
+/**
+ * Splits a ledger row over the store's lots. Stock going out leaves the
+ * named lot first, then whichever expires first; stock coming back goes into
+ * the lots it left from; received stock goes into the lot it arrived in.
+ * Whatever no lot accounts for stays untracked.
+ */
+async function moveLots(executor: StockExecutor, movement: StockMovementInput, entry: InventoryMovement): Promise<void> {
+  if (movement.quantity < 0) {
+    const lots = await executor
+      .select({ id: stockLots.id, quantityRemaining: stockLots.quantityRemaining })
+      .from(stockLots)
+      .where(
+        and(
+          eq(stockLots.storeId, movement.storeId),
+          eq(stockLots.productId, movement.productId),
+          gt(stockLots.quantityRemaining, "0"),
+        ),
+      )
+      .orderBy(sql`${stockLots.expiryDate} ASC NULLS LAST`, asc(stockLots.receivedAt), asc(stockLots.id))
+      .for("update");
+    const ordered = movement.lotId
+      ? [...lots.filter((lot) => lot.id === movement.lotId), ...lots.filter((lot) => lot.id !== movement.lotId)]
+      : lots;
+    const { allocations } = allocateToLots(
+      ordered.map((lot) => ({ id: lot.id, available: toQuantity(lot.quantityRemaining) })),
+      -movement.quantity,
+    );
+    for (const allocation of allocations) {
+      await addToLot(executor, allocation.lotId, -allocation.quantity, entry);
+    }
+    return;
+  }
+
+  let left = movement.quantity;
+  if (movement.restoreFrom) {
+    left = await restoreLots(executor, movement, entry);
+  }
+  if (left <= 0) return;
+
+  if (movement.lotId) {
+    const [lot] = await executor
+      .select({ id: stockLots.id })
+      .from(stockLots)
+      .where(
+        and(eq(stockLots.id, movement.lotId), eq(stockLots.storeId, movement.storeId), eq(stockLots.productId, movement.productId)),
+      );
+    if (lot) await addToLot(executor, lot.id, left, entry);
+    return;
+  }
+  if (movement.lot) {
+    const lotId = await findOrCreateLot(executor, movement, movement.lot);
+    if (lotId) await addToLot(executor, lotId, left, entry, { received: true });
+  }
+}
+
+/**
+ * Puts stock back into the lots an earlier source took it from, less what
+ * has already been put back for that source. Lots in another store (a
+ * transfer) are recreated here with the same lot number and expiry.
+ * Returns the quantity no lot took back.
+ */
+async function restoreLots(executor: StockExecutor, movement: StockMovementInput, entry: InventoryMovement): Promise<number> {
+  const { sourceType, sourceId } = movement.restoreFrom!;
+  const key = `${sourceType}:${sourceId}`;
+  const taken = await executor
+    .select({ lotId: stockLotMovements.lotId, quantity: sql<string>`-SUM(${stockLotMovements.quantity})` })
+    .from(stockLotMovements)
+    .innerJoin(inventoryMovements, eq(inventoryMovements.id, stockLotMovements.inventoryMovementId))
+    .where(
+      and(
+        eq(inventoryMovements.sourceType, sourceType),
+        eq(inventoryMovements.sourceId, String(sourceId)),
+        eq(inventoryMovements.productId, movement.productId),
+        lt(stockLotMovements.quantity, "0"),
+      ),
+    )
+    .groupBy(stockLotMovements.lotId)
+    .orderBy(asc(stockLotMovements.lotId));
+  if (taken.length === 0) return movement.quantity;
+
+  const restored = await executor
+    .select({ lotId: stockLotMovements.restoredFromLotId, quantity: sql<string>`SUM(${stockLotMovements.quantity})` })
+    .from(stockLotMovements)
+    .where(eq(stockLotMovements.restoredFrom, key))
+    .groupBy(stockLotMovements.restoredFromLotId);
+  const alreadyBack = new Map(restored.map((row) => [row.lotId, toQuantity(row.quantity)]));
+
+  const { allocations, untracked } = allocateToLots(
+    taken.map((row) => ({ id: row.lotId, available: toQuantity(row.quantity) - (alreadyBack.get(row.lotId) ?? 0) })),
+    movement.quantity,
+  );
+  if (allocations.length === 0) return untracked;
+
+  const origins = await executor
+    .select()
+    .from(stockLots)
+    .where(inArray(stockLots.id, allocations.map((allocation) => allocation.lotId)));
+  const originById = new Map(origins.map((lot) => [lot.id, lot]));
+  for (const allocation of allocations) {
+    const origin = originById.get(allocation.lotId)!;
+    const lotId =
+      origin.storeId === movement.storeId
+        ? origin.id
+        : await findOrCreateLot(executor, movement, { lotNumber: origin.lotNumber, expiryDate: origin.expiryDate, unitCost: origin.unitCost });
+    if (!lotId) continue;
+    await addToLot(executor, lotId, allocation.quantity, entry, {
+      received: origin.storeId !== movement.storeId,
+      restoredFromLotId: origin.id,
+      restoredFrom: key,
+    });
+  }
+  return untracked;
+}
+
+/** The store's lot with this lot number and expiry, created empty if there is none yet. */
+async function findOrCreateLot(
+  executor: StockExecutor,
+  movement: StockMovementInput,
+  details: StockLotDetails,
+): Promise<number | null> {
+  const lotNumber = normaliseLotNumber(details.lotNumber);
+  const expiryDate = details.expiryDate || null;
+  if (!lotNumber && !expiryDate) return null;
+
+  const [existing] = await executor
+    .select({ id: stockLots.id })
+    .from(stockLots)
+    .where(
+      and(
+        eq(stockLots.storeId, movement.storeId),
+        eq(stockLots.productId, movement.productId),
+        sql`${stockLots.lotNumber} IS NOT DISTINCT FROM ${lotNumber}::text`,
+        sql`${stockLots.expiryDate} IS NOT DISTINCT FROM ${expiryDate}::text`,
+      ),
+    )
+    .for("update");
+  if (existing) return existing.id;
+
+  const unitCost = details.unitCost === undefined || details.unitCost === null || details.unitCost === "" ? null : toQuantity(details.unitCost);
+  const [created] = await executor
+    .insert(stockLots)
+    .values({
+      storeId: movement.storeId,
+      productId: movement.productId,
+      lotNumber,
+      expiryDate,
+      unitCost: unitCost === null ? null : unitCost.toFixed(2),
+      sourceType: movement.sourceType ?? null,
+      sourceId: movement.sourceId === undefined || movement.sourceId === null ? null : String(movement.sourceId),
+    })
+    .returning({ id: stockLots.id });
+  return created.id;
+}
+
+async function addToLot(
+  executor: StockExecutor,
+  lotId: number,
+  quantity: number,
+  entry: InventoryMovement,
+  options: { received?: boolean; restoredFromLotId?: number; restoredFrom?: string } = {},
+): Promise<void> {
+  const delta = quantity.toFixed(3);
+  await executor
+    .update(stockLots)
+    .set({
+      quantityRemaining: sql`${stockLots.quantityRemaining} + ${delta}`,
+      ...(options.received ? { quantityReceived: sql`${stockLots.quantityReceived} + ${delta}` } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(stockLots.id, lotId));
+  await executor.insert(stockLotMovements).values({
+    lotId,
+    inventoryMovementId: entry.id,
+    quantity: delta,
+    restoredFromLotId: options.restoredFromLotId ?? null,
+    restoredFrom: options.restoredFrom ?? null,
+  });
+}
+
+/**
+ * Applies stock movements atomically. Inside a caller's transaction a
+ * shortage throws InsufficientStockError so the caller's work rolls back with
+ * it; otherwise the movements run in their own transaction. Unless told
+ * otherwise, each store's negative stock policy decides whether stock may go
+ * below zero.
+ */
+export async function applyStockMovements(
+  movements: StockMovementInput[],
+  options: { executor?: StockExecutor; allowNegative?: boolean } = {},
+): Promise<InventoryMovement[]> {
+  const apply = async (executor: StockExecutor) => {
+    const policies = new Map<number, InventoryPolicy>();
+    const applied: InventoryMovement[] = [];
+    for (const movement of movements) {
+      if (movement.quantity === 0) continue;
+      let policy = policies.get(movement.storeId);
+      if (!policy) {
+        policy = await storePolicy(executor, movement.storeId);
+        if (options.allowNegative !== undefined) policy = { ...policy, allowNegativeStock: options.allowNegative };
+        policies.set(movement.storeId, policy);
+      }
+      const entry = await applyMovement(executor, movement, policy);
+      if (entry) applied.push(entry);
+    }
+    return applied;
+  };
+
+  if (movements.length === 0) return [];
+  return options.executor ? apply(options.executor) : db.transaction((tx) => apply(tx));
+}
+
+/**
+ * Sets a store's stock to a counted quantity by recording the difference,
+ * with the row locked so a sale cannot slip in between reading and writing.
+ */
+export async function countStock(
+  storeId: number,
+  productId: number,
+  counted: number,
+  source: StockMovementSource,
+  executor?: StockExecutor,
+): Promise<InventoryMovement | undefined> {
+  const count = async (tx: StockExecutor) => {
+    const [row] = await tx
+      .select({ stockQuantity: storeProducts.stockQuantity })
+      .from(storeProducts)
+      .where(storeProductRow(storeId, productId))
+      .for("update");
+    if (!row) return undefined;
+
+    const difference = toQuantity(toQuantity(counted) - toQuantity(row.stockQuantity));
+    if (Math.abs(difference) < 0.0005) return undefined;
+    const policy = await storePolicy(tx, storeId);
+    return applyMovement(tx, { ...source, storeId, productId, quantity: difference }, { ...policy, allowNegativeStock: true });
+  };
+
+  return executor ? count(executor) : db.transaction((tx) => count(tx));
+}
+
+/**
+ * Adds a product to a store's range at zero stock so stock can be moved into
+ * it. The price comes from another store that sells it, else the product.
+ */
+export async function ensureStoreProduct(
+  executor: StockExecutor,
+  storeId: number,
+  productId: number,
+  priceFromStoreId?: number,
+): Promise<void> {
+  const [stocked] = await executor
+    .select({ id: storeProducts.id })
+    .from(storeProducts)
+    .where(storeProductRow(storeId, productId));
+  if (stocked) return;
+
+  const [source] = priceFromStoreId
+    ? await executor
+        .select({ price: storeProducts.price, costPrice: storeProducts.costPrice })
+        .from(storeProducts)
+        .where(storeProductRow(priceFromStoreId, productId))
+    : [];
+  const [product] = await executor
+    .select({ price: products.price, cost: products.cost })
+    .from(products)
+    .where(eq(products.id, productId));
+  const [created] = await executor
+    .insert(storeProducts)
+    .values({
+      storeId,
+      productId,
+      price: source?.price ?? product?.price ?? "0.00",
+      costPrice: source?.costPrice ?? product?.cost ?? null,
+      stockQuantity: "0",
+    })
+    .returning();
+  await recordOpeningStock(created, executor);
+}
+
+/** Starts the ledger, and the average cost, for a product newly stocked in a store. */
+export async function recordOpeningStock(storeProduct: StoreProduct, executor: StockExecutor = db): Promise<void> {
+  const quantity = toQuantity(storeProduct.stockQuantity);
+  const cost = toCost(storeProduct.averageCost) ?? toCost(storeProduct.costPrice);
+  const [entry] = await executor
+    .insert(inventoryMovements)
+    .values({
+      storeId: storeProduct.storeId,
+      productId: storeProduct.productId,
+      movementType: "opening",
+      quantity: quantity.toFixed(3),
+      balanceAfter: quantity.toFixed(3),
+      reason: "Product added to store",
+      unitCost: cost === null ? null : cost.toFixed(4),
+      averageCostAfter: cost === null ? null : cost.toFixed(4),
+      createdBy: getRequestContext()?.actorId ?? null,
+    })
+    .returning({ id: inventoryMovements.id });
+  if (cost === null) return;
+
+  await executor
+    .update(storeProducts)
+    .set({ averageCost: cost.toFixed(4) })
+    .where(storeProductRow(storeProduct.storeId, storeProduct.productId));
+  if (quantity > 0) {
+    await openCostLayer(executor, storeProduct.storeId, storeProduct.productId, quantity, cost, entry.id);
+  }
+}
+
+export async function getStockMovements(filters: StockMovementFilters = {}): Promise<InventoryMovement[]> {
+  return db
+    .select()
+    .from(inventoryMovements)
+    .where(
+      and(
+        filters.storeId ? eq(inventoryMovements.storeId, filters.storeId) : undefined,
+        filters.productId ? eq(inventoryMovements.productId, filters.productId) : undefined,
+        filters.sourceType ? eq(inventoryMovements.sourceType, filters.sourceType) : undefined,
+        filters.sourceId ? eq(inventoryMovements.sourceId, filters.sourceId) : undefined,
+      ),
+    )
+    .orderBy(desc(inventoryMovements.id))
+    .limit(filters.limit ?? 100)
+    .offset(filters.offset ?? 0);
+}
+
+/** Compares every cached store quantity with the sum of its ledger. */
+export async function verifyStockLedger(storeId?: number): Promise<LedgerDrift[]> {
+  const [onHand, ledger] = await Promise.all([
+    db
+      .select({ storeId: storeProducts.storeId, productId: storeProducts.productId, stockQuantity: storeProducts.stockQuantity })
+      .from(storeProducts)
+      .where(storeId ? eq(storeProducts.storeId, storeId) : undefined)
+      .orderBy(asc(storeProducts.storeId), asc(storeProducts.productId)),
+    db
+      .select({
+        storeId: inventoryMovements.storeId,
+        productId: inventoryMovements.productId,
+        total: sql<string>`SUM(${inventoryMovements.quantity})`,
+      })
+      .from(inventoryMovements)
+      .where(storeId ? eq(inventoryMovements.storeId, storeId) : undefined)
+      .groupBy(inventoryMovements.storeId, inventoryMovements.productId),
+  ]);
+
+  return findLedgerDrift(onHand, ledger);
+}
+
+/** Resets drifted store quantities to their ledger totals. The ledger itself is never changed. */
+export async function rebuildStockFromLedger(storeId?: number): Promise<LedgerDrift[]> {
+  const drifts = await verifyStockLedger(storeId);
+  for (const drift of drifts) {
+    // Summed in the statement itself so a sale since the check is not lost
+    await db
+      .update(storeProducts)
+      .set({
+        stockQuantity: sql`(
+          SELECT COALESCE(SUM(${inventoryMovements.quantity}), 0) FROM ${inventoryMovements}
+          WHERE ${inventoryMovements.storeId} = ${drift.storeId} AND ${inventoryMovements.productId} = ${drift.productId}
+        )`,
+        updatedAt: new Date(),
+      })
+      .where(storeProductRow(drift.storeId, drift.productId));
+  }
+  return drifts;
+}
+
+/**
+ * What a store's stock was worth at the end of a store-local day, read back
+ * from the ledger: the balance and average cost after each product's last
+ * movement that day, and the cost layers as they stood.
+ */
+export async function getStockValuation(storeId: number, query: StockValuationQuery, now = new Date()): Promise<StockValuation | undefined> {
+  const [store] = await db.select().from(stores).where(eq(stores.id, storeId));
+  if (!store) return undefined;
+  const timezone = resolveStoreTimezone(store);
+  const date = query.date ?? formatDateInTimezone(now, timezone);
+  const onOrBefore = (column: typeof inventoryMovements.createdAt | typeof costLayerMovements.createdAt) =>
+    sql`to_char((${column} AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}, 'YYYY-MM-DD') <= ${date}`;
+
+  const [balances, layers] = await Promise.all([
+    db
+      .selectDistinctOn([inventoryMovements.productId], {
+        productId: inventoryMovements.productId,
+        productName: products.name,
+        sku: products.sku,
+        category: products.category,
+        balanceAfter: inventoryMovements.balanceAfter,
+        averageCostAfter: inventoryMovements.averageCostAfter,
+        // Movements from before costing have no average; today's cost is the best there is
+        currentAverage: storeProducts.averageCost,
+        costPrice: storeProducts.costPrice,
+        productCost: products.cost,
+      })
+      .from(inventoryMovements)
+      .innerJoin(products, eq(inventoryMovements.productId, products.id))
+      .leftJoin(
+        storeProducts,
+        and(eq(storeProducts.storeId, inventoryMovements.storeId), eq(storeProducts.productId, inventoryMovements.productId)),
+      )
+      .where(and(eq(inventoryMovements.storeId, storeId), onOrBefore(inventoryMovements.createdAt)))
+      .orderBy(inventoryMovements.productId, desc(inventoryMovements.id)),
+    db
+      .select({
+        productId: costLayers.productId,
+        unitCost: costLayers.unitCost,
+        quantity: sql<string>`SUM(${costLayerMovements.quantity})`,
+      })
+      .from(costLayerMovements)
+      .innerJoin(costLayers, eq(costLayerMovements.layerId, costLayers.id))
+      .where(and(eq(costLayers.storeId, storeId), onOrBefore(costLayerMovements.createdAt)))
+      .groupBy(costLayers.id, costLayers.productId, costLayers.unitCost),
+  ]);
+
+  const layersByProduct = new Map<number, Array<{ quantity: number; unitCost: number }>>();
+  for (const layer of layers) {
+    const quantity = toQuantity(layer.quantity);
+    if (quantity <= 0) continue;
+    const list = layersByProduct.get(layer.productId) ?? [];
+    list.push({ quantity, unitCost: toCost(layer.unitCost) ?? 0 });
+    layersByProduct.set(layer.productId, list);
+  }
+
+  return valueStock(
+    date,
+    readInventoryPolicy(store.settings).costingMethod,
+    balances.map((row) => ({
+      productId: row.productId,
+      productName: row.productName,
+      sku: row.sku,
+      category: row.category,
+      quantity: toQuantity(row.balanceAfter),
+      averageCost: toCost(row.averageCostAfter) ?? toCost(row.currentAverage) ?? toCost(row.costPrice) ?? toCost(row.productCost),
+      layers: layersByProduct.get(row.productId) ?? [],
+    })),
+  );
+}
+
+export interface ExpiringLot {
+  lotId: number;
+  storeId: number;
+  productId: number;
+  productName: string;
+  sku: string;
+  lotNumber: string | null;
+  expiryDate: string;
+  quantityReceived: number;
+  quantityRemaining: number;
+  unitCost: number | null;
+  price: number;
+  receivedAt: Date;
+  daysLeft: number;
+  status: ExpiryStatus;
+  // Units of the product sold per day recently, across all its lots
+  dailySales: number;
+  suggestion: MarkdownSuggestion | null;
+}
+
+export interface ExpiringLotsReport {
+  storeId: number;
+  today: string;
+  days: number;
+  lots: ExpiringLot[];
+}
+
+export interface LotWriteOffResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  details?: unknown;
+  movements?: InventoryMovement[];
+}
+
+/**
+ * Lots in a store that expire within `days` of the store's today, soonest
+ * first, with a markdown or write-off suggestion for those the recent sales
+ * rate will not clear in time.
+ */
+export async function getExpiringLots(storeId: number, query: ExpiringLotsQuery, now = new Date()): Promise<ExpiringLotsReport | undefined> {
+  const [store] = await db.select().from(stores).where(eq(stores.id, storeId));
+  if (!store) return undefined;
+
+  const today = formatDateInTimezone(now, resolveStoreTimezone(store));
+  const rows = await db
+    .select({
+      lot: stockLots,
+      productName: products.name,
+      sku: products.sku,
+      storePrice: storeProducts.price,
+      productPrice: products.price,
+    })
+    .from(stockLots)
+    .innerJoin(products, eq(stockLots.productId, products.id))
+    .leftJoin(storeProducts, and(eq(storeProducts.storeId, stockLots.storeId), eq(storeProducts.productId, stockLots.productId)))
+    .where(
+      and(
+        eq(stockLots.storeId, storeId),
+        gt(stockLots.quantityRemaining, "0"),
+        lte(stockLots.expiryDate, addDays(today, query.days)),
+        query.includeExpired ? undefined : gte(stockLots.expiryDate, today),
+        query.productId ? eq(stockLots.productId, query.productId) : undefined,
+      ),
+    )
+    .orderBy(asc(stockLots.expiryDate), asc(stockLots.receivedAt), asc(stockLots.id));
+
+  const productIds = Array.from(new Set(rows.map((row) => row.lot.productId)));
+  const since = new Date(now.getTime() - MARKDOWN_VELOCITY_DAYS * 24 * 60 * 60 * 1000);
+  const sales = productIds.length
+    ? await db
+        .select({ productId: inventoryMovements.productId, quantity: sql<string>`-SUM(${inventoryMovements.quantity})` })
+        .from(inventoryMovements)
+        .where(
+          and(
+            eq(inventoryMovements.storeId, storeId),
+            inArray(inventoryMovements.productId, productIds),
+            inArray(inventoryMovements.movementType, ["sale", "void"]),
+            gte(inventoryMovements.createdAt, since),
+          ),
+        )
+        .groupBy(inventoryMovements.productId)
+    : [];
+  const dailySales = new Map(sales.map((row) => [row.productId, Math.max(0, toQuantity(row.quantity)) / MARKDOWN_VELOCITY_DAYS]));
+
+  const lots = rows.map(({ lot, productName, sku, storePrice, productPrice }): ExpiringLot => {
+    const expiryDate = lot.expiryDate!;
+    const daysLeft = daysUntilExpiry(expiryDate, today);
+    const quantityRemaining = toQuantity(lot.quantityRemaining);
+    const price = toQuantity(storePrice ?? productPrice);
+    const sold = Math.round((dailySales.get(lot.productId) ?? 0) * 100) / 100;
+    return {
+      lotId: lot.id,
+      storeId: lot.storeId,
+      productId: lot.productId,
+      productName,
+      sku,
+      lotNumber: lot.lotNumber,
+      expiryDate,
+      quantityReceived: toQuantity(lot.quantityReceived),
+      quantityRemaining,
+      unitCost: lot.unitCost === null ? null : toQuantity(lot.unitCost),
+      price,
+      receivedAt: lot.receivedAt,
+      daysLeft,
+      status: expiryStatus(expiryDate, today, query.days),
+      dailySales: sold,
+      suggestion: suggestMarkdown({ quantityRemaining, daysLeft, price, dailySales: dailySales.get(lot.productId) ?? 0 }),
+    };
+  });
+
+  return { storeId, today, days: query.days, lots };
+}
+
+/** The lots of a product in a store that still hold stock, first to expire first. */
+export async function getProductLots(storeId: number, productId: number): Promise<StockLot[]> {
+  return db
+    .select()
+    .from(stockLots)
+    .where(and(eq(stockLots.storeId, storeId), eq(stockLots.productId, productId), gt(stockLots.quantityRemaining, "0")))
+    .orderBy(sql`${stockLots.expiryDate} ASC NULLS LAST`, asc(stockLots.receivedAt), asc(stockLots.id));
+}
+
+/**
+ * Writes stock off one lot through the ledger, by default everything left in
+ * it. The catalogue totals drop with it, as they do for sales.
+ */
+export async function writeOffLot(
+  storeId: number,
+  lotId: number,
+  input: WriteOffLotInput & { createdBy?: number | null },
+): Promise<LotWriteOffResult> {
+  const result = await writeOffLots(storeId, [lotId], input);
+  if (result.success && result.movements?.length === 0) {
+    return { success: false, message: "Nothing is left in this lot" };
+  }
+  return result;
+}
+
+/** Writes off every lot in the store that expired before the store's today. */
+export async function writeOffExpiredLots(
+  storeId: number,
+  input: { reason: string; createdBy?: number | null },
+  now = new Date(),
+): Promise<LotWriteOffResult> {
+  const [store] = await db.select().from(stores).where(eq(stores.id, storeId));
+  if (!store) return { success: false, message: "Store not found", code: "NOT_FOUND" };
+
+  const today = formatDateInTimezone(now, resolveStoreTimezone(store));
+  const expired = await db
+    .select({ id: stockLots.id })
+    .from(stockLots)
+    .where(and(eq(stockLots.storeId, storeId), gt(stockLots.quantityRemaining, "0"), lt(stockLots.expiryDate, today)));
+  if (expired.length === 0) return { success: true, message: "No expired lots to write off", movements: [] };
+  return writeOffLots(storeId, expired.map((lot) => lot.id), input);
+}
+
+async function writeOffLots(
+  storeId: number,
+  lotIds: number[],
+  input: { quantity?: number; reason: string; createdBy?: number | null },
+): Promise<LotWriteOffResult> {
+  try {
+    const { movements, written } = await db.transaction(async (tx) => {
+      const lots = await tx
+        .select()
+        .from(stockLots)
+        .where(and(inArray(stockLots.id, lotIds), eq(stockLots.storeId, storeId)))
+        .orderBy(asc(stockLots.id))
+        .for("update");
+      if (lots.length !== lotIds.length) {
+        throw new LotNotFoundError();
+      }
+
+      const planned = lots.flatMap((lot) => {
+        const remaining = toQuantity(lot.quantityRemaining);
+        const quantity = input.quantity ?? remaining;
+        if (quantity > remaining) throw new LotShortError(remaining);
+        return quantity > 0 ? [{ lot, quantity }] : [];
+      });
+
+      const movements = await applyStockMovements(
+        planned.map(({ lot, quantity }) => ({
+          storeId,
+          productId: lot.productId,
+          movementType: "write_off" as const,
+          quantity: -quantity,
+          reason: lot.lotNumber ? `${input.reason} (lot ${lot.lotNumber})` : input.reason,
+          sourceType: "stock_lot",
+          sourceId: lot.id,
+          lotId: lot.id,
+          createdBy: input.createdBy ?? null,
+        })),
+        { executor: tx },
+      );
+      for (const { lot, quantity } of planned) {
+        await tx
+          .update(products)
+          .set({
+            stock: sql`GREATEST(COALESCE(${products.stock}, 0) - ${quantity}, 0)`,
+            quantity: sql`GREATEST(COALESCE(${products.quantity}, 0) - ${quantity}, 0)`,
+          })
+          .where(eq(products.id, lot.productId));
+      }
+      for (const { lot } of planned) {
+        const [after] = await tx.select().from(stockLots).where(eq(stockLots.id, lot.id));
+        await auditStorage.recordAudit({
+          entityType: "stock_lot",
+          entityId: lot.id,
+          action: "update",
+          storeId,
+          before: lot,
+          after,
+          reason: input.reason,
+        }, tx);
+      }
+      return { movements, written: planned.length };
+    });
+
+    const units = movements.reduce((sum, movement) => sum - toQuantity(movement.quantity), 0);
+    return { success: true, message: `Wrote off ${toQuantity(units)} units from ${written} lot${written === 1 ? "" : "s"}`, movements };
+  } catch (error) {
+    if (error instanceof LotNotFoundError) return { success: false, message: "Lot not found", code: "NOT_FOUND" };
+    if (error instanceof LotShortError) return { success: false, message: `Only ${error.remaining} left in this lot` };
+    if (error instanceof InsufficientStockError) {
+      return { success: false, message: error.message, code: "INSUFFICIENT_STOCK", details: { ...error.shortage } };
+    }
+    throw error;
+  }
+}
+
+// Roll back a write-off part way through
+class LotNotFoundError extends Error {}
+class LotShortError extends Error {
+  constructor(readonly remaining: number) {
+    super(`Only ${remaining} left in this lot`);
+  }
+}
+
+export interface LotBreakdown {
+  monitoring: DailyProductMonitoring;
+  storeId: number;
+  lines: LotVarianceLine[];
+  totals: ReturnType<typeof lotVarianceBreakdown>["totals"];
+}
+
+/**
+ * A monitored product's day split by lot: what each lot opened with, took
+ * in, sold and closed at, and what was counted of it on reconciliation.
+ */
+export async function getLotBreakdown(monitoringId: number): Promise<LotBreakdown | undefined> {
+  const [row] = await db
+    .select({ monitoring: dailyProductMonitoring, storeId: dayOperations.storeId, cost: products.cost })
+    .from(dailyProductMonitoring)
+    .innerJoin(dayOperations, eq(dailyProductMonitoring.dayOperationId, dayOperations.id))
+    .innerJoin(products, eq(dailyProductMonitoring.productId, products.id))
+    .where(eq(dailyProductMonitoring.id, monitoringId));
+  if (!row) return undefined;
+
+  const { monitoring, storeId } = row;
+  const day = sql`DATE(${stockLotMovements.createdAt})`;
+  const onDay = sql`${day} = ${monitoring.date}::date`;
+  const [activity, counts] = await Promise.all([
+    db
+      .select({
+        lotId: stockLots.id,
+        lotNumber: stockLots.lotNumber,
+        expiryDate: stockLots.expiryDate,
+        opening: sql<string>`COALESCE(SUM(${stockLotMovements.quantity}) FILTER (WHERE ${day} < ${monitoring.date}::date), 0)`,
+        received: sql<string>`COALESCE(SUM(${stockLotMovements.quantity}) FILTER (WHERE ${onDay} AND ${inventoryMovements.movementType} IN ('receipt', 'transfer_in')), 0)`,
+        sold: sql<string>`COALESCE(-SUM(${stockLotMovements.quantity}) FILTER (WHERE ${onDay} AND ${inventoryMovements.movementType} IN ('sale', 'void')), 0)`,
+        other: sql<string>`COALESCE(SUM(${stockLotMovements.quantity}) FILTER (WHERE ${onDay} AND ${inventoryMovements.movementType} NOT IN ('receipt', 'transfer_in', 'sale', 'void')), 0)`,
+      })
+      .from(stockLots)
+      .innerJoin(stockLotMovements, eq(stockLotMovements.lotId, stockLots.id))
+      .innerJoin(inventoryMovements, eq(stockLotMovements.inventoryMovementId, inventoryMovements.id))
+      .where(and(eq(stockLots.storeId, storeId), eq(stockLots.productId, monitoring.productId), sql`${day} <= ${monitoring.date}::date`))
+      .groupBy(stockLots.id)
+      .orderBy(sql`${stockLots.expiryDate} ASC NULLS LAST`, asc(stockLots.id)),
+    db.select().from(dailyLotCounts).where(eq(dailyLotCounts.monitoringId, monitoringId)),
+  ]);
+
+  const lots = activity
+    .map((lot) => ({
+      lotId: lot.lotId,
+      lotNumber: lot.lotNumber,
+      expiryDate: lot.expiryDate,
+      opening: toQuantity(lot.opening),
+      received: toQuantity(lot.received),
+      sold: toQuantity(lot.sold),
+      other: toQuantity(lot.other),
+    }))
+    .filter((lot) => lot.opening !== 0 || lot.received !== 0 || lot.sold !== 0 || lot.other !== 0);
+  const counted = new Map<number | null, number>(counts.map((count) => [count.lotId, toQuantity(count.countedQuantity)]));
+  const breakdown = lotVarianceBreakdown(lots, toQuantity(monitoring.systemClosingStock), counted, toQuantity(row.cost));
+  return { monitoring, storeId, ...breakdown };
+}
+
+export interface LotReconciliationResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  breakdown?: LotBreakdown;
+}
+
+/** Replaces the lot counts recorded for a monitored product's day. */
+export async function saveLotCounts(monitoringId: number, lines: LotVarianceLine[], counts: LotCountsInput["counts"]): Promise<void> {
+  const system = new Map(lines.map((line) => [line.lotId, line.systemClosing]));
+  await db.transaction(async (tx) => {
+    await tx.delete(dailyLotCounts).where(eq(dailyLotCounts.monitoringId, monitoringId));
+    await tx.insert(dailyLotCounts).values(
+      counts.map((count) => ({
+        monitoringId,
+        lotId: count.lotId,
+        systemQuantity: (system.get(count.lotId) ?? 0).toFixed(3),
+        countedQuantity: toQuantity(count.countedQuantity).toFixed(3),
+      })),
+    );
+  });
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+import { DEFAULT_BASE_UNIT, normaliseUnitCode } from "@shared/units";
+
+const unitCodeSchema = z
+  .string()
+  .trim()
+  .min(1, "Unit codes cannot be blank")
+  .max(20)
+  .regex(/^[A-Za-z][A-Za-z0-9 .-]*$/, "Unit codes must start with a letter")
+  .transform((code) => normaliseUnitCode(code)!);
+
+export const productUnitSchema = z.object({
+  code: unitCodeSchema,
+  name: z.string().trim().max(100).nullable().optional(),
+  // Base units in one of this unit: 24 for a carton of 24, 1000 for kg over g
+  factor: z.coerce.number().positive().max(100000),
+  allowsDecimal: z.boolean().default(false),
+  // Leave out to charge the base price for as many base units
+  price: z.coerce.number().min(0).nullable().optional(),
+  isPurchaseUnit: z.boolean().default(true),
+  isSalesUnit: z.boolean().default(false),
+});
+
+export const productUnitsSchema = z
+  .object({
+    baseUnit: unitCodeSchema.default(DEFAULT_BASE_UNIT),
+    baseUnitDecimal: z.boolean().default(false),
+    units: z.array(productUnitSchema).max(20).default([]),
+  })
+  .superRefine((input, ctx) => {
+    const seen = new Set<string>([input.baseUnit]);
+    input.units.forEach((unit, index) => {
+      if (seen.has(unit.code)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["units", index, "code"],
+          message: unit.code === input.baseUnit
+            ? `${unit.code} is already the base unit`
+            : `${unit.code} is listed more than once`,
+        });
+      }
+      seen.add(unit.code);
+    });
+  });
+
+export type ProductUnitsInput = z.infer<typeof productUnitsSchema>;
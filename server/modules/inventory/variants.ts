@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+import { MAX_VARIANT_AXES, normaliseAxis } from "@shared/variants";
+
+const axisSchema = z
+  .string()
+  .trim()
+  .min(1, "Attribute names cannot be blank")
+  .max(30)
+  .transform(normaliseAxis);
+
+export const variantAxesSchema = z.object({
+  axes: z
+    .array(axisSchema)
+    .max(MAX_VARIANT_AXES, `A product can have at most ${MAX_VARIANT_AXES} attributes`)
+    .refine((axes) => new Set(axes).size === axes.length, "Each attribute can only be listed once"),
+});
+
+// Attribute names as keys, values such as "Large" kept as typed
+const variantOptionsSchema = z.record(
+  z.string().transform(normaliseAxis),
+  z.string().trim().min(1, "Attribute values cannot be blank").max(50),
+);
+
+const moneySchema = z.coerce.number().min(0).max(99999999);
+
+export const createVariantSchema = z.union([
+  // Attach a product that already exists, keeping its SKU, price and stock
+  z.object({
+    productId: z.number().int().positive(),
+    options: variantOptionsSchema,
+  }).strict(),
+  z.object({
+    sku: z.string().trim().min(1, "SKU is required").max(100),
+    // Defaults to the parent's name followed by the variant's values
+    name: z.string().trim().min(1).max(200).optional(),
+    barcode: z.string().trim().max(100).nullable().optional(),
+    plu: z.string().trim().regex(/^\d{1,6}$/, "PLUs are one to six digits").nullable().optional(),
+    // Default to the parent's
+    price: moneySchema.optional(),
+    cost: moneySchema.nullable().optional(),
+    options: variantOptionsSchema,
+  }).strict(),
+]);
+
+/**
+ * One change applied to several variants at once. Prices without a store
+ * change the catalogue price; with one, that store's price. Reorder levels
+ * are kept per store.
+ */
+export const bulkVariantUpdateSchema = z
+  .object({
+    // All of the parent's variants when left out
+    variantIds: z.array(z.number().int().positive()).min(1).optional(),
+    storeId: z.number().int().positive().optional(),
+    price: moneySchema.optional(),
+    reorderLevel: z.coerce.number().min(0).max(99999999).optional(),
+  })
+  .refine((input) => input.price !== undefined || input.reorderLevel !== undefined, "Give a price or a reorder level")
+  .refine((input) => input.reorderLevel === undefined || input.storeId !== undefined, {
+    message: "Reorder levels are set per store",
+    path: ["storeId"],
+  });
+
+export type VariantAxesInput = z.infer<typeof variantAxesSchema>;
+export type CreateVariantInput = z.infer<typeof createVariantSchema>;
+export type BulkVariantUpdateInput = z.infer<typeof bulkVariantUpdateSchema>;
@@ -0,0 +1,1186 @@
+/**
+ * Page layout for invoice and receipt PDFs.
+ *
+ * Layout is kept separate from painting: these functions only decide what
+ * goes where and return plain draw operations, so the same document always
+ * produces the same pages and tests can compare layouts without parsing PDFs.
+ */
+
+import { tillReportSections, tillReportTitle, type TillReport } from "@shared/till-reports";
+
+export type PdfFontWeight = "regular" | "bold";
+
+export type PdfOp =
+  | { type: "text"; x: number; y: number; text: string; size: number; weight: PdfFontWeight; color: string }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; color: string; width: number }
+  | { type: "rect"; x: number; y: number; width: number; height: number; fill: string }
+  | { type: "image"; source: string; x: number; y: number; width: number; height: number };
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  ops: PdfOp[];
+}
+
+export interface PdfLayout {
+  title: string;
+  author: string;
+  createdAt: Date;
+  pages: PdfPage[];
+}
+
+export interface TextMeasurer {
+  widthOf(text: string, size: number, weight: PdfFontWeight): number;
+}
+
+export interface SalesDocumentLine {
+  description: string;
+  sku?: string | null;
+  quantity: number;
+  // Selling unit when it is not the product's base unit, e.g. "kg" or "ctn"
+  unit?: string | null;
+  unitPrice: number;
+  total: number;
+}
+
+export interface SalesDocument {
+  number: string;
+  issuedAt: Date;
+  timezone: string;
+  currency: string;
+  store: {
+    name: string;
+    nameAr?: string | null;
+    address?: string | null;
+    addressAr?: string | null;
+    phone?: string | null;
+    email?: string | null;
+    logoPath?: string | null;
+  };
+  customer?: {
+    name: string;
+    phone?: string | null;
+    email?: string | null;
+    address?: string | null;
+  } | null;
+  payment: {
+    method: string;
+    cashTendered?: number | null;
+    cardType?: string | null;
+  };
+  lines: SalesDocumentLine[];
+  totals: {
+    subtotal: number;
+    discount: number;
+    vat: number;
+    total: number;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bidirectional text
+// ---------------------------------------------------------------------------
+
+const ARABIC_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/;
+const ARABIC = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFC]/;
+// Latin, Greek, Cyrillic letters and digits
+const STRONG_LTR = /[A-Za-z0-9\u00AA\u00B5\u00BA\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02B8\u0370-\u03FF\u0400-\u052F]/;
+
+export interface DirectionalRun {
+  text: string;
+  rtl: boolean;
+}
+
+const charDirection = (char: string): "L" | "R" | "N" => {
+  if (ARABIC_DIGITS.test(char)) return "L";
+  if (ARABIC.test(char)) return "R";
+  if (STRONG_LTR.test(char)) return "L";
+  return "N";
+};
+
+/**
+ * Splits text into same-direction runs in visual (left-to-right) order.
+ * Arabic runs are still in logical order; the font shaper reverses and joins
+ * them when they are drawn. Neutral characters (spaces, punctuation) stay
+ * with the run they follow, or with the paragraph direction between runs of
+ * different direction. This is a small subset of the Unicode bidi algorithm,
+ * enough for labels, names and addresses.
+ */
+export function splitDirectionalRuns(text: string): DirectionalRun[] {
+  const chars = Array.from(text);
+  const firstStrong = chars.map(charDirection).find((dir) => dir !== "N");
+  const baseRtl = firstStrong === "R";
+
+  const runs: DirectionalRun[] = [];
+  let pending = "";
+
+  for (const char of chars) {
+    const dir = charDirection(char);
+    if (dir === "N") {
+      pending += char;
+      continue;
+    }
+
+    const rtl = dir === "R";
+    const current = runs[runs.length - 1];
+    if (!current) {
+      runs.push({ text: pending + char, rtl });
+    } else if (current.rtl === rtl) {
+      current.text += pending + char;
+    } else if (current.rtl === baseRtl) {
+      current.text += pending;
+      runs.push({ text: char, rtl });
+    } else {
+      runs.push({ text: pending + char, rtl });
+    }
+    pending = "";
+  }
+
+  if (runs.length === 0) {
+    return text.length > 0 ? [{ text, rtl: false }] : [];
+  }
+  runs[runs.length - 1].text += pending;
+
+  return baseRtl ? runs.reverse() : runs;
+}
+
+/** Greedy word wrap; words wider than the line are broken by character. */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  weight: PdfFontWeight,
+  measurer: TextMeasurer,
+): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measurer.widthOf(candidate, size, weight) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) {
+      lines.push(line);
+      line = "";
+    }
+
+    if (measurer.widthOf(word, size, weight) <= maxWidth) {
+      line = word;
+      continue;
+    }
+
+    let chunk = "";
+    for (const char of Array.from(word)) {
+      if (chunk && measurer.widthOf(chunk + char, size, weight) > maxWidth) {
+        lines.push(chunk);
+        chunk = "";
+      }
+      chunk += char;
+    }
+    line = chunk;
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+
+  return lines.length > 0 ? lines : [""];
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+export function formatMoney(amount: number, currency: string): string {
+  const symbol = currency === "QAR" ? "QR" : currency;
+  const value = Number.isFinite(amount) ? amount : 0;
+  return `${value < 0 ? "-" : ""}${symbol} ${Math.abs(value).toFixed(2)}`;
+}
+
+export function formatDocumentDate(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(date);
+}
+
+const formatQuantity = (quantity: number): string =>
+  Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(3).replace(/0+$/, "");
+
+const lineQuantity = (line: SalesDocumentLine): string =>
+  line.unit ? `${formatQuantity(line.quantity)} ${line.unit}` : formatQuantity(line.quantity);
+
+const PAYMENT_LABELS: Record<string, string> = {
+  cash: "Cash / نقداً",
+  card: "Card / بطاقة",
+  credit: "Credit / آجل",
+  split: "Split / مقسم",
+};
+
+const paymentLabel = (method: string): string =>
+  PAYMENT_LABELS[method.toLowerCase()] ?? method.toUpperCase();
+
+// ---------------------------------------------------------------------------
+// Page builder
+// ---------------------------------------------------------------------------
+
+const COLORS = {
+  text: "#1f2937",
+  muted: "#6b7280",
+  accent: "#2563eb",
+  border: "#e5e7eb",
+  panel: "#f8fafc",
+  stripe: "#f9fafb",
+  white: "#ffffff",
+};
+
+type Align = "left" | "right" | "center";
+
+class PageBuilder {
+  readonly pages: PdfPage[] = [];
+
+  constructor(
+    private readonly measurer: TextMeasurer,
+    readonly width: number,
+    private readonly height: number,
+  ) {}
+
+  get current(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(height = this.height): PdfPage {
+    const page: PdfPage = { width: this.width, height, ops: [] };
+    this.pages.push(page);
+    return page;
+  }
+
+  widthOf(text: string, size: number, weight: PdfFontWeight = "regular"): number {
+    return this.measurer.widthOf(text, size, weight);
+  }
+
+  wrap(text: string, maxWidth: number, size: number, weight: PdfFontWeight = "regular"): string[] {
+    return wrapText(text, maxWidth, size, weight, this.measurer);
+  }
+
+  text(
+    text: string,
+    x: number,
+    y: number,
+    options: { size: number; weight?: PdfFontWeight; color?: string; align?: Align; width?: number },
+  ) {
+    if (!text) return;
+    const weight = options.weight ?? "regular";
+    const boxWidth = options.width ?? 0;
+    const textWidth = options.align && options.align !== "left" ? this.widthOf(text, options.size, weight) : 0;
+    const left =
+      options.align === "right" ? x + boxWidth - textWidth
+      : options.align === "center" ? x + (boxWidth - textWidth) / 2
+      : x;
+
+    this.current.ops.push({
+      type: "text",
+      x: round(left),
+      y: round(y),
+      text,
+      size: options.size,
+      weight,
+      color: options.color ?? COLORS.text,
+    });
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = COLORS.border, width = 0.5) {
+    this.current.ops.push({ type: "line", x1: round(x1), y1: round(y1), x2: round(x2), y2: round(y2), color, width });
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: string) {
+    this.current.ops.push({ type: "rect", x: round(x), y: round(y), width: round(width), height: round(height), fill });
+  }
+
+  image(source: string, x: number, y: number, width: number, height: number) {
+    this.current.ops.push({ type: "image", source, x, y, width, height });
+  }
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// ---------------------------------------------------------------------------
+// A4 invoice
+// ---------------------------------------------------------------------------
+
+const A4 = { width: 595.28, height: 841.89 };
+const MARGIN = 40;
+const FOOTER_HEIGHT = 28;
+
+interface TableColumn {
+  key: "index" | "description" | "sku" | "quantity" | "unitPrice" | "total";
+  en: string;
+  ar: string;
+  width: number;
+  align: Align;
+}
+
+export function layoutInvoice(doc: SalesDocument, measurer: TextMeasurer): PdfLayout {
+  const page = new PageBuilder(measurer, A4.width, A4.height);
+  const contentWidth = A4.width - MARGIN * 2;
+  const right = A4.width - MARGIN;
+  const bottom = A4.height - MARGIN - FOOTER_HEIGHT;
+  const money = (amount: number) => formatMoney(amount, doc.currency);
+
+  page.addPage();
+  let y = MARGIN;
+
+  // Header: store details on the left, document title on the right
+  let textX = MARGIN;
+  let logoBottom = y;
+  if (doc.store.logoPath) {
+    page.image(doc.store.logoPath, MARGIN, y, 64, 64);
+    textX = MARGIN + 76;
+    logoBottom = y + 64;
+  }
+
+  const storeWidth = contentWidth / 2 - (textX - MARGIN);
+  let leftY = y;
+  page.text(doc.store.name, textX, leftY, { size: 16, weight: "bold" });
+  leftY += 20;
+  if (doc.store.nameAr) {
+    page.text(doc.store.nameAr, textX, leftY, { size: 12 });
+    leftY += 16;
+  }
+  for (const detail of [doc.store.address, doc.store.addressAr]) {
+    if (!detail) continue;
+    for (const line of page.wrap(detail, storeWidth, 9)) {
+      page.text(line, textX, leftY, { size: 9, color: COLORS.muted });
+      leftY += 12;
+    }
+  }
+  if (doc.store.phone) {
+    page.text(`Tel / هاتف: ${doc.store.phone}`, textX, leftY, { size: 9, color: COLORS.muted });
+    leftY += 12;
+  }
+  if (doc.store.email) {
+    page.text(doc.store.email, textX, leftY, { size: 9, color: COLORS.muted });
+    leftY += 12;
+  }
+
+  const titleX = MARGIN + contentWidth / 2;
+  const titleWidth = contentWidth / 2;
+  let rightY = y;
+  page.text("INVOICE", titleX, rightY, { size: 20, weight: "bold", color: COLORS.accent, align: "right", width: titleWidth });
+  rightY += 24;
+  page.text("فاتورة", titleX, rightY, { size: 14, color: COLORS.accent, align: "right", width: titleWidth });
+  rightY += 22;
+  for (const [label, value] of [
+    ["Invoice No. / رقم الفاتورة", doc.number],
+    ["Date / التاريخ", formatDocumentDate(doc.issuedAt, doc.timezone)],
+  ]) {
+    page.text(label, titleX, rightY, { size: 8, color: COLORS.muted, align: "right", width: titleWidth });
+    rightY += 11;
+    page.text(value, titleX, rightY, { size: 11, weight: "bold", align: "right", width: titleWidth });
+    rightY += 16;
+  }
+
+  y = Math.max(leftY, rightY, logoBottom) + 8;
+  page.line(MARGIN, y, right, y, COLORS.accent, 1.5);
+  y += 16;
+
+  // Bill-to and payment panels
+  const panelGap = 16;
+  const panelWidth = (contentWidth - panelGap) / 2;
+  const customerLines: string[] = [];
+  if (doc.customer) {
+    for (const detail of [doc.customer.phone, doc.customer.email, doc.customer.address]) {
+      if (detail) customerLines.push(...page.wrap(detail, panelWidth - 20, 9));
+    }
+  }
+  const paymentLines: string[] = [];
+  if (doc.payment.cashTendered) {
+    paymentLines.push(`Cash Tendered / المبلغ المدفوع: ${money(doc.payment.cashTendered)}`);
+    if (doc.payment.cashTendered > doc.totals.total) {
+      paymentLines.push(`Change / الباقي: ${money(doc.payment.cashTendered - doc.totals.total)}`);
+    }
+  }
+  if (doc.payment.cardType) {
+    paymentLines.push(`Card / البطاقة: ${doc.payment.cardType}`);
+  }
+
+  const panelHeight = 48 + Math.max(customerLines.length, paymentLines.length) * 12;
+  const panels: Array<[number, string, string, string[]]> = [
+    [MARGIN, "Bill To / فاتورة إلى", doc.customer?.name || "Walk-in Customer / عميل نقدي", customerLines],
+    [MARGIN + panelWidth + panelGap, "Payment / الدفع", paymentLabel(doc.payment.method), paymentLines],
+  ];
+  for (const [x, title, headline, lines] of panels) {
+    page.rect(x, y, panelWidth, panelHeight, COLORS.panel);
+    page.rect(x, y, 3, panelHeight, COLORS.accent);
+    page.text(title, x + 12, y + 10, { size: 9, weight: "bold", color: COLORS.muted });
+    page.text(headline, x + 12, y + 24, { size: 11, weight: "bold" });
+    lines.forEach((line, index) => {
+      page.text(line, x + 12, y + 40 + index * 12, { size: 9, color: COLORS.muted });
+    });
+  }
+  y += panelHeight + 20;
+
+  // Line items, repeating the header on every page they spill onto
+  const fixedWidths = 24 + 70 + 40 + 75 + 80;
+  const columns: TableColumn[] = [
+    { key: "index", en: "#", ar: "", width: 24, align: "center" },
+    { key: "description", en: "Description", ar: "الوصف", width: contentWidth - fixedWidths, align: "left" },
+    { key: "sku", en: "SKU", ar: "الرمز", width: 70, align: "left" },
+    { key: "quantity", en: "Qty", ar: "الكمية", width: 40, align: "right" },
+    { key: "unitPrice", en: "Unit Price", ar: "سعر الوحدة", width: 75, align: "right" },
+    { key: "total", en: "Total", ar: "المجموع", width: 80, align: "right" },
+  ];
+  const cellPadding = 4;
+
+  const drawTableHeader = () => {
+    page.rect(MARGIN, y, contentWidth, 30, COLORS.accent);
+    let x = MARGIN;
+    for (const column of columns) {
+      const cellX = x + cellPadding;
+      const cellWidth = column.width - cellPadding * 2;
+      page.text(column.en, cellX, y + 5, { size: 9, weight: "bold", color: COLORS.white, align: column.align, width: cellWidth });
+      page.text(column.ar, cellX, y + 17, { size: 8, color: COLORS.white, align: column.align, width: cellWidth });
+      x += column.width;
+    }
+    y += 30;
+  };
+
+  const startContinuationPage = () => {
+    page.addPage();
+    y = MARGIN;
+    page.text(`${doc.store.name} · ${doc.number} · continued / تابع`, MARGIN, y, { size: 9, color: COLORS.muted });
+    y += 20;
+  };
+
+  drawTableHeader();
+
+  doc.lines.forEach((line, index) => {
+    const descriptionWidth = columns[1].width - cellPadding * 2;
+    const descriptionLines = page.wrap(line.description, descriptionWidth, 9);
+    const rowHeight = descriptionLines.length * 12 + 10;
+
+    if (y + rowHeight > bottom) {
+      startContinuationPage();
+      drawTableHeader();
+    }
+
+    if (index % 2 === 1) {
+      page.rect(MARGIN, y, contentWidth, rowHeight, COLORS.stripe);
+    }
+
+    const cells: Record<TableColumn["key"], string[]> = {
+      index: [String(index + 1)],
+      description: descriptionLines,
+      sku: [line.sku || "-"],
+      quantity: [lineQuantity(line)],
+      unitPrice: [money(line.unitPrice)],
+      total: [money(line.total)],
+    };
+
+    let x = MARGIN;
+    for (const column of columns) {
+      cells[column.key].forEach((text, lineIndex) => {
+        page.text(text, x + cellPadding, y + 5 + lineIndex * 12, {
+          size: 9,
+          align: column.align,
+          width: column.width - cellPadding * 2,
+        });
+      });
+      x += column.width;
+    }
+
+    y += rowHeight;
+    page.line(MARGIN, y, right, y);
+  });
+
+  // Totals block stays together on one page
+  const totalsRows: Array<[string, string, boolean]> = [
+    ["Subtotal / المجموع الفرعي", money(doc.totals.subtotal), false],
+  ];
+  if (doc.totals.discount > 0) {
+    totalsRows.push(["Discount / الخصم", money(-doc.totals.discount), false]);
+  }
+  totalsRows.push(["VAT / ضريبة القيمة المضافة", money(doc.totals.vat), false]);
+  totalsRows.push(["Total / الإجمالي", money(doc.totals.total), true]);
+
+  const totalsWidth = 240;
+  const totalsHeight = totalsRows.length * 18 + 20;
+  const closingHeight = 36;
+  y += 16;
+  if (y + totalsHeight + closingHeight > bottom) {
+    startContinuationPage();
+  }
+
+  const totalsX = right - totalsWidth;
+  page.rect(totalsX, y, totalsWidth, totalsHeight, COLORS.panel);
+  let totalsY = y + 10;
+  for (const [label, value, emphasised] of totalsRows) {
+    if (emphasised) {
+      page.line(totalsX + 10, totalsY - 3, right - 10, totalsY - 3, COLORS.accent, 1);
+      totalsY += 2;
+    }
+    const size = emphasised ? 12 : 10;
+    const weight: PdfFontWeight = emphasised ? "bold" : "regular";
+    page.text(label, totalsX + 10, totalsY, { size, weight });
+    page.text(value, totalsX + 10, totalsY, { size, weight, align: "right", width: totalsWidth - 20 });
+    totalsY += 18;
+  }
+  y += totalsHeight + 20;
+
+  page.text("Thank you for your business! / شكراً لتعاملكم معنا", MARGIN, y, {
+    size: 10,
+    color: COLORS.muted,
+    align: "center",
+    width: contentWidth,
+  });
+
+  // Footers need the final page count
+  const pageCount = page.pages.length;
+  page.pages.forEach((pdfPage, index) => {
+    const footerY = A4.height - MARGIN - 10;
+    pdfPage.ops.push(
+      { type: "line", x1: MARGIN, y1: footerY - 8, x2: right, y2: footerY - 8, color: COLORS.border, width: 0.5 },
+      {
+        type: "text",
+        x: MARGIN,
+        y: footerY,
+        text: "Computer-generated invoice, no signature required",
+        size: 8,
+        weight: "regular",
+        color: COLORS.muted,
+      },
+    );
+    const pageLabel = `Page ${index + 1} of ${pageCount}`;
+    pdfPage.ops.push({
+      type: "text",
+      x: round(right - measurer.widthOf(pageLabel, 8, "regular")),
+      y: footerY,
+      text: pageLabel,
+      size: 8,
+      weight: "regular",
+      color: COLORS.muted,
+    });
+  });
+
+  return {
+    title: `Invoice ${doc.number}`,
+    author: doc.store.name,
+    createdAt: doc.issuedAt,
+    pages: page.pages,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 80mm receipt
+// ---------------------------------------------------------------------------
+
+const RECEIPT_WIDTH = 226.77;
+const RECEIPT_MARGIN = 12;
+
+/**
+ * Receipts are laid out on a single roll-width page whose height follows the
+ * content, so long receipts never break mid-item.
+ */
+export function layoutReceipt(doc: SalesDocument, measurer: TextMeasurer): PdfLayout {
+  const page = new PageBuilder(measurer, RECEIPT_WIDTH, 0);
+  const width = RECEIPT_WIDTH - RECEIPT_MARGIN * 2;
+  const left = RECEIPT_MARGIN;
+  const right = RECEIPT_WIDTH - RECEIPT_MARGIN;
+  const money = (amount: number) => formatMoney(amount, doc.currency);
+
+  page.addPage();
+  let y = RECEIPT_MARGIN;
+
+  const centered = (text: string, size: number, weight: PdfFontWeight = "regular", color = COLORS.text) => {
+    for (const line of page.wrap(text, width, size, weight)) {
+      page.text(line, left, y, { size, weight, color, align: "center", width });
+      y += size + 3;
+    }
+  };
+
+  const row = (label: string, value: string, size = 8, weight: PdfFontWeight = "regular") => {
+    const valueWidth = page.widthOf(value, size, weight);
+    const labelLines = page.wrap(label, Math.max(40, width - valueWidth - 6), size, weight);
+    labelLines.forEach((line, index) => {
+      page.text(line, left, y + index * (size + 3), { size, weight });
+    });
+    page.text(value, left, y, { size, weight, align: "right", width });
+    y += labelLines.length * (size + 3);
+  };
+
+  const separator = () => {
+    y += 3;
+    page.line(left, y, right, y, COLORS.muted, 0.5);
+    y += 6;
+  };
+
+  if (doc.store.logoPath) {
+    page.image(doc.store.logoPath, left + (width - 48) / 2, y, 48, 48);
+    y += 54;
+  }
+
+  centered(doc.store.name, 12, "bold");
+  if (doc.store.nameAr) centered(doc.store.nameAr, 10);
+  if (doc.store.address) centered(doc.store.address, 7, "regular", COLORS.muted);
+  if (doc.store.addressAr) centered(doc.store.addressAr, 7, "regular", COLORS.muted);
+  if (doc.store.phone) centered(`Tel / هاتف: ${doc.store.phone}`, 7, "regular", COLORS.muted);
+  y += 4;
+  centered("SALES RECEIPT / إيصال بيع", 9, "bold");
+  separator();
+
+  row("Receipt / رقم الإيصال", doc.number);
+  row("Date / التاريخ", formatDocumentDate(doc.issuedAt, doc.timezone));
+  if (doc.customer) row("Customer / العميل", doc.customer.name);
+  row("Payment / الدفع", paymentLabel(doc.payment.method));
+  separator();
+
+  for (const line of doc.lines) {
+    for (const text of page.wrap(line.description, width, 8, "bold")) {
+      page.text(text, left, y, { size: 8, weight: "bold" });
+      y += 11;
+    }
+    row(`  ${lineQuantity(line)} x ${money(line.unitPrice)}`, money(line.total));
+    y += 2;
+  }
+  separator();
+
+  row("Subtotal / المجموع الفرعي", money(doc.totals.subtotal));
+  if (doc.totals.discount > 0) row("Discount / الخصم", money(-doc.totals.discount));
+  row("VAT / الضريبة", money(doc.totals.vat));
+  y += 2;
+  row("Total / الإجمالي", money(doc.totals.total), 10, "bold");
+  if (doc.payment.cashTendered) {
+    row("Cash / نقداً", money(doc.payment.cashTendered));
+    if (doc.payment.cashTendered > doc.totals.total) {
+      row("Change / الباقي", money(doc.payment.cashTendered - doc.totals.total));
+    }
+  }
+  separator();
+
+  centered("Thank you for your business!", 8, "regular", COLORS.muted);
+  centered("شكراً لتعاملكم معنا", 8, "regular", COLORS.muted);
+
+  page.current.height = round(y + RECEIPT_MARGIN);
+
+  return {
+    title: `Receipt ${doc.number}`,
+    author: doc.store.name,
+    createdAt: doc.issuedAt,
+    pages: page.pages,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// 80mm X and Z reports
+// ---------------------------------------------------------------------------
+
+/**
+ * A till report on the receipt roll, section by section as the till prints
+ * it, so the PDF kept on file matches the slip in the drawer.
+ */
+export function layoutTillReport(report: TillReport, timezone: string, measurer: TextMeasurer): PdfLayout {
+  const page = new PageBuilder(measurer, RECEIPT_WIDTH, 0);
+  const width = RECEIPT_WIDTH - RECEIPT_MARGIN * 2;
+  const left = RECEIPT_MARGIN;
+  const right = RECEIPT_WIDTH - RECEIPT_MARGIN;
+  const generatedAt = new Date(report.generatedAt);
+
+  page.addPage();
+  let y = RECEIPT_MARGIN;
+
+  const centered = (text: string, size: number, weight: PdfFontWeight = "regular", color = COLORS.text) => {
+    for (const line of page.wrap(text, width, size, weight)) {
+      page.text(line, left, y, { size, weight, color, align: "center", width });
+      y += size + 3;
+    }
+  };
+
+  const row = (label: string, value: string, size = 8, weight: PdfFontWeight = "regular") => {
+    const valueWidth = page.widthOf(value, size, weight);
+    const labelLines = page.wrap(label, Math.max(40, width - valueWidth - 6), size, weight);
+    labelLines.forEach((line, index) => {
+      page.text(line, left, y + index * (size + 3), { size, weight });
+    });
+    page.text(value, left, y, { size, weight, align: "right", width });
+    y += labelLines.length * (size + 3);
+  };
+
+  const separator = () => {
+    y += 3;
+    page.line(left, y, right, y, COLORS.muted, 0.5);
+    y += 6;
+  };
+
+  centered(report.store.name, 12, "bold");
+  centered(report.kind === "z" ? `Z REPORT ${report.number ?? ""}`.trim() : "X REPORT", 10, "bold");
+  if (report.kind === "x") centered("Mid-day reading, totals not reset", 7, "regular", COLORS.muted);
+  separator();
+
+  row("Register", report.register?.name ?? "All registers");
+  row("Trading day", report.date);
+  row(report.kind === "z" ? "Issued" : "Printed", formatDocumentDate(generatedAt, timezone));
+  separator();
+
+  for (const section of tillReportSections(report)) {
+    row(section.heading, "", 8, "bold");
+    for (const line of section.lines) {
+      row(line.label, line.value);
+    }
+    separator();
+  }
+
+  centered(report.kind === "z" ? "End of day" : "End of X report", 8, "regular", COLORS.muted);
+
+  page.current.height = round(y + RECEIPT_MARGIN);
+
+  return {
+    title: tillReportTitle(report),
+    author: report.store.name,
+    createdAt: generatedAt,
+    pages: page.pages,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// A4 stock transfer note
+// ---------------------------------------------------------------------------
+
+export interface TransferNoteLine {
+  description: string;
+  sku?: string | null;
+  requested: number;
+  dispatched: number;
+  received: number;
+  discrepancyNote?: string | null;
+}
+
+export interface TransferNoteDocument {
+  number: string;
+  status: string;
+  issuedAt: Date;
+  timezone: string;
+  from: { name: string; address?: string | null; phone?: string | null };
+  to: { name: string; address?: string | null; phone?: string | null };
+  dispatchedAt?: Date | null;
+  notes?: string | null;
+  lines: TransferNoteLine[];
+}
+
+/**
+ * The paper that travels with a transfer: what was asked for, what was
+ * packed and, once booked, what arrived, with space for both signatures.
+ */
+export function layoutTransferNote(doc: TransferNoteDocument, measurer: TextMeasurer): PdfLayout {
+  const page = new PageBuilder(measurer, A4.width, A4.height);
+  const contentWidth = A4.width - MARGIN * 2;
+  const right = A4.width - MARGIN;
+  const bottom = A4.height - MARGIN - FOOTER_HEIGHT;
+
+  page.addPage();
+  let y = MARGIN;
+
+  page.text("STOCK TRANSFER NOTE", MARGIN, y, { size: 20, weight: "bold", color: COLORS.accent });
+  page.text(doc.number, MARGIN, y, { size: 14, weight: "bold", align: "right", width: contentWidth });
+  y += 24;
+  page.text("إذن تحويل مخزون", MARGIN, y, { size: 13, color: COLORS.accent });
+  page.text(formatDocumentDate(doc.issuedAt, doc.timezone), MARGIN, y, {
+    size: 9,
+    color: COLORS.muted,
+    align: "right",
+    width: contentWidth,
+  });
+  y += 16;
+  page.text(`Status / الحالة: ${doc.status.replace(/_/g, " ")}`, MARGIN, y, {
+    size: 9,
+    color: COLORS.muted,
+    align: "right",
+    width: contentWidth,
+  });
+  y += 14;
+  page.line(MARGIN, y, right, y, COLORS.accent, 1.5);
+  y += 16;
+
+  // From and To panels
+  const panelGap = 16;
+  const panelWidth = (contentWidth - panelGap) / 2;
+  const panelLines = (store: TransferNoteDocument["from"]) => [
+    ...(store.address ? page.wrap(store.address, panelWidth - 20, 9) : []),
+    ...(store.phone ? [`Tel / هاتف: ${store.phone}`] : []),
+  ];
+  const fromLines = panelLines(doc.from);
+  const toLines = panelLines(doc.to);
+  if (doc.dispatchedAt) {
+    fromLines.push(`Dispatched / أرسل: ${formatDocumentDate(doc.dispatchedAt, doc.timezone)}`);
+  }
+  const panelHeight = 48 + Math.max(fromLines.length, toLines.length) * 12;
+  const panels: Array<[number, string, string, string[]]> = [
+    [MARGIN, "From / من", doc.from.name, fromLines],
+    [MARGIN + panelWidth + panelGap, "To / إلى", doc.to.name, toLines],
+  ];
+  for (const [x, title, headline, lines] of panels) {
+    page.rect(x, y, panelWidth, panelHeight, COLORS.panel);
+    page.rect(x, y, 3, panelHeight, COLORS.accent);
+    page.text(title, x + 12, y + 10, { size: 9, weight: "bold", color: COLORS.muted });
+    page.text(headline, x + 12, y + 24, { size: 11, weight: "bold" });
+    lines.forEach((line, index) => {
+      page.text(line, x + 12, y + 40 + index * 12, { size: 9, color: COLORS.muted });
+    });
+  }
+  y += panelHeight + 16;
+
+  if (doc.notes) {
+    for (const line of page.wrap(`Notes / ملاحظات: ${doc.notes}`, contentWidth, 9)) {
+      page.text(line, MARGIN, y, { size: 9 });
+      y += 12;
+    }
+    y += 8;
+  }
+
+  const columns: Array<{ en: string; ar: string; width: number; align: Align }> = [
+    { en: "#", ar: "", width: 24, align: "center" },
+    { en: "Description", ar: "الوصف", width: contentWidth - (24 + 80 + 60 * 3), align: "left" },
+    { en: "SKU", ar: "الرمز", width: 80, align: "left" },
+    { en: "Requested", ar: "المطلوب", width: 60, align: "right" },
+    { en: "Sent", ar: "المرسل", width: 60, align: "right" },
+    { en: "Received", ar: "المستلم", width: 60, align: "right" },
+  ];
+  const cellPadding = 4;
+
+  const drawTableHeader = () => {
+    page.rect(MARGIN, y, contentWidth, 30, COLORS.accent);
+    let x = MARGIN;
+    for (const column of columns) {
+      const cellWidth = column.width - cellPadding * 2;
+      page.text(column.en, x + cellPadding, y + 5, { size: 9, weight: "bold", color: COLORS.white, align: column.align, width: cellWidth });
+      page.text(column.ar, x + cellPadding, y + 17, { size: 8, color: COLORS.white, align: column.align, width: cellWidth });
+      x += column.width;
+    }
+    y += 30;
+  };
+
+  drawTableHeader();
+
+  doc.lines.forEach((line, index) => {
+    const descriptionWidth = columns[1].width - cellPadding * 2;
+    const descriptionLines = page.wrap(line.description, descriptionWidth, 9);
+    const noteLines = line.discrepancyNote ? page.wrap(`Note: ${line.discrepancyNote}`, descriptionWidth, 8) : [];
+    const rowHeight = (descriptionLines.length + noteLines.length) * 12 + 10;
+
+    if (y + rowHeight > bottom) {
+      page.addPage();
+      y = MARGIN;
+      page.text(`${doc.number} · continued / تابع`, MARGIN, y, { size: 9, color: COLORS.muted });
+      y += 20;
+      drawTableHeader();
+    }
+
+    if (index % 2 === 1) {
+      page.rect(MARGIN, y, contentWidth, rowHeight, COLORS.stripe);
+    }
+
+    const cells: Array<Array<{ text: string; color?: string }>> = [
+      [{ text: String(index + 1) }],
+      [...descriptionLines.map((text) => ({ text })), ...noteLines.map((text) => ({ text, color: COLORS.muted }))],
+      [{ text: line.sku || "-" }],
+      [{ text: formatQuantity(line.requested) }],
+      [{ text: formatQuantity(line.dispatched) }],
+      [{ text: formatQuantity(line.received) }],
+    ];
+
+    let x = MARGIN;
+    columns.forEach((column, columnIndex) => {
+      cells[columnIndex].forEach((cell, lineIndex) => {
+        page.text(cell.text, x + cellPadding, y + 5 + lineIndex * 12, {
+          size: 9,
+          color: cell.color,
+          align: column.align,
+          width: column.width - cellPadding * 2,
+        });
+      });
+      x += column.width;
+    });
+
+    y += rowHeight;
+    page.line(MARGIN, y, right, y);
+  });
+
+  // Signatures stay together on one page
+  const signatureHeight = 70;
+  y += 24;
+  if (y + signatureHeight > bottom) {
+    page.addPage();
+    y = MARGIN;
+  }
+  const signatureWidth = (contentWidth - panelGap) / 2;
+  for (const [x, label] of [
+    [MARGIN, "Dispatched by / المرسل"],
+    [MARGIN + signatureWidth + panelGap, "Received by / المستلم"],
+  ] as Array<[number, string]>) {
+    page.line(x, y + 40, x + signatureWidth, y + 40, COLORS.muted, 0.75);
+    page.text(label, x, y + 46, { size: 9, color: COLORS.muted });
+    page.text("Name, signature and date / الاسم والتوقيع والتاريخ", x, y + 58, { size: 7, color: COLORS.muted });
+  }
+
+  const pageCount = page.pages.length;
+  page.pages.forEach((pdfPage, index) => {
+    const footerY = A4.height - MARGIN - 10;
+    const pageLabel = `Page ${index + 1} of ${pageCount}`;
+    pdfPage.ops.push(
+      { type: "line", x1: MARGIN, y1: footerY - 8, x2: right, y2: footerY - 8, color: COLORS.border, width: 0.5 },
+      {
+        type: "text",
+        x: MARGIN,
+        y: footerY,
+        text: `${doc.from.name} → ${doc.to.name}`,
+        size: 8,
+        weight: "regular",
+        color: COLORS.muted,
+      },
+      {
+        type: "text",
+        x: round(right - measurer.widthOf(pageLabel, 8, "regular")),
+        y: footerY,
+        text: pageLabel,
+        size: 8,
+        weight: "regular",
+        color: COLORS.muted,
+      },
+    );
+  });
+
+  return {
+    title: `Transfer ${doc.number}`,
+    author: doc.from.name,
+    createdAt: doc.issuedAt,
+    pages: page.pages,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Purchase order (A4)
+// ---------------------------------------------------------------------------
+
+export interface PurchaseOrderLine {
+  description: string;
+  sku?: string | null;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrderDocument {
+  number: string;
+  issuedAt: Date;
+  timezone: string;
+  currency: string;
+  supplier: { name: string; contactPerson?: string | null; address?: string | null; phone?: string | null; email?: string | null };
+  deliverTo: { name: string; address?: string | null; phone?: string | null };
+  expectedDate?: Date | null;
+  notes?: string | null;
+  lines: PurchaseOrderLine[];
+}
+
+/** The order as the supplier receives it: what to deliver, where, and at what price. */
+export function layoutPurchaseOrder(doc: PurchaseOrderDocument, measurer: TextMeasurer): PdfLayout {
+  const page = new PageBuilder(measurer, A4.width, A4.height);
+  const money = (amount: number) => formatMoney(amount, doc.currency);
+  const contentWidth = A4.width - MARGIN * 2;
+  const right = A4.width - MARGIN;
+  const bottom = A4.height - MARGIN - FOOTER_HEIGHT;
+
+  page.addPage();
+  let y = MARGIN;
+
+  page.text("PURCHASE ORDER", MARGIN, y, { size: 20, weight: "bold", color: COLORS.accent });
+  page.text(doc.number, MARGIN, y, { size: 14, weight: "bold", align: "right", width: contentWidth });
+  y += 24;
+  page.text("أمر شراء", MARGIN, y, { size: 13, color: COLORS.accent });
+  page.text(formatDocumentDate(doc.issuedAt, doc.timezone), MARGIN, y, {
+    size: 9,
+    color: COLORS.muted,
+    align: "right",
+    width: contentWidth,
+  });
+  y += 16;
+  if (doc.expectedDate) {
+    page.text(`Deliver by / التسليم قبل: ${formatDocumentDate(doc.expectedDate, doc.timezone).slice(0, 10)}`, MARGIN, y, {
+      size: 9,
+      color: COLORS.muted,
+      align: "right",
+      width: contentWidth,
+    });
+  }
+  y += 14;
+  page.line(MARGIN, y, right, y, COLORS.accent, 1.5);
+  y += 16;
+
+  // Supplier and delivery panels
+  const panelGap = 16;
+  const panelWidth = (contentWidth - panelGap) / 2;
+  const supplierLines = [
+    ...(doc.supplier.contactPerson ? [`Attn / عناية: ${doc.supplier.contactPerson}`] : []),
+    ...(doc.supplier.address ? page.wrap(doc.supplier.address, panelWidth - 20, 9) : []),
+    ...(doc.supplier.phone ? [`Tel / هاتف: ${doc.supplier.phone}`] : []),
+    ...(doc.supplier.email ? [doc.supplier.email] : []),
+  ];
+  const deliveryLines = [
+    ...(doc.deliverTo.address ? page.wrap(doc.deliverTo.address, panelWidth - 20, 9) : []),
+    ...(doc.deliverTo.phone ? [`Tel / هاتف: ${doc.deliverTo.phone}`] : []),
+  ];
+  const panelHeight = 48 + Math.max(supplierLines.length, deliveryLines.length) * 12;
+  const panels: Array<[number, string, string, string[]]> = [
+    [MARGIN, "Supplier / المورد", doc.supplier.name, supplierLines],
+    [MARGIN + panelWidth + panelGap, "Deliver to / التسليم إلى", doc.deliverTo.name, deliveryLines],
+  ];
+  for (const [x, title, headline, lines] of panels) {
+    page.rect(x, y, panelWidth, panelHeight, COLORS.panel);
+    page.rect(x, y, 3, panelHeight, COLORS.accent);
+    page.text(title, x + 12, y + 10, { size: 9, weight: "bold", color: COLORS.muted });
+    page.text(headline, x + 12, y + 24, { size: 11, weight: "bold" });
+    lines.forEach((line, index) => {
+      page.text(line, x + 12, y + 40 + index * 12, { size: 9, color: COLORS.muted });
+    });
+  }
+  y += panelHeight + 16;
+
+  if (doc.notes) {
+    for (const line of page.wrap(`Notes / ملاحظات: ${doc.notes}`, contentWidth, 9)) {
+      page.text(line, MARGIN, y, { size: 9 });
+      y += 12;
+    }
+    y += 8;
+  }
+
+  const columns: Array<{ en: string; ar: string; width: number; align: Align }> = [
+    { en: "#", ar: "", width: 24, align: "center" },
+    { en: "Description", ar: "الوصف", width: contentWidth - (24 + 80 + 50 + 70 + 80), align: "left" },
+    { en: "SKU", ar: "الرمز", width: 80, align: "left" },
+    { en: "Qty", ar: "الكمية", width: 50, align: "right" },
+    { en: "Unit cost", ar: "سعر الوحدة", width: 70, align: "right" },
+    { en: "Amount", ar: "المبلغ", width: 80, align: "right" },
+  ];
+  const cellPadding = 4;
+
+  const drawTableHeader = () => {
+    page.rect(MARGIN, y, contentWidth, 30, COLORS.accent);
+    let x = MARGIN;
+    for (const column of columns) {
+      const cellWidth = column.width - cellPadding * 2;
+      page.text(column.en, x + cellPadding, y + 5, { size: 9, weight: "bold", color: COLORS.white, align: column.align, width: cellWidth });
+      page.text(column.ar, x + cellPadding, y + 17, { size: 8, color: COLORS.white, align: column.align, width: cellWidth });
+      x += column.width;
+    }
+    y += 30;
+  };
+
+  drawTableHeader();
+
+  let subtotal = 0;
+  doc.lines.forEach((line, index) => {
+    const amount = round(line.quantity * line.unitCost);
+    subtotal = round(subtotal + amount);
+    const descriptionLines = page.wrap(line.description, columns[1].width - cellPadding * 2, 9);
+    const rowHeight = descriptionLines.length * 12 + 10;
+
+    if (y + rowHeight > bottom) {
+      page.addPage();
+      y = MARGIN;
+      page.text(`${doc.number} · continued / تابع`, MARGIN, y, { size: 9, color: COLORS.muted });
+      y += 20;
+      drawTableHeader();
+    }
+
+    if (index % 2 === 1) {
+      page.rect(MARGIN, y, contentWidth, rowHeight, COLORS.stripe);
+    }
+
+    const cells: string[][] = [
+      [String(index + 1)],
+      descriptionLines,
+      [line.sku || "-"],
+      [formatQuantity(line.quantity)],
+      [money(line.unitCost)],
+      [money(amount)],
+    ];
+
+    let x = MARGIN;
+    columns.forEach((column, columnIndex) => {
+      cells[columnIndex].forEach((text, lineIndex) => {
+        page.text(text, x + cellPadding, y + 5 + lineIndex * 12, {
+          size: 9,
+          align: column.align,
+          width: column.width - cellPadding * 2,
+        });
+      });
+      x += column.width;
+    });
+
+    y += rowHeight;
+    page.line(MARGIN, y, right, y);
+  });
+
+  // Total and authorisation stay together on one page
+  const totalsWidth = 240;
+  const closingHeight = 38 + 70;
+  y += 16;
+  if (y + closingHeight > bottom) {
+    page.addPage();
+    y = MARGIN;
+  }
+  const totalsX = right - totalsWidth;
+  page.rect(totalsX, y, totalsWidth, 38, COLORS.panel);
+  page.text("Total / الإجمالي", totalsX + 10, y + 12, { size: 12, weight: "bold" });
+  page.text(money(subtotal), totalsX + 10, y + 12, { size: 12, weight: "bold", align: "right", width: totalsWidth - 20 });
+  y += 38 + 24;
+
+  const signatureWidth = (contentWidth - panelGap) / 2;
+  page.line(MARGIN, y + 40, MARGIN + signatureWidth, y + 40, COLORS.muted, 0.75);
+  page.text("Authorised by / المعتمد", MARGIN, y + 46, { size: 9, color: COLORS.muted });
+  page.text("Please quote the order number on your invoice / يرجى ذكر رقم الأمر في الفاتورة", MARGIN + signatureWidth + panelGap, y + 46, {
+    size: 8,
+    color: COLORS.muted,
+    width: signatureWidth,
+  });
+
+  const pageCount = page.pages.length;
+  page.pages.forEach((pdfPage, index) => {
+    const footerY = A4.height - MARGIN - 10;
+    const pageLabel = `Page ${index + 1} of ${pageCount}`;
+    pdfPage.ops.push(
+      { type: "line", x1: MARGIN, y1: footerY - 8, x2: right, y2: footerY - 8, color: COLORS.border, width: 0.5 },
+      {
+        type: "text",
+        x: MARGIN,
+        y: footerY,
+        text: `${doc.deliverTo.name} · ${doc.number}`,
+        size: 8,
+        weight: "regular",
+        color: COLORS.muted,
+      },
+      {
+        type: "text",
+        x: round(right - measurer.widthOf(pageLabel, 8, "regular")),
+        y: footerY,
+        text: pageLabel,
+        size: 8,
+        weight: "regular",
+        color: COLORS.muted,
+      },
+    );
+  });
+
+  return {
+    title: `Purchase order ${doc.number}`,
+    author: doc.deliverTo.name,
+    createdAt: doc.issuedAt,
+    pages: page.pages,
+  };
+}
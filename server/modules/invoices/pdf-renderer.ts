@@ -0,0 +1,138 @@
+import fs from "fs";
+import { createRequire } from "module";
+import PDFDocument from "pdfkit";
+import {
+  layoutInvoice,
+  layoutPurchaseOrder,
+  layoutReceipt,
+  layoutTillReport,
+  layoutTransferNote,
+  splitDirectionalRuns,
+  type PdfFontWeight,
+  type PdfLayout,
+  type PurchaseOrderDocument,
+  type SalesDocument,
+  type TextMeasurer,
+  type TransferNoteDocument,
+} from "./pdf-layout";
+import type { TillReport } from "@shared/till-reports";
+
+const require = createRequire(import.meta.url);
+
+// DejaVu Sans covers both Latin and Arabic, so mixed labels need one font
+const FONT_FILES: Record<PdfFontWeight, string> = {
+  regular: require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans.ttf"),
+  bold: require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf"),
+};
+
+const FONT_NAMES: Record<PdfFontWeight, string> = {
+  regular: "DocumentSans",
+  bold: "DocumentSans-Bold",
+};
+
+const SUPPORTED_IMAGE = /\.(png|jpe?g)$/i;
+
+// Passing explicit features makes PDFKit shape each run as a whole instead of
+// word by word, which would otherwise put Arabic words in the wrong order
+const TEXT_OPTIONS = { features: ["kern", "liga"] as PDFKit.Mixins.OpenTypeFeatures[] };
+
+function createDocument(info?: PDFKit.DocumentInfo): PDFKit.PDFDocument {
+  const doc = new PDFDocument({ autoFirstPage: false, compress: true, info });
+  doc.registerFont(FONT_NAMES.regular, FONT_FILES.regular);
+  doc.registerFont(FONT_NAMES.bold, FONT_FILES.bold);
+  return doc;
+}
+
+function createMeasurer(doc: PDFKit.PDFDocument): TextMeasurer {
+  return {
+    widthOf(text, size, weight) {
+      doc.font(FONT_NAMES[weight]).fontSize(size);
+      return splitDirectionalRuns(text).reduce((sum, run) => sum + doc.widthOfString(run.text, TEXT_OPTIONS), 0);
+    },
+  };
+}
+
+function paint(doc: PDFKit.PDFDocument, layout: PdfLayout): void {
+  for (const page of layout.pages) {
+    doc.addPage({ size: [page.width, page.height], margin: 0 });
+
+    for (const op of page.ops) {
+      switch (op.type) {
+        case "rect":
+          doc.rect(op.x, op.y, op.width, op.height).fill(op.fill);
+          break;
+        case "line":
+          doc.moveTo(op.x1, op.y1).lineTo(op.x2, op.y2).lineWidth(op.width).stroke(op.color);
+          break;
+        case "image":
+          // A missing or unreadable logo should never block the document
+          if (SUPPORTED_IMAGE.test(op.source) && fs.existsSync(op.source)) {
+            try {
+              doc.image(op.source, op.x, op.y, { fit: [op.width, op.height], align: "center", valign: "center" });
+            } catch (error) {
+              console.error("Failed to embed document image:", error);
+            }
+          }
+          break;
+        case "text": {
+          doc.font(FONT_NAMES[op.weight]).fontSize(op.size).fillColor(op.color);
+          let x = op.x;
+          for (const run of splitDirectionalRuns(op.text)) {
+            doc.text(run.text, x, op.y, { ...TEXT_OPTIONS, lineBreak: false });
+            x += doc.widthOfString(run.text, TEXT_OPTIONS);
+          }
+          break;
+        }
+      }
+    }
+  }
+}
+
+function render(build: (measurer: TextMeasurer) => PdfLayout): Promise<Buffer> {
+  // Layout is measured on a scratch document that is never written out
+  const layout = build(createMeasurer(createDocument()));
+
+  // The file ID is derived from the info dictionary, so fixed dates keep the
+  // output byte-for-byte reproducible
+  const doc = createDocument({
+    Title: layout.title,
+    Author: layout.author,
+    Creator: "Otrix POS",
+    CreationDate: layout.createdAt,
+    ModDate: layout.createdAt,
+  });
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      paint(doc, layout);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+export function renderInvoicePdf(document: SalesDocument): Promise<Buffer> {
+  return render((measurer) => layoutInvoice(document, measurer));
+}
+
+export function renderReceiptPdf(document: SalesDocument): Promise<Buffer> {
+  return render((measurer) => layoutReceipt(document, measurer));
+}
+
+export function renderTillReportPdf(report: TillReport, timezone: string): Promise<Buffer> {
+  return render((measurer) => layoutTillReport(report, timezone, measurer));
+}
+
+export function renderTransferNotePdf(document: TransferNoteDocument): Promise<Buffer> {
+  return render((measurer) => layoutTransferNote(document, measurer));
+}
+
+export function renderPurchaseOrderPdf(document: PurchaseOrderDocument): Promise<Buffer> {
+  return render((measurer) => layoutPurchaseOrder(document, measurer));
+}
@@ -1,9 +1,11 @@
 import type { Express } from "express";
 import { storage } from "../../storage";
+import { isAuthenticated } from "../../auth";
+import { requirePermission, transactionStore } from "../shared/authorization";
 import { generateInvoiceForTransaction } from "./service";
 
 export function registerInvoiceRoutes(app: Express) {
-  app.post("/api/transactions/:id/generate-invoice", async (req, res) => {
+  app.post("/api/transactions/:id/generate-invoice", isAuthenticated, requirePermission("invoices", "create", { storeOf: transactionStore }), async (req, res) => {
     const transactionId = Number.parseInt(req.params.id, 10);
     if (Number.isNaN(transactionId) || transactionId <= 0) {
       return res.status(400).json({ message: "Invalid transaction ID" });
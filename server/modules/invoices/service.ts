@@ -1,7 +1,11 @@
+import fs from "fs";
+import path from "path";
 import type {
+  Customer,
   GeneratedInvoice,
   GeneratedInvoiceItem,
   InsertGeneratedInvoice,
+  Store,
   Transaction,
   TransactionItem,
 } from "@shared/schema";
@@ -24,6 +28,58 @@ interface GenerateInvoiceResult {
 
 const DEFAULT_DISCOUNT = "0.00";
 
+// Invoices generated before PDF rendering point at .html files
+function hasPdfFile(invoice: GeneratedInvoice): boolean {
+  return Boolean(
+    invoice.pdfFilePath &&
+      invoice.pdfFilePath.endsWith(".pdf") &&
+      fs.existsSync(path.join(process.cwd(), invoice.pdfFilePath))
+  );
+}
+
+async function writeInvoicePdf(
+  invoice: GeneratedInvoice,
+  context: { transaction: Transaction; store: Store; customer?: Customer }
+): Promise<{ filePath: string; url: string }> {
+  const items: GeneratedInvoiceItem[] = await storage.getGeneratedInvoiceItems(invoice.id);
+
+  const result = await pdfService.generateInvoicePDF({
+    invoice,
+    items,
+    ...context,
+  });
+
+  await storage.updateGeneratedInvoice(invoice.id, {
+    pdfFilePath: result.filePath,
+    pdfUrl: result.url,
+  });
+
+  return result;
+}
+
+/**
+ * Returns the on-disk PDF for an invoice, rendering it first when it has
+ * never been generated or only exists in the old HTML format.
+ */
+export async function ensureInvoicePdf(invoice: GeneratedInvoice): Promise<string> {
+  if (hasPdfFile(invoice)) {
+    return path.join(process.cwd(), invoice.pdfFilePath!);
+  }
+
+  const transaction = await storage.getTransaction(invoice.transactionId);
+  if (!transaction) {
+    throw new Error("Transaction not found for invoice");
+  }
+  const store = await storage.getStore(invoice.storeId);
+  if (!store) {
+    throw new Error("Store not found for invoice generation");
+  }
+  const customer = invoice.customerId ? await storage.getCustomer(invoice.customerId) : undefined;
+
+  const { filePath } = await writeInvoicePdf(invoice, { transaction, store, customer });
+  return path.join(process.cwd(), filePath);
+}
+
 export async function generateInvoiceForTransaction(
   params: GenerateInvoiceParams
 ): Promise<GenerateInvoiceResult> {
@@ -73,6 +129,7 @@ export async function generateInvoiceForTransaction(
             productName: product?.name || "Unknown Product",
             sku: product?.sku || "",
             quantity: item.quantity,
+            unit: item.unit,
             unitPrice: item.unitPrice,
             total: item.total,
           });
@@ -80,27 +137,15 @@ export async function generateInvoiceForTransaction(
       }
     }
 
-    let invoiceUrl = generatedInvoice.pdfUrl ?? null;
+    let invoiceUrl = hasPdfFile(generatedInvoice) ? generatedInvoice.pdfUrl ?? null : null;
 
     if (!invoiceUrl) {
       try {
-        const items: GeneratedInvoiceItem[] = await storage.getGeneratedInvoiceItems(
-          generatedInvoice.id
-        );
-
-        const { filePath, url } = await pdfService.generateInvoicePDF({
-          invoice: generatedInvoice,
-          items,
-          customer: customer ?? undefined,
-          store,
+        const { url } = await writeInvoicePdf(generatedInvoice, {
           transaction,
+          store,
+          customer: customer ?? undefined,
         });
-
-        await storage.updateGeneratedInvoice(generatedInvoice.id, {
-          pdfFilePath: filePath,
-          pdfUrl: url,
-        });
-
         invoiceUrl = url;
       } catch (pdfError) {
         console.error("PDF generation error:", pdfError);
@@ -1,12 +1,40 @@
-import { and, asc, desc, eq, ilike, or, sql } from "drizzle-orm";
+import { and, asc, desc, eq, ilike, inArray, ne, or, sql } from "drizzle-orm";
 
 import {
   InsertProduct,
   Product,
+  ProductIdentifier,
+  ProductIdentifierType,
+  ProductUnit,
+  productIdentifiers,
+  productUnits,
   products,
+  storeProducts,
 } from "@shared/schema";
+import { normalisePlu } from "@shared/barcodes";
+import type { UnitProduct } from "@shared/units";
+import {
+  VARIANT_SHARED_FIELDS,
+  checkVariantOptions,
+  findVariant,
+  isVariantParent,
+  sharedFields,
+  variantLabel,
+  variantName,
+} from "@shared/variants";
 
 import { db } from "../../db";
+import { normaliseIdentifierCode, type CodeBook, type ProductIdentifierInput } from "../inventory/identifiers";
+import type { ProductUnitsInput } from "../inventory/units";
+import type { BulkVariantUpdateInput, CreateVariantInput } from "../inventory/variants";
+
+type ProductExecutor = Pick<typeof db, "select">;
+// Makes product changes: db, or the transaction an audit entry is written in
+type ProductWriter = Pick<typeof db, "select" | "insert" | "update" | "delete" | "transaction">;
+
+export type ProductResult<T> =
+  | { success: true; data: T }
+  | { success: false; message: string; code?: "NOT_FOUND" };
 
 export async function getProducts(): Promise<Product[]> {
   return await db
@@ -25,6 +53,7 @@ export async function getProductBySku(sku: string): Promise<Product | undefined>
   return product || undefined;
 }
 
+/** The product with this main barcode, or failing that with it as one of its other barcodes. */
 export async function getProductByBarcode(
   barcode: string,
 ): Promise<Product | undefined> {
@@ -32,11 +61,44 @@ export async function getProductByBarcode(
     .select()
     .from(products)
     .where(eq(products.barcode, barcode));
-  return product || undefined;
+  if (product) return product;
+
+  const [mapped] = await db
+    .select({ product: products })
+    .from(productIdentifiers)
+    .innerJoin(products, eq(products.id, productIdentifiers.productId))
+    .where(and(eq(productIdentifiers.type, "barcode"), eq(productIdentifiers.code, normaliseIdentifierCode("barcode", barcode))))
+    .limit(1);
+  return mapped?.product;
+}
+
+// Compared the way the unique index on products reads them: without leading zeros
+const pluMatches = (plu: string) => sql`coalesce(nullif(ltrim(${products.plu}, '0'), ''), '0') = ${normalisePlu(plu)}`;
+
+/** The product a scale PLU belongs to, among the products the store stocks. */
+export async function getProductByPlu(plu: string, storeId: number): Promise<Product | undefined> {
+  const [stocked] = await db
+    .select({ product: products })
+    .from(products)
+    .innerJoin(storeProducts, and(eq(storeProducts.productId, products.id), eq(storeProducts.storeId, storeId)))
+    .where(pluMatches(plu))
+    .limit(1);
+  return stocked?.product;
+}
+
+/** The product other than `exceptId` that already has the PLU, if any. */
+export async function getPluOwner(plu: string, exceptId?: number): Promise<Pick<Product, "id" | "name"> | undefined> {
+  const [owner] = await db
+    .select({ id: products.id, name: products.name })
+    .from(products)
+    .where(and(pluMatches(plu), exceptId ? ne(products.id, exceptId) : undefined))
+    .limit(1);
+  return owner;
 }
 
 export async function createProduct(
   insertProduct: InsertProduct,
+  executor: ProductWriter = db,
 ): Promise<Product> {
   // Normalize price and cost to strings if they're numbers
   const normalizedProduct = {
@@ -44,13 +106,14 @@ export async function createProduct(
     price: typeof insertProduct.price === 'number' ? insertProduct.price.toString() : insertProduct.price,
     cost: insertProduct.cost ? (typeof insertProduct.cost === 'number' ? insertProduct.cost.toString() : insertProduct.cost) : undefined,
   };
-  const [product] = await db.insert(products).values(normalizedProduct).returning();
+  const [product] = await executor.insert(products).values(normalizedProduct).returning();
   return product;
 }
 
 export async function updateProduct(
   id: number,
   product: Partial<InsertProduct>,
+  executor: ProductWriter = db,
 ): Promise<Product | undefined> {
   // Normalize price and cost to strings if they're numbers
   const normalizedProduct: any = { ...product };
@@ -60,17 +123,28 @@ export async function updateProduct(
   if (product.cost !== undefined && product.cost !== null) {
     normalizedProduct.cost = typeof product.cost === 'number' ? product.cost.toString() : product.cost;
   }
-  const [updatedProduct] = await db
+  const [updatedProduct] = await executor
     .update(products)
     .set(normalizedProduct)
     .where(eq(products.id, id))
     .returning();
+
+  // Variants follow their parent's shared details
+  if (updatedProduct && isVariantParent(updatedProduct)) {
+    const shared = Object.fromEntries(
+      VARIANT_SHARED_FIELDS.filter((field) => product[field] !== undefined).map((field) => [field, updatedProduct[field]]),
+    );
+    if (Object.keys(shared).length > 0) {
+      await executor.update(products).set({ ...shared, updatedAt: new Date() }).where(eq(products.parentId, id));
+    }
+  }
   return updatedProduct || undefined;
 }
 
-export async function deleteProduct(id: number): Promise<boolean> {
+export async function deleteProduct(id: number, executor: ProductWriter = db): Promise<boolean> {
   try {
-    const result = await db.delete(products).where(eq(products.id, id));
+    // In a savepoint, so a product still referenced leaves the caller's transaction usable
+    const result = await executor.transaction((tx) => tx.delete(products).where(eq(products.id, id)));
     return (result.rowCount ?? 0) > 0;
   } catch (error) {
     console.error("Error deleting product:", error);
@@ -180,3 +254,395 @@ export async function getRecentProducts(limit = 8): Promise<Product[]> {
     .orderBy(desc(products.createdAt))
     .limit(limit);
 }
+
+export interface ProductUnitSet extends UnitProduct {
+  productId: number;
+  units: ProductUnit[];
+}
+
+export async function getProductUnits(productId: number): Promise<ProductUnitSet | undefined> {
+  return (await getUnitsForProducts([productId])).get(productId);
+}
+
+/** Base unit and other units of each product, keyed by product id. */
+export async function getUnitsForProducts(
+  productIds: number[],
+  executor: ProductExecutor = db,
+): Promise<Map<number, ProductUnitSet>> {
+  const sets = new Map<number, ProductUnitSet>();
+  if (productIds.length === 0) return sets;
+
+  const bases = await executor
+    .select({ productId: products.id, baseUnit: products.baseUnit, baseUnitDecimal: products.baseUnitDecimal })
+    .from(products)
+    .where(inArray(products.id, productIds));
+  for (const base of bases) sets.set(base.productId, { ...base, units: [] });
+
+  const units = await executor
+    .select()
+    .from(productUnits)
+    .where(inArray(productUnits.productId, productIds))
+    .orderBy(asc(productUnits.factor));
+  for (const unit of units) sets.get(unit.productId)?.units.push(unit);
+  return sets;
+}
+
+/**
+ * Replaces a product's base unit and its other units. Past sales, receipts
+ * and counts keep the factor they were recorded with.
+ */
+export async function setProductUnits(productId: number, input: ProductUnitsInput, executor: ProductWriter = db): Promise<ProductUnitSet | undefined> {
+  return await executor.transaction(async (tx) => {
+    const [product] = await tx
+      .update(products)
+      .set({ baseUnit: input.baseUnit, baseUnitDecimal: input.baseUnitDecimal, updatedAt: new Date() })
+      .where(eq(products.id, productId))
+      .returning({ id: products.id });
+    if (!product) return undefined;
+
+    await tx.delete(productUnits).where(eq(productUnits.productId, productId));
+    const units = input.units.length > 0
+      ? await tx
+          .insert(productUnits)
+          .values(input.units.map((unit) => ({
+            productId,
+            code: unit.code,
+            name: unit.name ?? null,
+            factor: String(unit.factor),
+            allowsDecimal: unit.allowsDecimal,
+            price: unit.price === null || unit.price === undefined ? null : unit.price.toFixed(2),
+            isPurchaseUnit: unit.isPurchaseUnit,
+            isSalesUnit: unit.isSalesUnit,
+          })))
+          .returning()
+      : [];
+
+    return { productId, baseUnit: input.baseUnit, baseUnitDecimal: input.baseUnitDecimal, units };
+  });
+}
+
+export interface VariantRow extends Product {
+  // The store's reorder level when listed for a store
+  reorderLevel: string | null;
+  // False when the store does not stock this variant
+  inStore: boolean;
+}
+
+export interface ProductVariants {
+  parent: Product;
+  axes: string[];
+  variants: VariantRow[];
+}
+
+/**
+ * A parent product and its variants, in the order they were added. With a
+ * store, prices and stock are that store's, as in the store product list.
+ */
+export async function getProductVariants(parentId: number, storeId?: number): Promise<ProductVariants | undefined> {
+  const parent = await getProduct(parentId);
+  if (!parent) return undefined;
+
+  const rows = await db
+    .select({ product: products, storeProduct: storeProducts })
+    .from(products)
+    .leftJoin(
+      storeProducts,
+      and(eq(storeProducts.productId, products.id), storeId ? eq(storeProducts.storeId, storeId) : sql`false`),
+    )
+    .where(eq(products.parentId, parentId))
+    .orderBy(asc(products.id));
+
+  const variants = rows.map(({ product, storeProduct }) => ({
+    ...product,
+    price: storeProduct?.price ?? product.price,
+    cost: storeProduct?.costPrice ?? product.cost,
+    stock: storeProduct?.stockQuantity != null ? Number(storeProduct.stockQuantity) : storeId ? 0 : product.stock,
+    reorderLevel: storeProduct?.reorderLevel ?? null,
+    inStore: storeId ? !!storeProduct && storeProduct.isActive !== false : true,
+  }));
+  return { parent, axes: parent.variantAxes ?? [], variants };
+}
+
+const sameAxes = (a: string[], b: string[]) => a.length === b.length && a.every((axis, i) => axis === b[i]);
+
+/** Sets the attributes a product's variants differ by; they are fixed once it has variants. */
+export async function setVariantAxes(productId: number, axes: string[], executor: ProductWriter = db): Promise<ProductResult<Product>> {
+  const product = await getProduct(productId);
+  if (!product) return { success: false, message: "Product not found", code: "NOT_FOUND" };
+  if (product.parentId) return { success: false, message: "A variant cannot have variants of its own" };
+
+  const [variant] = await executor.select({ id: products.id }).from(products).where(eq(products.parentId, productId)).limit(1);
+  if (variant && !sameAxes(product.variantAxes ?? [], axes)) {
+    return { success: false, message: "Detach this product's variants before changing its attributes" };
+  }
+
+  const [updated] = await executor
+    .update(products)
+    .set({ variantAxes: axes.length > 0 ? axes : null, updatedAt: new Date() })
+    .where(eq(products.id, productId))
+    .returning();
+  return { success: true, data: updated };
+}
+
+/**
+ * Adds a variant to a parent: a new product that takes the parent's shared
+ * details and is stocked, at no quantity, wherever the parent is; or an
+ * existing product, which keeps its own SKU, price and stock.
+ */
+export async function createVariant(parentId: number, input: CreateVariantInput, executor: ProductWriter = db): Promise<ProductResult<Product>> {
+  const parent = await getProduct(parentId);
+  if (!parent) return { success: false, message: "Product not found", code: "NOT_FOUND" };
+  if (parent.parentId) return { success: false, message: "A variant cannot have variants of its own" };
+  const axes = parent.variantAxes ?? [];
+  if (axes.length === 0) return { success: false, message: "Give this product its attributes before adding variants" };
+
+  const problem = checkVariantOptions(axes, input.options);
+  if (problem) return { success: false, message: problem };
+  const siblings = await executor.select().from(products).where(eq(products.parentId, parentId));
+  const duplicate = findVariant(axes, siblings, input.options);
+  if (duplicate && !("productId" in input && duplicate.id === input.productId)) {
+    return { success: false, message: `${duplicate.name} is already the ${variantLabel(axes, input.options)} variant` };
+  }
+
+  if ("productId" in input) {
+    const product = await getProduct(input.productId);
+    if (!product) return { success: false, message: "Product not found", code: "NOT_FOUND" };
+    if (product.id === parentId) return { success: false, message: "A product cannot be a variant of itself" };
+    if (product.parentId && product.parentId !== parentId) {
+      return { success: false, message: `${product.name} is already a variant of another product` };
+    }
+    if (isVariantParent(product)) return { success: false, message: `${product.name} has variants of its own` };
+
+    const [attached] = await executor
+      .update(products)
+      .set({ ...sharedFields(parent), parentId, variantOptions: input.options, updatedAt: new Date() })
+      .where(eq(products.id, product.id))
+      .returning();
+    return { success: true, data: attached };
+  }
+
+  if (await getProductBySku(input.sku)) return { success: false, message: `SKU ${input.sku} is already in use` };
+  const pluOwner = input.plu ? await getPluOwner(input.plu) : undefined;
+  if (pluOwner) return { success: false, message: `PLU ${input.plu} already belongs to ${pluOwner.name}` };
+
+  const variant = await executor.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(products)
+      .values({
+        ...sharedFields(parent),
+        sku: input.sku,
+        name: input.name ?? variantName(parent.name, axes, input.options),
+        barcode: input.barcode || null,
+        plu: input.plu || null,
+        price: input.price !== undefined ? input.price.toFixed(2) : parent.price,
+        cost: input.cost !== undefined ? (input.cost === null ? null : input.cost.toFixed(2)) : parent.cost,
+        stock: 0,
+        quantity: 0,
+        imageUrl: parent.imageUrl,
+        isActive: true,
+        parentId,
+        variantOptions: input.options,
+      })
+      .returning();
+
+    const stocked = await tx.select().from(storeProducts).where(eq(storeProducts.productId, parentId));
+    if (stocked.length > 0) {
+      await tx.insert(storeProducts).values(stocked.map((row) => ({
+        storeId: row.storeId,
+        productId: created.id,
+        price: input.price !== undefined ? created.price : row.price,
+        costPrice: input.cost !== undefined ? created.cost : row.costPrice,
+        stockQuantity: "0",
+        reorderLevel: row.reorderLevel,
+        isActive: row.isActive,
+      })));
+    }
+    return created;
+  });
+  return { success: true, data: variant };
+}
+
+/** Makes a variant a product of its own again; it keeps its SKU, price and stock. */
+export async function detachVariant(variantId: number, executor: ProductWriter = db): Promise<Product | undefined> {
+  const [detached] = await executor
+    .update(products)
+    .set({ parentId: null, variantOptions: null, updatedAt: new Date() })
+    .where(and(eq(products.id, variantId), sql`${products.parentId} IS NOT NULL`))
+    .returning();
+  return detached || undefined;
+}
+
+/**
+ * Sets one price or reorder level on several of a parent's variants. With a
+ * store the store's rows change, and only variants the store stocks count;
+ * without one the catalogue price does. Returns the ids that changed.
+ */
+export async function updateVariants(parentId: number, input: BulkVariantUpdateInput, executor: ProductWriter = db): Promise<ProductResult<number[]>> {
+  const parent = await getProduct(parentId);
+  if (!parent) return { success: false, message: "Product not found", code: "NOT_FOUND" };
+
+  const variants = await executor.select({ id: products.id }).from(products).where(eq(products.parentId, parentId));
+  const ids = variants.map((variant) => variant.id);
+  const stray = input.variantIds?.find((id) => !ids.includes(id));
+  if (stray) return { success: false, message: `Product ${stray} is not a variant of ${parent.name}` };
+  const targets = input.variantIds ?? ids;
+  if (targets.length === 0) return { success: false, message: `${parent.name} has no variants` };
+
+  return await executor.transaction(async (tx) => {
+    if (input.storeId === undefined) {
+      const updated = await tx
+        .update(products)
+        .set({ price: input.price!.toFixed(2), updatedAt: new Date() })
+        .where(inArray(products.id, targets))
+        .returning({ id: products.id });
+      return { success: true as const, data: updated.map((row) => row.id) };
+    }
+
+    const updated = await tx
+      .update(storeProducts)
+      .set({
+        ...(input.price !== undefined && { price: input.price.toFixed(2) }),
+        ...(input.reorderLevel !== undefined && { reorderLevel: input.reorderLevel.toFixed(2) }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(storeProducts.storeId, input.storeId), inArray(storeProducts.productId, targets)))
+      .returning({ productId: storeProducts.productId });
+    return { success: true as const, data: updated.map((row) => row.productId) };
+  });
+}
+
+export async function getProductIdentifiers(productId: number): Promise<ProductIdentifier[]> {
+  return db
+    .select()
+    .from(productIdentifiers)
+    .where(eq(productIdentifiers.productId, productId))
+    .orderBy(asc(productIdentifiers.type), asc(productIdentifiers.code));
+}
+
+const ownerOf = (input: Pick<ProductIdentifier, "supplierId" | "competitorId">) =>
+  input.supplierId
+    ? eq(productIdentifiers.supplierId, input.supplierId)
+    : input.competitorId
+      ? eq(productIdentifiers.competitorId, input.competitorId)
+      : and(sql`${productIdentifiers.supplierId} IS NULL`, sql`${productIdentifiers.competitorId} IS NULL`);
+
+/** The product other than this one that already has the code, if any. */
+async function codeOwner(productId: number, input: ProductIdentifierInput): Promise<Pick<Product, "id" | "name"> | undefined> {
+  if (input.type === "barcode") {
+    const [main] = await db
+      .select({ id: products.id, name: products.name })
+      .from(products)
+      .where(eq(products.barcode, input.code))
+      .limit(1);
+    if (main) return main;
+  }
+  const [mapped] = await db
+    .select({ id: products.id, name: products.name })
+    .from(productIdentifiers)
+    .innerJoin(products, eq(products.id, productIdentifiers.productId))
+    .where(and(eq(productIdentifiers.type, input.type), eq(productIdentifiers.code, input.code), ownerOf(input)))
+    .limit(1);
+  return mapped;
+}
+
+const IDENTIFIER_NAMES: Record<ProductIdentifierType, string> = {
+  barcode: "Barcode",
+  supplier_code: "Supplier code",
+  competitor_sku: "Competitor SKU",
+};
+
+/** Maps one more code to a product; a code can only ever mean one product. */
+export async function addProductIdentifier(
+  productId: number,
+  input: ProductIdentifierInput & { createdBy?: number | null },
+  executor: ProductWriter = db,
+): Promise<ProductResult<ProductIdentifier>> {
+  const product = await getProduct(productId);
+  if (!product) return { success: false, message: "Product not found", code: "NOT_FOUND" };
+
+  const owner = await codeOwner(productId, input);
+  if (owner) {
+    return {
+      success: false,
+      message: owner.id === productId
+        ? `${IDENTIFIER_NAMES[input.type]} ${input.code} is already on this product`
+        : `${IDENTIFIER_NAMES[input.type]} ${input.code} already belongs to ${owner.name}`,
+    };
+  }
+
+  const [identifier] = await executor
+    .insert(productIdentifiers)
+    .values({ productId, ...input, createdBy: input.createdBy ?? null })
+    .returning();
+  return { success: true, data: identifier };
+}
+
+export async function removeProductIdentifier(productId: number, identifierId: number, executor: ProductWriter = db): Promise<ProductIdentifier | undefined> {
+  const [removed] = await executor
+    .delete(productIdentifiers)
+    .where(and(eq(productIdentifiers.id, identifierId), eq(productIdentifiers.productId, productId)))
+    .returning();
+  return removed || undefined;
+}
+
+/**
+ * Records codes confirmed on invoices and price entries so they match
+ * straight away next time. Codes that already mean a product, this one or
+ * another, are left as they are. Returns the codes added.
+ */
+export async function rememberProductIdentifiers(
+  entries: Array<ProductIdentifierInput & { productId: number; createdBy?: number | null }>,
+  executor: ProductWriter = db,
+): Promise<ProductIdentifier[]> {
+  const fresh = entries.filter((entry) => entry.code !== "");
+  if (fresh.length === 0) return [];
+
+  // Main barcodes are not repeated as extra ones
+  const barcodes = fresh.filter((entry) => entry.type === "barcode").map((entry) => entry.code);
+  const mainBarcodes = barcodes.length > 0
+    ? new Set((await executor
+        .select({ barcode: products.barcode })
+        .from(products)
+        .where(inArray(products.barcode, barcodes))).map((row) => row.barcode))
+    : new Set<string | null>();
+
+  const values = fresh
+    .filter((entry) => entry.type !== "barcode" || !mainBarcodes.has(entry.code))
+    .map((entry) => ({ ...entry, createdBy: entry.createdBy ?? null }));
+  if (values.length === 0) return [];
+  return executor.insert(productIdentifiers).values(values).onConflictDoNothing().returning();
+}
+
+/**
+ * Every barcode mapped to a product, and the codes of one supplier or
+ * competitor, for matching their invoices or listings without asking AI.
+ */
+export async function getCodeBook(owner: { supplierId?: number | null; competitorId?: number | null }): Promise<CodeBook> {
+  const book: CodeBook = { barcodes: new Map(), codes: new Map() };
+
+  const mains = await db
+    .select({ id: products.id, barcode: products.barcode })
+    .from(products)
+    .where(sql`${products.barcode} IS NOT NULL AND ${products.barcode} != ''`)
+    .orderBy(desc(products.isActive), asc(products.id));
+  for (const main of mains) {
+    const code = normaliseIdentifierCode("barcode", main.barcode!);
+    if (!book.barcodes.has(code)) book.barcodes.set(code, main.id);
+  }
+
+  const type = owner.supplierId ? "supplier_code" : owner.competitorId ? "competitor_sku" : null;
+  const mapped = await db
+    .select()
+    .from(productIdentifiers)
+    .where(
+      or(
+        eq(productIdentifiers.type, "barcode"),
+        type ? and(eq(productIdentifiers.type, type), ownerOf({ supplierId: owner.supplierId ?? null, competitorId: owner.competitorId ?? null })) : undefined,
+      ),
+    );
+  for (const identifier of mapped) {
+    const codes = identifier.type === "barcode" ? book.barcodes : book.codes;
+    if (!codes.has(identifier.code)) codes.set(identifier.code, identifier.productId);
+  }
+  return book;
+}
@@ -0,0 +1,199 @@
+import { randomInt } from "crypto";
+import { z } from "zod";
+import type { Coupon, CustomerType, Promotion } from "@shared/schema";
+
+// No 0/O or 1/I so codes can be read out at the till without mistakes
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export const MAX_COUPON_BATCH = 1000;
+
+export type CouponRejectionCode =
+  | "NOT_FOUND"
+  | "COUPON_REQUIRED"
+  | "INACTIVE"
+  | "WRONG_STORE"
+  | "NOT_STARTED"
+  | "EXPIRED"
+  | "USED_UP"
+  | "WRONG_CUSTOMER"
+  | "CUSTOMER_REQUIRED"
+  | "CUSTOMER_TYPE"
+  | "CUSTOMER_LIMIT"
+  | "PRICE_CHANGED";
+
+export interface CouponRejection {
+  code: CouponRejectionCode;
+  message: string;
+}
+
+// Rolls back the sale being recorded when a promotion or coupon ran out while it was rung up
+export class PromotionUnavailableError extends Error {
+  constructor(readonly rejection: CouponRejection) {
+    super(rejection.message);
+  }
+}
+
+/** Who is buying, as far as promotion targeting is concerned. */
+export interface CustomerPromotionContext {
+  customerId: number | null;
+  customerType: CustomerType | null;
+  // Earlier redemptions per promotion id by this customer
+  usageByPromotion: Map<number, number>;
+}
+
+/** Promotions a sale claims at checkout, re-checked before it is recorded. */
+export interface PromotionRedemption {
+  storeId: number;
+  customerId?: number | null;
+  couponCode?: string | null;
+  appliedPromotions: Array<{ promotionId: number; discountAmount: number }>;
+}
+
+// Promotion fields on a POST /api/transactions body (and queued offline sales)
+const saleRedemptionSchema = z.object({
+  couponCode: z.string().trim().min(1).nullable().optional(),
+  appliedPromotions: z
+    .array(
+      z.object({
+        promotionId: z.coerce.number().int().positive(),
+        discountAmount: z.coerce.number().nonnegative(),
+      }),
+    )
+    .optional(),
+});
+
+/** Reads the promotion fields of a sale body; null when they are malformed. */
+export function readSaleRedemption(body: unknown, storeId: number): PromotionRedemption | null {
+  const parsed = saleRedemptionSchema.safeParse(body ?? {});
+  if (!parsed.success) return null;
+
+  // Customer ids are validated with the sale itself; anything unusable means a walk-in
+  const customerId = Number((body as { customerId?: unknown } | null)?.customerId);
+  return {
+    storeId,
+    customerId: Number.isInteger(customerId) && customerId > 0 ? customerId : null,
+    couponCode: parsed.data.couponCode ?? null,
+    appliedPromotions: parsed.data.appliedPromotions ?? [],
+  };
+}
+
+export const normalizeCouponCode = (code: string): string => code.replace(/\s+/g, "").toUpperCase();
+
+/**
+ * Generates unique random codes, optionally prefixed (e.g. "EID-7KQ2M9XA").
+ * Codes already in `taken` are never returned.
+ */
+export function generateCouponCodes(
+  count: number,
+  options: { prefix?: string | null; length?: number } = {},
+  taken: Set<string> = new Set(),
+  pick: (max: number) => number = randomInt,
+): string[] {
+  const prefix = options.prefix ? `${normalizeCouponCode(options.prefix)}-` : "";
+  const length = options.length ?? 8;
+  const codes = new Set<string>();
+
+  // Give up rather than loop forever when the code space is nearly exhausted
+  let attempts = 0;
+  while (codes.size < count && attempts < count * 20) {
+    attempts++;
+    let body = "";
+    for (let i = 0; i < length; i++) {
+      body += CODE_ALPHABET[pick(CODE_ALPHABET.length)];
+    }
+    const code = prefix + body;
+    if (!taken.has(code)) codes.add(code);
+  }
+
+  return Array.from(codes);
+}
+
+export function resolveCustomerType(customer: { isVip?: boolean | null }, previousPurchases: number): CustomerType {
+  if (customer.isVip) return "vip";
+  return previousPurchases > 0 ? "returning" : "new";
+}
+
+/**
+ * Enforces a promotion's customer targeting: applicableToCustomerTypes and
+ * the per-customer limit. Both need a known customer on the sale.
+ */
+export function checkCustomerEligibility(
+  promotion: Pick<Promotion, "id" | "customerLimit" | "applicableToCustomerTypes">,
+  customer: CustomerPromotionContext,
+): CouponRejection | null {
+  const types = (promotion.applicableToCustomerTypes ?? []).filter(Boolean);
+  const targeted = types.length > 0 && !types.includes("all");
+
+  if ((targeted || promotion.customerLimit) && !customer.customerId) {
+    return { code: "CUSTOMER_REQUIRED", message: "Select a customer to use this promotion" };
+  }
+  if (targeted && (!customer.customerType || !types.includes(customer.customerType))) {
+    return { code: "CUSTOMER_TYPE", message: `This promotion is only for ${types.join(", ")} customers` };
+  }
+  if (promotion.customerLimit && (customer.usageByPromotion.get(promotion.id) ?? 0) >= promotion.customerLimit) {
+    return { code: "CUSTOMER_LIMIT", message: "This customer has already used this promotion the maximum number of times" };
+  }
+  return null;
+}
+
+/** Checks that a coupon can be redeemed in this store, now, by this customer. */
+export function checkCoupon(
+  coupon: Pick<Coupon, "isActive" | "customerId" | "maxRedemptions" | "redemptionCount" | "expiresAt">,
+  promotion: Pick<Promotion, "id" | "storeId" | "isActive" | "startDate" | "endDate" | "customerLimit" | "applicableToCustomerTypes">,
+  context: { storeId: number; now: Date; customer: CustomerPromotionContext },
+): CouponRejection | null {
+  if (!coupon.isActive || !promotion.isActive) {
+    return { code: "INACTIVE", message: "This coupon is no longer active" };
+  }
+  if (promotion.storeId !== context.storeId) {
+    return { code: "WRONG_STORE", message: "This coupon is not valid in this store" };
+  }
+  if (new Date(promotion.startDate) > context.now) {
+    return { code: "NOT_STARTED", message: "This coupon is not valid yet" };
+  }
+  if (new Date(promotion.endDate) < context.now || (coupon.expiresAt && new Date(coupon.expiresAt) < context.now)) {
+    return { code: "EXPIRED", message: "This coupon has expired" };
+  }
+  if (coupon.maxRedemptions && (coupon.redemptionCount ?? 0) >= coupon.maxRedemptions) {
+    return { code: "USED_UP", message: "This coupon has already been used" };
+  }
+  if (coupon.customerId && coupon.customerId !== context.customer.customerId) {
+    return {
+      code: context.customer.customerId ? "WRONG_CUSTOMER" : "CUSTOMER_REQUIRED",
+      message: context.customer.customerId
+        ? "This coupon was issued to another customer"
+        : "Select the customer this coupon was issued to",
+    };
+  }
+  return checkCustomerEligibility(promotion, context.customer);
+}
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+/**
+ * Compares the promotion discount a sale claims, in total and for each
+ * promotion, with what the server priced its lines at. A discount the store's
+ * deals do not give is not a promotion and cannot skip the manager approval
+ * other discounts need.
+ */
+export function checkPromotionDiscount(
+  redemption: Pick<PromotionRedemption, "appliedPromotions">,
+  claimedDiscount: number,
+  priced: { totalDiscount: number; appliedPromotions: Array<{ promotionId: number; discountAmount: number }> },
+): CouponRejection | null {
+  const claimed = new Map<number, number>();
+  for (const entry of redemption.appliedPromotions) {
+    claimed.set(entry.promotionId, (claimed.get(entry.promotionId) ?? 0) + toCents(entry.discountAmount));
+  }
+  const given = new Map(priced.appliedPromotions.map((applied) => [applied.promotionId, toCents(applied.discountAmount)]));
+  const promotionIds = new Set([...Array.from(claimed.keys()), ...Array.from(given.keys())]);
+
+  const agrees =
+    toCents(claimedDiscount) === toCents(priced.totalDiscount) &&
+    Array.from(promotionIds).every((id) => (claimed.get(id) ?? 0) === (given.get(id) ?? 0));
+  if (agrees) return null;
+  return {
+    code: "PRICE_CHANGED",
+    message: `The promotions on this sale come to ${priced.totalDiscount.toFixed(2)}, not ${claimedDiscount.toFixed(2)}; price the cart again`,
+  };
+}
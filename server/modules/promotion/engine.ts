@@ -0,0 +1,460 @@
+import type { Promotion, PromotionRule, PromotionTier } from "@shared/schema";
+
+export interface PromotionCartLine {
+  productId: number | null;
+  sku: string;
+  category?: string | null;
+  price: number;
+  quantity: number;
+}
+
+export type PromotionRuleDefinition = Pick<
+  PromotionRule,
+  "ruleType" | "productId" | "category" | "buyQuantity" | "getQuantity"
+>;
+
+export type PromotionDefinition = Pick<
+  Promotion,
+  | "id"
+  | "name"
+  | "type"
+  | "value"
+  | "minOrderAmount"
+  | "maxDiscountAmount"
+  | "groupQuantity"
+  | "tiers"
+  | "usageLimit"
+  | "usageCount"
+  | "priority"
+  | "isExclusive"
+  | "stackableGroup"
+> & {
+  rules: PromotionRuleDefinition[];
+};
+
+export interface ConsumedItem {
+  productId: number | null;
+  sku: string;
+  quantity: number;
+  discountAmount: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: number;
+  name: string;
+  type: string;
+  discountAmount: number;
+  // Cart lines the deal used, with the share of the discount each line carries
+  items: ConsumedItem[];
+}
+
+// Discount per cart line, in the same order as the lines passed in. When
+// several stacked deals share a line, promotionId names the largest share.
+export interface LineAllocation {
+  productId: number | null;
+  sku: string;
+  discountAmount: number;
+  promotionId: number | null;
+}
+
+export interface PromotionEvaluation {
+  totalDiscount: number;
+  appliedPromotions: AppliedPromotion[];
+  lines: LineAllocation[];
+}
+
+const toNumber = (value: string | number | null | undefined): number => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+interface CartState {
+  lines: PromotionCartLine[];
+  // Stackable group of every deal already using each line (null = not stackable)
+  claims: Array<Array<string | null>>;
+  // Discount already given per line
+  lineDiscounts: number[];
+}
+
+interface Candidate {
+  discount: number;
+  taken: Map<number, number>;
+  discounts: Map<number, number>;
+}
+
+interface Unit {
+  line: number;
+  price: number;
+}
+
+const matchesRule = (rule: PromotionRuleDefinition, line: PromotionCartLine): boolean => {
+  if (rule.ruleType === "all_products") return true;
+  if (rule.ruleType === "product") return rule.productId != null && line.productId === rule.productId;
+  if (rule.ruleType === "category") return !!rule.category && line.category === rule.category;
+  return false;
+};
+
+/**
+ * A line already used by another deal is only open to deals in the same
+ * stackable group; a deal without a group needs the line to itself.
+ */
+const canUseLine = (definition: PromotionDefinition, state: CartState, line: number): boolean =>
+  state.claims[line].every((group) => group !== null && group === definition.stackableGroup);
+
+/** Lines the deal covers and may still use. */
+const eligibleLines = (definition: PromotionDefinition, rules: PromotionRuleDefinition[], state: CartState): number[] =>
+  state.lines.flatMap((line, index) =>
+    rules.some((rule) => matchesRule(rule, line)) && canUseLine(definition, state, index) ? [index] : []
+  );
+
+/** What is still to pay on a line after deals already applied to it. */
+const netAmount = (state: CartState, line: number): number =>
+  Math.max(0, state.lines[line].price * state.lines[line].quantity - state.lineDiscounts[line]);
+
+const wholeUnits = (state: CartState): number[] => state.lines.map((line) => Math.max(0, Math.floor(line.quantity)));
+
+/** Units still free on the given lines at their net price, most expensive first (stable by line). */
+const unitsFor = (lineIndexes: number[], remaining: number[], state: CartState): Unit[] => {
+  const units: Unit[] = [];
+  for (const line of lineIndexes) {
+    const price = state.lines[line].quantity > 0 ? netAmount(state, line) / state.lines[line].quantity : 0;
+    for (let i = 0; i < remaining[line]; i++) {
+      units.push({ line, price });
+    }
+  }
+  return units.sort((a, b) => b.price - a.price || a.line - b.line);
+};
+
+const addTo = (map: Map<number, number>, key: number, amount: number) => {
+  map.set(key, (map.get(key) || 0) + amount);
+};
+
+const readTiers = (tiers: unknown): PromotionTier[] =>
+  (Array.isArray(tiers) ? tiers : [])
+    .map((tier) => ({
+      threshold: toNumber(tier?.threshold),
+      discountType: tier?.discountType === "fixed" ? ("fixed" as const) : ("percentage" as const),
+      value: toNumber(tier?.value),
+    }))
+    .filter((tier) => tier.threshold > 0 && tier.value > 0)
+    .sort((a, b) => a.threshold - b.threshold);
+
+const bestTier = (tiers: PromotionTier[], reached: number): PromotionTier | undefined =>
+  [...tiers].reverse().find((tier) => reached >= tier.threshold);
+
+/** Spreads a discount over lines in proportion to their weights. */
+const spread = (discount: number, weights: Map<number, number>): Map<number, number> => {
+  const total = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+  const result = new Map<number, number>();
+  if (total <= 0) return result;
+  weights.forEach((weight, line) => result.set(line, (discount * weight) / total));
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// Item-level deals
+// ---------------------------------------------------------------------------
+
+/** Buy X get Y: in each set of X+Y units the Y cheapest are free. */
+function evaluateBuyXGetY(definition: PromotionDefinition, state: CartState): Candidate | null {
+  const remaining = wholeUnits(state);
+  const taken = new Map<number, number>();
+  const discounts = new Map<number, number>();
+
+  for (const rule of definition.rules) {
+    const buy = rule.buyQuantity || 0;
+    const get = rule.getQuantity || 0;
+    if (buy <= 0 || get <= 0) continue;
+
+    const lines = eligibleLines(definition, [rule], state);
+    const units = unitsFor(lines, remaining, state);
+    const setSize = buy + get;
+    const sets = Math.floor(units.length / setSize);
+
+    for (let set = 0; set < sets; set++) {
+      const group = units.slice(set * setSize, (set + 1) * setSize);
+      group.forEach((unit, position) => {
+        remaining[unit.line] -= 1;
+        addTo(taken, unit.line, 1);
+        if (position >= buy) {
+          addTo(discounts, unit.line, unit.price);
+        }
+      });
+    }
+  }
+
+  return toCandidate(taken, discounts);
+}
+
+/** Bundle: a fixed price for a set of specific products in given quantities. */
+function evaluateBundle(definition: PromotionDefinition, state: CartState): Candidate | null {
+  const bundlePrice = toNumber(definition.value);
+  const components = definition.rules
+    .filter((rule) => rule.ruleType === "product" && rule.productId != null)
+    .map((rule) => ({ rule, required: Math.max(1, rule.buyQuantity || 1) }));
+  if (components.length === 0) return null;
+
+  const remaining = wholeUnits(state);
+  const taken = new Map<number, number>();
+  const discounts = new Map<number, number>();
+
+  while (true) {
+    const picked: Unit[] = [];
+    for (const { rule, required } of components) {
+      const units = unitsFor(eligibleLines(definition, [rule], state), remaining, state).slice(0, required);
+      if (units.length < required) return toCandidate(taken, discounts);
+      units.forEach((unit) => (remaining[unit.line] -= 1));
+      picked.push(...units);
+    }
+
+    const regular = picked.reduce((sum, unit) => sum + unit.price, 0);
+    if (regular <= bundlePrice) {
+      return toCandidate(taken, discounts);
+    }
+
+    const saving = regular - bundlePrice;
+    picked.forEach((unit) => {
+      addTo(taken, unit.line, 1);
+      addTo(discounts, unit.line, (saving * unit.price) / regular);
+    });
+  }
+}
+
+/** Mix and match: any N eligible units for a set price, priciest units grouped first. */
+function evaluateMixMatch(definition: PromotionDefinition, state: CartState): Candidate | null {
+  const groupSize = definition.groupQuantity || 0;
+  const groupPrice = toNumber(definition.value);
+  if (groupSize <= 0) return null;
+
+  const units = unitsFor(eligibleLines(definition, definition.rules, state), wholeUnits(state), state);
+  const taken = new Map<number, number>();
+  const discounts = new Map<number, number>();
+
+  for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+    const group = units.slice(start, start + groupSize);
+    const regular = group.reduce((sum, unit) => sum + unit.price, 0);
+    // Groups only get cheaper from here on
+    if (regular <= groupPrice) break;
+
+    const saving = regular - groupPrice;
+    group.forEach((unit) => {
+      addTo(taken, unit.line, 1);
+      addTo(discounts, unit.line, (saving * unit.price) / regular);
+    });
+  }
+
+  return toCandidate(taken, discounts);
+}
+
+/** Tiered: the more eligible units, the bigger the per-unit discount. */
+function evaluateTiered(definition: PromotionDefinition, state: CartState): Candidate | null {
+  const units = unitsFor(eligibleLines(definition, definition.rules, state), wholeUnits(state), state);
+  const tier = bestTier(readTiers(definition.tiers), units.length);
+  if (!tier) return null;
+
+  const taken = new Map<number, number>();
+  const discounts = new Map<number, number>();
+  units.forEach((unit) => {
+    addTo(taken, unit.line, 1);
+    addTo(
+      discounts,
+      unit.line,
+      tier.discountType === "percentage" ? (unit.price * tier.value) / 100 : Math.min(unit.price, tier.value),
+    );
+  });
+
+  return toCandidate(taken, discounts);
+}
+
+// ---------------------------------------------------------------------------
+// Order-level deals
+// ---------------------------------------------------------------------------
+
+function evaluateOrderDeal(definition: PromotionDefinition, state: CartState): Candidate | null {
+  const net = new Map<number, number>();
+  for (const line of eligibleLines(definition, definition.rules, state)) {
+    const amount = netAmount(state, line);
+    if (amount > 0) net.set(line, amount);
+  }
+
+  const eligibleAmount = Array.from(net.values()).reduce((sum, amount) => sum + amount, 0);
+  if (eligibleAmount <= 0) return null;
+
+  let discount = 0;
+  if (definition.type === "percentage") {
+    discount = (eligibleAmount * toNumber(definition.value)) / 100;
+  } else if (definition.type === "fixed_amount") {
+    discount = toNumber(definition.value);
+  } else if (definition.type === "spend_threshold") {
+    const tier = bestTier(readTiers(definition.tiers), eligibleAmount);
+    if (!tier) return null;
+    discount = tier.discountType === "percentage" ? (eligibleAmount * tier.value) / 100 : tier.value;
+  }
+
+  const taken = new Map<number, number>();
+  net.forEach((_, line) => taken.set(line, state.lines[line].quantity));
+  return toCandidate(taken, spread(Math.min(discount, eligibleAmount), net));
+}
+
+function toCandidate(taken: Map<number, number>, discounts: Map<number, number>): Candidate | null {
+  const discount = Array.from(discounts.values()).reduce((sum, amount) => sum + amount, 0);
+  return discount > 0 ? { discount, taken, discounts } : null;
+}
+
+const EVALUATORS: Record<string, (definition: PromotionDefinition, state: CartState) => Candidate | null> = {
+  buy_x_get_y: evaluateBuyXGetY,
+  bundle: evaluateBundle,
+  mix_match: evaluateMixMatch,
+  tiered: evaluateTiered,
+  percentage: evaluateOrderDeal,
+  fixed_amount: evaluateOrderDeal,
+  spend_threshold: evaluateOrderDeal,
+};
+
+/**
+ * Prices one promotion against the current cart state, with its discount
+ * capped at maxDiscountAmount and rounded per line.
+ */
+function evaluate(definition: PromotionDefinition, state: CartState): Candidate | null {
+  const candidate = EVALUATORS[definition.type]?.(definition, state);
+  if (!candidate) return null;
+
+  const cap = definition.maxDiscountAmount ? toNumber(definition.maxDiscountAmount) : Infinity;
+  const target = round2(Math.min(candidate.discount, cap));
+  if (target <= 0) return null;
+
+  const scaled = target / candidate.discount;
+  const rounded = new Map<number, number>();
+  candidate.discounts.forEach((amount, line) => rounded.set(line, round2(amount * scaled)));
+
+  // Put any rounding difference on the line carrying the most discount
+  const drift = round2(target - Array.from(rounded.values()).reduce((sum, amount) => sum + amount, 0));
+  if (drift !== 0) {
+    const [largest] = Array.from(rounded.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+    rounded.set(largest[0], round2(largest[1] + drift));
+  }
+
+  return { discount: target, taken: candidate.taken, discounts: rounded };
+}
+
+const isEligible = (definition: PromotionDefinition, cartTotal: number): boolean => {
+  if (definition.usageLimit && (definition.usageCount || 0) >= definition.usageLimit) return false;
+  if (definition.minOrderAmount && cartTotal < toNumber(definition.minOrderAmount)) return false;
+  return definition.rules.length > 0;
+};
+
+interface Outcome {
+  // Discount each promotion put on each line, keyed by promotion id
+  shares: Array<Map<number, number>>;
+  appliedPromotions: AppliedPromotion[];
+  topPriority: number;
+  totalDiscount: number;
+}
+
+/**
+ * Applies deals in priority order (highest first). Within a priority level
+ * the deal saving the customer most goes first, and each deal only uses
+ * lines it is allowed to share (see canUseLine).
+ */
+function resolve(definitions: PromotionDefinition[], lines: PromotionCartLine[]): Outcome {
+  const state: CartState = {
+    lines,
+    claims: lines.map(() => []),
+    lineDiscounts: lines.map(() => 0),
+  };
+  const shares = lines.map(() => new Map<number, number>());
+  const appliedPromotions: AppliedPromotion[] = [];
+  let topPriority = -Infinity;
+
+  const levels = Array.from(new Set(definitions.map((definition) => definition.priority ?? 0))).sort((a, b) => b - a);
+  for (const level of levels) {
+    const pool = definitions.filter((definition) => (definition.priority ?? 0) === level);
+
+    while (pool.length > 0) {
+      let best: { definition: PromotionDefinition; candidate: Candidate } | null = null;
+      for (const definition of pool) {
+        const candidate = evaluate(definition, state);
+        if (candidate && (!best || candidate.discount > best.candidate.discount)) {
+          best = { definition, candidate };
+        }
+      }
+      if (!best) break;
+
+      const { definition, candidate } = best;
+      const items: ConsumedItem[] = [];
+      candidate.taken.forEach((quantity, line) => {
+        const discountAmount = candidate.discounts.get(line) || 0;
+        state.claims[line].push(definition.stackableGroup || null);
+        state.lineDiscounts[line] += discountAmount;
+        if (discountAmount > 0) addTo(shares[line], definition.id, discountAmount);
+        items.push({ productId: lines[line].productId, sku: lines[line].sku, quantity, discountAmount });
+      });
+
+      appliedPromotions.push({
+        promotionId: definition.id,
+        name: definition.name,
+        type: definition.type,
+        discountAmount: candidate.discount,
+        items: items.sort((a, b) => a.sku.localeCompare(b.sku)),
+      });
+      topPriority = Math.max(topPriority, level);
+      pool.splice(pool.indexOf(definition), 1);
+    }
+  }
+
+  return {
+    shares,
+    appliedPromotions,
+    topPriority,
+    totalDiscount: round2(appliedPromotions.reduce((sum, applied) => sum + applied.discountAmount, 0)),
+  };
+}
+
+/** Splits the applied deals back onto cart lines for transaction_items. */
+const allocateLines = (outcome: Outcome, lines: PromotionCartLine[]): LineAllocation[] =>
+  lines.map((line, index) => {
+    const shares = Array.from(outcome.shares[index].entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+    return {
+      productId: line.productId,
+      sku: line.sku,
+      discountAmount: round2(shares.reduce((sum, [, amount]) => sum + amount, 0)),
+      promotionId: shares[0]?.[0] ?? null,
+    };
+  });
+
+/**
+ * Works out which promotions apply to a cart and what each one is worth.
+ *
+ * Priority decides first, then the larger saving, then the lower promotion
+ * id, so the same cart always resolves the same way. A cart line can only be
+ * used by one promotion unless the promotions share a stackable group.
+ * Exclusive promotions never combine with anything: the cart is priced once
+ * without them and once with each on its own, and the outcome led by the
+ * highest priority (then the larger saving) wins.
+ */
+export function evaluatePromotions(definitions: PromotionDefinition[], lines: PromotionCartLine[]): PromotionEvaluation {
+  const cartTotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const candidates = definitions
+    .filter((definition) => isEligible(definition, cartTotal))
+    .sort((a, b) => a.id - b.id);
+
+  let best = resolve(candidates.filter((definition) => !definition.isExclusive), lines);
+  for (const exclusive of candidates.filter((definition) => definition.isExclusive)) {
+    const outcome = resolve([exclusive], lines);
+    if (outcome.appliedPromotions.length === 0) continue;
+
+    const beatsBest =
+      best.appliedPromotions.length === 0 ||
+      outcome.topPriority > best.topPriority ||
+      (outcome.topPriority === best.topPriority && outcome.totalDiscount > best.totalDiscount);
+    if (beatsBest) best = outcome;
+  }
+
+  return {
+    totalDiscount: best.totalDiscount,
+    appliedPromotions: best.appliedPromotions,
+    lines: allocateLines(best, lines),
+  };
+}
@@ -1,11 +1,143 @@
 import type { Express } from "express";
+import { z } from "zod";
 import { storage } from "../../storage";
 import { isAuthenticated } from "../../auth";
-import { requireRole } from "../shared/authorization";
-import { USER_ROLES } from "@shared/schema";
+import { couponStore, promotionStore, requirePermission } from "../shared/authorization";
+import { CUSTOMER_TYPES, PROMOTION_TYPES } from "@shared/schema";
+import { MAX_COUPON_BATCH } from "./coupons";
+
+// Decimal columns take strings; blank values from the form are treated as unset
+const amountSchema = z
+  .union([z.number(), z.string().trim().min(1)])
+  .pipe(z.coerce.number().nonnegative())
+  .transform((value) => value.toFixed(2));
+
+const countSchema = z
+  .union([z.number(), z.string().trim().min(1)])
+  .pipe(z.coerce.number().int().positive());
+
+const promotionRuleSchema = z.object({
+  ruleType: z.enum(["product", "category", "all_products"]),
+  productId: countSchema.nullable().optional(),
+  category: z.string().trim().min(1).nullable().optional(),
+  buyQuantity: countSchema.nullable().optional(),
+  getQuantity: countSchema.nullable().optional(),
+});
+
+const promotionTierSchema = z.object({
+  threshold: z.coerce.number().positive(),
+  discountType: z.enum(["percentage", "fixed"]),
+  value: z.coerce.number().positive(),
+});
+
+const promotionFieldsSchema = z.object({
+  storeId: countSchema,
+  name: z.string().trim().min(1, "Promotion name is required"),
+  description: z.string().nullable().optional(),
+  type: z.enum(PROMOTION_TYPES),
+  value: amountSchema.nullable().optional(),
+  minOrderAmount: amountSchema.nullable().optional(),
+  maxDiscountAmount: amountSchema.nullable().optional(),
+  groupQuantity: countSchema.nullable().optional(),
+  tiers: z.array(promotionTierSchema).nullable().optional(),
+  priority: z.coerce.number().int().optional(),
+  isExclusive: z.boolean().optional(),
+  stackableGroup: z.string().trim().min(1).nullable().optional(),
+  requiresCoupon: z.boolean().optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  isActive: z.boolean().optional(),
+  usageLimit: countSchema.nullable().optional(),
+  customerLimit: countSchema.nullable().optional(),
+  applicableToCustomerTypes: z.array(z.enum(["all", ...CUSTOMER_TYPES])).nullable().optional(),
+  rules: z.array(promotionRuleSchema).optional(),
+});
+
+type PromotionFields = Partial<z.infer<typeof promotionFieldsSchema>>;
+
+/** Checks that each promotion type carries the settings it is priced from. */
+function checkPromotionShape(data: PromotionFields, ctx: z.RefinementCtx) {
+  const issue = (message: string, path: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [path] });
+
+  if (data.startDate && data.endDate && data.endDate <= data.startDate) {
+    issue("End date must be after the start date", "endDate");
+  }
+  if (data.isExclusive && data.stackableGroup) {
+    issue("Exclusive promotions never stack, so they cannot join a stackable group", "stackableGroup");
+  }
+  if (!data.type) return;
+
+  const rules = data.rules ?? [];
+  if (data.rules !== undefined && rules.length === 0) {
+    issue("Choose which products the promotion applies to", "rules");
+  }
+
+  switch (data.type) {
+    case "percentage":
+      if (!data.value || parseFloat(data.value) > 100) issue("Enter a percentage between 0 and 100", "value");
+      break;
+    case "fixed_amount":
+      if (!data.value) issue("Enter the discount amount", "value");
+      break;
+    case "buy_x_get_y":
+      if (data.rules !== undefined && !rules.some((rule) => rule.buyQuantity && rule.getQuantity)) {
+        issue("Set the buy and get quantities", "rules");
+      }
+      break;
+    case "bundle":
+      if (!data.value) issue("Enter the bundle price", "value");
+      if (data.rules !== undefined && !rules.some((rule) => rule.ruleType === "product" && rule.productId)) {
+        issue("Add the products that make up the bundle", "rules");
+      }
+      break;
+    case "mix_match":
+      if (!data.value) issue("Enter the group price", "value");
+      if (!data.groupQuantity || data.groupQuantity < 2) issue("A group needs at least 2 items", "groupQuantity");
+      break;
+    case "tiered":
+    case "spend_threshold":
+      if (!data.tiers || data.tiers.length === 0) issue("Add at least one tier", "tiers");
+      break;
+  }
+}
+
+const createPromotionSchema = promotionFieldsSchema.superRefine(checkPromotionShape);
+const updatePromotionSchema = promotionFieldsSchema.partial().superRefine(checkPromotionShape);
+
+const couponBatchSchema = z
+  .object({
+    codes: z.array(z.string().trim().min(3, "Codes need at least 3 characters").max(32)).max(MAX_COUPON_BATCH).optional(),
+    count: z.coerce.number().int().positive().max(MAX_COUPON_BATCH, `At most ${MAX_COUPON_BATCH} codes per batch`).optional(),
+    prefix: z.string().trim().max(12).regex(/^[A-Za-z0-9]*$/, "Prefix can only use letters and digits").nullable().optional(),
+    customerIds: z.array(countSchema).max(MAX_COUPON_BATCH).optional(),
+    // null = unlimited redemptions
+    maxRedemptions: countSchema.nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+    batchLabel: z.string().trim().max(100).nullable().optional(),
+  })
+  .refine((data) => data.codes?.length || data.count || data.customerIds?.length, {
+    message: "Enter codes, a number of codes to generate, or customers to issue vouchers to",
+  });
+
+const updateCouponSchema = z.object({
+  isActive: z.boolean().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  maxRedemptions: countSchema.nullable().optional(),
+});
+
+const validateCouponSchema = z.object({
+  storeId: countSchema,
+  code: z.string().trim().min(1, "Enter a coupon code"),
+  customerId: countSchema.nullable().optional(),
+});
+
+const invalidPromotion = (error: z.ZodError) => ({
+  message: error.errors[0]?.message || "Invalid promotion",
+  errors: error.errors,
+});
 
 export function registerPromotionRoutes(app: Express) {
-  app.get("/api/stores/:storeId/promotions", isAuthenticated, async (req, res) => {
+  app.get("/api/stores/:storeId/promotions", isAuthenticated, requirePermission("promotions", "read"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       if (isNaN(storeId)) {
@@ -19,7 +151,7 @@ export function registerPromotionRoutes(app: Express) {
     }
   });
 
-  app.get("/api/stores/:storeId/promotions/active", isAuthenticated, async (req, res) => {
+  app.get("/api/stores/:storeId/promotions/active", isAuthenticated, requirePermission("promotions", "apply"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       if (isNaN(storeId)) {
@@ -33,7 +165,7 @@ export function registerPromotionRoutes(app: Express) {
     }
   });
 
-  app.get("/api/promotions/active", isAuthenticated, async (req, res) => {
+  app.get("/api/promotions/active", isAuthenticated, requirePermission("promotions", "apply"), async (req, res) => {
     try {
       const user = req.user as any;
       let storeId = user?.defaultStoreId;
@@ -51,7 +183,7 @@ export function registerPromotionRoutes(app: Express) {
     }
   });
 
-  app.post("/api/promotions/applicable", isAuthenticated, async (req, res) => {
+  app.post("/api/promotions/applicable", isAuthenticated, requirePermission("promotions", "apply"), async (req, res) => {
     try {
       const { storeId, cartItems } = req.body;
 
@@ -69,7 +201,7 @@ export function registerPromotionRoutes(app: Express) {
     }
   });
 
-  app.get("/api/promotions/applicable", isAuthenticated, async (req, res) => {
+  app.get("/api/promotions/applicable", isAuthenticated, requirePermission("promotions", "apply"), async (req, res) => {
     try {
       const user = req.user as any;
       let storeId = user?.defaultStoreId;
@@ -87,34 +219,35 @@ export function registerPromotionRoutes(app: Express) {
     }
   });
 
-  app.post("/api/promotions/apply", isAuthenticated, async (req, res) => {
+  app.post("/api/promotions", isAuthenticated, requirePermission("promotions", "create"), async (req, res) => {
     try {
-      const { promotionId, cartItems } = req.body;
-      const result = await storage.applyPromotion(promotionId, cartItems);
-      res.json(result);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to apply promotion", error });
-    }
-  });
+      const parsed = createPromotionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json(invalidPromotion(parsed.error));
+      }
 
-  app.post("/api/promotions", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
-    try {
-      const promotionData = req.body;
-      const promotion = await storage.createPromotion(promotionData);
+      const { rules, ...promotionData } = parsed.data;
+      const promotion = await storage.createPromotion(promotionData, rules);
       res.status(201).json(promotion);
     } catch (error) {
       res.status(400).json({ message: "Failed to create promotion", error });
     }
   });
 
-  app.patch("/api/promotions/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.patch("/api/promotions/:id", isAuthenticated, requirePermission("promotions", "update", { storeOf: promotionStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid promotion ID" });
       }
 
-      const promotion = await storage.updatePromotion(id, req.body);
+      const parsed = updatePromotionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json(invalidPromotion(parsed.error));
+      }
+
+      const { rules, ...promotionData } = parsed.data;
+      const promotion = await storage.updatePromotion(id, promotionData, rules);
       if (!promotion) {
         return res.status(404).json({ message: "Promotion not found" });
       }
@@ -124,7 +257,7 @@ export function registerPromotionRoutes(app: Express) {
     }
   });
 
-  app.delete("/api/promotions/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.delete("/api/promotions/:id", isAuthenticated, requirePermission("promotions", "delete", { storeOf: promotionStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -141,21 +274,43 @@ export function registerPromotionRoutes(app: Express) {
     }
   });
 
-  app.post("/api/promotions/apply", isAuthenticated, async (req, res) => {
+  // Prices a single promotion when promotionId is given, otherwise resolves
+  // every active promotion in the store against the cart
+  app.post("/api/promotions/apply", isAuthenticated, requirePermission("promotions", "apply"), async (req, res) => {
     try {
-      const { storeId, items, customerId } = req.body;
+      const { promotionId, cartItems } = req.body;
+      if (promotionId) {
+        const result = await storage.applyPromotion(promotionId, cartItems || []);
+        return res.json(result);
+      }
+
+      const { storeId, items, customerId, couponCodes } = req.body;
       if (!storeId || !items || !Array.isArray(items)) {
         return res.status(400).json({ message: "StoreId and items array are required" });
       }
 
-      const result = await storage.applyPromotions(storeId, items, customerId);
+      const codes = Array.isArray(couponCodes) ? couponCodes.filter((code): code is string => typeof code === "string") : [];
+      const result = await storage.applyPromotions(storeId, items, customerId, codes);
       res.json(result);
     } catch (error) {
       res.status(500).json({ message: "Failed to apply promotions", error });
     }
   });
 
-  app.get("/api/promotions/usage", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.get("/api/promotions/:id/rules", isAuthenticated, requirePermission("promotions", "read", { storeOf: promotionStore }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid promotion ID" });
+      }
+
+      res.json(await storage.getPromotionRules(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch promotion rules", error });
+    }
+  });
+
+  app.get("/api/promotions/usage", isAuthenticated, requirePermission("promotions", "read"), async (req, res) => {
     try {
       const { promotionId, customerId } = req.query;
       const usage = await storage.getPromotionUsage(
@@ -167,4 +322,87 @@ export function registerPromotionRoutes(app: Express) {
       res.status(500).json({ message: "Failed to fetch promotion usage", error });
     }
   });
+
+  app.get("/api/promotions/:id/coupons", isAuthenticated, requirePermission("promotions", "read", { storeOf: promotionStore }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid promotion ID" });
+      }
+
+      res.json(await storage.getCoupons(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch coupons", error });
+    }
+  });
+
+  // Creates codes for a promotion: explicit codes, a generated batch, or one voucher per customer
+  app.post("/api/promotions/:id/coupons", isAuthenticated, requirePermission("promotions", "create", { storeOf: promotionStore }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid promotion ID" });
+      }
+
+      const parsed = couponBatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid coupon batch", errors: parsed.error.errors });
+      }
+
+      const promotion = await storage.getPromotion(id);
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+
+      const user = req.user as any;
+      const result = await storage.createCoupons(id, { ...parsed.data, createdBy: user?.id ?? null });
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.status(201).json(result.coupons);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create coupons", error });
+    }
+  });
+
+  app.patch("/api/coupons/:id", isAuthenticated, requirePermission("promotions", "update", { storeOf: couponStore }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid coupon ID" });
+      }
+
+      const parsed = updateCouponSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid coupon", errors: parsed.error.errors });
+      }
+
+      const coupon = await storage.updateCoupon(id, parsed.data);
+      if (!coupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+      res.json(coupon);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update coupon", error });
+    }
+  });
+
+  // Checks a code typed at the till before it is added to the cart
+  app.post("/api/coupons/validate", isAuthenticated, requirePermission("promotions", "apply"), async (req, res) => {
+    try {
+      const parsed = validateCouponSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid coupon", errors: parsed.error.errors });
+      }
+
+      const { code, storeId, customerId } = parsed.data;
+      const result = await storage.validateCoupon(code, storeId, customerId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.rejection.message, code: result.rejection.code });
+      }
+      res.json({ coupon: result.coupon, promotion: result.promotion });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to validate coupon", error });
+    }
+  });
 }
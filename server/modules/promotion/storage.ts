@@ -1,8 +1,13 @@
 import { db } from "../../db";
 import {
+  coupons,
+  customers,
+  products,
   promotions,
   promotionRules,
   promotionUsage,
+  transactions,
+  type Coupon,
   type Promotion,
   type InsertPromotion,
   type PromotionRule,
@@ -10,7 +15,25 @@ import {
   type PromotionUsage,
   type InsertPromotionUsage
 } from "@shared/schema";
-import { and, eq, gte, lte, sql } from "drizzle-orm";
+import { and, count, desc, eq, gte, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import {
+  checkCoupon,
+  checkCustomerEligibility,
+  checkPromotionDiscount,
+  generateCouponCodes,
+  normalizeCouponCode,
+  PromotionUnavailableError,
+  resolveCustomerType,
+  type CouponRejection,
+  type CustomerPromotionContext,
+  type PromotionRedemption,
+} from "./coupons";
+import {
+  evaluatePromotions,
+  type PromotionCartLine,
+  type PromotionDefinition,
+  type PromotionEvaluation,
+} from "./engine";
 
 /**
  * Promotion data access helpers kept alongside the promotion module.
@@ -39,21 +62,42 @@ export async function getPromotion(id: number): Promise<Promotion | undefined> {
   return promotion;
 }
 
-export async function createPromotion(promotion: InsertPromotion): Promise<Promotion> {
-  const [created] = await db.insert(promotions).values(promotion).returning();
-  return created;
+export type PromotionRuleInput = Omit<InsertPromotionRule, "promotionId">;
+
+export async function createPromotion(
+  promotion: InsertPromotion,
+  rules: PromotionRuleInput[] = []
+): Promise<Promotion> {
+  return db.transaction(async (tx) => {
+    const [created] = await tx.insert(promotions).values(promotion).returning();
+    if (rules.length > 0) {
+      await tx.insert(promotionRules).values(rules.map((rule) => ({ ...rule, promotionId: created.id })));
+    }
+    return created;
+  });
 }
 
+/** Updates a promotion; when rules are given they replace the existing ones. */
 export async function updatePromotion(
   id: number,
-  promotion: Partial<InsertPromotion>
+  promotion: Partial<InsertPromotion>,
+  rules?: PromotionRuleInput[]
 ): Promise<Promotion | undefined> {
-  const [updated] = await db
-    .update(promotions)
-    .set(promotion)
-    .where(eq(promotions.id, id))
-    .returning();
-  return updated;
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(promotions)
+      .set({ ...promotion, updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning();
+
+    if (updated && rules) {
+      await tx.delete(promotionRules).where(eq(promotionRules.promotionId, id));
+      if (rules.length > 0) {
+        await tx.insert(promotionRules).values(rules.map((rule) => ({ ...rule, promotionId: id })));
+      }
+    }
+    return updated;
+  });
 }
 
 export async function deletePromotion(id: number): Promise<boolean> {
@@ -75,43 +119,64 @@ export async function deletePromotionRule(id: number): Promise<boolean> {
   return (result.rowCount || 0) > 0;
 }
 
-export async function getApplicablePromotions(storeId: number, cartItems: any[]): Promise<Promotion[]> {
-  const active = await getActivePromotions(storeId);
-  const applicable: Promotion[] = [];
+async function loadDefinitions(candidates: Promotion[]): Promise<PromotionDefinition[]> {
+  if (candidates.length === 0) return [];
+  const rules = await db
+    .select()
+    .from(promotionRules)
+    .where(inArray(promotionRules.promotionId, candidates.map((promotion) => promotion.id)));
 
-  for (const promotion of active) {
-    const rules = await getPromotionRules(promotion.id);
-    let canApply = false;
+  return candidates.map((promotion) => ({
+    ...promotion,
+    rules: rules.filter((rule) => rule.promotionId === promotion.id),
+  }));
+}
 
-    for (const rule of rules) {
-      if (rule.ruleType === "all_products") {
-        canApply = true;
-        break;
-      }
-      if (rule.ruleType === "product" && rule.productId) {
-        canApply = cartItems.some((item) => item.productId === rule.productId);
-        if (canApply) break;
-      }
-      if (rule.ruleType === "category" && rule.category) {
-        canApply = cartItems.some((item) => item.category === rule.category);
-        if (canApply) break;
-      }
-    }
+/**
+ * Normalises cart items from the POS into engine lines, filling in product
+ * categories the client does not send.
+ */
+async function toCartLines(items: any[]): Promise<PromotionCartLine[]> {
+  const missing = Array.from(
+    new Set(
+      items
+        .filter((item) => item.productId && !item.category)
+        .map((item) => Number(item.productId))
+    )
+  );
+  const categories = new Map<number, string | null>();
+  if (missing.length > 0) {
+    const rows = await db
+      .select({ id: products.id, category: products.category })
+      .from(products)
+      .where(inArray(products.id, missing));
+    rows.forEach((row) => categories.set(row.id, row.category));
+  }
 
-    if (canApply && promotion.minOrderAmount) {
-      const cartTotal = cartItems.reduce(
-        (sum, item) => sum + parseFloat(item.price) * item.quantity,
-        0
-      );
-      canApply = cartTotal >= parseFloat(promotion.minOrderAmount);
-    }
+  return items.map((item) => {
+    const productId = item.productId ? Number(item.productId) : null;
+    return {
+      productId,
+      sku: String(item.sku ?? productId ?? ""),
+      category: item.category ?? (productId ? categories.get(productId) ?? null : null),
+      price: parseFloat(item.price ?? item.unitPrice ?? "0") || 0,
+      quantity: Number(item.quantity) || 0,
+    };
+  });
+}
 
-    if (canApply) {
-      applicable.push(promotion);
-    }
-  }
+// Coupon promotions only apply once their code has been entered
+const appliesAutomatically = (promotion: Promotion) => !promotion.requiresCoupon;
 
-  return applicable;
+export async function getApplicablePromotions(storeId: number, cartItems: any[]): Promise<Promotion[]> {
+  const active = (await getActivePromotions(storeId)).filter(appliesAutomatically);
+  const [definitions, lines] = await Promise.all([loadDefinitions(active), toCartLines(cartItems)]);
+
+  // A promotion is applicable when it would give a discount on this cart on its own
+  return active.filter((promotion, index) => {
+    const { totalDiscount } = evaluatePromotions([definitions[index]], lines);
+    return totalDiscount > 0;
+  });
 }
 
 export async function applyPromotion(
@@ -123,143 +188,84 @@ export async function applyPromotion(
     return { success: false, discount: 0, appliedItems: [] };
   }
 
-  const rules = await getPromotionRules(promotion.id);
-  const cartTotal = cartItems.reduce(
-    (sum, item) => sum + parseFloat(item.price) * item.quantity,
-    0
-  );
-
-  let discount = 0;
-  const appliedItems: any[] = [];
-
-  switch (promotion.type) {
-    case "percentage":
-      discount = cartTotal * (parseFloat(promotion.value || "0") / 100);
-      break;
-    case "fixed_amount":
-      discount = parseFloat(promotion.value || "0");
-      break;
-    case "buy_x_get_y":
-      for (const rule of rules) {
-        if (rule.buyQuantity && rule.getQuantity) {
-          const eligibleItems =
-            rule.ruleType === "all_products"
-              ? cartItems
-              : rule.ruleType === "product" && rule.productId
-              ? cartItems.filter((item) => item.productId === rule.productId)
-              : rule.ruleType === "category" && rule.category
-              ? cartItems.filter((item) => item.category === rule.category)
-              : [];
-
-          const totalEligibleQty = eligibleItems.reduce((sum, item) => sum + item.quantity, 0);
-          const setsQualified = Math.floor(totalEligibleQty / rule.buyQuantity);
-          const freeItems = setsQualified * rule.getQuantity;
-
-          if (freeItems > 0) {
-            const sortedItems = [...eligibleItems].sort(
-              (a, b) => parseFloat(a.price) - parseFloat(b.price)
-            );
-            let remainingFree = freeItems;
-
-            for (const item of sortedItems) {
-              if (remainingFree <= 0) break;
-              const freeFromThisItem = Math.min(remainingFree, item.quantity);
-              discount += freeFromThisItem * parseFloat(item.price);
-              remainingFree -= freeFromThisItem;
-              appliedItems.push({ ...item, discountedQuantity: freeFromThisItem });
-            }
-          }
-        }
-      }
-      break;
-    default:
-      discount = 0;
-  }
-
-  if (promotion.maxDiscountAmount && discount > parseFloat(promotion.maxDiscountAmount)) {
-    discount = parseFloat(promotion.maxDiscountAmount);
-  }
+  const [[definition], lines] = await Promise.all([loadDefinitions([promotion]), toCartLines(cartItems)]);
+  const { totalDiscount, appliedPromotions } = evaluatePromotions([definition], lines);
 
-  for (const rule of rules) {
-    if (rule.ruleType === "all_products") {
-      appliedItems.push(...cartItems);
-      break;
-    }
-    if (rule.ruleType === "product" && rule.productId) {
-      appliedItems.push(...cartItems.filter((item) => item.productId === rule.productId));
-    } else if (rule.ruleType === "category" && rule.category) {
-      appliedItems.push(...cartItems.filter((item) => item.category === rule.category));
-    }
-  }
+  return {
+    success: totalDiscount > 0,
+    discount: totalDiscount,
+    appliedItems: appliedPromotions[0]?.items ?? [],
+  };
+}
 
-  return { success: true, discount, appliedItems };
+export interface CouponApplication {
+  code: string;
+  promotionId?: number;
+  rejection?: CouponRejection;
 }
 
+/**
+ * Resolves the deals on a cart: automatic promotions plus those unlocked by
+ * the coupon codes given, limited to what the customer is eligible for.
+ */
 export async function applyPromotions(
   storeId: number,
   items: any[],
-  customerId?: number
-): Promise<{ promotions: Promotion[]; totalDiscount: number; appliedPromotions: any[] }> {
-  const activePromos = await getActivePromotions(storeId);
-  const appliedPromotions: any[] = [];
-  let totalDiscount = 0;
-
-  for (const promotion of activePromos) {
-    const rules = await getPromotionRules(promotion.id);
-    let canApply = false;
-    let discountAmount = 0;
-
-    for (const rule of rules) {
-      if (rule.ruleType === "all_products") {
-        canApply = true;
-        break;
-      }
-      if (rule.ruleType === "category") {
-        canApply = items.some((item) => item.category === rule.category);
-        if (canApply) break;
-      }
-      if (rule.ruleType === "product") {
-        canApply = items.some((item) => item.productId === rule.productId);
-        if (canApply) break;
-      }
-    }
-
-    if (!canApply) {
-      continue;
-    }
-
-    const orderTotal = items.reduce((sum, item) => sum + parseFloat(item.total), 0);
-
-    if (promotion.minOrderAmount && orderTotal < parseFloat(promotion.minOrderAmount)) {
-      continue;
-    }
-
-    if (promotion.type === "percentage") {
-      discountAmount = orderTotal * (parseFloat(promotion.value || "0") / 100);
-    } else if (promotion.type === "fixed_amount") {
-      discountAmount = parseFloat(promotion.value || "0");
-    }
-
-    if (promotion.maxDiscountAmount && discountAmount > parseFloat(promotion.maxDiscountAmount)) {
-      discountAmount = parseFloat(promotion.maxDiscountAmount);
+  customerId?: number,
+  couponCodes: string[] = []
+): Promise<{ promotions: Promotion[]; coupons: CouponApplication[] } & PromotionEvaluation> {
+  const [active, customer, lines] = await Promise.all([
+    getActivePromotions(storeId),
+    getCustomerPromotionContext(customerId),
+    toCartLines(items),
+  ]);
+
+  const couponResults: CouponApplication[] = [];
+  const unlocked = new Set<number>();
+  for (const code of couponCodes) {
+    const result = await validateCoupon(code, storeId, customer);
+    if (result.success) {
+      unlocked.add(result.promotion.id);
+      couponResults.push({ code: result.coupon.code, promotionId: result.promotion.id });
+    } else {
+      couponResults.push({ code: normalizeCouponCode(code), rejection: result.rejection });
     }
+  }
 
-    if (promotion.usageLimit && (promotion.usageCount || 0) >= promotion.usageLimit) {
-      continue;
-    }
+  const eligible = active.filter(
+    (promotion) =>
+      (appliesAutomatically(promotion) || unlocked.has(promotion.id)) &&
+      !checkCustomerEligibility(promotion, customer)
+  );
+  const definitions = await loadDefinitions(eligible);
 
-    // Customer-specific limits could be enforced here in the future.
+  return { promotions: eligible, coupons: couponResults, ...evaluatePromotions(definitions, lines) };
+}
 
-    totalDiscount += discountAmount;
-    appliedPromotions.push({
-      promotionId: promotion.id,
-      name: promotion.name,
-      discountAmount,
-      type: promotion.type
-    });
+/** Customer type and past redemptions, used for promotion targeting. */
+export async function getCustomerPromotionContext(customerId?: number | null): Promise<CustomerPromotionContext> {
+  if (!customerId) {
+    return { customerId: null, customerType: null, usageByPromotion: new Map() };
   }
 
-  return { promotions: activePromos, totalDiscount, appliedPromotions };
+  const [[customer], [purchases], usage] = await Promise.all([
+    db.select({ isVip: customers.isVip }).from(customers).where(eq(customers.id, customerId)),
+    db
+      .select({ total: count() })
+      .from(transactions)
+      .where(and(eq(transactions.customerId, customerId), eq(transactions.status, "completed"))),
+    db
+      .select({ promotionId: promotionUsage.promotionId, total: count() })
+      .from(promotionUsage)
+      .where(eq(promotionUsage.customerId, customerId))
+      .groupBy(promotionUsage.promotionId),
+  ]);
+
+  return {
+    customerId,
+    customerType: customer ? resolveCustomerType(customer, Number(purchases?.total ?? 0)) : null,
+    usageByPromotion: new Map(usage.map((row) => [row.promotionId, Number(row.total)])),
+  };
 }
 
 export async function recordPromotionUsage(usage: InsertPromotionUsage): Promise<PromotionUsage> {
@@ -296,3 +302,232 @@ export async function getPromotionUsage(
 
   return db.select().from(promotionUsage);
 }
+
+// ---------------------------------------------------------------------------
+// Coupons
+// ---------------------------------------------------------------------------
+
+export async function getCoupons(promotionId: number): Promise<Coupon[]> {
+  return db.select().from(coupons).where(eq(coupons.promotionId, promotionId)).orderBy(desc(coupons.createdAt));
+}
+
+export async function getCoupon(id: number): Promise<Coupon | undefined> {
+  const [coupon] = await db.select().from(coupons).where(eq(coupons.id, id));
+  return coupon;
+}
+
+export async function getCouponByCode(code: string): Promise<Coupon | undefined> {
+  const [coupon] = await db.select().from(coupons).where(eq(coupons.code, normalizeCouponCode(code)));
+  return coupon;
+}
+
+export interface CouponBatchInput {
+  // Explicit codes (e.g. "WELCOME10"); otherwise `count` random codes are generated
+  codes?: string[];
+  count?: number;
+  prefix?: string | null;
+  // One voucher per customer; takes precedence over `count`
+  customerIds?: number[];
+  maxRedemptions?: number | null;
+  expiresAt?: Date | null;
+  batchLabel?: string | null;
+  createdBy?: number | null;
+}
+
+export async function createCoupons(
+  promotionId: number,
+  input: CouponBatchInput
+): Promise<{ success: true; coupons: Coupon[] } | { success: false; message: string }> {
+  const customerIds = input.customerIds ?? [];
+  let codes = (input.codes ?? []).map(normalizeCouponCode).filter(Boolean);
+  if (codes.length > 0 && customerIds.length > 0 && codes.length !== customerIds.length) {
+    return { success: false, message: "Give one code per customer or let codes be generated" };
+  }
+
+  if (codes.length > 0) {
+    const clashes = await db.select({ code: coupons.code }).from(coupons).where(inArray(coupons.code, codes));
+    if (clashes.length > 0) {
+      return { success: false, message: `Code ${clashes[0].code} is already in use` };
+    }
+  } else {
+    const wanted = customerIds.length || input.count || 0;
+    codes = generateCouponCodes(wanted, { prefix: input.prefix });
+    // Random codes rarely collide; replace any that do
+    const clashes = await db.select({ code: coupons.code }).from(coupons).where(inArray(coupons.code, codes));
+    if (clashes.length > 0) {
+      const taken = new Set([...codes, ...clashes.map((row) => row.code)]);
+      const replacements = generateCouponCodes(clashes.length, { prefix: input.prefix }, taken);
+      codes = codes.filter((code) => !clashes.some((row) => row.code === code)).concat(replacements);
+    }
+    if (codes.length < wanted) {
+      return { success: false, message: "Could not generate enough unique codes; use a longer prefix" };
+    }
+  }
+
+  const created = await db
+    .insert(coupons)
+    .values(
+      codes.map((code, index) => ({
+        promotionId,
+        code,
+        customerId: customerIds[index] ?? null,
+        maxRedemptions: input.maxRedemptions === undefined ? 1 : input.maxRedemptions,
+        expiresAt: input.expiresAt ?? null,
+        batchLabel: input.batchLabel ?? null,
+        createdBy: input.createdBy ?? null,
+      }))
+    )
+    .returning();
+
+  return { success: true, coupons: created };
+}
+
+export async function updateCoupon(
+  id: number,
+  updates: Partial<Pick<Coupon, "isActive" | "expiresAt" | "maxRedemptions">>
+): Promise<Coupon | undefined> {
+  const [updated] = await db.update(coupons).set(updates).where(eq(coupons.id, id)).returning();
+  return updated;
+}
+
+export async function validateCoupon(
+  code: string,
+  storeId: number,
+  customer: CustomerPromotionContext
+): Promise<{ success: true; coupon: Coupon; promotion: Promotion } | { success: false; rejection: CouponRejection }> {
+  const coupon = await getCouponByCode(code);
+  const promotion = coupon ? await getPromotion(coupon.promotionId) : undefined;
+  if (!coupon || !promotion) {
+    return { success: false, rejection: { code: "NOT_FOUND", message: "Coupon code not recognised" } };
+  }
+
+  const rejection = checkCoupon(coupon, promotion, { storeId, now: new Date(), customer });
+  return rejection ? { success: false, rejection } : { success: true, coupon, promotion };
+}
+
+/**
+ * Re-checks the promotions on a sale right before it is recorded: coupon
+ * validity, usage limits and customer targeting may have changed since the
+ * cart was priced.
+ */
+export async function checkRedemption(redemption: PromotionRedemption): Promise<CouponRejection | null> {
+  if (!redemption.couponCode && redemption.appliedPromotions.length === 0) return null;
+  const customer = await getCustomerPromotionContext(redemption.customerId);
+
+  let couponPromotionId: number | null = null;
+  if (redemption.couponCode) {
+    const result = await validateCoupon(redemption.couponCode, redemption.storeId, customer);
+    if (!result.success) return result.rejection;
+    couponPromotionId = result.promotion.id;
+  }
+
+  const ids = redemption.appliedPromotions.map((applied) => applied.promotionId);
+  const applied = ids.length > 0 ? await db.select().from(promotions).where(inArray(promotions.id, ids)) : [];
+  for (const promotion of applied) {
+    if (promotion.requiresCoupon && promotion.id !== couponPromotionId) {
+      return { code: "COUPON_REQUIRED", message: `${promotion.name} needs a coupon code` };
+    }
+    if (promotion.usageLimit && (promotion.usageCount || 0) >= promotion.usageLimit) {
+      return { code: "USED_UP", message: `${promotion.name} has reached its usage limit` };
+    }
+    const rejection = checkCustomerEligibility(promotion, customer);
+    if (rejection) return rejection;
+  }
+  return null;
+}
+
+/**
+ * Prices a sale's deals again from its own lines, customer and coupon, and
+ * refuses a promotion discount that does not come to the same. A sale that
+ * claims no promotion discount is not priced.
+ */
+export async function checkPromotionPricing(
+  redemption: PromotionRedemption,
+  items: any[],
+  claimedDiscount: number
+): Promise<CouponRejection | null> {
+  if (claimedDiscount === 0 && redemption.appliedPromotions.every((entry) => entry.discountAmount === 0)) return null;
+
+  const priced = await applyPromotions(
+    redemption.storeId,
+    items,
+    redemption.customerId ?? undefined,
+    redemption.couponCode ? [redemption.couponCode] : []
+  );
+  return checkPromotionDiscount(redemption, claimedDiscount, priced);
+}
+
+export type RedemptionExecutor = Pick<typeof db, "insert" | "update">;
+
+/**
+ * Records one promotion_usage row per promotion on a completed sale and
+ * counts the coupon as redeemed when its promotion was applied. Runs in the
+ * sale's own transaction when given one, so the usage counts only move with
+ * a sale that is kept. If another till used up a promotion or the coupon
+ * since the sale was checked, throws PromotionUnavailableError.
+ */
+export async function recordRedemptions(
+  transactionId: number,
+  redemption: PromotionRedemption,
+  executor?: RedemptionExecutor,
+): Promise<PromotionUsage[]> {
+  const applied = redemption.appliedPromotions.filter((entry) => entry.discountAmount > 0);
+  if (applied.length === 0) return [];
+
+  const coupon = redemption.couponCode ? await getCouponByCode(redemption.couponCode) : undefined;
+
+  const record = async (tx: RedemptionExecutor) => {
+    const recorded = await tx
+      .insert(promotionUsage)
+      .values(
+        applied.map((entry) => ({
+          promotionId: entry.promotionId,
+          transactionId,
+          customerId: redemption.customerId ?? null,
+          couponId: coupon && coupon.promotionId === entry.promotionId ? coupon.id : null,
+          discountAmount: entry.discountAmount.toFixed(2),
+        }))
+      )
+      .returning();
+
+    // Guarded so two tills cannot both take the last use
+    const promotionIds = Array.from(new Set(applied.map((entry) => entry.promotionId)));
+    const counted = await tx
+      .update(promotions)
+      .set({ usageCount: sql`COALESCE(${promotions.usageCount}, 0) + 1` })
+      .where(
+        and(
+          inArray(promotions.id, promotionIds),
+          or(
+            isNull(promotions.usageLimit),
+            eq(promotions.usageLimit, 0),
+            sql`COALESCE(${promotions.usageCount}, 0) < ${promotions.usageLimit}`
+          )
+        )
+      )
+      .returning({ id: promotions.id });
+    if (counted.length < promotionIds.length) {
+      throw new PromotionUnavailableError({ code: "USED_UP", message: "A promotion on this sale has reached its usage limit" });
+    }
+
+    if (coupon && applied.some((entry) => entry.promotionId === coupon.promotionId)) {
+      const redeemed = await tx
+        .update(coupons)
+        .set({ redemptionCount: sql`COALESCE(${coupons.redemptionCount}, 0) + 1` })
+        .where(
+          and(
+            eq(coupons.id, coupon.id),
+            or(isNull(coupons.maxRedemptions), sql`COALESCE(${coupons.redemptionCount}, 0) < ${coupons.maxRedemptions}`)
+          )
+        )
+        .returning({ id: coupons.id });
+      if (redeemed.length === 0) {
+        throw new PromotionUnavailableError({ code: "USED_UP", message: "This coupon has already been used" });
+      }
+    }
+
+    return recorded;
+  };
+
+  return executor ? record(executor) : db.transaction((tx) => record(tx));
+}
@@ -0,0 +1,258 @@
+import { z } from "zod";
+import type { InvoiceMatchStatus, PurchaseOrderItem, PurchaseOrderStatus } from "@shared/schema";
+import { expiryDateSchema } from "../inventory/lots";
+
+const quantity = z.coerce.number().finite().multipleOf(0.01, "Quantities have at most two decimals");
+const money = z.coerce.number().finite().nonnegative().multipleOf(0.01, "Amounts have at most two decimals");
+
+const orderLines = z
+  .array(
+    z.object({
+      productId: z.coerce.number().int().positive(),
+      // Ordered in this purchase unit (e.g. "ctn"), at a cost per unit; the base unit when left out
+      unit: z.string().trim().max(20).optional().nullable(),
+      quantity: quantity.positive("Order quantities must be above zero"),
+      unitCost: money,
+    }),
+  )
+  .min(1, "Add at least one product to the order")
+  .refine((items) => new Set(items.map((item) => item.productId)).size === items.length, {
+    message: "Each product can only appear once on an order",
+  });
+
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.coerce.number().int().positive(),
+  storeId: z.coerce.number().int().positive(),
+  expectedDate: z.coerce.date().optional().nullable(),
+  notes: z.string().trim().max(1000).optional().nullable(),
+  items: orderLines,
+});
+
+// Only drafts can be edited, so the supplier and store stay as created
+export const updatePurchaseOrderSchema = createPurchaseOrderSchema.omit({ supplierId: true, storeId: true });
+
+export const receiveGoodsSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        itemId: z.coerce.number().int().positive(),
+        quantity: quantity.nonnegative(),
+        discrepancyNote: z.string().trim().max(500).optional().nullable(),
+        // For perishables: the stock arrives in this lot
+        lotNumber: z.string().trim().max(100).optional().nullable(),
+        expiryDate: expiryDateSchema.optional().nullable(),
+      }),
+    )
+    .default([]),
+  deliveryReference: z.string().trim().max(100).optional().nullable(),
+  notes: z.string().trim().max(1000).optional().nullable(),
+  // The supplier will not send the rest: close the order even if short
+  complete: z.boolean().default(false),
+});
+
+export const cancelPurchaseOrderSchema = z.object({
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
+export const acceptMatchSchema = z.object({
+  reason: z.string().trim().min(1, "Say why the differences are accepted").max(500),
+});
+
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+export type UpdatePurchaseOrderInput = z.infer<typeof updatePurchaseOrderSchema>;
+export type ReceiveGoodsInput = z.infer<typeof receiveGoodsSchema>;
+
+type OrderLine = Pick<PurchaseOrderItem, "id" | "productId" | "quantityOrdered" | "quantityReceived" | "unitCost"> &
+  Partial<Pick<PurchaseOrderItem, "unitFactor">>;
+
+export interface PlannedGoodsLine {
+  itemId: number;
+  productId: number;
+  ordered: number;
+  // Arriving on this delivery
+  quantity: number;
+  // Received across all deliveries, including this one
+  received: number;
+  discrepancyNote: string | null;
+  lotNumber: string | null;
+  expiryDate: string | null;
+  unitCost: number;
+}
+
+export interface InvoiceLineForMatch {
+  productId: number | null;
+  productName: string;
+  quantity: string | number;
+  // Base units in the unit the line was billed in
+  unitFactor?: string | number;
+  unitCost: string | number;
+  totalCost: string | number;
+}
+
+export interface MatchLine {
+  productId: number | null;
+  productName: string;
+  ordered: number;
+  received: number;
+  invoiced: number;
+  orderUnitCost: number | null;
+  invoiceUnitCost: number | null;
+  problems: string[];
+}
+
+export interface InvoiceMatch {
+  status: Exclude<InvoiceMatchStatus, "accepted">;
+  lines: MatchLine[];
+}
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+const toNumber = (value: string | number | null | undefined): number => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const formatPurchaseOrderNumber = (id: number): string => `PO-${String(id).padStart(6, "0")}`;
+export const formatGoodsReceivedNumber = (id: number): string => `GRN-${String(id).padStart(6, "0")}`;
+
+export const orderSubtotal = (items: Array<{ quantity: number; unitCost: number }>): number =>
+  round2(items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0));
+
+/** Orders can take deliveries once sent, until everything arrived or they were closed. */
+export const canReceive = (status: string): boolean => status === "sent" || status === "partially_received";
+
+/**
+ * Checks a delivery against what is still outstanding on the order. Lines
+ * left out received nothing; receiving more than was ordered is refused so
+ * extras go on a new order. Closing an order with units missing needs a note.
+ */
+export function planGoodsReceipt(
+  lines: OrderLine[],
+  receipt: ReceiveGoodsInput,
+): { success: true; lines: PlannedGoodsLine[]; fullyReceived: boolean } | { success: false; message: string } {
+  const byId = new Map(receipt.items.map((item) => [item.itemId, item]));
+  const unknown = receipt.items.find((item) => !lines.some((line) => line.id === item.itemId));
+  if (unknown) {
+    return { success: false, message: `Line ${unknown.itemId} is not on this order` };
+  }
+
+  const planned: PlannedGoodsLine[] = [];
+  let fullyReceived = true;
+  for (const line of lines) {
+    const entry = byId.get(line.id);
+    const ordered = toNumber(line.quantityOrdered);
+    const already = toNumber(line.quantityReceived);
+    const arriving = round2(entry?.quantity ?? 0);
+    const outstanding = Math.max(0, round2(ordered - already));
+    if (arriving > outstanding) {
+      return { success: false, message: `Only ${outstanding} of that line is still outstanding` };
+    }
+
+    const received = round2(already + arriving);
+    const note = entry?.discrepancyNote?.trim() || null;
+    const short = received < ordered;
+    if (short) fullyReceived = false;
+    if (short && receipt.complete && !note) {
+      return { success: false, message: "Explain the missing units before closing the order" };
+    }
+    planned.push({
+      itemId: line.id,
+      productId: line.productId,
+      ordered,
+      quantity: arriving,
+      received,
+      discrepancyNote: note,
+      lotNumber: entry?.lotNumber?.trim() || null,
+      expiryDate: entry?.expiryDate || null,
+      unitCost: toNumber(line.unitCost),
+    });
+  }
+
+  if (!planned.some((line) => line.quantity > 0) && !receipt.complete) {
+    return { success: false, message: "Enter the quantities that arrived" };
+  }
+  return { success: true, lines: planned, fullyReceived };
+}
+
+export const statusAfterGoodsReceipt = (fullyReceived: boolean, complete: boolean): PurchaseOrderStatus =>
+  fullyReceived || complete ? "received" : "partially_received";
+
+/**
+ * Three-way match: the invoice must bill what the GRNs received, at the
+ * prices on the order. Lines are compared by product; several invoice lines
+ * for one product are added together.
+ */
+export function matchInvoice(order: OrderLine[], invoice: InvoiceLineForMatch[], productNames: Map<number, string> = new Map()): InvoiceMatch {
+  // Billed quantities are added up in base units, then compared in the unit each order line was ordered in
+  const billed = new Map<number, { quantity: number; total: number; name: string }>();
+  const lines: MatchLine[] = [];
+
+  for (const item of invoice) {
+    const quantity = toNumber(item.quantity);
+    if (item.productId === null) {
+      lines.push({
+        productId: null,
+        productName: item.productName,
+        ordered: 0,
+        received: 0,
+        invoiced: quantity,
+        orderUnitCost: null,
+        invoiceUnitCost: toNumber(item.unitCost),
+        problems: ["Not linked to a product"],
+      });
+      continue;
+    }
+    const current = billed.get(item.productId) ?? { quantity: 0, total: 0, name: item.productName };
+    current.quantity += quantity * (toNumber(item.unitFactor ?? 1) || 1);
+    current.total += toNumber(item.totalCost) || toNumber(item.unitCost) * quantity;
+    billed.set(item.productId, current);
+  }
+
+  for (const line of order) {
+    const ordered = toNumber(line.quantityOrdered);
+    const received = toNumber(line.quantityReceived);
+    const orderUnitCost = toNumber(line.unitCost);
+    const factor = toNumber(line.unitFactor ?? 1) || 1;
+    const bill = billed.get(line.productId);
+    billed.delete(line.productId);
+    // Nothing delivered and nothing billed yet: not part of this invoice
+    if (!bill && received === 0) continue;
+
+    const invoiced = round2((bill?.quantity ?? 0) / factor);
+    const invoiceUnitCost = bill && bill.quantity > 0 ? round2((bill.total / bill.quantity) * factor) : null;
+    const problems: string[] = [];
+    if (invoiced > received) problems.push(`Billed ${invoiced} but only ${received} received`);
+    if (invoiced < received) problems.push(`Received ${received} but only ${invoiced} billed`);
+    if (invoiceUnitCost !== null && Math.abs(invoiceUnitCost - orderUnitCost) >= 0.005) {
+      problems.push(`Billed at ${invoiceUnitCost.toFixed(2)} instead of the ordered ${orderUnitCost.toFixed(2)}`);
+    }
+
+    lines.push({
+      productId: line.productId,
+      productName: bill?.name ?? productNames.get(line.productId) ?? `Product ${line.productId}`,
+      ordered,
+      received,
+      invoiced,
+      orderUnitCost,
+      invoiceUnitCost,
+      problems,
+    });
+  }
+
+  for (const [productId, bill] of Array.from(billed)) {
+    lines.push({
+      productId,
+      productName: bill.name,
+      ordered: 0,
+      received: 0,
+      invoiced: round2(bill.quantity),
+      orderUnitCost: null,
+      invoiceUnitCost: bill.quantity > 0 ? round2(bill.total / bill.quantity) : null,
+      problems: ["Not on the purchase order"],
+    });
+  }
+
+  return {
+    status: lines.some((line) => line.problems.length > 0) ? "discrepancy" : "matched",
+    lines,
+  };
+}
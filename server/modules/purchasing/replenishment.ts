@@ -0,0 +1,211 @@
+import { z } from "zod";
+
+/** How often stock should cover lead-time demand, and the matching number of standard deviations. */
+export const SERVICE_LEVEL_FACTORS = {
+  "0.90": 1.28,
+  "0.95": 1.65,
+  "0.98": 2.05,
+  "0.99": 2.33,
+} as const;
+
+// Same as the suppliers.lead_time_days default, for products without a supplier
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+export type ServiceLevel = keyof typeof SERVICE_LEVEL_FACTORS;
+
+const serviceLevels = Object.keys(SERVICE_LEVEL_FACTORS) as [ServiceLevel, ...ServiceLevel[]];
+
+export const reorderSettingsSchema = z.object({
+  // Days of sales the velocity is averaged over
+  lookbackDays: z.coerce.number().int().min(7).max(365).default(28),
+  // Days of sales each order should last beyond the reorder point
+  coverDays: z.coerce.number().int().min(1).max(180).default(14),
+  serviceLevel: z.enum(serviceLevels).default("0.95"),
+});
+
+export const convertSuggestionsSchema = reorderSettingsSchema.extend({
+  // Only order from these suppliers; all of them when left out
+  supplierIds: z.array(z.coerce.number().int().positive()).optional(),
+  // Quantities the manager changed; zero drops the line
+  items: z
+    .array(
+      z.object({
+        productId: z.coerce.number().int().positive(),
+        quantity: z.coerce.number().int("Order whole units").nonnegative(),
+      }),
+    )
+    .optional(),
+  expectedDate: z.coerce.date().optional().nullable(),
+  dryRun: z.boolean().default(false),
+});
+
+export type ReorderSettings = z.infer<typeof reorderSettingsSchema>;
+export type ConvertSuggestionsInput = z.infer<typeof convertSuggestionsSchema>;
+
+export interface ReorderCandidate {
+  productId: number;
+  productName: string;
+  sku: string;
+  supplierId: number | null;
+  supplierName: string | null;
+  leadTimeDays: number;
+  onHand: number;
+  // Ordered from suppliers and not yet received
+  onOrder: number;
+  reorderLevel: number | null;
+  unitCost: number;
+  // Units sold per day over the lookback window, oldest first, days without sales as zero
+  dailySales: number[];
+}
+
+export interface ReorderSuggestion {
+  productId: number;
+  productName: string;
+  sku: string;
+  supplierId: number | null;
+  onHand: number;
+  onOrder: number;
+  velocity: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  targetLevel: number;
+  // Days the stock on hand lasts at the current velocity; null when it is not selling
+  daysOfCover: number | null;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface SupplierReorderGroup {
+  supplierId: number | null;
+  supplierName: string | null;
+  leadTimeDays: number | null;
+  lines: ReorderSuggestion[];
+  total: number;
+}
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/** Average units sold per day and how much that varies from day to day. */
+export function salesVelocity(dailySales: number[]): { mean: number; stdDev: number } {
+  if (dailySales.length === 0) return { mean: 0, stdDev: 0 };
+  const mean = dailySales.reduce((sum, units) => sum + units, 0) / dailySales.length;
+  const variance = dailySales.reduce((sum, units) => sum + (units - mean) ** 2, 0) / dailySales.length;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * Spreads per-day sales rows over the lookback window so quiet days count as
+ * zero. Days are store-local dates (YYYY-MM-DD), oldest first.
+ */
+export function dailySalesSeries(rows: Array<{ productId: number; day: string; quantity: number }>, days: string[]): Map<number, number[]> {
+  const position = new Map(days.map((day, index) => [day, index]));
+  const series = new Map<number, number[]>();
+  for (const row of rows) {
+    const index = position.get(row.day);
+    if (index === undefined) continue;
+    const sales = series.get(row.productId) ?? new Array<number>(days.length).fill(0);
+    sales[index] += row.quantity;
+    series.set(row.productId, sales);
+  }
+  return series;
+}
+
+/** The store-local dates in the window ending the day before `until`, oldest first. */
+export function lookbackDays(until: Date, count: number, formatDay: (date: Date) => string): string[] {
+  const days: string[] = [];
+  for (let offset = count; offset >= 1; offset--) {
+    days.push(formatDay(new Date(until.getTime() - offset * 24 * 60 * 60 * 1000)));
+  }
+  return days;
+}
+
+/**
+ * Order when stock on hand plus stock on order falls to the reorder point:
+ * expected sales over the supplier's lead time plus safety stock for sales
+ * running above average, and never below the store's own reorder level.
+ * The order brings the position up to the reorder point plus `coverDays` of sales.
+ */
+export function suggestReorder(candidate: ReorderCandidate, settings: ReorderSettings): ReorderSuggestion | null {
+  const { mean, stdDev } = salesVelocity(candidate.dailySales);
+  const leadTime = Math.max(0, candidate.leadTimeDays);
+  const safetyStock = round2(SERVICE_LEVEL_FACTORS[settings.serviceLevel] * stdDev * Math.sqrt(leadTime));
+  const reorderPoint = round2(Math.max(candidate.reorderLevel ?? 0, mean * leadTime + safetyStock));
+  const targetLevel = round2(reorderPoint + mean * settings.coverDays);
+  const position = candidate.onHand + candidate.onOrder;
+
+  if (reorderPoint <= 0 || position > reorderPoint) return null;
+  const quantity = Math.ceil(round2(targetLevel - position));
+  if (quantity <= 0) return null;
+
+  return {
+    productId: candidate.productId,
+    productName: candidate.productName,
+    sku: candidate.sku,
+    supplierId: candidate.supplierId,
+    onHand: candidate.onHand,
+    onOrder: candidate.onOrder,
+    velocity: round2(mean),
+    leadTimeDays: leadTime,
+    safetyStock,
+    reorderPoint,
+    targetLevel,
+    daysOfCover: mean > 0 ? round2(Math.max(0, candidate.onHand) / mean) : null,
+    quantity,
+    unitCost: candidate.unitCost,
+  };
+}
+
+/** Suggestions grouped into one would-be order per supplier; products without a supplier come last. */
+export function groupSuggestionsBySupplier(candidates: ReorderCandidate[], settings: ReorderSettings): SupplierReorderGroup[] {
+  const groups = new Map<number | null, SupplierReorderGroup>();
+  for (const candidate of candidates) {
+    const suggestion = suggestReorder(candidate, settings);
+    if (!suggestion) continue;
+    const group = groups.get(candidate.supplierId) ?? {
+      supplierId: candidate.supplierId,
+      supplierName: candidate.supplierName,
+      leadTimeDays: candidate.supplierId === null ? null : candidate.leadTimeDays,
+      lines: [],
+      total: 0,
+    };
+    group.lines.push(suggestion);
+    group.total = round2(group.total + suggestion.quantity * suggestion.unitCost);
+    groups.set(candidate.supplierId, group);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, lines: group.lines.sort((a, b) => (a.daysOfCover ?? Number.MAX_VALUE) - (b.daysOfCover ?? Number.MAX_VALUE)) }))
+    .sort((a, b) => {
+      if (a.supplierId === null) return 1;
+      if (b.supplierId === null) return -1;
+      return (a.supplierName ?? "").localeCompare(b.supplierName ?? "");
+    });
+}
+
+/**
+ * Applies the manager's edits to the suggested lines. Products that were not
+ * suggested cannot be slipped in here; they go on a normal order instead.
+ */
+export function applyQuantityOverrides(
+  groups: SupplierReorderGroup[],
+  overrides: ConvertSuggestionsInput["items"],
+): { success: true; groups: SupplierReorderGroup[] } | { success: false; message: string } {
+  if (!overrides?.length) return { success: true, groups };
+  const suggested = new Set(groups.flatMap((group) => group.lines.map((line) => line.productId)));
+  const unknown = overrides.find((item) => !suggested.has(item.productId));
+  if (unknown) {
+    return { success: false, message: `Product ${unknown.productId} is not a reorder suggestion for this store` };
+  }
+
+  const quantities = new Map(overrides.map((item) => [item.productId, item.quantity]));
+  const edited = groups
+    .map((group) => {
+      const lines = group.lines
+        .map((line) => ({ ...line, quantity: quantities.get(line.productId) ?? line.quantity }))
+        .filter((line) => line.quantity > 0);
+      return { ...group, lines, total: round2(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0)) };
+    })
+    .filter((group) => group.lines.length > 0);
+  return { success: true, groups: edited };
+}
@@ -0,0 +1,269 @@
+import type { Express, Response } from "express";
+import { z } from "zod";
+import { PURCHASE_ORDER_STATUSES } from "@shared/schema";
+import { storage } from "../../storage";
+import { isAuthenticated } from "../../auth";
+import { listableStoreIds, purchaseOrderStore, requirePermission, supplierInvoiceStore } from "../shared/authorization";
+import { resolveStoreTimezone } from "../shared/store-time";
+import { renderPurchaseOrderPdf } from "../invoices/pdf-renderer";
+import type { PurchasingResult } from "./storage";
+import {
+  acceptMatchSchema,
+  cancelPurchaseOrderSchema,
+  createPurchaseOrderSchema,
+  receiveGoodsSchema,
+  updatePurchaseOrderSchema,
+} from "./purchasing";
+import { convertSuggestionsSchema, reorderSettingsSchema } from "./replenishment";
+
+const listQuerySchema = z.object({
+  supplierId: z.coerce.number().int().positive().optional(),
+  storeId: z.coerce.number().int().positive().optional(),
+  status: z.enum(PURCHASE_ORDER_STATUSES).optional(),
+});
+
+const linkInvoiceSchema = z.object({
+  purchaseOrderId: z.coerce.number().int().positive(),
+});
+
+const parseId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) || id <= 0 ? null : id;
+};
+
+function sendResult(res: Response, result: PurchasingResult, created = false) {
+  if (!result.success) {
+    return res.status(result.code === "NOT_FOUND" ? 404 : 400).json({ message: result.message, code: result.code, details: result.details });
+  }
+  res.status(created ? 201 : 200).json(result.goodsReceivedNote ? { ...result.purchaseOrder, goodsReceivedNote: result.goodsReceivedNote } : result.purchaseOrder);
+}
+
+function invalid(res: Response, error: z.ZodError, fallback: string) {
+  return res.status(400).json({ message: error.errors[0]?.message || fallback, errors: error.errors });
+}
+
+export function registerPurchasingRoutes(app: Express) {
+  app.get("/api/purchase-orders", isAuthenticated, requirePermission("purchasing", "read"), async (req, res) => {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) return invalid(res, parsed.error, "Invalid filters");
+    try {
+      const storeIds = parsed.data.storeId ? undefined : await listableStoreIds(req.user!);
+      res.json(await storage.getPurchaseOrders({ ...parsed.data, storeIds }));
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", isAuthenticated, requirePermission("purchasing", "read", { storeOf: purchaseOrderStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid purchase order ID" });
+    try {
+      const order = await storage.getPurchaseOrder(id);
+      if (!order) return res.status(404).json({ message: "Purchase order not found" });
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id/pdf", isAuthenticated, requirePermission("purchasing", "read", { storeOf: purchaseOrderStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid purchase order ID" });
+    try {
+      const order = await storage.getPurchaseOrder(id);
+      if (!order) return res.status(404).json({ message: "Purchase order not found" });
+      const [supplier, store] = await Promise.all([storage.getSupplier(order.supplierId), storage.getStore(order.storeId)]);
+
+      const pdf = await renderPurchaseOrderPdf({
+        number: order.poNumber,
+        issuedAt: order.sentAt ?? order.createdAt,
+        timezone: resolveStoreTimezone(store),
+        currency: store?.baseCurrency || "QAR",
+        supplier: {
+          name: supplier?.name ?? order.supplierName ?? `Supplier ${order.supplierId}`,
+          contactPerson: supplier?.contactPerson,
+          address: supplier?.address,
+          phone: supplier?.phone,
+          email: supplier?.email,
+        },
+        deliverTo: { name: store?.name ?? `Store ${order.storeId}`, address: store?.address, phone: store?.phone },
+        expectedDate: order.expectedDate,
+        notes: order.notes,
+        lines: order.items.map((item) => ({
+          description: item.productName ?? `Product ${item.productId}`,
+          sku: item.productSku,
+          quantity: parseFloat(item.quantityOrdered),
+          unitCost: parseFloat(item.unitCost),
+        })),
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${order.poNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error rendering purchase order:", error);
+      res.status(500).json({ message: "Failed to render purchase order" });
+    }
+  });
+
+  app.post(
+    "/api/purchase-orders",
+    isAuthenticated,
+    requirePermission("purchasing", "create", { storeOf: async (req) => req.body?.storeId }),
+    async (req, res) => {
+      const parsed = createPurchaseOrderSchema.safeParse(req.body);
+      if (!parsed.success) return invalid(res, parsed.error, "Invalid purchase order");
+      try {
+        sendResult(res, await storage.createPurchaseOrder({ ...parsed.data, createdBy: req.user?.id ?? null }), true);
+      } catch (error) {
+        console.error("Error creating purchase order:", error);
+        res.status(500).json({ message: "Failed to create purchase order" });
+      }
+    },
+  );
+
+  app.put("/api/purchase-orders/:id", isAuthenticated, requirePermission("purchasing", "update", { storeOf: purchaseOrderStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid purchase order ID" });
+    const parsed = updatePurchaseOrderSchema.safeParse(req.body);
+    if (!parsed.success) return invalid(res, parsed.error, "Invalid purchase order");
+    try {
+      sendResult(res, await storage.updatePurchaseOrder(id, parsed.data));
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      res.status(500).json({ message: "Failed to update purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/send", isAuthenticated, requirePermission("purchasing", "update", { storeOf: purchaseOrderStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid purchase order ID" });
+    try {
+      sendResult(res, await storage.sendPurchaseOrder(id, req.user?.id ?? null));
+    } catch (error) {
+      console.error("Error sending purchase order:", error);
+      res.status(500).json({ message: "Failed to send purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/cancel", isAuthenticated, requirePermission("purchasing", "cancel", { storeOf: purchaseOrderStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid purchase order ID" });
+    const parsed = cancelPurchaseOrderSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return invalid(res, parsed.error, "Invalid cancellation");
+    try {
+      sendResult(res, await storage.cancelPurchaseOrder(id, { ...parsed.data, cancelledBy: req.user?.id ?? null }));
+    } catch (error) {
+      console.error("Error cancelling purchase order:", error);
+      res.status(500).json({ message: "Failed to cancel purchase order" });
+    }
+  });
+
+  // Books a delivery against the order as a goods received note
+  app.post("/api/purchase-orders/:id/receive", isAuthenticated, requirePermission("purchasing", "receive", { storeOf: purchaseOrderStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid purchase order ID" });
+    const parsed = receiveGoodsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return invalid(res, parsed.error, "Invalid delivery");
+    try {
+      sendResult(res, await storage.receivePurchaseOrder(id, { ...parsed.data, receivedBy: req.user?.id ?? null }), true);
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ message: "Failed to record delivery" });
+    }
+  });
+
+  // Three-way match of a supplier invoice against its order and GRNs
+  app.get("/api/supplier-invoices/:id/match", isAuthenticated, requirePermission("purchasing", "read", { storeOf: supplierInvoiceStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid invoice ID" });
+    try {
+      const match = await storage.getSupplierInvoiceMatch(id);
+      if (!match) return res.status(404).json({ message: "Invoice is not linked to a purchase order" });
+      res.json(match);
+    } catch (error) {
+      console.error("Error matching supplier invoice:", error);
+      res.status(500).json({ message: "Failed to match supplier invoice" });
+    }
+  });
+
+  app.put("/api/supplier-invoices/:id/purchase-order", isAuthenticated, requirePermission("purchasing", "update", { storeOf: supplierInvoiceStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid invoice ID" });
+    const parsed = linkInvoiceSchema.safeParse(req.body);
+    if (!parsed.success) return invalid(res, parsed.error, "Invalid purchase order");
+    try {
+      const result = await storage.linkSupplierInvoice(id, parsed.data.purchaseOrderId);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json({ message: result.message, code: result.code });
+      }
+      res.json(result.match);
+    } catch (error) {
+      console.error("Error linking supplier invoice:", error);
+      res.status(500).json({ message: "Failed to link supplier invoice" });
+    }
+  });
+
+  app.post("/api/supplier-invoices/:id/match/accept", isAuthenticated, requirePermission("purchasing", "approve", { storeOf: supplierInvoiceStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) return res.status(400).json({ message: "Invalid invoice ID" });
+    const parsed = acceptMatchSchema.safeParse(req.body);
+    if (!parsed.success) return invalid(res, parsed.error, "Invalid acceptance");
+    try {
+      const result = await storage.acceptSupplierInvoiceMatch(id, { reason: parsed.data.reason, acceptedBy: req.user?.id ?? null });
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json({ message: result.message, code: result.code });
+      }
+      res.json(result.match);
+    } catch (error) {
+      console.error("Error accepting invoice differences:", error);
+      res.status(500).json({ message: "Failed to accept invoice differences" });
+    }
+  });
+
+  // Reorder suggestions only read; nothing is ordered until they are converted
+  app.get(
+    "/api/stores/:storeId/reorder-suggestions",
+    isAuthenticated,
+    requirePermission("purchasing", "read", { storeOf: async (req) => parseId(req.params.storeId) }),
+    async (req, res) => {
+      const storeId = parseId(req.params.storeId);
+      if (!storeId) return res.status(400).json({ message: "Invalid store ID" });
+      const parsed = reorderSettingsSchema.safeParse(req.query);
+      if (!parsed.success) return invalid(res, parsed.error, "Invalid settings");
+      try {
+        const suggestions = await storage.getReorderSuggestions(storeId, parsed.data);
+        if (!suggestions) return res.status(404).json({ message: "Store not found" });
+        res.json(suggestions);
+      } catch (error) {
+        console.error("Error computing reorder suggestions:", error);
+        res.status(500).json({ message: "Failed to compute reorder suggestions" });
+      }
+    },
+  );
+
+  // Creates one draft order per supplier; with dryRun it only says what it would create
+  app.post(
+    "/api/stores/:storeId/reorder-suggestions/purchase-orders",
+    isAuthenticated,
+    requirePermission("purchasing", "create", { storeOf: async (req) => parseId(req.params.storeId) }),
+    async (req, res) => {
+      const storeId = parseId(req.params.storeId);
+      if (!storeId) return res.status(400).json({ message: "Invalid store ID" });
+      const parsed = convertSuggestionsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) return invalid(res, parsed.error, "Invalid reorder");
+      try {
+        const result = await storage.convertReorderSuggestions(storeId, { ...parsed.data, createdBy: req.user?.id ?? null });
+        if (!result.success) {
+          return res.status(result.code === "NOT_FOUND" ? 404 : 400).json({ message: result.message, code: result.code, unassigned: result.unassigned });
+        }
+        res.status(result.dryRun ? 200 : 201).json(result);
+      } catch (error) {
+        console.error("Error creating orders from reorder suggestions:", error);
+        res.status(500).json({ message: "Failed to create purchase orders" });
+      }
+    },
+  );
+}
@@ -0,0 +1,708 @@
+import { and, desc, eq, gte, inArray, sql } from "drizzle-orm";
+
+import {
+  goodsReceivedNoteItems,
+  goodsReceivedNotes,
+  products,
+  purchaseOrderItems,
+  purchaseOrders,
+  storeProducts,
+  stores,
+  supplierInvoiceItems,
+  supplierInvoices,
+  suppliers,
+  transactionItems,
+  transactions,
+  type GoodsReceivedNote,
+  type GoodsReceivedNoteItem,
+  type PurchaseOrder,
+  type PurchaseOrderItem,
+  type Store,
+  type SupplierInvoice,
+} from "@shared/schema";
+
+import { resolveUnit, toBaseQuantity } from "@shared/units";
+
+import { db } from "../../db";
+import * as auditStorage from "../audit/storage";
+import * as inventoryStorage from "../inventory/storage";
+import { toCost } from "../inventory/costing";
+import * as productStorage from "../products/storage";
+import { formatDateInTimezone, resolveStoreTimezone } from "../shared/store-time";
+import {
+  canReceive,
+  formatGoodsReceivedNumber,
+  formatPurchaseOrderNumber,
+  matchInvoice,
+  orderSubtotal,
+  planGoodsReceipt,
+  statusAfterGoodsReceipt,
+  type CreatePurchaseOrderInput,
+  type InvoiceMatch,
+  type ReceiveGoodsInput,
+  type UpdatePurchaseOrderInput,
+} from "./purchasing";
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  applyQuantityOverrides,
+  dailySalesSeries,
+  groupSuggestionsBySupplier,
+  lookbackDays,
+  type ConvertSuggestionsInput,
+  type ReorderCandidate,
+  type ReorderSettings,
+  type ReorderSuggestion,
+  type SupplierReorderGroup,
+} from "./replenishment";
+
+export type PurchaseOrderLine = PurchaseOrderItem & { productName: string | null; productSku: string | null };
+export type GoodsReceivedNoteWithItems = GoodsReceivedNote & { items: GoodsReceivedNoteItem[] };
+export type PurchaseOrderWithItems = PurchaseOrder & {
+  supplierName: string | null;
+  items: PurchaseOrderLine[];
+  goodsReceivedNotes: GoodsReceivedNoteWithItems[];
+};
+
+export interface PurchasingResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  details?: Record<string, unknown>;
+  purchaseOrder?: PurchaseOrderWithItems;
+  goodsReceivedNote?: GoodsReceivedNoteWithItems;
+}
+
+export interface SupplierInvoiceMatch {
+  invoice: SupplierInvoice;
+  purchaseOrder: PurchaseOrderWithItems;
+  match: InvoiceMatch;
+}
+
+export interface PurchaseOrderFilters {
+  supplierId?: number;
+  storeId?: number;
+  // Narrows the result to these stores (none of them: no rows)
+  storeIds?: number[];
+  status?: string;
+}
+
+type PurchasingExecutor = Pick<typeof db, "select" | "update" | "insert">;
+type PurchasingTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function withDetails(executor: PurchasingExecutor, orders: PurchaseOrder[]): Promise<PurchaseOrderWithItems[]> {
+  if (orders.length === 0) return [];
+  const orderIds = orders.map((order) => order.id);
+  const supplierIds = Array.from(new Set(orders.map((order) => order.supplierId)));
+
+  const [items, notes, supplierRows] = await Promise.all([
+    executor
+      .select({
+        id: purchaseOrderItems.id,
+        purchaseOrderId: purchaseOrderItems.purchaseOrderId,
+        productId: purchaseOrderItems.productId,
+        quantityOrdered: purchaseOrderItems.quantityOrdered,
+        quantityReceived: purchaseOrderItems.quantityReceived,
+        unitCost: purchaseOrderItems.unitCost,
+        unit: purchaseOrderItems.unit,
+        unitFactor: purchaseOrderItems.unitFactor,
+        productName: products.name,
+        productSku: products.sku,
+      })
+      .from(purchaseOrderItems)
+      .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .where(inArray(purchaseOrderItems.purchaseOrderId, orderIds))
+      .orderBy(purchaseOrderItems.id),
+    executor
+      .select()
+      .from(goodsReceivedNotes)
+      .where(inArray(goodsReceivedNotes.purchaseOrderId, orderIds))
+      .orderBy(goodsReceivedNotes.id),
+    executor.select({ id: suppliers.id, name: suppliers.name }).from(suppliers).where(inArray(suppliers.id, supplierIds)),
+  ]);
+
+  const noteItems = notes.length
+    ? await executor
+        .select()
+        .from(goodsReceivedNoteItems)
+        .where(inArray(goodsReceivedNoteItems.grnId, notes.map((note) => note.id)))
+        .orderBy(goodsReceivedNoteItems.id)
+    : [];
+
+  return orders.map((order) => ({
+    ...order,
+    supplierName: supplierRows.find((supplier) => supplier.id === order.supplierId)?.name ?? null,
+    items: items.filter((item) => item.purchaseOrderId === order.id),
+    goodsReceivedNotes: notes
+      .filter((note) => note.purchaseOrderId === order.id)
+      .map((note) => ({ ...note, items: noteItems.filter((item) => item.grnId === note.id) })),
+  }));
+}
+
+async function loadOrder(executor: PurchasingExecutor, id: number, lock = false) {
+  const query = executor.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+  const [order] = lock ? await query.for("update") : await query;
+  return order;
+}
+
+async function findMissingProduct(productIds: number[]): Promise<number | undefined> {
+  const known = await db.select({ id: products.id }).from(products).where(inArray(products.id, productIds));
+  return productIds.find((id) => !known.some((product) => product.id === id));
+}
+
+type SizedOrderLine = CreatePurchaseOrderInput["items"][number] & { unitFactor: number };
+
+// Puts each order line in the purchase unit it names, or says which line names one the product is not bought in
+async function sizeOrderLines(
+  items: CreatePurchaseOrderInput["items"],
+): Promise<{ lines: SizedOrderLine[] } | { message: string }> {
+  const unitSets = await productStorage.getUnitsForProducts(items.map((item) => item.productId));
+  const lines: SizedOrderLine[] = [];
+  for (const item of items) {
+    const unitSet = unitSets.get(item.productId);
+    const unit = unitSet ? resolveUnit(unitSet, unitSet.units, item.unit, "purchase") : null;
+    if (!unit) {
+      return { message: `Product ${item.productId} is not bought in ${item.unit}` };
+    }
+    lines.push({ ...item, unit: unit.code, unitFactor: unit.factor });
+  }
+  return { lines };
+}
+
+const lineValues = (purchaseOrderId: number, items: SizedOrderLine[]) =>
+  items.map((item) => ({
+    purchaseOrderId,
+    productId: item.productId,
+    unit: item.unit ?? null,
+    unitFactor: String(item.unitFactor),
+    quantityOrdered: item.quantity.toFixed(2),
+    unitCost: item.unitCost.toFixed(2),
+  }));
+
+export async function getPurchaseOrders(filters: PurchaseOrderFilters = {}): Promise<PurchaseOrderWithItems[]> {
+  const orders = await db
+    .select()
+    .from(purchaseOrders)
+    .where(
+      and(
+        filters.supplierId ? eq(purchaseOrders.supplierId, filters.supplierId) : undefined,
+        filters.storeId ? eq(purchaseOrders.storeId, filters.storeId) : undefined,
+        filters.storeIds ? inArray(purchaseOrders.storeId, filters.storeIds) : undefined,
+        filters.status ? eq(purchaseOrders.status, filters.status) : undefined,
+      ),
+    )
+    .orderBy(desc(purchaseOrders.id))
+    .limit(200);
+  return withDetails(db, orders);
+}
+
+export async function getPurchaseOrder(id: number): Promise<PurchaseOrderWithItems | undefined> {
+  const order = await loadOrder(db, id);
+  if (!order) return undefined;
+  const [loaded] = await withDetails(db, [order]);
+  return loaded;
+}
+
+export async function createPurchaseOrder(
+  input: CreatePurchaseOrderInput & { createdBy?: number | null },
+): Promise<PurchasingResult> {
+  const [[supplier], [store]] = await Promise.all([
+    db.select({ id: suppliers.id }).from(suppliers).where(eq(suppliers.id, input.supplierId)),
+    db.select({ id: stores.id }).from(stores).where(eq(stores.id, input.storeId)),
+  ]);
+  if (!supplier) return { success: false, message: "Supplier not found", code: "NOT_FOUND" };
+  if (!store) return { success: false, message: "Store not found", code: "NOT_FOUND" };
+
+  const missing = await findMissingProduct(input.items.map((item) => item.productId));
+  if (missing) {
+    return { success: false, message: `Product ${missing} not found`, code: "NOT_FOUND" };
+  }
+  const sized = await sizeOrderLines(input.items);
+  if ("message" in sized) {
+    return { success: false, message: sized.message };
+  }
+
+  const purchaseOrder = await db.transaction((tx) => insertDraftOrder(tx, { ...input, items: sized.lines }));
+  return { success: true, message: "Purchase order created", purchaseOrder };
+}
+
+async function insertDraftOrder(
+  tx: PurchasingTransaction,
+  input: CreatePurchaseOrderInput & { items: SizedOrderLine[]; createdBy?: number | null },
+): Promise<PurchaseOrderWithItems> {
+  // The number is derived from the id, so draw the id first
+  const { rows } = await tx.execute<{ id: number }>(
+    sql`SELECT nextval(pg_get_serial_sequence('purchase_orders', 'id'))::int AS id`,
+  );
+  const id = rows[0].id;
+
+  const [created] = await tx
+    .insert(purchaseOrders)
+    .values({
+      id,
+      poNumber: formatPurchaseOrderNumber(id),
+      supplierId: input.supplierId,
+      storeId: input.storeId,
+      status: "draft",
+      expectedDate: input.expectedDate ?? null,
+      subtotal: orderSubtotal(input.items).toFixed(2),
+      notes: input.notes ?? null,
+      createdBy: input.createdBy ?? null,
+    })
+    .returning();
+  await tx.insert(purchaseOrderItems).values(lineValues(created.id, input.items));
+
+  const [loaded] = await withDetails(tx, [created]);
+  return loaded;
+}
+
+/** Replaces the lines of a draft order. Once sent, the supplier has it and it no longer changes. */
+export async function updatePurchaseOrder(id: number, input: UpdatePurchaseOrderInput): Promise<PurchasingResult> {
+  const missing = await findMissingProduct(input.items.map((item) => item.productId));
+  if (missing) {
+    return { success: false, message: `Product ${missing} not found`, code: "NOT_FOUND" };
+  }
+  const sized = await sizeOrderLines(input.items);
+  if ("message" in sized) {
+    return { success: false, message: sized.message };
+  }
+
+  return await db.transaction(async (tx) => {
+    const order = await loadOrder(tx, id, true);
+    if (!order) return { success: false, message: "Purchase order not found", code: "NOT_FOUND" };
+    if (order.status !== "draft") {
+      return { success: false, message: "Only a draft order can be changed" };
+    }
+
+    await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, order.id));
+    await tx.insert(purchaseOrderItems).values(lineValues(order.id, sized.lines));
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set({
+        expectedDate: input.expectedDate ?? null,
+        notes: input.notes ?? null,
+        subtotal: orderSubtotal(input.items).toFixed(2),
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, order.id))
+      .returning();
+
+    const [loaded] = await withDetails(tx, [updated]);
+    return { success: true, message: "Purchase order updated", purchaseOrder: loaded };
+  });
+}
+
+/** Marks an order as sent to the supplier. Sending again only refreshes the date. */
+export async function sendPurchaseOrder(id: number, sentBy?: number | null): Promise<PurchasingResult> {
+  return await db.transaction(async (tx) => {
+    const order = await loadOrder(tx, id, true);
+    if (!order) return { success: false, message: "Purchase order not found", code: "NOT_FOUND" };
+    if (order.status !== "draft" && order.status !== "sent") {
+      return { success: false, message: `Cannot send an order that is ${order.status.replace("_", " ")}` };
+    }
+
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set({ status: "sent", sentBy: sentBy ?? null, sentAt: new Date(), updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, order.id))
+      .returning();
+
+    const [loaded] = await withDetails(tx, [updated]);
+    return { success: true, message: "Purchase order sent", purchaseOrder: loaded };
+  });
+}
+
+/** Cancels an order nothing has been received against yet. */
+export async function cancelPurchaseOrder(
+  id: number,
+  input: { reason?: string | null; cancelledBy?: number | null },
+): Promise<PurchasingResult> {
+  return await db.transaction(async (tx) => {
+    const order = await loadOrder(tx, id, true);
+    if (!order) return { success: false, message: "Purchase order not found", code: "NOT_FOUND" };
+    if (order.status !== "draft" && order.status !== "sent") {
+      return { success: false, message: "Only an order that has not received goods can be cancelled" };
+    }
+
+    const reason = input.reason?.trim();
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set({
+        status: "cancelled",
+        cancelledBy: input.cancelledBy ?? null,
+        cancelledAt: new Date(),
+        notes: reason ? [order.notes, `Cancelled: ${reason}`].filter(Boolean).join("\n") : order.notes,
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, order.id))
+      .returning();
+
+    const [loaded] = await withDetails(tx, [updated]);
+    return { success: true, message: "Purchase order cancelled", purchaseOrder: loaded };
+  });
+}
+
+/**
+ * Books a delivery on a GRN. The received quantities enter the order's store
+ * through the stock ledger, and invoices already entered against the order
+ * are matched again.
+ */
+export async function receivePurchaseOrder(
+  id: number,
+  input: ReceiveGoodsInput & { receivedBy?: number | null },
+): Promise<PurchasingResult> {
+  return await db.transaction(async (tx) => {
+    const order = await loadOrder(tx, id, true);
+    if (!order) return { success: false, message: "Purchase order not found", code: "NOT_FOUND" };
+    if (!canReceive(order.status)) {
+      return { success: false, message: `Cannot receive against an order that is ${order.status.replace("_", " ")}` };
+    }
+
+    const lines = await tx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, order.id));
+    const planned = planGoodsReceipt(lines, input);
+    if (!planned.success) {
+      return { success: false, message: planned.message };
+    }
+
+    const { rows } = await tx.execute<{ id: number }>(
+      sql`SELECT nextval(pg_get_serial_sequence('goods_received_notes', 'id'))::int AS id`,
+    );
+    const grnId = rows[0].id;
+    const [note] = await tx
+      .insert(goodsReceivedNotes)
+      .values({
+        id: grnId,
+        grnNumber: formatGoodsReceivedNumber(grnId),
+        purchaseOrderId: order.id,
+        storeId: order.storeId,
+        deliveryReference: input.deliveryReference ?? null,
+        notes: input.notes ?? null,
+        receivedBy: input.receivedBy ?? null,
+      })
+      .returning();
+
+    const noteItems = await tx
+      .insert(goodsReceivedNoteItems)
+      .values(
+        planned.lines.map((line) => ({
+          grnId: note.id,
+          purchaseOrderItemId: line.itemId,
+          productId: line.productId,
+          quantityOrdered: line.ordered.toFixed(2),
+          quantityReceived: line.quantity.toFixed(2),
+          discrepancyNote: line.discrepancyNote,
+          lotNumber: line.quantity > 0 ? line.lotNumber : null,
+          expiryDate: line.quantity > 0 ? line.expiryDate : null,
+        })),
+      )
+      .returning();
+
+    for (const line of planned.lines) {
+      await tx
+        .update(purchaseOrderItems)
+        .set({ quantityReceived: line.received.toFixed(2) })
+        .where(eq(purchaseOrderItems.id, line.itemId));
+    }
+
+    // Orders are in purchase units; stock and its cost are kept per base unit
+    const factors = new Map(lines.map((line) => [line.id, Number(line.unitFactor) || 1]));
+    const arriving = planned.lines
+      .filter((line) => line.quantity > 0)
+      .map((line) => {
+        const factor = factors.get(line.itemId) ?? 1;
+        return { ...line, baseQuantity: toBaseQuantity(line.quantity, factor), baseUnitCost: toCost(line.unitCost / factor) ?? 0 };
+      });
+    for (const line of arriving) {
+      await inventoryStorage.ensureStoreProduct(tx, order.storeId, line.productId);
+    }
+    await inventoryStorage.applyStockMovements(
+      arriving.map((line) => ({
+        storeId: order.storeId,
+        productId: line.productId,
+        movementType: "receipt" as const,
+        quantity: line.baseQuantity,
+        reason: `Received on ${note.grnNumber} for ${order.poNumber}`,
+        sourceType: "goods_received_note",
+        sourceId: note.id,
+        createdBy: input.receivedBy ?? null,
+        unitCost: line.baseUnitCost,
+        lot: { lotNumber: line.lotNumber, expiryDate: line.expiryDate, unitCost: line.baseUnitCost },
+      })),
+      { executor: tx },
+    );
+    // The catalogue-wide figure follows receipts, as it does for sales and returns
+    for (const line of arriving) {
+      const whole = Math.round(line.baseQuantity);
+      await tx
+        .update(products)
+        .set({
+          stock: sql`COALESCE(${products.stock}, 0) + ${whole}`,
+          quantity: sql`COALESCE(${products.quantity}, 0) + ${whole}`,
+        })
+        .where(eq(products.id, line.productId));
+    }
+
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set({ status: statusAfterGoodsReceipt(planned.fullyReceived, input.complete), updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, order.id))
+      .returning();
+
+    const [loaded] = await withDetails(tx, [updated]);
+    await refreshInvoiceMatches(tx, loaded);
+    return {
+      success: true,
+      message: updated.status === "received" ? "Order received" : "Delivery recorded; the rest is still outstanding",
+      purchaseOrder: loaded,
+      goodsReceivedNote: { ...note, items: noteItems },
+    };
+  });
+}
+
+async function matchFor(executor: PurchasingExecutor, invoice: SupplierInvoice, order: PurchaseOrderWithItems) {
+  const items = await executor.select().from(supplierInvoiceItems).where(eq(supplierInvoiceItems.invoiceId, invoice.id));
+  return matchInvoice(
+    order.items,
+    items,
+    new Map(order.items.map((item) => [item.productId, item.productName ?? `Product ${item.productId}`])),
+  );
+}
+
+/** Re-checks invoices against an order after it changed. Accepted differences stay accepted. */
+async function refreshInvoiceMatches(executor: PurchasingExecutor, order: PurchaseOrderWithItems): Promise<void> {
+  const invoices = await executor.select().from(supplierInvoices).where(eq(supplierInvoices.purchaseOrderId, order.id));
+  for (const invoice of invoices) {
+    if (invoice.matchStatus === "accepted") continue;
+    const match = await matchFor(executor, invoice, order);
+    if (match.status !== invoice.matchStatus) {
+      await executor.update(supplierInvoices).set({ matchStatus: match.status }).where(eq(supplierInvoices.id, invoice.id));
+    }
+  }
+}
+
+/**
+ * The three-way match for an invoice entered against a purchase order, with
+ * its stored status brought up to date. Undefined when the invoice has no order.
+ */
+export async function getSupplierInvoiceMatch(invoiceId: number): Promise<SupplierInvoiceMatch | undefined> {
+  const [invoice] = await db.select().from(supplierInvoices).where(eq(supplierInvoices.id, invoiceId));
+  if (!invoice?.purchaseOrderId) return undefined;
+  const purchaseOrder = await getPurchaseOrder(invoice.purchaseOrderId);
+  if (!purchaseOrder) return undefined;
+
+  const match = await matchFor(db, invoice, purchaseOrder);
+  if (invoice.matchStatus !== "accepted" && invoice.matchStatus !== match.status) {
+    const [updated] = await db
+      .update(supplierInvoices)
+      .set({ matchStatus: match.status })
+      .where(eq(supplierInvoices.id, invoice.id))
+      .returning();
+    return { invoice: updated, purchaseOrder, match };
+  }
+  return { invoice, purchaseOrder, match };
+}
+
+/** Links an invoice to the order it bills and matches it. */
+export async function linkSupplierInvoice(invoiceId: number, purchaseOrderId: number): Promise<PurchasingResult & { match?: SupplierInvoiceMatch }> {
+  const [invoice] = await db.select().from(supplierInvoices).where(eq(supplierInvoices.id, invoiceId));
+  if (!invoice) return { success: false, message: "Invoice not found", code: "NOT_FOUND" };
+  const order = await getPurchaseOrder(purchaseOrderId);
+  if (!order) return { success: false, message: "Purchase order not found", code: "NOT_FOUND" };
+  if (order.supplierId !== invoice.supplierId) {
+    return { success: false, message: "The invoice and the order are from different suppliers" };
+  }
+  if (order.status === "draft" || order.status === "cancelled") {
+    return { success: false, message: `Cannot bill against an order that is ${order.status}` };
+  }
+
+  await db
+    .update(supplierInvoices)
+    .set({ purchaseOrderId: order.id, matchStatus: null, matchNote: null, matchAcceptedBy: null, matchAcceptedAt: null })
+    .where(eq(supplierInvoices.id, invoice.id));
+  const match = await getSupplierInvoiceMatch(invoice.id);
+  return { success: true, message: "Invoice linked to the order", purchaseOrder: order, match };
+}
+
+/** Records that someone checked the flagged differences and the invoice may be paid anyway. */
+export async function acceptSupplierInvoiceMatch(
+  invoiceId: number,
+  input: { reason: string; acceptedBy?: number | null },
+): Promise<PurchasingResult & { match?: SupplierInvoiceMatch }> {
+  const current = await getSupplierInvoiceMatch(invoiceId);
+  if (!current) return { success: false, message: "Invoice has no purchase order to match", code: "NOT_FOUND" };
+  if (current.match.status === "matched") {
+    return { success: false, message: "The invoice already matches its order" };
+  }
+
+  return await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(supplierInvoices)
+      .set({
+        matchStatus: "accepted",
+        matchNote: input.reason,
+        matchAcceptedBy: input.acceptedBy ?? null,
+        matchAcceptedAt: new Date(),
+      })
+      .where(eq(supplierInvoices.id, invoiceId))
+      .returning();
+
+    await auditStorage.recordAudit({
+      entityType: "supplier_invoice",
+      entityId: invoiceId,
+      action: "update",
+      storeId: current.purchaseOrder.storeId,
+      before: { matchStatus: current.invoice.matchStatus },
+      after: { matchStatus: updated.matchStatus },
+      reason: input.reason,
+    }, tx);
+    return { success: true, message: "Differences accepted", match: { ...current, invoice: updated } };
+  });
+}
+
+// Orders whose remaining quantities are still expected into the store
+const OPEN_ORDER_STATUSES = ["draft", "sent", "partially_received"];
+
+/** What each active product in the store sold, holds and has on order, ready for the reorder engine. */
+async function loadReorderCandidates(store: Store, settings: ReorderSettings, now: Date): Promise<ReorderCandidate[]> {
+  const timezone = resolveStoreTimezone(store);
+  const days = lookbackDays(now, settings.lookbackDays, (date) => formatDateInTimezone(date, timezone));
+  // One extra day either side so the store-local window is fully covered
+  const since = new Date(now.getTime() - (settings.lookbackDays + 1) * 24 * 60 * 60 * 1000);
+
+  const [lines, sales, onOrder] = await Promise.all([
+    db
+      .select({
+        productId: products.id,
+        productName: products.name,
+        sku: products.sku,
+        supplierId: products.supplierId,
+        supplierName: suppliers.name,
+        leadTimeDays: suppliers.leadTimeDays,
+        stockQuantity: storeProducts.stockQuantity,
+        reorderLevel: storeProducts.reorderLevel,
+        costPrice: storeProducts.costPrice,
+        productCost: products.cost,
+      })
+      .from(storeProducts)
+      .innerJoin(products, eq(storeProducts.productId, products.id))
+      .leftJoin(suppliers, eq(products.supplierId, suppliers.id))
+      .where(
+        and(
+          eq(storeProducts.storeId, store.id),
+          sql`${storeProducts.isActive} IS NOT FALSE`,
+          sql`${products.isActive} IS NOT FALSE`,
+        ),
+      ),
+    db
+      .select({
+        productId: transactionItems.productId,
+        day: sql<string>`to_char((${transactions.createdAt} AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}, 'YYYY-MM-DD')`,
+        quantity: sql<number>`sum(${transactionItems.quantity})::int`,
+      })
+      .from(transactionItems)
+      .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+      .where(and(eq(transactions.storeId, store.id), eq(transactions.status, "completed"), gte(transactions.createdAt, since)))
+      // By position: the timezone is a bound parameter, so the expression cannot be repeated here
+      .groupBy(sql`1`, sql`2`),
+    db
+      .select({
+        productId: purchaseOrderItems.productId,
+        quantity: sql<string>`sum(${purchaseOrderItems.quantityOrdered} - ${purchaseOrderItems.quantityReceived})`,
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .where(and(eq(purchaseOrders.storeId, store.id), inArray(purchaseOrders.status, OPEN_ORDER_STATUSES)))
+      .groupBy(purchaseOrderItems.productId),
+  ]);
+
+  const series = dailySalesSeries(
+    sales.flatMap((row) => (row.productId === null ? [] : [{ productId: row.productId, day: row.day, quantity: Number(row.quantity) }])),
+    days,
+  );
+  const ordered = new Map(onOrder.map((row) => [row.productId, Math.max(0, parseFloat(row.quantity ?? "0"))]));
+
+  return lines.map((line) => ({
+    productId: line.productId,
+    productName: line.productName,
+    sku: line.sku,
+    supplierId: line.supplierId,
+    supplierName: line.supplierName,
+    leadTimeDays: line.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS,
+    onHand: parseFloat(line.stockQuantity ?? "0") || 0,
+    onOrder: ordered.get(line.productId) ?? 0,
+    reorderLevel: line.reorderLevel === null ? null : parseFloat(line.reorderLevel),
+    unitCost: parseFloat(line.costPrice ?? line.productCost ?? "0") || 0,
+    dailySales: series.get(line.productId) ?? new Array<number>(days.length).fill(0),
+  }));
+}
+
+export interface ReorderSuggestions {
+  storeId: number;
+  generatedAt: Date;
+  settings: ReorderSettings;
+  groups: SupplierReorderGroup[];
+}
+
+/** Reorder suggestions for a store, one group per supplier. Nothing is written. */
+export async function getReorderSuggestions(storeId: number, settings: ReorderSettings, now = new Date()): Promise<ReorderSuggestions | undefined> {
+  const [store] = await db.select().from(stores).where(eq(stores.id, storeId));
+  if (!store) return undefined;
+  const candidates = await loadReorderCandidates(store, settings, now);
+  return { storeId, generatedAt: now, settings, groups: groupSuggestionsBySupplier(candidates, settings) };
+}
+
+export interface ReorderConversionResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  dryRun: boolean;
+  // One draft order per supplier; `purchaseOrder` is only set when not a dry run
+  orders: Array<SupplierReorderGroup & { purchaseOrder?: PurchaseOrderWithItems }>;
+  // Suggested products without a supplier, which cannot be ordered this way
+  unassigned: ReorderSuggestion[];
+}
+
+/**
+ * Turns the store's reorder suggestions into draft purchase orders, one per
+ * supplier, in a single transaction. A dry run returns the same orders
+ * without creating them.
+ */
+export async function convertReorderSuggestions(
+  storeId: number,
+  input: ConvertSuggestionsInput & { createdBy?: number | null },
+): Promise<ReorderConversionResult> {
+  const suggestions = await getReorderSuggestions(storeId, input);
+  if (!suggestions) return { success: false, message: "Store not found", code: "NOT_FOUND", dryRun: input.dryRun, orders: [], unassigned: [] };
+
+  const wanted = input.supplierIds ? new Set(input.supplierIds) : null;
+  const chosen = suggestions.groups.filter((group) => !wanted || (group.supplierId !== null && wanted.has(group.supplierId)));
+  const edited = applyQuantityOverrides(chosen, input.items);
+  if (!edited.success) return { success: false, message: edited.message, dryRun: input.dryRun, orders: [], unassigned: [] };
+
+  const orders = edited.groups.filter((group) => group.supplierId !== null);
+  const unassigned = edited.groups.filter((group) => group.supplierId === null).flatMap((group) => group.lines);
+  if (orders.length === 0) {
+    return { success: false, message: "Nothing to reorder from a supplier", dryRun: input.dryRun, orders: [], unassigned };
+  }
+  if (input.dryRun) {
+    return { success: true, message: `${orders.length} draft order(s) would be created`, dryRun: true, orders, unassigned };
+  }
+
+  const created = await db.transaction(async (tx) => {
+    const results: ReorderConversionResult["orders"] = [];
+    for (const group of orders) {
+      const purchaseOrder = await insertDraftOrder(tx, {
+        supplierId: group.supplierId!,
+        storeId,
+        expectedDate: input.expectedDate ?? null,
+        notes: "Created from reorder suggestions",
+        // Suggestions come from sales, so they are in base units
+        items: group.lines.map((line) => ({ productId: line.productId, quantity: line.quantity, unitCost: line.unitCost, unitFactor: 1 })),
+        createdBy: input.createdBy ?? null,
+      });
+      results.push({ ...group, purchaseOrder });
+    }
+    return results;
+  });
+
+  return { success: true, message: `${created.length} draft order(s) created`, dryRun: false, orders: created, unassigned };
+}
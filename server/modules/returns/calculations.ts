@@ -0,0 +1,167 @@
+import type { ReturnDisposition } from "@shared/schema";
+
+export interface SoldLine {
+  id: number;
+  productId: number | null;
+  // In the unit the line was sold in
+  quantity: string | number;
+  // Weighed and measured units can be returned in part
+  allowsDecimal?: boolean;
+  total: string | number;
+  discountAmount?: string | number | null;
+  vatAmount?: string | number | null;
+}
+
+export interface ReturnedToDate {
+  quantity: number;
+  amount: number;
+}
+
+export interface ReturnLineRequest {
+  transactionItemId: number;
+  quantity: number;
+  disposition: ReturnDisposition;
+  reasonCode?: string | null;
+}
+
+export interface PlannedReturnLine {
+  transactionItemId: number;
+  productId: number | null;
+  quantity: number;
+  unitRefund: number;
+  vatAmount: number;
+  refundAmount: number;
+  disposition: ReturnDisposition;
+  reasonCode: string | null;
+}
+
+export interface ReturnPlan {
+  lines: PlannedReturnLine[];
+  subtotal: number;
+  vatAmount: number;
+  totalRefund: number;
+  // True when every unit of the sale has now been returned
+  fullyReturned: boolean;
+}
+
+const toNumber = (value: string | number | null | undefined): number => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+const round3 = (value: number): number => Math.round((value + Number.EPSILON) * 1000) / 1000;
+
+/**
+ * What the customer actually paid for each line: line total after line
+ * discounts plus VAT, scaled down so the lines add up to the sale total
+ * (which absorbs any transaction-level discount).
+ */
+export function calculateLineRefundables(soldLines: SoldLine[], transactionTotal: number): Map<number, number> {
+  const gross = soldLines.map((line) => ({
+    id: line.id,
+    amount: Math.max(0, toNumber(line.total) - toNumber(line.discountAmount) + toNumber(line.vatAmount)),
+  }));
+  const sumGross = gross.reduce((sum, line) => sum + line.amount, 0);
+  const scale = sumGross > 0 ? Math.min(1, Math.max(0, transactionTotal) / sumGross) : 0;
+
+  return new Map(gross.map((line) => [line.id, line.amount * scale]));
+}
+
+/**
+ * Validates a return request against what was sold and already returned,
+ * and prices each line. Returns a failure instead of throwing so callers
+ * can surface the message directly.
+ */
+export function planReturn(params: {
+  transactionTotal: number;
+  soldLines: SoldLine[];
+  returned: Map<number, ReturnedToDate>;
+  lines: ReturnLineRequest[];
+}): { success: true; plan: ReturnPlan } | { success: false; message: string } {
+  const { transactionTotal, soldLines, returned, lines } = params;
+
+  if (lines.length === 0) {
+    return { success: false, message: "Select at least one item to return" };
+  }
+
+  const soldById = new Map(soldLines.map((line) => [line.id, line]));
+  const refundables = calculateLineRefundables(soldLines, transactionTotal);
+  const seen = new Set<number>();
+  const planned: PlannedReturnLine[] = [];
+
+  for (const request of lines) {
+    if (seen.has(request.transactionItemId)) {
+      return { success: false, message: `Item ${request.transactionItemId} is listed more than once` };
+    }
+    seen.add(request.transactionItemId);
+
+    const sold = soldById.get(request.transactionItemId);
+    if (!sold) {
+      return { success: false, message: `Item ${request.transactionItemId} is not part of this sale` };
+    }
+
+    if (sold.allowsDecimal) {
+      if (request.quantity <= 0 || round3(request.quantity) !== request.quantity) {
+        return { success: false, message: "Return quantities must be greater than zero, to at most three decimal places" };
+      }
+    } else if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+      return { success: false, message: "Return quantities must be whole numbers greater than zero" };
+    }
+
+    const soldQuantity = toNumber(sold.quantity);
+    const previous = returned.get(sold.id) ?? { quantity: 0, amount: 0 };
+    const remaining = round3(soldQuantity - previous.quantity);
+    if (request.quantity > remaining) {
+      return {
+        success: false,
+        message: `Cannot return ${request.quantity} of item ${sold.id}: only ${Math.max(0, remaining)} left to return`,
+      };
+    }
+
+    const lineRefundable = refundables.get(sold.id) ?? 0;
+    const unitRefund = soldQuantity > 0 ? lineRefundable / soldQuantity : 0;
+    // The last units of a line take whatever is left so rounding never over- or under-refunds
+    const refundAmount = request.quantity === remaining
+      ? round2(Math.max(0, lineRefundable - previous.amount))
+      : round2(unitRefund * request.quantity);
+
+    const lineGross = toNumber(sold.total) - toNumber(sold.discountAmount) + toNumber(sold.vatAmount);
+    const vatShare = lineGross > 0 ? toNumber(sold.vatAmount) / lineGross : 0;
+
+    planned.push({
+      transactionItemId: sold.id,
+      productId: sold.productId,
+      quantity: request.quantity,
+      unitRefund: round2(unitRefund),
+      vatAmount: round2(refundAmount * vatShare),
+      refundAmount,
+      disposition: request.disposition,
+      reasonCode: request.reasonCode ?? null,
+    });
+  }
+
+  const totalRefund = round2(planned.reduce((sum, line) => sum + line.refundAmount, 0));
+  const alreadyRefunded = Array.from(returned.values()).reduce((sum, entry) => sum + entry.amount, 0);
+  if (round2(alreadyRefunded + totalRefund) > round2(transactionTotal)) {
+    return { success: false, message: "Refund amount cannot exceed transaction total" };
+  }
+
+  const vatAmount = round2(planned.reduce((sum, line) => sum + line.vatAmount, 0));
+  const fullyReturned = soldLines.every((line) => {
+    const previous = returned.get(line.id)?.quantity ?? 0;
+    const now = planned.find((entry) => entry.transactionItemId === line.id)?.quantity ?? 0;
+    return round3(previous + now) >= toNumber(line.quantity);
+  });
+
+  return {
+    success: true,
+    plan: {
+      lines: planned,
+      subtotal: round2(totalRefund - vatAmount),
+      vatAmount,
+      totalRefund,
+      fullyReturned,
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { RETURN_DISPOSITIONS, RETURN_REASON_CODES, REFUND_METHODS } from "@shared/schema";
+import { storage } from "../../storage";
+import { isAuthenticated } from "../../auth";
+import { listableStoreIds, requirePermission, returnStore, transactionStore } from "../shared/authorization";
+import { readApprovalTokens } from "../approvals/approvals";
+import { refundAuthorizer } from "../approvals/service";
+
+const createReturnSchema = z.object({
+  transactionId: z.coerce.number().int().positive(),
+  reasonCode: z.enum(RETURN_REASON_CODES),
+  notes: z.string().max(500).optional().nullable(),
+  refundMethod: z.enum(REFUND_METHODS),
+  registerId: z.coerce.number().int().positive().optional().nullable(),
+  items: z
+    .array(
+      z.object({
+        transactionItemId: z.coerce.number().int().positive(),
+        // Whole units unless the line was weighed; planReturn checks which
+        quantity: z.coerce.number().positive(),
+        disposition: z.enum(RETURN_DISPOSITIONS).default("restock"),
+        reasonCode: z.enum(RETURN_REASON_CODES).optional(),
+      }),
+    )
+    .min(1, "Select at least one item to return"),
+});
+
+export function registerReturnRoutes(app: Express) {
+  // What is still returnable on a sale, line by line
+  app.get("/api/transactions/:id/returnable", isAuthenticated, requirePermission("returns", "read", { storeOf: transactionStore }), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ message: "Invalid transaction ID" });
+    }
+    try {
+      const items = await storage.getReturnableItems(id);
+      if (!items) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching returnable items:", error);
+      res.status(500).json({ message: "Failed to fetch returnable items", error });
+    }
+  });
+
+  app.get("/api/returns", isAuthenticated, requirePermission("returns", "read"), async (req, res) => {
+    try {
+      const transactionId = req.query.transactionId ? parseInt(req.query.transactionId as string) : undefined;
+      const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
+      const storeIds = storeId ? undefined : await listableStoreIds(req.user!);
+      res.json(await storage.getReturns({ transactionId, storeId, storeIds }));
+    } catch (error) {
+      console.error("Error fetching returns:", error);
+      res.status(500).json({ message: "Failed to fetch returns", error });
+    }
+  });
+
+  app.get("/api/returns/:id", isAuthenticated, requirePermission("returns", "read", { storeOf: returnStore }), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ message: "Invalid return ID" });
+    }
+    try {
+      const record = await storage.getReturn(id);
+      if (!record) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+      res.json(record);
+    } catch (error) {
+      console.error("Error fetching return:", error);
+      res.status(500).json({ message: "Failed to fetch return", error });
+    }
+  });
+
+  app.post("/api/returns", isAuthenticated, requirePermission("returns", "create"), async (req, res) => {
+    try {
+      const parsed = createReturnSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid return request",
+          errors: parsed.error.errors,
+        });
+      }
+
+      const { registerId, ...input } = parsed.data;
+      // A cash refund is paid from the drawer open on the register it was given at
+      const transaction = input.refundMethod === "cash" ? await storage.getTransaction(input.transactionId) : undefined;
+      const drawer = transaction
+        ? await storage.resolveDrawerSession(transaction.storeId, registerId)
+        : { success: true as const, data: null };
+      if (!drawer.success) {
+        return res.status(400).json({ message: drawer.message, code: drawer.code });
+      }
+
+      const user = req.user as any;
+      const result = await storage.createReturn({
+        ...input,
+        drawerSessionId: drawer.data,
+        processedBy: user?.id ?? null,
+        authorize: refundAuthorizer(user, readApprovalTokens(req.body)),
+      });
+
+      if (!result.success) {
+        const status = result.code === "NOT_FOUND" ? 404 : result.code === "APPROVAL_REQUIRED" ? 403 : 400;
+        return res.status(status).json({ message: result.message, code: result.code, ...result.details });
+      }
+
+      res.status(201).json(result.return);
+    } catch (error) {
+      console.error("Error processing return:", error);
+      res.status(500).json({ message: "Failed to process return", error });
+    }
+  });
+}
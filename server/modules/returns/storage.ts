@@ -0,0 +1,396 @@
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+
+import {
+  Return,
+  ReturnItem,
+  RefundMethod,
+  creditTransactions,
+  customers,
+  dayOperations,
+  products,
+  returnItems,
+  returns,
+  transactionItems,
+  transactions,
+} from "@shared/schema";
+
+import { lineBaseQuantity, resolveUnit } from "@shared/units";
+
+import { db } from "../../db";
+import * as inventoryStorage from "../inventory/storage";
+import * as productStorage from "../products/storage";
+import {
+  calculateLineRefundables,
+  planReturn,
+  type ReturnLineRequest,
+  type ReturnedToDate,
+} from "./calculations";
+
+export type ReturnWithItems = Return & { items: ReturnItem[] };
+
+export interface ReturnableItem {
+  transactionItemId: number;
+  productId: number | null;
+  productName: string | null;
+  productSku: string | null;
+  unitPrice: string;
+  // Quantities are in the unit the line was sold in; null is the base unit
+  unit: string | null;
+  allowsDecimal: boolean;
+  soldQuantity: number;
+  returnedQuantity: number;
+  remainingQuantity: number;
+  refundableAmount: number;
+  refundedAmount: number;
+}
+
+type DbExecutor = Pick<typeof db, "select">;
+
+/**
+ * Last check before a planned return is written, run inside the return's
+ * database transaction with the exact refund total (e.g. manager approval).
+ */
+export type ReturnAuthorizer = (
+  refund: { storeId: number; transactionId: number; totalRefund: number },
+  tx: Pick<typeof db, "select" | "update">,
+) => Promise<{ message: string; code: string; details?: Record<string, unknown> } | null>;
+
+export interface CreateReturnInput {
+  transactionId: number;
+  reasonCode: string;
+  notes?: string | null;
+  refundMethod: RefundMethod;
+  processedBy?: number | null;
+  // The drawer a cash refund is paid from
+  drawerSessionId?: number | null;
+  items: ReturnLineRequest[];
+  authorize?: ReturnAuthorizer;
+}
+
+// Sold lines whose unit is weighed or measured, and so can be returned in part
+async function partUnitLines(
+  executor: DbExecutor,
+  lines: Array<{ id: number; productId: number | null; unit: string | null }>,
+): Promise<Set<number>> {
+  const productIds = Array.from(new Set(lines.map((line) => line.productId).filter((id): id is number => !!id)));
+  const unitSets = await productStorage.getUnitsForProducts(productIds, executor);
+  return new Set(
+    lines
+      .filter((line) => {
+        const unitSet = line.productId ? unitSets.get(line.productId) : undefined;
+        return !!unitSet && !!resolveUnit(unitSet, unitSet.units, line.unit)?.allowsDecimal;
+      })
+      .map((line) => line.id),
+  );
+}
+
+async function getReturnedToDate(executor: DbExecutor, transactionId: number): Promise<Map<number, ReturnedToDate>> {
+  const rows = await executor
+    .select({
+      transactionItemId: returnItems.transactionItemId,
+      quantity: sql<string>`COALESCE(SUM(${returnItems.quantity}), 0)`,
+      amount: sql<string>`COALESCE(SUM(${returnItems.refundAmount}), 0)`,
+    })
+    .from(returnItems)
+    .innerJoin(returns, eq(returnItems.returnId, returns.id))
+    .where(eq(returns.transactionId, transactionId))
+    .groupBy(returnItems.transactionItemId);
+
+  return new Map(
+    rows.map((row) => [
+      row.transactionItemId,
+      { quantity: parseFloat(String(row.quantity)), amount: parseFloat(String(row.amount)) },
+    ]),
+  );
+}
+
+export async function getReturnableItems(transactionId: number): Promise<ReturnableItem[] | undefined> {
+  const [transaction] = await db.select().from(transactions).where(eq(transactions.id, transactionId));
+  if (!transaction) {
+    return undefined;
+  }
+
+  const sold = await db
+    .select({
+      id: transactionItems.id,
+      productId: transactionItems.productId,
+      quantity: transactionItems.quantity,
+      unit: transactionItems.unit,
+      unitPrice: transactionItems.unitPrice,
+      total: transactionItems.total,
+      discountAmount: transactionItems.discountAmount,
+      vatAmount: transactionItems.vatAmount,
+      productName: products.name,
+      productSku: products.sku,
+    })
+    .from(transactionItems)
+    .leftJoin(products, eq(transactionItems.productId, products.id))
+    .where(eq(transactionItems.transactionId, transactionId));
+
+  const returned = await getReturnedToDate(db, transactionId);
+  const refundables = calculateLineRefundables(sold, parseFloat(transaction.total));
+  const partUnits = await partUnitLines(db, sold);
+
+  return sold.map((line) => {
+    const previous = returned.get(line.id) ?? { quantity: 0, amount: 0 };
+    const soldQuantity = parseFloat(line.quantity);
+    return {
+      transactionItemId: line.id,
+      productId: line.productId,
+      productName: line.productName,
+      productSku: line.productSku,
+      unitPrice: line.unitPrice,
+      unit: line.unit,
+      allowsDecimal: partUnits.has(line.id),
+      soldQuantity,
+      returnedQuantity: previous.quantity,
+      remainingQuantity: Math.max(0, Math.round((soldQuantity - previous.quantity) * 1000) / 1000),
+      refundableAmount: Math.round(((refundables.get(line.id) ?? 0) - previous.amount) * 100) / 100,
+      refundedAmount: previous.amount,
+    };
+  });
+}
+
+export async function getReturns(filters: { transactionId?: number; storeId?: number; storeIds?: number[] } = {}): Promise<Return[]> {
+  const whereConditions = [];
+  if (filters.transactionId) {
+    whereConditions.push(eq(returns.transactionId, filters.transactionId));
+  }
+  if (filters.storeId) {
+    whereConditions.push(eq(returns.storeId, filters.storeId));
+  }
+  if (filters.storeIds) {
+    whereConditions.push(inArray(returns.storeId, filters.storeIds));
+  }
+
+  return await db
+    .select()
+    .from(returns)
+    .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+    .orderBy(desc(returns.createdAt));
+}
+
+export async function getReturn(id: number): Promise<ReturnWithItems | undefined> {
+  const [record] = await db.select().from(returns).where(eq(returns.id, id));
+  if (!record) {
+    return undefined;
+  }
+
+  const items = await db.select().from(returnItems).where(eq(returnItems.returnId, id));
+  return { ...record, items };
+}
+
+/**
+ * Records a return against an original sale. Quantities are checked against
+ * what was sold minus earlier returns while the sale row is locked, so two
+ * cashiers cannot refund the same units concurrently.
+ */
+export async function createReturn(input: CreateReturnInput, executor: Pick<typeof db, "transaction"> = db): Promise<{
+  success: boolean;
+  message: string;
+  code?: string;
+  details?: Record<string, unknown>;
+  return?: ReturnWithItems;
+}> {
+  return await executor.transaction(async (tx) => {
+    const [transaction] = await tx
+      .select()
+      .from(transactions)
+      .where(eq(transactions.id, input.transactionId))
+      .for("update");
+
+    if (!transaction) {
+      return { success: false, message: "Transaction not found", code: "NOT_FOUND" };
+    }
+    if (transaction.status === "voided") {
+      return { success: false, message: "Cannot refund a voided transaction" };
+    }
+    if (transaction.status === "refunded") {
+      return { success: false, message: "Transaction already refunded" };
+    }
+    if (transaction.status !== "completed") {
+      return { success: false, message: `Cannot refund a transaction with status "${transaction.status}"` };
+    }
+
+    if (input.refundMethod === "store_credit" && !transaction.customerId) {
+      return { success: false, message: "Store credit refunds require a customer on the original sale" };
+    }
+    if (input.refundMethod === "card" && !["card", "split"].includes(transaction.paymentMethod ?? "")) {
+      return { success: false, message: "Card refunds are only possible for sales paid by card" };
+    }
+
+    const [openDay] = await tx
+      .select()
+      .from(dayOperations)
+      .where(and(eq(dayOperations.storeId, transaction.storeId), eq(dayOperations.status, "open")))
+      .orderBy(desc(dayOperations.date));
+    if (!openDay) {
+      return {
+        success: false,
+        message: "No day operation is currently open. Please open a day before processing refunds.",
+        code: "DAY_NOT_OPEN",
+      };
+    }
+
+    const soldLines = await tx
+      .select()
+      .from(transactionItems)
+      .where(eq(transactionItems.transactionId, transaction.id));
+    const returned = await getReturnedToDate(tx, transaction.id);
+    const partUnits = await partUnitLines(tx, soldLines);
+
+    const planned = planReturn({
+      transactionTotal: parseFloat(transaction.total),
+      soldLines: soldLines.map((line) => ({ ...line, allowsDecimal: partUnits.has(line.id) })),
+      returned,
+      lines: input.items,
+    });
+    if (!planned.success) {
+      return { success: false, message: planned.message };
+    }
+    const { plan } = planned;
+
+    if (input.authorize) {
+      const rejection = await input.authorize(
+        { storeId: transaction.storeId, transactionId: transaction.id, totalRefund: plan.totalRefund },
+        tx,
+      );
+      if (rejection) {
+        return { success: false, message: rejection.message, code: rejection.code, details: rejection.details };
+      }
+    }
+
+    const [{ count }] = await tx
+      .select({ count: sql<string>`COUNT(*)` })
+      .from(returns)
+      .where(eq(returns.transactionId, transaction.id));
+
+    const [createdReturn] = await tx
+      .insert(returns)
+      .values({
+        returnNumber: `${transaction.transactionNumber}-R${parseInt(String(count), 10) + 1}`,
+        transactionId: transaction.id,
+        storeId: transaction.storeId,
+        customerId: transaction.customerId,
+        dayOperationId: openDay.id,
+        drawerSessionId: input.refundMethod === "cash" ? input.drawerSessionId ?? null : null,
+        processedBy: input.processedBy ?? null,
+        reasonCode: input.reasonCode,
+        notes: input.notes ?? null,
+        refundMethod: input.refundMethod,
+        subtotal: plan.subtotal.toFixed(2),
+        vatAmount: plan.vatAmount.toFixed(2),
+        totalRefund: plan.totalRefund.toFixed(2),
+      })
+      .returning();
+
+    const createdItems = await tx
+      .insert(returnItems)
+      .values(
+        plan.lines.map((line) => ({
+          returnId: createdReturn.id,
+          transactionItemId: line.transactionItemId,
+          productId: line.productId,
+          quantity: String(line.quantity),
+          unitRefund: line.unitRefund.toFixed(2),
+          vatAmount: line.vatAmount.toFixed(2),
+          refundAmount: line.refundAmount.toFixed(2),
+          disposition: line.disposition,
+          reasonCode: line.reasonCode,
+        })),
+      )
+      .returning();
+
+    // The ledger is in base units; a returned carton puts back what the carton held
+    const factors = new Map(soldLines.map((line) => [line.id, line.unitFactor]));
+    const restocked = plan.lines
+      .filter((line): line is typeof line & { productId: number } => line.disposition === "restock" && !!line.productId)
+      .map((line) => ({ ...line, baseQuantity: lineBaseQuantity({ quantity: line.quantity, unitFactor: factors.get(line.transactionItemId) }) }));
+    await inventoryStorage.applyStockMovements(
+      restocked.map((line) => ({
+        storeId: transaction.storeId,
+        productId: line.productId,
+        movementType: "return" as const,
+        quantity: line.baseQuantity,
+        reason: line.reasonCode,
+        sourceType: "return",
+        sourceId: createdReturn.id,
+        createdBy: input.processedBy ?? null,
+        // Back into the lots the sale took it from
+        restoreFrom: { sourceType: "transaction", sourceId: transaction.id },
+      })),
+      { executor: tx },
+    );
+
+    for (const line of restocked) {
+      await tx
+        .update(products)
+        .set({
+          stock: sql`COALESCE(${products.stock}, 0) + ${Math.round(line.baseQuantity)}`,
+          quantity: sql`COALESCE(${products.quantity}, 0) + ${Math.round(line.baseQuantity)}`,
+        })
+        .where(eq(products.id, line.productId));
+    }
+
+    if (input.refundMethod === "store_credit" && transaction.customerId) {
+      const [customer] = await tx
+        .select({ creditBalance: customers.creditBalance })
+        .from(customers)
+        .where(eq(customers.id, transaction.customerId))
+        .for("update");
+      const previousBalance = parseFloat(String(customer?.creditBalance || "0"));
+      const newBalance = (previousBalance - plan.totalRefund).toFixed(2);
+
+      await tx
+        .update(customers)
+        .set({ creditBalance: newBalance })
+        .where(eq(customers.id, transaction.customerId));
+
+      // Recorded as an adjustment: 'refund' credit entries are cash paid out at the till
+      await tx.insert(creditTransactions).values({
+        customerId: transaction.customerId,
+        cashierId: input.processedBy ?? null,
+        transactionId: transaction.id,
+        type: "adjustment",
+        amount: plan.totalRefund.toFixed(2),
+        paymentMethod: "adjustment",
+        reference: createdReturn.returnNumber,
+        description: `Store credit for return ${createdReturn.returnNumber}`,
+        previousBalance: previousBalance.toFixed(2),
+        newBalance,
+      });
+    }
+
+    const refundColumn = {
+      cash: dayOperations.cashRefunds,
+      card: dayOperations.cardRefunds,
+      store_credit: dayOperations.storeCreditRefunds,
+    }[input.refundMethod];
+    const refundKey = {
+      cash: "cashRefunds",
+      card: "cardRefunds",
+      store_credit: "storeCreditRefunds",
+    }[input.refundMethod] as "cashRefunds" | "cardRefunds" | "storeCreditRefunds";
+
+    await tx
+      .update(dayOperations)
+      .set({
+        [refundKey]: sql`COALESCE(${refundColumn}, 0) + ${plan.totalRefund.toFixed(2)}`,
+        refundCount: sql`COALESCE(${dayOperations.refundCount}, 0) + 1`,
+      })
+      .where(eq(dayOperations.id, openDay.id));
+
+    if (plan.fullyReturned) {
+      await tx
+        .update(transactions)
+        .set({ status: "refunded" })
+        .where(eq(transactions.id, transaction.id));
+    }
+
+    return {
+      success: true,
+      message: "Return processed successfully",
+      return: { ...createdReturn, items: createdItems },
+    };
+  });
+}
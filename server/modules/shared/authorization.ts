@@ -1,19 +1,155 @@
-import type { Request, Response, NextFunction } from "express";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { canAccessStore, hasPermission, type PermissionResource } from "@shared/permissions";
+import { USER_ROLES } from "@shared/schema";
+import { storage } from "../../storage";
 
-export function requireRole(allowedRoles: string[]) {
-  return async (req: Request & { user?: { role?: string } }, res: Response, next: NextFunction) => {
+/**
+ * What a route declares about who may call it. Every /api route carries one
+ * (see tests/route-permissions.test.ts); "public" is for login and similar
+ * endpoints that check credentials themselves.
+ */
+export type RouteAccess = { resource: PermissionResource; action: string } | "public";
+
+export type AccessHandler = RequestHandler & { access: RouteAccess };
+
+interface PermissionOptions {
+  // Looks up the store a record belongs to, for routes addressed by record id
+  storeOf?: (req: Request) => Promise<number | null | undefined>;
+  // Records shared by several stores (e.g. transfers): access to any one of them is enough
+  anyStoreOf?: (req: Request) => Promise<Array<number | null | undefined>>;
+}
+
+const declareAccess = (handler: RequestHandler, access: RouteAccess): AccessHandler =>
+  Object.assign(handler, { access });
+
+const toId = (value: unknown): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+// Stores named by the request itself: /stores/:storeId/..., ?storeId= or a body field
+function requestedStoreIds(req: Request): number[] {
+  return [req.params?.storeId, req.query?.storeId, req.body?.storeId]
+    .map(toId)
+    .filter((id): id is number => id !== null);
+}
+
+async function userCanAccessStore(user: Express.User, storeId: number): Promise<boolean> {
+  const [store, assignments] = await Promise.all([
+    storage.getStore(storeId),
+    storage.getUserStoreAssignments(user.id),
+  ]);
+  // Unknown stores are left to the route to report
+  if (!store) return true;
+  return canAccessStore(user, store, assignments);
+}
+
+export function requirePermission(resource: PermissionResource, action: string, options: PermissionOptions = {}) {
+  return declareAccess(async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      if (!req.user.role || !allowedRoles.includes(req.user.role)) {
+      if (!hasPermission(req.user.role, resource, action)) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
+      const storeIds = new Set(requestedStoreIds(req));
+      if (options.storeOf) {
+        const owner = toId(await options.storeOf(req));
+        if (owner) storeIds.add(owner);
+      }
+
+      for (const storeId of Array.from(storeIds)) {
+        if (!(await userCanAccessStore(req.user, storeId))) {
+          return res.status(403).json({ message: "You do not have access to this store" });
+        }
+      }
+
+      if (options.anyStoreOf) {
+        const user = req.user;
+        const shared = (await options.anyStoreOf(req)).map(toId).filter((id): id is number => id !== null);
+        const access = await Promise.all(shared.map((storeId) => userCanAccessStore(user, storeId)));
+        if (shared.length > 0 && !access.some(Boolean)) {
+          return res.status(403).json({ message: "You do not have access to this store" });
+        }
+      }
+
       next();
     } catch (error) {
       res.status(500).json({ message: "Authorization error" });
     }
-  };
+  }, { resource, action });
 }
+
+/**
+ * Stores a list route covers when the request names none. requirePermission
+ * only checks stores the request asks for, so lists without a storeId are
+ * narrowed here: admins see every store (undefined), everyone else only the
+ * stores they can access.
+ */
+export async function listableStoreIds(user: Express.User): Promise<number[] | undefined> {
+  if (user.role === USER_ROLES.ADMIN) return undefined;
+  const stores = await storage.getUserAccessibleStores(user.id);
+  return stores.map((store) => store.id);
+}
+
+/** Marks a route as intentionally reachable without a permission check. */
+export const publicRoute = declareAccess((_req, _res, next) => next(), "public");
+
+// Store lookups for routes addressed by record id
+const storeOfRecord = (load: (id: number) => Promise<{ storeId: number | null } | undefined>) =>
+  async (req: Request) => {
+    const id = toId(req.params.id);
+    return id ? (await load(id))?.storeId : null;
+  };
+
+export const transactionStore = storeOfRecord((id) => storage.getTransaction(id));
+export const returnStore = storeOfRecord((id) => storage.getReturn(id));
+export const dayOperationStore = storeOfRecord((id) => storage.getDayOperationById(id));
+export const shiftStore = storeOfRecord((id) => storage.getShift(id));
+export const registerStore = storeOfRecord((id) => storage.getRegister(id));
+export const drawerSessionStore = storeOfRecord((id) => storage.getDrawerSession(id));
+export const purchaseOrderStore = storeOfRecord((id) => storage.getPurchaseOrder(id));
+export const zReportStore = storeOfRecord((id) => storage.getZReport(id));
+export const heldTransactionStore = storeOfRecord((id) => storage.getHeldTransaction(id));
+export const invoiceStore = storeOfRecord((id) => storage.getGeneratedInvoice(id));
+export const promotionStore = storeOfRecord((id) => storage.getPromotion(id));
+export const stockTakingSessionStore = storeOfRecord((id) => storage.getStockTakingSession(id));
+
+// PUT /api/stores/:id and the like: the record is the store
+export const storeItself = async (req: Request) => toId(req.params.id);
+
+// Records that belong to a store through another record
+export const dailyMonitoringStore = async (req: Request) => {
+  const id = toId(req.params.id);
+  const monitoring = id ? await storage.getDailyProductMonitoringById(id) : undefined;
+  return monitoring ? (await storage.getDayOperationById(monitoring.dayOperationId))?.storeId : null;
+};
+export const couponStore = async (req: Request) => {
+  const id = toId(req.params.id);
+  const coupon = id ? await storage.getCoupon(id) : undefined;
+  return coupon ? (await storage.getPromotion(coupon.promotionId))?.storeId : null;
+};
+// Supplier invoices are the store's through the purchase order they were raised against
+export const supplierInvoiceStore = async (req: Request) => {
+  const id = toId(req.params.id);
+  const invoice = id ? await storage.getSupplierInvoice(id) : undefined;
+  return invoice?.purchaseOrderId ? (await storage.getPurchaseOrder(invoice.purchaseOrderId))?.storeId : null;
+};
+
+// Transfers belong to two stores: the source dispatches, the destination receives
+export const transferSourceStore = async (req: Request) => {
+  const id = toId(req.params.id);
+  return id ? (await storage.getStockTransfer(id))?.fromStoreId : null;
+};
+export const transferDestinationStore = async (req: Request) => {
+  const id = toId(req.params.id);
+  return id ? (await storage.getStockTransfer(id))?.toStoreId : null;
+};
+export const transferStores = async (req: Request) => {
+  const id = toId(req.params.id);
+  const transfer = id ? await storage.getStockTransfer(id) : undefined;
+  return transfer ? [transfer.fromStoreId, transfer.toStoreId] : [];
+};
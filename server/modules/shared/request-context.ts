@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+
+/**
+ * Who is making the current request, available to storage code without
+ * threading it through every call. Used to attribute audit log entries.
+ */
+export interface RequestContext {
+  requestId: string;
+  actorId: number | null;
+  // The reason the client gave for the change, if any
+  reason: string | null;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+// Runs `fn` with a given context, for work started outside a request such as scheduled jobs
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+// Must be registered after the session middleware so req.user is known
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction) {
+  const supplied = req.get("X-Request-Id");
+  const requestId = supplied && REQUEST_ID_PATTERN.test(supplied) ? supplied : randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+
+  const reason = typeof req.body?.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null;
+
+  requestContext.run({ requestId, actorId: req.user?.id ?? null, reason }, next);
+}
@@ -0,0 +1,26 @@
+import type { Store } from "@shared/schema";
+
+export function resolveStoreTimezone(store?: Store | null): string {
+  if (store?.settings && typeof store.settings === "object" && store.settings !== null) {
+    const maybeTimezone = (store.settings as Record<string, unknown>)["timezone"];
+    if (typeof maybeTimezone === "string" && maybeTimezone.trim().length > 0) {
+      return maybeTimezone;
+    }
+  }
+
+  if (typeof process.env.DEFAULT_STORE_TIMEZONE === "string" && process.env.DEFAULT_STORE_TIMEZONE.trim().length > 0) {
+    return process.env.DEFAULT_STORE_TIMEZONE.trim();
+  }
+
+  if (store?.baseCurrency === "QAR") {
+    return "Asia/Qatar";
+  }
+
+  return "UTC";
+}
+
+export function formatDateInTimezone(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+  }).format(date);
+}
@@ -16,13 +16,17 @@ import {
 import { storage } from "../../storage";
 import { db } from "../../db";
 import { isAuthenticated } from "../../auth";
-import { requireRole } from "../shared/authorization";
+import { requirePermission, supplierInvoiceStore } from "../shared/authorization";
 import { upload, dataFileUpload } from "../shared/upload";
+import { invoiceLineCodes, matchInvoiceLines } from "../inventory/identifiers";
+import { normaliseLotNumber, parseExpiryDate } from "../inventory/lots";
+import { toCost } from "../inventory/costing";
+import { resolveUnit, toBaseQuantity } from "@shared/units";
 import { extractInvoiceData, matchProductsWithAI } from "../../openai-service";
 
 export function registerSupplierRoutes(app: Express) {
   // Supplier management
-  app.get("/api/suppliers", async (_req, res) => {
+  app.get("/api/suppliers", isAuthenticated, requirePermission("suppliers", "read"), async (_req, res) => {
     try {
       const suppliers = await storage.getSuppliers();
       res.json(suppliers);
@@ -31,7 +35,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.post("/api/suppliers", async (req, res) => {
+  app.post("/api/suppliers", isAuthenticated, requirePermission("suppliers", "create"), async (req, res) => {
     try {
       const supplierData = insertSupplierSchema.parse(req.body);
       const supplier = await storage.createSupplier(supplierData);
@@ -41,7 +45,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.get("/api/suppliers/search", async (req, res) => {
+  app.get("/api/suppliers/search", isAuthenticated, requirePermission("suppliers", "read"), async (req, res) => {
     try {
       const query = req.query.q as string;
       if (!query) {
@@ -54,7 +58,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/suppliers/:id", async (req, res) => {
+  app.patch("/api/suppliers/:id", isAuthenticated, requirePermission("suppliers", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -74,7 +78,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.post("/api/suppliers/parse-upload", dataFileUpload.single("file"), async (req, res) => {
+  app.post("/api/suppliers/parse-upload", isAuthenticated, requirePermission("suppliers", "import"), dataFileUpload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -164,7 +168,7 @@ export function registerSupplierRoutes(app: Express) {
   });
 
   // Supplier invoices and payments
-  app.get("/api/supplier-invoices", async (_req, res) => {
+  app.get("/api/supplier-invoices", isAuthenticated, requirePermission("suppliers", "read"), async (_req, res) => {
     try {
       const invoices = await storage.getSupplierInvoices();
       res.json(invoices);
@@ -173,7 +177,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.get("/api/suppliers/:id/invoices", async (req, res) => {
+  app.get("/api/suppliers/:id/invoices", isAuthenticated, requirePermission("suppliers", "read"), async (req, res) => {
     try {
       const supplierId = parseInt(req.params.id);
       if (isNaN(supplierId)) {
@@ -187,7 +191,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.get("/api/supplier-invoices/:id/payments", async (req, res) => {
+  app.get("/api/supplier-invoices/:id/payments", isAuthenticated, requirePermission("suppliers", "read", { storeOf: supplierInvoiceStore }), async (req, res) => {
     try {
       const invoiceId = parseInt(req.params.id);
       if (isNaN(invoiceId)) {
@@ -204,17 +208,32 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.post("/api/supplier-invoices/:id/payments", async (req, res) => {
+  app.post("/api/supplier-invoices/:id/payments", isAuthenticated, requirePermission("suppliers", "update", { storeOf: supplierInvoiceStore }), async (req, res) => {
     try {
       const invoiceId = parseInt(req.params.id);
       if (isNaN(invoiceId)) {
         return res.status(400).json({ message: "Invalid invoice ID" });
       }
 
-      const { amount, paymentMethod, reference, paymentDate, notes } = req.body;
+      // Invoices that disagree with their order and deliveries are held until an admin accepts the differences
+      const match = await storage.getSupplierInvoiceMatch(invoiceId);
+      if (match && match.invoice.matchStatus === "discrepancy") {
+        return res.status(409).json({
+          message: "This invoice does not match its purchase order; resolve or accept the differences before paying",
+          code: "MATCH_DISCREPANCY",
+          details: match.match.lines.filter((line) => line.problems.length > 0),
+        });
+      }
+
+      const { amount, paymentMethod, reference, paymentDate, notes, storeId } = req.body;
+
+      // Without a store named, the payment belongs to the store the invoice's purchase order was for
+      const invoice = await storage.getSupplierInvoice(invoiceId);
+      const order = invoice?.purchaseOrderId ? await storage.getPurchaseOrder(invoice.purchaseOrderId) : undefined;
 
       const transformedPaymentData = {
         invoiceId,
+        storeId: Number(storeId) || order?.storeId || null,
         amount,
         paymentMethod,
         reference,
@@ -227,7 +246,6 @@ export function registerSupplierRoutes(app: Express) {
       const allPayments = await storage.getSupplierPaymentsByInvoice(invoiceId);
       const totalPaid = allPayments.reduce((sum, p) => sum + parseFloat(p.amount), 0);
 
-      const invoice = await storage.getSupplierInvoice(invoiceId);
       if (invoice) {
         const invoiceTotal = parseFloat(invoice.total);
         const newStatus = totalPaid >= invoiceTotal ? "paid" : "pending";
@@ -246,16 +264,17 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.get("/api/supplier-payments/date/:date", async (req, res) => {
+  app.get("/api/supplier-payments/date/:date", isAuthenticated, requirePermission("suppliers", "read"), async (req, res) => {
     try {
       const date = req.params.date;
       const startDate = new Date(date + "T00:00:00.000Z");
       const endDate = new Date(date + "T23:59:59.999Z");
+      const storeId = Number(req.query.storeId) || null;
 
       const allPayments = await storage.getSupplierPayments();
       const datePayments = allPayments.filter((payment) => {
         const paymentDate = new Date(payment.paymentDate);
-        return paymentDate >= startDate && paymentDate <= endDate;
+        return paymentDate >= startDate && paymentDate <= endDate && (!storeId || payment.storeId === storeId);
       });
 
       const cashPayments = datePayments
@@ -281,7 +300,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.post("/api/supplier-invoices/scan", upload.single("invoice"), async (req, res) => {
+  app.post("/api/supplier-invoices/scan", isAuthenticated, requirePermission("suppliers", "create"), upload.single("invoice"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No invoice image provided" });
@@ -295,7 +314,19 @@ export function registerSupplierRoutes(app: Express) {
 
       const extractedData = await extractInvoiceData(base64Image, isReturn === "true");
       const existingProducts = await storage.getProducts();
-      const productMatches = await matchProductsWithAI(extractedData.items, existingProducts);
+      // Lines whose barcode or supplier item code is already mapped need no AI
+      const supplierName = extractedData.supplierName?.toLowerCase();
+      const supplierId = Number(req.body.supplierId) > 0
+        ? Number(req.body.supplierId)
+        : supplierName
+          ? (await storage.getSuppliers()).find((supplier) => supplier.name.toLowerCase().includes(supplierName))?.id ?? null
+          : null;
+      const productMatches = await matchInvoiceLines(
+        extractedData.items,
+        existingProducts,
+        await storage.getCodeBook({ supplierId }),
+        (items) => matchProductsWithAI(items, existingProducts),
+      );
 
       // Don't delete the file - keep it for viewing and downloading
       // fsModule.unlinkSync(req.file.path);
@@ -314,11 +345,13 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.post("/api/supplier-invoices", async (req, res) => {
+  app.post("/api/supplier-invoices", isAuthenticated, requirePermission("suppliers", "create"), async (req, res) => {
     try {
       console.log("Creating supplier invoice with data:", req.body);
       
       const { invoiceData, items, stockAdjustments } = req.body;
+      // Stock is received into the store the invoice was entered in, when the client says which
+      const receivingStoreId = Number(req.body.storeId) > 0 ? Number(req.body.storeId) : null;
 
       // Validate that required data is present
       if (!invoiceData) {
@@ -337,6 +370,21 @@ export function registerSupplierRoutes(app: Express) {
         }
       }
 
+      // Invoices billing a purchase order are matched against it; the stock already came in on its GRNs
+      const purchaseOrderId = Number(invoiceData.purchaseOrderId) > 0 ? Number(invoiceData.purchaseOrderId) : null;
+      if (purchaseOrderId) {
+        const order = await storage.getPurchaseOrder(purchaseOrderId);
+        if (!order) {
+          return res.status(400).json({ message: "Invalid purchase order ID" });
+        }
+        if (order.supplierId !== Number(invoiceData.supplierId)) {
+          return res.status(400).json({ message: "The invoice and the order are from different suppliers" });
+        }
+        if (order.status === "draft" || order.status === "cancelled") {
+          return res.status(400).json({ message: `Cannot bill against an order that is ${order.status}` });
+        }
+      }
+
       // Check for duplicate invoice number
       if (invoiceData.invoiceNumber) {
         const existingInvoice = await storage.getSupplierInvoiceByNumber(invoiceData.invoiceNumber);
@@ -387,6 +435,9 @@ export function registerSupplierRoutes(app: Express) {
       for (let index = 0; index < items.length; index++) {
         const item = items[index];
         try {
+          // A UOM the product is bought in converts to base units; invoices are free text, so anything else counts as base units
+          const unitSet = item.productId ? await storage.getProductUnits(item.productId) : undefined;
+          const unit = unitSet ? resolveUnit(unitSet, unitSet.units, item.uom, "purchase") : null;
           const transformedItem = {
             invoiceId: invoice.id,
             productId: item.productId || null,
@@ -394,11 +445,14 @@ export function registerSupplierRoutes(app: Express) {
             productName: item.productName || "",
             itemCode: item.itemCode || "",
             barcode: item.barcode || "",
-            quantity: parseInt(item.quantity) || 1,
+            quantity: String(parseFloat(item.quantity) || 1),
             uom: item.uom || "pcs",
+            unitFactor: String(unit?.factor ?? 1),
             unitCost: item.unitCost?.toString() || "0.00",
             totalCost: item.totalCost?.toString() || "0.00",
             sku: item.sku || null,
+            lotNumber: normaliseLotNumber(item.lotNumber),
+            expiryDate: parseExpiryDate(item.expiryDate),
           };
 
           const validatedItem = insertSupplierInvoiceItemSchema.parse(transformedItem);
@@ -410,21 +464,53 @@ export function registerSupplierRoutes(app: Express) {
         }
       }
 
+      // The codes on matched lines match straight away on the next invoice
+      try {
+        await storage.rememberProductIdentifiers(
+          invoiceLineCodes(createdItems, invoice.supplierId).map((code) => ({ ...code, createdBy: req.user?.id ?? null })),
+        );
+      } catch (codeError) {
+        console.error("Error remembering invoice codes:", codeError);
+      }
+
+      const match = purchaseOrderId ? (await storage.linkSupplierInvoice(invoice.id, purchaseOrderId)).match : undefined;
+
       const createdAdjustments = [];
-      if (stockAdjustments && stockAdjustments.length > 0) {
+      if (!purchaseOrderId && stockAdjustments && stockAdjustments.length > 0) {
         for (const adjustment of stockAdjustments) {
           try {
             const validatedAdjustment = insertStockAdjustmentSchema.parse({
               ...adjustment,
+              storeId: adjustment.storeId ?? receivingStoreId,
               invoiceId: invoice.id
             });
-            const createdAdjustment = await storage.createStockAdjustment(validatedAdjustment);
+            // Received stock goes into the lot printed on its invoice line, at that line's cost
+            const invoiceLine =
+              createdItems.find((item) => item.productId === validatedAdjustment.productId && (item.lotNumber || item.expiryDate)) ??
+              createdItems.find((item) => item.productId === validatedAdjustment.productId);
+            // The adjustment is entered in the line's UOM: 2 cartons of 24 receive 48 units, at a 24th of the carton cost
+            const factor = invoiceLine ? parseFloat(invoiceLine.unitFactor) || 1 : 1;
+            const baseQuantity = toBaseQuantity(validatedAdjustment.quantityChange, factor);
+            const lineCost = invoiceLine ? parseFloat(invoiceLine.unitCost) : 0;
+            const createdAdjustment = await storage.createStockAdjustment(
+              {
+                ...validatedAdjustment,
+                quantityChange: Math.round(baseQuantity),
+                newStock: validatedAdjustment.previousStock + Math.round(baseQuantity),
+              },
+              {
+                quantity: baseQuantity,
+                lot: invoiceLine
+                  ? { lotNumber: invoiceLine.lotNumber, expiryDate: invoiceLine.expiryDate, unitCost: lineCost > 0 ? toCost(lineCost / factor) : null }
+                  : null,
+              },
+            );
             createdAdjustments.push(createdAdjustment);
 
             // Update product stock
             const product = await storage.getProduct(adjustment.productId);
             if (product) {
-              const newStock = (product.stock || 0) + adjustment.quantityChange;
+              const newStock = (product.stock || 0) + createdAdjustment.quantityChange;
               await storage.updateProduct(adjustment.productId, {
                 stock: newStock,
                 quantity: newStock
@@ -438,9 +524,10 @@ export function registerSupplierRoutes(app: Express) {
       }
 
       res.status(201).json({
-        invoice,
+        invoice: match?.invoice ?? invoice,
         items: createdItems,
-        stockAdjustments: createdAdjustments
+        stockAdjustments: createdAdjustments,
+        match: match?.match
       });
     } catch (error: any) {
       console.error("Error creating supplier invoice:", error);
@@ -468,7 +555,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/supplier-invoices/:id", async (req, res) => {
+  app.patch("/api/supplier-invoices/:id", isAuthenticated, requirePermission("suppliers", "update", { storeOf: supplierInvoiceStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -538,7 +625,7 @@ export function registerSupplierRoutes(app: Express) {
     }
   });
 
-  app.get("/api/supplier-invoices/:id/items", async (req, res) => {
+  app.get("/api/supplier-invoices/:id/items", isAuthenticated, requirePermission("suppliers", "read", { storeOf: supplierInvoiceStore }), async (req, res) => {
     try {
       const invoiceId = parseInt(req.params.id);
       if (isNaN(invoiceId)) {
@@ -553,7 +640,7 @@ export function registerSupplierRoutes(app: Express) {
   });
 
   // Delete supplier invoice
-  app.delete("/api/supplier-invoices/:id", async (req, res) => {
+  app.delete("/api/supplier-invoices/:id", isAuthenticated, requirePermission("suppliers", "delete", { storeOf: supplierInvoiceStore }), async (req, res) => {
     try {
       console.log("DELETE request received for invoice ID:", req.params.id);
       const id = parseInt(req.params.id);
@@ -595,7 +682,7 @@ export function registerSupplierRoutes(app: Express) {
   });
 
   // Delete supplier
-  app.delete("/api/suppliers/:id", async (req, res) => {
+  app.delete("/api/suppliers/:id", isAuthenticated, requirePermission("suppliers", "delete"), async (req, res) => {
     try {
       console.log("DELETE request received for supplier ID:", req.params.id);
       const id = parseInt(req.params.id);
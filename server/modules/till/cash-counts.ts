@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+import { CASH_COUNT_PHASES, CURRENCIES } from "@shared/schema";
+
+export const currencyCodeSchema = z.enum(Object.values(CURRENCIES) as [string, ...string[]], {
+  errorMap: () => ({ message: "Choose a supported currency" }),
+});
+
+export const denominationSetSchema = z.object({
+  denominations: z
+    .array(
+      z.object({
+        value: z.coerce.number().finite().positive("Each note or coin needs a value above zero").max(100_000),
+        label: z.string().trim().min(1, "Give each note or coin a label").max(30),
+        kind: z.enum(["note", "coin"]),
+      }),
+    )
+    .min(1, "Add at least one note or coin")
+    .refine((denominations) => new Set(denominations.map((denomination) => denomination.value)).size === denominations.length, {
+      message: "Each value can only be listed once",
+    })
+    // Counted largest first, as the close screen lists them
+    .transform((denominations) => [...denominations].sort((a, b) => b.value - a.value)),
+});
+
+export const cashCountSchema = z.object({
+  phase: z.enum(CASH_COUNT_PHASES),
+  lines: z
+    .array(
+      z.object({
+        currency: currencyCodeSchema,
+        denomination: z.coerce.number().finite().positive().max(100_000),
+        quantity: z.coerce.number().int("Count whole notes and coins").min(0, "A count cannot be negative").max(1_000_000),
+      }),
+    )
+    .refine((lines) => new Set(lines.map((line) => `${line.currency}:${line.denomination}`)).size === lines.length, {
+      message: "Each note or coin can only be counted once per currency",
+    }),
+});
+
+export type CashCountInput = z.infer<typeof cashCountSchema>;
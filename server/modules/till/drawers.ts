@@ -0,0 +1,133 @@
+import { z } from "zod";
+
+import type { DrawerSession, Register } from "@shared/schema";
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const amount = (message: string) => z.coerce.number().finite().min(0, message).max(10_000_000);
+
+// Cleared with null; a register without a ceiling never prompts a drop
+const cashCeiling = amount("The cash ceiling cannot be negative").nullable().optional();
+
+export const createRegisterSchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  name: z.string().trim().min(1, "Enter a register name").max(50),
+  cashCeiling,
+});
+
+export const updateRegisterSchema = z
+  .object({
+    name: z.string().trim().min(1, "Enter a register name").max(50).optional(),
+    isActive: z.boolean().optional(),
+    cashCeiling,
+  })
+  .refine(
+    (update) => update.name !== undefined || update.isActive !== undefined || update.cashCeiling !== undefined,
+    "Nothing to update",
+  );
+
+export const openDrawerSchema = z.object({
+  registerId: z.coerce.number().int().positive(),
+  openingFloat: amount("The float cannot be negative"),
+});
+
+// The count is taken before the cashier is shown what the drawer should hold
+export const closeDrawerSchema = z.object({
+  countedCash: amount("The counted cash cannot be negative"),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+// Opening the drawer without a sale records who did it and, optionally, why
+export const noSaleSchema = z.object({
+  reason: z.string().trim().max(200).optional().nullable(),
+});
+
+// A Z report for one register, or for the store's whole day without one
+export const issueZReportSchema = z.object({
+  registerId: z.coerce.number().int().positive().optional().nullable(),
+});
+
+/** The cash that went in and out of one drawer during a session. */
+export interface DrawerCash {
+  openingFloat: number;
+  cashSales: number;
+  cashRefunds: number;
+  cashIn: number;
+  cashOut: number;
+}
+
+export function expectedDrawerCash(cash: DrawerCash): number {
+  return round2(cash.openingFloat + cash.cashSales - cash.cashRefunds + cash.cashIn - cash.cashOut);
+}
+
+/** What a closed session records: the drawer's totals, the blind count and the difference. */
+export function closeDrawerTotals(cash: DrawerCash, countedCash: number) {
+  const expectedCash = expectedDrawerCash(cash);
+  return {
+    cashSales: round2(cash.cashSales),
+    cashRefunds: round2(cash.cashRefunds),
+    cashIn: round2(cash.cashIn),
+    cashOut: round2(cash.cashOut),
+    expectedCash,
+    countedCash: round2(countedCash),
+    variance: round2(countedCash - expectedCash),
+  };
+}
+
+export interface DrawerRollUpLine {
+  sessionId: number;
+  registerId: number;
+  registerName: string;
+  status: string;
+  openedBy: number | null;
+  openingFloat: number;
+  // Null until the drawer is counted: an open drawer's expected cash is not shown
+  expectedCash: number | null;
+  countedCash: number | null;
+  variance: number | null;
+}
+
+export interface DrawerRollUp {
+  drawers: DrawerRollUpLine[];
+  openDrawers: number;
+  totals: { openingFloat: number; expectedCash: number; countedCash: number; variance: number };
+}
+
+const toNumber = (value: string | null): number | null => (value === null ? null : parseFloat(value));
+
+/**
+ * The store-level view of a day's drawers for the day close: each session
+ * with its own variance, and the totals of the counted ones.
+ */
+export function rollUpDrawers(sessions: DrawerSession[], registers: Pick<Register, "id" | "name">[]): DrawerRollUp {
+  const names = new Map(registers.map((register) => [register.id, register.name]));
+  const drawers = sessions.map((session) => {
+    const closed = session.status === "closed";
+    return {
+      sessionId: session.id,
+      registerId: session.registerId,
+      registerName: names.get(session.registerId) ?? `Register ${session.registerId}`,
+      status: session.status,
+      openedBy: session.openedBy,
+      openingFloat: parseFloat(session.openingFloat),
+      expectedCash: closed ? toNumber(session.expectedCash) : null,
+      countedCash: closed ? toNumber(session.countedCash) : null,
+      variance: closed ? toNumber(session.variance) : null,
+    };
+  });
+
+  const counted = drawers.filter((drawer) => drawer.status === "closed");
+  const sum = (pick: (drawer: DrawerRollUpLine) => number | null) =>
+    round2(counted.reduce((total, drawer) => total + (pick(drawer) ?? 0), 0));
+
+  return {
+    drawers,
+    openDrawers: drawers.length - counted.length,
+    totals: {
+      openingFloat: round2(drawers.reduce((total, drawer) => total + drawer.openingFloat, 0)),
+      expectedCash: sum((drawer) => drawer.expectedCash),
+      countedCash: sum((drawer) => drawer.countedCash),
+      variance: sum((drawer) => drawer.variance),
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { z } from "zod";
+
+import { DRAWER_MOVEMENT_REASONS, DRAWER_MOVEMENT_TYPES, type DrawerMovementType } from "@shared/schema";
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const drawerMovementSchema = z
+  .object({
+    type: z.enum(DRAWER_MOVEMENT_TYPES),
+    amount: z.coerce.number().finite().positive("Enter an amount above zero").max(10_000_000),
+    reasonCode: z.string().trim().min(1, "Choose a reason"),
+    note: z.string().trim().max(500).optional().nullable(),
+    reference: z.string().trim().max(100).optional().nullable(),
+  })
+  .refine((movement) => (DRAWER_MOVEMENT_REASONS[movement.type] as readonly string[]).includes(movement.reasonCode), {
+    message: "That reason does not apply to this movement",
+    path: ["reasonCode"],
+  });
+
+export type DrawerMovementInput = z.infer<typeof drawerMovementSchema>;
+
+const DIRECTIONS: Record<DrawerMovementType, "in" | "out"> = {
+  cash_drop: "out",
+  cash_pickup: "out",
+  paid_in: "in",
+  paid_out: "out",
+};
+
+export function drawerMovementDirection(type: DrawerMovementType): "in" | "out" {
+  return DIRECTIONS[type];
+}
+
+const TYPE_LABELS: Record<DrawerMovementType, string> = {
+  cash_drop: "Cash drop",
+  cash_pickup: "Cash pickup",
+  paid_in: "Paid in",
+  paid_out: "Paid out",
+};
+
+/** The ledger line for a drawer movement, e.g. "Paid out: supplier delivery - bread". */
+export function drawerMovementDescription(movement: Pick<DrawerMovementInput, "type" | "reasonCode" | "note">): string {
+  const reason = movement.reasonCode.replace(/_/g, " ");
+  const line = `${TYPE_LABELS[movement.type]}: ${reason}`;
+  return movement.note ? `${line} - ${movement.note}` : line;
+}
+
+/** Whether a drawer holds more than its register's ceiling. Registers without one never prompt. */
+export function isOverCeiling(expectedCash: number, cashCeiling: number | null): boolean {
+  return cashCeiling !== null && cashCeiling > 0 && expectedCash > cashCeiling;
+}
+
+export interface DrawerMovementTotals {
+  paidIn: number;
+  paidOut: number;
+  dropped: number;
+  pickedUp: number;
+}
+
+/** A day's drawer movements by kind, so the day close takes them as recorded rather than re-keyed. */
+export function totalDrawerMovements(movements: { type: string; amount: string | number }[]): DrawerMovementTotals {
+  const totals: DrawerMovementTotals = { paidIn: 0, paidOut: 0, dropped: 0, pickedUp: 0 };
+  const keys: Record<DrawerMovementType, keyof DrawerMovementTotals> = {
+    cash_drop: "dropped",
+    cash_pickup: "pickedUp",
+    paid_in: "paidIn",
+    paid_out: "paidOut",
+  };
+  for (const movement of movements) {
+    const key = keys[movement.type as DrawerMovementType];
+    if (key) totals[key] += Number(movement.amount) || 0;
+  }
+  return {
+    paidIn: round2(totals.paidIn),
+    paidOut: round2(totals.paidOut),
+    dropped: round2(totals.dropped),
+    pickedUp: round2(totals.pickedUp),
+  };
+}
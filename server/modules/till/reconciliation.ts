@@ -0,0 +1,302 @@
+import { z } from "zod";
+
+import type { DrawerMovementTotals } from "./movements";
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const amount = z.coerce.number().finite().min(0, "Amounts cannot be negative").max(10_000_000).default(0);
+
+// What only the close form knows: owner and expense money moved outside the
+// till's records, and the balance read off the bank statement
+export const declaredMovementsSchema = z.object({
+  ownerDeposits: amount,
+  ownerWithdrawals: amount,
+  ownerBankDeposits: amount,
+  ownerBankWithdrawals: amount,
+  expensePayments: amount,
+  bankWithdrawals: amount,
+  // Positive when cash went to the bank, negative when it came back
+  bankTransfers: z.coerce.number().finite().min(-10_000_000).max(10_000_000).default(0),
+  actualBankBalance: z.coerce.number().finite().optional(),
+});
+
+export type DeclaredMovements = z.infer<typeof declaredMovementsSchema>;
+
+interface ByMethod {
+  cash: number;
+  card: number;
+}
+
+/** A day's figures as the sales, returns, credit, supplier and cash movement records have them. */
+export interface DayRecords {
+  openingCash: number;
+  openingBankBalance: number;
+  sales: { cash: number; card: number; credit: number; split: number };
+  salesCounts: { cash: number; card: number; credit: number; split: number };
+  // Cash sales taken in other currencies, at base value; counted in their own currency's pile
+  foreignCashSalesInBase: number;
+  saleRefunds: ByMethod;
+  creditPayments: ByMethod;
+  creditRefunds: ByMethod;
+  supplierPayments: ByMethod;
+  drawer: DrawerMovementTotals;
+  // Owner, expense and bank movements recorded against the day in cash_movements
+  recorded: Omit<DeclaredMovements, "actualBankBalance">;
+}
+
+type RecordedMovements = DayRecords["recorded"];
+
+/**
+ * Owner, expense and bank movements recorded against the day, by what
+ * they do to the drawer and the bank. Drawer movements have their own
+ * totals, and supplier payments are taken from the supplier ledger, so
+ * both are left out here.
+ */
+export function totalRecordedMovements(
+  rows: { type: string; paymentMethod: string; direction: string; amount: string | number }[],
+): RecordedMovements {
+  const totals: RecordedMovements = {
+    ownerDeposits: 0,
+    ownerWithdrawals: 0,
+    ownerBankDeposits: 0,
+    ownerBankWithdrawals: 0,
+    expensePayments: 0,
+    bankWithdrawals: 0,
+    bankTransfers: 0,
+  };
+  for (const row of rows) {
+    const value = Number(row.amount) || 0;
+    const inCash = row.paymentMethod === "cash";
+    switch (row.type) {
+      case "owner_deposit":
+        totals[inCash ? "ownerDeposits" : "ownerBankDeposits"] += value;
+        break;
+      case "owner_withdrawal":
+        totals[inCash ? "ownerWithdrawals" : "ownerBankWithdrawals"] += value;
+        break;
+      case "expense_payment":
+        totals[inCash ? "expensePayments" : "bankWithdrawals"] += value;
+        break;
+      case "bank_transfer":
+        totals.bankTransfers += row.direction === "in" ? -value : value;
+        break;
+    }
+  }
+  for (const key of Object.keys(totals) as (keyof RecordedMovements)[]) {
+    totals[key] = round2(totals[key]);
+  }
+  return totals;
+}
+
+export interface DayCloseReconciliation {
+  sales: {
+    total: number;
+    cash: number;
+    card: number;
+    credit: number;
+    split: number;
+    transactions: number;
+    counts: DayRecords["salesCounts"];
+  };
+  cash: {
+    opening: number;
+    sales: number; // Base-currency cash sales only
+    creditPayments: number;
+    ownerDeposits: number;
+    paidIn: number;
+    ownerWithdrawals: number;
+    supplierPayments: number;
+    expensePayments: number;
+    creditRefunds: number;
+    saleRefunds: number;
+    bankTransfers: number;
+    paidOut: number;
+    dropped: number; // Drops and pickups
+    expected: number;
+  };
+  bank: {
+    opening: number;
+    cardSales: number;
+    creditPayments: number;
+    ownerDeposits: number;
+    ownerWithdrawals: number;
+    bankTransfers: number;
+    withdrawals: number;
+    cardRefunds: number;
+    expected: number;
+    actual: number | null;
+    difference: number | null;
+  };
+  // The figures the close compares against the request
+  totals: Record<ReconciledField, number>;
+}
+
+export const RECONCILED_FIELDS = [
+  "openingCash",
+  "openingBankBalance",
+  "totalSales",
+  "cashSales",
+  "cardSales",
+  "creditSales",
+  "splitSales",
+  "creditPaymentsCash",
+  "creditPaymentsCard",
+  "creditRefundsGiven",
+  "supplierPayments",
+  "ownerDeposits",
+  "ownerWithdrawals",
+  "ownerBankDeposits",
+  "ownerBankWithdrawals",
+  "expensePayments",
+  "bankTransfers",
+  "bankWithdrawals",
+  "expectedCash",
+  "expectedBankBalance",
+] as const;
+
+export type ReconciledField = typeof RECONCILED_FIELDS[number];
+
+// The credit figures feed the expected totals but have no day operation column
+export const STORED_FIELDS = RECONCILED_FIELDS.filter(
+  (field): field is Exclude<ReconciledField, "creditPaymentsCash" | "creditPaymentsCard" | "creditRefundsGiven"> =>
+    field !== "creditPaymentsCash" && field !== "creditPaymentsCard" && field !== "creditRefundsGiven",
+);
+
+// Worked out from the day's records; a close request may not send its own.
+// The owner, expense and bank movements are the form's to declare.
+export const DERIVED_FIELDS: readonly ReconciledField[] = [
+  "openingCash",
+  "openingBankBalance",
+  "totalSales",
+  "cashSales",
+  "cardSales",
+  "creditSales",
+  "splitSales",
+  "creditPaymentsCash",
+  "creditPaymentsCard",
+  "creditRefundsGiven",
+  "supplierPayments",
+  "expectedCash",
+  "expectedBankBalance",
+];
+
+/**
+ * Works out what the drawer and the bank should hold at close. Movements
+ * the form declares are added to any recorded against the day, since the
+ * form is the only place most of them are entered.
+ */
+export function reconcileDay(records: DayRecords, declared: DeclaredMovements): DayCloseReconciliation {
+  const moved = (key: keyof DayRecords["recorded"]) => round2(records.recorded[key] + declared[key]);
+  const ownerDeposits = moved("ownerDeposits");
+  const ownerWithdrawals = moved("ownerWithdrawals");
+  const ownerBankDeposits = moved("ownerBankDeposits");
+  const ownerBankWithdrawals = moved("ownerBankWithdrawals");
+  const expensePayments = moved("expensePayments");
+  const bankWithdrawals = moved("bankWithdrawals");
+  const bankTransfers = moved("bankTransfers");
+
+  const cash = {
+    opening: round2(records.openingCash),
+    sales: round2(records.sales.cash - records.foreignCashSalesInBase),
+    creditPayments: round2(records.creditPayments.cash),
+    ownerDeposits,
+    paidIn: records.drawer.paidIn,
+    ownerWithdrawals,
+    supplierPayments: round2(records.supplierPayments.cash),
+    expensePayments,
+    // Credit-account refunds paid by card come out of the bank instead
+    creditRefunds: round2(records.creditRefunds.cash),
+    saleRefunds: round2(records.saleRefunds.cash),
+    bankTransfers,
+    paidOut: records.drawer.paidOut,
+    dropped: round2(records.drawer.dropped + records.drawer.pickedUp),
+    expected: 0,
+  };
+  cash.expected = round2(
+    cash.opening + cash.sales + cash.creditPayments + cash.ownerDeposits + cash.paidIn
+      - cash.ownerWithdrawals - cash.supplierPayments - cash.expensePayments - cash.creditRefunds
+      - cash.saleRefunds - cash.bankTransfers - cash.paidOut - cash.dropped,
+  );
+
+  const bank = {
+    opening: round2(records.openingBankBalance),
+    cardSales: round2(records.sales.card),
+    creditPayments: round2(records.creditPayments.card),
+    ownerDeposits: ownerBankDeposits,
+    ownerWithdrawals: ownerBankWithdrawals,
+    bankTransfers,
+    withdrawals: round2(bankWithdrawals + records.creditRefunds.card),
+    cardRefunds: round2(records.saleRefunds.card),
+    expected: 0,
+    actual: declared.actualBankBalance ?? null,
+    difference: null as number | null,
+  };
+  bank.expected = round2(
+    bank.opening + bank.cardSales + bank.creditPayments + bank.ownerDeposits - bank.ownerWithdrawals
+      + bank.bankTransfers - bank.withdrawals - bank.cardRefunds,
+  );
+  bank.difference = bank.actual === null ? null : round2(bank.actual - bank.expected);
+
+  const sales = {
+    total: round2(records.sales.cash + records.sales.card + records.sales.credit + records.sales.split),
+    cash: round2(records.sales.cash),
+    card: round2(records.sales.card),
+    credit: round2(records.sales.credit),
+    split: round2(records.sales.split),
+    transactions:
+      records.salesCounts.cash + records.salesCounts.card + records.salesCounts.credit + records.salesCounts.split,
+    counts: { ...records.salesCounts },
+  };
+
+  return {
+    sales,
+    cash,
+    bank,
+    totals: {
+      openingCash: cash.opening,
+      openingBankBalance: bank.opening,
+      totalSales: sales.total,
+      cashSales: sales.cash,
+      cardSales: sales.card,
+      creditSales: sales.credit,
+      splitSales: sales.split,
+      creditPaymentsCash: cash.creditPayments,
+      creditPaymentsCard: bank.creditPayments,
+      creditRefundsGiven: round2(records.creditRefunds.cash + records.creditRefunds.card),
+      supplierPayments: cash.supplierPayments,
+      ownerDeposits,
+      ownerWithdrawals,
+      ownerBankDeposits,
+      ownerBankWithdrawals,
+      expensePayments,
+      bankTransfers,
+      bankWithdrawals,
+      expectedCash: cash.expected,
+      expectedBankBalance: bank.expected,
+    },
+  };
+}
+
+export interface TotalMismatch {
+  field: string;
+  submitted: number;
+  expected: number;
+}
+
+/**
+ * Figures a close request sent that differ from the server's by a cent or
+ * more. Fields left out are not compared; the server's figures are stored
+ * for them either way.
+ */
+export function totalMismatches(submitted: Record<string, unknown>, expected: Partial<Record<string, number>>): TotalMismatch[] {
+  const mismatches: TotalMismatch[] = [];
+  for (const [field, value] of Object.entries(expected)) {
+    const sent = submitted[field];
+    if (value === undefined || sent === undefined || sent === null || sent === "") continue;
+    const number = Number(sent);
+    if (!Number.isFinite(number) || Math.abs(number - value) > 0.005) {
+      mismatches.push({ field, submitted: number, expected: value });
+    }
+  }
+  return mismatches;
+}
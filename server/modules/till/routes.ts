@@ -1,17 +1,26 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import {
   insertDayOperationSchema,
   insertShiftSchema,
   insertDailyProductMonitoringSchema,
-  USER_ROLES,
   type DayOperation
 } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { dayCashReconciliation, unknownDenominations, type CashCountLine } from "@shared/denominations";
+import type { TillReport } from "@shared/till-reports";
 import { storage } from "../../storage";
 import { isAuthenticated } from "../../auth";
-import { requireRole } from "../shared/authorization";
+import { dailyMonitoringStore, dayOperationStore, drawerSessionStore, listableStoreIds, registerStore, requirePermission, shiftStore, zReportStore } from "../shared/authorization";
+import { resolveStoreTimezone } from "../shared/store-time";
+import { renderTillReportPdf } from "../invoices/pdf-renderer";
+import { lotCountsSchema } from "../inventory/lots";
+import { closeDrawerSchema, createRegisterSchema, issueZReportSchema, noSaleSchema, openDrawerSchema, updateRegisterSchema } from "./drawers";
+import { drawerMovementSchema } from "./movements";
+import { cashCountSchema, currencyCodeSchema, denominationSetSchema } from "./cash-counts";
+import { DERIVED_FIELDS, declaredMovementsSchema, STORED_FIELDS, totalMismatches } from "./reconciliation";
 
 export function registerTillRoutes(app: Express) {
-  const parseStoreId = (value: unknown): number | undefined => {
+  const parseId = (value: unknown): number | undefined => {
     if (value === undefined || value === null || value === "") {
       return undefined;
     }
@@ -25,9 +34,9 @@ export function registerTillRoutes(app: Express) {
   };
 
   // Day Operations
-  app.get("/api/day-operations/current", isAuthenticated, async (req, res) => {
+  app.get("/api/day-operations/current", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
     try {
-      const storeId = parseStoreId(req.query.storeId);
+      const storeId = parseId(req.query.storeId);
       const dayOperation = await storage.getCurrentDayOperation(storeId);
       res.json(dayOperation);
     } catch (error) {
@@ -36,9 +45,9 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.get("/api/day-operations/open", isAuthenticated, async (req, res) => {
+  app.get("/api/day-operations/open", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
     try {
-      const storeId = parseStoreId(req.query.storeId);
+      const storeId = parseId(req.query.storeId);
       const dayOperation = await storage.getOpenDayOperation(storeId);
       res.json(dayOperation);
     } catch (error) {
@@ -47,10 +56,10 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.get("/api/day-operations/date/:date", isAuthenticated, async (req, res) => {
+  app.get("/api/day-operations/date/:date", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
     try {
       const date = req.params.date;
-      const storeId = parseStoreId(req.query.storeId);
+      const storeId = parseId(req.query.storeId);
       const dayOperation = await storage.getDayOperationByDate(date, storeId);
       res.json(dayOperation);
     } catch (error) {
@@ -58,10 +67,10 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.get("/api/day-operations/status/:date", isAuthenticated, async (req, res) => {
+  app.get("/api/day-operations/status/:date", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
     try {
       const date = req.params.date;
-      const storeId = parseStoreId(req.query.storeId);
+      const storeId = parseId(req.query.storeId);
       const dayOperation = await storage.getDayOperationByDate(date, storeId);
 
       if (!dayOperation) {
@@ -102,9 +111,9 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.get("/api/day-operations", isAuthenticated, async (req, res) => {
+  app.get("/api/day-operations", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
     try {
-      const storeId = parseStoreId(req.query.storeId);
+      const storeId = parseId(req.query.storeId);
       const statusParam = typeof req.query.status === "string" ? req.query.status.toLowerCase() : undefined;
       const limitParam = req.query.limit ? Number(req.query.limit) : undefined;
       const offsetParam = req.query.offset ? Number(req.query.offset) : undefined;
@@ -127,6 +136,7 @@ export function registerTillRoutes(app: Express) {
 
       const { data, total } = await storage.listDayOperations({
         storeId,
+        storeIds: storeId ? undefined : await listableStoreIds(req.user!),
         status,
         limit,
         offset,
@@ -146,9 +156,9 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.get("/api/day-operations/previous-closing-cash", isAuthenticated, async (req, res) => {
+  app.get("/api/day-operations/previous-closing-cash", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
     try {
-      const storeId = parseStoreId(req.query.storeId);
+      const storeId = parseId(req.query.storeId);
       const targetDate = req.query.date as string | undefined;
 
       if (targetDate) {
@@ -170,9 +180,9 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.get("/api/day-operations/previous-balances", isAuthenticated, async (req, res) => {
+  app.get("/api/day-operations/previous-balances", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
     try {
-      const storeId = parseStoreId(req.query.storeId);
+      const storeId = parseId(req.query.storeId);
       const targetDate = req.query.date as string | undefined;
 
       if (targetDate) {
@@ -206,7 +216,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.post("/api/day-operations/open", isAuthenticated, async (req, res) => {
+  app.post("/api/day-operations/open", isAuthenticated, requirePermission("day-operations", "open"), async (req, res) => {
     try {
       console.log("📥 Received day open request body:", JSON.stringify(req.body, null, 2));
       const openingData = insertDayOperationSchema.parse(req.body);
@@ -258,6 +268,13 @@ export function registerTillRoutes(app: Express) {
 
       const dayOperation = await storage.createDayOperation(openingData);
       
+      // Foreign notes left in the till last night are today's opening count
+      try {
+        await storage.carryForeignCashForward(dayOperation);
+      } catch (carryError) {
+        console.error("⚠️  Failed to carry foreign cash forward:", carryError);
+      }
+
       // AUTO-INITIALIZE PRODUCT MONITORING (Phase 2.2 Enhancement)
       try {
         const monitoring = await storage.initializeDailyProductMonitoring(dayOperation.id);
@@ -288,39 +305,40 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/day-operations/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/day-operations/:id", isAuthenticated, requirePermission("day-operations", "update", { storeOf: dayOperationStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid day operation ID" });
     }
 
     try {
-      console.log("Day operation update data:", JSON.stringify(req.body, null, 2));
+      // Closing, and the totals a close works out from the day's records, belong to /close
+      const existing = await storage.getDayOperationById(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Day operation not found" });
+      }
+      if (existing.status !== "open") {
+        return res.status(409).json({ message: "Only an open day can be changed; reopen it first", code: "DAY_NOT_OPEN" });
+      }
 
-      const allowedFields = [
-        "cashierId",
+      const amountFields = [
         "openingCash",
         "openingBankBalance",
-        "totalSales",
-        "cashSales",
-        "cardSales",
-        "creditSales",
-        "splitSales",
         "cashPurchases",
         "cardPurchases",
         "bankPurchases",
-        "totalTransactions",
-        "cashTransactionCount",
-        "cardTransactionCount",
-        "creditTransactionCount",
-        "splitTransactionCount",
-        "expectedCash",
-        "actualCashCount",
-        "closingCash",
-        "cashDifference",
-        "expectedBankBalance",
-        "actualBankBalance",
-        "bankDifference",
+        "ownerDeposits",
+        "ownerWithdrawals",
+        "ownerBankDeposits",
+        "ownerBankWithdrawals",
+        "expensePayments",
+        "bankTransfers",
+        "bankWithdrawals",
+        "posCardSwipeAmount",
+        "cashMiscAmount",
+        "cardMiscAmount"
+      ];
+      const cashCountFields = [
         "cashCount_500",
         "cashCount_200",
         "cashCount_100",
@@ -330,89 +348,17 @@ export function registerTillRoutes(app: Express) {
         "cashCount_5",
         "cashCount_1",
         "cashCount_050",
-        "cashCount_025",
-        "ownerDeposits",
-        "ownerWithdrawals",
-        "ownerBankDeposits",
-        "ownerBankWithdrawals",
-        "expensePayments",
-        "supplierPayments",
-        "bankTransfers",
-        "creditPaymentsCash",
-        "creditPaymentsCard",
-        "creditRefundsGiven",
-        "posCardSwipeAmount",
-        "cardSwipeVariance",
-        "bankWithdrawals",
-        "cashMiscAmount",
-        "cardMiscAmount",
-        "miscNotes",
-        "openedAt",
-        "closedAt",
-        "status",
-        "reconciliationNotes"
+        "cashCount_025"
       ];
 
       const filteredData: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(req.body)) {
-        if (allowedFields.includes(key)) {
-          if (
-            typeof value === "string" &&
-            !isNaN(Number(value)) &&
-            [
-              "totalSales",
-              "cashSales",
-              "cardSales",
-              "creditSales",
-              "splitSales",
-              "expectedCash",
-              "actualCashCount",
-              "closingCash",
-              "cashDifference",
-              "cashMiscAmount",
-              "cardMiscAmount",
-              "openingCash",
-              "openingBankBalance",
-              "expectedBankBalance",
-              "actualBankBalance",
-              "bankDifference",
-              "cashPurchases",
-              "cardPurchases",
-              "bankPurchases",
-              "ownerDeposits",
-              "ownerWithdrawals",
-              "ownerBankDeposits",
-              "ownerBankWithdrawals",
-              "expensePayments",
-              "supplierPayments",
-              "bankTransfers",
-              "creditPaymentsCash",
-              "creditPaymentsCard",
-              "creditRefundsGiven",
-              "posCardSwipeAmount",
-              "cardSwipeVariance",
-              "bankWithdrawals"
-            ].includes(key)
-          ) {
-            filteredData[key] = value;
-          } else if (
-            typeof value === "number" &&
-            [
-              "totalTransactions",
-              "cashTransactionCount",
-              "cardTransactionCount",
-              "creditTransactionCount",
-              "splitTransactionCount"
-            ].includes(key)
-          ) {
-            filteredData[key] = value;
-          } else if (key.startsWith("cashCount_") && typeof value === "number") {
-            filteredData[key] = value;
-          } else if (["status", "miscNotes", "reconciliationNotes"].includes(key)) {
-            filteredData[key] = value;
-          } else if (["openedAt", "closedAt"].includes(key)) {
-            filteredData[key] = value;
-          }
+        if (amountFields.includes(key) && typeof value === "string" && !isNaN(Number(value))) {
+          filteredData[key] = value;
+        } else if (cashCountFields.includes(key) && typeof value === "number") {
+          filteredData[key] = value;
+        } else if (["cashierId", "miscNotes", "reconciliationNotes", "openedAt"].includes(key)) {
+          filteredData[key] = value;
         }
       }
 
@@ -428,22 +374,13 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/day-operations/:id/close", isAuthenticated, async (req, res) => {
+  app.patch("/api/day-operations/:id/close", isAuthenticated, requirePermission("day-operations", "close", { storeOf: dayOperationStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid day operation ID" });
     }
 
     try {
-      console.log("📥 Day Close Request - ID:", id);
-      console.log("📥 Day Close Request Body Keys:", Object.keys(req.body));
-      console.log("📥 Day Close Data Sample:", {
-        expectedCash: req.body.expectedCash,
-        actualCashCount: req.body.actualCashCount,
-        cashDifference: req.body.cashDifference,
-        closingCash: req.body.closingCash
-      });
-
       // Verify day operation exists and is open
       const existingDayOp = await storage.getDayOperationById(id);
       if (!existingDayOp) {
@@ -454,13 +391,105 @@ export function registerTillRoutes(app: Express) {
         return res.status(400).json({ message: "Day operation is already closed" });
       }
 
+      // Every register's drawer is counted before the store's day is
+      const drawers = await storage.getDayDrawers(id);
+      if (drawers.openDrawers > 0) {
+        return res.status(409).json({
+          message: `Count every drawer before closing the day (${drawers.openDrawers} still open)`,
+          code: "DRAWERS_OPEN",
+          drawers,
+        });
+      }
+
       const closeData = insertDayOperationSchema.partial().parse(req.body);
       
       // Remove timestamp fields from request - we'll set them on the server
       delete (closeData as any).closedAt;
       delete (closeData as any).openedAt;
       delete (closeData as any).reopenedAt;
-      
+      delete (closeData as any).currencyVariances;
+
+      // The totals are worked out here from the day's records; the form only declares
+      // the owner, expense and bank movements it alone knows about
+      const declared = declaredMovementsSchema.safeParse(req.body);
+      if (!declared.success) {
+        return res.status(400).json({ message: declared.error.errors[0]?.message ?? "Invalid movements", errors: declared.error.errors });
+      }
+      const dayClose = await storage.previewDayClose(id, declared.data);
+      if (!dayClose) {
+        return res.status(404).json({ message: "Day operation not found" });
+      }
+      const { totals } = dayClose;
+
+      // A count by denomination settles the cash variance here, in every currency the
+      // drawers hold, converted to the store's base currency at the day's rates
+      let closingCount: CashCountLine[] | null = null;
+      if (req.body.cashCounts !== undefined) {
+        const counted = cashCountSchema.safeParse({ phase: "closing", lines: req.body.cashCounts });
+        if (!counted.success) {
+          return res.status(400).json({ message: counted.error.errors[0]?.message ?? "Invalid cash count", errors: counted.error.errors });
+        }
+        const unknown = unknownDenominations(counted.data.lines, await storage.getDenominationSets());
+        if (unknown.length > 0) {
+          return res.status(400).json({ message: `${unknown[0].currency} has no ${unknown[0].denomination} note or coin` });
+        }
+        const day = await storage.getDayCurrencyCash(id);
+        if (!day) {
+          return res.status(404).json({ message: "Day operation not found" });
+        }
+
+        const reconciliation = dayCashReconciliation({
+          baseCurrency: day.baseCurrency,
+          baseExpected: totals.expectedCash,
+          extraBaseCash: parseFloat(closeData.cashMiscAmount ?? "0"),
+          counts: counted.data.lines,
+          currencies: day.currencies,
+        });
+        if (reconciliation.missingRates.length > 0) {
+          return res.status(400).json({
+            message: `Add a ${day.baseCurrency} rate for ${reconciliation.missingRates.join(", ")} effective on or before ${day.date} before closing`,
+            code: "RATE_MISSING",
+            missingRates: reconciliation.missingRates,
+          });
+        }
+
+        const base = reconciliation.lines.find((line) => line.currency === day.baseCurrency);
+        closeData.actualCashCount = (base?.counted ?? 0).toFixed(2);
+        closeData.cashDifference = reconciliation.totalVarianceInBase.toFixed(2);
+        closeData.currencyVariances = reconciliation;
+        closingCount = counted.data.lines;
+      } else if (closeData.actualCashCount != null) {
+        closeData.cashDifference = (parseFloat(closeData.actualCashCount) - totals.expectedCash).toFixed(2);
+      }
+
+      const mismatches = totalMismatches(req.body, {
+        ...Object.fromEntries(DERIVED_FIELDS.map((field) => [field, totals[field]])),
+        bankDifference: dayClose.bank.difference ?? undefined,
+        cashDifference: closeData.cashDifference == null ? undefined : parseFloat(closeData.cashDifference),
+      });
+      if (mismatches.length > 0) {
+        return res.status(409).json({
+          message: `The day's records give a different ${mismatches[0].field} (${mismatches[0].expected.toFixed(2)}, not ${mismatches[0].submitted.toFixed(2)})`,
+          code: "TOTALS_MISMATCH",
+          mismatches,
+          reconciliation: dayClose,
+        });
+      }
+
+      for (const field of STORED_FIELDS) {
+        closeData[field] = totals[field].toFixed(2);
+      }
+      closeData.closingCash = closeData.actualCashCount ?? null;
+      if (dayClose.bank.actual !== null) {
+        closeData.actualBankBalance = dayClose.bank.actual.toFixed(2);
+        closeData.bankDifference = (dayClose.bank.difference ?? 0).toFixed(2);
+      }
+      closeData.totalTransactions = dayClose.sales.transactions;
+      closeData.cashTransactionCount = dayClose.sales.counts.cash;
+      closeData.cardTransactionCount = dayClose.sales.counts.card;
+      closeData.creditTransactionCount = dayClose.sales.counts.credit;
+      closeData.splitTransactionCount = dayClose.sales.counts.split;
+
       const updatedCloseData = {
         ...closeData,
         status: "closed" as const,
@@ -468,19 +497,15 @@ export function registerTillRoutes(app: Express) {
         closedBy: req.user?.id
       };
 
-      console.log("✅ Parsed Close Data Sample:", {
-        expectedCash: closeData.expectedCash,
-        actualCashCount: closeData.actualCashCount,
-        cashDifference: closeData.cashDifference,
-        closingCash: closeData.closingCash
-      });
+      if (closingCount) {
+        await storage.saveCashCounts(id, { phase: "closing", lines: closingCount }, req.user?.id ?? null);
+      }
 
       const dayOperation = await storage.updateDayOperation(id, updatedCloseData);
       if (!dayOperation) {
         return res.status(500).json({ message: "Failed to update day operation" });
       }
 
-      console.log("✅ Day closed successfully:", dayOperation.id, dayOperation.date, dayOperation.status);
       res.json(dayOperation);
     } catch (error) {
       console.error("❌ Day Close Error:", error);
@@ -494,13 +519,18 @@ export function registerTillRoutes(app: Express) {
   app.patch(
     "/api/day-operations/:id/reopen",
     isAuthenticated,
-    requireRole([USER_ROLES.ADMIN]),
+    requirePermission("day-operations", "reopen", { storeOf: dayOperationStore }),
     async (req, res) => {
       const id = parseInt(req.params.id);
       if (isNaN(id) || id <= 0) {
         return res.status(400).json({ message: "Invalid day operation ID" });
       }
 
+      const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ message: "A reason is required to reopen a closed day" });
+      }
+
       try {
         console.log("📥 Day Reopen Request - ID:", id, "User:", req.user?.username);
         
@@ -530,7 +560,8 @@ export function registerTillRoutes(app: Express) {
           status: "open" as const,
           closedAt: null,
           reopenedAt: new Date(), // Use Date object instead of ISO string
-          reopenedBy: req.user?.id
+          reopenedBy: req.user?.id,
+          reopenReason: reason,
         };
 
         const updatedDayOperation = await storage.updateDayOperation(id, reopenData);
@@ -551,7 +582,7 @@ export function registerTillRoutes(app: Express) {
   );
 
   // Shift Management
-  app.get("/api/shifts", isAuthenticated, async (req, res) => {
+  app.get("/api/shifts", isAuthenticated, requirePermission("shifts", "read"), async (req, res) => {
     try {
       const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
       const shifts = await storage.getActiveShifts(storeId);
@@ -562,7 +593,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.post("/api/shifts", isAuthenticated, async (req, res) => {
+  app.post("/api/shifts", isAuthenticated, requirePermission("shifts", "create"), async (req, res) => {
     try {
       console.log("Shift creation request:", req.body);
 
@@ -597,7 +628,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/shifts/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/shifts/:id", isAuthenticated, requirePermission("shifts", "update", { storeOf: shiftStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id) || id <= 0) {
@@ -618,7 +649,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.post("/api/shifts/:id/close", isAuthenticated, async (req, res) => {
+  app.post("/api/shifts/:id/close", isAuthenticated, requirePermission("shifts", "close", { storeOf: shiftStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id) || id <= 0) {
@@ -638,8 +669,444 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
+  // Registers
+  app.get("/api/registers", isAuthenticated, requirePermission("shifts", "read"), async (req, res) => {
+    const storeId = parseId(req.query.storeId);
+    if (!storeId) {
+      return res.status(400).json({ message: "storeId is required" });
+    }
+    try {
+      res.json(await storage.getRegisters(storeId, req.query.activeOnly === "true"));
+    } catch (error) {
+      console.error("Error fetching registers:", error);
+      res.status(500).json({ message: "Failed to fetch registers" });
+    }
+  });
+
+  app.post("/api/registers", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
+    const parsed = createRegisterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid register", errors: parsed.error.errors });
+    }
+    try {
+      const result = await storage.createRegister(parsed.data);
+      if (!result.success) {
+        return res.status(409).json(result);
+      }
+      res.status(201).json(result.data);
+    } catch (error) {
+      console.error("Error creating register:", error);
+      res.status(500).json({ message: "Failed to create register" });
+    }
+  });
+
+  app.patch("/api/registers/:id", isAuthenticated, requirePermission("settings", "update", { storeOf: registerStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid register ID" });
+    }
+    const parsed = updateRegisterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid register", errors: parsed.error.errors });
+    }
+    try {
+      const result = await storage.updateRegister(id, parsed.data);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 409).json(result);
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error updating register:", error);
+      res.status(500).json({ message: "Failed to update register" });
+    }
+  });
+
+  // Drawer sessions: a register's cash from its opening float to its blind count
+  const openingRegisterStore = async (req: Request) => {
+    const registerId = parseId(req.body?.registerId);
+    return registerId ? (await storage.getRegister(registerId))?.storeId : null;
+  };
+
+  app.get("/api/drawer-sessions", isAuthenticated, requirePermission("shifts", "read"), async (req, res) => {
+    try {
+      const storeId = parseId(req.query.storeId);
+      const sessions = await storage.getDrawerSessions({
+        storeId,
+        storeIds: storeId ? undefined : await listableStoreIds(req.user!),
+        dayOperationId: parseId(req.query.dayOperationId),
+        status: typeof req.query.status === "string" ? req.query.status : undefined,
+      });
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching drawer sessions:", error);
+      res.status(500).json({ message: "Failed to fetch drawer sessions" });
+    }
+  });
+
+  app.post("/api/drawer-sessions", isAuthenticated, requirePermission("shifts", "create", { storeOf: openingRegisterStore }), async (req, res) => {
+    const parsed = openDrawerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid drawer opening", errors: parsed.error.errors });
+    }
+    try {
+      const result = await storage.openDrawerSession({ ...parsed.data, openedBy: req.user?.id ?? null });
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : result.code === "CONFLICT" ? 409 : 400).json(result);
+      }
+      res.status(201).json(result.data);
+    } catch (error) {
+      console.error("Error opening drawer:", error);
+      res.status(500).json({ message: "Failed to open drawer" });
+    }
+  });
+
+  // The response is the first time the cashier sees the expected cash and the variance
+  app.post("/api/drawer-sessions/:id/close", isAuthenticated, requirePermission("shifts", "close", { storeOf: drawerSessionStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid drawer session ID" });
+    }
+    const parsed = closeDrawerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid drawer count", errors: parsed.error.errors });
+    }
+    try {
+      const result = await storage.closeDrawerSession(id, { ...parsed.data, closedBy: req.user?.id ?? null });
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 409).json(result);
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error closing drawer:", error);
+      res.status(500).json({ message: "Failed to close drawer" });
+    }
+  });
+
+  // Mid-shift cash drops, pickups, paid-ins and paid-outs, which feed the drawer's expected cash
+  app.get("/api/drawer-sessions/:id/movements", isAuthenticated, requirePermission("shifts", "read", { storeOf: drawerSessionStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid drawer session ID" });
+    }
+    try {
+      res.json(await storage.getDrawerMovements(id));
+    } catch (error) {
+      console.error("Error fetching drawer movements:", error);
+      res.status(500).json({ message: "Failed to fetch cash movements" });
+    }
+  });
+
+  app.post("/api/drawer-sessions/:id/movements", isAuthenticated, requirePermission("shifts", "create", { storeOf: drawerSessionStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid drawer session ID" });
+    }
+    const parsed = drawerMovementSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid cash movement", errors: parsed.error.errors });
+    }
+    // A pickup is cash collected from the till by a supervisor or manager
+    if (parsed.data.type === "cash_pickup" && !hasPermission(req.user?.role, "shifts", "update")) {
+      return res.status(403).json({ message: "Only a supervisor or manager can pick up cash" });
+    }
+    try {
+      const result = await storage.recordDrawerMovement(id, parsed.data, req.user?.id ?? null);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 409).json(result);
+      }
+      res.status(201).json(result.data);
+    } catch (error) {
+      console.error("Error recording cash movement:", error);
+      res.status(500).json({ message: "Failed to record cash movement" });
+    }
+  });
+
+  app.get("/api/registers/:id/ceiling-status", isAuthenticated, requirePermission("shifts", "read", { storeOf: registerStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid register ID" });
+    }
+    try {
+      res.json(await storage.getDrawerCeilingStatus(id));
+    } catch (error) {
+      console.error("Error checking drawer ceiling:", error);
+      res.status(500).json({ message: "Failed to check the drawer ceiling" });
+    }
+  });
+
+  app.get("/api/day-operations/:id/drawer-movements", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dayOperationStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid day operation ID" });
+    }
+    try {
+      res.json(await storage.getDayDrawerMovements(id));
+    } catch (error) {
+      console.error("Error fetching day drawer movements:", error);
+      res.status(500).json({ message: "Failed to fetch drawer movements" });
+    }
+  });
+
+  app.get("/api/day-operations/:id/drawers", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dayOperationStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid day operation ID" });
+    }
+    try {
+      res.json(await storage.getDayDrawers(id));
+    } catch (error) {
+      console.error("Error fetching day drawers:", error);
+      res.status(500).json({ message: "Failed to fetch drawers" });
+    }
+  });
+
+  // Denomination sets and per-currency cash counts
+  app.get("/api/denomination-sets", isAuthenticated, requirePermission("day-operations", "read"), async (_req, res) => {
+    try {
+      res.json(await storage.getDenominationSets());
+    } catch (error) {
+      console.error("Error fetching denomination sets:", error);
+      res.status(500).json({ message: "Failed to fetch denomination sets" });
+    }
+  });
+
+  app.put("/api/denomination-sets/:currency", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
+    const currency = currencyCodeSchema.safeParse(req.params.currency?.toUpperCase());
+    if (!currency.success) {
+      return res.status(400).json({ message: "Choose a supported currency" });
+    }
+    const parsed = denominationSetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid denomination set", errors: parsed.error.errors });
+    }
+    try {
+      res.json(await storage.saveDenominationSet(currency.data, parsed.data.denominations, req.user?.id ?? null));
+    } catch (error) {
+      console.error("Error saving denomination set:", error);
+      res.status(500).json({ message: "Failed to save denomination set" });
+    }
+  });
+
+  app.get("/api/day-operations/:id/cash-counts", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dayOperationStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid day operation ID" });
+    }
+    const phase = req.query.phase === "opening" || req.query.phase === "closing" ? req.query.phase : undefined;
+    try {
+      res.json(await storage.getCashCounts(id, phase));
+    } catch (error) {
+      console.error("Error fetching cash counts:", error);
+      res.status(500).json({ message: "Failed to fetch cash counts" });
+    }
+  });
+
+  app.put("/api/day-operations/:id/cash-counts", isAuthenticated, requirePermission("day-operations", "update", { storeOf: dayOperationStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid day operation ID" });
+    }
+    const parsed = cashCountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid cash count", errors: parsed.error.errors });
+    }
+    try {
+      const dayOperation = await storage.getDayOperationById(id);
+      if (!dayOperation) {
+        return res.status(404).json({ message: "Day operation not found" });
+      }
+      if (dayOperation.status === "closed") {
+        return res.status(409).json({ message: "The day is closed; reopen it to recount" });
+      }
+      const unknown = unknownDenominations(parsed.data.lines, await storage.getDenominationSets());
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `${unknown[0].currency} has no ${unknown[0].denomination} note or coin` });
+      }
+      res.json(await storage.saveCashCounts(id, parsed.data, req.user?.id ?? null));
+    } catch (error) {
+      console.error("Error saving cash count:", error);
+      res.status(500).json({ message: "Failed to save cash count" });
+    }
+  });
+
+  app.get("/api/day-operations/:id/currency-cash", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dayOperationStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid day operation ID" });
+    }
+    try {
+      const day = await storage.getDayCurrencyCash(id);
+      if (!day) {
+        return res.status(404).json({ message: "Day operation not found" });
+      }
+      res.json(day);
+    } catch (error) {
+      console.error("Error fetching currency cash:", error);
+      res.status(500).json({ message: "Failed to fetch currency cash" });
+    }
+  });
+
+  // What the day should close at, so the close screen shows the figures the close will store
+  app.get("/api/day-operations/:id/reconciliation", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dayOperationStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid day operation ID" });
+    }
+    const declared = declaredMovementsSchema.safeParse(req.query);
+    if (!declared.success) {
+      return res.status(400).json({ message: declared.error.errors[0]?.message ?? "Invalid movements", errors: declared.error.errors });
+    }
+    try {
+      const reconciliation = await storage.previewDayClose(id, declared.data);
+      if (!reconciliation) {
+        return res.status(404).json({ message: "Day operation not found" });
+      }
+      res.json(reconciliation);
+    } catch (error) {
+      console.error("Error reconciling day:", error);
+      res.status(500).json({ message: "Failed to reconcile day" });
+    }
+  });
+
+  // No-sale drawer opens, and X and Z reports
+  app.post("/api/drawer-sessions/:id/no-sale", isAuthenticated, requirePermission("shifts", "create", { storeOf: drawerSessionStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid drawer session ID" });
+    }
+    const parsed = noSaleSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid no-sale", errors: parsed.error.errors });
+    }
+    try {
+      const result = await storage.recordNoSale(id, parsed.data.reason || null, req.user?.id ?? null);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 409).json(result);
+      }
+      res.status(201).json(result.data);
+    } catch (error) {
+      console.error("Error recording no-sale:", error);
+      res.status(500).json({ message: "Failed to record no-sale" });
+    }
+  });
+
+  const sendTillReportPdf = async (res: Response, report: TillReport, filename: string) => {
+    const store = await storage.getStore(report.store.id);
+    const pdf = await renderTillReportPdf(report, resolveStoreTimezone(store));
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${filename}.pdf"`);
+    res.send(pdf);
+  };
+
+  const xReport = async (req: Request) => {
+    const id = parseId(req.params.id);
+    return id ? storage.getXReport({ dayOperationId: id, registerId: parseId(req.query.registerId) }) : undefined;
+  };
+
+  app.get("/api/day-operations/:id/x-report", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dayOperationStore }), async (req, res) => {
+    try {
+      const result = await xReport(req);
+      if (!result) {
+        return res.status(400).json({ message: "Invalid day operation ID" });
+      }
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json(result);
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error building X report:", error);
+      res.status(500).json({ message: "Failed to build X report" });
+    }
+  });
+
+  app.get("/api/day-operations/:id/x-report/pdf", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dayOperationStore }), async (req, res) => {
+    try {
+      const result = await xReport(req);
+      if (!result) {
+        return res.status(400).json({ message: "Invalid day operation ID" });
+      }
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json(result);
+      }
+      await sendTillReportPdf(res, result.data, `X-${result.data.date}`);
+    } catch (error) {
+      console.error("Error rendering X report:", error);
+      res.status(500).json({ message: "Failed to render X report" });
+    }
+  });
+
+  app.post("/api/day-operations/:id/z-reports", isAuthenticated, requirePermission("day-operations", "close", { storeOf: dayOperationStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid day operation ID" });
+    }
+    const parsed = issueZReportSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid Z report request", errors: parsed.error.errors });
+    }
+    try {
+      const result = await storage.issueZReport({ dayOperationId: id, registerId: parsed.data.registerId }, req.user?.id ?? null);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 409).json(result);
+      }
+      res.status(201).json(result.data);
+    } catch (error) {
+      console.error("Error issuing Z report:", error);
+      res.status(500).json({ message: "Failed to issue Z report" });
+    }
+  });
+
+  app.get("/api/z-reports", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
+    try {
+      const storeId = parseId(req.query.storeId);
+      res.json(await storage.getZReports({
+        storeId,
+        storeIds: storeId ? undefined : await listableStoreIds(req.user!),
+        dayOperationId: parseId(req.query.dayOperationId),
+      }));
+    } catch (error) {
+      console.error("Error fetching Z reports:", error);
+      res.status(500).json({ message: "Failed to fetch Z reports" });
+    }
+  });
+
+  app.get("/api/z-reports/:id", isAuthenticated, requirePermission("day-operations", "read", { storeOf: zReportStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid Z report ID" });
+    }
+    try {
+      const report = await storage.getZReport(id);
+      if (!report) {
+        return res.status(404).json({ message: "Z report not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching Z report:", error);
+      res.status(500).json({ message: "Failed to fetch Z report" });
+    }
+  });
+
+  app.get("/api/z-reports/:id/pdf", isAuthenticated, requirePermission("day-operations", "read", { storeOf: zReportStore }), async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid Z report ID" });
+    }
+    try {
+      const report = await storage.getZReport(id);
+      if (!report) {
+        return res.status(404).json({ message: "Z report not found" });
+      }
+      const content = report.content as TillReport;
+      await sendTillReportPdf(res, content, content.number ?? `Z-${report.id}`);
+    } catch (error) {
+      console.error("Error rendering Z report:", error);
+      res.status(500).json({ message: "Failed to render Z report" });
+    }
+  });
+
   // Daily Product Monitoring
-  app.get("/api/products/daily-monitoring", async (_req, res) => {
+  app.get("/api/products/daily-monitoring", isAuthenticated, requirePermission("day-operations", "read"), async (_req, res) => {
     try {
       const products = await storage.getProductsRequiringDailyMonitoring();
       res.json(products);
@@ -648,7 +1115,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/products/:id/daily-monitoring", async (req, res) => {
+  app.patch("/api/products/:id/daily-monitoring", isAuthenticated, requirePermission("products", "update"), async (req, res) => {
     try {
       const productId = parseInt(req.params.id);
       const { requiresDailyMonitoring } = req.body;
@@ -668,7 +1135,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.get("/api/daily-monitoring/:date", async (req, res) => {
+  app.get("/api/daily-monitoring/:date", isAuthenticated, requirePermission("day-operations", "read"), async (req, res) => {
     try {
       const date = req.params.date;
       const monitoring = await storage.getDailyProductMonitoring(date);
@@ -678,7 +1145,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.get("/api/day-operations/:id/product-monitoring", async (req, res) => {
+  app.get("/api/day-operations/:id/product-monitoring", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dayOperationStore }), async (req, res) => {
     try {
       const dayOperationId = parseInt(req.params.id);
 
@@ -693,7 +1160,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.post("/api/day-operations/:id/initialize-monitoring", async (req, res) => {
+  app.post("/api/day-operations/:id/initialize-monitoring", isAuthenticated, requirePermission("day-operations", "open", { storeOf: dayOperationStore }), async (req, res) => {
     try {
       const dayOperationId = parseInt(req.params.id);
 
@@ -708,7 +1175,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.patch("/api/daily-monitoring/:id", async (req, res) => {
+  app.patch("/api/daily-monitoring/:id", isAuthenticated, requirePermission("day-operations", "close", { storeOf: dailyMonitoringStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
 
@@ -729,7 +1196,7 @@ export function registerTillRoutes(app: Express) {
     }
   });
 
-  app.post("/api/daily-monitoring/:id/reconcile", async (req, res) => {
+  app.post("/api/daily-monitoring/:id/reconcile", isAuthenticated, requirePermission("day-operations", "close", { storeOf: dailyMonitoringStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { actualClosingStock, notes } = req.body;
@@ -748,4 +1215,47 @@ export function registerTillRoutes(app: Express) {
       res.status(500).json({ message: "Failed to reconcile monitoring", error });
     }
   });
+
+  // The monitored product's day split by lot, with any lot counts from reconciliation
+  app.get("/api/daily-monitoring/:id/lots", isAuthenticated, requirePermission("day-operations", "read", { storeOf: dailyMonitoringStore }), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid monitoring record ID" });
+      }
+
+      const breakdown = await storage.getDailyProductMonitoringLots(id);
+      if (!breakdown) {
+        return res.status(404).json({ message: "Monitoring record not found" });
+      }
+      res.json(breakdown);
+    } catch (error) {
+      console.error("Error fetching lot breakdown:", error);
+      res.status(500).json({ message: "Failed to fetch lot breakdown" });
+    }
+  });
+
+  app.post("/api/daily-monitoring/:id/lots/reconcile", isAuthenticated, requirePermission("day-operations", "close", { storeOf: dailyMonitoringStore }), async (req, res) => {
+    const id = parseInt(req.params.id);
+    const parsed = lotCountsSchema.safeParse(req.body);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid monitoring record ID" });
+    }
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid lot counts", errors: parsed.error.errors });
+    }
+
+    try {
+      const result = await storage.reconcileDailyProductMonitoringByLot(id, parsed.data, req.user?.id);
+      if (!result.success) {
+        return res.status(result.code === "NOT_FOUND" ? 404 : 400).json(result);
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error reconciling by lot:", error);
+      res.status(500).json({ message: "Failed to reconcile by lot" });
+    }
+  });
 }
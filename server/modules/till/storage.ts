@@ -0,0 +1,904 @@
+import { and, asc, desc, eq, inArray, isNull, lt, ne, or, sql, type AnyColumn } from "drizzle-orm";
+
+import {
+  cashCounts,
+  cashMovements,
+  creditTransactions,
+  currencyRates,
+  CURRENCIES,
+  customers,
+  dayOperations,
+  denominationSets,
+  drawerNoSales,
+  drawerSessions,
+  DRAWER_MOVEMENT_TYPES,
+  registers,
+  returns,
+  stores,
+  supplierPayments,
+  transactionItems,
+  transactions,
+  zReports,
+  type CashCount,
+  type CashCountPhase,
+  type CashMovement,
+  type DayOperation,
+  type DenominationSet,
+  type DrawerNoSale,
+  type DrawerSession,
+  type Register,
+  type ZReport,
+} from "@shared/schema";
+import {
+  countTotals,
+  DEFAULT_DENOMINATIONS,
+  effectiveRate,
+  roundCurrency,
+  type DayCurrencyCash,
+  type Denomination,
+} from "@shared/denominations";
+import { buildTillReport, zReportNumber, type TillReport, type TillReportKind } from "@shared/till-reports";
+
+import { db } from "../../db";
+import type { CashCountInput } from "./cash-counts";
+import { closeDrawerTotals, expectedDrawerCash, rollUpDrawers, type DrawerCash, type DrawerRollUp } from "./drawers";
+import {
+  drawerMovementDescription,
+  drawerMovementDirection,
+  isOverCeiling,
+  totalDrawerMovements,
+  type DrawerMovementInput,
+  type DrawerMovementTotals,
+} from "./movements";
+import {
+  reconcileDay,
+  totalRecordedMovements,
+  type DayCloseReconciliation,
+  type DayRecords,
+  type DeclaredMovements,
+} from "./reconciliation";
+
+type TillExecutor = Pick<typeof db, "select">;
+// Makes till changes: db, or the transaction an audit entry is written in
+type TillWriter = Pick<typeof db, "select" | "insert" | "transaction">;
+
+export type TillResult<T> =
+  | { success: true; data: T }
+  | { success: false; message: string; code?: "NOT_FOUND" | "CONFLICT" | "DRAWER_NOT_OPEN" };
+
+const isUniqueViolation = (error: unknown) => (error as { code?: string } | null)?.code === "23505";
+
+// Registers
+
+export async function getRegisters(storeId: number, activeOnly = false): Promise<Register[]> {
+  return db
+    .select()
+    .from(registers)
+    .where(activeOnly ? and(eq(registers.storeId, storeId), eq(registers.isActive, true)) : eq(registers.storeId, storeId))
+    .orderBy(asc(registers.name));
+}
+
+export async function getRegister(id: number): Promise<Register | undefined> {
+  const [register] = await db.select().from(registers).where(eq(registers.id, id));
+  return register;
+}
+
+const ceilingValue = (cashCeiling: number | null | undefined) =>
+  cashCeiling === undefined ? undefined : cashCeiling === null ? null : cashCeiling.toFixed(2);
+
+export async function createRegister(input: { storeId: number; name: string; cashCeiling?: number | null }): Promise<TillResult<Register>> {
+  try {
+    const [register] = await db
+      .insert(registers)
+      .values({ storeId: input.storeId, name: input.name, cashCeiling: ceilingValue(input.cashCeiling) })
+      .returning();
+    return { success: true, data: register };
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { success: false, message: `There is already a register called ${input.name}`, code: "CONFLICT" };
+    }
+    throw error;
+  }
+}
+
+export async function updateRegister(
+  id: number,
+  update: { name?: string; isActive?: boolean; cashCeiling?: number | null },
+): Promise<TillResult<Register>> {
+  const register = await getRegister(id);
+  if (!register) return { success: false, message: "Register not found", code: "NOT_FOUND" };
+
+  if (update.isActive === false && (await getOpenDrawerSession(id))) {
+    return { success: false, message: "Close the register's drawer before retiring it", code: "CONFLICT" };
+  }
+
+  try {
+    const [updated] = await db
+      .update(registers)
+      .set({ name: update.name, isActive: update.isActive, cashCeiling: ceilingValue(update.cashCeiling) })
+      .where(eq(registers.id, id))
+      .returning();
+    return { success: true, data: updated };
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return { success: false, message: `There is already a register called ${update.name}`, code: "CONFLICT" };
+    }
+    throw error;
+  }
+}
+
+// Drawer sessions
+
+export async function getDrawerSession(id: number): Promise<DrawerSession | undefined> {
+  const [session] = await db.select().from(drawerSessions).where(eq(drawerSessions.id, id));
+  return session;
+}
+
+export async function getOpenDrawerSession(registerId: number): Promise<DrawerSession | undefined> {
+  const [session] = await db
+    .select()
+    .from(drawerSessions)
+    .where(and(eq(drawerSessions.registerId, registerId), eq(drawerSessions.status, "open")));
+  return session;
+}
+
+export async function getDrawerSessions(filters: { storeId?: number; storeIds?: number[]; dayOperationId?: number; status?: string }): Promise<DrawerSession[]> {
+  const conditions = [
+    filters.storeId ? eq(drawerSessions.storeId, filters.storeId) : undefined,
+    filters.storeIds ? inArray(drawerSessions.storeId, filters.storeIds) : undefined,
+    filters.dayOperationId ? eq(drawerSessions.dayOperationId, filters.dayOperationId) : undefined,
+    filters.status ? eq(drawerSessions.status, filters.status) : undefined,
+  ].filter((condition) => condition !== undefined);
+
+  return db
+    .select()
+    .from(drawerSessions)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(drawerSessions.openedAt));
+}
+
+export async function openDrawerSession(input: {
+  registerId: number;
+  openingFloat: number;
+  openedBy: number | null;
+}, executor: TillWriter = db): Promise<TillResult<DrawerSession>> {
+  const register = await getRegister(input.registerId);
+  if (!register) return { success: false, message: "Register not found", code: "NOT_FOUND" };
+  if (!register.isActive) return { success: false, message: `${register.name} is no longer in use` };
+
+  const [openDay] = await db
+    .select({ id: dayOperations.id })
+    .from(dayOperations)
+    .where(and(eq(dayOperations.storeId, register.storeId), eq(dayOperations.status, "open")));
+  if (!openDay) {
+    return { success: false, message: "Open the day before opening a drawer" };
+  }
+
+  try {
+    // In a savepoint, so a drawer already open leaves the caller's transaction usable
+    const [session] = await executor.transaction((tx) => tx
+      .insert(drawerSessions)
+      .values({
+        storeId: register.storeId,
+        registerId: register.id,
+        dayOperationId: openDay.id,
+        openingFloat: input.openingFloat.toFixed(2),
+        openedBy: input.openedBy,
+      })
+      .returning());
+    return { success: true, data: session };
+  } catch (error) {
+    // The partial unique index allows one open drawer per register
+    if (isUniqueViolation(error)) {
+      return { success: false, message: `${register.name}'s drawer is already open`, code: "CONFLICT" };
+    }
+    throw error;
+  }
+}
+
+/** Cash taken and paid out through one drawer, from its own sales, cash refunds and movements. */
+export async function getDrawerCash(session: DrawerSession, executor: TillExecutor = db): Promise<DrawerCash> {
+  const [sales] = await executor
+    .select({ total: sql<string>`COALESCE(SUM(${transactions.total}), 0)` })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.drawerSessionId, session.id),
+        eq(transactions.paymentMethod, "cash"),
+        // A refunded sale's cash was taken; the refund is paid out as a return
+        inArray(transactions.status, ["completed", "refunded"]),
+      ),
+    );
+
+  const [refunds] = await executor
+    .select({ total: sql<string>`COALESCE(SUM(${returns.totalRefund}), 0)` })
+    .from(returns)
+    .where(and(eq(returns.drawerSessionId, session.id), eq(returns.refundMethod, "cash")));
+
+  const [movements] = await executor
+    .select({
+      cashIn: sql<string>`COALESCE(SUM(CASE WHEN ${cashMovements.direction} = 'in' THEN ${cashMovements.amount} END), 0)`,
+      cashOut: sql<string>`COALESCE(SUM(CASE WHEN ${cashMovements.direction} = 'out' THEN ${cashMovements.amount} END), 0)`,
+    })
+    .from(cashMovements)
+    .where(and(eq(cashMovements.drawerSessionId, session.id), eq(cashMovements.paymentMethod, "cash")));
+
+  return {
+    openingFloat: parseFloat(session.openingFloat),
+    cashSales: parseFloat(sales?.total ?? "0"),
+    cashRefunds: parseFloat(refunds?.total ?? "0"),
+    cashIn: parseFloat(movements?.cashIn ?? "0"),
+    cashOut: parseFloat(movements?.cashOut ?? "0"),
+  };
+}
+
+/**
+ * Records the cashier's blind count and only then works out what the drawer
+ * should have held, so the count cannot be made to fit the expected figure.
+ */
+export async function closeDrawerSession(
+  id: number,
+  input: { countedCash: number; notes?: string | null; closedBy: number | null },
+  executor: TillWriter = db,
+): Promise<TillResult<DrawerSession>> {
+  return executor.transaction(async (tx) => {
+    const [session] = await tx.select().from(drawerSessions).where(eq(drawerSessions.id, id)).for("update");
+    if (!session) return { success: false, message: "Drawer session not found", code: "NOT_FOUND" };
+    if (session.status !== "open") return { success: false, message: "This drawer has already been counted", code: "CONFLICT" };
+
+    const totals = closeDrawerTotals(await getDrawerCash(session, tx), input.countedCash);
+    const [closed] = await tx
+      .update(drawerSessions)
+      .set({
+        status: "closed",
+        cashSales: totals.cashSales.toFixed(2),
+        cashRefunds: totals.cashRefunds.toFixed(2),
+        cashIn: totals.cashIn.toFixed(2),
+        cashOut: totals.cashOut.toFixed(2),
+        expectedCash: totals.expectedCash.toFixed(2),
+        countedCash: totals.countedCash.toFixed(2),
+        variance: totals.variance.toFixed(2),
+        closedBy: input.closedBy,
+        closedAt: new Date(),
+        notes: input.notes ?? null,
+      })
+      .where(eq(drawerSessions.id, id))
+      .returning();
+    return { success: true, data: closed };
+  });
+}
+
+/**
+ * The open drawer on the register a sale or refund was rung up on. Without
+ * a register the cash is only counted at store level, as before registers.
+ */
+export async function resolveDrawerSession(storeId: number, registerId?: number | null): Promise<TillResult<number | null>> {
+  if (!registerId) return { success: true, data: null };
+
+  const register = await getRegister(registerId);
+  if (!register || register.storeId !== storeId) {
+    return { success: false, message: "Register not found in this store", code: "NOT_FOUND" };
+  }
+  const session = await getOpenDrawerSession(registerId);
+  if (!session) {
+    return { success: false, message: `Open ${register.name}'s drawer with a float first`, code: "DRAWER_NOT_OPEN" };
+  }
+  return { success: true, data: session.id };
+}
+
+// Mid-shift movements: drops, pickups, paid-ins and paid-outs
+
+export async function recordDrawerMovement(
+  sessionId: number,
+  input: DrawerMovementInput,
+  cashierId: number | null,
+  executor: TillWriter = db,
+): Promise<TillResult<CashMovement>> {
+  return executor.transaction(async (tx) => {
+    // Locked so the drawer cannot be counted while the movement is going in
+    const [session] = await tx.select().from(drawerSessions).where(eq(drawerSessions.id, sessionId)).for("update");
+    if (!session) return { success: false, message: "Drawer session not found", code: "NOT_FOUND" };
+    if (session.status !== "open") {
+      return { success: false, message: "This drawer has been counted; open it again to move cash", code: "DRAWER_NOT_OPEN" };
+    }
+
+    const [movement] = await tx
+      .insert(cashMovements)
+      .values({
+        dayOperationId: session.dayOperationId,
+        drawerSessionId: session.id,
+        type: input.type,
+        reasonCode: input.reasonCode,
+        amount: input.amount.toFixed(2),
+        paymentMethod: "cash",
+        direction: drawerMovementDirection(input.type),
+        description: drawerMovementDescription(input),
+        reference: input.reference ?? null,
+        cashierId,
+      })
+      .returning();
+    return { success: true, data: movement };
+  });
+}
+
+export async function getDrawerMovements(sessionId: number): Promise<CashMovement[]> {
+  return db
+    .select()
+    .from(cashMovements)
+    .where(eq(cashMovements.drawerSessionId, sessionId))
+    .orderBy(asc(cashMovements.createdAt));
+}
+
+/**
+ * Whether the register's open drawer has passed its ceiling. Only the yes/no
+ * leaves the server, so the prompt does not give away the blind count.
+ */
+export async function getDrawerCeilingStatus(
+  registerId: number,
+): Promise<{ sessionId: number | null; hasCeiling: boolean; overCeiling: boolean }> {
+  const register = await getRegister(registerId);
+  const cashCeiling = register?.cashCeiling ? parseFloat(register.cashCeiling) : null;
+  const session = await getOpenDrawerSession(registerId);
+  if (!session) return { sessionId: null, hasCeiling: cashCeiling !== null, overCeiling: false };
+
+  const expected = expectedDrawerCash(await getDrawerCash(session));
+  return { sessionId: session.id, hasCeiling: cashCeiling !== null, overCeiling: isOverCeiling(expected, cashCeiling) };
+}
+
+/** The day's drawer movements by kind, for the store-level day close. */
+export async function getDayDrawerMovements(dayOperationId: number): Promise<DrawerMovementTotals> {
+  const rows = await db
+    .select({ type: cashMovements.type, amount: sql<string>`SUM(${cashMovements.amount})` })
+    .from(cashMovements)
+    .where(
+      and(
+        eq(cashMovements.dayOperationId, dayOperationId),
+        inArray(cashMovements.type, [...DRAWER_MOVEMENT_TYPES]),
+        eq(cashMovements.paymentMethod, "cash"),
+      ),
+    )
+    .groupBy(cashMovements.type);
+  return totalDrawerMovements(rows);
+}
+
+/** Every drawer session of a day with its own variance, for the store's day close. */
+export async function getDayDrawers(dayOperationId: number): Promise<DrawerRollUp> {
+  const sessions = await getDrawerSessions({ dayOperationId });
+  const registerIds = Array.from(new Set(sessions.map((session) => session.registerId)));
+  const named = registerIds.length > 0
+    ? await db.select({ id: registers.id, name: registers.name }).from(registers).where(inArray(registers.id, registerIds))
+    : [];
+  return rollUpDrawers(sessions, named);
+}
+
+// Denomination sets and per-currency cash counts
+
+/** Every supported currency's notes and coins, configured sets taking the place of the defaults. */
+export async function getDenominationSets(): Promise<Record<string, Denomination[]>> {
+  const sets: Record<string, Denomination[]> = { ...DEFAULT_DENOMINATIONS };
+  for (const row of await db.select().from(denominationSets)) {
+    sets[row.currency] = row.denominations as Denomination[];
+  }
+  return sets;
+}
+
+export async function getDenominationSet(currency: string): Promise<DenominationSet | undefined> {
+  const [set] = await db.select().from(denominationSets).where(eq(denominationSets.currency, currency));
+  return set;
+}
+
+export async function saveDenominationSet(currency: string, denominations: Denomination[], updatedBy: number | null, executor: TillWriter = db): Promise<DenominationSet> {
+  const [saved] = await executor
+    .insert(denominationSets)
+    .values({ currency, denominations, updatedBy })
+    .onConflictDoUpdate({ target: denominationSets.currency, set: { denominations, updatedBy, updatedAt: new Date() } })
+    .returning();
+  return saved;
+}
+
+export async function getCashCounts(dayOperationId: number, phase?: CashCountPhase): Promise<CashCount[]> {
+  return db
+    .select()
+    .from(cashCounts)
+    .where(phase ? and(eq(cashCounts.dayOperationId, dayOperationId), eq(cashCounts.phase, phase)) : eq(cashCounts.dayOperationId, dayOperationId))
+    .orderBy(asc(cashCounts.currency), desc(cashCounts.denomination));
+}
+
+/** Replaces the day's count for a phase; a recount is a new count, not an addition. */
+export async function saveCashCounts(dayOperationId: number, input: CashCountInput, countedBy: number | null): Promise<CashCount[]> {
+  return db.transaction(async (tx) => {
+    await tx.delete(cashCounts).where(and(eq(cashCounts.dayOperationId, dayOperationId), eq(cashCounts.phase, input.phase)));
+    const lines = input.lines.filter((line) => line.quantity > 0);
+    if (lines.length === 0) {
+      return [];
+    }
+    return tx
+      .insert(cashCounts)
+      .values(
+        lines.map((line) => ({
+          dayOperationId,
+          phase: input.phase,
+          currency: line.currency,
+          denomination: line.denomination.toString(),
+          quantity: line.quantity,
+          countedBy,
+        })),
+      )
+      .returning();
+  });
+}
+
+/**
+ * Starts the day holding the foreign cash the store's last closed day was
+ * counted with. The base currency's opening is the day's opening cash.
+ */
+export async function carryForeignCashForward(dayOperation: DayOperation): Promise<CashCount[]> {
+  const [previous] = await db
+    .select({ id: dayOperations.id })
+    .from(dayOperations)
+    .where(
+      and(
+        eq(dayOperations.storeId, dayOperation.storeId),
+        eq(dayOperations.status, "closed"),
+        lt(dayOperations.date, dayOperation.date),
+      ),
+    )
+    .orderBy(desc(dayOperations.date))
+    .limit(1);
+  if (!previous) {
+    return [];
+  }
+
+  const [store] = await db.select({ baseCurrency: stores.baseCurrency }).from(stores).where(eq(stores.id, dayOperation.storeId));
+  const closing = await db
+    .select()
+    .from(cashCounts)
+    .where(
+      and(
+        eq(cashCounts.dayOperationId, previous.id),
+        eq(cashCounts.phase, "closing"),
+        ne(cashCounts.currency, store?.baseCurrency ?? CURRENCIES.QAR),
+      ),
+    );
+  if (closing.length === 0) {
+    return [];
+  }
+
+  return db
+    .insert(cashCounts)
+    .values(
+      closing.map((line) => ({
+        dayOperationId: dayOperation.id,
+        phase: "opening",
+        currency: line.currency,
+        denomination: line.denomination,
+        quantity: line.quantity,
+        countedBy: line.countedBy,
+      })),
+    )
+    .onConflictDoNothing()
+    .returning();
+}
+
+export interface DayCurrencies {
+  baseCurrency: string;
+  date: string;
+  currencies: DayCurrencyCash[];
+}
+
+// Sales rung up in a drawer belong to the day that drawer was opened on; sales
+// rung up without a register have only their date to go by
+async function daySales(day: Pick<DayOperation, "id" | "storeId" | "date">) {
+  const sessions = await db
+    .select({ id: drawerSessions.id })
+    .from(drawerSessions)
+    .where(eq(drawerSessions.dayOperationId, day.id));
+  return or(
+    inArray(transactions.drawerSessionId, sessions.map((session) => session.id)),
+    and(
+      isNull(transactions.drawerSessionId),
+      eq(transactions.storeId, day.storeId),
+      sql`DATE(${transactions.createdAt}) = ${day.date}`,
+    ),
+  );
+}
+
+/**
+ * What each foreign currency's cash should come to on a day: its opening
+ * count plus the cash sales taken in it, with the rate in effect that day.
+ */
+export async function getDayCurrencyCash(dayOperationId: number): Promise<DayCurrencies | undefined> {
+  const [day] = await db
+    .select({ id: dayOperations.id, date: dayOperations.date, storeId: dayOperations.storeId, baseCurrency: stores.baseCurrency })
+    .from(dayOperations)
+    .innerJoin(stores, eq(stores.id, dayOperations.storeId))
+    .where(eq(dayOperations.id, dayOperationId));
+  if (!day) {
+    return undefined;
+  }
+
+  const opening = countTotals(
+    (await getCashCounts(dayOperationId, "opening")).map((line) => ({
+      currency: line.currency,
+      denomination: parseFloat(line.denomination),
+      quantity: line.quantity,
+    })),
+  );
+
+  const sales = await db
+    .select({
+      currency: transactions.currency,
+      total: sql<string>`COALESCE(SUM(${transactions.total}), 0)`,
+      inBase: sql<string>`COALESCE(SUM(COALESCE(${transactions.baseCurrencyTotal}, ${transactions.total})), 0)`,
+    })
+    .from(transactions)
+    .where(
+      and(
+        await daySales(day),
+        eq(transactions.paymentMethod, "cash"),
+        inArray(transactions.status, ["completed", "refunded"]),
+        ne(transactions.currency, day.baseCurrency),
+      ),
+    )
+    .groupBy(transactions.currency);
+
+  const rates = await db
+    .select()
+    .from(currencyRates)
+    .where(or(eq(currencyRates.toCurrency, day.baseCurrency), eq(currencyRates.fromCurrency, day.baseCurrency)));
+
+  const currencies = Object.values(CURRENCIES)
+    .filter((currency) => currency !== day.baseCurrency)
+    .map((currency) => {
+      const taken = sales.find((row) => row.currency === currency);
+      return {
+        currency,
+        opening: opening[currency] ?? 0,
+        cashSales: roundCurrency(parseFloat(taken?.total ?? "0"), currency),
+        cashSalesInBase: roundCurrency(parseFloat(taken?.inBase ?? "0"), day.baseCurrency),
+        rate: effectiveRate(rates, currency, day.baseCurrency, day.date),
+      };
+    });
+
+  return { baseCurrency: day.baseCurrency, date: day.date, currencies };
+}
+
+// Day-close reconciliation
+
+const byMethod = (rows: { method: string | null; total: string }[], card: (method: string | null) => boolean) =>
+  rows.reduce(
+    (totals, row) => {
+      totals[card(row.method) ? "card" : "cash"] += parseFloat(row.total);
+      return totals;
+    },
+    { cash: 0, card: 0 },
+  );
+
+/** Everything the close reconciles a day against, read from the day's own records. */
+export async function getDayRecords(dayOperationId: number): Promise<DayRecords | undefined> {
+  const [day] = await db.select().from(dayOperations).where(eq(dayOperations.id, dayOperationId));
+  if (!day) {
+    return undefined;
+  }
+  const onDay = (column: AnyColumn) => sql`DATE(${column}) = ${day.date}`;
+
+  const sales = await db
+    .select({
+      method: transactions.paymentMethod,
+      total: sql<string>`COALESCE(SUM(COALESCE(${transactions.baseCurrencyTotal}, ${transactions.total})), 0)`,
+      count: sql<number>`COUNT(*)::int`,
+    })
+    .from(transactions)
+    .where(and(await daySales(day), inArray(transactions.status, ["completed", "refunded"])))
+    .groupBy(transactions.paymentMethod);
+  const salesBy = { cash: 0, card: 0, credit: 0, split: 0 };
+  const salesCounts = { cash: 0, card: 0, credit: 0, split: 0 };
+  for (const row of sales) {
+    const method = row.method && row.method in salesBy ? (row.method as keyof typeof salesBy) : "split";
+    salesBy[method] += parseFloat(row.total);
+    salesCounts[method] += Number(row.count);
+  }
+
+  const currencies = await getDayCurrencyCash(dayOperationId);
+  const foreignCashSalesInBase = (currencies?.currencies ?? []).reduce((sum, currency) => sum + currency.cashSalesInBase, 0);
+
+  const saleRefunds = await db
+    .select({ method: returns.refundMethod, total: sql<string>`COALESCE(SUM(${returns.totalRefund}), 0)` })
+    .from(returns)
+    .where(and(eq(returns.dayOperationId, day.id), inArray(returns.refundMethod, ["cash", "card"])))
+    .groupBy(returns.refundMethod);
+
+  // Payments on account are not always tied to a sale, so the store comes from the customer then
+  const credit = await db
+    .select({
+      type: creditTransactions.type,
+      method: creditTransactions.paymentMethod,
+      total: sql<string>`COALESCE(SUM(${creditTransactions.amount}), 0)`,
+    })
+    .from(creditTransactions)
+    .innerJoin(customers, eq(customers.id, creditTransactions.customerId))
+    .leftJoin(transactions, eq(transactions.id, creditTransactions.transactionId))
+    .where(
+      and(
+        inArray(creditTransactions.type, ["payment", "refund"]),
+        onDay(creditTransactions.createdAt),
+        or(
+          eq(transactions.storeId, day.storeId),
+          and(isNull(creditTransactions.transactionId), eq(customers.storeId, day.storeId)),
+        ),
+      ),
+    )
+    .groupBy(creditTransactions.type, creditTransactions.paymentMethod);
+  const creditPayments = byMethod(
+    credit.filter((row) => row.type === "payment" && (row.method === "cash" || row.method === "card")),
+    (method) => method === "card",
+  );
+  const creditRefunds = byMethod(
+    credit.filter((row) => row.type === "refund"),
+    (method) => method === "card",
+  );
+
+  const supplier = await db
+    .select({ method: supplierPayments.paymentMethod, total: sql<string>`COALESCE(SUM(${supplierPayments.amount}), 0)` })
+    .from(supplierPayments)
+    .where(
+      and(
+        eq(supplierPayments.storeId, day.storeId),
+        onDay(supplierPayments.paymentDate),
+        inArray(supplierPayments.paymentMethod, ["cash", "card"]),
+      ),
+    )
+    .groupBy(supplierPayments.paymentMethod);
+
+  const recorded = await db
+    .select({
+      type: cashMovements.type,
+      paymentMethod: cashMovements.paymentMethod,
+      direction: cashMovements.direction,
+      amount: cashMovements.amount,
+    })
+    .from(cashMovements)
+    .where(and(eq(cashMovements.dayOperationId, day.id), isNull(cashMovements.drawerSessionId)));
+
+  return {
+    openingCash: parseFloat(day.openingCash ?? "0"),
+    openingBankBalance: parseFloat(day.openingBankBalance ?? "0"),
+    sales: salesBy,
+    salesCounts,
+    foreignCashSalesInBase,
+    saleRefunds: byMethod(saleRefunds, (method) => method === "card"),
+    creditPayments,
+    creditRefunds,
+    supplierPayments: byMethod(supplier, (method) => method === "card"),
+    drawer: await getDayDrawerMovements(day.id),
+    recorded: totalRecordedMovements(recorded),
+  };
+}
+
+/** What the day should close at, given the movements the close form declares. */
+export async function previewDayClose(dayOperationId: number, declared: DeclaredMovements): Promise<DayCloseReconciliation | undefined> {
+  const records = await getDayRecords(dayOperationId);
+  return records && reconcileDay(records, declared);
+}
+
+// No-sale drawer opens
+
+export async function recordNoSale(sessionId: number, reason: string | null, openedBy: number | null): Promise<TillResult<DrawerNoSale>> {
+  const session = await getDrawerSession(sessionId);
+  if (!session) return { success: false, message: "Drawer session not found", code: "NOT_FOUND" };
+  if (session.status !== "open") return { success: false, message: "This drawer has been counted", code: "DRAWER_NOT_OPEN" };
+
+  const [noSale] = await db
+    .insert(drawerNoSales)
+    .values({ storeId: session.storeId, registerId: session.registerId, drawerSessionId: session.id, reason, openedBy })
+    .returning();
+  return { success: true, data: noSale };
+}
+
+// X and Z reports
+
+export interface TillReportScope {
+  dayOperationId: number;
+  registerId?: number | null; // Without one the report covers the store's whole day
+}
+
+interface ScopedReport {
+  report: TillReport;
+  day: DayOperation;
+  sessions: DrawerSession[];
+}
+
+// Sales rung up in another currency are reported at their base-currency value
+const toBase = (column: AnyColumn) =>
+  sql<string>`${column} * COALESCE(${transactions.baseCurrencyTotal} / NULLIF(${transactions.total}, 0), 1)`;
+
+/** Gathers a day's or one register's sales, refunds and drawer activity and builds the report. */
+async function buildScopedReport(
+  scope: TillReportScope,
+  header: { kind: TillReportKind; number: string | null },
+  executor: TillExecutor = db,
+): Promise<TillResult<ScopedReport>> {
+  const [day] = await executor.select().from(dayOperations).where(eq(dayOperations.id, scope.dayOperationId));
+  if (!day) return { success: false, message: "Day operation not found", code: "NOT_FOUND" };
+  const [store] = await executor
+    .select({ id: stores.id, name: stores.name, baseCurrency: stores.baseCurrency })
+    .from(stores)
+    .where(eq(stores.id, day.storeId));
+
+  let register: Register | undefined;
+  if (scope.registerId) {
+    [register] = await executor.select().from(registers).where(eq(registers.id, scope.registerId));
+    if (!register || register.storeId !== day.storeId) {
+      return { success: false, message: "Register not found in this store", code: "NOT_FOUND" };
+    }
+  }
+
+  const sessions = await executor
+    .select()
+    .from(drawerSessions)
+    .where(
+      register
+        ? and(eq(drawerSessions.dayOperationId, day.id), eq(drawerSessions.registerId, register.id))
+        : eq(drawerSessions.dayOperationId, day.id),
+    );
+  const sessionIds = sessions.map((session) => session.id);
+
+  // A register's report covers its drawers; the day's covers every sale on the date
+  const saleScope = register
+    ? inArray(transactions.drawerSessionId, sessionIds)
+    : and(eq(transactions.storeId, day.storeId), sql`DATE(${transactions.createdAt}) = ${day.date}`);
+  const empty = register !== undefined && sessionIds.length === 0;
+
+  const sales = empty
+    ? []
+    : await executor
+        .select({
+          status: transactions.status,
+          paymentMethod: transactions.paymentMethod,
+          subtotal: toBase(transactions.subtotal),
+          discountAmount: toBase(transactions.discountAmount),
+          promotionDiscountAmount: toBase(transactions.promotionDiscountAmount),
+          vatAmount: toBase(transactions.vatAmount),
+          total: sql<string>`COALESCE(${transactions.baseCurrencyTotal}, ${transactions.total})`,
+        })
+        .from(transactions)
+        .where(and(saleScope, inArray(transactions.status, ["completed", "refunded", "voided"])));
+
+  const saleLines = empty
+    ? []
+    : await executor
+        .select({
+          vatRate: transactionItems.vatRate,
+          total: toBase(transactionItems.total),
+          vatAmount: toBase(transactionItems.vatAmount),
+        })
+        .from(transactionItems)
+        .innerJoin(transactions, eq(transactions.id, transactionItems.transactionId))
+        .where(and(saleScope, inArray(transactions.status, ["completed", "refunded"])));
+
+  const refunds = empty
+    ? []
+    : await executor
+        .select({
+          refundMethod: returns.refundMethod,
+          subtotal: returns.subtotal,
+          vatAmount: returns.vatAmount,
+          totalRefund: returns.totalRefund,
+        })
+        .from(returns)
+        .where(register ? inArray(returns.drawerSessionId, sessionIds) : eq(returns.dayOperationId, day.id));
+
+  const movements = empty
+    ? []
+    : await executor
+        .select({ type: cashMovements.type, amount: cashMovements.amount })
+        .from(cashMovements)
+        .where(
+          and(
+            register ? inArray(cashMovements.drawerSessionId, sessionIds) : eq(cashMovements.dayOperationId, day.id),
+            inArray(cashMovements.type, [...DRAWER_MOVEMENT_TYPES]),
+            eq(cashMovements.paymentMethod, "cash"),
+          ),
+        );
+
+  const [noSales] = sessionIds.length === 0
+    ? [{ count: 0 }]
+    : await executor
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(drawerNoSales)
+        .where(inArray(drawerNoSales.drawerSessionId, sessionIds));
+
+  const report = buildTillReport(
+    {
+      ...header,
+      store: { id: day.storeId, name: store?.name ?? "" },
+      register: register ? { id: register.id, name: register.name } : null,
+      date: day.date,
+      currency: store?.baseCurrency ?? CURRENCIES.QAR,
+      generatedAt: new Date().toISOString(),
+    },
+    { sales, saleLines, refunds, cashMovements: totalDrawerMovements(movements), noSales: noSales?.count ?? 0 },
+  );
+  return { success: true, data: { report, day, sessions } };
+}
+
+/** A mid-day X report: read as often as needed, never stored and never numbered. */
+export async function getXReport(scope: TillReportScope): Promise<TillResult<TillReport>> {
+  const built = await buildScopedReport(scope, { kind: "x", number: null });
+  return built.success ? { success: true, data: built.data.report } : built;
+}
+
+/**
+ * Issues the Z report for a closed register or day under the next number in
+ * its sequence. Each register and each store's day reports count separately;
+ * a scope gets one Z per day, and an issued Z is never changed.
+ */
+export async function issueZReport(scope: TillReportScope, issuedBy: number | null, executor: TillWriter = db): Promise<TillResult<ZReport>> {
+  try {
+    return await executor.transaction(async (tx) => {
+      // Locking the day keeps two managers from issuing its reports at once
+      const [day] = await tx.select().from(dayOperations).where(eq(dayOperations.id, scope.dayOperationId)).for("update");
+      if (!day) return { success: false, message: "Day operation not found", code: "NOT_FOUND" };
+      const registerId = scope.registerId ?? null;
+
+      const [existing] = await tx
+        .select({ zNumber: zReports.zNumber })
+        .from(zReports)
+        .where(and(eq(zReports.dayOperationId, day.id), registerId ? eq(zReports.registerId, registerId) : isNull(zReports.registerId)));
+      if (existing) {
+        return { success: false, message: `${zReportNumber(existing.zNumber)} has already been issued for this`, code: "CONFLICT" };
+      }
+
+      const [last] = await tx
+        .select({ zNumber: sql<number>`COALESCE(MAX(${zReports.zNumber}), 0)::int` })
+        .from(zReports)
+        .where(and(eq(zReports.storeId, day.storeId), registerId ? eq(zReports.registerId, registerId) : isNull(zReports.registerId)));
+      const zNumber = (last?.zNumber ?? 0) + 1;
+
+      const built = await buildScopedReport({ dayOperationId: day.id, registerId }, { kind: "z", number: zReportNumber(zNumber) }, tx);
+      if (!built.success) return built;
+
+      if (registerId) {
+        if (built.data.sessions.length === 0) {
+          return { success: false, message: `${built.data.report.register?.name} had no drawer open on this day` };
+        }
+        if (built.data.sessions.some((session) => session.status !== "closed")) {
+          return { success: false, message: `Count ${built.data.report.register?.name}'s drawer before its Z report`, code: "DRAWER_NOT_OPEN" };
+        }
+      } else if (day.status !== "closed") {
+        return { success: false, message: "Close the day before issuing its Z report" };
+      }
+
+      const [issued] = await tx
+        .insert(zReports)
+        .values({ storeId: day.storeId, registerId, dayOperationId: day.id, zNumber, content: built.data.report, issuedBy })
+        .returning();
+      return { success: true, data: issued };
+    });
+  } catch (error) {
+    // Another day of the same store took the number first
+    if (isUniqueViolation(error)) {
+      return { success: false, message: "Another Z report was issued at the same time; try again", code: "CONFLICT" };
+    }
+    throw error;
+  }
+}
+
+export async function getZReports(filters: { storeId?: number; storeIds?: number[]; dayOperationId?: number }): Promise<ZReport[]> {
+  const conditions = [
+    filters.storeId ? eq(zReports.storeId, filters.storeId) : undefined,
+    filters.storeIds ? inArray(zReports.storeId, filters.storeIds) : undefined,
+    filters.dayOperationId ? eq(zReports.dayOperationId, filters.dayOperationId) : undefined,
+  ].filter((condition) => condition !== undefined);
+
+  return db
+    .select()
+    .from(zReports)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(zReports.issuedAt));
+}
+
+export async function getZReport(id: number): Promise<ZReport | undefined> {
+  const [report] = await db.select().from(zReports).where(eq(zReports.id, id));
+  return report;
+}
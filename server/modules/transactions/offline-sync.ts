@@ -0,0 +1,163 @@
+import { z } from "zod";
+
+import type { ApprovalAction, Transaction, TransactionItem } from "@shared/schema";
+
+export const MAX_SYNC_BATCH_SIZE = 200;
+
+const amount = z.union([z.string(), z.number()]).nullable().optional();
+const text = z.string().nullable().optional();
+
+const offlineSaleItemSchema = z.object({
+  productId: z.coerce.number().int().positive().max(2147483647).nullable().optional(),
+  // In the line's unit; weighed goods come in part units
+  quantity: z.coerce.number().positive(),
+  unit: text,
+  unitPrice: amount,
+  price: amount,
+  total: amount,
+  vatRate: amount,
+  vatAmount: amount,
+  discountAmount: amount,
+  originalUnitPrice: amount,
+  promotionId: z.coerce.number().int().positive().nullable().optional(),
+});
+
+// A sale captured by the POS while offline. The payload mirrors the body of
+// POST /api/transactions, plus the key the client generated at checkout.
+// Anything else is dropped; in particular the cashier is whoever syncs it.
+export const offlineSaleSchema = z.object({
+  idempotencyKey: z.string().trim().min(8).max(128),
+  storeId: z.coerce.number().int().positive(),
+  capturedAt: z.coerce.date(),
+  customerId: z.coerce.number().int().positive().nullable().optional(),
+  paymentMethod: z.string().nullable().optional(),
+  // The register the sale was rung up on, for its drawer's cash
+  registerId: z.coerce.number().int().positive().nullable().optional(),
+  subtotal: amount,
+  tax: amount,
+  vatAmount: amount,
+  discountAmount: amount,
+  promotionDiscountAmount: amount,
+  total: amount,
+  status: text,
+  cashTendered: amount,
+  cardType: text,
+  cardLast4: text,
+  authCode: text,
+  currency: text,
+  exchangeRate: amount,
+  baseCurrencyTotal: amount,
+  orderType: text,
+  deliveryAddress: text,
+  deliveryNotes: text,
+  // Checked again by readSaleRedemption and the approval check before the sale is recorded
+  couponCode: text,
+  appliedPromotions: z.array(z.unknown()).optional(),
+  approvalToken: text,
+  approvalTokens: z.array(z.string()).optional(),
+  items: z.array(offlineSaleItemSchema).min(1),
+});
+
+export const offlineSyncRequestSchema = z.object({
+  sales: z.array(z.unknown()).min(1).max(MAX_SYNC_BATCH_SIZE),
+});
+
+export type OfflineSale = z.infer<typeof offlineSaleSchema>;
+
+export type OfflineSaleConflictCode =
+  | "INVALID_SALE"
+  | "STORE_NOT_ACCESSIBLE"
+  | "DAY_NOT_OPEN"
+  | "DAY_CLOSED"
+  | "DATE_MISMATCH"
+  | "PRODUCT_NOT_FOUND"
+  | "PRODUCT_INACTIVE"
+  | "CUSTOMER_NOT_FOUND"
+  | "PROMOTION_UNAVAILABLE"
+  | "APPROVAL_REQUIRED";
+
+export interface OfflineSaleConflict {
+  code: OfflineSaleConflictCode;
+  message: string;
+  productId?: number;
+  // What a manager has to approve before the sale can be retried
+  approval?: { action: ApprovalAction; amount: number; transactionId: number | null };
+}
+
+export type OfflineSaleResult =
+  | { idempotencyKey: string; status: "created"; transaction: Transaction; transactionItems: TransactionItem[] }
+  | { idempotencyKey: string; status: "duplicate"; transaction: Transaction }
+  | { idempotencyKey: string | null; status: "conflict"; conflicts: OfflineSaleConflict[] }
+  // Unexpected server failure; the client keeps the sale queued and retries
+  | { idempotencyKey: string | null; status: "failed"; message: string };
+
+export interface OfflineSaleContext {
+  saleDate: string;
+  openDay?: { date: string } | null;
+  dayForSaleDate?: { status: string } | null;
+  products: Array<{ id: number; name: string; isActive: boolean | null; storeActive: boolean | null }>;
+  customerFound: boolean;
+}
+
+/**
+ * Decides whether an offline sale can still be recorded, returning every
+ * reason it cannot so the cashier sees the full picture in one pass.
+ */
+export function evaluateOfflineSale(sale: OfflineSale, context: OfflineSaleContext): OfflineSaleConflict[] {
+  const conflicts: OfflineSaleConflict[] = [];
+
+  if (context.dayForSaleDate?.status === "closed") {
+    conflicts.push({
+      code: "DAY_CLOSED",
+      message: `The day for ${context.saleDate} was closed before this sale was synced. Reopen the day to record it.`,
+    });
+  } else if (!context.openDay) {
+    conflicts.push({
+      code: "DAY_NOT_OPEN",
+      message: "No day operation is currently open for this store.",
+    });
+  } else if (context.openDay.date !== context.saleDate) {
+    conflicts.push({
+      code: "DATE_MISMATCH",
+      message: `Sale was captured on ${context.saleDate} but the open day is ${context.openDay.date}.`,
+    });
+  }
+
+  const productsById = new Map(context.products.map((product) => [product.id, product]));
+  const checked = new Set<number>();
+  for (const item of sale.items) {
+    if (!item.productId || checked.has(item.productId)) {
+      continue;
+    }
+    checked.add(item.productId);
+
+    const product = productsById.get(item.productId);
+    if (!product) {
+      conflicts.push({
+        code: "PRODUCT_NOT_FOUND",
+        message: `Product ${item.productId} no longer exists.`,
+        productId: item.productId,
+      });
+    } else if (product.isActive === false || product.storeActive === false) {
+      conflicts.push({
+        code: "PRODUCT_INACTIVE",
+        message: `${product.name} has been deactivated since this sale was captured.`,
+        productId: item.productId,
+      });
+    }
+  }
+
+  if (sale.customerId && !context.customerFound) {
+    conflicts.push({
+      code: "CUSTOMER_NOT_FOUND",
+      message: `Customer ${sale.customerId} no longer exists.`,
+    });
+  } else if (sale.paymentMethod === "credit" && !sale.customerId) {
+    conflicts.push({
+      code: "CUSTOMER_NOT_FOUND",
+      message: "Credit sales require a customer.",
+    });
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,58 @@
+import type { Express } from "express";
+import { storage } from "../../storage";
+import { isAuthenticated } from "../../auth";
+import { requirePermission } from "../shared/authorization";
+import { offlineSyncRequestSchema, type OfflineSaleResult } from "./offline-sync";
+import { syncOfflineSale } from "./service";
+
+export function registerTransactionRoutes(app: Express) {
+  // Bulk replay of sales captured while the POS was offline
+  app.post("/api/transactions/sync", isAuthenticated, requirePermission("transactions", "create"), async (req, res) => {
+    try {
+      const parsed = offlineSyncRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid sync payload",
+          errors: parsed.error.errors,
+        });
+      }
+
+      const user = req.user as any;
+      const accessibleStores = await storage.getUserAccessibleStores(user.id);
+      const options = {
+        accessibleStoreIds: new Set(accessibleStores.map((store) => store.id)),
+        user: { id: user.id, role: user.role },
+      };
+
+      // Sales are replayed in capture order so stock and credit balances
+      // move the same way they would have online.
+      const results: OfflineSaleResult[] = [];
+      for (const sale of parsed.data.sales) {
+        try {
+          results.push(await syncOfflineSale(sale, options));
+        } catch (error) {
+          console.error("Offline sale sync error:", error);
+          const key = (sale as { idempotencyKey?: unknown } | null)?.idempotencyKey;
+          results.push({
+            idempotencyKey: typeof key === "string" ? key : null,
+            status: "failed",
+            message: "The server could not record this sale",
+          });
+        }
+      }
+
+      res.json({
+        results,
+        summary: {
+          created: results.filter((result) => result.status === "created").length,
+          duplicates: results.filter((result) => result.status === "duplicate").length,
+          conflicts: results.filter((result) => result.status === "conflict").length,
+          failed: results.filter((result) => result.status === "failed").length,
+        },
+      });
+    } catch (error) {
+      console.error("Offline sync error:", error);
+      res.status(500).json({ message: "Failed to sync offline sales", error });
+    }
+  });
+}
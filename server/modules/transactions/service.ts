@@ -0,0 +1,180 @@
+import { z } from "zod";
+
+import { insertTransactionItemSchema, insertTransactionSchema } from "@shared/schema";
+import { storage } from "../../storage";
+import { readApprovalTokens } from "../approvals/approvals";
+import { enforceSaleApprovals } from "../approvals/service";
+import { PromotionUnavailableError, readSaleRedemption } from "../promotion/coupons";
+import { formatDateInTimezone, resolveStoreTimezone } from "../shared/store-time";
+import {
+  evaluateOfflineSale,
+  offlineSaleSchema,
+  type OfflineSaleConflict,
+  type OfflineSaleResult,
+} from "./offline-sync";
+
+interface SyncOfflineSaleOptions {
+  accessibleStoreIds: Set<number>;
+  // The signed-in user, who is recorded as the sale's cashier
+  user: Pick<Express.User, "id" | "role">;
+}
+
+const MAX_NUMBER_ATTEMPTS = 3;
+
+const syncedItemSchema = insertTransactionItemSchema.omit({ transactionId: true });
+
+function conflict(idempotencyKey: string | null, conflicts: OfflineSaleConflict[]): OfflineSaleResult {
+  return { idempotencyKey, status: "conflict", conflicts };
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", ");
+}
+
+/** Whether a write failed only because another till took its transaction number. */
+export function isTransactionNumberCollision(error: unknown): boolean {
+  const pgError = error as { code?: string; constraint?: string } | null;
+  return pgError?.code === "23505" && (pgError.constraint ?? "").includes("transaction_number");
+}
+
+/**
+ * Replays one sale captured while the POS was offline. Sales already
+ * recorded under the same idempotency key are reported as duplicates;
+ * sales that can no longer be accepted are reported as conflicts rather
+ * than failing the whole batch.
+ */
+export async function syncOfflineSale(
+  rawSale: unknown,
+  options: SyncOfflineSaleOptions,
+): Promise<OfflineSaleResult> {
+  const rawKey = (rawSale as { idempotencyKey?: unknown } | null)?.idempotencyKey;
+  const parsed = offlineSaleSchema.safeParse(rawSale);
+  if (!parsed.success) {
+    return conflict(typeof rawKey === "string" ? rawKey : null, [
+      { code: "INVALID_SALE", message: describeIssues(parsed.error) },
+    ]);
+  }
+
+  const sale = parsed.data;
+  const existing = await storage.getTransactionByIdempotencyKey(sale.idempotencyKey);
+  if (existing) {
+    return { idempotencyKey: sale.idempotencyKey, status: "duplicate", transaction: existing };
+  }
+
+  const store = options.accessibleStoreIds.has(sale.storeId) ? await storage.getStore(sale.storeId) : undefined;
+  if (!store) {
+    return conflict(sale.idempotencyKey, [
+      { code: "STORE_NOT_ACCESSIBLE", message: `You do not have access to store ${sale.storeId}.` },
+    ]);
+  }
+
+  const saleDate = formatDateInTimezone(sale.capturedAt, resolveStoreTimezone(store));
+  const productIds = Array.from(
+    new Set(sale.items.map((item) => item.productId).filter((id): id is number => !!id)),
+  );
+  const [openDay, dayForSaleDate, products, customer] = await Promise.all([
+    storage.getOpenDayOperation(sale.storeId),
+    storage.getDayOperationByDate(saleDate, sale.storeId),
+    storage.getProductsForSale(sale.storeId, productIds),
+    sale.customerId ? storage.getCustomer(sale.customerId) : Promise.resolve(undefined),
+  ]);
+
+  const conflicts = evaluateOfflineSale(sale, {
+    saleDate,
+    openDay,
+    dayForSaleDate,
+    products,
+    customerFound: !!customer,
+  });
+  if (conflicts.length > 0) {
+    return conflict(sale.idempotencyKey, conflicts);
+  }
+
+  const redemption = readSaleRedemption(sale, sale.storeId);
+  if (!redemption) {
+    return conflict(sale.idempotencyKey, [{ code: "INVALID_SALE", message: "Invalid coupon or promotion details" }]);
+  }
+  const redemptionRejection =
+    (await storage.checkPromotionRedemption(redemption)) ??
+    (await storage.checkPromotionPricing(redemption, sale.items, parseFloat(String(sale.promotionDiscountAmount ?? 0)) || 0));
+  if (redemptionRejection) {
+    return conflict(sale.idempotencyKey, [{ code: "PROMOTION_UNAVAILABLE", message: redemptionRejection.message }]);
+  }
+
+  const items = [];
+  for (const item of sale.items) {
+    const parsedItem = syncedItemSchema.safeParse({
+      ...item,
+      productId: item.productId ?? null,
+      quantity: String(item.quantity),
+      unitPrice: String(item.unitPrice ?? item.price ?? 0),
+      total: String(item.total ?? 0),
+    });
+    if (!parsedItem.success) {
+      return conflict(sale.idempotencyKey, [{ code: "INVALID_SALE", message: describeIssues(parsedItem.error) }]);
+    }
+    items.push(parsedItem.data);
+  }
+
+  // Manual discounts and below-price lines need a manager offline too. With no
+  // usable approval the sale waits as a conflict until one is given and it is retried
+  const approvalRejection = await enforceSaleApprovals(options.user, sale.storeId, sale, readApprovalTokens(sale));
+  if (approvalRejection) {
+    return conflict(sale.idempotencyKey, [
+      {
+        code: "APPROVAL_REQUIRED",
+        message: approvalRejection.message,
+        approval: {
+          action: approvalRejection.action,
+          amount: approvalRejection.amount,
+          transactionId: approvalRejection.transactionId,
+        },
+      },
+    ]);
+  }
+
+  // Cash taken offline goes into the register's drawer if it is still open;
+  // otherwise it is only counted at store level
+  const drawer = await storage.resolveDrawerSession(sale.storeId, sale.registerId);
+
+  for (let attempt = 1; ; attempt++) {
+    const parsedTransaction = insertTransactionSchema.safeParse({
+      ...sale,
+      drawerSessionId: drawer.success ? drawer.data : null,
+      cashierId: options.user.id,
+      transactionNumber: await storage.generateTransactionNumber(),
+    });
+    if (!parsedTransaction.success) {
+      return conflict(sale.idempotencyKey, [
+        { code: "INVALID_SALE", message: describeIssues(parsedTransaction.error) },
+      ]);
+    }
+
+    try {
+      const result = await storage.createSyncedSale(
+        { ...parsedTransaction.data, idempotencyKey: sale.idempotencyKey, createdAt: sale.capturedAt },
+        items,
+        redemption,
+      );
+
+      return result.duplicate
+        ? { idempotencyKey: sale.idempotencyKey, status: "duplicate", transaction: result.transaction }
+        : {
+            idempotencyKey: sale.idempotencyKey,
+            status: "created",
+            transaction: result.transaction,
+            transactionItems: result.transactionItems,
+          };
+    } catch (error) {
+      // Used up by another till since the check above; nothing was written
+      if (error instanceof PromotionUnavailableError) {
+        return conflict(sale.idempotencyKey, [{ code: "PROMOTION_UNAVAILABLE", message: error.message }]);
+      }
+      if (attempt < MAX_NUMBER_ATTEMPTS && isTransactionNumberCollision(error)) {
+        console.log(`Duplicate transaction number while syncing ${sale.idempotencyKey}, retrying (attempt ${attempt})`);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
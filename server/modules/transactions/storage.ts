@@ -1,5 +1,5 @@
-import { and, desc, eq, sql } from "drizzle-orm";
-
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import {
   InsertTransaction,
   InsertTransactionItem,
@@ -8,17 +8,42 @@ import {
   transactionItems,
   transactions,
   products,
+  storeProducts,
+  customers,
+  creditTransactions,
+  returns,
+  RefundMethod,
 } from "@shared/schema";
 
 import { db } from "../../db";
 import * as productStorage from "../products/storage";
+import * as returnStorage from "../returns/storage";
+import * as inventoryStorage from "../inventory/storage";
+import * as promotionStorage from "../promotion/storage";
+import { PromotionUnavailableError, type CouponRejectionCode, type PromotionRedemption } from "../promotion/coupons";
+import { InsufficientStockError, type StockShortage } from "../inventory/ledger";
+import type { SalesReportQuery, SoldLine } from "../inventory/costing";
+import { baseUnitOf, checkQuantity, lineBaseQuantity, resolveUnit } from "@shared/units";
+
+export type CreateSaleResult =
+  // duplicate: another request already recorded the sale's idempotency key; this is that sale
+  | { success: true; transaction: Transaction; transactionItems: TransactionItem[]; duplicate: boolean }
+  | { success: false; message: string; code: "INSUFFICIENT_STOCK"; details: StockShortage }
+  | { success: false; message: string; code: "INVALID_UNIT"; details: { productId: number; unit: string | null } }
+  | { success: false; message: string; code: "PROMOTION_UNAVAILABLE"; details: { reason: CouponRejectionCode } };
+
+type SaleItemInput = Omit<InsertTransactionItem, "transactionId">;
+
+// A list of stores narrows the result to those stores (none of them: no rows)
+export async function getTransactions(storeId?: number | number[]): Promise<Transaction[]> {
+  if (Array.isArray(storeId)) {
+    return await db
+      .select()
+      .from(transactions)
+      .where(inArray(transactions.storeId, storeId))
+      .orderBy(desc(transactions.createdAt));
+  }
 
-// Type for storage instance with updateStoreProductStock method
-type StorageWithStoreProductStock = {
-  updateStoreProductStock: (storeId: number, productId: number, quantity: number, operation: 'add' | 'subtract' | 'set') => Promise<any>;
-};
-
-export async function getTransactions(storeId?: number): Promise<Transaction[]> {
   if (storeId) {
     return await db
       .select()
@@ -30,8 +55,8 @@ export async function getTransactions(storeId?: number): Promise<Transaction[]>
   return await db.select().from(transactions).orderBy(desc(transactions.createdAt));
 }
 
-export async function getTransaction(id: number): Promise<Transaction | undefined> {
-  const [transaction] = await db
+export async function getTransaction(id: number, executor: Pick<typeof db, "select"> = db): Promise<Transaction | undefined> {
+  const [transaction] = await executor
     .select()
     .from(transactions)
     .where(eq(transactions.id, id));
@@ -39,6 +64,17 @@ export async function getTransaction(id: number): Promise<Transaction | undefine
   return transaction || undefined;
 }
 
+export async function getTransactionByIdempotencyKey(
+  idempotencyKey: string,
+): Promise<Transaction | undefined> {
+  const [transaction] = await db
+    .select()
+    .from(transactions)
+    .where(eq(transactions.idempotencyKey, idempotencyKey));
+
+  return transaction || undefined;
+}
+
 export async function createTransaction(
   insertTransaction: InsertTransaction,
 ): Promise<Transaction> {
@@ -61,21 +97,34 @@ export async function updateTransaction(
   return updatedTransaction || undefined;
 }
 
-type RefundPayload = {
+export type RefundPayload = {
   reason: string;
   refundAmount: number;
   refundedBy: number;
   refundedAt: Date;
+  refundMethod?: RefundMethod;
+  reasonCode?: string;
+  restock?: boolean;
+  drawerSessionId?: number | null;
+  authorize?: returnStorage.ReturnAuthorizer;
 };
 
+/**
+ * Refunds everything still returnable on a sale by recording a return that
+ * covers the remaining quantity of every line. Partial refunds go through
+ * `createReturn` with explicit line items.
+ */
 export async function refundTransaction(
   id: number,
   refundData: RefundPayload,
-  storage?: StorageWithStoreProductStock,
+  executor: Pick<typeof db, "select" | "transaction"> = db,
 ): Promise<{
   success: boolean;
   message: string;
+  code?: string;
+  details?: Record<string, unknown>;
   refundedTransaction?: Transaction;
+  return?: returnStorage.ReturnWithItems;
 }> {
   try {
     const originalTransaction = await getTransaction(id);
@@ -91,65 +140,40 @@ export async function refundTransaction(
       return { success: false, message: "Cannot refund a voided transaction" };
     }
 
-    const totalAmount = parseFloat(originalTransaction.total);
-    if (refundData.refundAmount > totalAmount) {
+    const returnable = (await returnStorage.getReturnableItems(id)) ?? [];
+    const remaining = returnable.filter((item) => item.remainingQuantity > 0);
+    const remainingAmount = remaining.reduce((sum, item) => sum + item.refundableAmount, 0);
+    if (refundData.refundAmount - remainingAmount > 0.005) {
       return {
         success: false,
         message: "Refund amount cannot exceed transaction total",
       };
     }
 
-    const [refundedTransaction] = await db
-      .update(transactions)
-      .set({
-        status: "refunded",
-        // Note: refundReason, refundAmount, refundedBy, refundedAt fields don't exist in schema
-        // These would need to be added to the schema if needed
-      })
-      .where(eq(transactions.id, id))
-      .returning();
-
-    const items = await getTransactionItems(id);
-    const storeId = originalTransaction.storeId;
-    
-    for (const item of items) {
-      // Check if productId exists before fetching product
-      if (!item.productId) continue;
-      
-      const product = await productStorage.getProduct(item.productId);
-      if (!product) {
-        continue;
-      }
-
-      // Update product stock and quantity
-      const newStock = (product.stock || 0) + item.quantity;
-      const newQuantity = (product.quantity || 0) + item.quantity;
-      await productStorage.updateProduct(item.productId, { 
-        stock: newStock,
-        quantity: newQuantity
-      });
-
-      // Also update storeProductStock if storage is provided
-      if (storage && storeId) {
-        try {
-          await storage.updateStoreProductStock(
-            storeId,
-            item.productId,
-            item.quantity,
-            'add'
-          );
-          console.log(`✅ Updated storeProductStock for product ${item.productId}: added ${item.quantity} units`);
-        } catch (storeStockError) {
-          console.error(`❌ Failed to update storeProductStock for product ${item.productId}:`, storeStockError);
-          // Continue even if storeProductStock update fails
-        }
-      }
+    const result = await returnStorage.createReturn({
+      transactionId: id,
+      reasonCode: refundData.reasonCode ?? "other",
+      notes: refundData.reason,
+      refundMethod: refundData.refundMethod ?? "cash",
+      processedBy: refundData.refundedBy,
+      drawerSessionId: refundData.drawerSessionId,
+      items: remaining.map((item) => ({
+        transactionItemId: item.transactionItemId,
+        quantity: item.remainingQuantity,
+        disposition: refundData.restock === false ? "write_off" : "restock",
+      })),
+      authorize: refundData.authorize,
+    }, executor);
+
+    if (!result.success) {
+      return { success: false, message: result.message, code: result.code, details: result.details };
     }
 
     return {
       success: true,
       message: "Transaction refunded successfully",
-      refundedTransaction,
+      refundedTransaction: await getTransaction(id, executor),
+      return: result.return,
     };
   } catch (error) {
     console.error("Error refunding transaction:", error);
@@ -157,25 +181,43 @@ export async function refundTransaction(
   }
 }
 
-type VoidPayload = {
+// Asked once the void's checks pass, inside its transaction; a rejection leaves the sale as it was
+export type VoidAuthorizer = (
+  sale: { storeId: number; transactionId: number; total: number },
+  tx: Pick<typeof db, "select" | "update">,
+) => Promise<{ message: string; code: string; details?: Record<string, unknown> } | null>;
+
+export type VoidPayload = {
   reason: string;
   voidedBy: number;
   voidedAt: Date;
+  authorize?: VoidAuthorizer;
 };
 
+/**
+ * Voids a sale and puts its stock back in one database transaction, with the
+ * sale row locked so it cannot be voided twice or refunded meanwhile. If the
+ * stock cannot be put back, nothing is written.
+ */
 export async function voidTransaction(
   id: number,
   voidData: VoidPayload,
-  storage?: StorageWithStoreProductStock,
+  executor: Pick<typeof db, "transaction"> = db,
 ): Promise<{
   success: boolean;
   message: string;
+  code?: string;
+  details?: Record<string, unknown>;
   voidedTransaction?: Transaction;
 }> {
-  try {
-    const originalTransaction = await getTransaction(id);
+  return await executor.transaction(async (tx) => {
+    const [originalTransaction] = await tx
+      .select()
+      .from(transactions)
+      .where(eq(transactions.id, id))
+      .for("update");
     if (!originalTransaction) {
-      return { success: false, message: "Transaction not found" };
+      return { success: false, message: "Transaction not found", code: "NOT_FOUND" };
     }
 
     if (originalTransaction.status === "voided") {
@@ -186,6 +228,17 @@ export async function voidTransaction(
       return { success: false, message: "Cannot void a refunded transaction" };
     }
 
+    // The returned units are back on the shelf and their refund paid; voiding would count both twice.
+    // Returns lock the sale row too, so none can be recorded while this runs.
+    const [recordedReturn] = await tx
+      .select({ id: returns.id })
+      .from(returns)
+      .where(eq(returns.transactionId, id))
+      .limit(1);
+    if (recordedReturn) {
+      return { success: false, message: "Items on this sale have been returned; refund the rest instead of voiding it" };
+    }
+
     // Check if createdAt exists before using it
     const transactionDate = originalTransaction.createdAt 
       ? new Date(originalTransaction.createdAt)
@@ -202,7 +255,17 @@ export async function voidTransaction(
       };
     }
 
-    const [voidedTransaction] = await db
+    if (voidData.authorize) {
+      const rejection = await voidData.authorize(
+        { storeId: originalTransaction.storeId, transactionId: id, total: parseFloat(originalTransaction.total) },
+        tx,
+      );
+      if (rejection) {
+        return { success: false, message: rejection.message, code: rejection.code, details: rejection.details };
+      }
+    }
+
+    const [voidedTransaction] = await tx
       .update(transactions)
       .set({
         status: "voided",
@@ -212,41 +275,38 @@ export async function voidTransaction(
       .where(eq(transactions.id, id))
       .returning();
 
-    const items = await getTransactionItems(id);
-    const storeId = originalTransaction.storeId;
-    
-    for (const item of items) {
-      // Check if productId exists before fetching product
-      if (!item.productId) continue;
-      
-      const product = await productStorage.getProduct(item.productId);
-      if (!product) {
-        continue;
-      }
-
-      // Update product stock and quantity
-      const newStock = (product.stock || 0) + item.quantity;
-      const newQuantity = (product.quantity || 0) + item.quantity;
-      await productStorage.updateProduct(item.productId, { 
-        stock: newStock,
-        quantity: newQuantity
-      });
+    const items = await tx.select().from(transactionItems).where(eq(transactionItems.transactionId, id));
+    const restocked = items
+      .filter((item): item is TransactionItem & { productId: number } => !!item.productId)
+      .map((item) => ({ ...item, baseQuantity: lineBaseQuantity(item) }))
+      .filter((item) => item.baseQuantity > 0);
+
+    await inventoryStorage.applyStockMovements(
+      restocked.map((item) => ({
+        storeId: originalTransaction.storeId,
+        productId: item.productId,
+        movementType: "void" as const,
+        quantity: item.baseQuantity,
+        reason: voidData.reason,
+        sourceType: "transaction",
+        sourceId: id,
+        createdBy: voidData.voidedBy,
+        // Back into the lots the sale took it from
+        restoreFrom: { sourceType: "transaction", sourceId: id },
+      })),
+      { executor: tx },
+    );
 
-      // Also update storeProductStock if storage is provided
-      if (storage && storeId) {
-        try {
-          await storage.updateStoreProductStock(
-            storeId,
-            item.productId,
-            item.quantity,
-            'add'
-          );
-          console.log(`✅ Updated storeProductStock for product ${item.productId}: added ${item.quantity} units`);
-        } catch (storeStockError) {
-          console.error(`❌ Failed to update storeProductStock for product ${item.productId}:`, storeStockError);
-          // Continue even if storeProductStock update fails
-        }
-      }
+    // The catalogue totals are whole numbers; the store ledger keeps the quantity to three decimals
+    for (const item of restocked) {
+      const quantity = Math.round(item.baseQuantity);
+      await tx
+        .update(products)
+        .set({
+          stock: sql`COALESCE(${products.stock}, 0) + ${quantity}`,
+          quantity: sql`COALESCE(${products.quantity}, 0) + ${quantity}`,
+        })
+        .where(eq(products.id, item.productId));
     }
 
     return {
@@ -254,10 +314,7 @@ export async function voidTransaction(
       message: "Transaction voided successfully",
       voidedTransaction,
     };
-  } catch (error) {
-    console.error("Error voiding transaction:", error);
-    return { success: false, message: "Failed to void transaction" };
-  }
+  });
 }
 
 export async function getTransactionsByDate(
@@ -277,6 +334,63 @@ export async function getTransactionsByDate(
     .orderBy(desc(transactions.createdAt));
 }
 
+/**
+ * Revenue and cost of completed sales by product and day, for the margin
+ * report. Items sold before costing started have no stamped cost and are
+ * costed at the store's cost today, and counted as estimated.
+ */
+export async function getSoldLines(query: SalesReportQuery): Promise<SoldLine[]> {
+  const day = sql`DATE(${transactions.createdAt})`;
+  const cost = sql`COALESCE(${transactionItems.unitCost}, ${storeProducts.averageCost}, ${storeProducts.costPrice}, ${products.cost}, 0)`;
+  // Costs are per base unit, so lines sold by the carton or the kilo are counted in base units
+  const baseQuantity = sql`${transactionItems.quantity} * ${transactionItems.unitFactor}`;
+  const parents = alias(products, "parents");
+  const rows = await db
+    .select({
+      productId: transactionItems.productId,
+      productName: products.name,
+      parentId: products.parentId,
+      parentName: parents.name,
+      category: products.category,
+      day: sql<string>`to_char(${day}, 'YYYY-MM-DD')`,
+      quantity: sql<string>`SUM(${baseQuantity})`,
+      revenue: sql<string>`SUM(${transactionItems.total})`,
+      cost: sql<string>`SUM(${baseQuantity} * ${cost})`,
+      estimatedQuantity: sql<string>`SUM(CASE WHEN ${transactionItems.unitCost} IS NULL THEN ${baseQuantity} ELSE 0 END)`,
+    })
+    .from(transactionItems)
+    .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+    .leftJoin(products, eq(transactionItems.productId, products.id))
+    .leftJoin(parents, eq(products.parentId, parents.id))
+    .leftJoin(
+      storeProducts,
+      and(eq(storeProducts.storeId, transactions.storeId), eq(storeProducts.productId, transactionItems.productId)),
+    )
+    .where(
+      and(
+        eq(transactions.status, "completed"),
+        query.storeId ? eq(transactions.storeId, query.storeId) : undefined,
+        query.date ? sql`${day} = ${query.date}` : undefined,
+        !query.date && query.start_date ? sql`${day} >= ${query.start_date}` : undefined,
+        !query.date && query.end_date ? sql`${day} <= ${query.end_date}` : undefined,
+      ),
+    )
+    .groupBy(transactionItems.productId, products.name, products.parentId, parents.name, products.category, day);
+
+  return rows.map((row) => ({
+    productId: row.productId,
+    productName: row.productName ?? "Unknown product",
+    parentId: row.parentId,
+    parentName: row.parentName,
+    category: row.category,
+    day: row.day,
+    quantity: parseFloat(row.quantity) || 0,
+    revenue: parseFloat(row.revenue) || 0,
+    cost: parseFloat(row.cost) || 0,
+    estimatedQuantity: parseFloat(row.estimatedQuantity) || 0,
+  }));
+}
+
 export async function generateTransactionNumber(): Promise<string> {
   const today = new Date().toISOString().slice(0, 10).replace(/-/g, "");
   const maxRetries = 10;
@@ -339,6 +453,8 @@ export async function getTransactionItems(
       transactionId: transactionItems.transactionId,
       productId: transactionItems.productId,
       quantity: transactionItems.quantity,
+      unit: transactionItems.unit,
+      unitFactor: transactionItems.unitFactor,
       unitPrice: transactionItems.unitPrice,
       total: transactionItems.total,
       vatRate: transactionItems.vatRate,
@@ -367,3 +483,261 @@ export async function createTransactionItem(
     .returning();
   return item;
 }
+
+export async function getProductsForSale(
+  storeId: number,
+  productIds: number[],
+): Promise<Array<{ id: number; name: string; isActive: boolean | null; storeActive: boolean | null }>> {
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select({
+      id: products.id,
+      name: products.name,
+      isActive: products.isActive,
+      storeActive: storeProducts.isActive,
+    })
+    .from(products)
+    .leftJoin(
+      storeProducts,
+      and(eq(storeProducts.productId, products.id), eq(storeProducts.storeId, storeId)),
+    )
+    .where(inArray(products.id, productIds));
+}
+
+type SaleExecutor = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Stamps each line with the unit it was sold in and how many base units
+ * that is. A till sale is refused for a unit the product is not sold in or
+ * a quantity the unit cannot take; a synced sale already happened, so a
+ * line in a unit the server does not know is taken as base units.
+ */
+async function applySaleUnits(
+  executor: Pick<typeof db, "select">,
+  items: SaleItemInput[],
+  strict: boolean,
+): Promise<{ items: SaleItemInput[] } | { rejection: Extract<CreateSaleResult, { code: "INVALID_UNIT" }> }> {
+  const productIds = Array.from(new Set(items.map((item) => item.productId).filter((id): id is number => !!id)));
+  const unitSets = await productStorage.getUnitsForProducts(productIds, executor);
+
+  const sized: SaleItemInput[] = [];
+  for (const item of items) {
+    const unitSet = item.productId ? unitSets.get(item.productId) : undefined;
+    if (!unitSet) {
+      sized.push({ ...item, unit: null, unitFactor: "1" });
+      continue;
+    }
+
+    const resolved = resolveUnit(unitSet, unitSet.units, item.unit, "sale");
+    const unit = resolved ?? (strict ? null : baseUnitOf(unitSet));
+    const problem = !unit
+      ? `This product is not sold in ${item.unit}`
+      : strict ? checkQuantity(Number(item.quantity), unit) : null;
+    if (!unit || problem) {
+      return {
+        rejection: {
+          success: false,
+          message: problem ?? "Invalid unit",
+          code: "INVALID_UNIT",
+          details: { productId: unitSet.productId, unit: item.unit ?? null },
+        },
+      };
+    }
+    sized.push({ ...item, unit: unit.code, unitFactor: String(unit.factor) });
+  }
+  return { items: sized };
+}
+
+// Books the sold quantities out of the store's stock ledger and the catalogue
+// totals, and stamps each item with the cost the ledger took the stock out at
+async function takeSaleStock(
+  tx: SaleExecutor,
+  transaction: Transaction,
+  items: TransactionItem[],
+  allowNegative?: boolean,
+): Promise<void> {
+  const sold = items
+    .filter((item): item is TransactionItem & { productId: number } => !!item.productId)
+    .map((item) => ({ ...item, baseQuantity: lineBaseQuantity(item) }))
+    .filter((item) => item.baseQuantity > 0);
+
+  const entries = await inventoryStorage.applyStockMovements(
+    sold.map((item) => ({
+      storeId: transaction.storeId,
+      productId: item.productId,
+      movementType: "sale" as const,
+      quantity: -item.baseQuantity,
+      sourceType: "transaction",
+      sourceId: transaction.id,
+      createdBy: transaction.cashierId,
+    })),
+    { executor: tx, allowNegative },
+  );
+
+  // Ledger rows come back in item order, less products the store does not stock
+  const unstamped = [...entries];
+  for (const item of sold) {
+    const index = unstamped.findIndex((entry) => entry.productId === item.productId);
+    if (index === -1) continue;
+    const [entry] = unstamped.splice(index, 1);
+    if (entry.unitCost !== null) {
+      await tx.update(transactionItems).set({ unitCost: entry.unitCost }).where(eq(transactionItems.id, item.id));
+    }
+  }
+
+  // The catalogue totals are whole numbers; the store ledger keeps the quantity to three decimals, as sold
+  for (const item of sold) {
+    const quantity = Math.round(item.baseQuantity);
+    await tx
+      .update(products)
+      .set({
+        stock: sql`GREATEST(COALESCE(${products.stock}, 0) - ${quantity}, 0)`,
+        quantity: sql`GREATEST(COALESCE(${products.quantity}, 0) - ${quantity}, 0)`,
+      })
+      .where(eq(products.id, item.productId));
+  }
+}
+
+/**
+ * Records a till sale, its items, the stock it takes and its promotion usage
+ * in one database transaction. If the store does not allow negative stock and
+ * an item has run out, or a promotion on the sale has just been used up,
+ * nothing is written. A retried checkout whose idempotency key is already
+ * recorded gets the stored sale back instead.
+ */
+export async function createSale(
+  insertTransaction: InsertTransaction,
+  items: SaleItemInput[],
+  redemption?: PromotionRedemption,
+): Promise<CreateSaleResult> {
+  const sized = await applySaleUnits(db, items, true);
+  if ("rejection" in sized) {
+    return sized.rejection;
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      const [transaction] = await tx
+        .insert(transactions)
+        .values(insertTransaction)
+        .onConflictDoNothing({ target: transactions.idempotencyKey })
+        .returning();
+
+      if (!transaction) {
+        const [existing] = await tx
+          .select()
+          .from(transactions)
+          .where(eq(transactions.idempotencyKey, insertTransaction.idempotencyKey!));
+        const existingItems = await tx.select().from(transactionItems).where(eq(transactionItems.transactionId, existing.id));
+        return { success: true as const, transaction: existing, transactionItems: existingItems, duplicate: true };
+      }
+
+      const createdItems = sized.items.length > 0
+        ? await tx
+            .insert(transactionItems)
+            .values(sized.items.map((item) => ({ ...item, transactionId: transaction.id })))
+            .returning()
+        : [];
+
+      if (transaction.status === "completed") {
+        await takeSaleStock(tx, transaction, createdItems);
+        if (redemption) {
+          await promotionStorage.recordRedemptions(transaction.id, { ...redemption, customerId: transaction.customerId }, tx);
+        }
+      }
+
+      return { success: true as const, transaction, transactionItems: createdItems, duplicate: false };
+    });
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return { success: false, message: error.message, code: "INSUFFICIENT_STOCK", details: error.shortage };
+    }
+    if (error instanceof PromotionUnavailableError) {
+      return { success: false, message: error.message, code: "PROMOTION_UNAVAILABLE", details: { reason: error.rejection.code } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Records a synced offline sale atomically: the transaction, its items, the
+ * store stock decrement, its promotion usage and any credit charge either all
+ * land or none do. Returns `duplicate: true` when another request already
+ * recorded the key; throws PromotionUnavailableError when a promotion on the
+ * sale has been used up.
+ */
+export async function createSyncedSale(
+  insertTransaction: InsertTransaction & { idempotencyKey: string; createdAt: Date },
+  items: SaleItemInput[],
+  redemption?: PromotionRedemption,
+): Promise<{ transaction: Transaction; transactionItems: TransactionItem[]; duplicate: boolean }> {
+  const sized = await applySaleUnits(db, items, false);
+  if ("rejection" in sized) {
+    throw new Error(sized.rejection.message);
+  }
+
+  return await db.transaction(async (tx) => {
+    const [transaction] = await tx
+      .insert(transactions)
+      .values(insertTransaction)
+      .onConflictDoNothing({ target: transactions.idempotencyKey })
+      .returning();
+
+    if (!transaction) {
+      const [existing] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.idempotencyKey, insertTransaction.idempotencyKey));
+      return { transaction: existing, transactionItems: [], duplicate: true };
+    }
+
+    const createdItems = sized.items.length > 0
+      ? await tx
+          .insert(transactionItems)
+          .values(sized.items.map((item) => ({ ...item, transactionId: transaction.id })))
+          .returning()
+      : [];
+
+    if (transaction.status === "completed") {
+      // The goods have already left the shop, so an offline sale is never refused for stock
+      await takeSaleStock(tx, transaction, createdItems, true);
+      if (redemption) {
+        await promotionStorage.recordRedemptions(transaction.id, { ...redemption, customerId: transaction.customerId }, tx);
+      }
+    }
+
+    if (transaction.paymentMethod === "credit" && transaction.customerId) {
+      const [customer] = await tx
+        .select({ creditBalance: customers.creditBalance })
+        .from(customers)
+        .where(eq(customers.id, transaction.customerId))
+        .for("update");
+      const previousBalance = parseFloat(String(customer?.creditBalance || "0"));
+      const amount = parseFloat(String(transaction.total || "0"));
+      const newBalance = (previousBalance + amount).toFixed(2);
+
+      await tx
+        .update(customers)
+        .set({ creditBalance: newBalance })
+        .where(eq(customers.id, transaction.customerId));
+
+      await tx.insert(creditTransactions).values({
+        customerId: transaction.customerId,
+        cashierId: transaction.cashierId,
+        transactionId: transaction.id,
+        type: "charge",
+        amount: amount.toFixed(2),
+        paymentMethod: "credit",
+        reference: transaction.transactionNumber,
+        description: `Credit sale (synced offline) - Transaction #${transaction.transactionNumber}`,
+        previousBalance: previousBalance.toFixed(2),
+        newBalance,
+      });
+    }
+
+    return { transaction, transactionItems: createdItems, duplicate: false };
+  });
+}
@@ -0,0 +1,203 @@
+import type { Express, Response } from "express";
+import { storage } from "../../storage";
+import { isAuthenticated } from "../../auth";
+import {
+  listableStoreIds,
+  requirePermission,
+  transferDestinationStore,
+  transferSourceStore,
+  transferStores,
+} from "../shared/authorization";
+import { resolveStoreTimezone } from "../shared/store-time";
+import { renderTransferNotePdf } from "../invoices/pdf-renderer";
+import type { TransferResult } from "./storage";
+import {
+  cancelTransferSchema,
+  createTransferSchema,
+  dispatchTransferSchema,
+  receiveTransferSchema,
+} from "./transfers";
+
+const statusFor = (code?: string) =>
+  code === "NOT_FOUND" ? 404 : code === "INSUFFICIENT_STOCK" ? 409 : 400;
+
+function sendResult(res: Response, result: TransferResult, created = false) {
+  if (!result.success) {
+    return res.status(statusFor(result.code)).json({ message: result.message, code: result.code, details: result.details });
+  }
+  res.status(created ? 201 : 200).json(result.transfer);
+}
+
+export function registerTransferRoutes(app: Express) {
+  app.get("/api/stock-transfers", isAuthenticated, requirePermission("transfers", "read"), async (req, res) => {
+    try {
+      const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
+      if (storeId !== undefined && (isNaN(storeId) || storeId <= 0)) {
+        return res.status(400).json({ message: "Invalid store ID" });
+      }
+      res.json(
+        await storage.getStockTransfers({
+          storeId,
+          storeIds: storeId ? undefined : await listableStoreIds(req.user!),
+          open: req.query.open === "true",
+        }),
+      );
+    } catch (error) {
+      console.error("Error fetching stock transfers:", error);
+      res.status(500).json({ message: "Failed to fetch stock transfers" });
+    }
+  });
+
+  app.get("/api/stock-transfers/:id", isAuthenticated, requirePermission("transfers", "read", { anyStoreOf: transferStores }), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ message: "Invalid transfer ID" });
+    }
+    try {
+      const transfer = await storage.getStockTransfer(id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error fetching stock transfer:", error);
+      res.status(500).json({ message: "Failed to fetch stock transfer" });
+    }
+  });
+
+  app.get("/api/stock-transfers/:id/note.pdf", isAuthenticated, requirePermission("transfers", "read", { anyStoreOf: transferStores }), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ message: "Invalid transfer ID" });
+    }
+    try {
+      const transfer = await storage.getStockTransfer(id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      const [from, to] = await Promise.all([storage.getStore(transfer.fromStoreId), storage.getStore(transfer.toStoreId)]);
+
+      const pdf = await renderTransferNotePdf({
+        number: transfer.transferNumber,
+        status: transfer.status,
+        issuedAt: transfer.createdAt,
+        timezone: resolveStoreTimezone(from),
+        from: { name: from?.name ?? `Store ${transfer.fromStoreId}`, address: from?.address, phone: from?.phone },
+        to: { name: to?.name ?? `Store ${transfer.toStoreId}`, address: to?.address, phone: to?.phone },
+        dispatchedAt: transfer.dispatchedAt,
+        notes: transfer.notes,
+        lines: transfer.items.map((item) => ({
+          description: item.productName ?? `Product ${item.productId}`,
+          sku: item.productSku,
+          requested: parseFloat(item.quantityRequested),
+          dispatched: parseFloat(item.quantityDispatched),
+          received: parseFloat(item.quantityReceived),
+          discrepancyNote: item.discrepancyNote,
+        })),
+      });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${transfer.transferNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error rendering transfer note:", error);
+      res.status(500).json({ message: "Failed to render transfer note" });
+    }
+  });
+
+  app.post(
+    "/api/stock-transfers",
+    isAuthenticated,
+    requirePermission("transfers", "create", { anyStoreOf: async (req) => [req.body?.fromStoreId, req.body?.toStoreId] }),
+    async (req, res) => {
+      try {
+        const parsed = createTransferSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: parsed.error.errors[0]?.message || "Invalid transfer request",
+            errors: parsed.error.errors,
+          });
+        }
+        const result = await storage.createStockTransfer({ ...parsed.data, requestedBy: req.user?.id ?? null });
+        sendResult(res, result, true);
+      } catch (error) {
+        console.error("Error creating stock transfer:", error);
+        res.status(500).json({ message: "Failed to create stock transfer" });
+      }
+    },
+  );
+
+  app.post("/api/stock-transfers/:id/dispatch", isAuthenticated, requirePermission("transfers", "dispatch", { storeOf: transferSourceStore }), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ message: "Invalid transfer ID" });
+    }
+    try {
+      const parsed = dispatchTransferSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid dispatch",
+          errors: parsed.error.errors,
+        });
+      }
+      sendResult(res, await storage.dispatchStockTransfer(id, { ...parsed.data, dispatchedBy: req.user?.id ?? null }));
+    } catch (error) {
+      console.error("Error dispatching stock transfer:", error);
+      res.status(500).json({ message: "Failed to dispatch stock transfer" });
+    }
+  });
+
+  app.post("/api/stock-transfers/:id/receive", isAuthenticated, requirePermission("transfers", "receive", { storeOf: transferDestinationStore }), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ message: "Invalid transfer ID" });
+    }
+    try {
+      const parsed = receiveTransferSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid receipt",
+          errors: parsed.error.errors,
+        });
+      }
+      sendResult(res, await storage.receiveStockTransfer(id, { ...parsed.data, receivedBy: req.user?.id ?? null }));
+    } catch (error) {
+      console.error("Error receiving stock transfer:", error);
+      res.status(500).json({ message: "Failed to receive stock transfer" });
+    }
+  });
+
+  app.post("/api/stock-transfers/:id/cancel", isAuthenticated, requirePermission("transfers", "cancel", { anyStoreOf: transferStores }), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ message: "Invalid transfer ID" });
+    }
+    try {
+      const parsed = cancelTransferSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: parsed.error.errors[0]?.message || "Invalid cancellation",
+          errors: parsed.error.errors,
+        });
+      }
+      sendResult(res, await storage.cancelStockTransfer(id, { ...parsed.data, cancelledBy: req.user?.id ?? null }));
+    } catch (error) {
+      console.error("Error cancelling stock transfer:", error);
+      res.status(500).json({ message: "Failed to cancel stock transfer" });
+    }
+  });
+
+  // Stock that has left one store for another and not yet arrived, by product
+  app.get("/api/stores/:storeId/in-transit", isAuthenticated, requirePermission("transfers", "read"), async (req, res) => {
+    const storeId = parseInt(req.params.storeId);
+    if (isNaN(storeId) || storeId <= 0) {
+      return res.status(400).json({ message: "Invalid store ID" });
+    }
+    try {
+      res.json(await storage.getInTransitStock(storeId));
+    } catch (error) {
+      console.error("Error fetching in-transit stock:", error);
+      res.status(500).json({ message: "Failed to fetch in-transit stock" });
+    }
+  });
+}
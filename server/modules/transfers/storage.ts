@@ -0,0 +1,353 @@
+import { and, desc, eq, inArray, or, sql } from "drizzle-orm";
+
+import {
+  products,
+  stockTransferItems,
+  stockTransfers,
+  stores,
+  type StockTransfer,
+  type StockTransferItem,
+} from "@shared/schema";
+
+import { db } from "../../db";
+import * as inventoryStorage from "../inventory/storage";
+import { InsufficientStockError } from "../inventory/ledger";
+import {
+  formatTransferNumber,
+  planDispatch,
+  planReceipt,
+  statusAfterReceipt,
+  type CreateTransferInput,
+  type DispatchTransferInput,
+  type ReceiveTransferInput,
+} from "./transfers";
+
+export type StockTransferLine = StockTransferItem & { productName: string | null; productSku: string | null };
+export type TransferWithItems = StockTransfer & { items: StockTransferLine[] };
+
+export interface TransferResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  details?: Record<string, unknown>;
+  transfer?: TransferWithItems;
+}
+
+export interface InTransitStock {
+  productId: number;
+  // On its way into the store
+  incoming: number;
+  // Sent by the store and not yet received at the other end
+  outgoing: number;
+}
+
+const OPEN_STATUSES = ["requested", "dispatched", "partially_received"];
+const IN_TRANSIT_STATUSES = ["dispatched", "partially_received"];
+
+type TransferExecutor = Pick<typeof db, "select">;
+
+async function loadItems(executor: TransferExecutor, transferIds: number[]): Promise<StockTransferLine[]> {
+  if (transferIds.length === 0) return [];
+  return executor
+    .select({
+      id: stockTransferItems.id,
+      transferId: stockTransferItems.transferId,
+      productId: stockTransferItems.productId,
+      quantityRequested: stockTransferItems.quantityRequested,
+      quantityDispatched: stockTransferItems.quantityDispatched,
+      quantityReceived: stockTransferItems.quantityReceived,
+      discrepancyNote: stockTransferItems.discrepancyNote,
+      productName: products.name,
+      productSku: products.sku,
+    })
+    .from(stockTransferItems)
+    .leftJoin(products, eq(stockTransferItems.productId, products.id))
+    .where(inArray(stockTransferItems.transferId, transferIds))
+    .orderBy(stockTransferItems.id);
+}
+
+async function withItems(executor: TransferExecutor, transfers: StockTransfer[]): Promise<TransferWithItems[]> {
+  const items = await loadItems(executor, transfers.map((transfer) => transfer.id));
+  return transfers.map((transfer) => ({
+    ...transfer,
+    items: items.filter((item) => item.transferId === transfer.id),
+  }));
+}
+
+// A list of stores narrows the result to transfers out of or into one of them (none of them: no rows)
+export async function getStockTransfers(
+  filters: { storeId?: number; storeIds?: number[]; open?: boolean } = {},
+): Promise<TransferWithItems[]> {
+  const rows = await db
+    .select()
+    .from(stockTransfers)
+    .where(
+      and(
+        filters.storeId
+          ? or(eq(stockTransfers.fromStoreId, filters.storeId), eq(stockTransfers.toStoreId, filters.storeId))
+          : undefined,
+        filters.storeIds
+          ? or(inArray(stockTransfers.fromStoreId, filters.storeIds), inArray(stockTransfers.toStoreId, filters.storeIds))
+          : undefined,
+        filters.open ? inArray(stockTransfers.status, OPEN_STATUSES) : undefined,
+      ),
+    )
+    .orderBy(desc(stockTransfers.createdAt))
+    .limit(200);
+  return withItems(db, rows);
+}
+
+export async function getStockTransfer(id: number): Promise<TransferWithItems | undefined> {
+  const [transfer] = await db.select().from(stockTransfers).where(eq(stockTransfers.id, id));
+  if (!transfer) return undefined;
+  const [loaded] = await withItems(db, [transfer]);
+  return loaded;
+}
+
+export async function createStockTransfer(
+  input: CreateTransferInput & { requestedBy?: number | null },
+): Promise<TransferResult> {
+  const storeRows = await db
+    .select({ id: stores.id })
+    .from(stores)
+    .where(inArray(stores.id, [input.fromStoreId, input.toStoreId]));
+  if (storeRows.length !== 2) {
+    return { success: false, message: "Store not found", code: "NOT_FOUND" };
+  }
+
+  const productIds = input.items.map((item) => item.productId);
+  const known = await db.select({ id: products.id }).from(products).where(inArray(products.id, productIds));
+  const missing = productIds.find((id) => !known.some((product) => product.id === id));
+  if (missing) {
+    return { success: false, message: `Product ${missing} not found`, code: "NOT_FOUND" };
+  }
+
+  const transfer = await db.transaction(async (tx) => {
+    // The number is derived from the id, so draw the id first
+    const { rows } = await tx.execute<{ id: number }>(
+      sql`SELECT nextval(pg_get_serial_sequence('stock_transfers', 'id'))::int AS id`,
+    );
+    const id = rows[0].id;
+
+    const [created] = await tx
+      .insert(stockTransfers)
+      .values({
+        id,
+        transferNumber: formatTransferNumber(id),
+        fromStoreId: input.fromStoreId,
+        toStoreId: input.toStoreId,
+        status: "requested",
+        notes: input.notes ?? null,
+        requestedBy: input.requestedBy ?? null,
+      })
+      .returning();
+
+    await tx.insert(stockTransferItems).values(
+      input.items.map((item) => ({
+        transferId: created.id,
+        productId: item.productId,
+        quantityRequested: item.quantity.toFixed(2),
+      })),
+    );
+
+    const [loaded] = await withItems(tx, [created]);
+    return loaded;
+  });
+
+  return { success: true, message: "Transfer requested", transfer };
+}
+
+/**
+ * Sends a requested transfer: the picked quantities leave the source store
+ * through the stock ledger, so its negative stock policy applies.
+ */
+export async function dispatchStockTransfer(
+  id: number,
+  input: DispatchTransferInput & { dispatchedBy?: number | null },
+): Promise<TransferResult> {
+  try {
+    return await db.transaction(async (tx) => {
+      const [transfer] = await tx.select().from(stockTransfers).where(eq(stockTransfers.id, id)).for("update");
+      if (!transfer) {
+        return { success: false, message: "Transfer not found", code: "NOT_FOUND" };
+      }
+      if (transfer.status !== "requested") {
+        return { success: false, message: `Cannot dispatch a transfer that is ${transfer.status.replace("_", " ")}` };
+      }
+
+      const lines = await loadItems(tx, [transfer.id]);
+      const planned = planDispatch(lines, input.items);
+      if (!planned.success) {
+        return { success: false, message: planned.message };
+      }
+
+      for (const line of planned.lines) {
+        await tx
+          .update(stockTransferItems)
+          .set({ quantityDispatched: line.quantity.toFixed(2) })
+          .where(eq(stockTransferItems.id, line.itemId));
+      }
+
+      await inventoryStorage.applyStockMovements(
+        planned.lines.map((line) => ({
+          storeId: transfer.fromStoreId,
+          productId: line.productId,
+          movementType: "transfer_out" as const,
+          quantity: -line.quantity,
+          reason: `Sent on ${transfer.transferNumber}`,
+          sourceType: "stock_transfer",
+          sourceId: transfer.id,
+          createdBy: input.dispatchedBy ?? null,
+        })),
+        { executor: tx },
+      );
+
+      const [updated] = await tx
+        .update(stockTransfers)
+        .set({
+          status: "dispatched",
+          dispatchedBy: input.dispatchedBy ?? null,
+          dispatchedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(stockTransfers.id, transfer.id))
+        .returning();
+
+      const [loaded] = await withItems(tx, [updated]);
+      return { success: true, message: "Transfer dispatched", transfer: loaded };
+    });
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return { success: false, message: error.message, code: "INSUFFICIENT_STOCK", details: { ...error.shortage } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Books what arrived at the destination store. Products the destination has
+ * never stocked are added to it at the source store's price.
+ */
+export async function receiveStockTransfer(
+  id: number,
+  input: ReceiveTransferInput & { receivedBy?: number | null },
+): Promise<TransferResult> {
+  return await db.transaction(async (tx) => {
+    const [transfer] = await tx.select().from(stockTransfers).where(eq(stockTransfers.id, id)).for("update");
+    if (!transfer) {
+      return { success: false, message: "Transfer not found", code: "NOT_FOUND" };
+    }
+    if (transfer.status !== "dispatched" && transfer.status !== "partially_received") {
+      return { success: false, message: `Cannot receive a transfer that is ${transfer.status.replace("_", " ")}` };
+    }
+
+    const lines = await loadItems(tx, [transfer.id]);
+    const planned = planReceipt(lines, input);
+    if (!planned.success) {
+      return { success: false, message: planned.message };
+    }
+
+    for (const line of planned.lines) {
+      await tx
+        .update(stockTransferItems)
+        .set({ quantityReceived: line.received.toFixed(2), discrepancyNote: line.discrepancyNote })
+        .where(eq(stockTransferItems.id, line.itemId));
+    }
+
+    const arriving = planned.lines.filter((line) => line.quantity > 0);
+    for (const line of arriving) {
+      await inventoryStorage.ensureStoreProduct(tx, transfer.toStoreId, line.productId, transfer.fromStoreId);
+    }
+
+    await inventoryStorage.applyStockMovements(
+      arriving.map((line) => ({
+        storeId: transfer.toStoreId,
+        productId: line.productId,
+        movementType: "transfer_in" as const,
+        quantity: line.quantity,
+        reason: `Received on ${transfer.transferNumber}`,
+        sourceType: "stock_transfer",
+        sourceId: transfer.id,
+        createdBy: input.receivedBy ?? null,
+        // Arrives in the same lots, with the same expiry, as it left the source store
+        restoreFrom: { sourceType: "stock_transfer", sourceId: transfer.id },
+      })),
+      { executor: tx },
+    );
+
+    const status = statusAfterReceipt(planned.fullyReceived, input.complete);
+    const [updated] = await tx
+      .update(stockTransfers)
+      .set({
+        status,
+        receivedBy: input.receivedBy ?? null,
+        receivedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(stockTransfers.id, transfer.id))
+      .returning();
+
+    const [loaded] = await withItems(tx, [updated]);
+    return {
+      success: true,
+      message: status === "received" ? "Transfer received" : "Receipt recorded; the rest is still in transit",
+      transfer: loaded,
+    };
+  });
+}
+
+/** Only a transfer that has not left the source store can be cancelled; nothing has moved yet. */
+export async function cancelStockTransfer(
+  id: number,
+  input: { cancelledBy?: number | null; reason?: string | null },
+): Promise<TransferResult> {
+  return await db.transaction(async (tx) => {
+    const [transfer] = await tx.select().from(stockTransfers).where(eq(stockTransfers.id, id)).for("update");
+    if (!transfer) {
+      return { success: false, message: "Transfer not found", code: "NOT_FOUND" };
+    }
+    if (transfer.status !== "requested") {
+      return { success: false, message: "Only a transfer that has not been dispatched can be cancelled" };
+    }
+
+    const reason = input.reason?.trim();
+    const [updated] = await tx
+      .update(stockTransfers)
+      .set({
+        status: "cancelled",
+        cancelledBy: input.cancelledBy ?? null,
+        cancelledAt: new Date(),
+        notes: reason ? [transfer.notes, `Cancelled: ${reason}`].filter(Boolean).join("\n") : transfer.notes,
+        updatedAt: new Date(),
+      })
+      .where(eq(stockTransfers.id, transfer.id))
+      .returning();
+
+    const [loaded] = await withItems(tx, [updated]);
+    return { success: true, message: "Transfer cancelled", transfer: loaded };
+  });
+}
+
+/** Stock on the road to or from a store, by product. */
+export async function getInTransitStock(storeId: number): Promise<InTransitStock[]> {
+  const outstanding = sql`${stockTransferItems.quantityDispatched} - ${stockTransferItems.quantityReceived}`;
+  const rows = await db
+    .select({
+      productId: stockTransferItems.productId,
+      incoming: sql<string>`COALESCE(SUM(CASE WHEN ${stockTransfers.toStoreId} = ${storeId} THEN ${outstanding} ELSE 0 END), 0)`,
+      outgoing: sql<string>`COALESCE(SUM(CASE WHEN ${stockTransfers.fromStoreId} = ${storeId} THEN ${outstanding} ELSE 0 END), 0)`,
+    })
+    .from(stockTransferItems)
+    .innerJoin(stockTransfers, eq(stockTransferItems.transferId, stockTransfers.id))
+    .where(
+      and(
+        inArray(stockTransfers.status, IN_TRANSIT_STATUSES),
+        or(eq(stockTransfers.fromStoreId, storeId), eq(stockTransfers.toStoreId, storeId)),
+      ),
+    )
+    .groupBy(stockTransferItems.productId);
+
+  return rows
+    .map((row) => ({ productId: row.productId, incoming: parseFloat(row.incoming), outgoing: parseFloat(row.outgoing) }))
+    .filter((row) => row.incoming > 0 || row.outgoing > 0);
+}
@@ -0,0 +1,163 @@
+import { z } from "zod";
+import type { StockTransferItem, StockTransferStatus } from "@shared/schema";
+
+const quantity = z.coerce.number().finite().multipleOf(0.01, "Quantities have at most two decimals");
+
+export const createTransferSchema = z
+  .object({
+    fromStoreId: z.coerce.number().int().positive(),
+    toStoreId: z.coerce.number().int().positive(),
+    notes: z.string().trim().max(500).optional().nullable(),
+    items: z
+      .array(
+        z.object({
+          productId: z.coerce.number().int().positive(),
+          quantity: quantity.positive("Transfer quantities must be above zero"),
+        }),
+      )
+      .min(1, "Add at least one product to the transfer"),
+  })
+  .refine((data) => data.fromStoreId !== data.toStoreId, {
+    message: "A transfer needs two different stores",
+    path: ["toStoreId"],
+  })
+  .refine((data) => new Set(data.items.map((item) => item.productId)).size === data.items.length, {
+    message: "Each product can only appear once on a transfer",
+    path: ["items"],
+  });
+
+export const dispatchTransferSchema = z.object({
+  // Picked quantities by line; lines left out are sent as requested
+  items: z
+    .array(
+      z.object({
+        itemId: z.coerce.number().int().positive(),
+        quantity: quantity.nonnegative(),
+      }),
+    )
+    .default([]),
+});
+
+export const receiveTransferSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        itemId: z.coerce.number().int().positive(),
+        quantity: quantity.nonnegative(),
+        discrepancyNote: z.string().trim().max(500).optional().nullable(),
+      }),
+    )
+    .default([]),
+  // Nothing more is coming: close the transfer even if less arrived than was sent
+  complete: z.boolean().default(false),
+});
+
+export const cancelTransferSchema = z.object({
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
+export type CreateTransferInput = z.infer<typeof createTransferSchema>;
+export type DispatchTransferInput = z.infer<typeof dispatchTransferSchema>;
+export type ReceiveTransferInput = z.infer<typeof receiveTransferSchema>;
+
+type TransferLine = Pick<
+  StockTransferItem,
+  "id" | "productId" | "quantityRequested" | "quantityDispatched" | "quantityReceived" | "discrepancyNote"
+>;
+
+export interface PlannedTransferLine {
+  itemId: number;
+  productId: number;
+  quantity: number;
+}
+
+export interface PlannedReceiptLine extends PlannedTransferLine {
+  received: number;
+  discrepancyNote: string | null;
+}
+
+export type TransferPlan<T> = { success: true; lines: T[] } | { success: false; message: string };
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+const toNumber = (value: string | number | null | undefined): number => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? "0"));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const formatTransferNumber = (id: number): string => `TR-${String(id).padStart(6, "0")}`;
+
+/** What is still on the road for a line: dispatched but not yet received. */
+export const outstandingQuantity = (line: Pick<TransferLine, "quantityDispatched" | "quantityReceived">): number =>
+  Math.max(0, round2(toNumber(line.quantityDispatched) - toNumber(line.quantityReceived)));
+
+/**
+ * Works out what leaves the source store. Lines default to the requested
+ * quantity; a picker may send less (even nothing) but never more.
+ */
+export function planDispatch(lines: TransferLine[], picks: DispatchTransferInput["items"]): TransferPlan<PlannedTransferLine> {
+  const picked = new Map(picks.map((pick) => [pick.itemId, pick.quantity]));
+  const unknown = picks.find((pick) => !lines.some((line) => line.id === pick.itemId));
+  if (unknown) {
+    return { success: false, message: `Line ${unknown.itemId} is not on this transfer` };
+  }
+
+  const planned: PlannedTransferLine[] = [];
+  for (const line of lines) {
+    const requested = toNumber(line.quantityRequested);
+    const sent = round2(picked.get(line.id) ?? requested);
+    if (sent > requested) {
+      return { success: false, message: `Cannot send more than the ${requested} requested` };
+    }
+    planned.push({ itemId: line.id, productId: line.productId, quantity: sent });
+  }
+
+  if (!planned.some((line) => line.quantity > 0)) {
+    return { success: false, message: "Nothing was picked; cancel the transfer instead" };
+  }
+  return { success: true, lines: planned };
+}
+
+/**
+ * Checks a receipt against what is still in transit. A line may arrive over
+ * several receipts; closing the transfer with units missing needs a note
+ * saying what happened to them.
+ */
+export function planReceipt(
+  lines: TransferLine[],
+  receipt: ReceiveTransferInput,
+): { success: true; lines: PlannedReceiptLine[]; fullyReceived: boolean } | { success: false; message: string } {
+  const byId = new Map(receipt.items.map((item) => [item.itemId, item]));
+  const unknown = receipt.items.find((item) => !lines.some((line) => line.id === item.itemId));
+  if (unknown) {
+    return { success: false, message: `Line ${unknown.itemId} is not on this transfer` };
+  }
+
+  const planned: PlannedReceiptLine[] = [];
+  let fullyReceived = true;
+  for (const line of lines) {
+    const entry = byId.get(line.id);
+    const arriving = round2(entry?.quantity ?? 0);
+    const outstanding = outstandingQuantity(line);
+    if (arriving > outstanding) {
+      return { success: false, message: `Only ${outstanding} of that line is still in transit` };
+    }
+
+    const received = round2(toNumber(line.quantityReceived) + arriving);
+    const note = entry?.discrepancyNote?.trim() || line.discrepancyNote || null;
+    const short = received < toNumber(line.quantityDispatched);
+    if (short) fullyReceived = false;
+    if (short && receipt.complete && !note) {
+      return { success: false, message: "Explain the missing units before closing the transfer" };
+    }
+    planned.push({ itemId: line.id, productId: line.productId, quantity: arriving, received, discrepancyNote: note });
+  }
+
+  if (!receipt.complete && !planned.some((line) => line.quantity > 0)) {
+    return { success: false, message: "Enter the quantities that arrived" };
+  }
+  return { success: true, lines: planned, fullyReceived };
+}
+
+/** Status after a receipt: done when everything arrived or the receiver closed it. */
+export const statusAfterReceipt = (fullyReceived: boolean, complete: boolean): StockTransferStatus =>
+  fullyReceived || complete ? "received" : "partially_received";
@@ -278,7 +278,7 @@ export async function getTransactionRiskHistory(customerId: number, limit = 10)
         total: parseFloat(transaction.total),
         items: items.map(item => ({
           productId: item.productId!,
-          quantity: item.quantity,
+          quantity: parseFloat(item.quantity),
           unitPrice: parseFloat(item.unitPrice),
           total: parseFloat(item.total)
         })),
@@ -337,7 +337,7 @@ export async function getDailyRiskSummary(date: string) {
         total: parseFloat(transaction.total),
         items: items.map(item => ({
           productId: item.productId!,
-          quantity: item.quantity,
+          quantity: parseFloat(item.quantity),
           unitPrice: parseFloat(item.unitPrice),
           total: parseFloat(item.total)
         })),
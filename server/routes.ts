@@ -10,7 +10,8 @@ import {
   insertCreditTransactionSchema, cartItemSchema,
   insertStockAdjustmentSchema, insertSavedReportSchema, insertStockTakingSessionSchema,
   insertStockTakingItemSchema,
-  USER_ROLES, TransactionItem, type Store
+  USER_ROLES, REFUND_METHODS, TransactionItem,
+  type InsertTransaction, type InsertTransactionItem
 } from "@shared/schema";
 import { z } from "zod";
 import { assessTransactionRisk, getTransactionRiskHistory, getDailyRiskSummary } from "./risk-assessment-service";
@@ -18,7 +19,14 @@ import fs from "fs";
 import path from "path";
 import * as XLSX from "xlsx";
 import { upload, imageUpload, dataFileUpload } from "./modules/shared/upload";
-import { requireRole } from "./modules/shared/authorization";
+import {
+  heldTransactionStore,
+  invoiceStore,
+  listableStoreIds,
+  requirePermission,
+  stockTakingSessionStore,
+  transactionStore,
+} from "./modules/shared/authorization";
 
 // Define transaction item with product details for receipt generation
 interface TransactionItemWithProduct extends TransactionItem {
@@ -35,38 +43,46 @@ import { registerCommonRoutes } from "./modules/common/routes";
 import { registerPromotionRoutes } from "./modules/promotion/routes";
 import { registerAiRoutes } from "./modules/ai/routes";
 import { registerInvoiceRoutes } from "./modules/invoices/routes";
-import { generateInvoiceForTransaction } from "./modules/invoices/service";
+import { registerTransactionRoutes } from "./modules/transactions/routes";
+import { isTransactionNumberCollision } from "./modules/transactions/service";
+import { registerReturnRoutes } from "./modules/returns/routes";
+import { registerApprovalRoutes } from "./modules/approvals/routes";
+import { registerAuditRoutes } from "./modules/audit/routes";
+import { registerTransferRoutes } from "./modules/transfers/routes";
+import { registerPurchasingRoutes } from "./modules/purchasing/routes";
+import { requestContextMiddleware } from "./modules/shared/request-context";
+import { readApprovalTokens } from "./modules/approvals/approvals";
+import { enforceSaleApprovals, refundAuthorizer, voidAuthorizer } from "./modules/approvals/service";
+import { ensureInvoicePdf, generateInvoiceForTransaction } from "./modules/invoices/service";
+import { readSaleRedemption, type PromotionRedemption } from "./modules/promotion/coupons";
 import competitorRoutes from "./modules/competitors/routes";
-import * as productStorage from "./modules/products/storage";
-
-function resolveStoreTimezone(store?: Store | null): string {
-  if (store?.settings && typeof store.settings === "object" && store.settings !== null) {
-    const maybeTimezone = (store.settings as Record<string, unknown>)["timezone"];
-    if (typeof maybeTimezone === "string" && maybeTimezone.trim().length > 0) {
-      return maybeTimezone;
+import { formatDateInTimezone, resolveStoreTimezone } from "./modules/shared/store-time";
+import { InsufficientStockError } from "./modules/inventory/ledger";
+import { salesReportQuerySchema, summariseMargins } from "./modules/inventory/costing";
+
+// Two tills can draw the same transaction number; retry the sale with a fresh one
+async function createSaleWithFreshNumber(
+  transactionData: InsertTransaction,
+  items: Omit<InsertTransactionItem, "transactionId">[],
+  redemption: PromotionRedemption,
+  maxRetries = 3,
+) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await storage.createSale(transactionData, items, redemption);
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransactionNumberCollision(error)) throw error;
+      console.log(`Duplicate transaction number detected, generating new one... (attempt ${attempt + 1}/${maxRetries})`);
+      transactionData = { ...transactionData, transactionNumber: await storage.generateTransactionNumber() };
     }
   }
-
-  if (typeof process.env.DEFAULT_STORE_TIMEZONE === "string" && process.env.DEFAULT_STORE_TIMEZONE.trim().length > 0) {
-    return process.env.DEFAULT_STORE_TIMEZONE.trim();
-  }
-
-  if (store?.baseCurrency === "QAR") {
-    return "Asia/Qatar";
-  }
-
-  return "UTC";
-}
-
-function formatDateInTimezone(date: Date, timezone: string): string {
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: timezone,
-  }).format(date);
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup Authentication
   setupAuth(app);
+  // Tags everything below with a request id and the signed-in user, for the audit log
+  app.use(requestContextMiddleware);
   registerAuthRoutes(app);
 
   // Serve static files for invoices
@@ -81,12 +97,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   registerPromotionRoutes(app);
   registerAiRoutes(app);
   registerInvoiceRoutes(app);
+  registerTransactionRoutes(app);
+  registerReturnRoutes(app);
+  registerApprovalRoutes(app);
+  registerAuditRoutes(app);
+  registerTransferRoutes(app);
+  registerPurchasingRoutes(app);
   
   // Competitor routes
   app.use('/api/competitors', isAuthenticated, competitorRoutes);
 
   // Utility: Sync all products to all stores
-  app.post('/api/admin/sync-products-to-stores', isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.post('/api/admin/sync-products-to-stores', isAuthenticated, requirePermission("stores", "update"), async (req, res) => {
     try {
       console.log('[Sync] Starting product synchronization to stores...');
       
@@ -163,7 +185,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User management routes
-  app.get('/api/users', isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.get('/api/users', isAuthenticated, requirePermission("users", "read"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       res.json(users);
@@ -173,7 +195,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/users/:userId/role', isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.patch('/api/users/:userId/role', isAuthenticated, requirePermission("users", "update"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const { role } = req.body;
@@ -198,7 +220,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/users/me/default-store', isAuthenticated, async (req, res) => {
+  app.patch('/api/users/me/default-store', isAuthenticated, requirePermission("profile", "update"), async (req, res) => {
     try {
       const authUser = req.user as any;
       if (!authUser?.id) {
@@ -236,18 +258,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Transactions
-  app.get("/api/transactions", isAuthenticated, async (req, res) => {
+  app.get("/api/transactions", isAuthenticated, requirePermission("transactions", "read"), async (req, res) => {
     const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
-    const transactions = await storage.getTransactions(storeId);
+    const transactions = await storage.getTransactions(storeId || (await listableStoreIds(req.user!)));
     res.json(transactions);
   });
 
-  app.get("/api/transactions/number", isAuthenticated, async (req, res) => {
+  app.get("/api/transactions/number", isAuthenticated, requirePermission("transactions", "create"), async (req, res) => {
     const transactionNumber = await storage.generateTransactionNumber();
     res.json({ transactionNumber });
   });
 
-  app.get("/api/transactions/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/transactions/:id", isAuthenticated, requirePermission("transactions", "read", { storeOf: transactionStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid transaction ID" });
@@ -260,27 +282,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Refund transaction
-  app.post("/api/transactions/:id/refund", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER, USER_ROLES.SUPERVISOR]), async (req, res) => {
+  app.post("/api/transactions/:id/refund", isAuthenticated, requirePermission("transactions", "refund", { storeOf: transactionStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid transaction ID" });
     }
     try {
-      const { reason, refundAmount, refundedBy } = req.body;
+      const { reason, refundAmount, refundMethod, reasonCode, restock } = req.body;
+      const refundedBy = (req.user as any)?.id ?? req.body.refundedBy;
       
       if (!reason || !refundAmount || !refundedBy) {
         return res.status(400).json({ message: "Reason, refund amount, and refunded by are required" });
       }
+
+      if (refundMethod && !REFUND_METHODS.includes(refundMethod)) {
+        return res.status(400).json({ message: "Invalid refund method" });
+      }
       
+      // A cash refund is paid from the drawer open on the register it was given at
+      const transaction = await storage.getTransaction(id);
+      const drawer = transaction && (refundMethod ?? "cash") === "cash"
+        ? await storage.resolveDrawerSession(transaction.storeId, Number(req.body.registerId) || null)
+        : { success: true as const, data: null };
+      if (!drawer.success) {
+        return res.status(400).json({ message: drawer.message, code: drawer.code });
+      }
+
       const result = await storage.refundTransaction(id, {
         reason,
+        drawerSessionId: drawer.data,
         refundAmount: parseFloat(refundAmount),
         refundedBy,
-        refundedAt: new Date()
+        refundedAt: new Date(),
+        refundMethod,
+        reasonCode,
+        restock: restock !== false,
+        authorize: refundAuthorizer(req.user!, readApprovalTokens(req.body)),
       });
       
       if (!result.success) {
-        return res.status(400).json({ message: result.message });
+        const status = result.code === "APPROVAL_REQUIRED" ? 403 : 400;
+        return res.status(status).json({ message: result.message, code: result.code, ...result.details });
       }
       
       res.json(result);
@@ -291,26 +333,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Void transaction
-  app.post("/api/transactions/:id/void", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER, USER_ROLES.SUPERVISOR]), async (req, res) => {
+  app.post("/api/transactions/:id/void", isAuthenticated, requirePermission("transactions", "void", { storeOf: transactionStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid transaction ID" });
     }
     try {
-      const { reason, voidedBy } = req.body;
+      const { reason } = req.body;
+      const voidedBy = req.user?.id ?? req.body.voidedBy;
       
       if (!reason || !voidedBy) {
         return res.status(400).json({ message: "Reason and voided by are required" });
       }
-      
+
+      // The approval is used up only if the void goes through
       const result = await storage.voidTransaction(id, {
         reason,
         voidedBy,
-        voidedAt: new Date()
+        voidedAt: new Date(),
+        authorize: voidAuthorizer(req.user!, readApprovalTokens(req.body)),
       });
       
       if (!result.success) {
-        return res.status(400).json({ message: result.message });
+        const status = result.code === "NOT_FOUND" ? 404 : result.code === "APPROVAL_REQUIRED" ? 403 : 400;
+        return res.status(status).json({ message: result.message, code: result.code, ...result.details });
       }
       
       res.json(result);
@@ -320,7 +366,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/transactions/:id/items", isAuthenticated, async (req, res) => {
+  app.get("/api/transactions/:id/items", isAuthenticated, requirePermission("transactions", "read", { storeOf: transactionStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid transaction ID" });
@@ -329,7 +375,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(items);
   });
 
-  app.get("/api/transactions/:id/receipt", isAuthenticated, async (req, res) => {
+  app.get("/api/transactions/:id/receipt", isAuthenticated, requirePermission("transactions", "read", { storeOf: transactionStore }), async (req, res) => {
     console.log("🧾 Receipt request received for transaction ID:", req.params.id);
     try {
       const id = parseInt(req.params.id);
@@ -389,15 +435,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Debug endpoint to test API routing
-  app.get("/api/test-receipt", (req, res) => {
+  app.get("/api/test-receipt", isAuthenticated, requirePermission("settings", "read"), (req, res) => {
     console.log("🔧 Test receipt endpoint hit");
     res.json({ message: "Receipt API routing is working", timestamp: new Date().toISOString() });
   });
 
-  app.post("/api/transactions", isAuthenticated, async (req, res) => {
+  app.post("/api/transactions", isAuthenticated, requirePermission("transactions", "create"), async (req, res) => {
     try {
       console.log("Transaction request body:", JSON.stringify(req.body, null, 2));
 
+      // A retried checkout carries the same idempotency key; return the sale
+      // that was already recorded instead of creating a duplicate. A retry
+      // racing the first attempt is caught when the sale is inserted.
+      const idempotencyKey = typeof req.body.idempotencyKey === "string" ? req.body.idempotencyKey.trim() : "";
+      if (idempotencyKey) {
+        const existing = await storage.getTransactionByIdempotencyKey(idempotencyKey);
+        if (existing) {
+          const transactionItems = await storage.getTransactionItems(existing.id);
+          return res.status(200).json({ transaction: existing, transactionItems, duplicate: true });
+        }
+      }
+
       const rawStoreId = req.body.storeId;
       const storeId = typeof rawStoreId === "number" ? rawStoreId : parseInt(String(rawStoreId ?? ""), 10);
       if (!storeId || Number.isNaN(storeId) || storeId <= 0) {
@@ -446,6 +504,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log(`✅ Day validation passed: Open day ${openDay.date}, Transaction date ${transactionDate}`);
+
+      // Coupons, usage limits and customer targeting may have changed since the cart was priced,
+      // and the promotion discount must be what the store's deals give on these lines
+      const redemption = readSaleRedemption(req.body, storeId);
+      if (!redemption) {
+        return res.status(400).json({ message: "Invalid coupon or promotion details on the sale" });
+      }
+      const redemptionRejection =
+        (await storage.checkPromotionRedemption(redemption)) ??
+        (await storage.checkPromotionPricing(
+          redemption,
+          Array.isArray(req.body.items) ? req.body.items : [],
+          parseFloat(req.body.promotionDiscountAmount ?? "0") || 0
+        ));
+      if (redemptionRejection) {
+        return res.status(400).json({
+          message: redemptionRejection.message,
+          code: "PROMOTION_UNAVAILABLE",
+          reason: redemptionRejection.code
+        });
+      }
+
+      // Manual discounts and below-price lines need a manager's approval token
+      const approvalRejection = await enforceSaleApprovals(req.user!, storeId, req.body, readApprovalTokens(req.body));
+      if (approvalRejection) {
+        return res.status(403).json(approvalRejection);
+      }
+      
+      // Cash goes into the drawer open on the register the sale was rung up on
+      const drawer = await storage.resolveDrawerSession(storeId, Number(req.body.registerId) || null);
+      if (!drawer.success) {
+        return res.status(400).json({ message: drawer.message, code: drawer.code });
+      }
       
       // Always generate transaction number on server side to avoid race conditions
       // This ensures uniqueness even with concurrent requests
@@ -455,7 +546,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let transactionData;
       try {
         // Override client-provided transaction number with server-generated one
-        const bodyWithServerNumber = { ...req.body, transactionNumber: serverGeneratedTransactionNumber };
+        const bodyWithServerNumber = {
+          ...req.body,
+          transactionNumber: serverGeneratedTransactionNumber,
+          drawerSessionId: drawer.data,
+          idempotencyKey: idempotencyKey || null,
+        };
         transactionData = insertTransactionSchema.parse(bodyWithServerNumber);
         console.log("Parsed transaction data:", JSON.stringify(transactionData, null, 2));
       } catch (validationError) {
@@ -473,15 +569,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         throw validationError;
       }
       
-      const transaction = await storage.createTransaction(transactionData);
-      
-      let transactionItems: any[] = [];
-      
-      // Create transaction items if provided
+      // Items are checked before anything is written so a bad line cannot leave half a sale behind
+      const saleItems: Omit<InsertTransactionItem, "transactionId">[] = [];
       if (req.body.items && Array.isArray(req.body.items)) {
         for (const itemData of req.body.items) {
-          console.log("Processing item:", JSON.stringify(itemData, null, 2));
-          
           // Normalize productId - ensure it's a valid number or null
           let normalizedProductId: number | null = null;
           if (itemData.productId !== null && itemData.productId !== undefined) {
@@ -501,70 +592,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           }
           
-          const item = insertTransactionItemSchema.parse({
+          saleItems.push(insertTransactionItemSchema.omit({ transactionId: true }).parse({
             ...itemData,
             productId: normalizedProductId,
-            transactionId: transaction.id,
+            quantity: String(itemData.quantity ?? 1),
             unitPrice: itemData.unitPrice ? String(itemData.unitPrice) : String(itemData.price || 0),
             total: String(itemData.total || 0)
-          });
-          const createdItem = await storage.createTransactionItem(item);
-          transactionItems.push(createdItem);
+          }));
         }
       }
       
-      // Update inventory stock when transaction is completed
-      console.log(`📦 Stock reduction check: transaction.status=${transaction.status}, transactionItems.length=${transactionItems.length}`);
-      
-      if (transaction.status === 'completed' && transactionItems.length > 0) {
-        console.log(`🔄 Starting stock reduction for ${transactionItems.length} items`);
-        
-        for (const item of transactionItems) {
-          // Ensure quantity is a number
-          const quantity = typeof item.quantity === 'number' ? item.quantity : parseInt(String(item.quantity || 0), 10);
-          
-          console.log(`📦 Processing item: productId=${item.productId}, quantity=${quantity} (type: ${typeof item.quantity})`);
-          
-          if (item.productId && quantity > 0) {
-            try {
-              // Update store-specific stock
-              await storage.updateStoreProductStock(
-                storeId,
-                item.productId,
-                quantity,
-                'subtract'
-              );
-              console.log(`✅ Updated storeProductStock for product ${item.productId}: subtracted ${quantity} units`);
-              
-              // Also update main product stock (for product detail page and inventory views)
-              const product = await productStorage.getProduct(item.productId);
-              if (product) {
-                const currentStock = typeof product.stock === 'number' ? product.stock : parseInt(String(product.stock || 0), 10);
-                const newStock = Math.max(0, currentStock - quantity);
-                const currentQuantity = typeof product.quantity === 'number' ? product.quantity : parseInt(String(product.quantity || 0), 10);
-                const newQuantity = Math.max(0, currentQuantity - quantity);
-                
-                console.log(`📊 Product ${item.productId} stock: ${currentStock} -> ${newStock} (subtracted ${quantity})`);
-                
-                await productStorage.updateProduct(item.productId, {
-                  stock: newStock,
-                  quantity: newQuantity
-                });
-                console.log(`✅ Updated main product stock for product ${item.productId}: subtracted ${quantity} units (new stock: ${newStock})`);
-              } else {
-                console.warn(`⚠️ Product ${item.productId} not found when updating main product stock`);
-              }
-            } catch (stockError) {
-              console.error(`❌ Failed to update stock for product ${item.productId}:`, stockError);
-              console.error(`❌ Error details:`, stockError instanceof Error ? stockError.stack : stockError);
-              // Don't fail the transaction if stock update fails, but log the error
-            }
-          } else {
-            console.warn(`⚠️ Skipping stock update for item: productId=${item.productId}, quantity=${quantity} (invalid data)`);
-          }
+      // The sale, its items, the stock it takes and its promotion usage are written in one database transaction
+      const sale = await createSaleWithFreshNumber(transactionData, saleItems, redemption);
+      if (!sale.success) {
+        if (sale.code === "PROMOTION_UNAVAILABLE") {
+          return res.status(400).json({ message: sale.message, code: sale.code, reason: sale.details.reason });
         }
-      } else {
-        console.warn(`⚠️ Stock reduction skipped: transaction.status=${transaction.status}, items=${transactionItems.length}`);
+        const status = sale.code === "INVALID_UNIT" ? 400 : 409;
+        return res.status(status).json({ message: sale.message, code: sale.code, details: sale.details });
+      }
+      const { transaction, transactionItems } = sale;
+      if (sale.duplicate) {
+        return res.status(200).json({ transaction, transactionItems, duplicate: true });
       }
       
       // Update customer credit balance and create credit transaction if payment method is credit
@@ -624,146 +673,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return;
     } catch (error) {
       console.error("Transaction creation error:", error);
-      // Handle duplicate transaction number error with multiple retries
-      const isDuplicateKeyError = error instanceof Error && (
-        error.message.includes('duplicate key value violates unique constraint') ||
-        error.message.includes('transactions_transaction_number_unique') ||
-        (error as any).code === '23505' // PostgreSQL unique violation error code
-      );
-      
-      if (isDuplicateKeyError) {
-        const maxRetries = 3;
-        let attempts = 0;
-        
-        while (attempts < maxRetries) {
-          try {
-            attempts++;
-            console.log(`Duplicate transaction number detected, generating new one... (attempt ${attempts}/${maxRetries})`);
-            const newTransactionNumber = await storage.generateTransactionNumber();
-            const updatedData = { ...insertTransactionSchema.parse(req.body), transactionNumber: newTransactionNumber };
-            
-            const transaction = await storage.createTransaction(updatedData);
-            
-            let transactionItems: any[] = [];
-            if (req.body.items && Array.isArray(req.body.items)) {
-              for (const itemData of req.body.items) {
-                // Normalize productId - ensure it's a valid number or null
-                let normalizedProductId: number | null = null;
-                if (itemData.productId !== null && itemData.productId !== undefined) {
-                  const parsed = typeof itemData.productId === 'string' 
-                    ? parseInt(itemData.productId, 10) 
-                    : Number(itemData.productId);
-                  
-                  if (!isNaN(parsed) && parsed > 0 && parsed <= 2147483647) {
-                    normalizedProductId = parsed;
-                  } else if (!isNaN(parsed)) {
-                    console.error(`Invalid productId value: ${itemData.productId} (parsed as ${parsed})`);
-                    return res.status(400).json({
-                      message: "Invalid productId",
-                      error: `productId must be a valid integer between 1 and 2147483647, got: ${itemData.productId}`,
-                      receivedProductId: itemData.productId
-                    });
-                  }
-                }
-                
-                const item = insertTransactionItemSchema.parse({
-                  ...itemData,
-                  productId: normalizedProductId,
-                  transactionId: transaction.id,
-                  unitPrice: itemData.unitPrice ? String(itemData.unitPrice) : String(itemData.price || 0),
-                  total: String(itemData.total || 0)
-                });
-                const createdItem = await storage.createTransactionItem(item);
-                transactionItems.push(createdItem);
-              }
-            }
-            
-            // Update inventory stock when transaction is completed
-            if (transaction.status === 'completed' && transactionItems.length > 0) {
-              const transactionStoreId = transaction.storeId;
-              for (const item of transactionItems) {
-                if (item.productId && item.quantity) {
-                  try {
-                    // Update store-specific stock
-                    await storage.updateStoreProductStock(
-                      transactionStoreId,
-                      item.productId,
-                      item.quantity,
-                      'subtract'
-                    );
-                    console.log(`✅ Updated storeProductStock for product ${item.productId}: subtracted ${item.quantity} units`);
-                    
-                    // Also update main product stock (for product detail page and inventory views)
-                    const product = await productStorage.getProduct(item.productId);
-                    if (product) {
-                      const currentStock = product.stock || 0;
-                      const newStock = Math.max(0, currentStock - item.quantity);
-                      const currentQuantity = product.quantity || 0;
-                      const newQuantity = Math.max(0, currentQuantity - item.quantity);
-                      
-                      await productStorage.updateProduct(item.productId, {
-                        stock: newStock,
-                        quantity: newQuantity
-                      });
-                      console.log(`✅ Updated main product stock for product ${item.productId}: subtracted ${item.quantity} units (new stock: ${newStock})`);
-                    } else {
-                      console.warn(`⚠️ Product ${item.productId} not found when updating main product stock`);
-                    }
-                  } catch (stockError) {
-                    console.error(`❌ Failed to update stock for product ${item.productId}:`, stockError);
-                    // Don't fail the transaction if stock update fails, but log the error
-                  }
-                }
-              }
-            }
-            
-            // Update customer credit balance if payment method is credit
-            if (transaction.paymentMethod === 'credit' && transaction.customerId) {
-              try {
-                const customer = await storage.getCustomer(transaction.customerId);
-                if (customer) {
-                  const currentBalance = parseFloat(String(customer.creditBalance || "0"));
-                  const transactionTotal = parseFloat(String(transaction.total || "0"));
-                  const newBalance = (currentBalance + transactionTotal).toFixed(2);
-                  
-                  await storage.updateCustomerCreditBalance(transaction.customerId, newBalance);
-                  console.log(`Updated customer ${transaction.customerId} credit balance to ${newBalance}`);
-                }
-              } catch (creditError) {
-                console.error("Failed to update customer credit balance:", creditError);
-                // Don't fail the transaction if credit balance update fails
-              }
-            }
-            
-            const invoiceResult = await generateInvoiceForTransaction({
-              transaction,
-              transactionItems,
-              shareVia: req.body?.shareVia,
-              forceWhatsappLink: true,
-            });
-
-            if (invoiceResult.error) {
-              console.error("Invoice generation error:", invoiceResult.error);
-            }
-
-            res.status(201).json({
-              transaction,
-              transactionItems,
-              generatedInvoice: invoiceResult.generatedInvoice,
-              whatsappLink: invoiceResult.whatsappLink,
-            });
-            return;
-          } catch (retryError) {
-            console.error(`Retry ${attempts} failed:`, retryError);
-            if (attempts === maxRetries) {
-              console.error("All retry attempts failed");
-              break;
-            }
-            // Wait a bit before retrying
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-        }
-      }
       
       if (error instanceof Error) {
         console.error("Error message:", error.message);
@@ -777,7 +686,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/transactions/:id/items", async (req, res) => {
+  app.get("/api/transactions/:id/items", isAuthenticated, requirePermission("transactions", "read", { storeOf: transactionStore }), async (req, res) => {
     const transactionId = parseInt(req.params.id);
     if (isNaN(transactionId) || transactionId <= 0) {
       return res.status(400).json({ message: "Invalid transaction ID" });
@@ -786,7 +695,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(items);
   });
 
-  app.patch("/api/transactions/:id/mark-printed", async (req, res) => {
+  app.patch("/api/transactions/:id/mark-printed", isAuthenticated, requirePermission("transactions", "print", { storeOf: transactionStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid transaction ID" });
@@ -803,13 +712,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Held Transactions
-  app.get("/api/held-transactions", async (req, res) => {
+  app.get("/api/held-transactions", isAuthenticated, requirePermission("transactions", "hold"), async (req, res) => {
     const heldTransactions = await storage.getHeldTransactions();
     res.json(heldTransactions);
   });
 
   // VAT Configurations
-  app.get("/api/vat-configurations/:storeId", async (req, res) => {
+  app.get("/api/vat-configurations/:storeId", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       const vatConfigs = await storage.getVatConfigurations(storeId);
@@ -820,7 +729,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/held-transactions", async (req, res) => {
+  app.post("/api/held-transactions", isAuthenticated, requirePermission("transactions", "hold"), async (req, res) => {
     try {
       const heldTxData = insertHeldTransactionSchema.parse(req.body);
       const heldTransaction = await storage.createHeldTransaction(heldTxData);
@@ -830,7 +739,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/held-transactions/:id", async (req, res) => {
+  app.get("/api/held-transactions/:id", isAuthenticated, requirePermission("transactions", "hold", { storeOf: heldTransactionStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid held transaction ID" });
@@ -842,7 +751,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(heldTransaction);
   });
 
-  app.delete("/api/held-transactions/:id", async (req, res) => {
+  app.delete("/api/held-transactions/:id", isAuthenticated, requirePermission("transactions", "hold", { storeOf: heldTransactionStore }), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid held transaction ID" });
@@ -859,7 +768,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Credit Transactions
-  app.get("/api/credit-transactions", isAuthenticated, async (req, res) => {
+  app.get("/api/credit-transactions", isAuthenticated, requirePermission("transactions", "read"), async (req, res) => {
     try {
       const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
       const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
@@ -873,7 +782,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/credit-transactions", isAuthenticated, async (req, res) => {
+  app.post("/api/credit-transactions", isAuthenticated, requirePermission("transactions", "create"), async (req, res) => {
     try {
       const creditTransactionData = insertCreditTransactionSchema.parse(req.body);
       
@@ -892,7 +801,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/credit-transactions/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/credit-transactions/:id", isAuthenticated, requirePermission("transactions", "read"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id) || id <= 0) {
       return res.status(400).json({ message: "Invalid credit transaction ID" });
@@ -905,7 +814,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get transactions by date
-  app.get("/api/transactions/date/:date", async (req, res) => {
+  app.get("/api/transactions/date/:date", isAuthenticated, requirePermission("transactions", "read"), async (req, res) => {
     try {
       const date = req.params.date;
       const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
@@ -919,16 +828,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
-  // Sales reporting
-  app.get("/api/reports/sales", async (req, res) => {
-    const { date, start_date, end_date } = req.query;
+  // Sales reporting, with gross margin from the cost stamped on each sold item
+  app.get("/api/reports/sales", isAuthenticated, requirePermission("reports", "read", { storeOf: async (req) => Number(req.query.storeId) }), async (req, res) => {
+    const parsed = salesReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid filters", errors: parsed.error.errors });
+    }
+    const { date, start_date, end_date, storeId } = parsed.data;
     
     try {
       let transactions;
       if (date) {
-        transactions = await storage.getTransactionsByDate(date as string);
+        transactions = await storage.getTransactionsByDate(date, storeId);
       } else {
         transactions = await storage.getTransactions();
+        if (storeId) {
+          transactions = transactions.filter(t => t.storeId === storeId);
+        }
         // Filter by date range if provided
         if (start_date && end_date) {
           transactions = transactions.filter(t => {
@@ -940,6 +856,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const completedTransactions = transactions.filter(t => t.status === 'completed');
+      const margins = summariseMargins(
+        await storage.getSoldLines(date ? { date, storeId } : start_date && end_date ? { start_date, end_date, storeId } : { storeId }),
+      );
       
       const report = {
         totalSales: completedTransactions.reduce((sum, t) => sum + parseFloat(t.total), 0),
@@ -955,17 +874,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .reduce((sum, t) => sum + parseFloat(t.total), 0),
         averageTransaction: completedTransactions.length > 0 
           ? completedTransactions.reduce((sum, t) => sum + parseFloat(t.total), 0) / completedTransactions.length 
-          : 0
+          : 0,
+        // Item revenue before VAT and basket-level discounts, less the cost of the goods
+        grossMargin: margins.totals,
+        marginByProduct: margins.byProduct,
+        marginByParent: margins.byParent,
+        marginByCategory: margins.byCategory,
+        marginByDay: margins.byDay,
       };
 
       res.json(report);
     } catch (error) {
+      console.error("Error generating sales report:", error);
       res.status(500).json({ message: 'Failed to generate sales report', error });
     }
   });
 
   // Report stats endpoint
-  app.get("/api/reports/stats", isAuthenticated, async (req, res) => {
+  app.get("/api/reports/stats", isAuthenticated, requirePermission("reports", "read"), async (req, res) => {
     try {
       const { date, storeId } = req.query;
       
@@ -990,7 +916,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // AI Reports endpoints
 
   // User Store Assignment endpoints (Admin only)
-  app.get("/api/admin/users", async (req, res) => {
+  app.get("/api/admin/users", isAuthenticated, requirePermission("users", "read"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       res.json(users);
@@ -1000,7 +926,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/users/:userId/stores", isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.get("/api/admin/users/:userId/stores", isAuthenticated, requirePermission("users", "read"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       if (isNaN(userId)) {
@@ -1019,7 +945,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/stores/:storeId/users", isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.get("/api/admin/stores/:storeId/users", isAuthenticated, requirePermission("users", "read"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       if (isNaN(storeId)) {
@@ -1034,7 +960,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/users/:userId/stores/:storeId/assign", isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.post("/api/admin/users/:userId/stores/:storeId/assign", isAuthenticated, requirePermission("users", "update"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const storeId = parseInt(req.params.storeId);
@@ -1060,7 +986,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/users/:userId/stores/:storeId", isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.delete("/api/admin/users/:userId/stores/:storeId", isAuthenticated, requirePermission("users", "update"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const storeId = parseInt(req.params.storeId);
@@ -1082,7 +1008,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/admin/users/:userId/stores/:storeId/access", isAuthenticated, requireRole([USER_ROLES.ADMIN]), async (req, res) => {
+  app.patch("/api/admin/users/:userId/stores/:storeId/access", isAuthenticated, requirePermission("users", "update"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const storeId = parseInt(req.params.storeId);
@@ -1110,7 +1036,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Risk Assessment endpoints
-  app.post("/api/risk/assess", async (req, res) => {
+  app.post("/api/risk/assess", isAuthenticated, requirePermission("risk", "read"), async (req, res) => {
     try {
       const { assessTransactionRisk } = await import("./risk-assessment-service");
       const riskAssessment = await assessTransactionRisk(req.body);
@@ -1124,7 +1050,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/risk/customer/:customerId", async (req, res) => {
+  app.get("/api/risk/customer/:customerId", isAuthenticated, requirePermission("risk", "read"), async (req, res) => {
     try {
       const customerId = parseInt(req.params.customerId);
       if (isNaN(customerId) || customerId <= 0) {
@@ -1143,7 +1069,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/risk/daily/:date", async (req, res) => {
+  app.get("/api/risk/daily/:date", isAuthenticated, requirePermission("risk", "read"), async (req, res) => {
     try {
       const date = req.params.date;
       const { getDailyRiskSummary } = await import("./risk-assessment-service");
@@ -1256,34 +1182,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Returns endpoint
-  app.post("/api/returns", async (req, res) => {
-    try {
-      const { transactionId, items, reason } = req.body;
-      
-      // In a real app, you'd create a returns table and process the refund
-      // For now, we'll just acknowledge the return
-      const returnData = {
-        id: Date.now(),
-        transactionId,
-        items,
-        reason,
-        status: 'processed',
-        refundAmount: items.reduce((sum: number, item: any) => {
-          return sum + (item.price || 0) * (item.quantity || 0);
-        }, 0),
-        processedAt: new Date().toISOString()
-      };
-      
-      res.status(201).json(returnData);
-    } catch (error) {
-      console.error("Error processing return:", error);
-      res.status(500).json({ message: "Failed to process return" });
-    }
-  });
-
   // Image upload endpoint
-  app.post("/api/upload/image", imageUpload.single('image'), async (req, res) => {
+  app.post("/api/upload/image", isAuthenticated, requirePermission("uploads", "create"), imageUpload.single('image'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No image file provided" });
@@ -1309,7 +1209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/uploads', express.static('uploads'));
 
   // ========== INVOICE MANAGEMENT ROUTES ==========
-  app.get("/api/invoices/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/invoices/:id", isAuthenticated, requirePermission("invoices", "read", { storeOf: invoiceStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id) || id <= 0) {
@@ -1329,7 +1229,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/invoices/:id/download", isAuthenticated, async (req, res) => {
+  app.get("/api/invoices/:id/download", isAuthenticated, requirePermission("invoices", "read", { storeOf: invoiceStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id) || id <= 0) {
@@ -1338,16 +1238,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const invoice = await storage.getGeneratedInvoice(id);
       
-      if (!invoice || !invoice.pdfFilePath) {
-        return res.status(404).json({ message: "Invoice PDF not found" });
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
       
-      const filePath = path.join(process.cwd(), invoice.pdfFilePath);
-      
-      if (!fs.existsSync(filePath)) {
-        return res.status(404).json({ message: "PDF file not found on server" });
-      }
+      const filePath = await ensureInvoicePdf(invoice);
       
+      res.type("application/pdf");
       res.download(filePath, `invoice-${invoice.invoiceNumber}.pdf`);
     } catch (error: any) {
       console.error("Error downloading invoice:", error);
@@ -1358,7 +1255,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== STOCK ADJUSTMENT ROUTES ==========
   
   // Get stock adjustments (optional product filter)
-  app.get("/api/stock-adjustments", async (req, res) => {
+  app.get("/api/stock-adjustments", isAuthenticated, requirePermission("inventory", "read"), async (req, res) => {
     try {
       const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
       const adjustments = await storage.getStockAdjustments(productId);
@@ -1369,7 +1266,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create manual stock adjustment
-  app.post("/api/stock-adjustments", async (req, res) => {
+  app.post("/api/stock-adjustments", isAuthenticated, requirePermission("inventory", "update"), async (req, res) => {
     try {
       const adjustmentData = insertStockAdjustmentSchema.parse(req.body);
       const adjustment = await storage.createStockAdjustment(adjustmentData);
@@ -1386,6 +1283,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(201).json(adjustment);
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message, code: "INSUFFICIENT_STOCK", details: error.shortage });
+      }
       res.status(400).json({ message: "Failed to create stock adjustment", error });
     }
   });
@@ -1393,7 +1293,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== SAVED REPORTS ROUTES ==========
   
   // Get all saved reports
-  app.get("/api/saved-reports", async (req, res) => {
+  app.get("/api/saved-reports", isAuthenticated, requirePermission("reports", "read"), async (req, res) => {
     try {
       const reports = await storage.getSavedReports();
       res.json(reports);
@@ -1403,7 +1303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific saved report
-  app.get("/api/saved-reports/:id", async (req, res) => {
+  app.get("/api/saved-reports/:id", isAuthenticated, requirePermission("reports", "read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -1422,7 +1322,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new saved report
-  app.post("/api/saved-reports", async (req, res) => {
+  app.post("/api/saved-reports", isAuthenticated, requirePermission("reports", "save"), async (req, res) => {
     try {
       const reportData = insertSavedReportSchema.parse(req.body);
       const report = await storage.createSavedReport(reportData);
@@ -1433,7 +1333,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update saved report
-  app.patch("/api/saved-reports/:id", async (req, res) => {
+  app.patch("/api/saved-reports/:id", isAuthenticated, requirePermission("reports", "save"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -1454,7 +1354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete saved report
-  app.delete("/api/saved-reports/:id", async (req, res) => {
+  app.delete("/api/saved-reports/:id", isAuthenticated, requirePermission("reports", "save"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -1475,7 +1375,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== RISK ASSESSMENT ROUTES ==========
   
   // Assess transaction risk
-  app.post("/api/risk/assess", async (req, res) => {
+  app.post("/api/risk/assess", isAuthenticated, requirePermission("risk", "read"), async (req, res) => {
     try {
       const transactionData = req.body;
       const riskAssessment = await assessTransactionRisk(transactionData);
@@ -1486,7 +1386,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get customer risk history
-  app.get("/api/risk/customer/:id", async (req, res) => {
+  app.get("/api/risk/customer/:id", isAuthenticated, requirePermission("risk", "read"), async (req, res) => {
     try {
       const customerId = parseInt(req.params.id);
       if (isNaN(customerId)) {
@@ -1502,7 +1402,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get daily risk summary
-  app.get("/api/risk/daily/:date", async (req, res) => {
+  app.get("/api/risk/daily/:date", isAuthenticated, requirePermission("risk", "read"), async (req, res) => {
     try {
       const date = req.params.date;
       const riskSummary = await getDailyRiskSummary(date);
@@ -1513,7 +1413,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Stock Upload endpoint
-  app.post("/api/inventory/upload-stock", isAuthenticated, dataFileUpload.single('file'), async (req, res) => {
+  app.post("/api/inventory/upload-stock", isAuthenticated, requirePermission("inventory", "update"), dataFileUpload.single('file'), async (req, res) => {
     try {
       console.log('📤 Stock upload request received');
       console.log('  - File:', req.file ? req.file.originalname : 'NO FILE');
@@ -1755,7 +1655,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== STOCK TAKING ROUTES ==========
   
   // Get all stock taking sessions
-  app.get("/api/stock-taking/sessions", async (req, res) => {
+  app.get("/api/stock-taking/sessions", isAuthenticated, requirePermission("inventory", "read"), async (req, res) => {
     try {
       const sessions = await storage.getStockTakingSessions();
       res.json(sessions);
@@ -1765,7 +1665,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get stock taking session details
-  app.get("/api/stock-taking/sessions/:id", async (req, res) => {
+  app.get("/api/stock-taking/sessions/:id", isAuthenticated, requirePermission("inventory", "read", { storeOf: stockTakingSessionStore }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -1785,7 +1685,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Submit stock taking
-  app.post("/api/stock-taking/submit", async (req, res) => {
+  app.post("/api/stock-taking/submit", isAuthenticated, requirePermission("inventory", "update"), async (req, res) => {
     try {
       const { items, stockDate, storeId } = req.body;
       
@@ -1802,7 +1702,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get stock taking comparison for a specific date
-  app.get("/api/stock-taking/comparison", async (req, res) => {
+  app.get("/api/stock-taking/comparison", isAuthenticated, requirePermission("inventory", "read"), async (req, res) => {
     try {
       const date = req.query.date as string;
       const storeId = req.query.storeId ? parseInt(req.query.storeId as string) : undefined;
@@ -1820,7 +1720,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update products stock to zero
-  app.post("/api/products/update-stock-zero", async (req, res) => {
+  app.post("/api/products/update-stock-zero", isAuthenticated, requirePermission("inventory", "update"), async (req, res) => {
     try {
       const { productIds } = req.body;
       
@@ -1839,7 +1739,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== VAT MANAGEMENT ROUTES ==========
   
   // Get VAT configurations for a store
-  app.get("/api/stores/:storeId/vat-configurations", isAuthenticated, async (req, res) => {
+  app.get("/api/stores/:storeId/vat-configurations", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const storeId = parseInt(req.params.storeId);
       if (isNaN(storeId)) {
@@ -1855,7 +1755,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Alternative endpoint that matches the VATCalculator hook
-  app.get("/api/vat-configurations", isAuthenticated, async (req, res) => {
+  app.get("/api/vat-configurations", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const storeId = parseInt(req.query.storeId as string);
       if (isNaN(storeId)) {
@@ -1871,7 +1771,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create VAT configuration
-  app.post("/api/vat-configurations", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.post("/api/vat-configurations", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
     try {
       const configData = req.body;
       const config = await storage.createVatConfiguration(configData);
@@ -1882,7 +1782,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update VAT configuration
-  app.patch("/api/vat-configurations/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.patch("/api/vat-configurations/:id", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -1900,7 +1800,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete VAT configuration
-  app.delete("/api/vat-configurations/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.delete("/api/vat-configurations/:id", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -1918,7 +1818,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Calculate VAT for items
-  app.post("/api/vat/calculate", isAuthenticated, async (req, res) => {
+  app.post("/api/vat/calculate", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const { items, storeId } = req.body;
       if (!items || !Array.isArray(items) || !storeId) {
@@ -1935,7 +1835,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== CURRENCY MANAGEMENT ROUTES ==========
   
   // Get all currency rates
-  app.get("/api/currency-rates", isAuthenticated, async (req, res) => {
+  app.get("/api/currency-rates", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const rates = await storage.getCurrencyRates();
       res.json(rates);
@@ -1945,7 +1845,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific currency rate
-  app.get("/api/currency-rates/:from/:to", isAuthenticated, async (req, res) => {
+  app.get("/api/currency-rates/:from/:to", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const { from, to } = req.params;
       const rate = await storage.getCurrencyRate(from.toUpperCase(), to.toUpperCase());
@@ -1959,7 +1859,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create currency rate
-  app.post("/api/currency-rates", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.post("/api/currency-rates", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
     try {
       const rateData = req.body;
       const rate = await storage.createCurrencyRate(rateData);
@@ -1970,7 +1870,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update currency rate
-  app.patch("/api/currency-rates/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.patch("/api/currency-rates/:id", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -1988,7 +1888,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Convert currency
-  app.post("/api/currency/convert", isAuthenticated, async (req, res) => {
+  app.post("/api/currency/convert", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const { amount, fromCurrency, toCurrency } = req.body;
       if (!amount || !fromCurrency || !toCurrency) {
@@ -2009,7 +1909,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== CURRENCY MANAGEMENT ROUTES ==========
   
   // Get all currency rates
-  app.get("/api/currency-rates", isAuthenticated, async (req, res) => {
+  app.get("/api/currency-rates", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const rates = await storage.getCurrencyRates();
       res.json(rates);
@@ -2020,7 +1920,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific currency rate
-  app.get("/api/currency-rates/:from/:to", isAuthenticated, async (req, res) => {
+  app.get("/api/currency-rates/:from/:to", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const { from, to } = req.params;
       const rate = await storage.getCurrencyRate(from, to);
@@ -2034,7 +1934,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create currency rate
-  app.post("/api/currency-rates", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.post("/api/currency-rates", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
     try {
       const rateData = req.body;
       const rate = await storage.createCurrencyRate(rateData);
@@ -2045,7 +1945,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update currency rate
-  app.patch("/api/currency-rates/:id", isAuthenticated, requireRole([USER_ROLES.ADMIN, USER_ROLES.MANAGER]), async (req, res) => {
+  app.patch("/api/currency-rates/:id", isAuthenticated, requirePermission("settings", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -2063,7 +1963,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Convert currency amounts
-  app.post("/api/currency/convert", isAuthenticated, async (req, res) => {
+  app.post("/api/currency/convert", isAuthenticated, requirePermission("settings", "read"), async (req, res) => {
     try {
       const { amount, fromCurrency, toCurrency } = req.body;
       const convertedAmount = await storage.convertCurrency(amount, fromCurrency, toCurrency);
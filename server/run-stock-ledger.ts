@@ -0,0 +1,51 @@
+#!/usr/bin/env tsx
+/**
+ * Stock Ledger Script - Run with: npm run stock:verify [storeId]
+ *                              or: npm run stock:rebuild [storeId]
+ * Compares store stock quantities with the sum of their inventory movements,
+ * and on rebuild resets any that drifted to the ledger total.
+ */
+
+import 'dotenv/config';
+import { rebuildStockFromLedger, verifyStockLedger } from "./modules/inventory/storage";
+
+async function run() {
+  const [command, storeArg] = process.argv.slice(2);
+  const storeId = storeArg ? parseInt(storeArg, 10) : undefined;
+
+  if ((command !== "verify" && command !== "rebuild") || (storeArg && (!storeId || storeId <= 0))) {
+    console.log("Usage: tsx server/run-stock-ledger.ts verify|rebuild [storeId]");
+    process.exit(1);
+  }
+
+  const scope = storeId ? `store ${storeId}` : "all stores";
+  console.log(`\n🔍 Checking stock ledger for ${scope}...\n`);
+
+  try {
+    const drifts = command === "rebuild"
+      ? await rebuildStockFromLedger(storeId)
+      : await verifyStockLedger(storeId);
+
+    if (drifts.length === 0) {
+      console.log("✅ Every store quantity matches its ledger.");
+      process.exit(0);
+    }
+
+    for (const drift of drifts) {
+      console.log(`   - Store ${drift.storeId}, product ${drift.productId}: on hand ${drift.cached}, ledger ${drift.ledger}`);
+    }
+
+    if (command === "rebuild") {
+      console.log(`\n✅ Reset ${drifts.length} store quantities to their ledger totals.`);
+      process.exit(0);
+    }
+
+    console.log(`\n⚠️  ${drifts.length} store quantities differ from their ledger. Run npm run stock:rebuild to correct them.`);
+    process.exit(2);
+  } catch (error) {
+    console.error("\n❌ Stock ledger check failed:", error);
+    process.exit(1);
+  }
+}
+
+run();
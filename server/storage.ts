@@ -20,16 +20,56 @@ import {
   type DailyProductMonitoring, type InsertDailyProductMonitoring,
   type Store, type InsertStore, type UserStore, type InsertUserStore, type StoreProduct, type InsertStoreProduct,
   type GeneratedInvoice, type InsertGeneratedInvoice, type GeneratedInvoiceItem, type InsertGeneratedInvoiceItem,
-  type Shift, type InsertShift,
+  type Shift, type InsertShift, type Register, type DrawerSession, type CashMovement, type CashCount, type CashCountPhase, type DenominationSet,
+  type DrawerNoSale, type ZReport,
   type CurrencyRate, type InsertCurrencyRate, type VatConfiguration, type InsertVatConfiguration,
   type CustomerAuth, type InsertCustomerAuth, type Promotion, type InsertPromotion,
-  type PromotionRule, type InsertPromotionRule, type PromotionUsage, type InsertPromotionUsage,
-  type ProductSibling, type InsertProductSibling
+  type PromotionRule, type InsertPromotionRule, type PromotionUsage, type InsertPromotionUsage, type Coupon,
+  type ProductSibling, type InsertProductSibling, type ProductIdentifier, type Return,
+  type Approval, type InsertApproval, type InventoryMovement, type StockLot
 } from "@shared/schema";
+import { canAccessStore } from "@shared/permissions";
+import { resolveUnit, toBaseQuantity } from "@shared/units";
 import { db } from "./db";
 import * as productStorage from "./modules/products/storage";
 import * as transactionStorage from "./modules/transactions/storage";
-import { eq, like, desc, asc, and, or, ilike, gte, lte, sql, isNull, isNotNull } from "drizzle-orm";
+import * as returnStorage from "./modules/returns/storage";
+import * as promotionStorage from "./modules/promotion/storage";
+import * as approvalStorage from "./modules/approvals/storage";
+import * as auditStorage from "./modules/audit/storage";
+import * as inventoryStorage from "./modules/inventory/storage";
+import * as transferStorage from "./modules/transfers/storage";
+import type { CreateTransferInput, DispatchTransferInput, ReceiveTransferInput } from "./modules/transfers/transfers";
+import * as purchasingStorage from "./modules/purchasing/storage";
+import * as tillStorage from "./modules/till/storage";
+import type { CreatePurchaseOrderInput, ReceiveGoodsInput, UpdatePurchaseOrderInput } from "./modules/purchasing/purchasing";
+import type { ConvertSuggestionsInput, ReorderSettings } from "./modules/purchasing/replenishment";
+import { adjustmentMovementType, type LedgerDrift, type StockLotDetails, type StockMovementInput, type StockMovementSource } from "./modules/inventory/ledger";
+import { checkLotCounts, type ExpiringLotsQuery, type LotCountsInput, type WriteOffLotInput } from "./modules/inventory/lots";
+import type { SalesReportQuery, SoldLine, StockValuation, StockValuationQuery } from "./modules/inventory/costing";
+import type { ProductUnitsInput } from "./modules/inventory/units";
+import type { ProductUnitSet, ProductVariants, ProductResult } from "./modules/products/storage";
+import type { CodeBook, ProductIdentifierInput } from "./modules/inventory/identifiers";
+import type { BulkVariantUpdateInput, CreateVariantInput } from "./modules/inventory/variants";
+import type { AuditEntryRow, AuditLogQuery } from "./modules/audit/audit";
+import type { ApprovalDemand, ApprovalRejection } from "./modules/approvals/approvals";
+import type { CouponApplication, CouponBatchInput, PromotionRuleInput } from "./modules/promotion/storage";
+import type { CouponRejection, PromotionRedemption } from "./modules/promotion/coupons";
+import type { PromotionEvaluation } from "./modules/promotion/engine";
+import type { DrawerRollUp } from "./modules/till/drawers";
+import type { DrawerMovementInput, DrawerMovementTotals } from "./modules/till/movements";
+import type { CashCountInput } from "./modules/till/cash-counts";
+import type { DayCloseReconciliation, DayRecords, DeclaredMovements } from "./modules/till/reconciliation";
+import type { Denomination } from "@shared/denominations";
+import type { TillReport } from "@shared/till-reports";
+import { eq, like, desc, asc, and, or, ilike, gte, lte, sql, isNull, isNotNull, inArray } from "drizzle-orm";
+
+// Stock arriving on a supplier invoice: the lot on the invoice line, and the
+// exact base-unit quantity when the adjustment's whole number rounds it
+export interface StockReceiving {
+  lot?: StockLotDetails | null;
+  quantity?: number;
+}
 
 type SanitizedUser = Pick<User, "id" | "username" | "email" | "firstName" | "lastName" | "profileImageUrl" | "role" | "defaultStoreId" | "isActive" | "createdAt" | "updatedAt">;
 
@@ -76,12 +116,26 @@ export interface IStorage {
   getProduct(id: number): Promise<Product | undefined>;
   getProductBySku(sku: string): Promise<Product | undefined>;
   getProductByBarcode(barcode: string): Promise<Product | undefined>;
+  getProductByPlu(plu: string, storeId: number): Promise<Product | undefined>;
+  getPluOwner(plu: string, exceptId?: number): Promise<Pick<Product, "id" | "name"> | undefined>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined>;
   deleteProduct(id: number): Promise<boolean>;
   searchProducts(query: string, category?: string, sort?: string): Promise<Product[]>;
   getRecentProducts(limit?: number): Promise<Product[]>;
   getProductCategories(): Promise<string[]>;
+  getProductUnits(productId: number): Promise<ProductUnitSet | undefined>;
+  setProductUnits(productId: number, input: ProductUnitsInput): Promise<ProductUnitSet | undefined>;
+  getProductVariants(parentId: number, storeId?: number): Promise<ProductVariants | undefined>;
+  setVariantAxes(productId: number, axes: string[]): Promise<ProductResult<Product>>;
+  createVariant(parentId: number, input: CreateVariantInput): Promise<ProductResult<Product>>;
+  detachVariant(variantId: number): Promise<Product | undefined>;
+  updateVariants(parentId: number, input: BulkVariantUpdateInput): Promise<ProductResult<number[]>>;
+  getProductIdentifiers(productId: number): Promise<ProductIdentifier[]>;
+  addProductIdentifier(productId: number, input: ProductIdentifierInput & { createdBy?: number | null }): Promise<ProductResult<ProductIdentifier>>;
+  removeProductIdentifier(productId: number, identifierId: number): Promise<ProductIdentifier | undefined>;
+  rememberProductIdentifiers(entries: Array<ProductIdentifierInput & { productId: number; createdBy?: number | null }>): Promise<ProductIdentifier[]>;
+  getCodeBook(owner: { supplierId?: number | null; competitorId?: number | null }): Promise<CodeBook>;
 
   // Product Siblings
   getProductSiblings(productId: number): Promise<Array<ProductSibling & { siblingProduct: Product }>>;
@@ -89,14 +143,77 @@ export interface IStorage {
   removeProductSibling(siblingRelationId: number): Promise<boolean>;
 
   // Transactions
-  getTransactions(storeId?: number): Promise<Transaction[]>;
+  getTransactions(storeId?: number | number[]): Promise<Transaction[]>;
   getTransaction(id: number): Promise<Transaction | undefined>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
-  refundTransaction(id: number, refundData: { reason: string; refundAmount: number; refundedBy: number; refundedAt: Date }): Promise<{ success: boolean; message: string; refundedTransaction?: Transaction }>;
-  voidTransaction(id: number, voidData: { reason: string; voidedBy: number; voidedAt: Date }): Promise<{ success: boolean; message: string; voidedTransaction?: Transaction }>;
+  refundTransaction(id: number, refundData: transactionStorage.RefundPayload): Promise<{ success: boolean; message: string; code?: string; details?: Record<string, unknown>; refundedTransaction?: Transaction; return?: returnStorage.ReturnWithItems }>;
+  voidTransaction(id: number, voidData: transactionStorage.VoidPayload): Promise<{ success: boolean; message: string; code?: string; details?: Record<string, unknown>; voidedTransaction?: Transaction }>;
   getTransactionsByDate(date: string, storeId?: number): Promise<Transaction[]>;
+  getSoldLines(query: SalesReportQuery): Promise<SoldLine[]>;
   generateTransactionNumber(): Promise<string>;
+  getTransactionByIdempotencyKey(idempotencyKey: string): Promise<Transaction | undefined>;
+  getProductsForSale(storeId: number, productIds: number[]): Promise<Array<{ id: number; name: string; isActive: boolean | null; storeActive: boolean | null }>>;
+  createSale(
+    transaction: InsertTransaction,
+    items: Omit<InsertTransactionItem, "transactionId">[],
+    redemption?: PromotionRedemption,
+  ): Promise<transactionStorage.CreateSaleResult>;
+  createSyncedSale(
+    transaction: InsertTransaction & { idempotencyKey: string; createdAt: Date },
+    items: Omit<InsertTransactionItem, "transactionId">[],
+    redemption?: PromotionRedemption,
+  ): Promise<{ transaction: Transaction; transactionItems: TransactionItem[]; duplicate: boolean }>;
+
+  // Returns
+  getReturnableItems(transactionId: number): Promise<returnStorage.ReturnableItem[] | undefined>;
+  getReturns(filters?: { transactionId?: number; storeId?: number; storeIds?: number[] }): Promise<Return[]>;
+  getReturn(id: number): Promise<returnStorage.ReturnWithItems | undefined>;
+  createReturn(input: returnStorage.CreateReturnInput): Promise<{ success: boolean; message: string; code?: string; details?: Record<string, unknown>; return?: returnStorage.ReturnWithItems }>;
+
+  // Inter-store transfers
+  getStockTransfers(filters?: { storeId?: number; storeIds?: number[]; open?: boolean }): Promise<transferStorage.TransferWithItems[]>;
+  getStockTransfer(id: number): Promise<transferStorage.TransferWithItems | undefined>;
+  createStockTransfer(input: CreateTransferInput & { requestedBy?: number | null }): Promise<transferStorage.TransferResult>;
+  dispatchStockTransfer(id: number, input: DispatchTransferInput & { dispatchedBy?: number | null }): Promise<transferStorage.TransferResult>;
+  receiveStockTransfer(id: number, input: ReceiveTransferInput & { receivedBy?: number | null }): Promise<transferStorage.TransferResult>;
+  cancelStockTransfer(id: number, input: { cancelledBy?: number | null; reason?: string | null }): Promise<transferStorage.TransferResult>;
+  getInTransitStock(storeId: number): Promise<transferStorage.InTransitStock[]>;
+
+  // Purchase orders, goods received notes and invoice matching
+  getPurchaseOrders(filters?: purchasingStorage.PurchaseOrderFilters): Promise<purchasingStorage.PurchaseOrderWithItems[]>;
+  getPurchaseOrder(id: number): Promise<purchasingStorage.PurchaseOrderWithItems | undefined>;
+  createPurchaseOrder(input: CreatePurchaseOrderInput & { createdBy?: number | null }): Promise<purchasingStorage.PurchasingResult>;
+  updatePurchaseOrder(id: number, input: UpdatePurchaseOrderInput): Promise<purchasingStorage.PurchasingResult>;
+  sendPurchaseOrder(id: number, sentBy?: number | null): Promise<purchasingStorage.PurchasingResult>;
+  cancelPurchaseOrder(id: number, input: { reason?: string | null; cancelledBy?: number | null }): Promise<purchasingStorage.PurchasingResult>;
+  receivePurchaseOrder(id: number, input: ReceiveGoodsInput & { receivedBy?: number | null }): Promise<purchasingStorage.PurchasingResult>;
+  getSupplierInvoiceMatch(invoiceId: number): Promise<purchasingStorage.SupplierInvoiceMatch | undefined>;
+  linkSupplierInvoice(invoiceId: number, purchaseOrderId: number): Promise<purchasingStorage.PurchasingResult & { match?: purchasingStorage.SupplierInvoiceMatch }>;
+  acceptSupplierInvoiceMatch(invoiceId: number, input: { reason: string; acceptedBy?: number | null }): Promise<purchasingStorage.PurchasingResult & { match?: purchasingStorage.SupplierInvoiceMatch }>;
+  getReorderSuggestions(storeId: number, settings: ReorderSettings): Promise<purchasingStorage.ReorderSuggestions | undefined>;
+  convertReorderSuggestions(storeId: number, input: ConvertSuggestionsInput & { createdBy?: number | null }): Promise<purchasingStorage.ReorderConversionResult>;
+
+  // Manager approvals
+  getUserByBadgeCode(badgeCode: string): Promise<User | undefined>;
+  setApprovalCredentials(userId: number, credentials: { approvalPin?: string | null; badgeCode?: string | null }): Promise<User | undefined>;
+  createApproval(data: Omit<InsertApproval, "token">): Promise<Approval>;
+  redeemApprovals(
+    demands: ApprovalDemand[],
+    tokens: string[],
+    context: { storeId: number; userId: number; now: Date },
+    executor?: approvalStorage.ApprovalExecutor,
+  ): Promise<ApprovalRejection | null>;
+  getApprovals(filters?: { storeId?: number; storeIds?: number[]; limit?: number }): Promise<approvalStorage.ApprovalLogEntry[]>;
+  recordFailedApproval(attempt: approvalStorage.FailedApproval): Promise<void>;
+  countFailedApprovals(
+    attempt: { approver: string | null; requestedBy: number },
+    since: Date,
+  ): Promise<{ approver: number; requester: number }>;
+
+  // Audit trail
+  getAuditLogs(filters?: Partial<AuditLogQuery>): Promise<AuditEntryRow[]>;
+
   getReportStats(date: string, storeId?: number): Promise<{
     todaysRevenue: number;
     todaysOrders: number;
@@ -118,6 +235,7 @@ export interface IStorage {
   getLastClosedDayOperation(storeId?: number): Promise<DayOperation | undefined>;
   listDayOperations(options?: {
     storeId?: number;
+    storeIds?: number[];
     status?: DayOperation["status"];
     limit?: number;
     offset?: number;
@@ -159,7 +277,7 @@ export interface IStorage {
 
   // Stock Adjustments
   getStockAdjustments(productId?: number): Promise<StockAdjustment[]>;
-  createStockAdjustment(adjustment: InsertStockAdjustment): Promise<StockAdjustment>;
+  createStockAdjustment(adjustment: InsertStockAdjustment, receiving?: StockReceiving): Promise<StockAdjustment>;
   getStockAdjustmentsByInvoice(invoiceId: number): Promise<StockAdjustment[]>;
 
   // Supplier Payments
@@ -190,9 +308,12 @@ export interface IStorage {
   updateProductDailyMonitoring(productId: number, requiresDailyMonitoring: boolean): Promise<Product | undefined>;
   getDailyProductMonitoring(date: string): Promise<DailyProductMonitoring[]>;
   getDailyProductMonitoringByDayOperation(dayOperationId: number): Promise<DailyProductMonitoring[]>;
+  getDailyProductMonitoringById(id: number): Promise<DailyProductMonitoring | undefined>;
   initializeDailyProductMonitoring(dayOperationId: number): Promise<DailyProductMonitoring[]>;
   updateDailyProductMonitoring(id: number, data: Partial<InsertDailyProductMonitoring>): Promise<DailyProductMonitoring | undefined>;
   reconcileDailyProductMonitoring(id: number, actualClosingStock: number, notes?: string, reconciledBy?: number): Promise<DailyProductMonitoring | undefined>;
+  getDailyProductMonitoringLots(id: number): Promise<inventoryStorage.LotBreakdown | undefined>;
+  reconcileDailyProductMonitoringByLot(id: number, input: LotCountsInput, reconciledBy?: number): Promise<inventoryStorage.LotReconciliationResult>;
 
   // Shift management
   getActiveShifts(storeId?: number): Promise<Shift[]>;
@@ -200,6 +321,41 @@ export interface IStorage {
   updateShift(id: number, shift: Partial<InsertShift>): Promise<Shift | undefined>;
   closeShift(id: number): Promise<Shift | undefined>;
 
+  // Registers and drawer sessions
+  getRegisters(storeId: number, activeOnly?: boolean): Promise<Register[]>;
+  getRegister(id: number): Promise<Register | undefined>;
+  createRegister(input: { storeId: number; name: string; cashCeiling?: number | null }): Promise<tillStorage.TillResult<Register>>;
+  updateRegister(id: number, update: { name?: string; isActive?: boolean; cashCeiling?: number | null }): Promise<tillStorage.TillResult<Register>>;
+  getDrawerSession(id: number): Promise<DrawerSession | undefined>;
+  getDrawerSessions(filters: { storeId?: number; storeIds?: number[]; dayOperationId?: number; status?: string }): Promise<DrawerSession[]>;
+  openDrawerSession(input: { registerId: number; openingFloat: number; openedBy: number | null }): Promise<tillStorage.TillResult<DrawerSession>>;
+  closeDrawerSession(id: number, input: { countedCash: number; notes?: string | null; closedBy: number | null }): Promise<tillStorage.TillResult<DrawerSession>>;
+  resolveDrawerSession(storeId: number, registerId?: number | null): Promise<tillStorage.TillResult<number | null>>;
+  getDayDrawers(dayOperationId: number): Promise<DrawerRollUp>;
+  recordDrawerMovement(sessionId: number, input: DrawerMovementInput, cashierId: number | null): Promise<tillStorage.TillResult<CashMovement>>;
+  getDrawerMovements(sessionId: number): Promise<CashMovement[]>;
+  getDrawerCeilingStatus(registerId: number): Promise<{ sessionId: number | null; hasCeiling: boolean; overCeiling: boolean }>;
+  getDayDrawerMovements(dayOperationId: number): Promise<DrawerMovementTotals>;
+
+  // Denomination sets and per-currency cash counts
+  getDenominationSets(): Promise<Record<string, Denomination[]>>;
+  saveDenominationSet(currency: string, denominations: Denomination[], updatedBy: number | null): Promise<DenominationSet>;
+  getCashCounts(dayOperationId: number, phase?: CashCountPhase): Promise<CashCount[]>;
+  saveCashCounts(dayOperationId: number, input: CashCountInput, countedBy: number | null): Promise<CashCount[]>;
+  carryForeignCashForward(dayOperation: DayOperation): Promise<CashCount[]>;
+  getDayCurrencyCash(dayOperationId: number): Promise<tillStorage.DayCurrencies | undefined>;
+
+  // Day-close reconciliation
+  getDayRecords(dayOperationId: number): Promise<DayRecords | undefined>;
+  previewDayClose(dayOperationId: number, declared: DeclaredMovements): Promise<DayCloseReconciliation | undefined>;
+
+  // No-sale drawer opens, X and Z reports
+  recordNoSale(sessionId: number, reason: string | null, openedBy: number | null): Promise<tillStorage.TillResult<DrawerNoSale>>;
+  getXReport(scope: tillStorage.TillReportScope): Promise<tillStorage.TillResult<TillReport>>;
+  issueZReport(scope: tillStorage.TillReportScope, issuedBy: number | null): Promise<tillStorage.TillResult<ZReport>>;
+  getZReports(filters: { storeId?: number; storeIds?: number[]; dayOperationId?: number }): Promise<ZReport[]>;
+  getZReport(id: number): Promise<ZReport | undefined>;
+
   // Store Management
   getStores(): Promise<Store[]>;
   getStore(id: number): Promise<Store | undefined>;
@@ -218,7 +374,26 @@ export interface IStorage {
   getStoreSpecificPrice(storeId: number, productId: number): Promise<string | undefined>;
   searchStoreProducts(storeId: number, query: string): Promise<StoreProduct[]>;
   getStoreProductByBarcode(storeId: number, barcode: string): Promise<StoreProduct | undefined>;
-  updateStoreProductStock(storeId: number, productId: number, quantity: number, operation: 'add' | 'subtract' | 'set'): Promise<StoreProduct | undefined>;
+  updateStoreProductStock(
+    storeId: number,
+    productId: number,
+    quantity: number,
+    operation: 'add' | 'subtract' | 'set',
+    movement: StockMovementSource,
+  ): Promise<StoreProduct | undefined>;
+
+  // Stock ledger
+  applyStockMovements(movements: StockMovementInput[]): Promise<InventoryMovement[]>;
+  getStockMovements(filters?: inventoryStorage.StockMovementFilters): Promise<InventoryMovement[]>;
+  verifyStockLedger(storeId?: number): Promise<LedgerDrift[]>;
+  rebuildStockFromLedger(storeId?: number): Promise<LedgerDrift[]>;
+  getStockValuation(storeId: number, query: StockValuationQuery): Promise<StockValuation | undefined>;
+
+  // Stock lots
+  getExpiringLots(storeId: number, query: ExpiringLotsQuery): Promise<inventoryStorage.ExpiringLotsReport | undefined>;
+  getProductLots(storeId: number, productId: number): Promise<StockLot[]>;
+  writeOffLot(storeId: number, lotId: number, input: WriteOffLotInput & { createdBy?: number | null }): Promise<inventoryStorage.LotWriteOffResult>;
+  writeOffExpiredLots(storeId: number, input: { reason: string; createdBy?: number | null }): Promise<inventoryStorage.LotWriteOffResult>;
 
   // User Store Assignments
   getUserStoreAssignments(userId: number): Promise<UserStore[]>;
@@ -257,8 +432,8 @@ export interface IStorage {
   getPromotions(storeId: number): Promise<Promotion[]>;
   getActivePromotions(storeId: number): Promise<Promotion[]>;
   getPromotion(id: number): Promise<Promotion | undefined>;
-  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
-  updatePromotion(id: number, promotion: Partial<InsertPromotion>): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion, rules?: PromotionRuleInput[]): Promise<Promotion>;
+  updatePromotion(id: number, promotion: Partial<InsertPromotion>, rules?: PromotionRuleInput[]): Promise<Promotion | undefined>;
   deletePromotion(id: number): Promise<boolean>;
   
   // Promotion Rules
@@ -269,9 +444,18 @@ export interface IStorage {
   // Promotion Usage and Application
   getApplicablePromotions(storeId: number, cartItems: any[]): Promise<Promotion[]>;
   applyPromotion(promotionId: number, cartItems: any[]): Promise<{ success: boolean; discount: number; appliedItems: any[] }>;
-  applyPromotions(storeId: number, items: any[], customerId?: number): Promise<{ promotions: Promotion[]; totalDiscount: number; appliedPromotions: any[] }>;
+  applyPromotions(storeId: number, items: any[], customerId?: number, couponCodes?: string[]): Promise<{ promotions: Promotion[]; coupons: CouponApplication[] } & PromotionEvaluation>;
   recordPromotionUsage(usage: InsertPromotionUsage): Promise<PromotionUsage>;
   getPromotionUsage(promotionId?: number, customerId?: number): Promise<PromotionUsage[]>;
+  checkPromotionRedemption(redemption: PromotionRedemption): Promise<CouponRejection | null>;
+  checkPromotionPricing(redemption: PromotionRedemption, items: any[], claimedDiscount: number): Promise<CouponRejection | null>;
+
+  // Coupons
+  getCoupons(promotionId: number): Promise<Coupon[]>;
+  getCoupon(id: number): Promise<Coupon | undefined>;
+  createCoupons(promotionId: number, input: CouponBatchInput): Promise<{ success: true; coupons: Coupon[] } | { success: false; message: string }>;
+  updateCoupon(id: number, updates: Partial<Pick<Coupon, "isActive" | "expiresAt" | "maxRedemptions">>): Promise<Coupon | undefined>;
+  validateCoupon(code: string, storeId: number, customerId?: number | null): Promise<{ success: true; coupon: Coupon; promotion: Promotion } | { success: false; rejection: CouponRejection }>;
   
   // VAT Calculations
   calculateVAT(items: any[], storeId: number): Promise<{ vatAmount: number; itemsWithVat: any[] }>;
@@ -633,16 +817,42 @@ export class DatabaseStorage implements IStorage {
     return productStorage.getProductByBarcode(barcode);
   }
 
+  async getProductByPlu(plu: string, storeId: number): Promise<Product | undefined> {
+    return productStorage.getProductByPlu(plu, storeId);
+  }
+
+  async getPluOwner(plu: string, exceptId?: number): Promise<Pick<Product, "id" | "name"> | undefined> {
+    return productStorage.getPluOwner(plu, exceptId);
+  }
+
   async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    return productStorage.createProduct(insertProduct);
+    return await db.transaction(async (tx) => {
+      const product = await productStorage.createProduct(insertProduct, tx);
+      await auditStorage.recordAudit({ entityType: "product", entityId: product.id, action: "create", after: product }, tx);
+      return product;
+    });
   }
 
   async updateProduct(id: number, product: Partial<InsertProduct>): Promise<Product | undefined> {
-    return productStorage.updateProduct(id, product);
+    const before = await this.getProduct(id);
+    return await db.transaction(async (tx) => {
+      const updated = await productStorage.updateProduct(id, product, tx);
+      if (updated) {
+        await auditStorage.recordAudit({ entityType: "product", entityId: id, action: "update", before, after: updated }, tx);
+      }
+      return updated;
+    });
   }
 
   async deleteProduct(id: number): Promise<boolean> {
-    return productStorage.deleteProduct(id);
+    const before = await this.getProduct(id);
+    return await db.transaction(async (tx) => {
+      const deleted = await productStorage.deleteProduct(id, tx);
+      if (deleted) {
+        await auditStorage.recordAudit({ entityType: "product", entityId: id, action: "delete", before }, tx);
+      }
+      return deleted;
+    });
   }
 
   async searchProducts(query: string, category?: string, sort?: string): Promise<Product[]> {
@@ -657,6 +867,145 @@ export class DatabaseStorage implements IStorage {
     return productStorage.getRecentProducts(limit);
   }
 
+  async getProductUnits(productId: number): Promise<ProductUnitSet | undefined> {
+    return productStorage.getProductUnits(productId);
+  }
+
+  async setProductUnits(productId: number, input: ProductUnitsInput): Promise<ProductUnitSet | undefined> {
+    const before = await productStorage.getProductUnits(productId);
+    return await db.transaction(async (tx) => {
+      const updated = await productStorage.setProductUnits(productId, input, tx);
+      if (updated) {
+        await auditStorage.recordAudit({ entityType: "product", entityId: productId, action: "update", before, after: updated }, tx);
+      }
+      return updated;
+    });
+  }
+
+  async getProductVariants(parentId: number, storeId?: number): Promise<ProductVariants | undefined> {
+    return productStorage.getProductVariants(parentId, storeId);
+  }
+
+  async setVariantAxes(productId: number, axes: string[]): Promise<ProductResult<Product>> {
+    const before = await this.getProduct(productId);
+    return await db.transaction(async (tx) => {
+      const result = await productStorage.setVariantAxes(productId, axes, tx);
+      if (result.success) {
+        await auditStorage.recordAudit({ entityType: "product", entityId: productId, action: "update", before, after: result.data }, tx);
+      }
+      return result;
+    });
+  }
+
+  async createVariant(parentId: number, input: CreateVariantInput): Promise<ProductResult<Product>> {
+    const before = "productId" in input ? await this.getProduct(input.productId) : undefined;
+    return await db.transaction(async (tx) => {
+      const result = await productStorage.createVariant(parentId, input, tx);
+      if (result.success) {
+        await auditStorage.recordAudit({
+          entityType: "product",
+          entityId: result.data.id,
+          action: before ? "update" : "create",
+          before,
+          after: result.data,
+        }, tx);
+      }
+      return result;
+    });
+  }
+
+  async detachVariant(variantId: number): Promise<Product | undefined> {
+    const before = await this.getProduct(variantId);
+    return await db.transaction(async (tx) => {
+      const detached = await productStorage.detachVariant(variantId, tx);
+      if (detached) {
+        await auditStorage.recordAudit({ entityType: "product", entityId: variantId, action: "update", before, after: detached }, tx);
+      }
+      return detached;
+    });
+  }
+
+  async updateVariants(parentId: number, input: BulkVariantUpdateInput): Promise<ProductResult<number[]>> {
+    return await db.transaction(async (tx) => {
+      const result = await productStorage.updateVariants(parentId, input, tx);
+      if (result.success && result.data.length > 0) {
+        await auditStorage.recordAudit({
+          entityType: "product",
+          entityId: parentId,
+          action: "update",
+          storeId: input.storeId ?? null,
+          after: { variantIds: result.data, price: input.price, reorderLevel: input.reorderLevel },
+          reason: "Bulk variant update",
+        }, tx);
+      }
+      return result;
+    });
+  }
+
+  async getProductIdentifiers(productId: number): Promise<ProductIdentifier[]> {
+    return productStorage.getProductIdentifiers(productId);
+  }
+
+  async addProductIdentifier(
+    productId: number,
+    input: ProductIdentifierInput & { createdBy?: number | null },
+  ): Promise<ProductResult<ProductIdentifier>> {
+    const before = await productStorage.getProductIdentifiers(productId);
+    return await db.transaction(async (tx) => {
+      const result = await productStorage.addProductIdentifier(productId, input, tx);
+      if (result.success) {
+        await auditStorage.recordAudit({
+          entityType: "product",
+          entityId: productId,
+          action: "update",
+          before: { identifiers: before },
+          after: { identifiers: [...before, result.data] },
+        }, tx);
+      }
+      return result;
+    });
+  }
+
+  async removeProductIdentifier(productId: number, identifierId: number): Promise<ProductIdentifier | undefined> {
+    const before = await productStorage.getProductIdentifiers(productId);
+    return await db.transaction(async (tx) => {
+      const removed = await productStorage.removeProductIdentifier(productId, identifierId, tx);
+      if (removed) {
+        await auditStorage.recordAudit({
+          entityType: "product",
+          entityId: productId,
+          action: "update",
+          before: { identifiers: before },
+          after: { identifiers: before.filter((identifier) => identifier.id !== identifierId) },
+        }, tx);
+      }
+      return removed;
+    });
+  }
+
+  async rememberProductIdentifiers(
+    entries: Array<ProductIdentifierInput & { productId: number; createdBy?: number | null }>,
+  ): Promise<ProductIdentifier[]> {
+    return await db.transaction(async (tx) => {
+      const added = await productStorage.rememberProductIdentifiers(entries, tx);
+      for (const identifier of added) {
+        await auditStorage.recordAudit({
+          entityType: "product",
+          entityId: identifier.productId,
+          action: "update",
+          before: { identifiers: [] },
+          after: { identifiers: [identifier] },
+          reason: "Code confirmed on an invoice or price entry",
+        }, tx);
+      }
+      return added;
+    });
+  }
+
+  async getCodeBook(owner: { supplierId?: number | null; competitorId?: number | null }): Promise<CodeBook> {
+    return productStorage.getCodeBook(owner);
+  }
+
   // Product Siblings methods
   async getProductSiblings(productId: number): Promise<Array<ProductSibling & { siblingProduct: Product }>> {
     const siblings = await db
@@ -694,7 +1043,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Transaction methods
-  async getTransactions(storeId?: number): Promise<Transaction[]> {
+  async getTransactions(storeId?: number | number[]): Promise<Transaction[]> {
     return transactionStorage.getTransactions(storeId);
   }
 
@@ -712,26 +1061,260 @@ export class DatabaseStorage implements IStorage {
 
   async refundTransaction(
     id: number,
-    refundData: { reason: string; refundAmount: number; refundedBy: number; refundedAt: Date },
-  ): Promise<{ success: boolean; message: string; refundedTransaction?: Transaction }> {
-    return transactionStorage.refundTransaction(id, refundData, this);
+    refundData: transactionStorage.RefundPayload,
+  ): Promise<{ success: boolean; message: string; code?: string; details?: Record<string, unknown>; refundedTransaction?: Transaction; return?: returnStorage.ReturnWithItems }> {
+    return await db.transaction(async (tx) => {
+      const before = await transactionStorage.getTransaction(id, tx);
+      const result = await transactionStorage.refundTransaction(id, refundData, tx);
+      if (result.success && result.refundedTransaction) {
+        await auditStorage.recordAudit({
+          entityType: "transaction",
+          entityId: id,
+          action: "update",
+          storeId: result.refundedTransaction.storeId,
+          before,
+          after: result.refundedTransaction,
+          reason: refundData.reason,
+        }, tx);
+      }
+      return result;
+    });
   }
 
   async voidTransaction(
     id: number,
-    voidData: { reason: string; voidedBy: number; voidedAt: Date },
-  ): Promise<{ success: boolean; message: string; voidedTransaction?: Transaction }> {
-    return transactionStorage.voidTransaction(id, voidData, this);
+    voidData: transactionStorage.VoidPayload,
+  ): Promise<{ success: boolean; message: string; code?: string; details?: Record<string, unknown>; voidedTransaction?: Transaction }> {
+    return await db.transaction(async (tx) => {
+      const before = await transactionStorage.getTransaction(id, tx);
+      const result = await transactionStorage.voidTransaction(id, voidData, tx);
+      if (result.success && result.voidedTransaction) {
+        await auditStorage.recordAudit({
+          entityType: "transaction",
+          entityId: id,
+          action: "update",
+          storeId: result.voidedTransaction.storeId,
+          before,
+          after: result.voidedTransaction,
+          reason: voidData.reason,
+        }, tx);
+      }
+      return result;
+    });
   }
 
   async getTransactionsByDate(date: string, storeId?: number): Promise<Transaction[]> {
     return transactionStorage.getTransactionsByDate(date, storeId);
   }
 
+  async getSoldLines(query: SalesReportQuery): Promise<SoldLine[]> {
+    return transactionStorage.getSoldLines(query);
+  }
+
   async generateTransactionNumber(): Promise<string> {
     return transactionStorage.generateTransactionNumber();
   }
 
+  async getTransactionByIdempotencyKey(idempotencyKey: string): Promise<Transaction | undefined> {
+    return transactionStorage.getTransactionByIdempotencyKey(idempotencyKey);
+  }
+
+  async getProductsForSale(
+    storeId: number,
+    productIds: number[],
+  ): Promise<Array<{ id: number; name: string; isActive: boolean | null; storeActive: boolean | null }>> {
+    return transactionStorage.getProductsForSale(storeId, productIds);
+  }
+
+  async createSale(
+    transaction: InsertTransaction,
+    items: Omit<InsertTransactionItem, "transactionId">[],
+    redemption?: PromotionRedemption,
+  ): Promise<transactionStorage.CreateSaleResult> {
+    return transactionStorage.createSale(transaction, items, redemption);
+  }
+
+  async createSyncedSale(
+    transaction: InsertTransaction & { idempotencyKey: string; createdAt: Date },
+    items: Omit<InsertTransactionItem, "transactionId">[],
+    redemption?: PromotionRedemption,
+  ): Promise<{ transaction: Transaction; transactionItems: TransactionItem[]; duplicate: boolean }> {
+    return transactionStorage.createSyncedSale(transaction, items, redemption);
+  }
+
+  async getReturnableItems(transactionId: number): Promise<returnStorage.ReturnableItem[] | undefined> {
+    return returnStorage.getReturnableItems(transactionId);
+  }
+
+  async getReturns(filters?: { transactionId?: number; storeId?: number; storeIds?: number[] }): Promise<Return[]> {
+    return returnStorage.getReturns(filters);
+  }
+
+  async getReturn(id: number): Promise<returnStorage.ReturnWithItems | undefined> {
+    return returnStorage.getReturn(id);
+  }
+
+  async createReturn(
+    input: returnStorage.CreateReturnInput,
+  ): Promise<{ success: boolean; message: string; code?: string; details?: Record<string, unknown>; return?: returnStorage.ReturnWithItems }> {
+    return await db.transaction(async (tx) => {
+      const result = await returnStorage.createReturn(input, tx);
+      if (result.success && result.return) {
+        await auditStorage.recordAudit({
+          entityType: "return",
+          entityId: result.return.id,
+          action: "create",
+          storeId: result.return.storeId,
+          after: result.return,
+        }, tx);
+      }
+      return result;
+    });
+  }
+
+  async getStockTransfers(filters?: { storeId?: number; storeIds?: number[]; open?: boolean }): Promise<transferStorage.TransferWithItems[]> {
+    return transferStorage.getStockTransfers(filters);
+  }
+
+  async getStockTransfer(id: number): Promise<transferStorage.TransferWithItems | undefined> {
+    return transferStorage.getStockTransfer(id);
+  }
+
+  async createStockTransfer(input: CreateTransferInput & { requestedBy?: number | null }): Promise<transferStorage.TransferResult> {
+    return transferStorage.createStockTransfer(input);
+  }
+
+  async dispatchStockTransfer(
+    id: number,
+    input: DispatchTransferInput & { dispatchedBy?: number | null },
+  ): Promise<transferStorage.TransferResult> {
+    return transferStorage.dispatchStockTransfer(id, input);
+  }
+
+  async receiveStockTransfer(
+    id: number,
+    input: ReceiveTransferInput & { receivedBy?: number | null },
+  ): Promise<transferStorage.TransferResult> {
+    return transferStorage.receiveStockTransfer(id, input);
+  }
+
+  async cancelStockTransfer(
+    id: number,
+    input: { cancelledBy?: number | null; reason?: string | null },
+  ): Promise<transferStorage.TransferResult> {
+    return transferStorage.cancelStockTransfer(id, input);
+  }
+
+  async getInTransitStock(storeId: number): Promise<transferStorage.InTransitStock[]> {
+    return transferStorage.getInTransitStock(storeId);
+  }
+
+  async getPurchaseOrders(filters?: purchasingStorage.PurchaseOrderFilters): Promise<purchasingStorage.PurchaseOrderWithItems[]> {
+    return purchasingStorage.getPurchaseOrders(filters);
+  }
+
+  async getPurchaseOrder(id: number): Promise<purchasingStorage.PurchaseOrderWithItems | undefined> {
+    return purchasingStorage.getPurchaseOrder(id);
+  }
+
+  async createPurchaseOrder(input: CreatePurchaseOrderInput & { createdBy?: number | null }): Promise<purchasingStorage.PurchasingResult> {
+    return purchasingStorage.createPurchaseOrder(input);
+  }
+
+  async updatePurchaseOrder(id: number, input: UpdatePurchaseOrderInput): Promise<purchasingStorage.PurchasingResult> {
+    return purchasingStorage.updatePurchaseOrder(id, input);
+  }
+
+  async sendPurchaseOrder(id: number, sentBy?: number | null): Promise<purchasingStorage.PurchasingResult> {
+    return purchasingStorage.sendPurchaseOrder(id, sentBy);
+  }
+
+  async cancelPurchaseOrder(
+    id: number,
+    input: { reason?: string | null; cancelledBy?: number | null },
+  ): Promise<purchasingStorage.PurchasingResult> {
+    return purchasingStorage.cancelPurchaseOrder(id, input);
+  }
+
+  async receivePurchaseOrder(
+    id: number,
+    input: ReceiveGoodsInput & { receivedBy?: number | null },
+  ): Promise<purchasingStorage.PurchasingResult> {
+    return purchasingStorage.receivePurchaseOrder(id, input);
+  }
+
+  async getSupplierInvoiceMatch(invoiceId: number): Promise<purchasingStorage.SupplierInvoiceMatch | undefined> {
+    return purchasingStorage.getSupplierInvoiceMatch(invoiceId);
+  }
+
+  async linkSupplierInvoice(
+    invoiceId: number,
+    purchaseOrderId: number,
+  ): Promise<purchasingStorage.PurchasingResult & { match?: purchasingStorage.SupplierInvoiceMatch }> {
+    return purchasingStorage.linkSupplierInvoice(invoiceId, purchaseOrderId);
+  }
+
+  async acceptSupplierInvoiceMatch(
+    invoiceId: number,
+    input: { reason: string; acceptedBy?: number | null },
+  ): Promise<purchasingStorage.PurchasingResult & { match?: purchasingStorage.SupplierInvoiceMatch }> {
+    return purchasingStorage.acceptSupplierInvoiceMatch(invoiceId, input);
+  }
+
+  async getReorderSuggestions(storeId: number, settings: ReorderSettings): Promise<purchasingStorage.ReorderSuggestions | undefined> {
+    return purchasingStorage.getReorderSuggestions(storeId, settings);
+  }
+
+  async convertReorderSuggestions(
+    storeId: number,
+    input: ConvertSuggestionsInput & { createdBy?: number | null },
+  ): Promise<purchasingStorage.ReorderConversionResult> {
+    return purchasingStorage.convertReorderSuggestions(storeId, input);
+  }
+
+  async getUserByBadgeCode(badgeCode: string): Promise<User | undefined> {
+    return approvalStorage.getUserByBadgeCode(badgeCode);
+  }
+
+  async setApprovalCredentials(
+    userId: number,
+    credentials: { approvalPin?: string | null; badgeCode?: string | null },
+  ): Promise<User | undefined> {
+    return approvalStorage.setApprovalCredentials(userId, credentials);
+  }
+
+  async createApproval(data: Omit<InsertApproval, "token">): Promise<Approval> {
+    return approvalStorage.createApproval(data);
+  }
+
+  async redeemApprovals(
+    demands: ApprovalDemand[],
+    tokens: string[],
+    context: { storeId: number; userId: number; now: Date },
+    executor?: approvalStorage.ApprovalExecutor,
+  ): Promise<ApprovalRejection | null> {
+    return approvalStorage.redeemApprovals(demands, tokens, context, executor);
+  }
+
+  async getApprovals(filters?: { storeId?: number; storeIds?: number[]; limit?: number }): Promise<approvalStorage.ApprovalLogEntry[]> {
+    return approvalStorage.getApprovals(filters);
+  }
+
+  async recordFailedApproval(attempt: approvalStorage.FailedApproval): Promise<void> {
+    return approvalStorage.recordFailedApproval(attempt);
+  }
+
+  async countFailedApprovals(
+    attempt: { approver: string | null; requestedBy: number },
+    since: Date,
+  ): Promise<{ approver: number; requester: number }> {
+    return approvalStorage.countFailedApprovals(attempt, since);
+  }
+
+  async getAuditLogs(filters?: Partial<AuditLogQuery>): Promise<AuditEntryRow[]> {
+    return auditStorage.getAuditLogs(filters);
+  }
+
   async getReportStats(date: string, storeId?: number): Promise<{
     todaysRevenue: number;
     todaysOrders: number;
@@ -825,15 +1408,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createDayOperation(insertDayOp: InsertDayOperation): Promise<DayOperation> {
-    const [dayOp] = await db
-      .insert(dayOperations)
-      .values({
-        ...insertDayOp,
-        openedAt: new Date(),
-        closedAt: null,
-      })
-      .returning();
-    return dayOp;
+    return await db.transaction(async (tx) => {
+      const [dayOp] = await tx
+        .insert(dayOperations)
+        .values({
+          ...insertDayOp,
+          openedAt: new Date(),
+          closedAt: null,
+        })
+        .returning();
+      await auditStorage.recordAudit({
+        entityType: "day_operation",
+        entityId: dayOp.id,
+        action: "create",
+        storeId: dayOp.storeId,
+        after: dayOp,
+      }, tx);
+      return dayOp;
+    });
   }
 
   async updateDayOperation(id: number, dayOp: Partial<InsertDayOperation>): Promise<DayOperation | undefined> {
@@ -853,17 +1445,29 @@ export class DatabaseStorage implements IStorage {
     
     console.log('📝 Updating day operation:', id, 'with status:', dayOp.status);
     
-    const [updatedDayOp] = await db
-      .update(dayOperations)
-      .set(updateData)
-      .where(eq(dayOperations.id, id))
-      .returning();
+    const before = await this.getDayOperationById(id);
+    return await db.transaction(async (tx) => {
+      const [updatedDayOp] = await tx
+        .update(dayOperations)
+        .set(updateData)
+        .where(eq(dayOperations.id, id))
+        .returning();
       
-    if (updatedDayOp) {
-      console.log('✅ Day operation updated:', updatedDayOp.id, 'status:', updatedDayOp.status);
-    }
+      if (updatedDayOp) {
+        console.log('✅ Day operation updated:', updatedDayOp.id, 'status:', updatedDayOp.status);
+        await auditStorage.recordAudit({
+          entityType: "day_operation",
+          entityId: id,
+          action: "update",
+          storeId: updatedDayOp.storeId,
+          before,
+          after: updatedDayOp,
+          reason: dayOp.reopenReason,
+        }, tx);
+      }
     
-    return updatedDayOp || undefined;
+      return updatedDayOp || undefined;
+    });
   }
 
   async getDayOperationByDate(date: string, storeId?: number): Promise<DayOperation | undefined> {
@@ -898,6 +1502,7 @@ export class DatabaseStorage implements IStorage {
 
   async listDayOperations(options: {
     storeId?: number;
+    storeIds?: number[];
     status?: DayOperation['status'];
     limit?: number;
     offset?: number;
@@ -906,6 +1511,7 @@ export class DatabaseStorage implements IStorage {
   } = {}): Promise<{ data: DayOperation[]; total: number }> {
     const {
       storeId,
+      storeIds,
       status,
       limit = 30,
       offset = 0,
@@ -922,6 +1528,10 @@ export class DatabaseStorage implements IStorage {
       whereConditions.push(eq(dayOperations.storeId, storeId));
     }
 
+    if (storeIds) {
+      whereConditions.push(inArray(dayOperations.storeId, storeIds));
+    }
+
     if (status) {
       whereConditions.push(eq(dayOperations.status, status));
     }
@@ -1034,11 +1644,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCreditTransaction(insertCreditTx: InsertCreditTransaction): Promise<CreditTransaction> {
-    const [creditTx] = await db
-      .insert(creditTransactions)
-      .values(insertCreditTx)
-      .returning();
-    return creditTx;
+    return await db.transaction(async (tx) => {
+      const [creditTx] = await tx
+        .insert(creditTransactions)
+        .values(insertCreditTx)
+        .returning();
+      const customer = await this.getCustomer(creditTx.customerId);
+      await auditStorage.recordAudit({
+        entityType: "credit_transaction",
+        entityId: creditTx.id,
+        action: "create",
+        storeId: customer?.storeId,
+        after: creditTx,
+      }, tx);
+      return creditTx;
+    });
   }
 
   async getCreditTransaction(id: number): Promise<CreditTransaction | undefined> {
@@ -1047,12 +1667,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateCustomerCreditBalance(customerId: number, amount: string): Promise<Customer | undefined> {
-    const [customer] = await db
-      .update(customers)
-      .set({ creditBalance: amount })
-      .where(eq(customers.id, customerId))
-      .returning();
-    return customer || undefined;
+    const before = await this.getCustomer(customerId);
+    return await db.transaction(async (tx) => {
+      const [customer] = await tx
+        .update(customers)
+        .set({ creditBalance: amount })
+        .where(eq(customers.id, customerId))
+        .returning();
+      if (customer) {
+        await auditStorage.recordAudit({
+          entityType: "customer_credit",
+          entityId: customerId,
+          action: "update",
+          storeId: customer.storeId,
+          before: { creditBalance: before?.creditBalance },
+          after: { creditBalance: customer.creditBalance },
+        }, tx);
+      }
+      return customer || undefined;
+    });
   }
 
   // Supplier methods
@@ -1171,9 +1804,35 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(stockAdjustments).orderBy(desc(stockAdjustments.createdAt));
   }
 
-  async createStockAdjustment(insertAdjustment: InsertStockAdjustment): Promise<StockAdjustment> {
-    const [result] = await db.insert(stockAdjustments).values(insertAdjustment).returning();
-    return result;
+  async createStockAdjustment(insertAdjustment: InsertStockAdjustment, receiving: StockReceiving = {}): Promise<StockAdjustment> {
+    // With a store the adjustment moves that store's stock too, or fails as a whole
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(stockAdjustments).values(insertAdjustment).returning();
+      if (created.storeId) {
+        const quantity = receiving.quantity ?? created.quantityChange;
+        await inventoryStorage.applyStockMovements(
+          [{
+            storeId: created.storeId,
+            productId: created.productId,
+            movementType: adjustmentMovementType(created.adjustmentType, quantity),
+            quantity,
+            reason: created.reason,
+            sourceType: created.invoiceId ? "supplier_invoice" : "stock_adjustment",
+            sourceId: created.invoiceId ?? created.id,
+            lot: receiving.lot,
+          }],
+          { executor: tx },
+        );
+      }
+      await auditStorage.recordAudit({
+        entityType: "stock_adjustment",
+        entityId: created.id,
+        action: "create",
+        after: created,
+        reason: created.reason,
+      }, tx);
+      return created;
+    });
   }
 
   async getStockAdjustmentsByInvoice(invoiceId: number): Promise<StockAdjustment[]> {
@@ -1189,8 +1848,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createSupplierPayment(insertPayment: InsertSupplierPayment): Promise<SupplierPayment> {
-    const [result] = await db.insert(supplierPayments).values(insertPayment).returning();
-    return result;
+    return await db.transaction(async (tx) => {
+      const [result] = await tx.insert(supplierPayments).values(insertPayment).returning();
+      await auditStorage.recordAudit({ entityType: "supplier_payment", entityId: result.id, action: "create", after: result }, tx);
+      return result;
+    });
   }
 
   async getSupplierPaymentsByInvoice(invoiceId: number): Promise<SupplierPayment[]> {
@@ -1276,9 +1938,29 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
-  async submitStockTaking(items: any[], stockDate?: string, storeId?: number): Promise<{ session: StockTakingSession; newProducts: number; updatedProducts: number }> {
+  async submitStockTaking(countedItems: any[], stockDate?: string, storeId?: number): Promise<{ session: StockTakingSession; newProducts: number; updatedProducts: number }> {
     let newProducts = 0;
     let updatedProducts = 0;
+
+    // Counts can be entered in any of a product's units (shelf singles, back-room
+    // cartons); the stock is set in base units. Unknown UOMs count as base units.
+    const unitSets = await productStorage.getUnitsForProducts(
+      Array.from(new Set(countedItems.map((item) => item.productId).filter((id): id is number => !!id))),
+    );
+    const items = countedItems.map((item) => {
+      const unitSet = item.productId ? unitSets.get(item.productId) : undefined;
+      const factor = (unitSet && resolveUnit(unitSet, unitSet.units, item.uom)?.factor) || 1;
+      if (factor === 1) return { ...item, unitFactor: 1 };
+      const actualQty = toBaseQuantity(item.actualQty, factor);
+      const variance = toBaseQuantity(actualQty - (parseFloat(item.systemQty) || 0));
+      return {
+        ...item,
+        unitFactor: factor,
+        actualQty,
+        variance,
+        varianceValue: (variance * (parseFloat(item.costPrice) || 0)).toFixed(2),
+      };
+    });
     
     const sessionDate = stockDate || new Date().toISOString().slice(0, 10);
     const session = await this.createStockTakingSession({
@@ -1298,6 +1980,7 @@ export class DatabaseStorage implements IStorage {
         barcode: item.barcode || null,
         name: item.name,
         uom: item.uom || 'pcs',
+        unitFactor: String(item.unitFactor),
         systemQty: item.systemQty.toString(),
         actualQty: item.actualQty.toString(),
         variance: item.variance.toString(),
@@ -1341,8 +2024,11 @@ export class DatabaseStorage implements IStorage {
           // Update store-specific stock
           const storeProduct = await this.getStoreProduct(storeId, item.productId);
           if (storeProduct) {
-            await this.updateStoreProduct(storeId, item.productId, {
-              stockQuantity: parseInt(item.actualQty) || 0,
+            await this.updateStoreProductStock(storeId, item.productId, parseFloat(item.actualQty) || 0, 'set', {
+              movementType: "stock_take",
+              reason: `Stock take ${sessionDate}`,
+              sourceType: "stock_taking_session",
+              sourceId: session.id,
             });
           } else {
             // Create store product if it doesn't exist
@@ -1506,6 +2192,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(dailyProductMonitoring).where(eq(dailyProductMonitoring.date, date));
   }
 
+  async getDailyProductMonitoringById(id: number): Promise<DailyProductMonitoring | undefined> {
+    const [monitoring] = await db.select().from(dailyProductMonitoring).where(eq(dailyProductMonitoring.id, id));
+    return monitoring;
+  }
+
   async getDailyProductMonitoringByDayOperation(dayOperationId: number): Promise<DailyProductMonitoring[]> {
     return await db
       .select({
@@ -1590,13 +2281,14 @@ export class DatabaseStorage implements IStorage {
         const openingStock = product.stock || 0;
         const openingValue = (product.cost || '0') === '0' ? '0.00' : (parseFloat(product.cost || '0') * openingStock).toFixed(2);
 
-        // Auto-populate sales data from transactions for this date
+        // Auto-populate sales data from transactions for this date, in base units
+        const sold = sql`${transactionItems.quantity} * ${transactionItems.unitFactor}`;
         const salesData = await db
           .select({
-            totalQty: sql<number>`COALESCE(SUM(${transactionItems.quantity}), 0)`,
-            cashQty: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.paymentMethod} = 'cash' THEN ${transactionItems.quantity} ELSE 0 END), 0)`,
-            cardQty: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.paymentMethod} = 'card' THEN ${transactionItems.quantity} ELSE 0 END), 0)`,
-            creditQty: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.paymentMethod} = 'credit' THEN ${transactionItems.quantity} ELSE 0 END), 0)`,
+            totalQty: sql<number>`COALESCE(SUM(${sold}), 0)`,
+            cashQty: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.paymentMethod} = 'cash' THEN ${sold} ELSE 0 END), 0)`,
+            cardQty: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.paymentMethod} = 'card' THEN ${sold} ELSE 0 END), 0)`,
+            creditQty: sql<number>`COALESCE(SUM(CASE WHEN ${transactions.paymentMethod} = 'credit' THEN ${sold} ELSE 0 END), 0)`,
             totalValue: sql<string>`COALESCE(SUM(${transactionItems.total}), 0)`,
             cashValue: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.paymentMethod} = 'cash' THEN ${transactionItems.total} ELSE 0 END), 0)`,
             cardValue: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.paymentMethod} = 'card' THEN ${transactionItems.total} ELSE 0 END), 0)`,
@@ -1620,7 +2312,7 @@ export class DatabaseStorage implements IStorage {
         // Auto-populate purchase data from supplier invoices for this date
         const purchaseData = await db
           .select({
-            totalQty: sql<number>`COALESCE(SUM(${supplierInvoiceItems.quantity}), 0)`,
+            totalQty: sql<number>`COALESCE(SUM(${supplierInvoiceItems.quantity} * ${supplierInvoiceItems.unitFactor}), 0)`,
             totalValue: sql<string>`COALESCE(SUM(${supplierInvoiceItems.totalCost}), 0)`
           })
           .from(supplierInvoiceItems)
@@ -1710,6 +2402,24 @@ export class DatabaseStorage implements IStorage {
     return monitoring || undefined;
   }
 
+  async getDailyProductMonitoringLots(id: number): Promise<inventoryStorage.LotBreakdown | undefined> {
+    return inventoryStorage.getLotBreakdown(id);
+  }
+
+  // Reconciles from a count of every lot; the product's closing stock is their sum
+  async reconcileDailyProductMonitoringByLot(id: number, input: LotCountsInput, reconciledBy?: number): Promise<inventoryStorage.LotReconciliationResult> {
+    const breakdown = await inventoryStorage.getLotBreakdown(id);
+    if (!breakdown) return { success: false, message: "Monitoring record not found", code: "NOT_FOUND" };
+
+    const problem = checkLotCounts(breakdown.lines, input.counts);
+    if (problem) return { success: false, message: problem };
+
+    await inventoryStorage.saveLotCounts(id, breakdown.lines, input.counts);
+    const counted = input.counts.reduce((sum, count) => sum + count.countedQuantity, 0);
+    await this.reconcileDailyProductMonitoring(id, Math.round(counted * 100) / 100, input.notes, reconciledBy);
+    return { success: true, message: "Reconciled by lot", breakdown: await inventoryStorage.getLotBreakdown(id) };
+  }
+
   // Store Management methods
   async getStores(): Promise<Store[]> {
     return await db.select().from(stores);
@@ -1734,12 +2444,18 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateStore(id: number, storeData: Partial<InsertStore>): Promise<Store | undefined> {
-    const [store] = await db
-      .update(stores)
-      .set({ ...storeData, updatedAt: new Date() })
-      .where(eq(stores.id, id))
-      .returning();
-    return store || undefined;
+    const before = await this.getStore(id);
+    return await db.transaction(async (tx) => {
+      const [store] = await tx
+        .update(stores)
+        .set({ ...storeData, updatedAt: new Date() })
+        .where(eq(stores.id, id))
+        .returning();
+      if (store) {
+        await auditStorage.recordAudit({ entityType: "store", entityId: id, action: "update", storeId: id, before, after: store }, tx);
+      }
+      return store || undefined;
+    });
   }
 
   async getActiveStores(): Promise<Store[]> {
@@ -1846,18 +2562,60 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createStoreProduct(insertStoreProduct: InsertStoreProduct): Promise<StoreProduct> {
-    const [storeProduct] = await db
-      .insert(storeProducts)
-      .values(insertStoreProduct)
-      .returning();
-    return storeProduct;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(storeProducts)
+        .values(insertStoreProduct)
+        .returning();
+      await inventoryStorage.recordOpeningStock(created, tx);
+      await auditStorage.recordAudit({
+        entityType: "store_product",
+        entityId: `${created.storeId}:${created.productId}`,
+        action: "create",
+        storeId: created.storeId,
+        after: created,
+      }, tx);
+      return created;
+    });
   }
 
   async updateStoreProduct(storeId: number, productId: number, data: Partial<InsertStoreProduct>): Promise<StoreProduct | undefined> {
+    const before = await this.getStoreProduct(storeId, productId);
+    // Stock only changes through the ledger; an edited quantity is booked as a correction
+    const { stockQuantity, ...fields } = data;
+    return await db.transaction(async (tx) => {
+      if (stockQuantity !== undefined && stockQuantity !== null && before) {
+        await inventoryStorage.countStock(storeId, productId, parseFloat(String(stockQuantity)) || 0, {
+          movementType: "adjustment",
+          reason: "Stock edited on the store product",
+        }, tx);
+      }
+      const updated = await this.writeStoreProduct(storeId, productId, fields, tx);
+      if (updated) {
+        await auditStorage.recordAudit({
+          entityType: "store_product",
+          entityId: `${storeId}:${productId}`,
+          action: "update",
+          storeId,
+          before,
+          after: updated,
+        }, tx);
+      }
+      return updated;
+    });
+  }
+
+  private async writeStoreProduct(
+    storeId: number,
+    productId: number,
+    data: Partial<InsertStoreProduct>,
+    executor: Pick<typeof db, "update" | "transaction"> = db,
+  ): Promise<StoreProduct | undefined> {
     try {
       // Filter out stock from data if column doesn't exist, but we'll handle it in the catch
       const updateData = { ...data, updatedAt: new Date() };
-      const [storeProduct] = await db
+      // In a savepoint, so the retry below can still run in the caller's transaction
+      const [storeProduct] = await executor.transaction((tx) => tx
         .update(storeProducts)
         .set(updateData)
         .where(
@@ -1866,14 +2624,14 @@ export class DatabaseStorage implements IStorage {
             eq(storeProducts.productId, productId)
           )
         )
-        .returning();
+        .returning());
       return storeProduct || undefined;
     } catch (error: any) {
       // If error is about missing columns, update without them and return with defaults
       if (error?.code === '42703' && (error?.message?.includes('stock') || error?.message?.includes('cost'))) {
         // Remove stock/cost from update data if columns don't exist
         const { stock, cost, ...updateDataWithoutStock } = data;
-        const [storeProduct] = await db
+        const [storeProduct] = await executor
           .update(storeProducts)
           .set({ ...updateDataWithoutStock, updatedAt: new Date() })
           .where(
@@ -1928,6 +2686,12 @@ export class DatabaseStorage implements IStorage {
           requiresDailyMonitoring: products.requiresDailyMonitoring,
           vatRate: products.vatRate,
           vatExempt: products.vatExempt,
+          baseUnit: products.baseUnit,
+          baseUnitDecimal: products.baseUnitDecimal,
+          plu: products.plu,
+          parentId: products.parentId,
+          variantAxes: products.variantAxes,
+          variantOptions: products.variantOptions,
           createdAt: products.createdAt,
           updatedAt: products.updatedAt,
         })
@@ -1963,6 +2727,12 @@ export class DatabaseStorage implements IStorage {
         requiresDailyMonitoring: row.requiresDailyMonitoring,
         vatRate: row.vatRate,
         vatExempt: row.vatExempt,
+        baseUnit: row.baseUnit,
+        baseUnitDecimal: row.baseUnitDecimal,
+        plu: row.plu,
+        parentId: row.parentId,
+        variantAxes: row.variantAxes,
+        variantOptions: row.variantOptions,
         createdAt: row.createdAt,
         updatedAt: row.updatedAt,
     })) as Product[];
@@ -1993,6 +2763,12 @@ export class DatabaseStorage implements IStorage {
             requiresDailyMonitoring: products.requiresDailyMonitoring,
             vatRate: products.vatRate,
             vatExempt: products.vatExempt,
+            baseUnit: products.baseUnit,
+            baseUnitDecimal: products.baseUnitDecimal,
+            plu: products.plu,
+            parentId: products.parentId,
+            variantAxes: products.variantAxes,
+            variantOptions: products.variantOptions,
             createdAt: products.createdAt,
             updatedAt: products.updatedAt,
           })
@@ -2027,6 +2803,12 @@ export class DatabaseStorage implements IStorage {
           requiresDailyMonitoring: row.requiresDailyMonitoring,
           vatRate: row.vatRate,
           vatExempt: row.vatExempt,
+          baseUnit: row.baseUnit,
+          baseUnitDecimal: row.baseUnitDecimal,
+          plu: row.plu,
+          parentId: row.parentId,
+          variantAxes: row.variantAxes,
+          variantOptions: row.variantOptions,
           createdAt: row.createdAt,
           updatedAt: row.updatedAt,
         })) as Product[];
@@ -2048,15 +2830,28 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteStoreProduct(storeId: number, productId: number): Promise<boolean> {
-    const result = await db
-      .delete(storeProducts)
-      .where(
-        and(
-          eq(storeProducts.storeId, storeId),
-          eq(storeProducts.productId, productId)
-        )
-      );
-    return result.rowCount !== null && result.rowCount > 0;
+    const before = await this.getStoreProduct(storeId, productId);
+    return await db.transaction(async (tx) => {
+      const result = await tx
+        .delete(storeProducts)
+        .where(
+          and(
+            eq(storeProducts.storeId, storeId),
+            eq(storeProducts.productId, productId)
+          )
+        );
+      const deleted = result.rowCount !== null && result.rowCount > 0;
+      if (deleted) {
+        await auditStorage.recordAudit({
+          entityType: "store_product",
+          entityId: `${storeId}:${productId}`,
+          action: "delete",
+          storeId,
+          before,
+        }, tx);
+      }
+      return deleted;
+    });
   }
 
   async searchStoreProducts(storeId: number, query: string): Promise<StoreProduct[]> {
@@ -2189,41 +2984,53 @@ export class DatabaseStorage implements IStorage {
     storeId: number, 
     productId: number, 
     quantity: number, 
-    operation: 'add' | 'subtract' | 'set'
+    operation: 'add' | 'subtract' | 'set',
+    movement: StockMovementSource,
   ): Promise<StoreProduct | undefined> {
-    const storeProduct = await this.getStoreProduct(storeId, productId);
-    if (!storeProduct) {
-      return undefined;
+    if (operation === 'set') {
+      await inventoryStorage.countStock(storeId, productId, quantity, movement);
+    } else {
+      await inventoryStorage.applyStockMovements([
+        { ...movement, storeId, productId, quantity: operation === 'add' ? quantity : -quantity },
+      ]);
     }
+    return this.getStoreProduct(storeId, productId);
+  }
 
-    let newStock: number;
-    const currentStock = storeProduct.stock || 0;
-    
-    switch (operation) {
-      case 'add':
-        newStock = currentStock + quantity;
-        break;
-      case 'subtract':
-        newStock = Math.max(0, currentStock - quantity);
-        break;
-      case 'set':
-        newStock = quantity;
-        break;
-      default:
-        return undefined;
-    }
+  async applyStockMovements(movements: StockMovementInput[]): Promise<InventoryMovement[]> {
+    return inventoryStorage.applyStockMovements(movements);
+  }
 
-    try {
-      return await this.updateStoreProduct(storeId, productId, { stock: newStock });
-    } catch (error: any) {
-      // If stock column doesn't exist, just return the storeProduct without updating
-      // This allows the transaction to complete even if stock tracking isn't set up
-      if (error?.code === '42703' && error?.message?.includes('stock')) {
-        console.warn(`⚠️ Stock column does not exist in store_products table. Stock update skipped for product ${productId}.`);
-        return storeProduct;
-      }
-      throw error;
-    }
+  async getStockMovements(filters?: inventoryStorage.StockMovementFilters): Promise<InventoryMovement[]> {
+    return inventoryStorage.getStockMovements(filters);
+  }
+
+  async verifyStockLedger(storeId?: number): Promise<LedgerDrift[]> {
+    return inventoryStorage.verifyStockLedger(storeId);
+  }
+
+  async rebuildStockFromLedger(storeId?: number): Promise<LedgerDrift[]> {
+    return inventoryStorage.rebuildStockFromLedger(storeId);
+  }
+
+  async getStockValuation(storeId: number, query: StockValuationQuery): Promise<StockValuation | undefined> {
+    return inventoryStorage.getStockValuation(storeId, query);
+  }
+
+  async getExpiringLots(storeId: number, query: ExpiringLotsQuery): Promise<inventoryStorage.ExpiringLotsReport | undefined> {
+    return inventoryStorage.getExpiringLots(storeId, query);
+  }
+
+  async getProductLots(storeId: number, productId: number): Promise<StockLot[]> {
+    return inventoryStorage.getProductLots(storeId, productId);
+  }
+
+  async writeOffLot(storeId: number, lotId: number, input: WriteOffLotInput & { createdBy?: number | null }): Promise<inventoryStorage.LotWriteOffResult> {
+    return inventoryStorage.writeOffLot(storeId, lotId, input);
+  }
+
+  async writeOffExpiredLots(storeId: number, input: { reason: string; createdBy?: number | null }): Promise<inventoryStorage.LotWriteOffResult> {
+    return inventoryStorage.writeOffExpiredLots(storeId, input);
   }
 
   // User Store Assignments Methods
@@ -2403,15 +3210,11 @@ export class DatabaseStorage implements IStorage {
       const assignment = assignments.find(a => a.storeId === store.id);
       const isManager = store.managerId === userId;
 
-      // Determine access:
-      // 1. If user is the store manager, grant access
-      // 2. If there's an explicit assignment with canAccess=true, grant access
-      // 3. If there's NO assignment at all, grant access (default behavior)
-      // 4. If there's an assignment with canAccess=false, deny access
-
+      // Same rule the API enforces: admins and the store manager always have
+      // access, an assignment decides for its store, and users without any
+      // assignments are not scoped to particular stores
       const hasExplicitAssignment = assignment !== undefined;
-      const assignmentAllowsAccess = !hasExplicitAssignment || assignment.canAccess !== false;
-      const hasAccess = isManager || assignmentAllowsAccess;
+      const hasAccess = canAccessStore(user, store, assignments);
 
       if (hasAccess) {
         const accessType: StoreAccess["accessType"] = isManager
@@ -2579,14 +3382,27 @@ export class DatabaseStorage implements IStorage {
 
   async closeShift(id: number): Promise<Shift | undefined> {
     try {
-      const [updated] = await db.update(shifts)
-        .set({ 
-          status: "completed", 
-          endTime: new Date()
-        })
-        .where(eq(shifts.id, id))
-        .returning();
-      return updated;
+      const before = await this.getShift(id);
+      return await db.transaction(async (tx) => {
+        const [updated] = await tx.update(shifts)
+          .set({ 
+            status: "completed", 
+            endTime: new Date()
+          })
+          .where(eq(shifts.id, id))
+          .returning();
+        if (updated) {
+          await auditStorage.recordAudit({
+            entityType: "shift",
+            entityId: id,
+            action: "update",
+            storeId: updated.storeId,
+            before,
+            after: updated,
+          }, tx);
+        }
+        return updated;
+      });
     } catch (error: any) {
       // Handle missing table error with helpful message
       if (error?.code === '42P01') {
@@ -2597,6 +3413,187 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Registers and drawer sessions
+  async getRegisters(storeId: number, activeOnly = false): Promise<Register[]> {
+    return tillStorage.getRegisters(storeId, activeOnly);
+  }
+
+  async getRegister(id: number): Promise<Register | undefined> {
+    return tillStorage.getRegister(id);
+  }
+
+  async createRegister(input: { storeId: number; name: string; cashCeiling?: number | null }): Promise<tillStorage.TillResult<Register>> {
+    return tillStorage.createRegister(input);
+  }
+
+  async updateRegister(
+    id: number,
+    update: { name?: string; isActive?: boolean; cashCeiling?: number | null },
+  ): Promise<tillStorage.TillResult<Register>> {
+    return tillStorage.updateRegister(id, update);
+  }
+
+  async getDrawerSession(id: number): Promise<DrawerSession | undefined> {
+    return tillStorage.getDrawerSession(id);
+  }
+
+  async getDrawerSessions(filters: { storeId?: number; storeIds?: number[]; dayOperationId?: number; status?: string }): Promise<DrawerSession[]> {
+    return tillStorage.getDrawerSessions(filters);
+  }
+
+  async openDrawerSession(input: { registerId: number; openingFloat: number; openedBy: number | null }): Promise<tillStorage.TillResult<DrawerSession>> {
+    return await db.transaction(async (tx) => {
+      const result = await tillStorage.openDrawerSession(input, tx);
+      if (result.success) {
+        await auditStorage.recordAudit({
+          entityType: "drawer_session",
+          entityId: result.data.id,
+          action: "create",
+          storeId: result.data.storeId,
+          after: result.data,
+        }, tx);
+      }
+      return result;
+    });
+  }
+
+  async closeDrawerSession(
+    id: number,
+    input: { countedCash: number; notes?: string | null; closedBy: number | null },
+  ): Promise<tillStorage.TillResult<DrawerSession>> {
+    const before = await tillStorage.getDrawerSession(id);
+    return await db.transaction(async (tx) => {
+      const result = await tillStorage.closeDrawerSession(id, input, tx);
+      if (result.success) {
+        await auditStorage.recordAudit({
+          entityType: "drawer_session",
+          entityId: id,
+          action: "update",
+          storeId: result.data.storeId,
+          before,
+          after: result.data,
+        }, tx);
+      }
+      return result;
+    });
+  }
+
+  async resolveDrawerSession(storeId: number, registerId?: number | null): Promise<tillStorage.TillResult<number | null>> {
+    return tillStorage.resolveDrawerSession(storeId, registerId);
+  }
+
+  async getDayDrawers(dayOperationId: number): Promise<DrawerRollUp> {
+    return tillStorage.getDayDrawers(dayOperationId);
+  }
+
+  async recordDrawerMovement(
+    sessionId: number,
+    input: DrawerMovementInput,
+    cashierId: number | null,
+  ): Promise<tillStorage.TillResult<CashMovement>> {
+    return await db.transaction(async (tx) => {
+      const result = await tillStorage.recordDrawerMovement(sessionId, input, cashierId, tx);
+      if (result.success) {
+        const session = await tillStorage.getDrawerSession(sessionId);
+        await auditStorage.recordAudit({
+          entityType: "cash_movement",
+          entityId: result.data.id,
+          action: "create",
+          storeId: session?.storeId ?? null,
+          after: result.data,
+        }, tx);
+      }
+      return result;
+    });
+  }
+
+  async getDrawerMovements(sessionId: number): Promise<CashMovement[]> {
+    return tillStorage.getDrawerMovements(sessionId);
+  }
+
+  async getDrawerCeilingStatus(registerId: number): Promise<{ sessionId: number | null; hasCeiling: boolean; overCeiling: boolean }> {
+    return tillStorage.getDrawerCeilingStatus(registerId);
+  }
+
+  async getDayDrawerMovements(dayOperationId: number): Promise<DrawerMovementTotals> {
+    return tillStorage.getDayDrawerMovements(dayOperationId);
+  }
+
+  async getDenominationSets(): Promise<Record<string, Denomination[]>> {
+    return tillStorage.getDenominationSets();
+  }
+
+  async saveDenominationSet(currency: string, denominations: Denomination[], updatedBy: number | null): Promise<DenominationSet> {
+    const before = await tillStorage.getDenominationSet(currency);
+    return await db.transaction(async (tx) => {
+      const saved = await tillStorage.saveDenominationSet(currency, denominations, updatedBy, tx);
+      await auditStorage.recordAudit({
+        entityType: "denomination_set",
+        entityId: saved.id,
+        action: before ? "update" : "create",
+        before: before ?? null,
+        after: saved,
+      }, tx);
+      return saved;
+    });
+  }
+
+  async getCashCounts(dayOperationId: number, phase?: CashCountPhase): Promise<CashCount[]> {
+    return tillStorage.getCashCounts(dayOperationId, phase);
+  }
+
+  async saveCashCounts(dayOperationId: number, input: CashCountInput, countedBy: number | null): Promise<CashCount[]> {
+    return tillStorage.saveCashCounts(dayOperationId, input, countedBy);
+  }
+
+  async carryForeignCashForward(dayOperation: DayOperation): Promise<CashCount[]> {
+    return tillStorage.carryForeignCashForward(dayOperation);
+  }
+
+  async getDayCurrencyCash(dayOperationId: number): Promise<tillStorage.DayCurrencies | undefined> {
+    return tillStorage.getDayCurrencyCash(dayOperationId);
+  }
+
+  async getDayRecords(dayOperationId: number): Promise<DayRecords | undefined> {
+    return tillStorage.getDayRecords(dayOperationId);
+  }
+
+  async previewDayClose(dayOperationId: number, declared: DeclaredMovements): Promise<DayCloseReconciliation | undefined> {
+    return tillStorage.previewDayClose(dayOperationId, declared);
+  }
+
+  async recordNoSale(sessionId: number, reason: string | null, openedBy: number | null): Promise<tillStorage.TillResult<DrawerNoSale>> {
+    return tillStorage.recordNoSale(sessionId, reason, openedBy);
+  }
+
+  async getXReport(scope: tillStorage.TillReportScope): Promise<tillStorage.TillResult<TillReport>> {
+    return tillStorage.getXReport(scope);
+  }
+
+  async issueZReport(scope: tillStorage.TillReportScope, issuedBy: number | null): Promise<tillStorage.TillResult<ZReport>> {
+    return await db.transaction(async (tx) => {
+      const result = await tillStorage.issueZReport(scope, issuedBy, tx);
+      if (result.success) {
+        await auditStorage.recordAudit({
+          entityType: "z_report",
+          entityId: result.data.id,
+          action: "create",
+          storeId: result.data.storeId,
+          after: { zNumber: result.data.zNumber, registerId: result.data.registerId, dayOperationId: result.data.dayOperationId },
+        }, tx);
+      }
+      return result;
+    });
+  }
+
+  async getZReports(filters: { storeId?: number; storeIds?: number[]; dayOperationId?: number }): Promise<ZReport[]> {
+    return tillStorage.getZReports(filters);
+  }
+
+  async getZReport(id: number): Promise<ZReport | undefined> {
+    return tillStorage.getZReport(id);
+  }
+
   // VAT Management Methods
   async getVatConfigurations(storeId: number): Promise<VatConfiguration[]> {
     return await db.select().from(vatConfigurations)
@@ -2604,18 +3601,53 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createVatConfiguration(config: InsertVatConfiguration): Promise<VatConfiguration> {
-    const [created] = await db.insert(vatConfigurations).values(config).returning();
-    return created;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(vatConfigurations).values(config).returning();
+      await auditStorage.recordAudit({
+        entityType: "vat_configuration",
+        entityId: created.id,
+        action: "create",
+        storeId: created.storeId,
+        after: created,
+      }, tx);
+      return created;
+    });
   }
 
   async updateVatConfiguration(id: number, config: Partial<InsertVatConfiguration>): Promise<VatConfiguration | undefined> {
-    const [updated] = await db.update(vatConfigurations).set(config).where(eq(vatConfigurations.id, id)).returning();
-    return updated;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(vatConfigurations).where(eq(vatConfigurations.id, id));
+      const [updated] = await tx.update(vatConfigurations).set(config).where(eq(vatConfigurations.id, id)).returning();
+      if (updated) {
+        await auditStorage.recordAudit({
+          entityType: "vat_configuration",
+          entityId: id,
+          action: "update",
+          storeId: updated.storeId,
+          before,
+          after: updated,
+        }, tx);
+      }
+      return updated;
+    });
   }
 
   async deleteVatConfiguration(id: number): Promise<boolean> {
-    const result = await db.delete(vatConfigurations).where(eq(vatConfigurations.id, id));
-    return (result.rowCount || 0) > 0;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(vatConfigurations).where(eq(vatConfigurations.id, id));
+      const result = await tx.delete(vatConfigurations).where(eq(vatConfigurations.id, id));
+      const deleted = (result.rowCount || 0) > 0;
+      if (deleted) {
+        await auditStorage.recordAudit({
+          entityType: "vat_configuration",
+          entityId: id,
+          action: "delete",
+          storeId: before?.storeId,
+          before,
+        }, tx);
+      }
+      return deleted;
+    });
   }
 
   async getVatRateForCategory(storeId: number, category?: string): Promise<number> {
@@ -2682,13 +3714,22 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCurrencyRate(rate: InsertCurrencyRate): Promise<CurrencyRate> {
-    const [created] = await db.insert(currencyRates).values(rate).returning();
-    return created;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(currencyRates).values(rate).returning();
+      await auditStorage.recordAudit({ entityType: "currency_rate", entityId: created.id, action: "create", after: created }, tx);
+      return created;
+    });
   }
 
   async updateCurrencyRate(id: number, rate: Partial<InsertCurrencyRate>): Promise<CurrencyRate | undefined> {
-    const [updated] = await db.update(currencyRates).set(rate).where(eq(currencyRates.id, id)).returning();
-    return updated;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(currencyRates).where(eq(currencyRates.id, id));
+      const [updated] = await tx.update(currencyRates).set(rate).where(eq(currencyRates.id, id)).returning();
+      if (updated) {
+        await auditStorage.recordAudit({ entityType: "currency_rate", entityId: id, action: "update", before, after: updated }, tx);
+      }
+      return updated;
+    });
   }
 
   async convertCurrency(amount: number, fromCurrency: string, toCurrency: string): Promise<number> {
@@ -2784,256 +3825,91 @@ export class DatabaseStorage implements IStorage {
 
   // Promotions Management Methods
   async getPromotions(storeId: number): Promise<Promotion[]> {
-    return await db.select().from(promotions).where(eq(promotions.storeId, storeId));
+    return promotionStorage.getPromotions(storeId);
   }
 
   async getActivePromotions(storeId: number): Promise<Promotion[]> {
-    const now = new Date();
-    return await db.select().from(promotions)
-      .where(and(
-        eq(promotions.storeId, storeId),
-        eq(promotions.isActive, true),
-        lte(promotions.startDate, now),
-        gte(promotions.endDate, now)
-      ));
+    return promotionStorage.getActivePromotions(storeId);
   }
 
   async getPromotion(id: number): Promise<Promotion | undefined> {
-    const [promotion] = await db.select().from(promotions).where(eq(promotions.id, id));
-    return promotion;
+    return promotionStorage.getPromotion(id);
   }
 
-  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
-    const [created] = await db.insert(promotions).values(promotion).returning();
-    return created;
+  async createPromotion(promotion: InsertPromotion, rules?: PromotionRuleInput[]): Promise<Promotion> {
+    return promotionStorage.createPromotion(promotion, rules);
   }
 
-  async updatePromotion(id: number, promotion: Partial<InsertPromotion>): Promise<Promotion | undefined> {
-    const [updated] = await db.update(promotions).set(promotion).where(eq(promotions.id, id)).returning();
-    return updated;
+  async updatePromotion(id: number, promotion: Partial<InsertPromotion>, rules?: PromotionRuleInput[]): Promise<Promotion | undefined> {
+    return promotionStorage.updatePromotion(id, promotion, rules);
   }
 
   async deletePromotion(id: number): Promise<boolean> {
-    const result = await db.delete(promotions).where(eq(promotions.id, id));
-    return (result.rowCount || 0) > 0;
+    return promotionStorage.deletePromotion(id);
   }
 
   // Promotion Rules Methods
   async getPromotionRules(promotionId: number): Promise<PromotionRule[]> {
-    return await db.select().from(promotionRules).where(eq(promotionRules.promotionId, promotionId));
+    return promotionStorage.getPromotionRules(promotionId);
   }
 
   async createPromotionRule(rule: InsertPromotionRule): Promise<PromotionRule> {
-    const [created] = await db.insert(promotionRules).values(rule).returning();
-    return created;
+    return promotionStorage.createPromotionRule(rule);
   }
 
   async deletePromotionRule(id: number): Promise<boolean> {
-    const result = await db.delete(promotionRules).where(eq(promotionRules.id, id));
-    return (result.rowCount || 0) > 0;
+    return promotionStorage.deletePromotionRule(id);
   }
 
   // Promotion Application and Usage Methods
   async getApplicablePromotions(storeId: number, cartItems: any[]): Promise<Promotion[]> {
-    const activePromotions = await this.getActivePromotions(storeId);
-    const applicablePromotions: Promotion[] = [];
-
-    for (const promotion of activePromotions) {
-      const rules = await this.getPromotionRules(promotion.id);
-      let canApply = false;
-
-      // Check if promotion applies to cart items
-      for (const rule of rules) {
-        if (rule.ruleType === 'all_products') {
-          canApply = true;
-          break;
-        } else if (rule.ruleType === 'product' && rule.productId) {
-          canApply = cartItems.some(item => item.productId === rule.productId);
-          if (canApply) break;
-        } else if (rule.ruleType === 'category' && rule.category) {
-          canApply = cartItems.some(item => item.category === rule.category);
-          if (canApply) break;
-        }
-      }
-
-      // Check minimum order amount
-      if (canApply && promotion.minOrderAmount) {
-        const cartTotal = cartItems.reduce((sum, item) => sum + (parseFloat(item.price) * item.quantity), 0);
-        canApply = cartTotal >= parseFloat(promotion.minOrderAmount);
-      }
-
-      if (canApply) {
-        applicablePromotions.push(promotion);
-      }
-    }
-
-    return applicablePromotions;
+    return promotionStorage.getApplicablePromotions(storeId, cartItems);
   }
 
   async applyPromotion(promotionId: number, cartItems: any[]): Promise<{ success: boolean; discount: number; appliedItems: any[] }> {
-    const promotion = await this.getPromotion(promotionId);
-    if (!promotion || !promotion.isActive) {
-      return { success: false, discount: 0, appliedItems: [] };
-    }
-
-    const rules = await this.getPromotionRules(promotion.id);
-    let discount = 0;
-    const appliedItems: any[] = [];
-
-    // Calculate discount based on promotion type
-    const cartTotal = cartItems.reduce((sum, item) => sum + (parseFloat(item.price) * item.quantity), 0);
-
-    switch (promotion.type) {
-      case 'percentage':
-        discount = cartTotal * (parseFloat(promotion.value || '0') / 100);
-        break;
-      case 'fixed_amount':
-        discount = parseFloat(promotion.value || '0');
-        break;
-      case 'buy_x_get_y':
-        // Handle Buy X Get Y promotions
-        for (const rule of rules) {
-          if (rule.buyQuantity && rule.getQuantity) {
-            const eligibleItems = rule.ruleType === 'all_products' 
-              ? cartItems 
-              : rule.ruleType === 'product' && rule.productId
-                ? cartItems.filter(item => item.productId === rule.productId)
-                : rule.ruleType === 'category' && rule.category
-                  ? cartItems.filter(item => item.category === rule.category)
-                  : [];
-            
-            const totalEligibleQty = eligibleItems.reduce((sum, item) => sum + item.quantity, 0);
-            const setsQualified = Math.floor(totalEligibleQty / rule.buyQuantity);
-            const freeItems = setsQualified * rule.getQuantity;
-            
-            if (freeItems > 0) {
-              // Calculate discount as the value of free items (lowest priced items first)
-              const sortedItems = [...eligibleItems].sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
-              let remainingFreeItems = freeItems;
-              
-              for (const item of sortedItems) {
-                if (remainingFreeItems <= 0) break;
-                const freeFromThisItem = Math.min(remainingFreeItems, item.quantity);
-                discount += freeFromThisItem * parseFloat(item.price);
-                remainingFreeItems -= freeFromThisItem;
-                appliedItems.push({...item, discountedQuantity: freeFromThisItem});
-              }
-            }
-          }
-        }
-        break;
-      default:
-        discount = 0;
-    }
-
-    // Apply maximum discount limit
-    if (promotion.maxDiscountAmount && discount > parseFloat(promotion.maxDiscountAmount)) {
-      discount = parseFloat(promotion.maxDiscountAmount);
-    }
+    return promotionStorage.applyPromotion(promotionId, cartItems);
+  }
 
-    // Mark applicable items
-    for (const rule of rules) {
-      if (rule.ruleType === 'all_products') {
-        appliedItems.push(...cartItems);
-        break;
-      } else if (rule.ruleType === 'product' && rule.productId) {
-        appliedItems.push(...cartItems.filter(item => item.productId === rule.productId));
-      } else if (rule.ruleType === 'category' && rule.category) {
-        appliedItems.push(...cartItems.filter(item => item.category === rule.category));
-      }
-    }
+  async applyPromotions(storeId: number, items: any[], customerId?: number, couponCodes?: string[]): Promise<{ promotions: Promotion[]; coupons: CouponApplication[] } & PromotionEvaluation> {
+    return promotionStorage.applyPromotions(storeId, items, customerId, couponCodes);
+  }
 
-    return { success: true, discount, appliedItems };
-  }
-
-  async applyPromotions(storeId: number, items: any[], customerId?: number): Promise<{ promotions: Promotion[]; totalDiscount: number; appliedPromotions: any[] }> {
-    const activePromotions = await this.getActivePromotions(storeId);
-    let totalDiscount = 0;
-    const appliedPromotions: any[] = [];
-
-    for (const promotion of activePromotions) {
-      const rules = await this.getPromotionRules(promotion.id);
-      let canApply = false;
-      let discountAmount = 0;
-
-      // Check if promotion applies to any items
-      for (const rule of rules) {
-        if (rule.ruleType === 'all_products') {
-          canApply = true;
-          break;
-        } else if (rule.ruleType === 'category') {
-          canApply = items.some(item => item.category === rule.category);
-          if (canApply) break;
-        } else if (rule.ruleType === 'product') {
-          canApply = items.some(item => item.productId === rule.productId);
-          if (canApply) break;
-        }
-      }
+  async recordPromotionUsage(usage: InsertPromotionUsage): Promise<PromotionUsage> {
+    return promotionStorage.recordPromotionUsage(usage);
+  }
 
-      if (canApply) {
-        const orderTotal = items.reduce((sum, item) => sum + parseFloat(item.total), 0);
-        
-        // Check minimum order amount
-        if (promotion.minOrderAmount && orderTotal < parseFloat(promotion.minOrderAmount)) {
-          continue;
-        }
+  async getPromotionUsage(promotionId?: number, customerId?: number): Promise<PromotionUsage[]> {
+    return promotionStorage.getPromotionUsage(promotionId, customerId);
+  }
 
-        // Calculate discount
-        if (promotion.type === 'percentage') {
-          discountAmount = orderTotal * (parseFloat(promotion.value || "0") / 100);
-        } else if (promotion.type === 'fixed_amount') {
-          discountAmount = parseFloat(promotion.value || "0");
-        }
+  async checkPromotionRedemption(redemption: PromotionRedemption): Promise<CouponRejection | null> {
+    return promotionStorage.checkRedemption(redemption);
+  }
 
-        // Apply maximum discount cap
-        if (promotion.maxDiscountAmount && discountAmount > parseFloat(promotion.maxDiscountAmount)) {
-          discountAmount = parseFloat(promotion.maxDiscountAmount);
-        }
+  async checkPromotionPricing(redemption: PromotionRedemption, items: any[], claimedDiscount: number): Promise<CouponRejection | null> {
+    return promotionStorage.checkPromotionPricing(redemption, items, claimedDiscount);
+  }
 
-        // Check usage limits
-        if (promotion.usageLimit && (promotion.usageCount || 0) >= promotion.usageLimit) {
-          continue;
-        }
+  // Coupon Methods
+  async getCoupons(promotionId: number): Promise<Coupon[]> {
+    return promotionStorage.getCoupons(promotionId);
+  }
 
-        // Customer-specific limits would be checked here
-        
-        totalDiscount += discountAmount;
-        appliedPromotions.push({
-          promotionId: promotion.id,
-          name: promotion.name,
-          discountAmount,
-          type: promotion.type
-        });
-      }
-    }
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    return promotionStorage.getCoupon(id);
+  }
 
-    return { promotions: activePromotions, totalDiscount, appliedPromotions };
+  async createCoupons(promotionId: number, input: CouponBatchInput): Promise<{ success: true; coupons: Coupon[] } | { success: false; message: string }> {
+    return promotionStorage.createCoupons(promotionId, input);
   }
 
-  async recordPromotionUsage(usage: InsertPromotionUsage): Promise<PromotionUsage> {
-    const [created] = await db.insert(promotionUsage).values(usage).returning();
-    
-    // Update promotion usage count
-    await db.update(promotions)
-      .set({ usageCount: sql`${promotions.usageCount} + 1` })
-      .where(eq(promotions.id, usage.promotionId));
-    
-    return created;
+  async updateCoupon(id: number, updates: Partial<Pick<Coupon, "isActive" | "expiresAt" | "maxRedemptions">>): Promise<Coupon | undefined> {
+    return promotionStorage.updateCoupon(id, updates);
   }
 
-  async getPromotionUsage(promotionId?: number, customerId?: number): Promise<PromotionUsage[]> {
-    if (promotionId && customerId) {
-      return await db.select().from(promotionUsage).where(and(
-        eq(promotionUsage.promotionId, promotionId),
-        eq(promotionUsage.customerId, customerId)
-      ));
-    } else if (promotionId) {
-      return await db.select().from(promotionUsage).where(eq(promotionUsage.promotionId, promotionId));
-    } else if (customerId) {
-      return await db.select().from(promotionUsage).where(eq(promotionUsage.customerId, customerId));
-    }
-    
-    return await db.select().from(promotionUsage);
+  async validateCoupon(code: string, storeId: number, customerId?: number | null): Promise<{ success: true; coupon: Coupon; promotion: Promotion } | { success: false; rejection: CouponRejection }> {
+    const customer = await promotionStorage.getCustomerPromotionContext(customerId);
+    return promotionStorage.validateCoupon(code, storeId, customer);
   }
 
 
@@ -0,0 +1,79 @@
+// Manager approval thresholds, kept per store under `stores.settings.approvals`.
+// Shared so the till can prompt for a PIN before the server would refuse.
+import type { ApprovalAction } from "./schema";
+
+export interface ApprovalPolicy {
+  voidRequiresApproval: boolean;
+  // Refunds above this amount need approval; 0 = every refund, null = never
+  refundLimit: number | null;
+  // Sale discounts above this share of the sale need approval; null = never
+  discountPercentLimit: number | null;
+  // Selling below the catalogue price needs approval
+  priceOverrideRequiresApproval: boolean;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  voidRequiresApproval: true,
+  refundLimit: 0,
+  discountPercentLimit: 10,
+  priceOverrideRequiresApproval: true,
+};
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  void: "Void sale",
+  refund: "Refund",
+  discount: "Discount",
+  price_override: "Price change",
+};
+
+const readLimit = (value: unknown, fallback: number | null): number | null => {
+  if (value === null) return null;
+  const limit = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(limit) && limit >= 0 ? limit : fallback;
+};
+
+const readFlag = (value: unknown, fallback: boolean): boolean =>
+  typeof value === "boolean" ? value : fallback;
+
+/** Reads a store's approval policy, falling back to the defaults field by field. */
+export function readApprovalPolicy(settings: unknown): ApprovalPolicy {
+  const raw = settings && typeof settings === "object"
+    ? (settings as Record<string, unknown>).approvals
+    : undefined;
+  const policy = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+
+  return {
+    voidRequiresApproval: readFlag(policy.voidRequiresApproval, DEFAULT_APPROVAL_POLICY.voidRequiresApproval),
+    refundLimit: readLimit(policy.refundLimit, DEFAULT_APPROVAL_POLICY.refundLimit),
+    discountPercentLimit: readLimit(policy.discountPercentLimit, DEFAULT_APPROVAL_POLICY.discountPercentLimit),
+    priceOverrideRequiresApproval: readFlag(
+      policy.priceOverrideRequiresApproval,
+      DEFAULT_APPROVAL_POLICY.priceOverrideRequiresApproval,
+    ),
+  };
+}
+
+/**
+ * Whether an action of this size needs a manager. `amount` is the money
+ * involved; for discounts `base` is the sale value the discount is taken off.
+ */
+export function approvalNeeded(
+  policy: ApprovalPolicy,
+  action: ApprovalAction,
+  amount: number,
+  base?: number,
+): boolean {
+  switch (action) {
+    case "void":
+      return policy.voidRequiresApproval;
+    case "refund":
+      return policy.refundLimit !== null && amount > policy.refundLimit;
+    case "discount": {
+      if (policy.discountPercentLimit === null || amount <= 0) return false;
+      if (!base || base <= 0) return true;
+      return (amount / base) * 100 > policy.discountPercentLimit + 1e-9;
+    }
+    case "price_override":
+      return policy.priceOverrideRequiresApproval && amount > 0.005;
+  }
+}
@@ -0,0 +1,194 @@
+// In-store scale labels: EAN-13 codes starting with a prefix from the 2x
+// range reserved for in-store use, carrying the scale PLU of the product and
+// either its weight or its price. How the digits are laid out depends on the
+// scales, so each store keeps its own rules under `stores.settings.barcodes`.
+// Shared so the store settings form and the server read them the same way.
+import type { Product } from "./schema";
+import { baseUnitOf, resolveUnit, roundQuantity, unitPrice, type ResolvedUnit, type UnitDefinition } from "./units";
+
+export const EMBEDDED_VALUE_TYPES = ["weight", "price"] as const;
+export type EmbeddedValueType = typeof EMBEDDED_VALUE_TYPES[number];
+
+export const EMBEDDED_VALUE_LABELS: Record<EmbeddedValueType, string> = {
+  weight: "Weight (kg)",
+  price: "Price",
+};
+
+export interface WeightedBarcodeRule {
+  // Digits the label starts with, e.g. "21"
+  prefix: string;
+  // Digits after the prefix holding the product's scale PLU
+  pluDigits: number;
+  valueType: EmbeddedValueType;
+  // Digits just before the check digit holding the weight or price; any digits
+  // between the PLU and the value (such as a price check digit) are skipped
+  valueDigits: number;
+  // 3 for a weight in grams read as kilos, 2 for a price in cents
+  decimals: number;
+  validateCheckDigit: boolean;
+}
+
+export interface BarcodeSettings {
+  weighted: WeightedBarcodeRule[];
+}
+
+export const DEFAULT_BARCODE_SETTINGS: BarcodeSettings = { weighted: [] };
+
+// What a new rule starts as: 2 prefix digits, 5 PLU digits, 5 digits of grams
+export const NEW_WEIGHTED_BARCODE_RULE: WeightedBarcodeRule = {
+  prefix: "20",
+  pluDigits: 5,
+  valueType: "weight",
+  valueDigits: 5,
+  decimals: 3,
+  validateCheckDigit: true,
+};
+
+// Everything before the EAN-13 check digit
+const PAYLOAD_DIGITS = 12;
+
+const isCount = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+/** Why a rule cannot read labels, or null when it can. */
+export function checkWeightedBarcodeRule(rule: WeightedBarcodeRule): string | null {
+  if (!/^\d{1,3}$/.test(rule.prefix)) return "The prefix must be one to three digits";
+  if (!isCount(rule.pluDigits, 1, 6)) return "PLUs must be one to six digits";
+  if (!isCount(rule.valueDigits, 1, 6)) return "Weights and prices must be one to six digits";
+  if (!isCount(rule.decimals, 0, 3) || rule.decimals > rule.valueDigits) return "Decimal places must be between 0 and 3";
+  if (rule.prefix.length + rule.pluDigits + rule.valueDigits > PAYLOAD_DIGITS) {
+    return "The prefix, PLU and value do not fit in 12 digits";
+  }
+  return null;
+}
+
+function readRule(raw: unknown): WeightedBarcodeRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const values = raw as Record<string, unknown>;
+  const rule: WeightedBarcodeRule = {
+    prefix: typeof values.prefix === "string" ? values.prefix.trim() : "",
+    pluDigits: values.pluDigits as number,
+    valueType: EMBEDDED_VALUE_TYPES.includes(values.valueType as EmbeddedValueType)
+      ? (values.valueType as EmbeddedValueType)
+      : NEW_WEIGHTED_BARCODE_RULE.valueType,
+    valueDigits: values.valueDigits as number,
+    decimals: values.decimals as number,
+    validateCheckDigit: typeof values.validateCheckDigit === "boolean"
+      ? values.validateCheckDigit
+      : NEW_WEIGHTED_BARCODE_RULE.validateCheckDigit,
+  };
+  return checkWeightedBarcodeRule(rule) === null ? rule : null;
+}
+
+/** Reads a store's barcode settings, leaving out rules that cannot read a label. */
+export function readBarcodeSettings(settings: unknown): BarcodeSettings {
+  const raw = settings && typeof settings === "object"
+    ? (settings as Record<string, unknown>).barcodes
+    : undefined;
+  const weighted = raw && typeof raw === "object" ? (raw as Record<string, unknown>).weighted : undefined;
+
+  return {
+    weighted: Array.isArray(weighted)
+      ? weighted.map(readRule).filter((rule): rule is WeightedBarcodeRule => rule !== null)
+      : DEFAULT_BARCODE_SETTINGS.weighted,
+  };
+}
+
+/** The EAN-13 check digit for the first 12 digits of a code. */
+export function ean13CheckDigit(payload: string): number {
+  let sum = 0;
+  for (let i = 0; i < PAYLOAD_DIGITS; i++) {
+    sum += Number(payload[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export const hasValidEan13CheckDigit = (code: string): boolean =>
+  /^\d{13}$/.test(code) && ean13CheckDigit(code) === Number(code[PAYLOAD_DIGITS]);
+
+/** PLUs are compared as numbers: "00042" and "42" are the same PLU. */
+export const normalisePlu = (plu: string): string => plu.trim().replace(/^0+(?=\d)/, "");
+
+export interface WeightedBarcode {
+  rule: WeightedBarcodeRule;
+  plu: string;
+  // In kilos for weight labels, in the store's currency for price labels
+  value: number;
+}
+
+/**
+ * Reads a scale label with the first rule whose prefix it starts with,
+ * longest prefixes first. Returns null for codes that are not scale labels
+ * under these rules, or whose check digit is wrong when the rule checks it.
+ */
+export function parseWeightedBarcode(barcode: string, rules: WeightedBarcodeRule[]): WeightedBarcode | null {
+  const code = barcode.trim();
+  if (!/^\d{13}$/.test(code)) return null;
+
+  const rule = [...rules]
+    .sort((a, b) => b.prefix.length - a.prefix.length)
+    .find((candidate) => code.startsWith(candidate.prefix));
+  if (!rule) return null;
+  if (rule.validateCheckDigit && !hasValidEan13CheckDigit(code)) return null;
+
+  const pluStart = rule.prefix.length;
+  const plu = normalisePlu(code.slice(pluStart, pluStart + rule.pluDigits));
+  const digits = code.slice(PAYLOAD_DIGITS - rule.valueDigits, PAYLOAD_DIGITS);
+  return { rule, plu, value: Number(digits) / 10 ** rule.decimals };
+}
+
+export interface ScannedLine {
+  unit: ResolvedUnit;
+  quantity: number;
+  // Set when the label's price is charged as it is rather than worked out from a weight
+  price: number | null;
+  // Set for price labels: the line comes to the label's price, whatever the weight rounds to
+  total: number | null;
+}
+
+/**
+ * The unit a product is weighed in: kilos, as its base unit or one of its
+ * sales units, or grams. Null for products not sold by weight.
+ */
+function weighingUnit(product: Pick<Product, "baseUnit" | "baseUnitDecimal">, units: UnitDefinition[]): { unit: ResolvedUnit; perKilo: number } | null {
+  const base = baseUnitOf(product);
+  if (base.label === "kg" && base.allowsDecimal) return { unit: base, perKilo: 1 };
+  const kilo = resolveUnit(product, units, "kg", "sale");
+  if (kilo?.allowsDecimal) return { unit: kilo, perKilo: 1 };
+  if (base.label === "g") return { unit: base, perKilo: 1000 };
+  return null;
+}
+
+// Grams counted in whole numbers are rounded to the nearest gram
+const weighedQuantity = (unit: ResolvedUnit, quantity: number): number =>
+  unit.allowsDecimal ? roundQuantity(quantity) : Math.max(1, Math.round(quantity));
+
+/**
+ * What a scale label puts in the cart. Weight labels need a product sold by
+ * weight and give its weight; price labels give the weight the price buys
+ * for weighed products, and one item at the label price for anything else.
+ * The product's price should be the one the scanning store sells it at.
+ */
+export function scannedLine(
+  product: Pick<Product, "name" | "price" | "baseUnit" | "baseUnitDecimal">,
+  units: UnitDefinition[],
+  scan: WeightedBarcode,
+): { success: true; line: ScannedLine } | { success: false; message: string } {
+  if (scan.value <= 0) {
+    return { success: false, message: "The label shows no weight or price" };
+  }
+
+  const weighing = weighingUnit(product, units);
+  if (scan.rule.valueType === "weight") {
+    if (!weighing) return { success: false, message: `${product.name} is not sold by weight` };
+    return { success: true, line: { unit: weighing.unit, quantity: weighedQuantity(weighing.unit, scan.value * weighing.perKilo), price: null, total: null } };
+  }
+
+  if (weighing) {
+    const price = unitPrice(product.price, weighing.unit);
+    if (price > 0) {
+      return { success: true, line: { unit: weighing.unit, quantity: weighedQuantity(weighing.unit, scan.value / price), price: null, total: scan.value } };
+    }
+  }
+  return { success: true, line: { unit: baseUnitOf(product), quantity: 1, price: scan.value, total: scan.value } };
+}
@@ -0,0 +1,215 @@
+// Notes and coins per currency, and the sums a cash count is reconciled with.
+// A count is a list of (currency, denomination, quantity) lines so any
+// currency the store takes can be counted the same way. Shared so the close
+// screen shows the same totals and converted variance the server records.
+import { CURRENCIES } from "./schema";
+
+export interface Denomination {
+  value: number;
+  label: string;
+  kind: "note" | "coin";
+}
+
+export interface CashCountLine {
+  currency: string;
+  denomination: number;
+  quantity: number;
+}
+
+const note = (value: number, label: string): Denomination => ({ value, label, kind: "note" });
+const coin = (value: number, label: string): Denomination => ({ value, label, kind: "coin" });
+
+// Used until a currency's set is configured
+export const DEFAULT_DENOMINATIONS: Record<string, Denomination[]> = {
+  QAR: [
+    note(500, "QR 500"), note(200, "QR 200"), note(100, "QR 100"), note(50, "QR 50"), note(20, "QR 20"),
+    note(10, "QR 10"), note(5, "QR 5"), note(1, "QR 1"), coin(0.5, "50 Dirhams"), coin(0.25, "25 Dirhams"),
+  ],
+  USD: [
+    note(100, "$100"), note(50, "$50"), note(20, "$20"), note(10, "$10"), note(5, "$5"), note(2, "$2"), note(1, "$1"),
+    coin(0.25, "25¢"), coin(0.1, "10¢"), coin(0.05, "5¢"), coin(0.01, "1¢"),
+  ],
+  EUR: [
+    note(200, "€200"), note(100, "€100"), note(50, "€50"), note(20, "€20"), note(10, "€10"), note(5, "€5"),
+    coin(2, "€2"), coin(1, "€1"), coin(0.5, "50c"), coin(0.2, "20c"), coin(0.1, "10c"), coin(0.05, "5c"),
+    coin(0.02, "2c"), coin(0.01, "1c"),
+  ],
+  GBP: [
+    note(50, "£50"), note(20, "£20"), note(10, "£10"), note(5, "£5"), coin(2, "£2"), coin(1, "£1"),
+    coin(0.5, "50p"), coin(0.2, "20p"), coin(0.1, "10p"), coin(0.05, "5p"), coin(0.02, "2p"), coin(0.01, "1p"),
+  ],
+  AED: [
+    note(1000, "AED 1000"), note(500, "AED 500"), note(200, "AED 200"), note(100, "AED 100"), note(50, "AED 50"),
+    note(20, "AED 20"), note(10, "AED 10"), note(5, "AED 5"), coin(1, "AED 1"), coin(0.5, "50 fils"), coin(0.25, "25 fils"),
+  ],
+  SAR: [
+    note(500, "SR 500"), note(200, "SR 200"), note(100, "SR 100"), note(50, "SR 50"), note(10, "SR 10"), note(5, "SR 5"),
+    coin(2, "SR 2"), coin(1, "SR 1"), coin(0.5, "50 halala"), coin(0.25, "25 halala"),
+  ],
+  KWD: [
+    note(20, "KD 20"), note(10, "KD 10"), note(5, "KD 5"), note(1, "KD 1"), note(0.5, "KD ½"), note(0.25, "KD ¼"),
+    coin(0.1, "100 fils"), coin(0.05, "50 fils"), coin(0.02, "20 fils"), coin(0.01, "10 fils"), coin(0.005, "5 fils"),
+  ],
+  BHD: [
+    note(20, "BD 20"), note(10, "BD 10"), note(5, "BD 5"), note(1, "BD 1"), note(0.5, "BD ½"),
+    coin(0.1, "100 fils"), coin(0.05, "50 fils"), coin(0.025, "25 fils"), coin(0.01, "10 fils"), coin(0.005, "5 fils"),
+  ],
+};
+
+// Dinars are divided into 1000 fils; everything else here into 100
+const THREE_DECIMAL_CURRENCIES = new Set<string>([CURRENCIES.KWD, CURRENCIES.BHD]);
+
+export function currencyDecimals(currency: string): number {
+  return THREE_DECIMAL_CURRENCIES.has(currency) ? 3 : 2;
+}
+
+export function roundCurrency(value: number, currency: string): number {
+  const scale = 10 ** currencyDecimals(currency);
+  return Math.round((value + Number.EPSILON) * scale) / scale;
+}
+
+/** What each currency's count adds up to. */
+export function countTotals(lines: CashCountLine[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const line of lines) {
+    totals[line.currency] = (totals[line.currency] ?? 0) + line.denomination * line.quantity;
+  }
+  for (const currency of Object.keys(totals)) {
+    totals[currency] = roundCurrency(totals[currency], currency);
+  }
+  return totals;
+}
+
+/** Count lines whose denomination is not in their currency's set, e.g. a 20 in a currency without 20s. */
+export function unknownDenominations(lines: CashCountLine[], sets: Record<string, Denomination[]>): CashCountLine[] {
+  return lines.filter((line) => !(sets[line.currency] ?? []).some((denomination) => denomination.value === line.denomination));
+}
+
+export interface CurrencyReconciliationLine {
+  currency: string;
+  expected: number;
+  counted: number;
+  variance: number;
+  // Base-currency units for one unit of this currency; null when no rate was in effect
+  rate: number | null;
+  varianceInBase: number | null;
+}
+
+export interface CurrencyReconciliation {
+  baseCurrency: string;
+  lines: CurrencyReconciliationLine[];
+  totalVarianceInBase: number;
+  missingRates: string[];
+}
+
+/**
+ * Each currency's counted cash against what it should be, with the variance
+ * converted to the store's base currency at the day's rate. Currencies
+ * without a rate are listed so the close can be held until one is added.
+ */
+export function reconcileCurrencies(input: {
+  baseCurrency: string;
+  expected: Record<string, number>;
+  counted: Record<string, number>;
+  rates: Record<string, number | null | undefined>;
+}): CurrencyReconciliation {
+  const { baseCurrency } = input;
+  const currencies = Array.from(new Set([baseCurrency, ...Object.keys(input.expected), ...Object.keys(input.counted)]));
+
+  const lines = currencies.map((currency) => {
+    const expected = roundCurrency(input.expected[currency] ?? 0, currency);
+    const counted = roundCurrency(input.counted[currency] ?? 0, currency);
+    const variance = roundCurrency(counted - expected, currency);
+    const rate = currency === baseCurrency ? 1 : input.rates[currency] ?? null;
+    return {
+      currency,
+      expected,
+      counted,
+      variance,
+      rate,
+      varianceInBase: rate === null ? null : roundCurrency(variance * rate, baseCurrency),
+    };
+  });
+
+  const totalVarianceInBase = roundCurrency(
+    lines.reduce((total, line) => total + (line.varianceInBase ?? 0), 0),
+    baseCurrency,
+  );
+  // A currency that balances needs no rate to be reconciled
+  const missingRates = lines.filter((line) => line.rate === null && line.variance !== 0).map((line) => line.currency);
+
+  return { baseCurrency, lines, totalVarianceInBase, missingRates };
+}
+
+interface RateRow {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: string | number;
+  effectiveDate: Date | string | null;
+}
+
+/**
+ * Base-currency units for one unit of `currency` on a given day (YYYY-MM-DD):
+ * the latest rate whose effective date is on or before that day. A rate kept
+ * only the other way round (base to currency) is inverted.
+ */
+export function effectiveRate(rows: RateRow[], currency: string, baseCurrency: string, onDate: string): number | null {
+  if (currency === baseCurrency) return 1;
+
+  let latest: { day: string; rate: number } | null = null;
+  for (const row of rows) {
+    const direct = row.fromCurrency === currency && row.toCurrency === baseCurrency;
+    const inverse = row.fromCurrency === baseCurrency && row.toCurrency === currency;
+    const value = Number(row.rate);
+    if ((!direct && !inverse) || !row.effectiveDate || !(value > 0)) continue;
+
+    const day = new Date(row.effectiveDate).toISOString().split("T")[0];
+    if (day > onDate) continue;
+    // On the same day a direct rate wins over an inverted one
+    if (!latest || day > latest.day || (day === latest.day && direct)) {
+      latest = { day, rate: direct ? value : 1 / value };
+    }
+  }
+  return latest?.rate ?? null;
+}
+
+/** Cash held in a currency other than the base one on a trading day. */
+export interface DayCurrencyCash {
+  currency: string;
+  opening: number; // Carried from the previous day's closing count
+  cashSales: number; // In the currency itself
+  cashSalesInBase: number; // As the sales were booked in the base currency
+  rate: number | null;
+}
+
+/**
+ * The day close across currencies. The base currency is expected to hold
+ * what the close screen works out (already net of sales taken in other
+ * currencies); each other currency its opening count plus its cash sales.
+ * `extraBaseCash` is base cash counted outside the denominations, such as
+ * the miscellaneous amount.
+ */
+export function dayCashReconciliation(input: {
+  baseCurrency: string;
+  baseExpected: number;
+  extraBaseCash?: number;
+  counts: CashCountLine[];
+  currencies: DayCurrencyCash[];
+}): CurrencyReconciliation {
+  const { baseCurrency } = input;
+  const counted = countTotals(input.counts.filter((line) => line.quantity > 0));
+  counted[baseCurrency] = (counted[baseCurrency] ?? 0) + (input.extraBaseCash ?? 0);
+
+  const expected: Record<string, number> = { [baseCurrency]: input.baseExpected };
+  const rates: Record<string, number | null> = {};
+  for (const day of input.currencies) {
+    if (day.currency === baseCurrency) continue;
+    rates[day.currency] = day.rate;
+    // A currency the store neither held nor took today only shows up if counted
+    if (day.opening !== 0 || day.cashSales !== 0) {
+      expected[day.currency] = day.opening + day.cashSales;
+    }
+  }
+
+  return reconcileCurrencies({ baseCurrency, expected, counted, rates });
+}
@@ -0,0 +1,55 @@
+// Stock rules, kept per store under `stores.settings.inventory`.
+// Shared so the store settings form and the server read them the same way.
+import type { InventoryMovementType } from "./schema";
+
+// How the cost of goods sold is worked out: the store's moving average cost,
+// or the cost of the oldest stock still on hand
+export const COSTING_METHODS = ["average", "fifo"] as const;
+export type CostingMethod = typeof COSTING_METHODS[number];
+
+export interface InventoryPolicy {
+  // Let sales and write-offs take stock below zero instead of refusing them
+  allowNegativeStock: boolean;
+  costingMethod: CostingMethod;
+}
+
+export const DEFAULT_INVENTORY_POLICY: InventoryPolicy = {
+  allowNegativeStock: true,
+  costingMethod: "average",
+};
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  average: "Weighted average",
+  fifo: "First in, first out",
+};
+
+export const INVENTORY_MOVEMENT_LABELS: Record<InventoryMovementType, string> = {
+  opening: "Opening balance",
+  sale: "Sale",
+  void: "Voided sale",
+  return: "Customer return",
+  receipt: "Supplier receipt",
+  supplier_return: "Return to supplier",
+  stock_take: "Stock take",
+  transfer_in: "Transfer in",
+  transfer_out: "Transfer out",
+  write_off: "Write-off",
+  adjustment: "Adjustment",
+};
+
+/** Reads a store's inventory policy, falling back to the defaults field by field. */
+export function readInventoryPolicy(settings: unknown): InventoryPolicy {
+  const raw = settings && typeof settings === "object"
+    ? (settings as Record<string, unknown>).inventory
+    : undefined;
+  const policy = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+
+  return {
+    allowNegativeStock: typeof policy.allowNegativeStock === "boolean"
+      ? policy.allowNegativeStock
+      : DEFAULT_INVENTORY_POLICY.allowNegativeStock,
+    costingMethod: COSTING_METHODS.includes(policy.costingMethod as CostingMethod)
+      ? (policy.costingMethod as CostingMethod)
+      : DEFAULT_INVENTORY_POLICY.costingMethod,
+  };
+}
@@ -0,0 +1,196 @@
+// Role-Based Access Control (RBAC) permission matrix
+// Shared by the server (route middleware) and the client (UI gating) so both
+// sides always agree on what each role can do.
+import { USER_ROLES, type UserRole } from "./schema";
+
+export const PERMISSION_RESOURCES = [
+  'transactions',
+  'returns',
+  'approvals',
+  'customers',
+  'products',
+  'inventory',
+  'transfers',
+  'purchasing',
+  'suppliers',
+  'promotions',
+  'reports',
+  'shifts',
+  'day-operations',
+  'invoices',
+  'stores',
+  'users',
+  'settings',
+  'risk',
+  'ai',
+  'uploads',
+  'competitors',
+  'profile',
+  'audit',
+] as const;
+
+export type PermissionResource = typeof PERMISSION_RESOURCES[number];
+
+export interface Permission {
+  resource: PermissionResource | '*';
+  action: string;
+}
+
+// Permission matrix - defines what each role can do
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [USER_ROLES.ADMIN]: [
+    { resource: '*', action: '*' }, // Full access
+  ],
+
+  [USER_ROLES.MANAGER]: [
+    { resource: 'transactions', action: 'create' },
+    { resource: 'transactions', action: 'read' },
+    { resource: 'transactions', action: 'update' },
+    { resource: 'transactions', action: 'refund' },
+    { resource: 'transactions', action: 'void' },
+    { resource: 'transactions', action: 'hold' },
+    { resource: 'transactions', action: 'print' },
+    { resource: 'returns', action: '*' },
+    { resource: 'approvals', action: '*' },
+    { resource: 'customers', action: '*' },
+    { resource: 'products', action: '*' },
+    { resource: 'inventory', action: '*' },
+    { resource: 'transfers', action: '*' },
+    // Accepting invoice differences stays with admins, who pay suppliers
+    { resource: 'purchasing', action: 'read' },
+    { resource: 'purchasing', action: 'create' },
+    { resource: 'purchasing', action: 'update' },
+    { resource: 'purchasing', action: 'receive' },
+    { resource: 'purchasing', action: 'cancel' },
+    { resource: 'promotions', action: '*' },
+    { resource: 'reports', action: 'read' },
+    { resource: 'reports', action: 'save' },
+    { resource: 'shifts', action: '*' },
+    // Reopening a closed day stays with admins
+    { resource: 'day-operations', action: 'read' },
+    { resource: 'day-operations', action: 'open' },
+    { resource: 'day-operations', action: 'update' },
+    { resource: 'day-operations', action: 'close' },
+    { resource: 'suppliers', action: 'read' },
+    { resource: 'invoices', action: 'read' },
+    { resource: 'invoices', action: 'create' },
+    { resource: 'stores', action: 'read' },
+    { resource: 'settings', action: 'read' },
+    { resource: 'settings', action: 'update' },
+    { resource: 'risk', action: 'read' },
+    { resource: 'ai', action: 'use' },
+    { resource: 'uploads', action: 'create' },
+    { resource: 'competitors', action: '*' },
+    { resource: 'profile', action: '*' },
+  ],
+
+  [USER_ROLES.SUPERVISOR]: [
+    { resource: 'transactions', action: 'create' },
+    { resource: 'transactions', action: 'read' },
+    { resource: 'transactions', action: 'refund' },
+    { resource: 'transactions', action: 'void' },
+    { resource: 'transactions', action: 'hold' },
+    { resource: 'transactions', action: 'print' },
+    { resource: 'returns', action: 'read' },
+    { resource: 'returns', action: 'create' },
+    // 'grant' lets a user approve at the till and skip approval themselves
+    { resource: 'approvals', action: 'grant' },
+    { resource: 'approvals', action: 'request' },
+    { resource: 'customers', action: 'read' },
+    { resource: 'customers', action: 'create' },
+    { resource: 'customers', action: 'update' },
+    { resource: 'products', action: 'read' },
+    { resource: 'products', action: 'update' },
+    { resource: 'inventory', action: 'read' },
+    { resource: 'inventory', action: 'update' },
+    // Supervisors pick and receive transfers; managers request and cancel them
+    { resource: 'transfers', action: 'read' },
+    { resource: 'transfers', action: 'dispatch' },
+    { resource: 'transfers', action: 'receive' },
+    { resource: 'purchasing', action: 'read' },
+    { resource: 'purchasing', action: 'receive' },
+    { resource: 'promotions', action: 'apply' },
+    { resource: 'reports', action: 'read' },
+    { resource: 'shifts', action: 'create' },
+    { resource: 'shifts', action: 'read' },
+    { resource: 'shifts', action: 'update' },
+    { resource: 'shifts', action: 'close' },
+    { resource: 'day-operations', action: 'read' },
+    { resource: 'invoices', action: 'read' },
+    { resource: 'stores', action: 'read' },
+    { resource: 'settings', action: 'read' },
+    { resource: 'risk', action: 'read' },
+    { resource: 'ai', action: 'use' },
+    { resource: 'uploads', action: 'create' },
+    { resource: 'profile', action: '*' },
+  ],
+
+  [USER_ROLES.CASHIER]: [
+    { resource: 'transactions', action: 'create' },
+    { resource: 'transactions', action: 'read' },
+    { resource: 'transactions', action: 'hold' },
+    { resource: 'transactions', action: 'print' },
+    { resource: 'returns', action: 'read' },
+    { resource: 'returns', action: 'create' },
+    { resource: 'approvals', action: 'request' },
+    { resource: 'customers', action: 'read' },
+    { resource: 'customers', action: 'create' },
+    { resource: 'products', action: 'read' },
+    { resource: 'inventory', action: 'read' },
+    { resource: 'transfers', action: 'read' },
+    { resource: 'promotions', action: 'apply' },
+    { resource: 'shifts', action: 'create' },
+    { resource: 'shifts', action: 'read' },
+    { resource: 'shifts', action: 'close' },
+    { resource: 'day-operations', action: 'read' },
+    { resource: 'stores', action: 'read' },
+    { resource: 'settings', action: 'read' },
+    { resource: 'risk', action: 'read' },
+    { resource: 'ai', action: 'use' },
+    { resource: 'uploads', action: 'create' },
+    { resource: 'profile', action: '*' },
+  ],
+
+  [USER_ROLES.DELIVERY]: [
+    { resource: 'transactions', action: 'read' },
+    { resource: 'customers', action: 'read' },
+    { resource: 'products', action: 'read' },
+    { resource: 'stores', action: 'read' },
+    { resource: 'profile', action: '*' },
+  ],
+
+  [USER_ROLES.CUSTOMER]: [
+    { resource: 'transactions', action: 'read' }, // Own transactions only
+    { resource: 'profile', action: 'read' },
+    { resource: 'profile', action: 'update' },
+  ],
+};
+
+// Check if a role has permission for a specific resource and action
+export function hasPermission(role: string | null | undefined, resource: string, action: string): boolean {
+  const permissions = ROLE_PERMISSIONS[role as UserRole];
+  if (!permissions) return false;
+
+  return permissions.some(p =>
+    (p.resource === '*' || p.resource === resource) &&
+    (p.action === '*' || p.action === action)
+  );
+}
+
+/**
+ * Whether a user may work with a store's data. Admins and the store's manager
+ * always can. Otherwise an explicit user_stores assignment decides; users with
+ * no assignments at all are not scoped and keep access to every store.
+ */
+export function canAccessStore(
+  user: { id: number; role: string | null },
+  store: { id: number; managerId: number | null },
+  assignments: Array<{ storeId: number; canAccess: boolean | null }>,
+): boolean {
+  if (user.role === USER_ROLES.ADMIN || store.managerId === user.id) return true;
+
+  const assignment = assignments.find(a => a.storeId === store.id);
+  if (assignment) return assignment.canAccess !== false;
+
+  return !assignments.some(a => a.canAccess !== false);
+}
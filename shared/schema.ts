@@ -1,5 +1,5 @@
-import { pgTable, text, serial, integer, boolean, decimal, timestamp, jsonb, varchar, index, uniqueIndex } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, decimal, timestamp, jsonb, varchar, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -60,6 +60,8 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   role: text("role").notNull().default(USER_ROLES.CASHIER),
   defaultStoreId: integer("default_store_id"), // User's default store (reference added after stores definition)
+  approvalPin: varchar("approval_pin"), // Hashed PIN entered at the till to approve overrides
+  badgeCode: varchar("badge_code").unique(), // Scanned badge that can be used instead of the PIN
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -124,13 +126,21 @@ export const customerAuth = pgTable("customer_auth", {
 });
 
 // Promotions and discounts system
+export const PROMOTION_TYPES = ['percentage', 'fixed_amount', 'buy_x_get_y', 'bundle', 'mix_match', 'tiered', 'spend_threshold'] as const;
+
 export const promotions = pgTable("promotions", {
   id: serial("id").primaryKey(),
   storeId: integer("store_id").references(() => stores.id).notNull(),
   name: text("name").notNull(),
   description: text("description"),
-  type: text("type").notNull(), // 'percentage', 'fixed_amount', 'buy_x_get_y', 'bundle'
-  value: decimal("value", { precision: 10, scale: 2 }), // Discount value or percentage
+  type: text("type").notNull(), // One of PROMOTION_TYPES
+  value: decimal("value", { precision: 10, scale: 2 }), // Discount value or percentage; set price for 'bundle' and 'mix_match'
+  groupQuantity: integer("group_quantity"), // Items per group for 'mix_match' (e.g. any 3 for QR 20)
+  tiers: jsonb("tiers"), // PromotionTier[] for 'tiered' (quantity thresholds) and 'spend_threshold' (amount thresholds)
+  priority: integer("priority").default(0), // Higher priority deals are applied first
+  isExclusive: boolean("is_exclusive").default(false), // Never combined with any other deal
+  stackableGroup: text("stackable_group"), // Deals in the same group may share cart lines; null = line is used by this deal only
+  requiresCoupon: boolean("requires_coupon").default(false), // Only applies when one of its coupon codes is entered
   minOrderAmount: decimal("min_order_amount", { precision: 10, scale: 2 }), // Minimum order for promotion
   maxDiscountAmount: decimal("max_discount_amount", { precision: 10, scale: 2 }), // Maximum discount cap
   startDate: timestamp("start_date").notNull(),
@@ -139,7 +149,7 @@ export const promotions = pgTable("promotions", {
   usageLimit: integer("usage_limit"), // Maximum number of times promotion can be used
   usageCount: integer("usage_count").default(0), // Current usage count
   customerLimit: integer("customer_limit"), // Max uses per customer
-  applicableToCustomerTypes: text("applicable_to_customer_types").array(), // 'all', 'new', 'returning', 'vip'
+  applicableToCustomerTypes: text("applicable_to_customer_types").array(), // 'all' or any of CUSTOMER_TYPES
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -151,17 +161,36 @@ export const promotionRules = pgTable("promotion_rules", {
   ruleType: text("rule_type").notNull(), // 'product', 'category', 'all_products'
   productId: integer("product_id").references(() => products.id), // Specific product (if applicable)
   category: text("category"), // Product category (if applicable)
-  buyQuantity: integer("buy_quantity"), // For buy X get Y promotions
+  buyQuantity: integer("buy_quantity"), // For buy X get Y promotions; required quantity per product for bundles
   getQuantity: integer("get_quantity"), // For buy X get Y promotions
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Promotion usage tracking
+// Customer segments promotions can target; 'new' = no earlier purchases
+export const CUSTOMER_TYPES = ['new', 'returning', 'vip'] as const;
+
+// Codes that unlock a promotion at the till
+export const coupons = pgTable("coupons", {
+  id: serial("id").primaryKey(),
+  promotionId: integer("promotion_id").references(() => promotions.id).notNull(),
+  code: text("code").notNull().unique(), // Stored upper-case
+  customerId: integer("customer_id").references(() => customers.id), // Voucher issued to one customer; null = anyone
+  maxRedemptions: integer("max_redemptions").default(1), // 1 = single-use; null = unlimited
+  redemptionCount: integer("redemption_count").default(0),
+  expiresAt: timestamp("expires_at"), // Falls back to the promotion end date when null
+  batchLabel: text("batch_label"), // Groups codes created in one bulk run
+  isActive: boolean("is_active").default(true),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const promotionUsage = pgTable("promotion_usage", {
   id: serial("id").primaryKey(),
   promotionId: integer("promotion_id").references(() => promotions.id).notNull(),
   transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
   customerId: integer("customer_id").references(() => customers.id),
+  couponId: integer("coupon_id").references(() => coupons.id), // Code redeemed, for coupon promotions
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -177,6 +206,7 @@ export const customers = pgTable("customers", {
   profileImage: text("profile_image"),
   idCardImage: text("id_card_image"),
   notes: text("notes"),
+  isVip: boolean("is_vip").default(false), // Eligible for 'vip' targeted promotions
   isActive: boolean("is_active").default(true),
   storeId: integer("store_id").references(() => stores.id), // Store that this customer belongs to
 });
@@ -190,6 +220,7 @@ export const suppliers = pgTable("suppliers", {
   address: text("address"),
   taxId: text("tax_id"),
   paymentTerms: text("payment_terms"), // e.g., "Net 30", "Due on receipt"
+  leadTimeDays: integer("lead_time_days").notNull().default(7), // Days from ordering to delivery, used for reorder suggestions
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -204,6 +235,7 @@ export const products = pgTable("products", {
   stock: integer("stock").default(0),
   quantity: integer("quantity").default(0),
   barcode: text("barcode"),
+  plu: text("plu"), // Scale PLU printed in weight and price labels
   imageUrl: text("image_url"),
   productType: text("product_type"), // e.g., "food", "non-food", "fresh", "frozen", "household", "personal-care"
   category: text("category"), // Specific category within the product type
@@ -213,9 +245,60 @@ export const products = pgTable("products", {
   // VAT configuration
   vatRate: decimal("vat_rate", { precision: 5, scale: 2 }), // Product-specific VAT rate (overrides store default if set)
   vatExempt: boolean("vat_exempt").default(false), // Whether this product is VAT exempt
+  // The unit stock is kept in; other units in product_units convert to it
+  baseUnit: text("base_unit").notNull().default("pcs"),
+  baseUnitDecimal: boolean("base_unit_decimal").notNull().default(false), // Sold and counted in fractions, e.g. kg
+  // Variants: a parent lists the attributes its variants differ by (size,
+  // flavour); each variant points at its parent and has a value for each
+  parentId: integer("parent_id").references((): AnyPgColumn => products.id, { onDelete: "set null" }),
+  variantAxes: jsonb("variant_axes").$type<string[]>(),
+  variantOptions: jsonb("variant_options").$type<Record<string, string>>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_products_parent").on(table.parentId),
+  // A scale PLU means one product; "00042" and "42" are the same PLU
+  uniqueIndex("unique_product_plu")
+    .on(sql`coalesce(nullif(ltrim(${table.plu}, '0'), ''), '0')`)
+    .where(sql`${table.plu} IS NOT NULL AND ${table.plu} <> ''`),
+]);
+
+// Other units a product is bought, sold or counted in, such as a carton of
+// 24. Quantities in these units are multiplied by the factor to get base units.
+export const productUnits = pgTable("product_units", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  code: text("code").notNull(), // Lower case, e.g. "ctn"; matched against invoice and count UOMs
+  name: text("name"), // e.g. "Carton of 24"
+  factor: decimal("factor", { precision: 12, scale: 4 }).notNull(), // Base units in one of this unit
+  allowsDecimal: boolean("allows_decimal").notNull().default(false),
+  price: decimal("price", { precision: 10, scale: 2 }), // Selling price of the whole unit; base price times factor when null
+  isPurchaseUnit: boolean("is_purchase_unit").notNull().default(true),
+  isSalesUnit: boolean("is_sales_unit").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("unique_product_unit_code").on(table.productId, table.code),
+]);
+
+// Other codes a product is known by: barcodes beyond products.barcode (other
+// pack revisions or suppliers), a supplier's item code and a competitor's SKU.
+// Codes are stored normalised; each one maps to a single product, per supplier
+// or competitor for their own codes.
+export const PRODUCT_IDENTIFIER_TYPES = ['barcode', 'supplier_code', 'competitor_sku'] as const;
+
+export const productIdentifiers = pgTable("product_identifiers", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // One of PRODUCT_IDENTIFIER_TYPES
+  code: text("code").notNull(),
+  supplierId: integer("supplier_id").references(() => suppliers.id, { onDelete: "cascade" }), // Set for supplier codes
+  competitorId: integer("competitor_id").references((): AnyPgColumn => competitors.id, { onDelete: "cascade" }), // Set for competitor SKUs
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("unique_product_identifier").on(table.type, sql`coalesce(${table.supplierId}, ${table.competitorId}, 0)`, table.code),
+  index("idx_product_identifiers_product").on(table.productId),
+]);
 
 // Product siblings - for linking similar/related/alternative products
 export const productSiblings = pgTable("product_siblings", {
@@ -319,7 +402,8 @@ export const generatedInvoiceItems = pgTable("generated_invoice_items", {
   productId: integer("product_id").references(() => products.id),
   productName: text("product_name").notNull(),
   sku: text("sku"),
-  quantity: integer("quantity").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  unit: text("unit"),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
 });
@@ -349,6 +433,62 @@ export const shifts = pgTable("shifts", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A till register (cash drawer) in a store; each holds its own cash through the day
+export const registers = pgTable("registers", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  cashCeiling: decimal("cash_ceiling", { precision: 10, scale: 2 }), // Cashiers are prompted to drop cash above this
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("unique_register_name").on(table.storeId, table.name),
+]);
+
+export const DRAWER_SESSION_STATUSES = ['open', 'closed'] as const;
+export type DrawerSessionStatus = typeof DRAWER_SESSION_STATUSES[number];
+
+// One cashier's stint on a register: opened with a float, closed with a blind count
+export const drawerSessions = pgTable("drawer_sessions", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  registerId: integer("register_id").references(() => registers.id).notNull(),
+  dayOperationId: integer("day_operation_id").references((): AnyPgColumn => dayOperations.id).notNull(),
+  status: text("status").notNull().default("open"), // One of DRAWER_SESSION_STATUSES
+  openingFloat: decimal("opening_float", { precision: 10, scale: 2 }).notNull(),
+  openedBy: integer("opened_by").references(() => users.id),
+  openedAt: timestamp("opened_at").defaultNow(),
+
+  // Filled in at close from the drawer's own sales, refunds and movements
+  cashSales: decimal("cash_sales", { precision: 10, scale: 2 }),
+  cashRefunds: decimal("cash_refunds", { precision: 10, scale: 2 }),
+  cashIn: decimal("cash_in", { precision: 10, scale: 2 }),
+  cashOut: decimal("cash_out", { precision: 10, scale: 2 }),
+  expectedCash: decimal("expected_cash", { precision: 10, scale: 2 }),
+  countedCash: decimal("counted_cash", { precision: 10, scale: 2 }),
+  variance: decimal("variance", { precision: 10, scale: 2 }),
+  closedBy: integer("closed_by").references(() => users.id),
+  closedAt: timestamp("closed_at"),
+  notes: text("notes"),
+}, (table) => [
+  index("idx_drawer_sessions_day").on(table.dayOperationId),
+  // A register has at most one open drawer
+  uniqueIndex("unique_open_drawer_session").on(table.registerId).where(sql`${table.status} = 'open'`),
+]);
+
+// A drawer opened without a sale (giving change, checking a note); no cash is recorded
+export const drawerNoSales = pgTable("drawer_no_sales", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  registerId: integer("register_id").references(() => registers.id).notNull(),
+  drawerSessionId: integer("drawer_session_id").references(() => drawerSessions.id).notNull(),
+  reason: text("reason"),
+  openedBy: integer("opened_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_drawer_no_sales_session").on(table.drawerSessionId),
+]);
+
 // User-Store assignments (Many-to-Many relationship)
 export const userStores = pgTable("user_stores", {
   id: serial("id").primaryKey(),
@@ -369,7 +509,10 @@ export const storeProducts = pgTable("store_products", {
   productId: integer("product_id").references(() => products.id).notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Store-specific price
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }), // Store-specific cost (actual DB column name)
-  stockQuantity: decimal("stock_quantity", { precision: 10, scale: 2 }), // Store-specific stock (actual DB column name)
+  stockQuantity: decimal("stock_quantity", { precision: 10, scale: 3 }), // Store-specific stock (actual DB column name)
+  // Moving average cost of the stock on hand, updated by every costed receipt. Unlike
+  // cost_price, which is whatever was last typed in, it is only changed by stock movements.
+  averageCost: decimal("average_cost", { precision: 12, scale: 4 }),
   reorderLevel: decimal("reorder_level", { precision: 10, scale: 2 }), // Store-specific reorder level (actual DB column name)
   isActive: boolean("is_active").default(true), // Whether this product is active in this store
   createdAt: timestamp("created_at").defaultNow(),
@@ -406,6 +549,10 @@ export const transactions = pgTable("transactions", {
   orderType: text("order_type").notNull().default("pos"), // 'pos', 'online', 'delivery'
   deliveryAddress: text("delivery_address"), // For online/delivery orders
   deliveryNotes: text("delivery_notes"),
+  // Client-generated key so a retried or offline-queued sale is only recorded once
+  idempotencyKey: text("idempotency_key").unique(),
+  // The drawer the sale's cash went into, when rung up on a register
+  drawerSessionId: integer("drawer_session_id").references(() => drawerSessions.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -413,9 +560,12 @@ export const transactionItems = pgTable("transaction_items", {
   id: serial("id").primaryKey(),
   transactionId: integer("transaction_id").references(() => transactions.id),
   productId: integer("product_id").references(() => products.id),
-  quantity: integer("quantity").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // In the unit sold, fractions for weighed goods
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  // The unit sold in (null for the product's base unit) and base units per unit
+  unit: text("unit"),
+  unitFactor: decimal("unit_factor", { precision: 12, scale: 4 }).notNull().default("1"),
   // VAT support
   vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).default("5.00"), // VAT rate applied to this item
   vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).default("0.00"), // VAT amount for this item
@@ -423,6 +573,8 @@ export const transactionItems = pgTable("transaction_items", {
   originalUnitPrice: decimal("original_unit_price", { precision: 10, scale: 2 }), // Price before any discounts
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0.00"), // Discount applied to this item
   promotionId: integer("promotion_id").references(() => promotions.id), // Applied promotion
+  // Cost of goods sold per unit, stamped when the sale took the stock out; null for sales before costing
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }),
 });
 
 export const dayOperations = pgTable("day_operations", {
@@ -481,7 +633,8 @@ export const dayOperations = pgTable("day_operations", {
   cardSwipeVariance: decimal("card_swipe_variance", { precision: 10, scale: 2 }).default("0.00"),
   bankWithdrawals: decimal("bank_withdrawals", { precision: 10, scale: 2 }).default("0.00"),
 
-  // Cash denominations count (Qatari Riyal)
+  // Cash denominations count (Qatari Riyal). Kept for days closed before cash_counts;
+  // counts are now recorded per currency there
   cashCount_500: integer("cash_count_500").default(0), // QR 500 notes
   cashCount_200: integer("cash_count_200").default(0), // QR 200 notes
   cashCount_100: integer("cash_count_100").default(0), // QR 100 notes
@@ -498,17 +651,173 @@ export const dayOperations = pgTable("day_operations", {
   cardMiscAmount: decimal("card_misc_amount", { precision: 10, scale: 2 }).default("0.00"),
   miscNotes: text("misc_notes"),
 
+  // Refunds paid out during the day (maintained by the returns ledger)
+  cashRefunds: decimal("cash_refunds", { precision: 10, scale: 2 }).default("0.00"),
+  cardRefunds: decimal("card_refunds", { precision: 10, scale: 2 }).default("0.00"),
+  storeCreditRefunds: decimal("store_credit_refunds", { precision: 10, scale: 2 }).default("0.00"),
+  refundCount: integer("refund_count").default(0),
+
   // Timestamps and status
   openedAt: timestamp("opened_at"),
   closedAt: timestamp("closed_at"),
   reopenedAt: timestamp("reopened_at"),
   reopenedBy: integer("reopened_by").references(() => users.id),
+  reopenReason: text("reopen_reason"), // Required when a closed day is reopened
   status: text("status").notNull(), // 'open', 'closed'
   reconciliationNotes: text("reconciliation_notes"),
+
+  // Each currency's expected and counted cash at close, with the rate its variance was converted at
+  currencyVariances: jsonb("currency_variances"),
+});
+
+// Which notes and coins a currency is counted in; currencies without a row use DEFAULT_DENOMINATIONS
+export const denominationSets = pgTable("denomination_sets", {
+  id: serial("id").primaryKey(),
+  currency: text("currency").notNull().unique(),
+  denominations: jsonb("denominations").notNull(), // [{ value, label, kind: 'note' | 'coin' }], largest first
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const CASH_COUNT_PHASES = ['opening', 'closing'] as const;
+export type CashCountPhase = typeof CASH_COUNT_PHASES[number];
+
+// One line of a day's opening or closing count: how many of a note or coin in a currency
+export const cashCounts = pgTable("cash_counts", {
+  id: serial("id").primaryKey(),
+  dayOperationId: integer("day_operation_id").references(() => dayOperations.id).notNull(),
+  phase: text("phase").notNull(), // One of CASH_COUNT_PHASES
+  currency: text("currency").notNull(),
+  denomination: decimal("denomination", { precision: 10, scale: 3 }).notNull(),
+  quantity: integer("quantity").notNull(),
+  countedBy: integer("counted_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("unique_cash_count_line").on(table.dayOperationId, table.phase, table.currency, table.denomination),
+]);
+
+// End-of-day Z report for one register or, without a register, the whole store's day.
+// Numbered in sequence per register (and per store for day reports); the
+// add_z_reports migration rejects UPDATE and DELETE so an issued report never changes.
+export const zReports = pgTable("z_reports", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  registerId: integer("register_id").references(() => registers.id),
+  dayOperationId: integer("day_operation_id").references(() => dayOperations.id).notNull(),
+  zNumber: integer("z_number").notNull(),
+  content: jsonb("content").notNull(), // The TillReport as issued
+  issuedBy: integer("issued_by").references(() => users.id),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("unique_z_report_number").on(table.storeId, sql`COALESCE(${table.registerId}, 0)`, table.zNumber),
+  // One Z per register per day, and one for the day itself
+  uniqueIndex("unique_z_report_day").on(table.dayOperationId, sql`COALESCE(${table.registerId}, 0)`),
+]);
+
+// Returns ledger - one row per refund against an original sale
+export const RETURN_REASON_CODES = ['damaged', 'defective', 'wrong_item', 'expired', 'not_as_described', 'customer_changed_mind', 'other'] as const;
+export const REFUND_METHODS = ['cash', 'card', 'store_credit'] as const;
+export const RETURN_DISPOSITIONS = ['restock', 'write_off'] as const;
+
+export const returns = pgTable("returns", {
+  id: serial("id").primaryKey(),
+  returnNumber: text("return_number").notNull().unique(),
+  transactionId: integer("transaction_id").references(() => transactions.id).notNull(), // Original sale
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  customerId: integer("customer_id").references(() => customers.id),
+  dayOperationId: integer("day_operation_id").references(() => dayOperations.id), // Day the refund was paid out in
+  drawerSessionId: integer("drawer_session_id").references(() => drawerSessions.id), // Drawer a cash refund was paid from
+  processedBy: integer("processed_by").references(() => users.id),
+  reasonCode: text("reason_code").notNull(), // One of RETURN_REASON_CODES
+  notes: text("notes"),
+  refundMethod: text("refund_method").notNull(), // 'cash', 'card', 'store_credit'
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  totalRefund: decimal("total_refund", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const returnItems = pgTable("return_items", {
+  id: serial("id").primaryKey(),
+  returnId: integer("return_id").references(() => returns.id, { onDelete: "cascade" }).notNull(),
+  transactionItemId: integer("transaction_item_id").references(() => transactionItems.id).notNull(),
+  productId: integer("product_id").references(() => products.id),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // In the unit the line was sold in
+  unitRefund: decimal("unit_refund", { precision: 10, scale: 2 }).notNull(), // Per-unit amount incl. VAT after discounts
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }).notNull(),
+  disposition: text("disposition").notNull(), // 'restock' puts units back on the shelf, 'write_off' does not
+  reasonCode: text("reason_code"), // Optional per-line override of the return reason
 });
 
+// Audit trail - append-only record of financial and inventory changes.
+// The add_audit_log migration rejects UPDATE and DELETE on this table.
+// 'deny' records a refused attempt, such as a wrong manager PIN
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'deny'] as const;
+export const AUDIT_ENTITY_TYPES = [
+  'day_operation',
+  'product',
+  'store_product',
+  'stock_adjustment',
+  'stock_lot',
+  'customer_credit',
+  'credit_transaction',
+  'transaction',
+  'return',
+  'shift',
+  'drawer_session',
+  'cash_movement',
+  'denomination_set',
+  'z_report',
+  'supplier_payment',
+  'supplier_invoice',
+  'store',
+  'vat_configuration',
+  'currency_rate',
+  'approval',
+] as const;
+
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id), // Null for system jobs
+  storeId: integer("store_id").references(() => stores.id),
+  entityType: text("entity_type").notNull(), // One of AUDIT_ENTITY_TYPES
+  entityId: text("entity_id").notNull(),
+  action: text("action").notNull(), // One of AUDIT_ACTIONS
+  changes: jsonb("changes").notNull(), // { field: { from, to } }
+  reason: text("reason"),
+  requestId: text("request_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_audit_logs_entity").on(table.entityType, table.entityId),
+  index("idx_audit_logs_store_created").on(table.storeId, table.createdAt),
+]);
+
+// Till actions a supervisor or manager may have to approve
+export const APPROVAL_ACTIONS = ['void', 'refund', 'discount', 'price_override'] as const;
+
+// Approvals granted at the till; each row is a single-use token and the log entry for it
+export const approvals = pgTable("approvals", {
+  id: serial("id").primaryKey(),
+  token: text("token").notNull().unique(),
+  action: text("action").notNull(), // One of APPROVAL_ACTIONS
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id), // Sale being voided or refunded
+  amount: decimal("amount", { precision: 10, scale: 2 }), // Most the approval covers; null = any amount
+  reason: text("reason").notNull(),
+  method: text("method").notNull(), // 'pin' or 'badge'
+  requestedBy: integer("requested_by").references(() => users.id).notNull(),
+  approvedBy: integer("approved_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_approvals_store_created").on(table.storeId, table.createdAt),
+]);
+
 export const heldTransactions = pgTable("held_transactions", {
   id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id), // Null for sales held before stores were recorded
   transactionData: jsonb("transaction_data").notNull(),
   customerId: integer("customer_id").references(() => customers.id),
   cashierId: integer("cashier_id").references(() => users.id),
@@ -557,6 +866,13 @@ export const supplierInvoices = pgTable("supplier_invoices", {
   extractedText: text("extracted_text"),
   notes: text("notes"),
   processedAt: timestamp("processed_at"),
+
+  // Three-way match against a purchase order and what its GRNs received
+  purchaseOrderId: integer("purchase_order_id").references(() => purchaseOrders.id),
+  matchStatus: text("match_status"), // One of INVOICE_MATCH_STATUSES; null when there is no order
+  matchNote: text("match_note"), // Why flagged differences were accepted
+  matchAcceptedBy: integer("match_accepted_by").references(() => users.id),
+  matchAcceptedAt: timestamp("match_accepted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -568,17 +884,96 @@ export const supplierInvoiceItems = pgTable("supplier_invoice_items", {
   productName: text("product_name").notNull(),
   itemCode: text("item_code"), // Item Code field
   barcode: text("barcode").notNull(), // Mandatory barcode field
-  quantity: integer("quantity").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // In the line's UOM
   uom: text("uom").notNull().default("pcs"), // Unit of Measurement
+  unitFactor: decimal("unit_factor", { precision: 12, scale: 4 }).notNull().default("1"), // Base units per UOM
   unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
   totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
   sku: text("sku"),
   isNewProduct: boolean("is_new_product").default(false),
+  lotNumber: text("lot_number"),
+  expiryDate: text("expiry_date"), // YYYY-MM-DD
 });
 
+// Orders placed with a supplier for delivery to one store. Goods arrive
+// against them on goods received notes (GRNs), possibly over several
+// deliveries; the supplier's invoice is then matched to both.
+export const PURCHASE_ORDER_STATUSES = [
+  'draft',
+  'sent',
+  'partially_received',
+  'received',
+  'cancelled',
+] as const;
+
+export const INVOICE_MATCH_STATUSES = ['matched', 'discrepancy', 'accepted'] as const;
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  poNumber: text("po_number").notNull().unique(),
+  supplierId: integer("supplier_id").references(() => suppliers.id).notNull(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  status: text("status").notNull().default("draft"), // One of PURCHASE_ORDER_STATUSES
+  expectedDate: timestamp("expected_date"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  sentBy: integer("sent_by").references(() => users.id),
+  cancelledBy: integer("cancelled_by").references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_purchase_orders_supplier").on(table.supplierId, table.status),
+  index("idx_purchase_orders_store").on(table.storeId, table.status),
+]);
+
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").references(() => purchaseOrders.id, { onDelete: "cascade" }).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  quantityOrdered: decimal("quantity_ordered", { precision: 10, scale: 2 }).notNull(),
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 2 }).notNull().default("0"), // Across all GRNs
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  // Quantities and cost are in this unit (null for the base unit); receipts convert to base units
+  unit: text("unit"),
+  unitFactor: decimal("unit_factor", { precision: 12, scale: 4 }).notNull().default("1"),
+}, (table) => [
+  index("idx_purchase_order_items_order").on(table.purchaseOrderId),
+]);
+
+export const goodsReceivedNotes = pgTable("goods_received_notes", {
+  id: serial("id").primaryKey(),
+  grnNumber: text("grn_number").notNull().unique(),
+  purchaseOrderId: integer("purchase_order_id").references(() => purchaseOrders.id).notNull(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  deliveryReference: text("delivery_reference"), // The supplier's delivery note number
+  notes: text("notes"),
+  receivedBy: integer("received_by").references(() => users.id),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_goods_received_notes_order").on(table.purchaseOrderId),
+]);
+
+export const goodsReceivedNoteItems = pgTable("goods_received_note_items", {
+  id: serial("id").primaryKey(),
+  grnId: integer("grn_id").references(() => goodsReceivedNotes.id, { onDelete: "cascade" }).notNull(),
+  purchaseOrderItemId: integer("purchase_order_item_id").references(() => purchaseOrderItems.id).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  quantityOrdered: decimal("quantity_ordered", { precision: 10, scale: 2 }).notNull(),
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 2 }).notNull(), // On this delivery
+  discrepancyNote: text("discrepancy_note"),
+  lotNumber: text("lot_number"),
+  expiryDate: text("expiry_date"), // YYYY-MM-DD
+}, (table) => [
+  index("idx_goods_received_note_items_grn").on(table.grnId),
+]);
+
 export const stockAdjustments = pgTable("stock_adjustments", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").references(() => products.id).notNull(),
+  storeId: integer("store_id").references(() => stores.id), // Store whose stock moved, when known
   invoiceId: integer("invoice_id").references(() => supplierInvoices.id),
   adjustmentType: text("adjustment_type").notNull(), // 'receipt', 'return', 'manual'
   quantityChange: integer("quantity_change").notNull(),
@@ -588,9 +983,158 @@ export const stockAdjustments = pgTable("stock_adjustments", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Every change to a store's stock, oldest first. store_products.stock_quantity
+// is a cache of the running total and can be rebuilt from these rows.
+export const INVENTORY_MOVEMENT_TYPES = [
+  'opening',
+  'sale',
+  'void',
+  'return',
+  'receipt',
+  'supplier_return',
+  'stock_take',
+  'transfer_in',
+  'transfer_out',
+  'write_off',
+  'adjustment',
+] as const;
+
+export const inventoryMovements = pgTable("inventory_movements", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  movementType: text("movement_type").notNull(), // One of INVENTORY_MOVEMENT_TYPES
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // Signed: negative takes stock out
+  balanceAfter: decimal("balance_after", { precision: 10, scale: 3 }).notNull(),
+  reason: text("reason"),
+  sourceType: text("source_type"), // 'transaction', 'return', 'supplier_invoice', 'stock_taking_session', ...
+  sourceId: text("source_id"),
+  // Cost per unit the movement was booked at, and the store's average cost after it,
+  // so the value of stock on any past date can be read back from the ledger
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }),
+  averageCostAfter: decimal("average_cost_after", { precision: 12, scale: 4 }),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_inventory_movements_store_product").on(table.storeId, table.productId, table.id),
+  index("idx_inventory_movements_source").on(table.sourceType, table.sourceId),
+]);
+
+// Units of a product in one store that share a lot number and expiry date.
+// Stock received with either is tracked in a lot; sales and other outbound
+// movements take from the lot that expires first (FEFO). Stock outside any
+// lot is the store quantity minus what the lots hold.
+export const stockLots = pgTable("stock_lots", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  lotNumber: text("lot_number"),
+  expiryDate: text("expiry_date"), // YYYY-MM-DD; null for lots that do not expire
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 3 }).notNull().default("0"),
+  quantityRemaining: decimal("quantity_remaining", { precision: 10, scale: 3 }).notNull().default("0"),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
+  sourceType: text("source_type"), // Where the lot first arrived from, as on inventory_movements
+  sourceId: text("source_id"),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_lots_store_product").on(table.storeId, table.productId, table.expiryDate),
+  index("idx_stock_lots_store_expiry").on(table.storeId, table.expiryDate),
+]);
+
+// The share of each ledger row that went into or out of a lot
+export const stockLotMovements = pgTable("stock_lot_movements", {
+  id: serial("id").primaryKey(),
+  lotId: integer("lot_id").references(() => stockLots.id).notNull(),
+  inventoryMovementId: integer("inventory_movement_id").references(() => inventoryMovements.id).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // Signed, like the ledger row
+  // Stock put back by a void, return or transfer receipt: the lot it was originally taken from,
+  // and the source that took it, as "sourceType:sourceId"
+  restoredFromLotId: integer("restored_from_lot_id").references(() => stockLots.id),
+  restoredFrom: text("restored_from"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_stock_lot_movements_lot").on(table.lotId),
+  index("idx_stock_lot_movements_movement").on(table.inventoryMovementId),
+  index("idx_stock_lot_movements_restored").on(table.restoredFrom),
+]);
+
+// Stock on hand at the price it was bought for, oldest first. Every inbound
+// movement opens a layer and outbound movements use up the oldest, so a
+// store costing first in, first out knows what each sale cost.
+export const costLayers = pgTable("cost_layers", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  // The movement that brought the stock in; null for stock on hand when costing started
+  inventoryMovementId: integer("inventory_movement_id").references(() => inventoryMovements.id),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }).notNull(),
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 3 }).notNull(),
+  quantityRemaining: decimal("quantity_remaining", { precision: 10, scale: 3 }).notNull(),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_cost_layers_store_product").on(table.storeId, table.productId, table.id),
+]);
+
+// What each ledger row added to or took from a layer; summed up to a date they give the layers on that day
+export const costLayerMovements = pgTable("cost_layer_movements", {
+  id: serial("id").primaryKey(),
+  layerId: integer("layer_id").references(() => costLayers.id).notNull(),
+  inventoryMovementId: integer("inventory_movement_id").references(() => inventoryMovements.id),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // Signed, like the ledger row
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_cost_layer_movements_layer").on(table.layerId),
+]);
+
+// Stock moved between stores. Dispatch takes the stock out of the source
+// store; it is in transit until the destination receives it, possibly over
+// several receipts.
+export const STOCK_TRANSFER_STATUSES = [
+  'requested',
+  'dispatched',
+  'partially_received',
+  'received',
+  'cancelled',
+] as const;
+
+export const stockTransfers = pgTable("stock_transfers", {
+  id: serial("id").primaryKey(),
+  transferNumber: text("transfer_number").notNull().unique(),
+  fromStoreId: integer("from_store_id").references(() => stores.id).notNull(),
+  toStoreId: integer("to_store_id").references(() => stores.id).notNull(),
+  status: text("status").notNull().default("requested"), // One of STOCK_TRANSFER_STATUSES
+  notes: text("notes"),
+  requestedBy: integer("requested_by").references(() => users.id),
+  dispatchedBy: integer("dispatched_by").references(() => users.id),
+  receivedBy: integer("received_by").references(() => users.id), // Who booked the latest receipt
+  cancelledBy: integer("cancelled_by").references(() => users.id),
+  dispatchedAt: timestamp("dispatched_at"),
+  receivedAt: timestamp("received_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_transfers_from_store").on(table.fromStoreId, table.status),
+  index("idx_stock_transfers_to_store").on(table.toStoreId, table.status),
+]);
+
+export const stockTransferItems = pgTable("stock_transfer_items", {
+  id: serial("id").primaryKey(),
+  transferId: integer("transfer_id").references(() => stockTransfers.id, { onDelete: "cascade" }).notNull(),
+  productId: integer("product_id").references(() => products.id).notNull(),
+  quantityRequested: decimal("quantity_requested", { precision: 10, scale: 2 }).notNull(),
+  quantityDispatched: decimal("quantity_dispatched", { precision: 10, scale: 2 }).notNull().default("0"),
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 2 }).notNull().default("0"),
+  discrepancyNote: text("discrepancy_note"), // Why less arrived than was dispatched
+}, (table) => [
+  index("idx_stock_transfer_items_transfer").on(table.transferId),
+]);
+
 export const supplierPayments = pgTable("supplier_payments", {
   id: serial("id").primaryKey(),
   invoiceId: integer("invoice_id").references(() => supplierInvoices.id).notNull(),
+  storeId: integer("store_id").references(() => stores.id), // Store whose till or account paid it; null when paid centrally
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   paymentMethod: text("payment_method").notNull(), // 'cash', 'card', 'bank_transfer', 'check', 'credit'
   reference: text("reference"), // Check number, transfer reference, etc.
@@ -634,8 +1178,9 @@ export const stockTakingItems = pgTable("stock_taking_items", {
   barcode: text("barcode"),
   name: text("name").notNull(),
   uom: text("uom").notNull().default("pcs"),
-  systemQty: decimal("system_qty", { precision: 10, scale: 2 }).notNull().default("0.00"),
-  actualQty: decimal("actual_qty", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  unitFactor: decimal("unit_factor", { precision: 12, scale: 4 }).notNull().default("1"), // Base units per UOM
+  systemQty: decimal("system_qty", { precision: 10, scale: 2 }).notNull().default("0.00"), // Base units
+  actualQty: decimal("actual_qty", { precision: 10, scale: 2 }).notNull().default("0.00"), // Base units, converted from the count
   variance: decimal("variance", { precision: 10, scale: 2 }).notNull().default("0.00"),
   costPrice: decimal("cost_price", { precision: 10, scale: 2 }).notNull().default("0.00"),
   sellingPrice: decimal("selling_price", { precision: 10, scale: 2 }).notNull().default("0.00"),
@@ -645,11 +1190,22 @@ export const stockTakingItems = pgTable("stock_taking_items", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Cash taken out of or put into a register's drawer mid-shift, each with its own reasons
+export const DRAWER_MOVEMENT_TYPES = ['cash_drop', 'cash_pickup', 'paid_in', 'paid_out'] as const;
+export const DRAWER_MOVEMENT_REASONS = {
+  cash_drop: ['over_ceiling', 'scheduled', 'end_of_shift'],
+  cash_pickup: ['manager_pickup', 'bank_deposit'],
+  paid_in: ['float_top_up', 'change_delivery', 'petty_cash_return', 'other'],
+  paid_out: ['supplier_delivery', 'petty_expense', 'staff_advance', 'other'],
+} as const;
+
 // Cash movement tracking table for detailed financial tracking
 export const cashMovements = pgTable("cash_movements", {
   id: serial("id").primaryKey(),
   dayOperationId: integer("day_operation_id").references(() => dayOperations.id),
-  type: text("type").notNull(), // 'owner_deposit', 'owner_withdrawal', 'expense_payment', 'supplier_payment', 'bank_transfer', 'miscellaneous'
+  drawerSessionId: integer("drawer_session_id").references(() => drawerSessions.id), // Set when the cash went in or out of a register's drawer
+  type: text("type").notNull(), // 'owner_deposit', 'owner_withdrawal', 'expense_payment', 'supplier_payment', 'bank_transfer', 'miscellaneous', or one of DRAWER_MOVEMENT_TYPES
+  reasonCode: text("reason_code"), // One of DRAWER_MOVEMENT_REASONS for the type, on drawer movements
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   paymentMethod: text("payment_method").notNull(), // 'cash', 'bank_debit', 'credit_card'
   direction: text("direction").notNull(), // 'in', 'out'
@@ -705,6 +1261,18 @@ export const dailyProductMonitoring = pgTable("daily_product_monitoring", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// What was counted of each lot when a monitored product was reconciled
+export const dailyLotCounts = pgTable("daily_lot_counts", {
+  id: serial("id").primaryKey(),
+  monitoringId: integer("monitoring_id").references(() => dailyProductMonitoring.id, { onDelete: "cascade" }).notNull(),
+  lotId: integer("lot_id").references(() => stockLots.id), // Null for the stock outside any lot
+  systemQuantity: decimal("system_quantity", { precision: 10, scale: 3 }).notNull(),
+  countedQuantity: decimal("counted_quantity", { precision: 10, scale: 3 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_daily_lot_counts_monitoring").on(table.monitoringId),
+]);
+
 // Relations
 export const storesRelations = relations(stores, ({ one, many }) => ({
   manager: one(users, {
@@ -748,6 +1316,68 @@ export const transactionsRelations = relations(transactions, ({ one, many }) =>
     references: [users.id],
   }),
   items: many(transactionItems),
+  returns: many(returns),
+}));
+
+export const returnsRelations = relations(returns, ({ one, many }) => ({
+  transaction: one(transactions, {
+    fields: [returns.transactionId],
+    references: [transactions.id],
+  }),
+  store: one(stores, {
+    fields: [returns.storeId],
+    references: [stores.id],
+  }),
+  processor: one(users, {
+    fields: [returns.processedBy],
+    references: [users.id],
+  }),
+  items: many(returnItems),
+}));
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditLogs.actorId],
+    references: [users.id],
+  }),
+  store: one(stores, {
+    fields: [auditLogs.storeId],
+    references: [stores.id],
+  }),
+}));
+
+export const approvalsRelations = relations(approvals, ({ one }) => ({
+  store: one(stores, {
+    fields: [approvals.storeId],
+    references: [stores.id],
+  }),
+  transaction: one(transactions, {
+    fields: [approvals.transactionId],
+    references: [transactions.id],
+  }),
+  requester: one(users, {
+    fields: [approvals.requestedBy],
+    references: [users.id],
+  }),
+  approver: one(users, {
+    fields: [approvals.approvedBy],
+    references: [users.id],
+  }),
+}));
+
+export const returnItemsRelations = relations(returnItems, ({ one }) => ({
+  return: one(returns, {
+    fields: [returnItems.returnId],
+    references: [returns.id],
+  }),
+  transactionItem: one(transactionItems, {
+    fields: [returnItems.transactionItemId],
+    references: [transactionItems.id],
+  }),
+  product: one(products, {
+    fields: [returnItems.productId],
+    references: [products.id],
+  }),
 }));
 
 export const transactionItemsRelations = relations(transactionItems, ({ one }) => ({
@@ -767,12 +1397,34 @@ export const productsRelations = relations(products, ({ one, many }) => ({
     references: [suppliers.id],
   }),
   storeProducts: many(storeProducts),
+  units: many(productUnits),
+  identifiers: many(productIdentifiers),
+  parent: one(products, {
+    fields: [products.parentId],
+    references: [products.id],
+    relationName: "variants",
+  }),
+  variants: many(products, { relationName: "variants" }),
   transactionItems: many(transactionItems),
   supplierInvoiceItems: many(supplierInvoiceItems),
   stockAdjustments: many(stockAdjustments),
   dailyMonitoring: many(dailyProductMonitoring),
 }));
 
+export const productUnitsRelations = relations(productUnits, ({ one }) => ({
+  product: one(products, {
+    fields: [productUnits.productId],
+    references: [products.id],
+  }),
+}));
+
+export const productIdentifiersRelations = relations(productIdentifiers, ({ one }) => ({
+  product: one(products, {
+    fields: [productIdentifiers.productId],
+    references: [products.id],
+  }),
+}));
+
 export const usersRelations = relations(users, ({ many }) => ({
   transactions: many(transactions),
   dayOperations: many(dayOperations),
@@ -841,6 +1493,54 @@ export const supplierInvoicesRelations = relations(supplierInvoices, ({ one, man
   items: many(supplierInvoiceItems),
   stockAdjustments: many(stockAdjustments),
   payments: many(supplierPayments),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [supplierInvoices.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  store: one(stores, {
+    fields: [purchaseOrders.storeId],
+    references: [stores.id],
+  }),
+  items: many(purchaseOrderItems),
+  goodsReceivedNotes: many(goodsReceivedNotes),
+  invoices: many(supplierInvoices),
+}));
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderItems.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  product: one(products, {
+    fields: [purchaseOrderItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const goodsReceivedNotesRelations = relations(goodsReceivedNotes, ({ one, many }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [goodsReceivedNotes.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  items: many(goodsReceivedNoteItems),
+}));
+
+export const goodsReceivedNoteItemsRelations = relations(goodsReceivedNoteItems, ({ one }) => ({
+  goodsReceivedNote: one(goodsReceivedNotes, {
+    fields: [goodsReceivedNoteItems.grnId],
+    references: [goodsReceivedNotes.id],
+  }),
+  purchaseOrderItem: one(purchaseOrderItems, {
+    fields: [goodsReceivedNoteItems.purchaseOrderItemId],
+    references: [purchaseOrderItems.id],
+  }),
 }));
 
 export const supplierInvoiceItemsRelations = relations(supplierInvoiceItems, ({ one }) => ({
@@ -863,6 +1563,94 @@ export const stockAdjustmentsRelations = relations(stockAdjustments, ({ one }) =
     fields: [stockAdjustments.invoiceId],
     references: [supplierInvoices.id],
   }),
+  store: one(stores, {
+    fields: [stockAdjustments.storeId],
+    references: [stores.id],
+  }),
+}));
+
+export const stockTransfersRelations = relations(stockTransfers, ({ one, many }) => ({
+  fromStore: one(stores, {
+    fields: [stockTransfers.fromStoreId],
+    references: [stores.id],
+  }),
+  toStore: one(stores, {
+    fields: [stockTransfers.toStoreId],
+    references: [stores.id],
+  }),
+  items: many(stockTransferItems),
+}));
+
+export const stockTransferItemsRelations = relations(stockTransferItems, ({ one }) => ({
+  transfer: one(stockTransfers, {
+    fields: [stockTransferItems.transferId],
+    references: [stockTransfers.id],
+  }),
+  product: one(products, {
+    fields: [stockTransferItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const inventoryMovementsRelations = relations(inventoryMovements, ({ one }) => ({
+  store: one(stores, {
+    fields: [inventoryMovements.storeId],
+    references: [stores.id],
+  }),
+  product: one(products, {
+    fields: [inventoryMovements.productId],
+    references: [products.id],
+  }),
+  createdByUser: one(users, {
+    fields: [inventoryMovements.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const stockLotsRelations = relations(stockLots, ({ one, many }) => ({
+  store: one(stores, {
+    fields: [stockLots.storeId],
+    references: [stores.id],
+  }),
+  product: one(products, {
+    fields: [stockLots.productId],
+    references: [products.id],
+  }),
+  movements: many(stockLotMovements),
+}));
+
+export const stockLotMovementsRelations = relations(stockLotMovements, ({ one }) => ({
+  lot: one(stockLots, {
+    fields: [stockLotMovements.lotId],
+    references: [stockLots.id],
+  }),
+  inventoryMovement: one(inventoryMovements, {
+    fields: [stockLotMovements.inventoryMovementId],
+    references: [inventoryMovements.id],
+  }),
+}));
+
+export const costLayersRelations = relations(costLayers, ({ one, many }) => ({
+  store: one(stores, {
+    fields: [costLayers.storeId],
+    references: [stores.id],
+  }),
+  product: one(products, {
+    fields: [costLayers.productId],
+    references: [products.id],
+  }),
+  movements: many(costLayerMovements),
+}));
+
+export const costLayerMovementsRelations = relations(costLayerMovements, ({ one }) => ({
+  layer: one(costLayers, {
+    fields: [costLayerMovements.layerId],
+    references: [costLayers.id],
+  }),
+  inventoryMovement: one(inventoryMovements, {
+    fields: [costLayerMovements.inventoryMovementId],
+    references: [inventoryMovements.id],
+  }),
 }));
 
 export const supplierPaymentsRelations = relations(supplierPayments, ({ one }) => ({
@@ -944,6 +1732,18 @@ export const promotionsRelations = relations(promotions, ({ one, many }) => ({
   }),
   rules: many(promotionRules),
   usage: many(promotionUsage),
+  coupons: many(coupons),
+}));
+
+export const couponsRelations = relations(coupons, ({ one }) => ({
+  promotion: one(promotions, {
+    fields: [coupons.promotionId],
+    references: [promotions.id],
+  }),
+  customer: one(customers, {
+    fields: [coupons.customerId],
+    references: [customers.id],
+  }),
 }));
 
 export const promotionRulesRelations = relations(promotionRules, ({ one }) => ({
@@ -977,9 +1777,17 @@ export const insertUserSchema = createInsertSchema(users).omit({ createdAt: true
 export const upsertUserSchema = createInsertSchema(users).omit({ createdAt: true, updatedAt: true });
 export const insertStoreSchema = createInsertSchema(stores).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUserStoreSchema = createInsertSchema(userStores).omit({ id: true, assignedAt: true });
-export const insertStoreProductSchema = createInsertSchema(storeProducts).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertStoreProductSchema = createInsertSchema(storeProducts).omit({ id: true, averageCost: true, createdAt: true, updatedAt: true });
 export const insertCustomerSchema = createInsertSchema(customers).omit({ id: true });
-export const insertProductSchema = createInsertSchema(products).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+// Variant links are changed through the variant routes, which check them
+export const insertProductSchema = createInsertSchema(products).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  parentId: true,
+  variantAxes: true,
+  variantOptions: true,
+}).extend({
   name: z.string().min(1, "Product name is required"),
   description: z.string().min(1, "Description is required"),
   sku: z.string().min(1, "SKU is required"),
@@ -995,7 +1803,7 @@ export const insertProductSchema = createInsertSchema(products).omit({ id: true,
 });
 export const insertProductSiblingSchema = createInsertSchema(productSiblings).omit({ id: true, createdAt: true });
 export const insertTransactionSchema = createInsertSchema(transactions).omit({ id: true, createdAt: true });
-export const insertTransactionItemSchema = createInsertSchema(transactionItems).omit({ id: true }).extend({
+export const insertTransactionItemSchema = createInsertSchema(transactionItems).omit({ id: true, unitCost: true }).extend({
   productId: z.union([
     z.number().int().max(2147483647).min(1),
     z.null(),
@@ -1004,6 +1812,10 @@ export const insertTransactionItemSchema = createInsertSchema(transactionItems).
 });
 export const insertDayOperationSchema = createInsertSchema(dayOperations).omit({ id: true, openedAt: true, closedAt: true, reopenedAt: true });
 export const insertHeldTransactionSchema = createInsertSchema(heldTransactions).omit({ id: true, createdAt: true });
+export const insertReturnSchema = createInsertSchema(returns).omit({ id: true, createdAt: true });
+export const insertReturnItemSchema = createInsertSchema(returnItems).omit({ id: true });
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, createdAt: true });
+export const insertApprovalSchema = createInsertSchema(approvals).omit({ id: true, usedAt: true, createdAt: true });
 export const insertCreditTransactionSchema = createInsertSchema(creditTransactions).omit({ id: true, createdAt: true });
 export const insertSupplierSchema = createInsertSchema(suppliers).omit({ id: true, createdAt: true });
 export const insertSupplierInvoiceSchema = createInsertSchema(supplierInvoices).omit({ id: true, createdAt: true }).extend({
@@ -1016,7 +1828,15 @@ export const insertSupplierInvoiceSchema = createInsertSchema(supplierInvoices).
   total: z.union([z.string(), z.number()]).optional(),
 });
 export const insertSupplierInvoiceItemSchema = createInsertSchema(supplierInvoiceItems).omit({ id: true });
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({ id: true });
+export const insertGoodsReceivedNoteSchema = createInsertSchema(goodsReceivedNotes).omit({ id: true, receivedAt: true });
+export const insertGoodsReceivedNoteItemSchema = createInsertSchema(goodsReceivedNoteItems).omit({ id: true });
 export const insertStockAdjustmentSchema = createInsertSchema(stockAdjustments).omit({ id: true, createdAt: true });
+export const insertInventoryMovementSchema = createInsertSchema(inventoryMovements).omit({ id: true, createdAt: true });
+export const insertStockLotSchema = createInsertSchema(stockLots).omit({ id: true, receivedAt: true, updatedAt: true });
+export const insertStockTransferSchema = createInsertSchema(stockTransfers).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertStockTransferItemSchema = createInsertSchema(stockTransferItems).omit({ id: true });
 export const insertSupplierPaymentSchema = createInsertSchema(supplierPayments).omit({ id: true, createdAt: true });
 export const insertSavedReportSchema = createInsertSchema(savedReports).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertStockTakingSessionSchema = createInsertSchema(stockTakingSessions).omit({ id: true, createdAt: true, completedAt: true });
@@ -1049,6 +1869,7 @@ export const insertCustomerAuthSchema = createInsertSchema(customerAuth).omit({
 export const insertPromotionSchema = createInsertSchema(promotions).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertPromotionRuleSchema = createInsertSchema(promotionRules).omit({ id: true, createdAt: true });
 export const insertPromotionUsageSchema = createInsertSchema(promotionUsage).omit({ id: true, createdAt: true });
+export const insertCouponSchema = createInsertSchema(coupons).omit({ id: true, redemptionCount: true, createdAt: true });
 export const insertCompetitorSchema = createInsertSchema(competitors).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertCompetitorPriceSchema = createInsertSchema(competitorPrices).omit({ id: true, createdAt: true, updatedAt: true });
 
@@ -1063,6 +1884,9 @@ export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ProductUnit = typeof productUnits.$inferSelect;
+export type ProductIdentifier = typeof productIdentifiers.$inferSelect;
+export type ProductIdentifierType = typeof PRODUCT_IDENTIFIER_TYPES[number];
 export type ProductSibling = typeof productSiblings.$inferSelect;
 export type InsertProductSibling = z.infer<typeof insertProductSiblingSchema>;
 export type Transaction = typeof transactions.$inferSelect;
@@ -1073,6 +1897,21 @@ export type DayOperation = typeof dayOperations.$inferSelect;
 export type InsertDayOperation = z.infer<typeof insertDayOperationSchema>;
 export type HeldTransaction = typeof heldTransactions.$inferSelect;
 export type InsertHeldTransaction = z.infer<typeof insertHeldTransactionSchema>;
+export type Return = typeof returns.$inferSelect;
+export type InsertReturn = z.infer<typeof insertReturnSchema>;
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type InsertReturnItem = z.infer<typeof insertReturnItemSchema>;
+export type ReturnReasonCode = typeof RETURN_REASON_CODES[number];
+export type DrawerMovementType = typeof DRAWER_MOVEMENT_TYPES[number];
+export type RefundMethod = typeof REFUND_METHODS[number];
+export type ReturnDisposition = typeof RETURN_DISPOSITIONS[number];
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type Approval = typeof approvals.$inferSelect;
+export type InsertApproval = z.infer<typeof insertApprovalSchema>;
+export type ApprovalAction = typeof APPROVAL_ACTIONS[number];
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 export type InsertCreditTransaction = z.infer<typeof insertCreditTransactionSchema>;
 export type User = typeof users.$inferSelect;
@@ -1084,8 +1923,32 @@ export type SupplierInvoice = typeof supplierInvoices.$inferSelect;
 export type InsertSupplierInvoice = z.infer<typeof insertSupplierInvoiceSchema>;
 export type SupplierInvoiceItem = typeof supplierInvoiceItems.$inferSelect;
 export type InsertSupplierInvoiceItem = z.infer<typeof insertSupplierInvoiceItemSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+export type GoodsReceivedNote = typeof goodsReceivedNotes.$inferSelect;
+export type InsertGoodsReceivedNote = z.infer<typeof insertGoodsReceivedNoteSchema>;
+export type GoodsReceivedNoteItem = typeof goodsReceivedNoteItems.$inferSelect;
+export type InsertGoodsReceivedNoteItem = z.infer<typeof insertGoodsReceivedNoteItemSchema>;
+export type InvoiceMatchStatus = typeof INVOICE_MATCH_STATUSES[number];
 export type StockAdjustment = typeof stockAdjustments.$inferSelect;
 export type InsertStockAdjustment = z.infer<typeof insertStockAdjustmentSchema>;
+export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+export type InsertInventoryMovement = z.infer<typeof insertInventoryMovementSchema>;
+export type InventoryMovementType = typeof INVENTORY_MOVEMENT_TYPES[number];
+export type StockLot = typeof stockLots.$inferSelect;
+export type InsertStockLot = z.infer<typeof insertStockLotSchema>;
+export type StockLotMovement = typeof stockLotMovements.$inferSelect;
+export type DailyLotCount = typeof dailyLotCounts.$inferSelect;
+export type CostLayer = typeof costLayers.$inferSelect;
+export type CostLayerMovement = typeof costLayerMovements.$inferSelect;
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type InsertStockTransfer = z.infer<typeof insertStockTransferSchema>;
+export type StockTransferItem = typeof stockTransferItems.$inferSelect;
+export type InsertStockTransferItem = z.infer<typeof insertStockTransferItemSchema>;
+export type StockTransferStatus = typeof STOCK_TRANSFER_STATUSES[number];
 export type SupplierPayment = typeof supplierPayments.$inferSelect;
 export type InsertSupplierPayment = z.infer<typeof insertSupplierPaymentSchema>;
 export type SavedReport = typeof savedReports.$inferSelect;
@@ -1102,11 +1965,17 @@ export type GeneratedInvoice = typeof generatedInvoices.$inferSelect;
 export type InsertGeneratedInvoice = z.infer<typeof insertGeneratedInvoiceSchema>;
 export type GeneratedInvoiceItem = typeof generatedInvoiceItems.$inferSelect;
 export type InsertGeneratedInvoiceItem = z.infer<typeof insertGeneratedInvoiceItemSchema>;
+export type Register = typeof registers.$inferSelect;
+export type DrawerSession = typeof drawerSessions.$inferSelect;
 export type Shift = typeof shifts.$inferSelect;
 export type InsertShift = z.infer<typeof insertShiftSchema>;
 
 // New feature types
 export type CurrencyRate = typeof currencyRates.$inferSelect;
+export type DenominationSet = typeof denominationSets.$inferSelect;
+export type CashCount = typeof cashCounts.$inferSelect;
+export type DrawerNoSale = typeof drawerNoSales.$inferSelect;
+export type ZReport = typeof zReports.$inferSelect;
 export type InsertCurrencyRate = z.infer<typeof insertCurrencyRateSchema>;
 export type VatConfiguration = typeof vatConfigurations.$inferSelect;
 export type InsertVatConfiguration = z.infer<typeof insertVatConfigurationSchema>;
@@ -1117,7 +1986,16 @@ export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
 export type PromotionRule = typeof promotionRules.$inferSelect;
 export type InsertPromotionRule = z.infer<typeof insertPromotionRuleSchema>;
 export type PromotionUsage = typeof promotionUsage.$inferSelect;
+export type PromotionType = typeof PROMOTION_TYPES[number];
+export interface PromotionTier {
+  threshold: number;
+  discountType: 'percentage' | 'fixed';
+  value: number;
+}
 export type InsertPromotionUsage = z.infer<typeof insertPromotionUsageSchema>;
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type CustomerType = typeof CUSTOMER_TYPES[number];
 export type Competitor = typeof competitors.$inferSelect;
 export type InsertCompetitor = z.infer<typeof insertCompetitorSchema>;
 export type CompetitorPrice = typeof competitorPrices.$inferSelect;
@@ -1136,6 +2014,12 @@ export const cartItemSchema = z.object({
   discountAmount: z.string().optional(), // Discount amount for this item
   discountType: z.enum(['percentage', 'fixed']).optional(), // Discount type: percentage or fixed amount
   stock: z.number().optional(), // Current stock level at time of adding to cart
+  unit: z.string().nullable().optional(), // Unit the line is sold in; null or missing for the base unit
+  unitLabel: z.string().optional(), // How the unit is shown, e.g. "kg" or "Carton"
+  unitFactor: z.number().optional(), // Base units in one of the line's unit
+  allowsDecimal: z.boolean().optional(), // Whether the line can be sold in part units (by weight)
+  basePrice: z.string().optional(), // Price of one base unit, to reprice the line when its unit changes
+  labelTotal: z.string().optional(), // Price printed on the scale label the line was scanned from; the line's amount until it is changed
 });
 
 export type CartItem = z.infer<typeof cartItemSchema>;
\ No newline at end of file
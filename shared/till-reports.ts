@@ -0,0 +1,217 @@
+// X and Z reports: the day's (or one register's) takings summarised from the
+// sales, returns and drawer movements behind them. Shared so the till can print
+// a report on the receipt printer exactly as the server built it.
+
+export type TillReportKind = "x" | "z";
+
+export interface TillReportSale {
+  status: string;
+  paymentMethod: string | null;
+  subtotal: string | number;
+  discountAmount: string | number | null;
+  promotionDiscountAmount: string | number | null;
+  vatAmount: string | number | null;
+  total: string | number;
+}
+
+export interface TillReportSaleLine {
+  vatRate: string | number | null;
+  total: string | number; // Line total before VAT
+  vatAmount: string | number | null;
+}
+
+export interface TillReportRefund {
+  refundMethod: string;
+  subtotal: string | number;
+  vatAmount: string | number;
+  totalRefund: string | number;
+}
+
+export interface TillReportData {
+  sales: TillReportSale[];
+  // Lines of the sales counted in the report, for VAT by rate
+  saleLines: TillReportSaleLine[];
+  refunds: TillReportRefund[];
+  cashMovements: TillReport["cashMovements"];
+  noSales: number;
+}
+
+export interface TillReport {
+  kind: TillReportKind;
+  // "Z-000012" once issued; X reports are not numbered
+  number: string | null;
+  store: { id: number; name: string };
+  register: { id: number; name: string } | null;
+  date: string;
+  currency: string;
+  generatedAt: string;
+  sales: {
+    count: number;
+    gross: number; // Before VAT, discounts and promotions
+    discounts: number;
+    promotions: number;
+    vat: number;
+    total: number; // What customers paid
+    net: number; // Gross less discounts, promotions and refunds, without VAT
+  };
+  tenders: { method: string; count: number; amount: number }[];
+  refunds: { count: number; total: number; vat: number; byMethod: { method: string; count: number; amount: number }[] };
+  voids: { count: number; total: number };
+  vatByRate: { rate: number; taxable: number; vat: number }[];
+  noSales: number;
+  cashMovements: { paidIn: number; paidOut: number; dropped: number; pickedUp: number };
+}
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+const num = (value: string | number | null | undefined): number => Number(value ?? 0) || 0;
+
+// A refunded sale still took the money; its refund is reported with the returns
+const COUNTED_STATUSES = new Set(["completed", "refunded"]);
+
+const TENDER_ORDER = ["cash", "card", "credit", "split"];
+
+export function zReportNumber(zNumber: number): string {
+  return `Z-${String(zNumber).padStart(6, "0")}`;
+}
+
+function groupAmounts<T>(rows: T[], key: (row: T) => string, amount: (row: T) => number) {
+  const groups = new Map<string, { count: number; amount: number }>();
+  for (const row of rows) {
+    const group = groups.get(key(row)) ?? { count: 0, amount: 0 };
+    group.count += 1;
+    group.amount += amount(row);
+    groups.set(key(row), group);
+  }
+  return Array.from(groups, ([method, group]) => ({ method, count: group.count, amount: round2(group.amount) }));
+}
+
+/** Builds the report from the rows the server gathered for its day or register. */
+export function buildTillReport(
+  header: Pick<TillReport, "kind" | "number" | "store" | "register" | "date" | "currency" | "generatedAt">,
+  data: TillReportData,
+): TillReport {
+  const sales = data.sales.filter((sale) => COUNTED_STATUSES.has(sale.status));
+  const voided = data.sales.filter((sale) => sale.status === "voided");
+
+  const gross = sales.reduce((sum, sale) => sum + num(sale.subtotal), 0);
+  const discounts = sales.reduce((sum, sale) => sum + num(sale.discountAmount), 0);
+  const promotions = sales.reduce((sum, sale) => sum + num(sale.promotionDiscountAmount), 0);
+  const vat = sales.reduce((sum, sale) => sum + num(sale.vatAmount), 0);
+  const total = sales.reduce((sum, sale) => sum + num(sale.total), 0);
+
+  const refundTotal = data.refunds.reduce((sum, refund) => sum + num(refund.totalRefund), 0);
+  const refundVat = data.refunds.reduce((sum, refund) => sum + num(refund.vatAmount), 0);
+
+  const tenders = groupAmounts(sales, (sale) => sale.paymentMethod ?? "other", (sale) => num(sale.total)).sort(
+    (a, b) => (TENDER_ORDER.indexOf(a.method) + 1 || 99) - (TENDER_ORDER.indexOf(b.method) + 1 || 99),
+  );
+
+  const rates = new Map<number, { taxable: number; vat: number }>();
+  for (const line of data.saleLines) {
+    const rate = num(line.vatRate);
+    const entry = rates.get(rate) ?? { taxable: 0, vat: 0 };
+    entry.taxable += num(line.total);
+    entry.vat += num(line.vatAmount);
+    rates.set(rate, entry);
+  }
+
+  return {
+    ...header,
+    sales: {
+      count: sales.length,
+      gross: round2(gross),
+      discounts: round2(discounts),
+      promotions: round2(promotions),
+      vat: round2(vat),
+      total: round2(total),
+      net: round2(gross - discounts - promotions - (refundTotal - refundVat)),
+    },
+    tenders,
+    refunds: {
+      count: data.refunds.length,
+      total: round2(refundTotal),
+      vat: round2(refundVat),
+      byMethod: groupAmounts(data.refunds, (refund) => refund.refundMethod, (refund) => num(refund.totalRefund)),
+    },
+    voids: { count: voided.length, total: round2(voided.reduce((sum, sale) => sum + num(sale.total), 0)) },
+    vatByRate: Array.from(rates, ([rate, entry]) => ({ rate, taxable: round2(entry.taxable), vat: round2(entry.vat) })).sort(
+      (a, b) => b.rate - a.rate,
+    ),
+    noSales: data.noSales,
+    cashMovements: data.cashMovements,
+  };
+}
+
+export interface TillReportSection {
+  heading: string;
+  lines: { label: string; value: string }[];
+}
+
+const TENDER_LABELS: Record<string, string> = {
+  cash: "Cash",
+  card: "Card",
+  credit: "Credit",
+  split: "Split",
+  store_credit: "Store credit",
+};
+
+const tenderLabel = (method: string) => TENDER_LABELS[method] ?? method.replace(/_/g, " ");
+
+/**
+ * The report as labelled sections, in print order. The PDF and the thermal
+ * print both lay these out so the two always carry the same figures.
+ */
+export function tillReportSections(report: TillReport): TillReportSection[] {
+  const money = (value: number) => `${report.currency} ${value.toFixed(2)}`;
+
+  return [
+    {
+      heading: "Sales",
+      lines: [
+        { label: "Sales", value: String(report.sales.count) },
+        { label: "Gross sales", value: money(report.sales.gross) },
+        { label: "Discounts", value: money(-report.sales.discounts) },
+        { label: "Promotions", value: money(-report.sales.promotions) },
+        { label: "Refunds (ex VAT)", value: money(-(report.refunds.total - report.refunds.vat)) },
+        { label: "Net sales", value: money(report.sales.net) },
+        { label: "VAT collected", value: money(report.sales.vat) },
+        { label: "Total taken", value: money(report.sales.total) },
+      ],
+    },
+    {
+      heading: "Tenders",
+      lines: report.tenders.length
+        ? report.tenders.map((tender) => ({ label: `${tenderLabel(tender.method)} (${tender.count})`, value: money(tender.amount) }))
+        : [{ label: "No sales", value: "" }],
+    },
+    {
+      heading: "Refunds and voids",
+      lines: [
+        { label: `Refunds (${report.refunds.count})`, value: money(report.refunds.total) },
+        ...report.refunds.byMethod.map((refund) => ({ label: `  ${tenderLabel(refund.method)} (${refund.count})`, value: money(refund.amount) })),
+        { label: `Voids (${report.voids.count})`, value: money(report.voids.total) },
+      ],
+    },
+    {
+      heading: "VAT by rate",
+      lines: report.vatByRate.length
+        ? report.vatByRate.map((rate) => ({ label: `${rate.rate}% on ${money(rate.taxable)}`, value: money(rate.vat) }))
+        : [{ label: "No VAT", value: money(0) }],
+    },
+    {
+      heading: "Drawer",
+      lines: [
+        { label: "No-sale opens", value: String(report.noSales) },
+        { label: "Paid in", value: money(report.cashMovements.paidIn) },
+        { label: "Paid out", value: money(report.cashMovements.paidOut) },
+        { label: "Dropped to safe", value: money(report.cashMovements.dropped) },
+        { label: "Picked up", value: money(report.cashMovements.pickedUp) },
+      ],
+    },
+  ];
+}
+
+export function tillReportTitle(report: TillReport): string {
+  const scope = report.register ? report.register.name : "Day";
+  return report.kind === "z" ? `Z report ${report.number ?? ""} · ${scope}`.replace("  ", " ") : `X report · ${scope}`;
+}
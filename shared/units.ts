@@ -0,0 +1,123 @@
+// Units of measure. Stock is kept in each product's base unit ("pcs", "g",
+// "kg"); a product can also be bought or sold in other units, each a fixed
+// number of base units (a carton of 24, a kilo of a product counted in
+// grams). Shared so the till converts quantities the same way the server does.
+import type { Product, ProductUnit } from "./schema";
+
+export const DEFAULT_BASE_UNIT = "pcs";
+
+// Quantities are entered to at most this many decimal places
+export const QUANTITY_DECIMALS = 3;
+
+// What suppliers and stock sheets write when they mean a single item
+const BASE_UNIT_ALIASES = new Set(["pcs", "pc", "piece", "pieces", "ea", "each", "nos", "no", "unit", "units"]);
+
+export type UnitProduct = Pick<Product, "baseUnit" | "baseUnitDecimal">;
+export type UnitDefinition = Pick<ProductUnit, "code" | "factor" | "allowsDecimal"> &
+  Partial<Pick<ProductUnit, "name" | "price" | "isPurchaseUnit" | "isSalesUnit">>;
+
+export interface ResolvedUnit {
+  // null for the base unit, which is what a line with no unit is in
+  code: string | null;
+  label: string;
+  factor: number;
+  allowsDecimal: boolean;
+  // Selling price of one of this unit when set on the unit itself
+  price: number | null;
+}
+
+const round = (value: number, places: number): number => {
+  const scale = 10 ** places;
+  return Math.round((value + Number.EPSILON) * scale) / scale;
+};
+
+/** Lower-cased, trimmed unit code; blank codes mean the base unit. */
+export function normaliseUnitCode(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toLowerCase();
+  return code ? code : null;
+}
+
+export function baseUnitOf(product: Partial<UnitProduct>): ResolvedUnit {
+  const code = normaliseUnitCode(product.baseUnit) ?? DEFAULT_BASE_UNIT;
+  return { code: null, label: code, factor: 1, allowsDecimal: !!product.baseUnitDecimal, price: null };
+}
+
+function isBaseCode(product: Partial<UnitProduct>, code: string): boolean {
+  const base = normaliseUnitCode(product.baseUnit) ?? DEFAULT_BASE_UNIT;
+  return code === base || (BASE_UNIT_ALIASES.has(code) && BASE_UNIT_ALIASES.has(base));
+}
+
+/**
+ * Finds the unit a quantity was given in. Blank codes and the base unit
+ * (or a common spelling of "pieces" for products counted in pieces) are the
+ * base unit; anything else must be one of the product's units, and one it
+ * is sold or bought in when a purpose is given. Returns null for codes the
+ * product does not know.
+ */
+export function resolveUnit(
+  product: Partial<UnitProduct>,
+  units: UnitDefinition[],
+  code: unknown,
+  purpose?: "sale" | "purchase",
+): ResolvedUnit | null {
+  const wanted = normaliseUnitCode(code);
+  if (!wanted || isBaseCode(product, wanted)) return baseUnitOf(product);
+
+  const unit = units.find((candidate) => normaliseUnitCode(candidate.code) === wanted);
+  if (!unit) return null;
+  if (purpose === "sale" && unit.isSalesUnit === false) return null;
+  if (purpose === "purchase" && unit.isPurchaseUnit === false) return null;
+  const factor = Number(unit.factor);
+  if (!Number.isFinite(factor) || factor <= 0) return null;
+  const price = unit.price === null || unit.price === undefined ? null : Number(unit.price);
+  return {
+    code: wanted,
+    label: unit.name || wanted,
+    factor,
+    allowsDecimal: unit.allowsDecimal,
+    price: price !== null && Number.isFinite(price) ? price : null,
+  };
+}
+
+/** Rounds a quantity as entered, in whatever unit it was given in. */
+export const roundQuantity = (value: number): number => round(value, QUANTITY_DECIMALS);
+
+/**
+ * A quantity in the product's base unit, to the three places the stock ledger
+ * keeps, so a weighed line reaches the ledger to the gram.
+ */
+export function toBaseQuantity(quantity: unknown, factor: unknown = 1): number {
+  const value = Number(quantity) * Number(factor ?? 1);
+  return Number.isFinite(value) ? roundQuantity(value) : 0;
+}
+
+/** Base units on a stored line with a quantity and the factor of its unit. */
+export const lineBaseQuantity = (line: { quantity: unknown; unitFactor?: unknown }): number =>
+  toBaseQuantity(line.quantity, line.unitFactor ?? 1);
+
+/**
+ * Why a quantity cannot be entered in a unit, or null when it can: it must
+ * be positive, whole unless the unit is weighed or measured, and to at most
+ * three decimal places.
+ */
+export function checkQuantity(quantity: number, unit: Pick<ResolvedUnit, "label" | "allowsDecimal">): string | null {
+  if (!Number.isFinite(quantity) || quantity <= 0) return "Quantity must be more than zero";
+  if (!unit.allowsDecimal && !Number.isInteger(quantity)) return `Quantities in ${unit.label} must be whole numbers`;
+  if (roundQuantity(quantity) !== quantity) return `Quantities can have at most ${QUANTITY_DECIMALS} decimal places`;
+  return null;
+}
+
+/** Price of one of a unit: its own price, else the base price for as many base units. */
+export function unitPrice(basePrice: unknown, unit: Pick<ResolvedUnit, "factor" | "price">): number {
+  if (unit.price !== null) return unit.price;
+  const price = Number(basePrice) * unit.factor;
+  return Number.isFinite(price) ? round(price, 2) : 0;
+}
+
+/** "2", "0.75 kg" or "3 ctn": whole numbers without decimals, and the unit when given. */
+export function formatQuantity(quantity: unknown, unit?: string | null): string {
+  const value = Number(quantity);
+  const text = Number.isFinite(value) ? String(roundQuantity(value)) : "0";
+  return unit ? `${text} ${unit}` : text;
+}
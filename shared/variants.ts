@@ -0,0 +1,85 @@
+// Product variants. A parent product lists the attributes its variants
+// differ by (size, colour, flavour); each variant is a product of its own,
+// with its own SKU, barcode, price and stock, and a value for every one of
+// its parent's attributes. Shared so the till's variant picker and the
+// server name and match variants the same way.
+import type { Product } from "./schema";
+
+// At most this many attributes per parent, e.g. size and flavour
+export const MAX_VARIANT_AXES = 3;
+
+// What variants take from their parent, on creation and whenever the parent changes
+export const VARIANT_SHARED_FIELDS = [
+  "description",
+  "productType",
+  "category",
+  "supplierId",
+  "vatRate",
+  "vatExempt",
+  "baseUnit",
+  "baseUnitDecimal",
+  "requiresDailyMonitoring",
+] as const satisfies ReadonlyArray<keyof Product>;
+
+export type VariantSharedField = typeof VARIANT_SHARED_FIELDS[number];
+
+export type VariantProduct = Pick<Product, "id" | "parentId" | "variantOptions">;
+
+/** Attribute names are compared lower-cased and trimmed. */
+export const normaliseAxis = (axis: string): string => axis.trim().toLowerCase();
+
+export const isVariantParent = (product: Partial<Pick<Product, "variantAxes">>): boolean =>
+  Array.isArray(product.variantAxes) && product.variantAxes.length > 0;
+
+/** A variant's values in the order of its parent's attributes: "Large / Mango". */
+export function variantLabel(axes: string[], options: Record<string, string> | null | undefined): string {
+  return axes
+    .map((axis) => options?.[axis]?.trim())
+    .filter((value): value is string => !!value)
+    .join(" / ");
+}
+
+/** The name a new variant gets unless one is given: "Orange Juice - Large / Mango". */
+export function variantName(parentName: string, axes: string[], options: Record<string, string>): string {
+  const label = variantLabel(axes, options);
+  return label ? `${parentName} - ${label}` : parentName;
+}
+
+/**
+ * Why a variant's values do not fit its parent's attributes, or null when
+ * they do: every attribute needs a value and nothing else is allowed.
+ */
+export function checkVariantOptions(axes: string[], options: Record<string, string>): string | null {
+  const missing = axes.find((axis) => !options[axis]?.trim());
+  if (missing) return `Choose a ${missing}`;
+  const extra = Object.keys(options).find((key) => !axes.includes(key));
+  if (extra) return `${extra} is not one of this product's attributes`;
+  return null;
+}
+
+const sameOptions = (axes: string[], a: Record<string, string> | null | undefined, b: Record<string, string>) =>
+  axes.every((axis) => (a?.[axis] ?? "").trim().toLowerCase() === (b[axis] ?? "").trim().toLowerCase());
+
+/** The variant with exactly these values, ignoring case. */
+export function findVariant<T extends VariantProduct>(axes: string[], variants: T[], options: Record<string, string>): T | undefined {
+  return variants.find((variant) => sameOptions(axes, variant.variantOptions, options));
+}
+
+/** The values each attribute takes across the variants, in the order first seen. */
+export function axisValues(axes: string[], variants: VariantProduct[]): Record<string, string[]> {
+  const values: Record<string, string[]> = {};
+  for (const axis of axes) {
+    const seen = new Map<string, string>();
+    for (const variant of variants) {
+      const value = variant.variantOptions?.[axis]?.trim();
+      if (value && !seen.has(value.toLowerCase())) seen.set(value.toLowerCase(), value);
+    }
+    values[axis] = Array.from(seen.values());
+  }
+  return values;
+}
+
+/** The fields of a parent that its variants copy. */
+export function sharedFields(parent: Pick<Product, VariantSharedField>): Pick<Product, VariantSharedField> {
+  return Object.fromEntries(VARIANT_SHARED_FIELDS.map((field) => [field, parent[field]])) as Pick<Product, VariantSharedField>;
+}
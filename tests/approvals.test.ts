@@ -0,0 +1,216 @@
+/**
+ * Test Suite for Manager Approvals
+ *
+ * Covers the per-store approval thresholds, the checks made before an
+ * approval token is used, which parts of a checkout need a manager, and the
+ * lockout after repeated wrong PINs.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_APPROVAL_POLICY, approvalNeeded, readApprovalPolicy } from '../shared/approvals';
+import { hasPermission } from '../shared/permissions';
+import { storage } from '../server/storage';
+import { grantApproval } from '../server/modules/approvals/service';
+import {
+  MAX_FAILED_APPROVALS,
+  approvalRequired,
+  approvalsLocked,
+  checkApproval,
+  grantApprovalSchema,
+  readApprovalTokens,
+  saleApprovalDemands,
+} from '../server/modules/approvals/approvals';
+
+vi.mock('../server/storage', () => ({
+  storage: {
+    getStore: vi.fn(),
+    getUserByUsername: vi.fn(),
+    countFailedApprovals: vi.fn(),
+    recordFailedApproval: vi.fn(),
+    createApproval: vi.fn(),
+  },
+}));
+
+const mocked = vi.mocked(storage);
+
+const now = new Date('2025-06-15T12:00:00Z');
+
+const approval = (overrides: Partial<NonNullable<Parameters<typeof checkApproval>[0]>> = {}) => ({
+  action: 'void',
+  storeId: 1,
+  transactionId: 9 as number | null,
+  amount: '50.00' as string | null,
+  requestedBy: 5,
+  expiresAt: new Date('2025-06-15T12:05:00Z'),
+  usedAt: null as Date | null,
+  ...overrides,
+});
+
+const check = (overrides = {}, demand = { action: 'void' as const, amount: 50, transactionId: 9 }) =>
+  checkApproval(approval(overrides), demand, { storeId: 1, userId: 5, now });
+
+describe('Manager Approvals', () => {
+  describe('Store policy', () => {
+    it('falls back to the defaults field by field', () => {
+      expect(readApprovalPolicy(null)).toEqual(DEFAULT_APPROVAL_POLICY);
+      expect(readApprovalPolicy({ approvals: { refundLimit: '100', voidRequiresApproval: false } })).toEqual({
+        ...DEFAULT_APPROVAL_POLICY,
+        refundLimit: 100,
+        voidRequiresApproval: false,
+      });
+    });
+
+    it('keeps an explicit null as "never ask" and ignores garbage', () => {
+      const policy = readApprovalPolicy({ approvals: { discountPercentLimit: null, refundLimit: -5 } });
+      expect(policy.discountPercentLimit).toBeNull();
+      expect(policy.refundLimit).toBe(DEFAULT_APPROVAL_POLICY.refundLimit);
+    });
+
+    it('applies the refund and discount thresholds', () => {
+      const policy = { ...DEFAULT_APPROVAL_POLICY, refundLimit: 100, discountPercentLimit: 10 };
+      expect(approvalNeeded(policy, 'refund', 100)).toBe(false);
+      expect(approvalNeeded(policy, 'refund', 100.01)).toBe(true);
+      expect(approvalNeeded(policy, 'discount', 10, 100)).toBe(false);
+      expect(approvalNeeded(policy, 'discount', 10.5, 100)).toBe(true);
+      expect(approvalNeeded({ ...policy, refundLimit: null }, 'refund', 5000)).toBe(false);
+    });
+  });
+
+  describe('Permissions', () => {
+    it('lets managers and supervisors approve, and cashiers only ask', () => {
+      expect(hasPermission('manager', 'approvals', 'grant')).toBe(true);
+      expect(hasPermission('supervisor', 'approvals', 'grant')).toBe(true);
+      expect(hasPermission('cashier', 'approvals', 'grant')).toBe(false);
+      expect(hasPermission('cashier', 'approvals', 'request')).toBe(true);
+      expect(hasPermission('supervisor', 'approvals', 'read')).toBe(false);
+    });
+  });
+
+  describe('Token checks', () => {
+    it('accepts a fresh approval for this cashier, store and sale', () => {
+      expect(check()).toBeNull();
+    });
+
+    it('rejects missing, used and expired approvals', () => {
+      expect(checkApproval(undefined, { action: 'void', amount: 50 }, { storeId: 1, userId: 5, now })?.code).toBe('NOT_FOUND');
+      expect(check({ usedAt: now })?.code).toBe('USED');
+      expect(check({ expiresAt: now })?.code).toBe('EXPIRED');
+    });
+
+    it('ties the approval to its action, store, cashier and sale', () => {
+      expect(check({ action: 'refund' })?.code).toBe('WRONG_ACTION');
+      expect(check({ storeId: 2 })?.code).toBe('WRONG_STORE');
+      expect(check({ requestedBy: 6 })?.code).toBe('WRONG_USER');
+      expect(check({ transactionId: 10 })?.code).toBe('WRONG_TRANSACTION');
+    });
+
+    it('caps the amount at what the manager approved', () => {
+      expect(check({}, { action: 'void', amount: 50.004, transactionId: 9 })).toBeNull();
+      expect(check({}, { action: 'void', amount: 60, transactionId: 9 })?.code).toBe('AMOUNT_EXCEEDED');
+      expect(check({ amount: null }, { action: 'void', amount: 6000, transactionId: 9 })).toBeNull();
+    });
+
+    it('describes what is still missing', () => {
+      expect(approvalRequired({ action: 'refund', amount: 12.345, transactionId: 9 })).toEqual({
+        code: 'APPROVAL_REQUIRED',
+        message: 'Refund needs manager approval',
+        action: 'refund',
+        amount: 12.35,
+        transactionId: 9,
+      });
+    });
+  });
+
+  describe('Request payloads', () => {
+    it('reads single and multiple approval tokens', () => {
+      expect(readApprovalTokens({ approvalToken: 'a', approvalTokens: ['b', 'a', 7, ''] })).toEqual(['a', 'b']);
+      expect(readApprovalTokens(undefined)).toEqual([]);
+    });
+
+    it('needs either a username and PIN or a badge', () => {
+      const base = { action: 'void', storeId: 1, reason: 'Customer changed mind' };
+      expect(grantApprovalSchema.safeParse({ ...base, username: 'sara', pin: '1234' }).success).toBe(true);
+      expect(grantApprovalSchema.safeParse({ ...base, badgeCode: 'B-77' }).success).toBe(true);
+      expect(grantApprovalSchema.safeParse({ ...base, username: 'sara' }).success).toBe(false);
+      expect(grantApprovalSchema.safeParse({ ...base, reason: ' ', badgeCode: 'B-77' }).success).toBe(false);
+    });
+  });
+
+  describe('Checkout', () => {
+    const sale = (overrides = {}) => ({
+      subtotal: '100.00',
+      tax: '5.00',
+      discountAmount: '0.00',
+      items: [
+        { productId: 1, unitPrice: '20.00', quantity: 2 },
+        { productId: null, unitPrice: '1.00', quantity: 1 },
+      ],
+      ...overrides,
+    });
+    const catalog = new Map([[1, 20]]);
+
+    it('asks nothing for a sale at store prices with a small discount', () => {
+      expect(saleApprovalDemands(DEFAULT_APPROVAL_POLICY, sale({ discountAmount: '10.50' }), catalog)).toEqual([]);
+    });
+
+    it('asks for large manual discounts', () => {
+      expect(saleApprovalDemands(DEFAULT_APPROVAL_POLICY, sale({ discountAmount: '20.00' }), catalog)).toEqual([
+        { action: 'discount', amount: 20 },
+      ]);
+    });
+
+    it('asks for lines sold below the store price, ignoring custom items', () => {
+      const cheaper = sale({ items: [{ productId: 1, unitPrice: '15.00', quantity: 2 }, { productId: null, unitPrice: '0.01', quantity: 1 }] });
+      expect(saleApprovalDemands(DEFAULT_APPROVAL_POLICY, cheaper, catalog)).toEqual([
+        { action: 'price_override', amount: 10 },
+      ]);
+      expect(
+        saleApprovalDemands({ ...DEFAULT_APPROVAL_POLICY, priceOverrideRequiresApproval: false }, cheaper, catalog),
+      ).toEqual([]);
+    });
+  });
+
+  describe('Failed attempts', () => {
+    const cashier = { id: 5, role: 'cashier' };
+    const input = { action: 'void' as const, storeId: 1, reason: 'Wrong item', username: 'manager', pin: '1234' };
+
+    beforeEach(() => {
+      vi.resetAllMocks();
+      mocked.getStore.mockResolvedValue({ id: 1, name: 'Main' } as any);
+      mocked.countFailedApprovals.mockResolvedValue({ approver: 0, requester: 0 });
+      mocked.getUserByUsername.mockResolvedValue(undefined);
+    });
+
+    it('locks after too many refusals for the manager or by the cashier', () => {
+      expect(approvalsLocked({ approver: MAX_FAILED_APPROVALS - 1, requester: MAX_FAILED_APPROVALS - 1 })).toBe(false);
+      expect(approvalsLocked({ approver: MAX_FAILED_APPROVALS, requester: 0 })).toBe(true);
+      expect(approvalsLocked({ approver: 0, requester: MAX_FAILED_APPROVALS })).toBe(true);
+    });
+
+    it('audits a wrong PIN against the manager named', async () => {
+      const result = await grantApproval(cashier, input);
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_CREDENTIALS' });
+      expect(mocked.countFailedApprovals.mock.calls[0][0]).toEqual({ approver: 'manager', requestedBy: 5 });
+      expect(mocked.recordFailedApproval).toHaveBeenCalledWith({
+        storeId: 1,
+        approver: 'manager',
+        action: 'void',
+        method: 'pin',
+        code: 'INVALID_CREDENTIALS',
+        reason: 'Wrong item',
+      });
+    });
+
+    it('refuses without checking the PIN while approvals are locked', async () => {
+      mocked.countFailedApprovals.mockResolvedValue({ approver: MAX_FAILED_APPROVALS, requester: 0 });
+
+      const result = await grantApproval(cashier, input);
+
+      expect(result).toMatchObject({ success: false, code: 'LOCKED_OUT' });
+      expect(mocked.getUserByUsername).not.toHaveBeenCalled();
+      expect(mocked.recordFailedApproval).toHaveBeenCalledWith(expect.objectContaining({ code: 'LOCKED_OUT' }));
+      expect(mocked.createApproval).not.toHaveBeenCalled();
+    });
+  });
+});
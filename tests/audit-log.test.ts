@@ -0,0 +1,165 @@
+/**
+ * Test Suite for the Audit Log
+ *
+ * Covers how before/after versions of a record become a change set, writing
+ * entries with the change they describe, the viewer's filters, the CSV
+ * export and who may read the log.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { auditLogs } from '../shared/schema';
+import { hasPermission } from '../shared/permissions';
+import { auditLogQuerySchema, auditLogsToCsv, diffRecords } from '../server/modules/audit/audit';
+import { recordAudit, type AuditExecutor } from '../server/modules/audit/storage';
+import { getRequestContext, runWithRequestContext } from '../server/modules/shared/request-context';
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+
+// An executor that records what is inserted, or fails the insert
+const executor = (fail?: Error) => {
+  const inserted: Array<{ table: unknown; values: Record<string, unknown> }> = [];
+  const insert = (table: unknown) => ({
+    values: async (values: Record<string, unknown>) => {
+      if (fail) throw fail;
+      inserted.push({ table, values });
+    },
+  });
+  return { inserted, tx: { insert } as unknown as AuditExecutor };
+};
+
+describe('Audit Log', () => {
+  describe('Change sets', () => {
+    it('keeps only the fields that changed', () => {
+      const before = { id: 1, price: '10.00', stock: 5, name: 'Tea' };
+      const after = { id: 1, price: '12.50', stock: 5, name: 'Tea' };
+      expect(diffRecords(before, after)).toEqual({ price: { from: '10.00', to: '12.50' } });
+    });
+
+    it('reports every field for creations and deletions', () => {
+      expect(diffRecords(null, { id: 3, amount: '5.00' })).toEqual({
+        id: { from: null, to: 3 },
+        amount: { from: null, to: '5.00' },
+      });
+      expect(diffRecords({ id: 3, amount: '5.00' }, undefined)).toEqual({
+        id: { from: 3, to: null },
+        amount: { from: '5.00', to: null },
+      });
+    });
+
+    it('compares dates by value and ignores bookkeeping timestamps', () => {
+      const closedAt = new Date('2025-06-15T20:00:00Z');
+      const before = { status: 'closed', closedAt, updatedAt: new Date('2025-06-15T20:00:00Z') };
+      const after = { status: 'closed', closedAt: new Date(closedAt), updatedAt: new Date('2025-06-16T08:00:00Z') };
+      expect(diffRecords(before, after)).toEqual({});
+
+      expect(diffRecords({ closedAt }, { closedAt: null })).toEqual({
+        closedAt: { from: '2025-06-15T20:00:00.000Z', to: null },
+      });
+    });
+
+    it('compares nested settings structurally', () => {
+      expect(diffRecords({ settings: { a: 1 } }, { settings: { a: 1 } })).toEqual({});
+      expect(diffRecords({ settings: { a: 1 } }, { settings: { a: 2 } })).toEqual({
+        settings: { from: { a: 1 }, to: { a: 2 } },
+      });
+    });
+  });
+
+  describe('Request context', () => {
+    it('is visible to code running inside the request', async () => {
+      const context = { requestId: 'req-1', actorId: 7, reason: 'Price correction' };
+      const seen = await runWithRequestContext(context, async () => {
+        await Promise.resolve();
+        return getRequestContext();
+      });
+      expect(seen).toEqual(context);
+      expect(getRequestContext()).toBeUndefined();
+    });
+  });
+
+  describe('Writing entries', () => {
+    it('writes with the executor of the change, attributed to the request', async () => {
+      const { inserted, tx } = executor();
+      await runWithRequestContext({ requestId: 'req-2', actorId: 7, reason: 'Price correction' }, () =>
+        recordAudit({ entityType: 'product', entityId: 4, action: 'update', before: { price: '10.00' }, after: { price: '12.50' } }, tx),
+      );
+
+      expect(inserted).toEqual([{
+        table: auditLogs,
+        values: expect.objectContaining({
+          actorId: 7,
+          entityType: 'product',
+          entityId: '4',
+          action: 'update',
+          changes: { price: { from: '10.00', to: '12.50' } },
+          reason: 'Price correction',
+          requestId: 'req-2',
+        }),
+      }]);
+    });
+
+    it('fails with the entry, so the change is rolled back with it', async () => {
+      const { tx } = executor(new Error('audit_logs is full'));
+      await expect(
+        recordAudit({ entityType: 'store', entityId: 2, action: 'create', after: { name: 'Doha' } }, tx),
+      ).rejects.toThrow('audit_logs is full');
+    });
+
+    it('skips updates that change nothing', async () => {
+      const { inserted, tx } = executor();
+      await recordAudit({ entityType: 'store', entityId: 2, action: 'update', before: { name: 'Doha' }, after: { name: 'Doha' } }, tx);
+      expect(inserted).toHaveLength(0);
+    });
+  });
+
+  describe('Viewer filters', () => {
+    it('parses query strings and applies paging defaults', () => {
+      const parsed = auditLogQuerySchema.parse({ storeId: '2', entityType: 'store_product', from: '2025-06-01' });
+      expect(parsed).toMatchObject({ storeId: 2, entityType: 'store_product', limit: 100, offset: 0 });
+      expect(parsed.from).toEqual(new Date('2025-06-01'));
+    });
+
+    it('rejects unknown record types and oversized pages', () => {
+      expect(auditLogQuerySchema.safeParse({ entityType: 'users' }).success).toBe(false);
+      expect(auditLogQuerySchema.safeParse({ limit: '5000' }).success).toBe(false);
+    });
+  });
+
+  describe('CSV export', () => {
+    const row = {
+      id: 1,
+      createdAt: new Date('2025-06-15T12:00:00Z'),
+      actorId: 4,
+      actorName: 'sara',
+      storeId: 2,
+      entityType: 'day_operation',
+      entityId: '9',
+      action: 'update',
+      changes: { status: { from: 'closed', to: 'open' } },
+      reason: 'Missed a supplier payment, "cash"',
+      requestId: 'req-1',
+    };
+
+    it('writes a header and one quoted line per entry', () => {
+      const [header, line] = auditLogsToCsv([row]).split('\r\n');
+      expect(header).toBe('id,createdAt,actorId,actorName,storeId,entityType,entityId,action,reason,requestId,changes');
+      expect(line).toBe(
+        '1,2025-06-15T12:00:00.000Z,4,sara,2,day_operation,9,update,"Missed a supplier payment, ""cash""",req-1,' +
+          '"{""status"":{""from"":""closed"",""to"":""open""}}"',
+      );
+    });
+
+    it('stops spreadsheets from running cells as formulas', () => {
+      const [, line] = auditLogsToCsv([{ ...row, reason: '=HYPERLINK("x")' }]).split('\r\n');
+      expect(line).toContain(`"'=HYPERLINK(""x"")"`);
+    });
+  });
+
+  describe('Permissions', () => {
+    it('is only readable by administrators', () => {
+      expect(hasPermission('admin', 'audit', 'read')).toBe(true);
+      expect(hasPermission('manager', 'audit', 'read')).toBe(false);
+      expect(hasPermission('cashier', 'audit', 'export')).toBe(false);
+    });
+  });
+});
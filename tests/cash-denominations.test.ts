@@ -0,0 +1,178 @@
+/**
+ * Test Suite for Cash Denominations
+ *
+ * Covers counting cash by denomination in several currencies, picking the
+ * exchange rate in effect on a day, and converting the day-close variance of
+ * each currency to the store's base currency.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countTotals,
+  dayCashReconciliation,
+  DEFAULT_DENOMINATIONS,
+  effectiveRate,
+  reconcileCurrencies,
+  roundCurrency,
+  unknownDenominations,
+} from '../shared/denominations';
+import { cashCountSchema, denominationSetSchema } from '../server/modules/till/cash-counts';
+
+describe('Cash Denominations', () => {
+  describe('Counting', () => {
+    it('keeps the Qatari Riyal notes and coins the close screen always counted', () => {
+      expect(DEFAULT_DENOMINATIONS.QAR.map((denomination) => denomination.value)).toEqual([500, 200, 100, 50, 20, 10, 5, 1, 0.5, 0.25]);
+    });
+
+    it('totals each currency separately', () => {
+      expect(
+        countTotals([
+          { currency: 'QAR', denomination: 100, quantity: 3 },
+          { currency: 'QAR', denomination: 0.25, quantity: 3 },
+          { currency: 'USD', denomination: 20, quantity: 2 },
+          { currency: 'USD', denomination: 0.1, quantity: 3 },
+        ]),
+      ).toEqual({ QAR: 300.75, USD: 40.3 });
+    });
+
+    it('rounds dinars to fils', () => {
+      expect(countTotals([{ currency: 'KWD', denomination: 0.005, quantity: 3 }])).toEqual({ KWD: 0.015 });
+      expect(roundCurrency(1.23456, 'BHD')).toBe(1.235);
+      expect(roundCurrency(1.23456, 'USD')).toBe(1.23);
+    });
+
+    it('flags a note its currency does not have', () => {
+      const lines = [
+        { currency: 'SAR', denomination: 20, quantity: 1 },
+        { currency: 'SAR', denomination: 50, quantity: 1 },
+      ];
+      expect(unknownDenominations(lines, DEFAULT_DENOMINATIONS)).toEqual([lines[0]]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('sorts a denomination set largest first and rejects repeated values', () => {
+      const parsed = denominationSetSchema.parse({
+        denominations: [
+          { value: '1', label: '$1', kind: 'note' },
+          { value: 100, label: '$100', kind: 'note' },
+        ],
+      });
+      expect(parsed.denominations.map((denomination) => denomination.value)).toEqual([100, 1]);
+
+      const repeated = denominationSetSchema.safeParse({
+        denominations: [
+          { value: 5, label: '$5', kind: 'note' },
+          { value: 5, label: 'Five', kind: 'note' },
+        ],
+      });
+      expect(repeated.success).toBe(false);
+      if (!repeated.success) expect(repeated.error.errors[0].message).toBe('Each value can only be listed once');
+    });
+
+    it('accepts whole counts in supported currencies only', () => {
+      expect(cashCountSchema.safeParse({ phase: 'closing', lines: [{ currency: 'USD', denomination: 20, quantity: '4' }] }).success).toBe(true);
+      expect(cashCountSchema.safeParse({ phase: 'closing', lines: [{ currency: 'USD', denomination: 20, quantity: 1.5 }] }).success).toBe(false);
+      expect(cashCountSchema.safeParse({ phase: 'closing', lines: [{ currency: 'JPY', denomination: 1000, quantity: 1 }] }).success).toBe(false);
+    });
+
+    it('rejects the same note counted twice', () => {
+      const result = cashCountSchema.safeParse({
+        phase: 'opening',
+        lines: [
+          { currency: 'USD', denomination: 20, quantity: 1 },
+          { currency: 'USD', denomination: 20, quantity: 2 },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Exchange rate on the day', () => {
+    const rates = [
+      { fromCurrency: 'USD', toCurrency: 'QAR', rate: '3.640000', effectiveDate: new Date('2026-10-01T09:00:00Z') },
+      { fromCurrency: 'USD', toCurrency: 'QAR', rate: '3.650000', effectiveDate: new Date('2026-10-20T09:00:00Z') },
+      { fromCurrency: 'QAR', toCurrency: 'SAR', rate: '1.030000', effectiveDate: new Date('2026-10-05T09:00:00Z') },
+    ];
+
+    it('uses the latest rate on or before the day', () => {
+      expect(effectiveRate(rates, 'USD', 'QAR', '2026-10-19')).toBe(3.64);
+      expect(effectiveRate(rates, 'USD', 'QAR', '2026-10-20')).toBe(3.65);
+    });
+
+    it('inverts a rate kept the other way round', () => {
+      expect(effectiveRate(rates, 'SAR', 'QAR', '2026-10-19')).toBeCloseTo(1 / 1.03, 6);
+    });
+
+    it('has no rate before the first one took effect', () => {
+      expect(effectiveRate(rates, 'USD', 'QAR', '2026-09-30')).toBeNull();
+      expect(effectiveRate(rates, 'EUR', 'QAR', '2026-10-19')).toBeNull();
+    });
+
+    it('needs no rate for the base currency', () => {
+      expect(effectiveRate([], 'QAR', 'QAR', '2026-10-19')).toBe(1);
+    });
+  });
+
+  describe('Day-close variance', () => {
+    it('converts each currency\'s variance to the base currency', () => {
+      const result = reconcileCurrencies({
+        baseCurrency: 'QAR',
+        expected: { QAR: 1000, USD: 120 },
+        counted: { QAR: 995, USD: 100 },
+        rates: { USD: 3.64 },
+      });
+
+      expect(result.lines).toEqual([
+        { currency: 'QAR', expected: 1000, counted: 995, variance: -5, rate: 1, varianceInBase: -5 },
+        { currency: 'USD', expected: 120, counted: 100, variance: -20, rate: 3.64, varianceInBase: -72.8 },
+      ]);
+      expect(result.totalVarianceInBase).toBe(-77.8);
+      expect(result.missingRates).toEqual([]);
+    });
+
+    it('lists currencies that are out without a rate to convert them', () => {
+      const result = reconcileCurrencies({
+        baseCurrency: 'QAR',
+        expected: { QAR: 0, EUR: 50, GBP: 10 },
+        counted: { QAR: 0, EUR: 40, GBP: 10 },
+        rates: {},
+      });
+      expect(result.missingRates).toEqual(['EUR']);
+      expect(result.lines.find((line) => line.currency === 'EUR')?.varianceInBase).toBeNull();
+    });
+
+    it('expects foreign cash from its opening count and the sales taken in it', () => {
+      const result = dayCashReconciliation({
+        baseCurrency: 'QAR',
+        baseExpected: 800,
+        extraBaseCash: 2.5,
+        counts: [
+          { currency: 'QAR', denomination: 100, quantity: 8 },
+          { currency: 'USD', denomination: 50, quantity: 3 },
+          { currency: 'USD', denomination: 1, quantity: 0 },
+        ],
+        currencies: [
+          { currency: 'USD', opening: 100, cashSales: 50, cashSalesInBase: 182, rate: 3.64 },
+          { currency: 'EUR', opening: 0, cashSales: 0, cashSalesInBase: 0, rate: 3.95 },
+        ],
+      });
+
+      expect(result.lines.map((line) => [line.currency, line.expected, line.counted, line.variance])).toEqual([
+        ['QAR', 800, 802.5, 2.5],
+        ['USD', 150, 150, 0],
+      ]);
+      expect(result.totalVarianceInBase).toBe(2.5);
+    });
+
+    it('brings in a currency that was only counted', () => {
+      const result = dayCashReconciliation({
+        baseCurrency: 'QAR',
+        baseExpected: 0,
+        counts: [{ currency: 'EUR', denomination: 10, quantity: 2 }],
+        currencies: [{ currency: 'EUR', opening: 0, cashSales: 0, cashSalesInBase: 0, rate: 3.95 }],
+      });
+      expect(result.lines.find((line) => line.currency === 'EUR')).toMatchObject({ expected: 0, counted: 20, varianceInBase: 79 });
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Test Suite for Cost of Goods Sold
+ *
+ * Covers the moving average cost kept per store, first in, first out cost
+ * layers, the cost of stock put back, valuing stock from the ledger and the
+ * gross margin report.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  consumeCostLayers,
+  movingAverageCost,
+  restoredUnitCost,
+  salesReportQuerySchema,
+  stockValuationQuerySchema,
+  summariseMargins,
+  toCost,
+  valueStock,
+  type SoldLine,
+  type StockValuationInput,
+} from '../server/modules/inventory/costing';
+import { DEFAULT_INVENTORY_POLICY, readInventoryPolicy } from '../shared/inventory';
+
+const sold = (overrides: Partial<SoldLine> = {}): SoldLine => ({
+  productId: 1,
+  productName: 'Milk',
+  category: 'Dairy',
+  day: '2024-03-10',
+  quantity: 2,
+  revenue: 10,
+  cost: 6,
+  estimatedQuantity: 0,
+  ...overrides,
+});
+
+const stock = (overrides: Partial<StockValuationInput> = {}): StockValuationInput => ({
+  productId: 1,
+  productName: 'Milk',
+  sku: 'MLK-1',
+  category: 'Dairy',
+  quantity: 10,
+  averageCost: 2.5,
+  layers: [],
+  ...overrides,
+});
+
+describe('Cost of Goods Sold', () => {
+  describe('Store policy', () => {
+    it('costs at the weighted average unless the store chose FIFO', () => {
+      expect(DEFAULT_INVENTORY_POLICY.costingMethod).toBe('average');
+      expect(readInventoryPolicy({ inventory: { costingMethod: 'fifo' } }).costingMethod).toBe('fifo');
+      expect(readInventoryPolicy({ inventory: { costingMethod: 'lifo' } }).costingMethod).toBe('average');
+    });
+  });
+
+  describe('Moving average', () => {
+    it('averages a receipt with the stock already on hand', () => {
+      expect(movingAverageCost(10, 2, 10, 3)).toBe(2.5);
+      expect(movingAverageCost(3, 1.1, 7, 1.25)).toBe(1.205);
+    });
+
+    it('takes the receipt cost when there is nothing to average with', () => {
+      expect(movingAverageCost(0, 2, 5, 3)).toBe(3);
+      expect(movingAverageCost(-4, 2, 5, 3)).toBe(3);
+      expect(movingAverageCost(6, null, 5, 3)).toBe(3);
+    });
+
+    it('reads stored costs and treats blanks as unknown', () => {
+      expect(toCost('2.12345')).toBe(2.1235);
+      expect(toCost('0')).toBe(0);
+      expect(toCost(null)).toBeNull();
+      expect(toCost('')).toBeNull();
+      expect(toCost('-1')).toBeNull();
+    });
+
+    it('puts stock back at the cost it was taken out at', () => {
+      expect(restoredUnitCost([{ quantity: '-2', unitCost: '3.0000' }, { quantity: '-1', unitCost: '6.0000' }])).toBe(4);
+      expect(restoredUnitCost([{ quantity: '-2', unitCost: null }])).toBeNull();
+      expect(restoredUnitCost([])).toBeNull();
+    });
+  });
+
+  describe('First in, first out', () => {
+    const layers = [
+      { id: 1, available: 4, unitCost: 2 },
+      { id: 2, available: 10, unitCost: 3 },
+    ];
+
+    it('uses up the oldest layers first', () => {
+      expect(consumeCostLayers(layers, 6, 2.8)).toEqual({
+        uses: [{ layerId: 1, quantity: 4 }, { layerId: 2, quantity: 2 }],
+        uncovered: 0,
+        unitCost: 2.3333,
+      });
+    });
+
+    it('costs stock sold beyond the layers at the fallback', () => {
+      const result = consumeCostLayers(layers, 16, 2.5);
+      expect(result.uncovered).toBe(2);
+      expect(result.unitCost).toBe(2.6875);
+      expect(consumeCostLayers([], 3, 2.5)).toEqual({ uses: [], uncovered: 3, unitCost: 2.5 });
+      expect(consumeCostLayers([], 3, null).unitCost).toBeNull();
+    });
+  });
+
+  describe('Stock valuation', () => {
+    it('values the same stock by average and by layers', () => {
+      const valuation = valueStock('2024-03-10', 'fifo', [
+        stock({ layers: [{ quantity: 4, unitCost: 2 }, { quantity: 6, unitCost: 3 }] }),
+      ]);
+      expect(valuation.lines[0]).toMatchObject({ averageValue: 25, fifoValue: 26, value: 26 });
+      expect(valuation.totals).toEqual({ quantity: 10, averageValue: 25, fifoValue: 26, value: 26 });
+    });
+
+    it('values stock outside the layers at the average and leaves out empty products', () => {
+      const valuation = valueStock('2024-03-10', 'average', [
+        stock({ layers: [{ quantity: 4, unitCost: 3 }] }),
+        stock({ productId: 2, quantity: 0 }),
+        stock({ productId: 3, quantity: -2, averageCost: 1 }),
+      ]);
+      expect(valuation.lines.map((line) => [line.productId, line.averageValue, line.fifoValue])).toEqual([
+        [1, 25, 27],
+        [3, -2, -2],
+      ]);
+      expect(valuation.totals.value).toBe(23);
+    });
+
+    it('checks the valuation date', () => {
+      expect(stockValuationQuerySchema.parse({})).toEqual({});
+      expect(stockValuationQuerySchema.safeParse({ date: '2024-02-30' }).success).toBe(false);
+    });
+  });
+
+  describe('Gross margin', () => {
+    it('adds up margin by product, category and day', () => {
+      const report = summariseMargins([
+        sold(),
+        sold({ day: '2024-03-11', revenue: 12, cost: 6 }),
+        sold({ productId: 2, productName: 'Bread', category: null, revenue: 4, cost: 5, estimatedQuantity: 2 }),
+      ]);
+      expect(report.totals).toMatchObject({ quantity: 6, revenue: 26, cost: 17, grossMargin: 9, marginPercent: 34.62, estimatedQuantity: 2 });
+      expect(report.byProduct.map((row) => [row.label, row.grossMargin])).toEqual([['Milk', 10], ['Bread', -1]]);
+      expect(report.byCategory.map((row) => row.label)).toEqual(['Dairy', 'Uncategorised']);
+      expect(report.byDay.map((row) => [row.key, row.revenue])).toEqual([['2024-03-10', 14], ['2024-03-11', 12]]);
+    });
+
+    it('reports an empty period as zero', () => {
+      const report = summariseMargins([]);
+      expect(report.totals).toMatchObject({ revenue: 0, grossMargin: 0, marginPercent: null });
+      expect(report.byProduct).toEqual([]);
+    });
+
+    it('checks the report filters', () => {
+      expect(salesReportQuerySchema.parse({ storeId: '3', date: '2024-03-10' })).toEqual({ storeId: 3, date: '2024-03-10' });
+      expect(salesReportQuerySchema.safeParse({ start_date: '2024-03-10', end_date: '2024-03-01' }).success).toBe(false);
+    });
+  });
+});
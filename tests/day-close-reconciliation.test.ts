@@ -0,0 +1,156 @@
+/**
+ * Test Suite for Day-Close Reconciliation
+ *
+ * Covers working out a day's expected cash and bank balance on the server,
+ * folding recorded owner, expense and bank movements, and spotting close
+ * requests whose totals disagree with the records. Reading the records
+ * themselves is covered in day-records.test.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  declaredMovementsSchema,
+  reconcileDay,
+  totalMismatches,
+  totalRecordedMovements,
+  type DayRecords,
+  type DeclaredMovements,
+} from '../server/modules/till/reconciliation';
+
+const records: DayRecords = {
+  openingCash: 500,
+  openingBankBalance: 10000,
+  sales: { cash: 1200, card: 800, credit: 300, split: 150 },
+  salesCounts: { cash: 10, card: 5, credit: 2, split: 1 },
+  foreignCashSalesInBase: 100,
+  saleRefunds: { cash: 50, card: 40 },
+  creditPayments: { cash: 120, card: 60 },
+  creditRefunds: { cash: 20, card: 10 },
+  supplierPayments: { cash: 200, card: 90 },
+  drawer: { paidIn: 30, paidOut: 15, dropped: 400, pickedUp: 100 },
+  recorded: {
+    ownerDeposits: 0,
+    ownerWithdrawals: 50,
+    ownerBankDeposits: 0,
+    ownerBankWithdrawals: 0,
+    expensePayments: 25,
+    bankWithdrawals: 0,
+    bankTransfers: 300,
+  },
+};
+
+const declared: DeclaredMovements = {
+  ownerDeposits: 100,
+  ownerWithdrawals: 0,
+  ownerBankDeposits: 500,
+  ownerBankWithdrawals: 0,
+  expensePayments: 10,
+  bankWithdrawals: 70,
+  bankTransfers: 0,
+  actualBankBalance: 11600,
+};
+
+describe('Day-Close Reconciliation', () => {
+  describe('Expected balances', () => {
+    const reconciliation = reconcileDay(records, declared);
+
+    it('works out the cash the drawers should hold', () => {
+      // 500 + 1100 + 120 + 100 + 30 - 50 - 200 - 35 - 20 - 50 - 300 - 15 - 500
+      expect(reconciliation.cash.expected).toBe(680);
+      expect(reconciliation.cash.sales).toBe(1100);
+      expect(reconciliation.cash.dropped).toBe(500);
+    });
+
+    it('works out the bank balance and its difference from the statement', () => {
+      // 10000 + 800 + 60 + 500 + 300 - 80 - 40
+      expect(reconciliation.bank.expected).toBe(11540);
+      expect(reconciliation.bank.withdrawals).toBe(80);
+      expect(reconciliation.bank.difference).toBe(60);
+    });
+
+    it('adds declared movements to the recorded ones', () => {
+      expect(reconciliation.totals.ownerWithdrawals).toBe(50);
+      expect(reconciliation.totals.expensePayments).toBe(35);
+      expect(reconciliation.totals.bankTransfers).toBe(300);
+      expect(reconciliation.totals.ownerBankDeposits).toBe(500);
+    });
+
+    it('totals sales and transactions across tenders', () => {
+      expect(reconciliation.sales.total).toBe(2450);
+      expect(reconciliation.sales.transactions).toBe(18);
+      expect(reconciliation.totals.creditRefundsGiven).toBe(30);
+    });
+
+    it('leaves the bank difference open until a statement balance is given', () => {
+      const unstated = reconcileDay(records, { ...declared, actualBankBalance: undefined });
+      expect(unstated.bank.actual).toBeNull();
+      expect(unstated.bank.difference).toBeNull();
+    });
+
+    it('takes cash back from the bank when the transfer is negative', () => {
+      const back = reconcileDay(records, { ...declared, bankTransfers: -500 });
+      expect(back.cash.expected).toBe(1180);
+      expect(back.bank.expected).toBe(11040);
+    });
+  });
+
+  describe('Declared movements', () => {
+    it('reads amounts from query strings and defaults the rest to zero', () => {
+      const parsed = declaredMovementsSchema.parse({ ownerDeposits: '12.50', bankTransfers: '-40' });
+      expect(parsed.ownerDeposits).toBe(12.5);
+      expect(parsed.bankTransfers).toBe(-40);
+      expect(parsed.expensePayments).toBe(0);
+      expect(parsed.actualBankBalance).toBeUndefined();
+    });
+
+    it('rejects negative amounts other than transfers', () => {
+      expect(declaredMovementsSchema.safeParse({ ownerWithdrawals: -1 }).success).toBe(false);
+    });
+  });
+
+  describe('Recorded movements', () => {
+    it('sorts owner, expense and bank movements into cash and bank', () => {
+      const totals = totalRecordedMovements([
+        { type: 'owner_deposit', paymentMethod: 'cash', direction: 'in', amount: '100.00' },
+        { type: 'owner_deposit', paymentMethod: 'bank_debit', direction: 'in', amount: '200.00' },
+        { type: 'owner_withdrawal', paymentMethod: 'cash', direction: 'out', amount: '50.00' },
+        { type: 'expense_payment', paymentMethod: 'cash', direction: 'out', amount: '25.00' },
+        { type: 'expense_payment', paymentMethod: 'credit_card', direction: 'out', amount: '40.00' },
+        { type: 'bank_transfer', paymentMethod: 'cash', direction: 'out', amount: '300.00' },
+        { type: 'bank_transfer', paymentMethod: 'cash', direction: 'in', amount: '120.00' },
+      ]);
+
+      expect(totals).toEqual({
+        ownerDeposits: 100,
+        ownerWithdrawals: 50,
+        ownerBankDeposits: 200,
+        ownerBankWithdrawals: 0,
+        expensePayments: 25,
+        bankWithdrawals: 40,
+        bankTransfers: 180,
+      });
+    });
+
+    it('leaves supplier payments and drawer movements to their own ledgers', () => {
+      const totals = totalRecordedMovements([
+        { type: 'supplier_payment', paymentMethod: 'cash', direction: 'out', amount: '999.00' },
+        { type: 'paid_out', paymentMethod: 'cash', direction: 'out', amount: '15.00' },
+      ]);
+      expect(Object.values(totals).every((value) => value === 0)).toBe(true);
+    });
+  });
+
+  describe('Submitted totals', () => {
+    it('flags figures a cent or more away and ignores fields not sent', () => {
+      const mismatches = totalMismatches(
+        { expectedCash: '680.00', cashSales: '1200.004', totalSales: '2400.00', openingCash: '' },
+        { expectedCash: 680, cashSales: 1200, totalSales: 2450, openingCash: 500, cardSales: 800 },
+      );
+      expect(mismatches).toEqual([{ field: 'totalSales', submitted: 2400, expected: 2450 }]);
+    });
+
+    it('flags figures that are not numbers', () => {
+      expect(totalMismatches({ expectedCash: 'abc' }, { expectedCash: 680 })).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Test Suite for Day Records
+ *
+ * Covers reading the records a day close reconciles against: which sales,
+ * refunds, credit, supplier payments and movements belong to the day and its
+ * store, how they are totalled by payment method, and the close preview built
+ * from them. Reads are answered by a stand-in executor, so this runs without
+ * a database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import {
+  cashCounts,
+  cashMovements,
+  creditTransactions,
+  currencyRates,
+  dayOperations,
+  drawerSessions,
+  returns,
+  supplierPayments,
+  transactions,
+} from '../shared/schema';
+import { reconcileDay, type DeclaredMovements } from '../server/modules/till/reconciliation';
+import { getDayRecords, previewDayClose } from '../server/modules/till/storage';
+
+// Rows each read answers with, per table in the order they are read, and the conditions read with
+const reads = vi.hoisted(() => ({
+  rows: new Map<unknown, unknown[][]>(),
+  made: [] as Array<{ table: unknown; where?: unknown }>,
+}));
+vi.mock('../server/db', () => {
+  const from = (table: unknown): any => {
+    const read: { table: unknown; where?: unknown } = { table };
+    reads.made.push(read);
+    const builder: any = new Proxy({}, {
+      get: (_target, key) => {
+        if (key === 'then') {
+          return (resolve: (value: unknown) => void, reject: (error: unknown) => void) =>
+            Promise.resolve(reads.rows.get(table)?.shift() ?? []).then(resolve, reject);
+        }
+        if (key === 'where') {
+          return (condition: unknown) => {
+            read.where = condition;
+            return builder;
+          };
+        }
+        return () => builder;
+      },
+    });
+    return builder;
+  };
+  return { db: { select: () => ({ from }) }, pool: {} };
+});
+
+const dialect = new PgDialect();
+// The condition of each read of a table, as the SQL it would send
+const conditions = (table: unknown) =>
+  reads.made.filter((read) => read.table === table).map((read) => dialect.sqlToQuery(read.where as SQL));
+
+const day = { id: 3, storeId: 4, date: '2091-03-14', openingCash: '500.00', openingBankBalance: '10000.00', baseCurrency: 'QAR' };
+
+// What each table answers for one read of the day's records
+const seed = () => {
+  reads.made = [];
+  reads.rows = new Map<unknown, unknown[][]>([
+    // Once for the day itself and once for its currencies
+    [dayOperations, [[day], [day]]],
+    [drawerSessions, [[{ id: 11 }, { id: 12 }], [{ id: 11 }, { id: 12 }]]],
+    [transactions, [
+      [
+        { method: 'cash', total: '1200.00', count: 3 },
+        { method: 'card', total: '800.00', count: 2 },
+        { method: 'credit', total: '300.00', count: 1 },
+        { method: 'voucher', total: '25.00', count: 1 },
+      ],
+      [{ currency: 'USD', total: '100.00', inBase: '364.00' }],
+    ]],
+    [cashCounts, [[{ currency: 'USD', denomination: '20', quantity: 5 }]]],
+    [currencyRates, [[]]],
+    [returns, [[{ method: 'cash', total: '50.00' }, { method: 'card', total: '40.00' }]]],
+    [creditTransactions, [[
+      { type: 'payment', method: 'cash', total: '120.00' },
+      { type: 'payment', method: 'card', total: '60.00' },
+      { type: 'payment', method: 'bank_transfer', total: '999.00' },
+      { type: 'refund', method: 'cash', total: '20.00' },
+      { type: 'refund', method: 'card', total: '10.00' },
+    ]]],
+    [supplierPayments, [[{ method: 'cash', total: '200.00' }, { method: 'card', total: '90.00' }]]],
+    [cashMovements, [
+      [
+        { type: 'owner_withdrawal', paymentMethod: 'cash', direction: 'out', amount: '50.00' },
+        { type: 'expense_payment', paymentMethod: 'cash', direction: 'out', amount: '25.00' },
+      ],
+      [{ type: 'paid_in', amount: '30.00' }, { type: 'cash_drop', amount: '400.00' }],
+    ]],
+  ]);
+};
+
+describe('Day Records', () => {
+  beforeEach(seed);
+
+  it('totals the day by payment method, with unknown methods as split', async () => {
+    expect(await getDayRecords(day.id)).toMatchObject({
+      openingCash: 500,
+      openingBankBalance: 10000,
+      sales: { cash: 1200, card: 800, credit: 300, split: 25 },
+      salesCounts: { cash: 3, card: 2, credit: 1, split: 1 },
+      foreignCashSalesInBase: 364,
+      saleRefunds: { cash: 50, card: 40 },
+      creditPayments: { cash: 120, card: 60 },
+      creditRefunds: { cash: 20, card: 10 },
+      supplierPayments: { cash: 200, card: 90 },
+      drawer: { paidIn: 30, paidOut: 0, dropped: 400, pickedUp: 0 },
+      recorded: { ownerWithdrawals: 50, expensePayments: 25 },
+    });
+  });
+
+  it("counts sales in the day's drawers, and sales without a register by their date", async () => {
+    await getDayRecords(day.id);
+
+    const sales = conditions(transactions);
+    expect(sales).toHaveLength(2);
+    for (const { sql, params } of sales) {
+      expect(sql).toContain('"transactions"."drawer_session_id" in ($1, $2) or ("transactions"."drawer_session_id" is null and "transactions"."store_id" = $3');
+      expect(params.slice(0, 4)).toEqual([11, 12, 4, '2091-03-14']);
+    }
+    expect(conditions(drawerSessions).map(({ params }) => params)).toEqual([[3], [3]]);
+  });
+
+  it('leaves voided sales out', async () => {
+    await getDayRecords(day.id);
+
+    for (const { sql, params } of conditions(transactions)) {
+      expect(sql).toMatch(/"transactions"."status" in \(\$\d, \$\d\)/);
+      expect(params).toEqual(expect.arrayContaining(['completed', 'refunded']));
+    }
+  });
+
+  it("takes the cash and card refunds booked to the day, whatever the sale's date", async () => {
+    await getDayRecords(day.id);
+
+    const [refunds] = conditions(returns);
+    expect(refunds.sql).toBe('("returns"."day_operation_id" = $1 and "returns"."refund_method" in ($2, $3))');
+    expect(refunds.params).toEqual([3, 'cash', 'card']);
+  });
+
+  it("takes credit paid or refunded that day on the store's sales, or on its customers' accounts", async () => {
+    await getDayRecords(day.id);
+
+    const [credit] = conditions(creditTransactions);
+    expect(credit.sql).toContain('DATE("credit_transactions"."created_at") = $3');
+    expect(credit.sql).toContain(
+      '("transactions"."store_id" = $4 or ("credit_transactions"."transaction_id" is null and "customers"."store_id" = $5))',
+    );
+    expect(credit.params).toEqual(['payment', 'refund', '2091-03-14', 4, 4]);
+  });
+
+  it("takes only the store's own supplier payments, on the day's date", async () => {
+    await getDayRecords(day.id);
+
+    const [payments] = conditions(supplierPayments);
+    expect(payments.sql).toContain('"supplier_payments"."store_id" = $1 and DATE("supplier_payments"."payment_date") = $2');
+    expect(payments.params.slice(0, 2)).toEqual([4, '2091-03-14']);
+  });
+
+  it("keeps the day's own movements apart from the ones made through its drawers", async () => {
+    await getDayRecords(day.id);
+
+    const [recorded, drawer] = conditions(cashMovements);
+    expect(recorded.sql).toBe('("cash_movements"."day_operation_id" = $1 and "cash_movements"."drawer_session_id" is null)');
+    expect(recorded.params).toEqual([3]);
+    expect(drawer.sql).toContain('"cash_movements"."day_operation_id" = $1');
+    expect(drawer.params[0]).toBe(3);
+  });
+
+  it('previews the close from the records and the declared movements', async () => {
+    const declared: DeclaredMovements = {
+      ownerDeposits: 100,
+      ownerWithdrawals: 0,
+      ownerBankDeposits: 500,
+      ownerBankWithdrawals: 0,
+      expensePayments: 10,
+      bankWithdrawals: 70,
+      bankTransfers: 0,
+      actualBankBalance: 11600,
+    };
+    const preview = await previewDayClose(day.id, declared);
+
+    seed();
+    const records = await getDayRecords(day.id);
+    expect(preview).toEqual(reconcileDay(records!, declared));
+  });
+
+  it('returns nothing for a day that does not exist', async () => {
+    reads.rows.set(dayOperations, [[]]);
+
+    expect(await getDayRecords(99)).toBeUndefined();
+    expect(reads.made).toHaveLength(1);
+
+    reads.rows.set(dayOperations, [[]]);
+    expect(await previewDayClose(99, {} as DeclaredMovements)).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Test Suite for Drawer Movements
+ *
+ * Covers validating mid-shift cash drops, pickups, paid-ins and paid-outs,
+ * their direction and ledger line, the drawer ceiling prompt and the day's
+ * totals the day close takes from them.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  drawerMovementDescription,
+  drawerMovementDirection,
+  drawerMovementSchema,
+  isOverCeiling,
+  totalDrawerMovements,
+} from '../server/modules/till/movements';
+import { expectedDrawerCash } from '../server/modules/till/drawers';
+
+describe('Drawer Movements', () => {
+  describe('Validation', () => {
+    it('accepts a drop with one of its reasons', () => {
+      const parsed = drawerMovementSchema.parse({ type: 'cash_drop', amount: '500', reasonCode: 'over_ceiling' });
+      expect(parsed).toMatchObject({ type: 'cash_drop', amount: 500, reasonCode: 'over_ceiling' });
+    });
+
+    it('rejects a reason that belongs to another movement', () => {
+      const result = drawerMovementSchema.safeParse({ type: 'paid_in', amount: 20, reasonCode: 'supplier_delivery' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('That reason does not apply to this movement');
+        expect(result.error.errors[0].path).toEqual(['reasonCode']);
+      }
+    });
+
+    it('rejects zero amounts and unknown movement types', () => {
+      const zero = drawerMovementSchema.safeParse({ type: 'paid_out', amount: 0, reasonCode: 'other' });
+      expect(zero.success).toBe(false);
+      if (!zero.success) expect(zero.error.errors[0].message).toBe('Enter an amount above zero');
+      expect(drawerMovementSchema.safeParse({ type: 'owner_withdrawal', amount: 10, reasonCode: 'other' }).success).toBe(false);
+    });
+  });
+
+  describe('Recording', () => {
+    it('takes paid-ins into the drawer and everything else out of it', () => {
+      expect(drawerMovementDirection('paid_in')).toBe('in');
+      expect(drawerMovementDirection('paid_out')).toBe('out');
+      expect(drawerMovementDirection('cash_drop')).toBe('out');
+      expect(drawerMovementDirection('cash_pickup')).toBe('out');
+    });
+
+    it('describes the movement from its type, reason and note', () => {
+      expect(drawerMovementDescription({ type: 'paid_out', reasonCode: 'supplier_delivery', note: 'Bread' }))
+        .toBe('Paid out: supplier delivery - Bread');
+      expect(drawerMovementDescription({ type: 'cash_drop', reasonCode: 'scheduled' })).toBe('Cash drop: scheduled');
+    });
+
+    it('lowers the drawer\'s expected cash by drops and paid-outs', () => {
+      const cash = { openingFloat: 200, cashSales: 1800, cashRefunds: 0, cashIn: 50, cashOut: 1000 + 75 };
+      expect(expectedDrawerCash(cash)).toBe(975);
+    });
+  });
+
+  describe('Cash ceiling', () => {
+    it('prompts once the drawer holds more than its ceiling', () => {
+      expect(isOverCeiling(1500.01, 1500)).toBe(true);
+      expect(isOverCeiling(1500, 1500)).toBe(false);
+    });
+
+    it('never prompts without a ceiling', () => {
+      expect(isOverCeiling(99999, null)).toBe(false);
+      expect(isOverCeiling(99999, 0)).toBe(false);
+    });
+  });
+
+  describe('Day totals', () => {
+    it('totals each kind of movement and ignores other cash movements', () => {
+      expect(
+        totalDrawerMovements([
+          { type: 'cash_drop', amount: '1000.00' },
+          { type: 'cash_drop', amount: '500.50' },
+          { type: 'cash_pickup', amount: 300 },
+          { type: 'paid_in', amount: '50.00' },
+          { type: 'paid_out', amount: '75.25' },
+          { type: 'owner_withdrawal', amount: '400.00' },
+        ]),
+      ).toEqual({ paidIn: 50, paidOut: 75.25, dropped: 1500.5, pickedUp: 300 });
+    });
+
+    it('is all zeros for a day without movements', () => {
+      expect(totalDrawerMovements([])).toEqual({ paidIn: 0, paidOut: 0, dropped: 0, pickedUp: 0 });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Test Suite for Invoice and Receipt PDFs
+ *
+ * Layout is checked with a fixed-width measurer so page breaks and positions
+ * are stable regardless of fonts; rendering is checked for reproducible bytes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  layoutInvoice,
+  layoutReceipt,
+  splitDirectionalRuns,
+  wrapText,
+  type PdfLayout,
+  type SalesDocument,
+  type TextMeasurer,
+} from '../server/modules/invoices/pdf-layout';
+import { renderInvoicePdf } from '../server/modules/invoices/pdf-renderer';
+
+const measurer: TextMeasurer = {
+  widthOf: (text, size) => Array.from(text).length * size * 0.5,
+};
+
+const makeDocument = (lineCount: number): SalesDocument => ({
+  number: 'INV-2024-0001',
+  issuedAt: new Date('2024-03-10T09:30:00Z'),
+  timezone: 'Asia/Qatar',
+  currency: 'QAR',
+  store: {
+    name: 'Main Store',
+    nameAr: 'المتجر الرئيسي',
+    address: 'Salwa Road, Doha',
+    addressAr: 'طريق سلوى، الدوحة',
+    phone: '+974 4400 0000',
+    email: 'main@example.com',
+    logoPath: null,
+  },
+  customer: { name: 'Ahmed Ali', phone: '+974 5555 0000' },
+  payment: { method: 'cash', cashTendered: 100, cardType: null },
+  lines: Array.from({ length: lineCount }, (_, i) => ({
+    description: `Product ${i + 1}`,
+    sku: `SKU-${i + 1}`,
+    quantity: 1,
+    unitPrice: 2.5,
+    total: 2.5,
+  })),
+  totals: { subtotal: lineCount * 2.5, discount: 0, vat: 0, total: lineCount * 2.5 },
+});
+
+const textsOn = (layout: PdfLayout, pageIndex: number) =>
+  layout.pages[pageIndex].ops.flatMap((op) => (op.type === 'text' ? [op.text] : []));
+
+describe('Invoice PDF', () => {
+  describe('Directional runs', () => {
+    it('keeps plain English as a single left-to-right run', () => {
+      expect(splitDirectionalRuns('Invoice No.')).toEqual([{ text: 'Invoice No.', rtl: false }]);
+    });
+
+    it('orders mixed English and Arabic labels visually', () => {
+      expect(splitDirectionalRuns('Total / المجموع')).toEqual([
+        { text: 'Total / ', rtl: false },
+        { text: 'المجموع', rtl: true },
+      ]);
+    });
+
+    it('places the later run first in an Arabic paragraph', () => {
+      const runs = splitDirectionalRuns('هاتف 4400');
+      expect(runs.map((run) => run.rtl)).toEqual([false, true]);
+      expect(runs.map((run) => run.text).join('')).toContain('4400');
+    });
+  });
+
+  describe('Word wrapping', () => {
+    it('wraps on word boundaries', () => {
+      expect(wrapText('one two three', 40, 10, 'regular', measurer)).toEqual(['one two', 'three']);
+    });
+
+    it('breaks words that are wider than the line', () => {
+      expect(wrapText('abcdefghij', 20, 10, 'regular', measurer)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+  });
+
+  describe('Invoice layout', () => {
+    it('is identical for the same document', () => {
+      expect(layoutInvoice(makeDocument(3), measurer)).toEqual(layoutInvoice(makeDocument(3), measurer));
+    });
+
+    it('matches the reference layout', () => {
+      expect(layoutInvoice(makeDocument(3), measurer)).toMatchSnapshot();
+    });
+
+    it('fits a short invoice on one page', () => {
+      const layout = layoutInvoice(makeDocument(3), measurer);
+      expect(layout.pages).toHaveLength(1);
+      expect(textsOn(layout, 0)).toContain('Page 1 of 1');
+    });
+
+    it('breaks long invoices across pages and repeats the table header', () => {
+      const layout = layoutInvoice(makeDocument(80), measurer);
+      expect(layout.pages.length).toBeGreaterThan(1);
+
+      layout.pages.forEach((_, index) => {
+        const texts = textsOn(layout, index);
+        expect(texts).toContain(`Page ${index + 1} of ${layout.pages.length}`);
+        if (texts.some((text) => text.startsWith('Product '))) {
+          expect(texts).toContain('Description');
+        }
+      });
+
+      expect(textsOn(layout, 1).some((text) => text.includes('continued'))).toBe(true);
+      const lastPage = textsOn(layout, layout.pages.length - 1);
+      expect(lastPage.some((text) => text.startsWith('Total'))).toBe(true);
+      expect(lastPage).toContain('QR 200.00');
+    });
+
+    it('lists every line exactly once across pages', () => {
+      const layout = layoutInvoice(makeDocument(80), measurer);
+      const descriptions = layout.pages
+        .flatMap((_, index) => textsOn(layout, index))
+        .filter((text) => /^Product \d+$/.test(text));
+      expect(descriptions).toHaveLength(80);
+    });
+
+    it('includes the Arabic store details', () => {
+      const texts = textsOn(layoutInvoice(makeDocument(1), measurer), 0);
+      expect(texts).toContain('المتجر الرئيسي');
+      expect(texts).toContain('طريق سلوى، الدوحة');
+    });
+  });
+
+  describe('Receipt layout', () => {
+    it('uses a single page sized to its content', () => {
+      const short = layoutReceipt(makeDocument(2), measurer);
+      const long = layoutReceipt(makeDocument(20), measurer);
+      expect(short.pages).toHaveLength(1);
+      expect(long.pages).toHaveLength(1);
+      expect(long.pages[0].height).toBeGreaterThan(short.pages[0].height);
+    });
+  });
+
+  describe('Rendering', () => {
+    it('produces the same PDF bytes for the same invoice', async () => {
+      const first = await renderInvoicePdf(makeDocument(40));
+      const second = await renderInvoicePdf(makeDocument(40));
+      expect(first.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(first.equals(second)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Test Suite for Offline Sale Sync
+ *
+ * Covers validation of queued offline sales, the conflict rules applied
+ * before a sale is replayed against the server, and the replay itself
+ * against a stubbed storage layer.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  evaluateOfflineSale,
+  offlineSaleSchema,
+  offlineSyncRequestSchema,
+  MAX_SYNC_BATCH_SIZE,
+  type OfflineSale,
+  type OfflineSaleContext,
+} from '../server/modules/transactions/offline-sync';
+import { PromotionUnavailableError } from '../server/modules/promotion/coupons';
+import { isTransactionNumberCollision, syncOfflineSale } from '../server/modules/transactions/service';
+import { storage } from '../server/storage';
+
+// Replaying a sale must not touch the database
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+vi.mock('../server/storage', () => ({
+  storage: {
+    getTransactionByIdempotencyKey: vi.fn(),
+    getStore: vi.fn(),
+    getOpenDayOperation: vi.fn(),
+    getDayOperationByDate: vi.fn(),
+    getProductsForSale: vi.fn(),
+    getCustomer: vi.fn(),
+    checkPromotionRedemption: vi.fn(),
+    checkPromotionPricing: vi.fn(),
+    getStoreSpecificPrice: vi.fn(),
+    redeemApprovals: vi.fn(),
+    resolveDrawerSession: vi.fn(),
+    generateTransactionNumber: vi.fn(),
+    createSyncedSale: vi.fn(),
+  },
+}));
+
+const baseSale = (overrides: Record<string, unknown> = {}): OfflineSale =>
+  offlineSaleSchema.parse({
+    idempotencyKey: 'c0ffee00-0000-4000-8000-000000000001',
+    storeId: 1,
+    capturedAt: '2025-03-10T09:15:00.000Z',
+    paymentMethod: 'cash',
+    total: '15.00',
+    items: [
+      { productId: 10, quantity: 2, unitPrice: '5.00', total: '10.00' },
+      { productId: 11, quantity: 1, unitPrice: '5.00', total: '5.00' },
+    ],
+    ...overrides,
+  });
+
+const baseContext = (overrides: Partial<OfflineSaleContext> = {}): OfflineSaleContext => ({
+  saleDate: '2025-03-10',
+  openDay: { date: '2025-03-10' },
+  dayForSaleDate: { status: 'open' },
+  products: [
+    { id: 10, name: 'Milk 1L', isActive: true, storeActive: true },
+    { id: 11, name: 'Bread', isActive: true, storeActive: null },
+  ],
+  customerFound: false,
+  ...overrides,
+});
+
+describe('Offline Sale Sync', () => {
+  describe('Payload validation', () => {
+    it('accepts a sale queued by the POS and keeps its transaction fields', () => {
+      const sale = baseSale({ currency: 'QAR' });
+      expect(sale.capturedAt).toBeInstanceOf(Date);
+      expect(sale.currency).toBe('QAR');
+      expect(sale.items[0].unitPrice).toBe('5.00');
+    });
+
+    it('drops fields the POS does not send, including the cashier', () => {
+      const sale = baseSale({ cashierId: 99, transactionNumber: 'TXN-1', items: [{ productId: 10, quantity: 1, unitCost: '1.00' }] });
+      expect(sale).not.toHaveProperty('cashierId');
+      expect(sale).not.toHaveProperty('transactionNumber');
+      expect(sale.items[0]).not.toHaveProperty('unitCost');
+    });
+
+    it('requires an idempotency key', () => {
+      const result = offlineSaleSchema.safeParse({ ...baseSale(), idempotencyKey: undefined });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects sales without items or with non-positive quantities', () => {
+      expect(offlineSaleSchema.safeParse({ ...baseSale(), items: [] }).success).toBe(false);
+      expect(
+        offlineSaleSchema.safeParse({ ...baseSale(), items: [{ productId: 10, quantity: 0 }] }).success
+      ).toBe(false);
+    });
+
+    it('caps the number of sales per sync request', () => {
+      const sales = Array.from({ length: MAX_SYNC_BATCH_SIZE + 1 }, () => ({}));
+      expect(offlineSyncRequestSchema.safeParse({ sales }).success).toBe(false);
+      expect(offlineSyncRequestSchema.safeParse({ sales: [] }).success).toBe(false);
+    });
+  });
+
+  describe('Conflict detection', () => {
+    it('accepts a sale for the open day with active products', () => {
+      expect(evaluateOfflineSale(baseSale(), baseContext())).toEqual([]);
+    });
+
+    it('reports a closed day for the sale date', () => {
+      const conflicts = evaluateOfflineSale(
+        baseSale(),
+        baseContext({ openDay: { date: '2025-03-11' }, dayForSaleDate: { status: 'closed' } })
+      );
+      expect(conflicts.map((c) => c.code)).toEqual(['DAY_CLOSED']);
+    });
+
+    it('reports when no day is open', () => {
+      const conflicts = evaluateOfflineSale(baseSale(), baseContext({ openDay: null, dayForSaleDate: null }));
+      expect(conflicts.map((c) => c.code)).toEqual(['DAY_NOT_OPEN']);
+    });
+
+    it('reports a sale captured on a different day than the open one', () => {
+      const conflicts = evaluateOfflineSale(
+        baseSale(),
+        baseContext({ openDay: { date: '2025-03-11' }, dayForSaleDate: null })
+      );
+      expect(conflicts.map((c) => c.code)).toEqual(['DATE_MISMATCH']);
+    });
+
+    it('reports deactivated and missing products once each', () => {
+      const sale = baseSale({
+        items: [
+          { productId: 10, quantity: 1 },
+          { productId: 10, quantity: 3 },
+          { productId: 12, quantity: 1 },
+        ],
+      });
+      const conflicts = evaluateOfflineSale(
+        sale,
+        baseContext({ products: [{ id: 10, name: 'Milk 1L', isActive: true, storeActive: false }] })
+      );
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({ code: 'PRODUCT_INACTIVE', productId: 10 }),
+        expect.objectContaining({ code: 'PRODUCT_NOT_FOUND', productId: 12 }),
+      ]);
+    });
+
+    it('requires a known customer for credit sales', () => {
+      expect(
+        evaluateOfflineSale(baseSale({ paymentMethod: 'credit' }), baseContext()).map((c) => c.code)
+      ).toEqual(['CUSTOMER_NOT_FOUND']);
+      expect(
+        evaluateOfflineSale(baseSale({ paymentMethod: 'credit', customerId: 5 }), baseContext()).map((c) => c.code)
+      ).toEqual(['CUSTOMER_NOT_FOUND']);
+      expect(
+        evaluateOfflineSale(baseSale({ paymentMethod: 'credit', customerId: 5 }), baseContext({ customerFound: true }))
+      ).toEqual([]);
+    });
+
+    it('collects every conflict in a single pass', () => {
+      const conflicts = evaluateOfflineSale(
+        baseSale(),
+        baseContext({ openDay: null, dayForSaleDate: null, products: [] })
+      );
+      expect(conflicts.map((c) => c.code)).toEqual(['DAY_NOT_OPEN', 'PRODUCT_NOT_FOUND', 'PRODUCT_NOT_FOUND']);
+    });
+  });
+
+  describe('Transaction number collisions', () => {
+    it('retries only when the transaction number was taken', () => {
+      expect(isTransactionNumberCollision({ code: '23505', constraint: 'transactions_transaction_number_unique' })).toBe(true);
+      expect(isTransactionNumberCollision({ code: '23505', constraint: 'transactions_idempotency_key_unique' })).toBe(false);
+      expect(isTransactionNumberCollision({ code: '23505' })).toBe(false);
+      expect(isTransactionNumberCollision(new Error('connection reset'))).toBe(false);
+    });
+  });
+
+  describe('Replay', () => {
+    const mocked = vi.mocked(storage);
+    const cashier = { id: 7, role: 'cashier' };
+    const options = { accessibleStoreIds: new Set([1]), user: cashier };
+
+    beforeEach(() => {
+      vi.resetAllMocks();
+      mocked.getTransactionByIdempotencyKey.mockResolvedValue(undefined);
+      mocked.getStore.mockResolvedValue({ id: 1, settings: { timezone: 'UTC' } } as any);
+      mocked.getOpenDayOperation.mockResolvedValue({ date: '2025-03-10' } as any);
+      mocked.getDayOperationByDate.mockResolvedValue({ status: 'open' } as any);
+      mocked.getProductsForSale.mockResolvedValue([
+        { id: 10, name: 'Milk 1L', isActive: true, storeActive: true },
+        { id: 11, name: 'Bread', isActive: true, storeActive: true },
+      ] as any);
+      mocked.checkPromotionRedemption.mockResolvedValue(null);
+      mocked.checkPromotionPricing.mockResolvedValue(null);
+      mocked.getStoreSpecificPrice.mockResolvedValue('5.00');
+      mocked.resolveDrawerSession.mockResolvedValue({ success: true, data: null });
+      mocked.generateTransactionNumber.mockResolvedValue('TXN-100');
+      mocked.createSyncedSale.mockImplementation(async (transaction: any, items: any) => ({
+        duplicate: false,
+        transaction: { id: 1, ...transaction },
+        transactionItems: items,
+      }));
+    });
+
+    const rawSale = (overrides: Record<string, unknown> = {}) => ({
+      idempotencyKey: 'c0ffee00-0000-4000-8000-000000000002',
+      storeId: 1,
+      capturedAt: '2025-03-10T09:15:00.000Z',
+      paymentMethod: 'cash',
+      subtotal: '15.00',
+      tax: '0.00',
+      discountAmount: '0.00',
+      total: '15.00',
+      status: 'completed',
+      items: [
+        { productId: 10, quantity: 2, unitPrice: '5.00', total: '10.00' },
+        { productId: 11, quantity: 1, unitPrice: '5.00', total: '5.00' },
+      ],
+      ...overrides,
+    });
+
+    it('books the sale under the user who syncs it, whatever cashier it names', async () => {
+      const result = await syncOfflineSale(rawSale({ cashierId: 99 }), options);
+
+      expect(result.status).toBe('created');
+      expect(mocked.createSyncedSale.mock.calls[0][0]).toMatchObject({ cashierId: 7 });
+    });
+
+    it('holds back a sale with a manual discount until a manager approves it', async () => {
+      mocked.redeemApprovals.mockImplementation(async ([demand]) => ({
+        code: 'APPROVAL_REQUIRED',
+        message: 'Discount needs manager approval',
+        action: demand.action,
+        amount: demand.amount,
+        transactionId: null,
+      }));
+
+      const result = await syncOfflineSale(rawSale({ discountAmount: '5.00', total: '10.00' }), options);
+
+      expect(result).toMatchObject({
+        status: 'conflict',
+        conflicts: [{ code: 'APPROVAL_REQUIRED', approval: { action: 'discount', amount: 5, transactionId: null } }],
+      });
+      expect(mocked.createSyncedSale).not.toHaveBeenCalled();
+    });
+
+    it('holds back a line sold below the store price', async () => {
+      mocked.redeemApprovals.mockImplementation(async ([demand]) => ({
+        code: 'APPROVAL_REQUIRED',
+        message: 'Price change needs manager approval',
+        action: demand.action,
+        amount: demand.amount,
+        transactionId: null,
+      }));
+
+      const result = await syncOfflineSale(
+        rawSale({ items: [{ productId: 10, quantity: 1, unitPrice: '3.00', total: '3.00' }] }),
+        options,
+      );
+
+      expect(result).toMatchObject({ status: 'conflict', conflicts: [{ code: 'APPROVAL_REQUIRED', approval: { action: 'price_override' } }] });
+    });
+
+    it('records the sale once the approval token it was retried with is redeemed', async () => {
+      mocked.redeemApprovals.mockResolvedValue(null);
+
+      const result = await syncOfflineSale(rawSale({ discountAmount: '5.00', total: '10.00', approvalTokens: ['tok-1'] }), options);
+
+      expect(result.status).toBe('created');
+      expect(mocked.redeemApprovals.mock.calls[0][1]).toEqual(['tok-1']);
+    });
+
+    it('records the promotion usage in the same write as the sale', async () => {
+      const appliedPromotions = [{ promotionId: 5, discountAmount: 1.5 }];
+      await syncOfflineSale(rawSale({ appliedPromotions }), options);
+
+      expect(mocked.createSyncedSale.mock.calls[0][2]).toMatchObject({ storeId: 1, appliedPromotions });
+    });
+
+    it("prices the sale's promotions again and holds back a discount they do not give", async () => {
+      mocked.checkPromotionPricing.mockResolvedValue({
+        code: 'PRICE_CHANGED',
+        message: 'The promotions on this sale come to 1.50, not 9.00; price the cart again',
+      });
+      const appliedPromotions = [{ promotionId: 5, discountAmount: 9 }];
+
+      const result = await syncOfflineSale(rawSale({ appliedPromotions, promotionDiscountAmount: '9.00' }), options);
+
+      expect(mocked.checkPromotionPricing.mock.calls[0].slice(1)).toEqual([
+        [expect.objectContaining({ productId: 10, quantity: 2 }), expect.objectContaining({ productId: 11, quantity: 1 })],
+        9,
+      ]);
+      expect(result).toMatchObject({ status: 'conflict', conflicts: [{ code: 'PROMOTION_UNAVAILABLE' }] });
+      expect(mocked.createSyncedSale).not.toHaveBeenCalled();
+    });
+
+    it('holds back a sale whose promotion another till used up while it synced', async () => {
+      mocked.createSyncedSale.mockRejectedValue(
+        new PromotionUnavailableError({ code: 'USED_UP', message: 'This coupon has already been used' }),
+      );
+
+      const result = await syncOfflineSale(rawSale(), options);
+
+      expect(result).toMatchObject({
+        status: 'conflict',
+        conflicts: [{ code: 'PROMOTION_UNAVAILABLE', message: 'This coupon has already been used' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Test Suite for Product Identifiers
+ *
+ * Covers normalising and checking extra barcodes, supplier item codes and
+ * competitor SKUs, looking codes up, matching scanned invoice lines by code
+ * before AI, and the codes a saved invoice confirms.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  invoiceLineCodes,
+  lookupCode,
+  matchInvoiceLines,
+  normaliseIdentifierCode,
+  productIdentifierSchema,
+  type CodeBook,
+} from '../server/modules/inventory/identifiers';
+
+const book: CodeBook = {
+  barcodes: new Map([['6281234567890', 1], ['5000000000011', 2]]),
+  codes: new Map([['AB-100', 3], ['CX 22', 2]]),
+};
+const catalogue = [
+  { id: 1, name: 'Water 500ml' },
+  { id: 2, name: 'Juice 1L' },
+  { id: 3, name: 'Rice 5kg' },
+];
+
+describe('Product Identifiers', () => {
+  describe('Normalising codes', () => {
+    it('strips every space from barcodes', () => {
+      expect(normaliseIdentifierCode('barcode', ' 628 1234 567890 ')).toBe('6281234567890');
+    });
+
+    it('trims, collapses spaces and upper-cases item codes and SKUs', () => {
+      expect(normaliseIdentifierCode('supplier_code', '  ab   12 ')).toBe('AB 12');
+      expect(normaliseIdentifierCode('competitor_sku', 'sku-9')).toBe('SKU-9');
+    });
+  });
+
+  describe('Checking new codes', () => {
+    it('accepts a barcode without an owner and drops any owner given', () => {
+      const parsed = productIdentifierSchema.parse({ type: 'barcode', code: '628 123', supplierId: 4 });
+      expect(parsed).toEqual({ type: 'barcode', code: '628123', supplierId: null, competitorId: null });
+    });
+
+    it('requires the supplier for a supplier item code', () => {
+      const result = productIdentifierSchema.safeParse({ type: 'supplier_code', code: 'ab-1' });
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.errors[0].message).toBe('Choose the supplier the code is from');
+    });
+
+    it('requires the competitor for a competitor SKU and keeps only it', () => {
+      expect(productIdentifierSchema.safeParse({ type: 'competitor_sku', code: 'x1' }).success).toBe(false);
+      const parsed = productIdentifierSchema.parse({ type: 'competitor_sku', code: 'x1', supplierId: 2, competitorId: 7 });
+      expect(parsed).toEqual({ type: 'competitor_sku', code: 'X1', supplierId: null, competitorId: 7 });
+    });
+
+    it('rejects empty codes and unknown types', () => {
+      expect(productIdentifierSchema.safeParse({ type: 'barcode', code: '   ' }).success).toBe(false);
+      expect(productIdentifierSchema.safeParse({ type: 'plu', code: '123' }).success).toBe(false);
+    });
+  });
+
+  describe('Looking codes up', () => {
+    it('finds a product by barcode or by the sender\'s own code', () => {
+      expect(lookupCode(book, { barcode: '628 1234567890' })).toEqual({ productId: 1, matchedBy: 'barcode' });
+      expect(lookupCode(book, { code: ' ab-100' })).toEqual({ productId: 3, matchedBy: 'code' });
+    });
+
+    it('prefers the sender\'s own code over the barcode', () => {
+      expect(lookupCode(book, { barcode: '6281234567890', code: 'cx  22' })).toEqual({ productId: 2, matchedBy: 'code' });
+    });
+
+    it('returns null for codes nobody has mapped', () => {
+      expect(lookupCode(book, { barcode: '999', code: 'NEW-1' })).toBeNull();
+      expect(lookupCode(book, {})).toBeNull();
+    });
+  });
+
+  describe('Matching scanned invoice lines', () => {
+    it('matches known codes without AI and keeps the line order', async () => {
+      const lines = [
+        { productName: 'Water', barcode: '6281234567890' },
+        { productName: 'Something new', itemCode: 'ZZ-1' },
+        { productName: 'Rice', itemCode: 'ab-100' },
+      ];
+      const matchRest = vi.fn(async (rest: typeof lines) =>
+        rest.map((line) => ({ invoiceItem: line, matchedProduct: null, matchConfidence: 0.4, action: 'create_new' })),
+      );
+
+      const matches = await matchInvoiceLines(lines, catalogue, book, matchRest);
+
+      expect(matchRest).toHaveBeenCalledTimes(1);
+      expect(matchRest.mock.calls[0][0]).toEqual([lines[1]]);
+      expect(matches.map((match) => match.matchedProduct?.id ?? null)).toEqual([1, null, 3]);
+      expect(matches[0]).toMatchObject({ matchConfidence: 1, matchedBy: 'barcode', action: 'match' });
+      expect(matches[2]).toMatchObject({ matchConfidence: 1, matchedBy: 'supplier_code', action: 'match' });
+      expect(matches[1].invoiceItem).toBe(lines[1]);
+    });
+
+    it('skips AI when every line is known', async () => {
+      const matchRest = vi.fn(async () => []);
+      const matches = await matchInvoiceLines([{ sku: 'CX 22' }], catalogue, book, matchRest);
+      expect(matchRest).not.toHaveBeenCalled();
+      expect(matches[0].matchedProduct).toEqual(catalogue[1]);
+    });
+
+    it('leaves a mapped code alone when its product is not in the catalogue', async () => {
+      const matchRest = vi.fn(async (rest: any[]) => rest.map((line) => ({ invoiceItem: line, matchedProduct: null })));
+      const matches = await matchInvoiceLines([{ barcode: '6281234567890' }], [catalogue[2]], book, matchRest);
+      expect(matchRest).toHaveBeenCalledTimes(1);
+      expect(matches[0].matchedProduct).toBeNull();
+    });
+  });
+
+  describe('Codes confirmed by a saved invoice', () => {
+    it('records the supplier item code and barcode of matched lines', () => {
+      const codes = invoiceLineCodes(
+        [
+          { productId: 3, itemCode: ' ab-100 ', barcode: '628 999' },
+          { productId: 2, sku: 'cx-9' },
+          { productId: null, itemCode: 'NEW', barcode: '111' },
+        ],
+        5,
+      );
+      expect(codes).toEqual([
+        { productId: 3, type: 'supplier_code', code: 'AB-100', supplierId: 5, competitorId: null },
+        { productId: 3, type: 'barcode', code: '628999', supplierId: null, competitorId: null },
+        { productId: 2, type: 'supplier_code', code: 'CX-9', supplierId: 5, competitorId: null },
+      ]);
+    });
+
+    it('records only barcodes when the supplier is unknown', () => {
+      expect(invoiceLineCodes([{ productId: 1, itemCode: 'A1', barcode: '123' }], null)).toEqual([
+        { productId: 1, type: 'barcode', code: '123', supplierId: null, competitorId: null },
+      ]);
+    });
+  });
+});
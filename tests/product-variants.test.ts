@@ -0,0 +1,117 @@
+/**
+ * Test Suite for Product Variants
+ *
+ * Covers naming and matching variants by their parent's attributes, the
+ * values the till's picker offers, checking the attribute, new variant and
+ * bulk edit forms, and rolling margins up from variants to their parent.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  axisValues,
+  checkVariantOptions,
+  findVariant,
+  isVariantParent,
+  variantLabel,
+  variantName,
+} from '../shared/variants';
+import { bulkVariantUpdateSchema, createVariantSchema, variantAxesSchema } from '../server/modules/inventory/variants';
+import { summariseMargins, type SoldLine } from '../server/modules/inventory/costing';
+
+const axes = ['size', 'flavour'];
+const variants = [
+  { id: 11, parentId: 10, variantOptions: { size: 'Small', flavour: 'Mango' } },
+  { id: 12, parentId: 10, variantOptions: { size: 'Large', flavour: 'Mango' } },
+  { id: 13, parentId: 10, variantOptions: { size: 'large', flavour: 'Orange' } },
+];
+
+describe('Product Variants', () => {
+  describe('Attributes', () => {
+    it('labels and names variants in the order of the attributes', () => {
+      expect(variantLabel(axes, { flavour: 'Mango', size: 'Large' })).toBe('Large / Mango');
+      expect(variantName('Juice', axes, { flavour: 'Mango', size: 'Large' })).toBe('Juice - Large / Mango');
+      expect(variantName('Juice', axes, {})).toBe('Juice');
+    });
+
+    it('needs a value for every attribute and nothing else', () => {
+      expect(checkVariantOptions(axes, { size: 'Large', flavour: 'Mango' })).toBeNull();
+      expect(checkVariantOptions(axes, { size: 'Large', flavour: ' ' })).toBe('Choose a flavour');
+      expect(checkVariantOptions(axes, { size: 'Large', flavour: 'Mango', colour: 'Red' })).toBe('colour is not one of this product\'s attributes');
+    });
+
+    it('tells parents from other products', () => {
+      expect(isVariantParent({ variantAxes: axes })).toBe(true);
+      expect(isVariantParent({ variantAxes: [] })).toBe(false);
+      expect(isVariantParent({ variantAxes: null })).toBe(false);
+    });
+  });
+
+  describe('Picking variants', () => {
+    it('finds a variant by its values, ignoring case', () => {
+      expect(findVariant(axes, variants, { size: 'LARGE', flavour: 'mango' })?.id).toBe(12);
+      expect(findVariant(axes, variants, { size: 'Small', flavour: 'Orange' })).toBeUndefined();
+    });
+
+    it('offers each value once, in the order first seen', () => {
+      expect(axisValues(axes, variants)).toEqual({ size: ['Small', 'Large'], flavour: ['Mango', 'Orange'] });
+    });
+  });
+
+  describe('Forms', () => {
+    it('lower-cases attributes and refuses repeats', () => {
+      expect(variantAxesSchema.parse({ axes: [' Size ', 'Flavour'] })).toEqual({ axes: ['size', 'flavour'] });
+      expect(variantAxesSchema.safeParse({ axes: ['size', 'SIZE'] }).error?.errors[0]?.message).toBe('Each attribute can only be listed once');
+      expect(variantAxesSchema.safeParse({ axes: ['a', 'b', 'c', 'd'] }).success).toBe(false);
+    });
+
+    it('creates new variants or attaches existing products', () => {
+      expect(createVariantSchema.parse({ sku: 'JU-L', price: '4.5', options: { Size: 'Large' } })).toEqual({
+        sku: 'JU-L',
+        price: 4.5,
+        options: { size: 'Large' },
+      });
+      expect(createVariantSchema.parse({ productId: 7, options: { size: 'Small' } })).toEqual({ productId: 7, options: { size: 'Small' } });
+      expect(createVariantSchema.safeParse({ options: { size: 'Small' } }).success).toBe(false);
+    });
+
+    it('sets reorder levels only for a store', () => {
+      expect(bulkVariantUpdateSchema.safeParse({ price: 5 }).success).toBe(true);
+      expect(bulkVariantUpdateSchema.safeParse({}).error?.errors[0]?.message).toBe('Give a price or a reorder level');
+      expect(bulkVariantUpdateSchema.safeParse({ reorderLevel: 10 }).error?.errors[0]?.message).toBe('Reorder levels are set per store');
+      expect(bulkVariantUpdateSchema.parse({ storeId: 2, reorderLevel: '10', variantIds: [11, 12] })).toEqual({
+        storeId: 2,
+        reorderLevel: 10,
+        variantIds: [11, 12],
+      });
+    });
+  });
+
+  describe('Reports', () => {
+    const sold = (overrides: Partial<SoldLine>): SoldLine => ({
+      productId: 11,
+      productName: 'Juice - Small / Mango',
+      parentId: 10,
+      parentName: 'Juice',
+      category: 'Drinks',
+      day: '2024-03-10',
+      quantity: 2,
+      revenue: 6,
+      cost: 4,
+      estimatedQuantity: 0,
+      ...overrides,
+    });
+
+    it('rolls variants up into their parent and keeps other products apart', () => {
+      const report = summariseMargins([
+        sold({}),
+        sold({ productId: 12, productName: 'Juice - Large / Mango', revenue: 10, cost: 6 }),
+        sold({ productId: 20, productName: 'Bread', parentId: null, parentName: null, revenue: 3, cost: 1 }),
+      ]);
+      expect(report.byProduct).toHaveLength(3);
+      expect(report.byParent.map((row) => [row.key, row.label, row.quantity, row.grossMargin])).toEqual([
+        ['10', 'Juice', 4, 6],
+        ['20', 'Bread', 2, 2],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Test Suite for Coupon Codes
+ *
+ * Covers code generation and the checks made when a coupon is redeemed:
+ * validity window, redemption limits, voucher ownership and the promotion's
+ * customer targeting, and how a sale's redemptions are counted against
+ * promotions and coupons that another till may have just used up.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { coupons, promotions } from '../shared/schema';
+import { recordRedemptions, type RedemptionExecutor } from '../server/modules/promotion/storage';
+import {
+  PromotionUnavailableError,
+  checkCoupon,
+  checkCustomerEligibility,
+  checkPromotionDiscount,
+  generateCouponCodes,
+  normalizeCouponCode,
+  readSaleRedemption,
+  resolveCustomerType,
+  type CustomerPromotionContext,
+} from '../server/modules/promotion/coupons';
+
+// The coupon looked up by code when a redemption is recorded
+const couponLookup = vi.hoisted(() => ({ rows: [] as unknown[] }));
+vi.mock('../server/db', () => ({
+  db: { select: () => ({ from: () => ({ where: async () => couponLookup.rows }) }) },
+  pool: {},
+}));
+
+const now = new Date('2025-06-15T12:00:00Z');
+
+const promotion = (overrides: Partial<Parameters<typeof checkCoupon>[1]> = {}): Parameters<typeof checkCoupon>[1] => ({
+  id: 1,
+  storeId: 1,
+  isActive: true,
+  startDate: new Date('2025-06-01T00:00:00Z'),
+  endDate: new Date('2025-06-30T00:00:00Z'),
+  customerLimit: null,
+  applicableToCustomerTypes: null,
+  ...overrides,
+});
+
+const coupon = (overrides: Partial<Parameters<typeof checkCoupon>[0]> = {}): Parameters<typeof checkCoupon>[0] => ({
+  isActive: true,
+  customerId: null,
+  maxRedemptions: 1,
+  redemptionCount: 0,
+  expiresAt: null,
+  ...overrides,
+});
+
+const walkIn: CustomerPromotionContext = { customerId: null, customerType: null, usageByPromotion: new Map() };
+
+const customer = (overrides: Partial<CustomerPromotionContext> = {}): CustomerPromotionContext => ({
+  customerId: 7,
+  customerType: 'returning',
+  usageByPromotion: new Map(),
+  ...overrides,
+});
+
+const check = (couponOverrides = {}, promotionOverrides = {}, buyer = walkIn) =>
+  checkCoupon(coupon(couponOverrides), promotion(promotionOverrides), { storeId: 1, now, customer: buyer });
+
+describe('Coupon Codes', () => {
+  describe('Generation', () => {
+    it('creates the requested number of unique, prefixed codes', () => {
+      const codes = generateCouponCodes(50, { prefix: 'eid' });
+      expect(codes).toHaveLength(50);
+      expect(new Set(codes).size).toBe(50);
+      codes.forEach((code) => expect(code).toMatch(/^EID-[A-HJ-NP-Z2-9]{8}$/));
+    });
+
+    it('skips codes that are already taken', () => {
+      let next = 0;
+      const sequence = (max: number) => next++ % max;
+      const [first] = generateCouponCodes(1, { length: 4 }, new Set(), sequence);
+
+      next = 0;
+      const codes = generateCouponCodes(1, { length: 4 }, new Set([first]), sequence);
+      expect(codes).toHaveLength(1);
+      expect(codes[0]).not.toBe(first);
+    });
+
+    it('normalises typed codes', () => {
+      expect(normalizeCouponCode(' welcome 10 ')).toBe('WELCOME10');
+    });
+  });
+
+  describe('Redemption checks', () => {
+    it('accepts a valid coupon', () => {
+      expect(check()).toBeNull();
+    });
+
+    it('rejects disabled coupons and other stores', () => {
+      expect(check({ isActive: false })?.code).toBe('INACTIVE');
+      expect(check({}, { storeId: 2 })?.code).toBe('WRONG_STORE');
+    });
+
+    it('respects the coupon expiry and the promotion dates', () => {
+      expect(check({ expiresAt: new Date('2025-06-10T00:00:00Z') })?.code).toBe('EXPIRED');
+      expect(check({}, { endDate: new Date('2025-06-14T00:00:00Z') })?.code).toBe('EXPIRED');
+      expect(check({}, { startDate: new Date('2025-06-20T00:00:00Z') })?.code).toBe('NOT_STARTED');
+    });
+
+    it('stops single-use codes being used twice but allows unlimited codes', () => {
+      expect(check({ redemptionCount: 1 })?.code).toBe('USED_UP');
+      expect(check({ maxRedemptions: null, redemptionCount: 40 })).toBeNull();
+    });
+
+    it('only lets the assigned customer redeem a voucher', () => {
+      expect(check({ customerId: 7 }, {}, customer())).toBeNull();
+      expect(check({ customerId: 7 }, {}, customer({ customerId: 8 }))?.code).toBe('WRONG_CUSTOMER');
+      expect(check({ customerId: 7 })?.code).toBe('CUSTOMER_REQUIRED');
+    });
+  });
+
+  describe('Customer targeting', () => {
+    it('limits promotions to the listed customer types', () => {
+      const vipOnly = promotion({ applicableToCustomerTypes: ['vip'] });
+      expect(checkCustomerEligibility(vipOnly, customer({ customerType: 'vip' }))).toBeNull();
+      expect(checkCustomerEligibility(vipOnly, customer())?.code).toBe('CUSTOMER_TYPE');
+      expect(checkCustomerEligibility(vipOnly, walkIn)?.code).toBe('CUSTOMER_REQUIRED');
+    });
+
+    it("treats 'all' as no restriction", () => {
+      expect(checkCustomerEligibility(promotion({ applicableToCustomerTypes: ['all'] }), walkIn)).toBeNull();
+    });
+
+    it('enforces the per-customer limit', () => {
+      const oncePerCustomer = promotion({ customerLimit: 1 });
+      expect(checkCustomerEligibility(oncePerCustomer, customer())).toBeNull();
+      expect(
+        checkCustomerEligibility(oncePerCustomer, customer({ usageByPromotion: new Map([[1, 1]]) }))?.code,
+      ).toBe('CUSTOMER_LIMIT');
+    });
+
+    it('classifies customers by VIP flag and purchase history', () => {
+      expect(resolveCustomerType({ isVip: true }, 0)).toBe('vip');
+      expect(resolveCustomerType({ isVip: false }, 0)).toBe('new');
+      expect(resolveCustomerType({ isVip: false }, 3)).toBe('returning');
+    });
+  });
+
+  describe('Sale payload', () => {
+    it('reads the coupon and applied promotions from a checkout body', () => {
+      expect(
+        readSaleRedemption(
+          { customerId: '7', couponCode: 'EID-ABC', appliedPromotions: [{ promotionId: 3, discountAmount: '4.50' }] },
+          1,
+        ),
+      ).toEqual({
+        storeId: 1,
+        customerId: 7,
+        couponCode: 'EID-ABC',
+        appliedPromotions: [{ promotionId: 3, discountAmount: 4.5 }],
+      });
+    });
+
+    it('treats a body without promotions as nothing to redeem', () => {
+      expect(readSaleRedemption({ items: [] }, 1)).toEqual({
+        storeId: 1,
+        customerId: null,
+        couponCode: null,
+        appliedPromotions: [],
+      });
+      expect(readSaleRedemption({ appliedPromotions: 'bogus' }, 1)).toBeNull();
+    });
+
+    it('accepts a promotion discount that comes to what the server priced', () => {
+      const priced = { totalDiscount: 4.5, appliedPromotions: [{ promotionId: 3, discountAmount: 4.5 }] };
+      expect(checkPromotionDiscount({ appliedPromotions: [{ promotionId: 3, discountAmount: 4.5 }] }, 4.5, priced)).toBeNull();
+    });
+
+    it('refuses a promotion discount the deals do not give, in total or per promotion', () => {
+      const priced = { totalDiscount: 4.5, appliedPromotions: [{ promotionId: 3, discountAmount: 4.5 }] };
+      expect(
+        checkPromotionDiscount({ appliedPromotions: [{ promotionId: 3, discountAmount: 40 }] }, 40, priced)?.code,
+      ).toBe('PRICE_CHANGED');
+      expect(
+        checkPromotionDiscount({ appliedPromotions: [{ promotionId: 9, discountAmount: 4.5 }] }, 4.5, priced)?.code,
+      ).toBe('PRICE_CHANGED');
+      expect(checkPromotionDiscount({ appliedPromotions: [] }, 0, priced)?.message).toBe(
+        'The promotions on this sale come to 4.50, not 0.00; price the cart again',
+      );
+    });
+  });
+
+  describe('Recording redemptions', () => {
+    // A sale's transaction where each guarded update changes the rows given for its table
+    const saleTransaction = (updated: Map<unknown, unknown[]>) => {
+      const inserted: unknown[] = [];
+      const executor = {
+        insert: () => ({
+          values: (rows: unknown[]) => ({
+            returning: async () => {
+              inserted.push(...rows);
+              return rows;
+            },
+          }),
+        }),
+        update: (table: unknown) => ({ set: () => ({ where: () => ({ returning: async () => updated.get(table) ?? [] }) }) }),
+      };
+      return { executor: executor as unknown as RedemptionExecutor, inserted };
+    };
+    const redemption = { storeId: 1, customerId: null, couponCode: 'SAVE10', appliedPromotions: [{ promotionId: 5, discountAmount: 2 }] };
+    couponLookup.rows = [{ id: 8, promotionId: 5, code: 'SAVE10' }];
+
+    it('records usage when the promotion and coupon still have uses left', async () => {
+      const { executor, inserted } = saleTransaction(new Map<unknown, unknown[]>([[promotions, [{ id: 5 }]], [coupons, [{ id: 8 }]]]));
+
+      await recordRedemptions(42, redemption, executor);
+
+      expect(inserted).toEqual([expect.objectContaining({ promotionId: 5, transactionId: 42, couponId: 8, discountAmount: '2.00' })]);
+    });
+
+    it('fails the sale when another till used the promotion up first', async () => {
+      const { executor } = saleTransaction(new Map<unknown, unknown[]>([[coupons, [{ id: 8 }]]]));
+
+      const recording = recordRedemptions(42, redemption, executor);
+
+      await expect(recording).rejects.toBeInstanceOf(PromotionUnavailableError);
+      await expect(recording).rejects.toMatchObject({ rejection: { code: 'USED_UP' } });
+    });
+
+    it('fails the sale when the coupon was redeemed elsewhere in the meantime', async () => {
+      const { executor } = saleTransaction(new Map<unknown, unknown[]>([[promotions, [{ id: 5 }]]]));
+
+      await expect(recordRedemptions(42, redemption, executor)).rejects.toMatchObject({
+        rejection: { code: 'USED_UP', message: 'This coupon has already been used' },
+      });
+    });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Test Suite for the Promotion Engine
+ *
+ * Covers pricing of each promotion type, how overlapping promotions are
+ * resolved (priority, exclusivity, stackable groups) and how the discount is
+ * allocated back onto cart lines.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluatePromotions,
+  type PromotionCartLine,
+  type PromotionDefinition,
+} from '../server/modules/promotion/engine';
+
+const promotion = (overrides: Partial<PromotionDefinition> & Pick<PromotionDefinition, 'id' | 'type'>): PromotionDefinition => ({
+  name: `Promo ${overrides.id}`,
+  value: null,
+  minOrderAmount: null,
+  maxDiscountAmount: null,
+  groupQuantity: null,
+  tiers: null,
+  usageLimit: null,
+  usageCount: 0,
+  priority: 0,
+  isExclusive: false,
+  stackableGroup: null,
+  rules: [{ ruleType: 'all_products', productId: null, category: null, buyQuantity: null, getQuantity: null }],
+  ...overrides,
+});
+
+const productRule = (productId: number, buyQuantity: number | null = null) => ({
+  ruleType: 'product',
+  productId,
+  category: null,
+  buyQuantity,
+  getQuantity: null,
+});
+
+const categoryRule = (category: string) => ({
+  ruleType: 'category',
+  productId: null,
+  category,
+  buyQuantity: null,
+  getQuantity: null,
+});
+
+const line = (productId: number, price: number, quantity: number, category: string | null = null): PromotionCartLine => ({
+  productId,
+  sku: `SKU-${productId}`,
+  category,
+  price,
+  quantity,
+});
+
+describe('Promotion Engine', () => {
+  describe('Bundles', () => {
+    const bundle = promotion({
+      id: 1,
+      type: 'bundle',
+      value: '15.00',
+      rules: [productRule(1), productRule(2, 2)],
+    });
+
+    it('sells a set of specific products at a fixed price', () => {
+      // 10 + 2 x 4 = 18 regular, bundle at 15
+      const result = evaluatePromotions([bundle], [line(1, 10, 1), line(2, 4, 2)]);
+      expect(result.totalDiscount).toBe(3);
+      expect(result.appliedPromotions[0].items.map((item) => item.quantity)).toEqual([1, 2]);
+    });
+
+    it('applies once per complete set only', () => {
+      const result = evaluatePromotions([bundle], [line(1, 10, 2), line(2, 4, 3)]);
+      expect(result.totalDiscount).toBe(3);
+    });
+
+    it('skips a bundle priced above the items', () => {
+      const result = evaluatePromotions([{ ...bundle, value: '30.00' }], [line(1, 10, 1), line(2, 4, 2)]);
+      expect(result.appliedPromotions).toHaveLength(0);
+    });
+  });
+
+  describe('Mix and match', () => {
+    const anyThree = promotion({
+      id: 2,
+      type: 'mix_match',
+      value: '20.00',
+      groupQuantity: 3,
+      rules: [categoryRule('snacks')],
+    });
+
+    it('prices any N items from the group at the set price', () => {
+      const result = evaluatePromotions([anyThree], [
+        line(1, 8, 2, 'snacks'),
+        line(2, 9, 1, 'snacks'),
+        line(3, 50, 1, 'drinks'),
+      ]);
+      expect(result.totalDiscount).toBe(5);
+      expect(result.appliedPromotions[0].items.every((item) => item.sku !== 'SKU-3')).toBe(true);
+    });
+
+    it('groups the most expensive items first', () => {
+      const result = evaluatePromotions([anyThree], [
+        line(1, 10, 3, 'snacks'),
+        line(2, 5, 3, 'snacks'),
+      ]);
+      // 10+10+10 = 30 -> save 10; 5+5+5 = 15 is below the set price
+      expect(result.totalDiscount).toBe(10);
+      expect(result.appliedPromotions[0].items).toEqual([
+        { productId: 1, sku: 'SKU-1', quantity: 3, discountAmount: 10 },
+      ]);
+    });
+  });
+
+  describe('Tiered quantity discounts', () => {
+    const tiered = promotion({
+      id: 3,
+      type: 'tiered',
+      tiers: [
+        { threshold: 3, discountType: 'percentage', value: 10 },
+        { threshold: 6, discountType: 'percentage', value: 20 },
+      ],
+      rules: [productRule(1)],
+    });
+
+    it('uses the highest tier reached', () => {
+      expect(evaluatePromotions([tiered], [line(1, 10, 6)]).totalDiscount).toBe(12);
+      expect(evaluatePromotions([tiered], [line(1, 10, 4)]).totalDiscount).toBe(4);
+    });
+
+    it('gives nothing below the first tier', () => {
+      expect(evaluatePromotions([tiered], [line(1, 10, 2)]).appliedPromotions).toHaveLength(0);
+    });
+  });
+
+  describe('Spend thresholds', () => {
+    const spend = promotion({
+      id: 4,
+      type: 'spend_threshold',
+      tiers: [
+        { threshold: 100, discountType: 'fixed', value: 10 },
+        { threshold: 200, discountType: 'fixed', value: 25 },
+      ],
+    });
+
+    it('uses the highest threshold reached', () => {
+      expect(evaluatePromotions([spend], [line(1, 50, 3)]).totalDiscount).toBe(10);
+      expect(evaluatePromotions([spend], [line(1, 50, 4)]).totalDiscount).toBe(25);
+    });
+
+    it('measures spend after stacked deals', () => {
+      const grouped = { ...spend, stackableGroup: 'basket' };
+      const bundle = promotion({ id: 5, type: 'bundle', value: '80.00', rules: [productRule(1, 2)], stackableGroup: 'basket' });
+      // 2 x 55 = 110 becomes 80, which is below the 100 threshold
+      const result = evaluatePromotions([grouped, bundle], [line(1, 55, 2)]);
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([5]);
+      expect(result.totalDiscount).toBe(30);
+    });
+  });
+
+  describe('Buy X get Y', () => {
+    it('gives the cheapest item in each set for free', () => {
+      const bogo = promotion({
+        id: 6,
+        type: 'buy_x_get_y',
+        rules: [{ ruleType: 'category', productId: null, category: 'shirts', buyQuantity: 1, getQuantity: 1 }],
+      });
+      const result = evaluatePromotions([bogo], [line(1, 30, 1, 'shirts'), line(2, 20, 1, 'shirts')]);
+      expect(result.totalDiscount).toBe(20);
+    });
+
+    it('does not give away a single item', () => {
+      const bogo = promotion({
+        id: 6,
+        type: 'buy_x_get_y',
+        rules: [{ ruleType: 'product', productId: 1, category: null, buyQuantity: 1, getQuantity: 1 }],
+      });
+      expect(evaluatePromotions([bogo], [line(1, 30, 1)]).totalDiscount).toBe(0);
+    });
+  });
+
+  describe('Overlapping promotions', () => {
+    it('gives each unit to the deal that saves the customer most', () => {
+      const bundle = promotion({ id: 10, type: 'bundle', value: '18.00', rules: [productRule(1, 2)] });
+      const anyTwo = promotion({
+        id: 11,
+        type: 'mix_match',
+        value: '15.00',
+        groupQuantity: 2,
+        rules: [productRule(1)],
+      });
+      const result = evaluatePromotions([bundle, anyTwo], [line(1, 10, 2)]);
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([11]);
+      expect(result.totalDiscount).toBe(5);
+    });
+
+    it('breaks ties by promotion id regardless of input order', () => {
+      const first = promotion({ id: 20, type: 'bundle', value: '15.00', rules: [productRule(1, 2)] });
+      const second = promotion({ id: 21, type: 'bundle', value: '15.00', rules: [productRule(1, 2)] });
+      const result = evaluatePromotions([second, first], [line(1, 10, 2)]);
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([20]);
+    });
+
+    it('applies only the best order-level deal', () => {
+      const percent = promotion({ id: 30, type: 'percentage', value: '10.00' });
+      const fixed = promotion({ id: 31, type: 'fixed_amount', value: '15.00' });
+      const result = evaluatePromotions([percent, fixed], [line(1, 100, 1)]);
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([31]);
+      expect(result.totalDiscount).toBe(15);
+    });
+
+    it('lets separate item-level deals apply to different units', () => {
+      const bundle = promotion({ id: 40, type: 'bundle', value: '15.00', rules: [productRule(1, 2)] });
+      const tiered = promotion({
+        id: 41,
+        type: 'tiered',
+        tiers: [{ threshold: 2, discountType: 'fixed', value: 1 }],
+        rules: [productRule(2)],
+      });
+      const result = evaluatePromotions([bundle, tiered], [line(1, 10, 2), line(2, 5, 2)]);
+      expect(result.totalDiscount).toBe(7);
+    });
+  });
+
+  describe('Stacking rules', () => {
+    const bogo = (overrides: Partial<PromotionDefinition> = {}) =>
+      promotion({
+        id: 80,
+        type: 'buy_x_get_y',
+        rules: [{ ruleType: 'product', productId: 1, category: null, buyQuantity: 1, getQuantity: 1 }],
+        ...overrides,
+      });
+    const storeWide = (overrides: Partial<PromotionDefinition> = {}) =>
+      promotion({ id: 81, type: 'percentage', value: '10.00', ...overrides });
+
+    it('does not let a store-wide deal stack on a line used by another deal', () => {
+      const result = evaluatePromotions([bogo(), storeWide()], [line(1, 20, 2), line(2, 50, 1)]);
+      // BOGO takes line 1; 10% only applies to line 2
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([80, 81]);
+      expect(result.totalDiscount).toBe(25);
+    });
+
+    it('stacks deals in the same group on the remaining amount', () => {
+      const result = evaluatePromotions(
+        [bogo({ stackableGroup: 'weekend' }), storeWide({ stackableGroup: 'weekend' })],
+        [line(1, 20, 2)]
+      );
+      // 40 - 20 free = 20, then 10% of 20
+      expect(result.totalDiscount).toBe(22);
+    });
+
+    it('does not stack deals from different groups', () => {
+      const result = evaluatePromotions(
+        [bogo({ stackableGroup: 'weekend' }), storeWide({ stackableGroup: 'members' })],
+        [line(1, 20, 2)]
+      );
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([80]);
+    });
+
+    it('applies higher priority deals first even when they save less', () => {
+      const result = evaluatePromotions([bogo(), storeWide({ priority: 5 })], [line(1, 20, 2)]);
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([81]);
+      expect(result.totalDiscount).toBe(4);
+    });
+
+    it('never combines an exclusive deal with others', () => {
+      const exclusive = promotion({ id: 82, type: 'fixed_amount', value: '30.00', isExclusive: true });
+      const lines = [line(1, 20, 2), line(2, 50, 1)];
+
+      const result = evaluatePromotions([bogo(), storeWide(), exclusive], lines);
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([82]);
+      expect(result.totalDiscount).toBe(30);
+
+      // A smaller exclusive loses to the combined deals
+      const small = { ...exclusive, value: '5.00' };
+      expect(evaluatePromotions([bogo(), storeWide(), small], lines).appliedPromotions.map((applied) => applied.promotionId))
+        .toEqual([80, 81]);
+    });
+
+    it('prefers an exclusive deal with a higher priority over a bigger combined saving', () => {
+      const exclusive = promotion({ id: 82, type: 'fixed_amount', value: '5.00', isExclusive: true, priority: 1 });
+      const result = evaluatePromotions([bogo(), storeWide(), exclusive], [line(1, 20, 2), line(2, 50, 1)]);
+      expect(result.appliedPromotions.map((applied) => applied.promotionId)).toEqual([82]);
+    });
+  });
+
+  describe('Line allocation', () => {
+    it('returns the discount per cart line in input order', () => {
+      const bundle = promotion({ id: 90, type: 'bundle', value: '15.00', rules: [productRule(2, 2)] });
+      const result = evaluatePromotions([bundle], [line(1, 10, 1), line(2, 10, 2)]);
+      expect(result.lines).toEqual([
+        { productId: 1, sku: 'SKU-1', discountAmount: 0, promotionId: null },
+        { productId: 2, sku: 'SKU-2', discountAmount: 5, promotionId: 90 },
+      ]);
+    });
+
+    it('credits a stacked line to the deal with the largest share', () => {
+      const bogo = promotion({
+        id: 91,
+        type: 'buy_x_get_y',
+        stackableGroup: 'weekend',
+        rules: [{ ruleType: 'product', productId: 1, category: null, buyQuantity: 1, getQuantity: 1 }],
+      });
+      const percent = promotion({ id: 92, type: 'percentage', value: '10.00', stackableGroup: 'weekend' });
+      const [allocation] = evaluatePromotions([bogo, percent], [line(1, 20, 2)]).lines;
+      expect(allocation.discountAmount).toBe(22);
+      expect(allocation.promotionId).toBe(91);
+    });
+  });
+
+  describe('Limits', () => {
+    it('caps the discount at the maximum and keeps line shares adding up', () => {
+      const percent = promotion({ id: 50, type: 'percentage', value: '50.00', maxDiscountAmount: '10.00' });
+      const result = evaluatePromotions([percent], [line(1, 7, 1), line(2, 13, 3)]);
+      expect(result.totalDiscount).toBe(10);
+      const shares = result.appliedPromotions[0].items.reduce((sum, item) => sum + item.discountAmount, 0);
+      expect(Math.round(shares * 100) / 100).toBe(10);
+    });
+
+    it('ignores promotions below their minimum order or out of uses', () => {
+      const minimum = promotion({ id: 60, type: 'percentage', value: '10.00', minOrderAmount: '500.00' });
+      const usedUp = promotion({ id: 61, type: 'percentage', value: '10.00', usageLimit: 5, usageCount: 5 });
+      expect(evaluatePromotions([minimum, usedUp], [line(1, 100, 1)]).appliedPromotions).toHaveLength(0);
+    });
+
+    it('ignores promotions without rules', () => {
+      const unscoped = promotion({ id: 70, type: 'percentage', value: '10.00', rules: [] });
+      expect(evaluatePromotions([unscoped], [line(1, 100, 1)]).totalDiscount).toBe(0);
+    });
+  });
+});
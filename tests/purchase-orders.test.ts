@@ -0,0 +1,200 @@
+/**
+ * Test Suite for Purchase Orders and Goods Received Notes
+ *
+ * Covers order validation, booking deliveries against an order, the
+ * three-way match of supplier invoices, who may do what, and the printed
+ * purchase order.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canReceive,
+  createPurchaseOrderSchema,
+  formatGoodsReceivedNumber,
+  formatPurchaseOrderNumber,
+  matchInvoice,
+  orderSubtotal,
+  planGoodsReceipt,
+  statusAfterGoodsReceipt,
+} from '../server/modules/purchasing/purchasing';
+import { layoutPurchaseOrder, type PdfLayout, type TextMeasurer } from '../server/modules/invoices/pdf-layout';
+import { hasPermission } from '../shared/permissions';
+
+const line = (id: number, ordered: string, received = '0', unitCost = '2.50') => ({
+  id,
+  productId: id * 10,
+  quantityOrdered: ordered,
+  quantityReceived: received,
+  unitCost,
+});
+
+const billed = (productId: number | null, quantity: number, unitCost: number) => ({
+  productId,
+  productName: `Item ${productId}`,
+  quantity,
+  unitCost: unitCost.toFixed(2),
+  totalCost: (quantity * unitCost).toFixed(2),
+});
+
+const measurer: TextMeasurer = {
+  widthOf: (text, size) => Array.from(text).length * size * 0.5,
+};
+
+const textsOn = (layout: PdfLayout, pageIndex: number) =>
+  layout.pages[pageIndex].ops.flatMap((op) => (op.type === 'text' ? [op.text] : []));
+
+describe('Purchase Orders', () => {
+  describe('Orders', () => {
+    it('accepts an order for one supplier and store', () => {
+      const parsed = createPurchaseOrderSchema.safeParse({
+        supplierId: 3,
+        storeId: 1,
+        expectedDate: '2024-04-01',
+        items: [{ productId: 5, quantity: '12', unitCost: '4.25' }],
+      });
+      expect(parsed.success).toBe(true);
+    });
+
+    it('rejects empty orders, repeated products and negative costs', () => {
+      expect(createPurchaseOrderSchema.safeParse({ supplierId: 3, storeId: 1, items: [] }).success).toBe(false);
+      const repeated = createPurchaseOrderSchema.safeParse({
+        supplierId: 3,
+        storeId: 1,
+        items: [{ productId: 5, quantity: 1, unitCost: 1 }, { productId: 5, quantity: 2, unitCost: 1 }],
+      });
+      expect(repeated.error?.errors[0]?.message).toBe('Each product can only appear once on an order');
+      expect(createPurchaseOrderSchema.safeParse({ supplierId: 3, storeId: 1, items: [{ productId: 5, quantity: 1, unitCost: -1 }] }).success).toBe(false);
+    });
+
+    it('numbers orders and GRNs from their ids and totals the lines', () => {
+      expect(formatPurchaseOrderNumber(7)).toBe('PO-000007');
+      expect(formatGoodsReceivedNumber(123)).toBe('GRN-000123');
+      expect(orderSubtotal([{ quantity: 3, unitCost: 1.1 }, { quantity: 0.5, unitCost: 9.99 }])).toBe(8.3);
+    });
+
+    it('only takes deliveries once sent and until closed', () => {
+      expect(canReceive('draft')).toBe(false);
+      expect(canReceive('sent')).toBe(true);
+      expect(canReceive('partially_received')).toBe(true);
+      expect(canReceive('received')).toBe(false);
+      expect(canReceive('cancelled')).toBe(false);
+    });
+  });
+
+  describe('Goods received', () => {
+    const order = [line(1, '10'), line(2, '4')];
+
+    it('books a full delivery and closes the order', () => {
+      const plan = planGoodsReceipt(order, { items: [{ itemId: 1, quantity: 10 }, { itemId: 2, quantity: 4 }], complete: false });
+      expect(plan.success).toBe(true);
+      if (!plan.success) return;
+      expect(plan.fullyReceived).toBe(true);
+      expect(statusAfterGoodsReceipt(plan.fullyReceived, false)).toBe('received');
+    });
+
+    it('keeps a short delivery open and adds later ones to it', () => {
+      const first = planGoodsReceipt(order, { items: [{ itemId: 1, quantity: 6 }], complete: false });
+      expect(first.success && first.lines.map((l) => l.quantity)).toEqual([6, 0]);
+      expect(first.success && statusAfterGoodsReceipt(first.fullyReceived, false)).toBe('partially_received');
+
+      const second = planGoodsReceipt([line(1, '10', '6')], { items: [{ itemId: 1, quantity: 4 }], complete: false });
+      expect(second.success && second.lines[0].received).toBe(10);
+    });
+
+    it('refuses more than is outstanding and lines from other orders', () => {
+      expect(planGoodsReceipt([line(1, '10', '8')], { items: [{ itemId: 1, quantity: 3 }], complete: false })).toEqual({
+        success: false,
+        message: 'Only 2 of that line is still outstanding',
+      });
+      expect(planGoodsReceipt(order, { items: [{ itemId: 9, quantity: 1 }], complete: false })).toEqual({
+        success: false,
+        message: 'Line 9 is not on this order',
+      });
+    });
+
+    it('needs a note before closing an order that came in short', () => {
+      const receipt = { items: [{ itemId: 1, quantity: 10 }, { itemId: 2, quantity: 3 }], complete: true };
+      expect(planGoodsReceipt(order, receipt)).toEqual({
+        success: false,
+        message: 'Explain the missing units before closing the order',
+      });
+      const noted = planGoodsReceipt(order, {
+        ...receipt,
+        items: [receipt.items[0], { itemId: 2, quantity: 3, discrepancyNote: 'Supplier out of stock' }],
+      });
+      expect(noted.success && noted.lines[1].discrepancyNote).toBe('Supplier out of stock');
+      expect(noted.success && statusAfterGoodsReceipt(noted.fullyReceived, true)).toBe('received');
+    });
+  });
+
+  describe('Three-way match', () => {
+    it('matches an invoice billing what arrived at the ordered price', () => {
+      const match = matchInvoice([line(1, '10', '10'), line(2, '4', '4', '1.00')], [billed(10, 10, 2.5), billed(20, 4, 1)]);
+      expect(match.status).toBe('matched');
+      expect(match.lines.every((l) => l.problems.length === 0)).toBe(true);
+    });
+
+    it('flags billing more than was received', () => {
+      const match = matchInvoice([line(1, '10', '8')], [billed(10, 10, 2.5)]);
+      expect(match.status).toBe('discrepancy');
+      expect(match.lines[0].problems).toEqual(['Billed 10 but only 8 received']);
+    });
+
+    it('flags a price different from the order', () => {
+      const match = matchInvoice([line(1, '10', '10')], [billed(10, 10, 2.75)]);
+      expect(match.lines[0].problems).toEqual(['Billed at 2.75 instead of the ordered 2.50']);
+    });
+
+    it('adds up split invoice lines and flags products the order never had', () => {
+      const match = matchInvoice([line(1, '10', '10')], [billed(10, 6, 2.5), billed(10, 4, 2.5), billed(99, 1, 5), billed(null, 1, 1)]);
+      expect(match.lines.find((l) => l.productId === 10)?.problems).toEqual([]);
+      expect(match.lines.find((l) => l.productId === 99)?.problems).toEqual(['Not on the purchase order']);
+      expect(match.lines.find((l) => l.productId === null)?.problems).toEqual(['Not linked to a product']);
+      expect(match.status).toBe('discrepancy');
+    });
+
+    it('ignores order lines nothing was delivered or billed for', () => {
+      const match = matchInvoice([line(1, '10', '10'), line(2, '5')], [billed(10, 10, 2.5)]);
+      expect(match.lines).toHaveLength(1);
+      expect(match.status).toBe('matched');
+    });
+  });
+
+  describe('Permissions', () => {
+    it('lets managers order, supervisors receive and only admins accept differences', () => {
+      expect(hasPermission('manager', 'purchasing', 'create')).toBe(true);
+      expect(hasPermission('manager', 'purchasing', 'receive')).toBe(true);
+      expect(hasPermission('manager', 'purchasing', 'approve')).toBe(false);
+      expect(hasPermission('supervisor', 'purchasing', 'receive')).toBe(true);
+      expect(hasPermission('supervisor', 'purchasing', 'create')).toBe(false);
+      expect(hasPermission('cashier', 'purchasing', 'read')).toBe(false);
+      expect(hasPermission('admin', 'purchasing', 'approve')).toBe(true);
+    });
+  });
+
+  describe('Purchase order document', () => {
+    it('shows the supplier, the delivery store and the ordered lines', () => {
+      const layout = layoutPurchaseOrder(
+        {
+          number: 'PO-000007',
+          issuedAt: new Date('2024-03-10T09:30:00Z'),
+          timezone: 'Asia/Qatar',
+          currency: 'QAR',
+          supplier: { name: 'Gulf Beverages', email: 'orders@gulfbev.example' },
+          deliverTo: { name: 'Main Store', address: 'Salwa Road, Doha' },
+          expectedDate: new Date('2024-03-15T00:00:00Z'),
+          notes: 'Deliver before 10am',
+          lines: [{ description: 'Mineral Water 500ml', sku: 'WAT-500', quantity: 24, unitCost: 0.75 }],
+        },
+        measurer,
+      );
+      expect(layout.pages).toHaveLength(1);
+      const texts = textsOn(layout, 0);
+      expect(texts).toContain('PO-000007');
+      expect(texts).toContain('Gulf Beverages');
+      expect(texts).toContain('Main Store');
+      expect(texts.some((text) => text.includes('Mineral Water 500ml'))).toBe(true);
+      expect(texts.some((text) => text.includes('Deliver before 10am'))).toBe(true);
+    });
+  });
+});
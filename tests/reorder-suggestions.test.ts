@@ -0,0 +1,171 @@
+/**
+ * Test Suite for Reorder Suggestions
+ *
+ * Runs the replenishment engine over synthetic sales histories: steady and
+ * lumpy sellers, stock already on order, store reorder levels, grouping per
+ * supplier, and the manager's edits before orders are drafted.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyQuantityOverrides,
+  convertSuggestionsSchema,
+  dailySalesSeries,
+  groupSuggestionsBySupplier,
+  lookbackDays,
+  reorderSettingsSchema,
+  salesVelocity,
+  suggestReorder,
+  type ReorderCandidate,
+} from '../server/modules/purchasing/replenishment';
+
+const settings = reorderSettingsSchema.parse({});
+
+// Twenty-eight days selling the same amount every day
+const steady = (perDay: number, days = 28) => new Array<number>(days).fill(perDay);
+// Same average as steady(2), but all of it on one day a week
+const weekly = (perWeek: number, days = 28) => Array.from({ length: days }, (_, day) => (day % 7 === 6 ? perWeek : 0));
+
+const candidate = (overrides: Partial<ReorderCandidate> = {}): ReorderCandidate => ({
+  productId: 1,
+  productName: 'Mineral Water 500ml',
+  sku: 'WAT-500',
+  supplierId: 3,
+  supplierName: 'Gulf Beverages',
+  leadTimeDays: 7,
+  onHand: 10,
+  onOrder: 0,
+  reorderLevel: null,
+  unitCost: 0.75,
+  dailySales: steady(2),
+  ...overrides,
+});
+
+describe('Reorder Suggestions', () => {
+  describe('Sales velocity', () => {
+    it('averages over every day in the window, quiet days included', () => {
+      expect(salesVelocity(steady(3))).toEqual({ mean: 3, stdDev: 0 });
+      const lumpy = salesVelocity(weekly(14));
+      expect(lumpy.mean).toBe(2);
+      expect(lumpy.stdDev).toBeGreaterThan(4);
+      expect(salesVelocity([])).toEqual({ mean: 0, stdDev: 0 });
+    });
+
+    it('spreads grouped sales rows over store-local days', () => {
+      const days = ['2024-03-01', '2024-03-02', '2024-03-03'];
+      const series = dailySalesSeries(
+        [
+          { productId: 1, day: '2024-03-01', quantity: 4 },
+          { productId: 1, day: '2024-03-03', quantity: 2 },
+          { productId: 2, day: '2024-02-28', quantity: 9 },
+        ],
+        days,
+      );
+      expect(series.get(1)).toEqual([4, 0, 2]);
+      expect(series.has(2)).toBe(false);
+    });
+
+    it('builds the window from the days before today, oldest first', () => {
+      const days = lookbackDays(new Date('2024-03-10T12:00:00Z'), 3, (date) => date.toISOString().slice(0, 10));
+      expect(days).toEqual(['2024-03-07', '2024-03-08', '2024-03-09']);
+    });
+  });
+
+  describe('Suggestions', () => {
+    it('orders a steady seller once stock covers less than the lead time', () => {
+      const suggestion = suggestReorder(candidate(), settings);
+      // 2/day over 7 days with no variation: reorder at 14, top up to 14 + 28
+      expect(suggestion).toMatchObject({ velocity: 2, safetyStock: 0, reorderPoint: 14, targetLevel: 42, quantity: 32, daysOfCover: 5 });
+    });
+
+    it('leaves well-stocked products alone', () => {
+      expect(suggestReorder(candidate({ onHand: 40 }), settings)).toBeNull();
+    });
+
+    it('counts open purchase orders towards the stock position', () => {
+      expect(suggestReorder(candidate({ onHand: 4, onOrder: 20 }), settings)).toBeNull();
+      expect(suggestReorder(candidate({ onHand: 4, onOrder: 6 }), settings)?.quantity).toBe(32);
+    });
+
+    it('keeps more safety stock for lumpy sales than for steady ones', () => {
+      const lumpy = suggestReorder(candidate({ dailySales: weekly(14) }), settings)!;
+      expect(lumpy.safetyStock).toBeGreaterThan(0);
+      expect(lumpy.reorderPoint).toBeGreaterThan(14);
+      expect(lumpy.quantity).toBeGreaterThan(32);
+
+      const cautious = suggestReorder(candidate({ dailySales: weekly(14) }), { ...settings, serviceLevel: '0.99' })!;
+      expect(cautious.safetyStock).toBeGreaterThan(lumpy.safetyStock);
+    });
+
+    it('scales with the supplier lead time', () => {
+      expect(suggestReorder(candidate({ leadTimeDays: 2, onHand: 10 }), settings)).toBeNull();
+      expect(suggestReorder(candidate({ leadTimeDays: 14, onHand: 20 }), settings)?.reorderPoint).toBe(28);
+    });
+
+    it('never lets stock fall below the store reorder level, even without sales', () => {
+      const idle = suggestReorder(candidate({ dailySales: steady(0), onHand: 2, reorderLevel: 6 }), settings);
+      expect(idle).toMatchObject({ reorderPoint: 6, quantity: 4, daysOfCover: null });
+      expect(suggestReorder(candidate({ dailySales: steady(0), onHand: 0 }), settings)).toBeNull();
+    });
+
+    it('rounds orders up to whole units and treats negative stock as a shortfall', () => {
+      const suggestion = suggestReorder(candidate({ dailySales: steady(0.5), onHand: -3 }), settings)!;
+      expect(Number.isInteger(suggestion.quantity)).toBe(true);
+      expect(suggestion.quantity).toBe(Math.ceil(3.5 + 7 + 3));
+    });
+  });
+
+  describe('Grouping', () => {
+    const candidates = [
+      candidate({ productId: 1, onHand: 10 }),
+      candidate({ productId: 2, productName: 'Juice 1L', onHand: 1, dailySales: steady(1) }),
+      candidate({ productId: 3, supplierId: 5, supplierName: 'Al Meera Foods', leadTimeDays: 3, onHand: 0, dailySales: steady(4) }),
+      candidate({ productId: 4, supplierId: null, supplierName: null, onHand: 0, dailySales: steady(1) }),
+      candidate({ productId: 5, onHand: 500 }),
+    ];
+
+    it('groups one would-be order per supplier, most urgent lines first', () => {
+      const groups = groupSuggestionsBySupplier(candidates, settings);
+      expect(groups.map((group) => group.supplierName)).toEqual(['Al Meera Foods', 'Gulf Beverages', null]);
+      expect(groups[1].lines.map((line) => line.productId)).toEqual([2, 1]);
+      expect(groups[1].leadTimeDays).toBe(7);
+      expect(groups[1].total).toBe((32 + 20) * 0.75);
+      expect(groups[2].leadTimeDays).toBeNull();
+    });
+
+    it('applies edited quantities and drops lines set to zero', () => {
+      const groups = groupSuggestionsBySupplier(candidates, settings);
+      const edited = applyQuantityOverrides(groups, [
+        { productId: 1, quantity: 48 },
+        { productId: 3, quantity: 0 },
+      ]);
+      expect(edited.success).toBe(true);
+      if (!edited.success) return;
+      expect(edited.groups.map((group) => group.supplierName)).toEqual(['Gulf Beverages', null]);
+      expect(edited.groups[0].lines.find((line) => line.productId === 1)?.quantity).toBe(48);
+      expect(edited.groups[0].total).toBe((48 + 20) * 0.75);
+    });
+
+    it('refuses edits for products that were not suggested', () => {
+      const groups = groupSuggestionsBySupplier(candidates, settings);
+      expect(applyQuantityOverrides(groups, [{ productId: 5, quantity: 10 }])).toEqual({
+        success: false,
+        message: 'Product 5 is not a reorder suggestion for this store',
+      });
+    });
+  });
+
+  describe('Requests', () => {
+    it('defaults the settings and accepts only known service levels', () => {
+      expect(settings).toEqual({ lookbackDays: 28, coverDays: 14, serviceLevel: '0.95' });
+      expect(reorderSettingsSchema.safeParse({ serviceLevel: '0.5' }).success).toBe(false);
+      expect(reorderSettingsSchema.safeParse({ lookbackDays: '3' }).success).toBe(false);
+    });
+
+    it('is a real conversion unless a dry run is asked for', () => {
+      expect(convertSuggestionsSchema.parse({}).dryRun).toBe(false);
+      expect(convertSuggestionsSchema.parse({ dryRun: true, supplierIds: ['3'] })).toMatchObject({ dryRun: true, supplierIds: [3] });
+      expect(convertSuggestionsSchema.safeParse({ items: [{ productId: 1, quantity: 1.5 }] }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Test Suite for the AI Report Query Guard
+ *
+ * Verifies that model-generated SQL is only ever run as a single read-only
+ * SELECT over whitelisted tables/columns, and that accepted queries are
+ * rewritten to the caller's accessible stores.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  prepareReportQuery,
+  validateReportQuery,
+  ReportQueryError,
+  type ReportQueryErrorCode,
+} from '../server/modules/ai/report-query-guard';
+
+function rejectionCode(sql: string, storeIds: number[] = [1]): ReportQueryErrorCode | null {
+  try {
+    prepareReportQuery(sql, { storeIds });
+    return null;
+  } catch (error) {
+    if (error instanceof ReportQueryError) {
+      return error.code;
+    }
+    throw error;
+  }
+}
+
+describe('Report Query Guard', () => {
+  describe('Legitimate queries', () => {
+    const legitimate = [
+      "SELECT created_at::date as date, SUM(total::numeric) as revenue FROM transactions WHERE created_at >= CURRENT_DATE - INTERVAL '30 days' GROUP BY created_at::date ORDER BY date",
+      "SELECT p.name, SUM(ti.quantity) AS units FROM transaction_items ti JOIN products p ON p.id = ti.product_id GROUP BY p.name ORDER BY units DESC LIMIT 10",
+      "SELECT payment_method, COUNT(*) AS count FROM transactions WHERE status = 'completed' GROUP BY payment_method",
+      "SELECT EXTRACT(HOUR FROM created_at) AS hour, COUNT(*) FILTER (WHERE status = 'completed') AS sales FROM transactions GROUP BY 1 ORDER BY 1",
+      "WITH top AS (SELECT customer_id, SUM(total::numeric) AS spent FROM transactions GROUP BY customer_id) SELECT c.name, top.spent, RANK() OVER (ORDER BY top.spent DESC) FROM top JOIN customers c ON c.id = top.customer_id",
+      "SELECT category, COALESCE(SUM(ti.total::numeric), 0) AS revenue FROM products p LEFT JOIN transaction_items ti ON ti.product_id = p.id GROUP BY category",
+      "SELECT name FROM products WHERE id IN (SELECT product_id FROM store_products WHERE stock_quantity < reorder_level)",
+      "SELECT date, total_sales, cash_difference FROM day_operations WHERE status = 'closed' ORDER BY date DESC",
+      "SELECT DATE_TRUNC('month', created_at) AS month, to_char(created_at, 'YYYY-MM') AS label FROM transactions",
+      "SELECT payment_method FROM transactions UNION ALL SELECT 'none'",
+      "SELECT s.name, COUNT(t.id) FROM stores s LEFT JOIN transactions t ON t.store_id = s.id GROUP BY s.name",
+      "SELECT * FROM transactions;",
+    ];
+
+    it.each(legitimate)('accepts %s', (sql) => {
+      expect(rejectionCode(sql)).toBeNull();
+    });
+
+    it('reports the whitelisted tables a query reads', () => {
+      const { tables } = validateReportQuery(
+        "SELECT p.name FROM transaction_items ti JOIN products p ON p.id = ti.product_id"
+      );
+      expect(tables).toEqual(['products', 'transaction_items']);
+    });
+  });
+
+  describe('Malicious or unsafe queries', () => {
+    const cases: Array<[string, ReportQueryErrorCode]> = [
+      ['', 'EMPTY_QUERY'],
+      ['   ', 'EMPTY_QUERY'],
+      ['SELECT FROM WHERE', 'PARSE_ERROR'],
+      ['SELECT 1; DELETE FROM users', 'MULTIPLE_STATEMENTS'],
+      ['SELECT * FROM transactions; DROP TABLE transactions', 'MULTIPLE_STATEMENTS'],
+      ['DELETE FROM transactions', 'NOT_READ_ONLY'],
+      ["UPDATE products SET price = 0", 'NOT_READ_ONLY'],
+      ["INSERT INTO users (username) VALUES ('x')", 'NOT_READ_ONLY'],
+      ['DROP TABLE transactions', 'NOT_READ_ONLY'],
+      ['TRUNCATE transactions', 'NOT_READ_ONLY'],
+      ["SET statement_timeout = 0", 'NOT_READ_ONLY'],
+      ['SELECT * FROM users', 'TABLE_NOT_ALLOWED'],
+      ['SELECT username, password FROM users', 'TABLE_NOT_ALLOWED'],
+      ['SELECT * FROM sessions', 'TABLE_NOT_ALLOWED'],
+      ['SELECT * FROM pg_user', 'TABLE_NOT_ALLOWED'],
+      ['SELECT * FROM pg_catalog.pg_user', 'SCHEMA_QUALIFIED'],
+      ['SELECT * FROM public.transactions', 'SCHEMA_QUALIFIED'],
+      ['SELECT * FROM information_schema.tables', 'SCHEMA_QUALIFIED'],
+      ['SELECT id FROM transactions WHERE customer_id IN (SELECT id FROM users)', 'TABLE_NOT_ALLOWED'],
+      ['SELECT (SELECT password FROM users LIMIT 1) FROM transactions', 'TABLE_NOT_ALLOWED'],
+      ['SELECT * FROM transactions t JOIN customer_auth a ON a.customer_id = t.customer_id', 'TABLE_NOT_ALLOWED'],
+      ['WITH x AS (SELECT * FROM users) SELECT * FROM x', 'TABLE_NOT_ALLOWED'],
+      ['WITH transactions AS (SELECT * FROM products) SELECT * FROM transactions', 'TABLE_NOT_ALLOWED'],
+      ['WITH RECURSIVE r(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM r) SELECT * FROM r', 'RECURSIVE_QUERY'],
+      ['SELECT card_last4 FROM transactions', 'COLUMN_NOT_ALLOWED'],
+      ['SELECT t.auth_code FROM transactions t', 'COLUMN_NOT_ALLOWED'],
+      ['SELECT id_card_image FROM customers', 'COLUMN_NOT_ALLOWED'],
+      ['SELECT pg_sleep(10)', 'FUNCTION_NOT_ALLOWED'],
+      ["SELECT pg_read_file('/etc/passwd')", 'FUNCTION_NOT_ALLOWED'],
+      ["SELECT set_config('statement_timeout', '0', false)", 'FUNCTION_NOT_ALLOWED'],
+      ["SELECT current_setting('is_superuser')", 'FUNCTION_NOT_ALLOWED'],
+      ["SELECT * FROM dblink('host=evil', 'select 1')", 'FUNCTION_NOT_ALLOWED'],
+      ['SELECT pg_catalog.now()', 'SCHEMA_QUALIFIED'],
+      ['SELECT * FROM transactions FOR UPDATE', 'LOCKING_CLAUSE'],
+      ['SELECT * FROM transactions WHERE id = $1', 'PARAMETER_NOT_ALLOWED'],
+      ["SELECT name INTO stolen FROM products", 'PARSE_ERROR'],
+    ];
+
+    it.each(cases)('rejects %s with %s', (sql, code) => {
+      expect(rejectionCode(sql)).toBe(code);
+    });
+
+    it('rejects callers without any accessible store', () => {
+      expect(rejectionCode('SELECT * FROM transactions', [])).toBe('NO_STORE_ACCESS');
+    });
+  });
+
+  describe('Store scoping', () => {
+    it('shadows each referenced table with a store-filtered projection', () => {
+      const { sql, tables } = prepareReportQuery('SELECT SUM(total::numeric) FROM transactions', { storeIds: [3, 7] });
+
+      expect(tables).toEqual(['transactions']);
+      expect(sql).toMatch(/^WITH transactions AS \(SELECT id , transaction_number/);
+      expect(sql).toContain('FROM public.transactions');
+      expect(sql).toMatch(/store_id IN \(\(3\), \(7\)\)/);
+      expect(sql).not.toContain('card_last4');
+    });
+
+    it('scopes transaction items through their transaction', () => {
+      const { sql } = prepareReportQuery('SELECT SUM(quantity) FROM transaction_items', { storeIds: [2] });
+      expect(sql).toContain('transaction_id IN (SELECT id  FROM public.transactions');
+      expect(sql).toMatch(/store_id IN \(2\)/);
+    });
+
+    it('prepends scoped tables to an existing WITH clause', () => {
+      const { sql } = prepareReportQuery(
+        'WITH daily AS (SELECT created_at::date AS d, SUM(total::numeric) AS s FROM transactions GROUP BY 1) SELECT * FROM daily',
+        { storeIds: [1] }
+      );
+      expect(sql.indexOf('transactions AS (')).toBeLessThan(sql.indexOf('daily AS ('));
+      expect(sql.match(/\bWITH\b/g)).toHaveLength(1);
+    });
+
+    it('leaves global tables unfiltered but still projected', () => {
+      const { sql } = prepareReportQuery('SELECT name FROM products', { storeIds: [1] });
+      expect(sql).toMatch(/^WITH products AS \(SELECT id , sku , name/);
+      expect(sql).not.toContain('store_id IN');
+    });
+
+    it('ignores invalid and duplicate store ids', () => {
+      const { sql } = prepareReportQuery('SELECT id FROM day_operations', { storeIds: [4, 4, -1, 1.5] });
+      expect(sql).toMatch(/store_id IN \(4\)/);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Test Suite for Return Calculations
+ *
+ * Covers how refunds are priced per line and the guards that stop a sale
+ * from being refunded beyond what was sold.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateLineRefundables,
+  planReturn,
+  type ReturnedToDate,
+  type SoldLine,
+} from '../server/modules/returns/calculations';
+
+const soldLines: SoldLine[] = [
+  { id: 1, productId: 10, quantity: 3, total: '30.00', discountAmount: '0', vatAmount: '0' },
+  { id: 2, productId: 11, quantity: 1, total: '20.00', discountAmount: '0', vatAmount: '0' },
+];
+
+const plan = (
+  lines: Parameters<typeof planReturn>[0]['lines'],
+  returned: Map<number, ReturnedToDate> = new Map(),
+  transactionTotal = 50,
+) => planReturn({ transactionTotal, soldLines, returned, lines });
+
+describe('Return Calculations', () => {
+  describe('Line refundables', () => {
+    it('uses the line total after discounts plus VAT', () => {
+      const refundables = calculateLineRefundables(
+        [{ id: 1, productId: 1, quantity: 2, total: '20.00', discountAmount: '2.00', vatAmount: '0.90' }],
+        18.9,
+      );
+      expect(refundables.get(1)).toBeCloseTo(18.9);
+    });
+
+    it('spreads a transaction-level discount across lines', () => {
+      const refundables = calculateLineRefundables(soldLines, 40);
+      expect(refundables.get(1)).toBeCloseTo(24);
+      expect(refundables.get(2)).toBeCloseTo(16);
+    });
+  });
+
+  describe('Planning a return', () => {
+    it('prices a partial return per unit', () => {
+      const result = plan([{ transactionItemId: 1, quantity: 1, disposition: 'restock' }]);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.plan.totalRefund).toBe(10);
+      expect(result.plan.lines[0]).toMatchObject({ productId: 10, unitRefund: 10, refundAmount: 10 });
+      expect(result.plan.fullyReturned).toBe(false);
+    });
+
+    it('marks the sale fully returned once every unit is back', () => {
+      const returned = new Map([[1, { quantity: 2, amount: 20 }]]);
+      const result = plan(
+        [
+          { transactionItemId: 1, quantity: 1, disposition: 'restock' },
+          { transactionItemId: 2, quantity: 1, disposition: 'write_off', reasonCode: 'damaged' },
+        ],
+        returned,
+      );
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.plan.totalRefund).toBe(30);
+      expect(result.plan.fullyReturned).toBe(true);
+      expect(result.plan.lines[1]).toMatchObject({ disposition: 'write_off', reasonCode: 'damaged' });
+    });
+
+    it('gives the last units the remaining amount so rounding never drifts', () => {
+      const lines: SoldLine[] = [{ id: 1, productId: 1, quantity: 3, total: '10.00' }];
+      const first = planReturn({
+        transactionTotal: 10,
+        soldLines: lines,
+        returned: new Map(),
+        lines: [{ transactionItemId: 1, quantity: 2, disposition: 'restock' }],
+      });
+      expect(first.success && first.plan.totalRefund).toBe(6.67);
+
+      const last = planReturn({
+        transactionTotal: 10,
+        soldLines: lines,
+        returned: new Map([[1, { quantity: 2, amount: 6.67 }]]),
+        lines: [{ transactionItemId: 1, quantity: 1, disposition: 'restock' }],
+      });
+      expect(last.success && last.plan.totalRefund).toBe(3.33);
+    });
+
+    it('splits the refund into VAT and net amounts', () => {
+      const result = planReturn({
+        transactionTotal: 21,
+        soldLines: [{ id: 1, productId: 1, quantity: 1, total: '20.00', vatAmount: '1.00' }],
+        returned: new Map(),
+        lines: [{ transactionItemId: 1, quantity: 1, disposition: 'restock' }],
+      });
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.plan.vatAmount).toBe(1);
+      expect(result.plan.subtotal).toBe(20);
+    });
+  });
+
+  describe('Guards', () => {
+    it('refuses to return more than was sold', () => {
+      const result = plan([{ transactionItemId: 1, quantity: 4, disposition: 'restock' }]);
+      expect(result).toEqual({ success: false, message: 'Cannot return 4 of item 1: only 3 left to return' });
+    });
+
+    it('counts earlier returns against the sold quantity', () => {
+      const returned = new Map([[2, { quantity: 1, amount: 20 }]]);
+      const result = plan([{ transactionItemId: 2, quantity: 1, disposition: 'restock' }], returned);
+      expect(result).toEqual({ success: false, message: 'Cannot return 1 of item 2: only 0 left to return' });
+    });
+
+    it('rejects items from other sales, duplicates and bad quantities', () => {
+      expect(plan([{ transactionItemId: 99, quantity: 1, disposition: 'restock' }]).success).toBe(false);
+      expect(
+        plan([
+          { transactionItemId: 1, quantity: 1, disposition: 'restock' },
+          { transactionItemId: 1, quantity: 1, disposition: 'restock' },
+        ]).success,
+      ).toBe(false);
+      expect(plan([{ transactionItemId: 1, quantity: 1.5, disposition: 'restock' }]).success).toBe(false);
+      expect(plan([{ transactionItemId: 1, quantity: 0, disposition: 'restock' }]).success).toBe(false);
+      expect(plan([]).success).toBe(false);
+    });
+
+    it('never refunds more than the sale total', () => {
+      const returned = new Map([[1, { quantity: 0, amount: 45 }]]);
+      const result = plan([{ transactionItemId: 2, quantity: 1, disposition: 'restock' }], returned);
+      expect(result).toEqual({ success: false, message: 'Refund amount cannot exceed transaction total' });
+    });
+  });
+});
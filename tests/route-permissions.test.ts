@@ -0,0 +1,388 @@
+/**
+ * Test Suite for Route Permissions
+ *
+ * Registers every API route on a bare Express app and checks that each one
+ * declares its access (a permission or an explicit public marker), then covers
+ * the shared permission matrix and the store scoping applied by
+ * requirePermission and by list routes called without a storeId.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import express from 'express';
+import { canAccessStore, hasPermission } from '../shared/permissions';
+
+// Registering routes must not touch the database, the session store or OpenAI
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+vi.mock('../server/storage', () => ({
+  storage: {
+    getStore: vi.fn(),
+    getUserStoreAssignments: vi.fn(),
+    getTransaction: vi.fn(),
+    getUserAccessibleStores: vi.fn(),
+    getTransactions: vi.fn(),
+    getReturns: vi.fn(),
+    listDayOperations: vi.fn(),
+    getDrawerSessions: vi.fn(),
+    getZReports: vi.fn(),
+    getStockTransfers: vi.fn(),
+    getPurchaseOrders: vi.fn(),
+    getApprovals: vi.fn(),
+    getHeldTransaction: vi.fn(),
+    getGeneratedInvoice: vi.fn(),
+    getPromotion: vi.fn(),
+    getCoupon: vi.fn(),
+    updateCoupon: vi.fn(),
+    getStockTakingSession: vi.fn(),
+    getDailyProductMonitoringById: vi.fn(),
+    getSupplierInvoice: vi.fn(),
+    getPurchaseOrder: vi.fn(),
+    getDayOperationById: vi.fn(),
+    updateDayOperation: vi.fn(),
+  },
+}));
+vi.mock('../server/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../server/auth')>()),
+  setupAuth: () => {},
+}));
+vi.stubEnv('OPENAI_API_KEY', 'test');
+
+interface Layer {
+  route?: { path: string; methods: Record<string, boolean>; stack: Array<{ handle: { access?: unknown } }> };
+  handle: { stack?: Layer[]; access?: unknown };
+  regexp: RegExp;
+}
+
+// Flattens the app and any mounted routers into "METHOD path" entries with their access declarations
+function collectRoutes(stack: Layer[], prefix = ''): Array<{ route: string; access: unknown[] }> {
+  return stack.flatMap((layer) => {
+    if (layer.route) {
+      const access = layer.route.stack.map((entry) => entry.handle.access).filter(Boolean);
+      return Object.keys(layer.route.methods).map((method) => ({
+        route: `${method.toUpperCase()} ${prefix}${layer.route!.path}`,
+        access,
+      }));
+    }
+    if (layer.handle.stack) {
+      // Mount paths only survive as a regexp such as ^\/api\/competitors\/?(?=\/|$)
+      const mountPath = layer.regexp.source.replace('\\/?(?=\\/|$)', '').replace(/^\^/, '').replace(/\\\//g, '/');
+      return collectRoutes(layer.handle.stack, prefix + mountPath);
+    }
+    return [];
+  });
+}
+
+// Runs a route's middleware chain against a signed-in user and returns the response
+async function call(
+  app: express.Express,
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete',
+  path: string,
+  user: { id: number; role: string },
+  req: Record<string, unknown> = {},
+) {
+  const layer = (app as unknown as { _router: { stack: Layer[] } })._router.stack
+    .find((entry) => entry.route?.path === path && entry.route.methods[method]);
+  const res = { statusCode: 200, body: undefined as any, status: vi.fn(), json: vi.fn() };
+  res.status.mockImplementation((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json.mockImplementation((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  const request = { params: {}, query: {}, body: {}, user, isAuthenticated: () => true, ...req };
+  for (const { handle } of (layer!.route as unknown as { stack: Array<{ handle: Function }> }).stack) {
+    let advanced = false;
+    await handle(request, res, () => { advanced = true; });
+    if (!advanced) break;
+  }
+  return res;
+}
+
+describe('Route Permissions', () => {
+  describe('Coverage', () => {
+    it('declares a permission or public access on every /api route', async () => {
+      const { registerRoutes } = await import('../server/routes');
+      const app = express();
+      await registerRoutes(app);
+
+      const routes = collectRoutes((app as unknown as { _router: { stack: Layer[] } })._router.stack)
+        .filter(({ route }) => route.split(' ')[1].startsWith('/api'));
+
+      expect(routes.length).toBeGreaterThan(150);
+      expect(routes.filter(({ access }) => access.length === 0).map(({ route }) => route)).toEqual([]);
+    }, 60000);
+  });
+
+  describe('Permission matrix', () => {
+    it('gives admins everything', () => {
+      expect(hasPermission('admin', 'users', 'update')).toBe(true);
+      expect(hasPermission('admin', 'day-operations', 'reopen')).toBe(true);
+    });
+
+    it('expands resource wildcards for managers but keeps day reopen with admins', () => {
+      expect(hasPermission('manager', 'customers', 'delete')).toBe(true);
+      expect(hasPermission('manager', 'day-operations', 'close')).toBe(true);
+      expect(hasPermission('manager', 'day-operations', 'reopen')).toBe(false);
+      expect(hasPermission('manager', 'users', 'read')).toBe(false);
+    });
+
+    it('limits cashiers to till work', () => {
+      expect(hasPermission('cashier', 'transactions', 'create')).toBe(true);
+      expect(hasPermission('cashier', 'returns', 'create')).toBe(true);
+      expect(hasPermission('cashier', 'transactions', 'refund')).toBe(false);
+      expect(hasPermission('cashier', 'products', 'import')).toBe(false);
+      expect(hasPermission('cashier', 'suppliers', 'read')).toBe(false);
+    });
+
+    it('denies unknown or missing roles', () => {
+      expect(hasPermission(undefined, 'products', 'read')).toBe(false);
+      expect(hasPermission('guest', 'products', 'read')).toBe(false);
+    });
+  });
+
+  describe('Store scoping', () => {
+    const cashier = { id: 5, role: 'cashier' };
+    const store = (id: number, managerId: number | null = null) => ({ id, managerId });
+
+    it('confines assigned users to their stores', () => {
+      const assignments = [{ storeId: 1, canAccess: true }];
+      expect(canAccessStore(cashier, store(1), assignments)).toBe(true);
+      expect(canAccessStore(cashier, store(2), assignments)).toBe(false);
+    });
+
+    it('honours revoked assignments', () => {
+      expect(canAccessStore(cashier, store(1), [{ storeId: 1, canAccess: false }])).toBe(false);
+      // A revoked assignment alone does not scope the user to other stores
+      expect(canAccessStore(cashier, store(2), [{ storeId: 1, canAccess: false }])).toBe(true);
+    });
+
+    it('leaves unassigned users, store managers and admins unscoped', () => {
+      expect(canAccessStore(cashier, store(2), [])).toBe(true);
+      expect(canAccessStore(cashier, store(2, 5), [{ storeId: 1, canAccess: true }])).toBe(true);
+      expect(canAccessStore({ id: 1, role: 'admin' }, store(2), [{ storeId: 1, canAccess: true }])).toBe(true);
+    });
+  });
+
+  describe('requirePermission', () => {
+    let storage: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeEach(async () => {
+      storage = (await import('../server/storage')).storage as unknown as typeof storage;
+      storage.getStore.mockImplementation(async (id: number) => ({ id, managerId: null }));
+      storage.getUserStoreAssignments.mockResolvedValue([{ storeId: 1, canAccess: true }]);
+      storage.getTransaction.mockResolvedValue({ id: 9, storeId: 2 });
+    });
+
+    const run = async (
+      middleware: (req: any, res: any, next: () => void) => Promise<unknown>,
+      req: Record<string, unknown>,
+    ) => {
+      const res = { statusCode: 200, status: vi.fn(), json: vi.fn() };
+      res.status.mockImplementation((code: number) => {
+        res.statusCode = code;
+        return res;
+      });
+      const next = vi.fn();
+      await middleware({ params: {}, query: {}, body: {}, ...req }, res, next);
+      return { status: next.mock.calls.length ? 'next' : res.statusCode };
+    };
+
+    it('rejects anonymous requests and roles without the permission', async () => {
+      const { requirePermission } = await import('../server/modules/shared/authorization');
+      const middleware = requirePermission('products', 'import');
+
+      expect(await run(middleware, {})).toEqual({ status: 401 });
+      expect(await run(middleware, { user: { id: 5, role: 'cashier' } })).toEqual({ status: 403 });
+      expect(await run(middleware, { user: { id: 2, role: 'manager' } })).toEqual({ status: 'next' });
+    });
+
+    it('blocks requests for a store the user is not assigned to', async () => {
+      const { requirePermission } = await import('../server/modules/shared/authorization');
+      const middleware = requirePermission('transactions', 'read');
+      const user = { id: 5, role: 'cashier' };
+
+      expect(await run(middleware, { user, query: { storeId: '1' } })).toEqual({ status: 'next' });
+      expect(await run(middleware, { user, query: { storeId: '2' } })).toEqual({ status: 403 });
+      expect(await run(middleware, { user, params: { storeId: '2' } })).toEqual({ status: 403 });
+      expect(await run(middleware, { user, body: { storeId: 2 } })).toEqual({ status: 403 });
+    });
+
+    it("checks the owning store of records addressed by id", async () => {
+      const { requirePermission, transactionStore } = await import('../server/modules/shared/authorization');
+      const middleware = requirePermission('transactions', 'read', { storeOf: transactionStore });
+
+      expect(await run(middleware, { user: { id: 5, role: 'cashier' }, params: { id: '9' } })).toEqual({ status: 403 });
+      expect(await run(middleware, { user: { id: 1, role: 'admin' }, params: { id: '9' } })).toEqual({ status: 'next' });
+    });
+
+    it('finds the store of records that belong to one through another record', async () => {
+      const resolvers = await import('../server/modules/shared/authorization');
+      storage.getHeldTransaction.mockResolvedValue({ id: 3, storeId: 2 });
+      storage.getGeneratedInvoice.mockResolvedValue({ id: 3, storeId: 2 });
+      storage.getPromotion.mockResolvedValue({ id: 4, storeId: 2 });
+      storage.getCoupon.mockResolvedValue({ id: 3, promotionId: 4 });
+      storage.getStockTakingSession.mockResolvedValue({ id: 3, storeId: 2 });
+      storage.getDailyProductMonitoringById.mockResolvedValue({ id: 3, dayOperationId: 8 });
+      storage.getDayOperationById.mockResolvedValue({ id: 8, storeId: 2 });
+      storage.getSupplierInvoice.mockResolvedValue({ id: 3, purchaseOrderId: 6 });
+      storage.getPurchaseOrder.mockResolvedValue({ id: 6, storeId: 2 });
+      const req = { params: { id: '3' } } as any;
+
+      for (const resolve of [
+        resolvers.heldTransactionStore,
+        resolvers.invoiceStore,
+        resolvers.promotionStore,
+        resolvers.couponStore,
+        resolvers.stockTakingSessionStore,
+        resolvers.dailyMonitoringStore,
+        resolvers.supplierInvoiceStore,
+      ]) {
+        expect(await resolve(req)).toBe(2);
+      }
+      expect(await resolvers.storeItself({ params: { id: '2' } } as any)).toBe(2);
+
+      // Invoices not raised against an order belong to no one store
+      storage.getSupplierInvoice.mockResolvedValue({ id: 3, purchaseOrderId: null });
+      expect(await resolvers.supplierInvoiceStore(req)).toBeNull();
+    });
+  });
+
+  describe('Lists without a storeId', () => {
+    let app: express.Express;
+    let storage: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeAll(async () => {
+      const { registerRoutes } = await import('../server/routes');
+      app = express();
+      await registerRoutes(app);
+    }, 60000);
+
+    beforeEach(async () => {
+      storage = (await import('../server/storage')).storage as unknown as typeof storage;
+      storage.getUserAccessibleStores.mockResolvedValue([{ id: 1, name: 'Main' }]);
+      storage.getTransactions.mockResolvedValue([]);
+      storage.getReturns.mockResolvedValue([]);
+      storage.listDayOperations.mockResolvedValue({ data: [], total: 0 });
+      storage.getDrawerSessions.mockResolvedValue([]);
+      storage.getZReports.mockResolvedValue([]);
+      storage.getStockTransfers.mockResolvedValue([]);
+      storage.getPurchaseOrders.mockResolvedValue([]);
+      storage.getApprovals.mockResolvedValue([]);
+    });
+
+    const get = async (path: string, user: { id: number; role: string }) => (await call(app, 'get', path, user)).statusCode;
+
+    const lists = [
+      ['/api/transactions', 'getTransactions'],
+      ['/api/returns', 'getReturns'],
+      ['/api/day-operations', 'listDayOperations'],
+      ['/api/drawer-sessions', 'getDrawerSessions'],
+      ['/api/z-reports', 'getZReports'],
+      ['/api/stock-transfers', 'getStockTransfers'],
+      ['/api/purchase-orders', 'getPurchaseOrders'],
+      ['/api/approvals', 'getApprovals'],
+    ] as const;
+
+    it("limits a single-store user to that store's records", async () => {
+      for (const [path, method] of lists) {
+        expect(await get(path, { id: 5, role: 'manager' })).toBe(200);
+        const [filter] = storage[method].mock.lastCall!;
+        expect(method === 'getTransactions' ? filter : filter.storeIds).toEqual([1]);
+      }
+      expect(storage.getUserAccessibleStores).toHaveBeenCalledWith(5);
+    });
+
+    it('leaves admins unscoped', async () => {
+      storage.getUserAccessibleStores.mockClear();
+      for (const [path, method] of lists) {
+        expect(await get(path, { id: 1, role: 'admin' })).toBe(200);
+        const [filter] = storage[method].mock.lastCall!;
+        expect(method === 'getTransactions' ? filter : filter.storeIds).toBeUndefined();
+      }
+      expect(storage.getUserAccessibleStores).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Day operation updates', () => {
+    let app: express.Express;
+    let storage: Record<string, ReturnType<typeof vi.fn>>;
+    const admin = { id: 1, role: 'admin' };
+
+    beforeAll(async () => {
+      const { registerRoutes } = await import('../server/routes');
+      app = express();
+      await registerRoutes(app);
+    }, 60000);
+
+    beforeEach(async () => {
+      storage = (await import('../server/storage')).storage as unknown as typeof storage;
+      storage.updateDayOperation.mockReset();
+      storage.updateDayOperation.mockImplementation(async (id: number, data: object) => ({ id, ...data }));
+    });
+
+    const update = (body: Record<string, unknown>) =>
+      call(app, 'patch', '/api/day-operations/:id', admin, { params: { id: '3' }, body });
+
+    it('leaves the status, close time and totals to the close', async () => {
+      storage.getDayOperationById.mockResolvedValue({ id: 3, storeId: 1, status: 'open' });
+
+      const res = await update({
+        status: 'closed',
+        closedAt: '2025-03-10T22:00:00Z',
+        totalSales: '99999.00',
+        cashSales: '99999.00',
+        expectedCash: '0.00',
+        cashDifference: '0.00',
+        totalTransactions: 4,
+        miscNotes: 'Till 2 jammed',
+        openingCash: '250.00',
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(storage.updateDayOperation).toHaveBeenCalledWith(3, { miscNotes: 'Till 2 jammed', openingCash: '250.00' });
+    });
+
+    it('refuses changes to a day that is not open', async () => {
+      storage.getDayOperationById.mockResolvedValue({ id: 3, storeId: 1, status: 'closed' });
+
+      const res = await update({ miscNotes: 'Adjusted later' });
+
+      expect(res.statusCode).toBe(409);
+      expect(storage.updateDayOperation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Records addressed by id', () => {
+    let app: express.Express;
+    let storage: Record<string, ReturnType<typeof vi.fn>>;
+    const manager = { id: 5, role: 'manager' };
+
+    beforeAll(async () => {
+      const { registerRoutes } = await import('../server/routes');
+      app = express();
+      await registerRoutes(app);
+    }, 60000);
+
+    beforeEach(async () => {
+      storage = (await import('../server/storage')).storage as unknown as typeof storage;
+      storage.getStore.mockImplementation(async (id: number) => ({ id, managerId: null }));
+      storage.getUserStoreAssignments.mockResolvedValue([{ storeId: 1, canAccess: true }]);
+      storage.getCoupon.mockResolvedValue({ id: 3, promotionId: 4 });
+      storage.updateCoupon.mockReset();
+      storage.updateCoupon.mockResolvedValue({ id: 3 });
+    });
+
+    it("keeps a manager to their own store's coupons", async () => {
+      storage.getPromotion.mockResolvedValue({ id: 4, storeId: 2 });
+      const other = await call(app, 'patch', '/api/coupons/:id', manager, { params: { id: '3' }, body: { isActive: false } });
+      expect(other.statusCode).toBe(403);
+      expect(storage.updateCoupon).not.toHaveBeenCalled();
+
+      storage.getPromotion.mockResolvedValue({ id: 4, storeId: 1 });
+      const own = await call(app, 'patch', '/api/coupons/:id', manager, { params: { id: '3' }, body: { isActive: false } });
+      expect(own.statusCode).toBe(200);
+      expect(storage.updateCoupon).toHaveBeenCalledWith(3, { isActive: false });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Test Suite for Retried Checkouts
+ *
+ * Covers recording a till sale under its idempotency key: the first attempt
+ * writes the sale, and an attempt that finds the key already recorded gets
+ * the stored sale back without writing a second one. The database is a
+ * stand-in that answers reads with the rows given for each table.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { transactionItems, transactions } from '../shared/schema';
+import { createSale } from '../server/modules/transactions/storage';
+
+// Rows each table answers with, and what was inserted and how conflicts were handled
+const fake = vi.hoisted(() => ({
+  rows: new Map<unknown, unknown[]>(),
+  inserted: [] as Array<{ table: unknown; values: unknown }>,
+  conflictTargets: [] as unknown[],
+  // Whether the sale's insert finds its idempotency key already taken
+  keyTaken: false,
+}));
+vi.mock('../server/db', () => {
+  const tx = {
+    select: () => ({
+      from: (table: unknown) => ({
+        where: async () => fake.rows.get(table) ?? [],
+      }),
+    }),
+    insert: (table: unknown) => ({
+      values: (values: unknown) => {
+        let skipped = false;
+        const builder: any = {
+          onConflictDoNothing: (options: { target: unknown }) => {
+            fake.conflictTargets.push(options.target);
+            skipped = fake.keyTaken;
+            return builder;
+          },
+          returning: async () => {
+            if (skipped) return [];
+            fake.inserted.push({ table, values });
+            const rows = Array.isArray(values) ? values : [values];
+            return rows.map((row, index) => ({ id: 50 + index, ...row }));
+          },
+        };
+        return builder;
+      },
+    }),
+  };
+  return { db: { transaction: async (work: (tx: unknown) => unknown) => work(tx) }, pool: {} };
+});
+
+const sale = {
+  transactionNumber: 'TXN-20910314-0001',
+  storeId: 2,
+  cashierId: 3,
+  paymentMethod: 'card',
+  status: 'pending',
+  subtotal: '12.00',
+  total: '12.00',
+  idempotencyKey: 'c0ffee00-0000-4000-8000-000000000002',
+} as any;
+const lines = [{ productId: null, quantity: '1', unitPrice: '12.00', total: '12.00' }] as any;
+
+describe('Retried Checkouts', () => {
+  beforeEach(() => {
+    fake.inserted = [];
+    fake.conflictTargets = [];
+    fake.keyTaken = false;
+    fake.rows = new Map<unknown, unknown[]>([
+      [transactions, [{ ...sale, id: 7, transactionNumber: 'TXN-20910314-0000' }]],
+      [transactionItems, [{ id: 70, transactionId: 7, quantity: '1', total: '12.00' }]],
+    ]);
+  });
+
+  it('records a new sale and leaves a repeated key to the database', async () => {
+    const result = await createSale(sale, lines);
+
+    expect(result).toMatchObject({ success: true, duplicate: false, transaction: { id: 50 } });
+    expect(fake.conflictTargets).toEqual([transactions.idempotencyKey]);
+    expect(fake.inserted.map((insert) => insert.table)).toEqual([transactions, transactionItems]);
+  });
+
+  it('returns the stored sale when another attempt recorded the key first', async () => {
+    fake.keyTaken = true;
+
+    const result = await createSale(sale, lines);
+
+    expect(result).toEqual({
+      success: true,
+      duplicate: true,
+      transaction: expect.objectContaining({ id: 7, idempotencyKey: sale.idempotencyKey }),
+      transactionItems: [expect.objectContaining({ id: 70, transactionId: 7 })],
+    });
+    expect(fake.inserted).toHaveLength(0);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Test Suite for the Store Stock Ledger
+ *
+ * Covers which way each kind of movement may move stock, how stock
+ * adjustments map onto the ledger, drift detection between cached quantities
+ * and ledger totals, the per-store negative stock policy, and what a sale by
+ * weight writes to the ledger, its cost layer and its lot.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_INVENTORY_POLICY, readInventoryPolicy } from '../shared/inventory';
+import { costLayerMovements, costLayers, inventoryMovements, stockLotMovements, stockLots, storeProducts } from '../shared/schema';
+import { lineBaseQuantity } from '../shared/units';
+import {
+  InsufficientStockError,
+  adjustmentMovementType,
+  checkMovement,
+  findLedgerDrift,
+  toQuantity,
+} from '../server/modules/inventory/ledger';
+import { applyStockMovements, type StockExecutor } from '../server/modules/inventory/storage';
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+
+/**
+ * Stands in for a drizzle executor: reads answer with the rows given for
+ * their table, and inserts are recorded with the values they were given.
+ */
+function fakeExecutor(rows: Map<unknown, unknown[]>) {
+  const inserted: Array<{ table: unknown; values: Record<string, unknown> }> = [];
+  const query = (result: () => unknown[]): any => {
+    const builder: any = new Proxy({}, {
+      get: (_target, key) => key === 'then'
+        ? (resolve: (value: unknown) => void, reject: (error: unknown) => void) => Promise.resolve(result()).then(resolve, reject)
+        : () => builder,
+    });
+    return builder;
+  };
+  const executor = {
+    select: () => ({ from: (table: unknown) => query(() => rows.get(table) ?? []) }),
+    update: (table: unknown) => query(() => rows.get(table) ?? []),
+    insert: (table: unknown) => ({
+      values: (values: Record<string, unknown>) => {
+        inserted.push({ table, values });
+        return query(() => [{ id: inserted.length, ...values }]);
+      },
+    }),
+  };
+  return { executor: executor as unknown as StockExecutor, inserted };
+}
+
+describe('Stock Ledger', () => {
+  describe('Movement direction', () => {
+    it('accepts movements that go the way their type says', () => {
+      expect(checkMovement({ movementType: 'sale', quantity: -2 })).toBeNull();
+      expect(checkMovement({ movementType: 'receipt', quantity: 10 })).toBeNull();
+      expect(checkMovement({ movementType: 'return', quantity: 1 })).toBeNull();
+      expect(checkMovement({ movementType: 'transfer_out', quantity: -4 })).toBeNull();
+    });
+
+    it('rejects sales that add stock and receipts that remove it', () => {
+      expect(checkMovement({ movementType: 'sale', quantity: 2 })).toBe('A sale movement cannot add stock');
+      expect(checkMovement({ movementType: 'receipt', quantity: -1 })).toBe('A receipt movement cannot remove stock');
+      expect(checkMovement({ movementType: 'write_off', quantity: 3 })).not.toBeNull();
+      expect(checkMovement({ movementType: 'void', quantity: -1 })).not.toBeNull();
+    });
+
+    it('lets counts and adjustments go either way', () => {
+      expect(checkMovement({ movementType: 'stock_take', quantity: -3 })).toBeNull();
+      expect(checkMovement({ movementType: 'stock_take', quantity: 3 })).toBeNull();
+      expect(checkMovement({ movementType: 'adjustment', quantity: -0.5 })).toBeNull();
+    });
+
+    it('rejects quantities that are not numbers', () => {
+      expect(checkMovement({ movementType: 'adjustment', quantity: NaN })).toBe('Quantity must be a number');
+    });
+  });
+
+  describe('Stock adjustments', () => {
+    it('keeps receipts, supplier returns and write-offs distinct', () => {
+      expect(adjustmentMovementType('receipt', 12)).toBe('receipt');
+      expect(adjustmentMovementType('return', -3)).toBe('supplier_return');
+      expect(adjustmentMovementType('write_off', -1)).toBe('write_off');
+    });
+
+    it('books anything else, or a change against its type, as an adjustment', () => {
+      expect(adjustmentMovementType('manual', -2)).toBe('adjustment');
+      expect(adjustmentMovementType('receipt', -2)).toBe('adjustment');
+      expect(adjustmentMovementType('return', 2)).toBe('adjustment');
+    });
+  });
+
+  describe('Ledger drift', () => {
+    it('reports only store products whose cache differs from their ledger', () => {
+      const onHand = [
+        { storeId: 1, productId: 10, stockQuantity: '5.00' },
+        { storeId: 1, productId: 11, stockQuantity: '7.00' },
+        { storeId: 2, productId: 10, stockQuantity: '0.00' },
+      ];
+      const ledger = [
+        { storeId: 1, productId: 10, total: '5.00' },
+        { storeId: 1, productId: 11, total: '9.00' },
+      ];
+      expect(findLedgerDrift(onHand, ledger)).toEqual([{ storeId: 1, productId: 11, cached: 7, ledger: 9 }]);
+    });
+
+    it('treats a product with no movements as a ledger total of zero', () => {
+      expect(findLedgerDrift([{ storeId: 3, productId: 4, stockQuantity: '2.50' }], [])).toEqual([
+        { storeId: 3, productId: 4, cached: 2.5, ledger: 0 },
+      ]);
+    });
+
+    it('ignores rounding noise in decimal sums', () => {
+      expect(findLedgerDrift(
+        [{ storeId: 1, productId: 1, stockQuantity: '0.30' }],
+        [{ storeId: 1, productId: 1, total: 0.1 + 0.2 }],
+      )).toEqual([]);
+    });
+  });
+
+  describe('Quantities', () => {
+    it('parses decimal strings and falls back to zero', () => {
+      expect(toQuantity('12.3456')).toBe(12.346);
+      expect(toQuantity('0.125')).toBe(0.125);
+      expect(toQuantity(null)).toBe(0);
+      expect(toQuantity('n/a')).toBe(0);
+    });
+  });
+
+  describe('Negative stock policy', () => {
+    it('allows negative stock unless the store turns it off', () => {
+      expect(readInventoryPolicy(null)).toEqual(DEFAULT_INVENTORY_POLICY);
+      expect(readInventoryPolicy({ approvals: {} }).allowNegativeStock).toBe(true);
+      expect(readInventoryPolicy({ inventory: { allowNegativeStock: false } }).allowNegativeStock).toBe(false);
+    });
+
+    it('ignores malformed settings', () => {
+      expect(readInventoryPolicy({ inventory: { allowNegativeStock: 'no' } }).allowNegativeStock).toBe(true);
+      expect(readInventoryPolicy({ inventory: 'strict' }).allowNegativeStock).toBe(true);
+    });
+
+    it('describes the shortage when a sale is refused', () => {
+      const error = new InsufficientStockError({ storeId: 1, productId: 8, available: 2, requested: 5 });
+      expect(error.message).toBe('Only 2 in stock for product 8');
+      expect(error.shortage.requested).toBe(5);
+    });
+  });
+
+  describe('Sales by weight', () => {
+    it('takes 0.125 kg off the ledger, the cost layer and the lot to the gram', async () => {
+      const { executor, inserted } = fakeExecutor(new Map<unknown, unknown[]>([
+        // The stock after the sale, as the update returns it
+        [storeProducts, [{ stockQuantity: '1.875', averageCost: '4.0000', costPrice: '4.00' }]],
+        [costLayers, [{ id: 3, quantityRemaining: '2.000', unitCost: '4.0000' }]],
+        [stockLots, [{ id: 4, quantityRemaining: '0.500' }]],
+      ]));
+      const quantity = lineBaseQuantity({ quantity: '0.125', unitFactor: '1.0000' });
+
+      await applyStockMovements(
+        [{ storeId: 1, productId: 7, movementType: 'sale', quantity: -quantity, sourceType: 'transaction', sourceId: 42 }],
+        { executor, allowNegative: false },
+      );
+
+      const written = (table: unknown) => inserted.filter((row) => row.table === table).map((row) => row.values);
+      expect(written(inventoryMovements)).toEqual([
+        expect.objectContaining({ movementType: 'sale', quantity: '-0.125', balanceAfter: '1.875', unitCost: '4.0000' }),
+      ]);
+      expect(written(costLayerMovements)).toEqual([expect.objectContaining({ layerId: 3, quantity: '-0.125' })]);
+      expect(written(stockLotMovements)).toEqual([expect.objectContaining({ lotId: 4, quantity: '-0.125' })]);
+    });
+  });
+});
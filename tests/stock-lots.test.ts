@@ -0,0 +1,168 @@
+/**
+ * Test Suite for Stock Lots and Expiry Dates
+ *
+ * Covers reading lot details off deliveries, first-expired-first-out
+ * depletion, the expiring-soon classification, markdown suggestions for lots
+ * that will not sell in time, and the per-lot variance of a monitored day.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addDays,
+  allocateToLots,
+  checkLotCounts,
+  compareFefo,
+  daysUntilExpiry,
+  expiringLotsQuerySchema,
+  expiryStatus,
+  lotVarianceBreakdown,
+  normaliseLotNumber,
+  parseExpiryDate,
+  suggestMarkdown,
+  writeOffLotSchema,
+  type LotDayActivity,
+} from '../server/modules/inventory/lots';
+import { planGoodsReceipt, receiveGoodsSchema } from '../server/modules/purchasing/purchasing';
+import { hasPermission } from '../shared/permissions';
+
+const lot = (id: number, expiryDate: string | null, receivedAt = '2024-03-01T08:00:00Z') => ({ id, expiryDate, receivedAt });
+
+const activity = (overrides: Partial<LotDayActivity> = {}): LotDayActivity => ({
+  lotId: 1,
+  lotNumber: 'L-100',
+  expiryDate: '2024-03-12',
+  opening: 10,
+  received: 0,
+  sold: 4,
+  other: 0,
+  ...overrides,
+});
+
+describe('Stock Lots', () => {
+  describe('Lot details', () => {
+    it('reads expiry dates and treats blanks as none', () => {
+      expect(parseExpiryDate('2024-03-15')).toBe('2024-03-15');
+      expect(parseExpiryDate('2024-03-15T00:00:00.000Z')).toBe('2024-03-15');
+      expect(parseExpiryDate('')).toBeNull();
+      expect(parseExpiryDate(undefined)).toBeNull();
+      expect(() => parseExpiryDate('2024-02-30')).toThrow('Invalid expiry date');
+      expect(() => parseExpiryDate('15/03/2024')).toThrow();
+    });
+
+    it('trims lot numbers', () => {
+      expect(normaliseLotNumber('  B2024-11 ')).toBe('B2024-11');
+      expect(normaliseLotNumber('   ')).toBeNull();
+      expect(normaliseLotNumber(null)).toBeNull();
+    });
+
+    it('carries lot and expiry from a goods receipt to the stock', () => {
+      const receipt = receiveGoodsSchema.parse({ items: [{ itemId: 1, quantity: 12, lotNumber: ' L7 ', expiryDate: '2024-04-01' }] });
+      const plan = planGoodsReceipt([{ id: 1, productId: 5, quantityOrdered: '12', quantityReceived: '0', unitCost: '3.20' }], receipt);
+      expect(plan.success && plan.lines[0]).toMatchObject({ lotNumber: 'L7', expiryDate: '2024-04-01', unitCost: 3.2 });
+      expect(receiveGoodsSchema.safeParse({ items: [{ itemId: 1, quantity: 1, expiryDate: 'soon' }] }).success).toBe(false);
+    });
+  });
+
+  describe('First expired, first out', () => {
+    it('orders lots by expiry, then lots without one, then by arrival', () => {
+      const lots = [
+        lot(1, null),
+        lot(2, '2024-03-20'),
+        lot(3, '2024-03-10', '2024-03-02T08:00:00Z'),
+        lot(4, '2024-03-10', '2024-03-01T08:00:00Z'),
+      ];
+      expect([...lots].sort(compareFefo).map((l) => l.id)).toEqual([4, 3, 2, 1]);
+    });
+
+    it('takes a sale from the first lots and leaves what they cannot cover untracked', () => {
+      const pools = [{ id: 4, available: 3 }, { id: 2, available: 5 }];
+      expect(allocateToLots(pools, 6)).toEqual({
+        allocations: [{ lotId: 4, quantity: 3 }, { lotId: 2, quantity: 3 }],
+        untracked: 0,
+      });
+      expect(allocateToLots(pools, 10)).toEqual({
+        allocations: [{ lotId: 4, quantity: 3 }, { lotId: 2, quantity: 5 }],
+        untracked: 2,
+      });
+    });
+
+    it('skips empty lots and handles part units', () => {
+      expect(allocateToLots([{ id: 1, available: 0 }, { id: 2, available: 1.25 }], 0.5)).toEqual({
+        allocations: [{ lotId: 2, quantity: 0.5 }],
+        untracked: 0,
+      });
+    });
+  });
+
+  describe('Expiry', () => {
+    it('counts days to expiry and classifies lots against the window', () => {
+      expect(daysUntilExpiry('2024-03-12', '2024-03-10')).toBe(2);
+      expect(daysUntilExpiry('2024-03-09', '2024-03-10')).toBe(-1);
+      expect(addDays('2024-02-27', 3)).toBe('2024-03-01');
+      expect(expiryStatus('2024-03-10', '2024-03-10')).toBe('expiring');
+      expect(expiryStatus('2024-03-09', '2024-03-10')).toBe('expired');
+      expect(expiryStatus('2024-03-30', '2024-03-10')).toBe('ok');
+      expect(expiryStatus('2024-03-30', '2024-03-10', 30)).toBe('expiring');
+      expect(expiryStatus(null, '2024-03-10')).toBe('none');
+    });
+
+    it('defaults the dashboard to a week including expired lots', () => {
+      expect(expiringLotsQuerySchema.parse({})).toEqual({ days: 7, includeExpired: true });
+      expect(expiringLotsQuerySchema.parse({ days: '3', includeExpired: 'false' })).toMatchObject({ days: 3, includeExpired: false });
+      expect(writeOffLotSchema.parse({})).toEqual({ reason: 'Expired' });
+      expect(writeOffLotSchema.safeParse({ quantity: -1 }).success).toBe(false);
+    });
+  });
+
+  describe('Markdowns', () => {
+    it('leaves lots alone that recent sales will clear in time', () => {
+      expect(suggestMarkdown({ quantityRemaining: 10, daysLeft: 4, price: 8, dailySales: 2 })).toBeNull();
+    });
+
+    it('discounts more the closer the lot is to expiry', () => {
+      const week = suggestMarkdown({ quantityRemaining: 30, daysLeft: 6, price: 10, dailySales: 1 });
+      expect(week).toEqual({ action: 'markdown', discountPercent: 20, suggestedPrice: 8, unsoldAtCurrentRate: 23 });
+      expect(suggestMarkdown({ quantityRemaining: 30, daysLeft: 3, price: 10, dailySales: 1 })).toMatchObject({ discountPercent: 30 });
+      expect(suggestMarkdown({ quantityRemaining: 30, daysLeft: 0, price: 10, dailySales: 1 })).toMatchObject({ discountPercent: 50, suggestedPrice: 5 });
+      expect(suggestMarkdown({ quantityRemaining: 30, daysLeft: 20, price: 10, dailySales: 0 })).toMatchObject({ discountPercent: 10 });
+    });
+
+    it('writes off lots that have expired', () => {
+      expect(suggestMarkdown({ quantityRemaining: 4, daysLeft: -1, price: 10, dailySales: 5 })).toEqual({ action: 'write_off', reason: 'Expired' });
+      expect(suggestMarkdown({ quantityRemaining: 0, daysLeft: -1, price: 10, dailySales: 5 })).toBeNull();
+    });
+  });
+
+  describe('Variance by lot', () => {
+    it('adds the stock outside any lot so the lines match the product', () => {
+      const { lines, totals } = lotVarianceBreakdown([activity(), activity({ lotId: 2, lotNumber: 'L-101', opening: 0, received: 12, sold: 0 })], 21, new Map(), 2);
+      expect(lines.map((line) => [line.lotId, line.systemClosing])).toEqual([[1, 6], [2, 12], [null, 3]]);
+      expect(totals).toEqual({ systemClosing: 21, counted: null, variance: null, varianceValue: null });
+    });
+
+    it('shows which lot the variance came from once counted', () => {
+      const counts = new Map<number | null, number>([[1, 5], [2, 12]]);
+      const { lines, totals } = lotVarianceBreakdown([activity(), activity({ lotId: 2, opening: 12, sold: 0 })], 18, counts, 2.5);
+      expect(lines.map((line) => line.variance)).toEqual([-1, 0]);
+      expect(lines[0].varianceValue).toBe(-2.5);
+      expect(totals).toEqual({ systemClosing: 18, counted: 17, variance: -1, varianceValue: -2.5 });
+    });
+
+    it('needs every line counted exactly once', () => {
+      const { lines } = lotVarianceBreakdown([activity()], 8, new Map(), 1);
+      expect(checkLotCounts(lines, [{ lotId: 1, countedQuantity: 6 }])).toBe('Count the stock outside any lot as well');
+      expect(checkLotCounts(lines, [{ lotId: 1, countedQuantity: 6 }, { lotId: null, countedQuantity: 2 }])).toBeNull();
+      expect(checkLotCounts(lines, [{ lotId: 9, countedQuantity: 1 }])).toBe("Lot 9 is not part of this product's day");
+      expect(checkLotCounts(lines, [{ lotId: 1, countedQuantity: 1 }, { lotId: 1, countedQuantity: 1 }])).toBe('Each lot can only be counted once');
+    });
+  });
+
+  describe('Permissions', () => {
+    it('lets managers write off lots but not supervisors or cashiers', () => {
+      expect(hasPermission('manager', 'inventory', 'write-off')).toBe(true);
+      expect(hasPermission('supervisor', 'inventory', 'write-off')).toBe(false);
+      expect(hasPermission('cashier', 'inventory', 'write-off')).toBe(false);
+      expect(hasPermission('supervisor', 'inventory', 'read')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Test Suite for Inter-Store Stock Transfers
+ *
+ * Covers request validation, what a dispatch takes off the sending store,
+ * partial and closing receipts with discrepancy notes, who may do what, and
+ * the printed transfer note.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTransferSchema,
+  formatTransferNumber,
+  outstandingQuantity,
+  planDispatch,
+  planReceipt,
+  statusAfterReceipt,
+} from '../server/modules/transfers/transfers';
+import { layoutTransferNote, type PdfLayout, type TextMeasurer } from '../server/modules/invoices/pdf-layout';
+import { hasPermission } from '../shared/permissions';
+
+const line = (id: number, requested: string, dispatched = '0', received = '0', discrepancyNote: string | null = null) => ({
+  id,
+  productId: id * 10,
+  quantityRequested: requested,
+  quantityDispatched: dispatched,
+  quantityReceived: received,
+  discrepancyNote,
+});
+
+const measurer: TextMeasurer = {
+  widthOf: (text, size) => Array.from(text).length * size * 0.5,
+};
+
+const textsOn = (layout: PdfLayout, pageIndex: number) =>
+  layout.pages[pageIndex].ops.flatMap((op) => (op.type === 'text' ? [op.text] : []));
+
+describe('Stock Transfers', () => {
+  describe('Requests', () => {
+    it('accepts a transfer between two stores', () => {
+      const parsed = createTransferSchema.safeParse({
+        fromStoreId: 1,
+        toStoreId: 2,
+        items: [{ productId: 5, quantity: '3' }],
+      });
+      expect(parsed.success).toBe(true);
+    });
+
+    it('rejects a transfer to the same store', () => {
+      const parsed = createTransferSchema.safeParse({ fromStoreId: 1, toStoreId: 1, items: [{ productId: 5, quantity: 1 }] });
+      expect(parsed.success).toBe(false);
+      expect(parsed.error?.errors[0]?.message).toBe('A transfer needs two different stores');
+    });
+
+    it('rejects repeated products and empty or fractional-cent quantities', () => {
+      const repeated = createTransferSchema.safeParse({
+        fromStoreId: 1,
+        toStoreId: 2,
+        items: [{ productId: 5, quantity: 1 }, { productId: 5, quantity: 2 }],
+      });
+      expect(repeated.success).toBe(false);
+      expect(createTransferSchema.safeParse({ fromStoreId: 1, toStoreId: 2, items: [] }).success).toBe(false);
+      expect(createTransferSchema.safeParse({ fromStoreId: 1, toStoreId: 2, items: [{ productId: 5, quantity: 0 }] }).success).toBe(false);
+      expect(createTransferSchema.safeParse({ fromStoreId: 1, toStoreId: 2, items: [{ productId: 5, quantity: 1.005 }] }).success).toBe(false);
+    });
+
+    it('numbers transfers from their id', () => {
+      expect(formatTransferNumber(42)).toBe('TR-000042');
+    });
+  });
+
+  describe('Dispatch', () => {
+    it('sends the requested quantities when nothing was picked differently', () => {
+      const plan = planDispatch([line(1, '5'), line(2, '2.5')], []);
+      expect(plan).toEqual({
+        success: true,
+        lines: [
+          { itemId: 1, productId: 10, quantity: 5 },
+          { itemId: 2, productId: 20, quantity: 2.5 },
+        ],
+      });
+    });
+
+    it('lets the picker send less, or nothing, of a line', () => {
+      const plan = planDispatch([line(1, '5'), line(2, '2')], [{ itemId: 1, quantity: 3 }, { itemId: 2, quantity: 0 }]);
+      expect(plan.success && plan.lines.map((l) => l.quantity)).toEqual([3, 0]);
+    });
+
+    it('refuses to send more than requested or nothing at all', () => {
+      expect(planDispatch([line(1, '5')], [{ itemId: 1, quantity: 6 }]).success).toBe(false);
+      expect(planDispatch([line(1, '5')], [{ itemId: 1, quantity: 0 }])).toEqual({
+        success: false,
+        message: 'Nothing was picked; cancel the transfer instead',
+      });
+      expect(planDispatch([line(1, '5')], [{ itemId: 9, quantity: 1 }]).success).toBe(false);
+    });
+  });
+
+  describe('Receipt', () => {
+    const sent = [line(1, '5', '5'), line(2, '4', '3')];
+
+    it('tracks what is still in transit per line', () => {
+      expect(outstandingQuantity(line(1, '5', '5', '2'))).toBe(3);
+      expect(outstandingQuantity(line(1, '5', '0', '0'))).toBe(0);
+    });
+
+    it('books a full receipt and closes the transfer', () => {
+      const plan = planReceipt(sent, { items: [{ itemId: 1, quantity: 5 }, { itemId: 2, quantity: 3 }], complete: false });
+      expect(plan.success).toBe(true);
+      if (!plan.success) return;
+      expect(plan.fullyReceived).toBe(true);
+      expect(plan.lines.map((l) => l.received)).toEqual([5, 3]);
+      expect(statusAfterReceipt(plan.fullyReceived, false)).toBe('received');
+    });
+
+    it('keeps a partial receipt open', () => {
+      const plan = planReceipt(sent, { items: [{ itemId: 1, quantity: 2 }], complete: false });
+      expect(plan.success).toBe(true);
+      if (!plan.success) return;
+      expect(plan.fullyReceived).toBe(false);
+      expect(plan.lines.map((l) => l.quantity)).toEqual([2, 0]);
+      expect(statusAfterReceipt(plan.fullyReceived, false)).toBe('partially_received');
+    });
+
+    it('adds later receipts to what already arrived', () => {
+      const plan = planReceipt([line(1, '5', '5', '2')], { items: [{ itemId: 1, quantity: 3 }], complete: false });
+      expect(plan.success && plan.lines[0].received).toBe(5);
+      expect(plan.success && plan.fullyReceived).toBe(true);
+    });
+
+    it('refuses to receive more than is in transit', () => {
+      expect(planReceipt([line(1, '5', '5', '4')], { items: [{ itemId: 1, quantity: 2 }], complete: false })).toEqual({
+        success: false,
+        message: 'Only 1 of that line is still in transit',
+      });
+    });
+
+    it('needs a note before closing with units missing', () => {
+      const receipt = { items: [{ itemId: 1, quantity: 5 }, { itemId: 2, quantity: 2 }], complete: true };
+      expect(planReceipt(sent, receipt)).toEqual({
+        success: false,
+        message: 'Explain the missing units before closing the transfer',
+      });
+
+      const noted = planReceipt(sent, {
+        ...receipt,
+        items: [receipt.items[0], { itemId: 2, quantity: 2, discrepancyNote: '1 broken in transit' }],
+      });
+      expect(noted.success).toBe(true);
+      if (!noted.success) return;
+      expect(noted.lines[1].discrepancyNote).toBe('1 broken in transit');
+      expect(statusAfterReceipt(noted.fullyReceived, true)).toBe('received');
+    });
+
+    it('asks for quantities when a receipt books nothing', () => {
+      expect(planReceipt(sent, { items: [], complete: false })).toEqual({
+        success: false,
+        message: 'Enter the quantities that arrived',
+      });
+    });
+  });
+
+  describe('Permissions', () => {
+    it('lets managers request and cancel, supervisors move stock and cashiers look', () => {
+      expect(hasPermission('manager', 'transfers', 'create')).toBe(true);
+      expect(hasPermission('manager', 'transfers', 'cancel')).toBe(true);
+      expect(hasPermission('supervisor', 'transfers', 'dispatch')).toBe(true);
+      expect(hasPermission('supervisor', 'transfers', 'receive')).toBe(true);
+      expect(hasPermission('supervisor', 'transfers', 'create')).toBe(false);
+      expect(hasPermission('cashier', 'transfers', 'read')).toBe(true);
+      expect(hasPermission('cashier', 'transfers', 'dispatch')).toBe(false);
+    });
+  });
+
+  describe('Transfer note', () => {
+    it('lists each line with what was requested, sent and received', () => {
+      const layout = layoutTransferNote(
+        {
+          number: 'TR-000042',
+          status: 'partially_received',
+          issuedAt: new Date('2024-03-10T09:30:00Z'),
+          timezone: 'Asia/Qatar',
+          from: { name: 'Main Store', address: 'Salwa Road, Doha' },
+          to: { name: 'Airport Kiosk' },
+          dispatchedAt: new Date('2024-03-10T12:00:00Z'),
+          notes: null,
+          lines: [
+            { description: 'Mineral Water 500ml', sku: 'WAT-500', requested: 24, dispatched: 24, received: 20, discrepancyNote: '4 bottles leaked' },
+          ],
+        },
+        measurer,
+      );
+      expect(layout.pages).toHaveLength(1);
+      const texts = textsOn(layout, 0);
+      expect(texts).toContain('TR-000042');
+      expect(texts).toContain('Main Store');
+      expect(texts).toContain('Airport Kiosk');
+      expect(texts.some((text) => text.includes('4 bottles leaked'))).toBe(true);
+    });
+  });
+});
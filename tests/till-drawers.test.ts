@@ -0,0 +1,131 @@
+/**
+ * Test Suite for Till Drawers
+ *
+ * Covers validating registers and drawer sessions, a drawer's expected cash
+ * and blind-count variance, and rolling a day's drawers up for the day close.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  closeDrawerSchema,
+  closeDrawerTotals,
+  createRegisterSchema,
+  expectedDrawerCash,
+  openDrawerSchema,
+  rollUpDrawers,
+  updateRegisterSchema,
+} from '../server/modules/till/drawers';
+import type { DrawerSession } from '../shared/schema';
+
+const session = (overrides: Partial<DrawerSession>): DrawerSession => ({
+  id: 1,
+  storeId: 1,
+  registerId: 1,
+  dayOperationId: 10,
+  status: 'open',
+  openingFloat: '200.00',
+  openedBy: 3,
+  openedAt: new Date('2026-10-19T08:00:00Z'),
+  cashSales: null,
+  cashRefunds: null,
+  cashIn: null,
+  cashOut: null,
+  expectedCash: null,
+  countedCash: null,
+  variance: null,
+  closedBy: null,
+  closedAt: null,
+  notes: null,
+  ...overrides,
+});
+
+describe('Till Drawers', () => {
+  describe('Validation', () => {
+    it('trims register names and rejects empty ones', () => {
+      expect(createRegisterSchema.parse({ storeId: '2', name: '  Till 1 ' })).toEqual({ storeId: 2, name: 'Till 1' });
+      const result = createRegisterSchema.safeParse({ storeId: 2, name: '  ' });
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.errors[0].message).toBe('Enter a register name');
+    });
+
+    it('needs something to update on a register', () => {
+      expect(updateRegisterSchema.safeParse({}).success).toBe(false);
+      expect(updateRegisterSchema.parse({ isActive: false })).toEqual({ isActive: false });
+    });
+
+    it('sets or clears a register\'s cash ceiling', () => {
+      expect(updateRegisterSchema.parse({ cashCeiling: '1500' })).toEqual({ cashCeiling: 1500 });
+      expect(updateRegisterSchema.parse({ cashCeiling: null })).toEqual({ cashCeiling: null });
+      expect(updateRegisterSchema.safeParse({ cashCeiling: -1 }).success).toBe(false);
+    });
+
+    it('rejects a negative float or count', () => {
+      const open = openDrawerSchema.safeParse({ registerId: 1, openingFloat: -5 });
+      expect(open.success).toBe(false);
+      if (!open.success) expect(open.error.errors[0].message).toBe('The float cannot be negative');
+      expect(closeDrawerSchema.safeParse({ countedCash: -1 }).success).toBe(false);
+    });
+
+    it('accepts a zero float and a count given as text', () => {
+      expect(openDrawerSchema.parse({ registerId: '4', openingFloat: '0' })).toEqual({ registerId: 4, openingFloat: 0 });
+      expect(closeDrawerSchema.parse({ countedCash: '512.50' }).countedCash).toBe(512.5);
+    });
+  });
+
+  describe('Expected cash', () => {
+    const cash = { openingFloat: 200, cashSales: 845.35, cashRefunds: 40.1, cashIn: 50, cashOut: 120.25 };
+
+    it('adds sales and cash in to the float and takes off refunds and cash out', () => {
+      expect(expectedDrawerCash(cash)).toBe(935);
+    });
+
+    it('records the blind count and how far it is from expected', () => {
+      expect(closeDrawerTotals(cash, 930)).toEqual({
+        cashSales: 845.35,
+        cashRefunds: 40.1,
+        cashIn: 50,
+        cashOut: 120.25,
+        expectedCash: 935,
+        countedCash: 930,
+        variance: -5,
+      });
+      expect(closeDrawerTotals(cash, 935.2).variance).toBe(0.2);
+    });
+  });
+
+  describe('Rolling up the day', () => {
+    const registers = [{ id: 1, name: 'Till 1' }, { id: 2, name: 'Till 2' }];
+
+    it('lists each counted drawer with its own variance and totals them', () => {
+      const rollUp = rollUpDrawers(
+        [
+          session({ id: 1, status: 'closed', expectedCash: '935.00', countedCash: '930.00', variance: '-5.00' }),
+          session({ id: 2, registerId: 2, openingFloat: '150.00', status: 'closed', expectedCash: '410.50', countedCash: '412.00', variance: '1.50' }),
+        ],
+        registers,
+      );
+
+      expect(rollUp.drawers.map((drawer) => [drawer.registerName, drawer.variance])).toEqual([['Till 1', -5], ['Till 2', 1.5]]);
+      expect(rollUp.openDrawers).toBe(0);
+      expect(rollUp.totals).toEqual({ openingFloat: 350, expectedCash: 1345.5, countedCash: 1342, variance: -3.5 });
+    });
+
+    it('keeps an open drawer blind and out of the counted totals', () => {
+      const rollUp = rollUpDrawers(
+        [
+          session({ id: 1, status: 'closed', expectedCash: '300.00', countedCash: '300.00', variance: '0.00' }),
+          session({ id: 2, registerId: 2, expectedCash: '999.00' }),
+        ],
+        registers,
+      );
+
+      expect(rollUp.openDrawers).toBe(1);
+      expect(rollUp.drawers[1]).toMatchObject({ status: 'open', expectedCash: null, countedCash: null, variance: null });
+      expect(rollUp.totals).toEqual({ openingFloat: 400, expectedCash: 300, countedCash: 300, variance: 0 });
+    });
+
+    it('names a register it was not given by its id', () => {
+      expect(rollUpDrawers([session({ registerId: 9 })], registers).drawers[0].registerName).toBe('Register 9');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Test Suite for X and Z Reports
+ *
+ * Covers summarising a day's or a register's sales, refunds, voids and
+ * drawer activity into a till report, the Z numbering, and laying the
+ * report out on the receipt roll.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTillReport, tillReportSections, zReportNumber, type TillReportData } from '../shared/till-reports';
+import { layoutTillReport, type TextMeasurer } from '../server/modules/invoices/pdf-layout';
+
+const measurer: TextMeasurer = {
+  widthOf: (text, size) => Array.from(text).length * size * 0.5,
+};
+
+const header = {
+  kind: 'z' as const,
+  number: zReportNumber(12),
+  store: { id: 1, name: 'Main Store' },
+  register: { id: 3, name: 'Till 1' },
+  date: '2026-10-19',
+  currency: 'QAR',
+  generatedAt: '2026-10-19T20:00:00.000Z',
+};
+
+const sale = (overrides: Partial<TillReportData['sales'][number]> = {}) => ({
+  status: 'completed',
+  paymentMethod: 'cash',
+  subtotal: '100.00',
+  discountAmount: '0.00',
+  promotionDiscountAmount: '0.00',
+  vatAmount: '5.00',
+  total: '105.00',
+  ...overrides,
+});
+
+const data: TillReportData = {
+  sales: [
+    sale(),
+    sale({ paymentMethod: 'card', subtotal: '200.00', discountAmount: '10.00', vatAmount: '10.00', total: '200.00' }),
+    sale({ status: 'refunded', subtotal: '40.00', promotionDiscountAmount: '4.00', vatAmount: '2.00', total: '38.00' }),
+    sale({ status: 'voided', total: '55.00' }),
+  ],
+  saleLines: [
+    { vatRate: '5.00', total: '300.00', vatAmount: '15.00' },
+    { vatRate: '5.00', total: '40.00', vatAmount: '2.00' },
+    { vatRate: '0.00', total: '0.00', vatAmount: '0.00' },
+  ],
+  refunds: [{ refundMethod: 'cash', subtotal: '20.00', vatAmount: '1.00', totalRefund: '21.00' }],
+  cashMovements: { paidIn: 10, paidOut: 5, dropped: 200, pickedUp: 0 },
+  noSales: 2,
+};
+
+describe('X and Z Reports', () => {
+  describe('Building', () => {
+    const report = buildTillReport(header, data);
+
+    it('counts completed and refunded sales but not voided ones', () => {
+      expect(report.sales).toEqual({
+        count: 3,
+        gross: 340,
+        discounts: 10,
+        promotions: 4,
+        vat: 17,
+        total: 343,
+        net: 306,
+      });
+      expect(report.voids).toEqual({ count: 1, total: 55 });
+    });
+
+    it('breaks takings down by tender, cash first', () => {
+      expect(report.tenders).toEqual([
+        { method: 'cash', count: 2, amount: 143 },
+        { method: 'card', count: 1, amount: 200 },
+      ]);
+    });
+
+    it('reports refunds by method with their VAT', () => {
+      expect(report.refunds).toEqual({ count: 1, total: 21, vat: 1, byMethod: [{ method: 'cash', count: 1, amount: 21 }] });
+    });
+
+    it('totals VAT by rate, highest rate first', () => {
+      expect(report.vatByRate).toEqual([
+        { rate: 5, taxable: 340, vat: 17 },
+        { rate: 0, taxable: 0, vat: 0 },
+      ]);
+    });
+
+    it('carries the no-sale opens and drawer movements through', () => {
+      expect(report.noSales).toBe(2);
+      expect(report.cashMovements.dropped).toBe(200);
+    });
+
+    it('reports an empty register as zeros', () => {
+      const empty = buildTillReport(header, { sales: [], saleLines: [], refunds: [], cashMovements: data.cashMovements, noSales: 0 });
+      expect(empty.sales.net).toBe(0);
+      expect(empty.tenders).toEqual([]);
+      expect(tillReportSections(empty).find((section) => section.heading === 'Tenders')?.lines).toEqual([{ label: 'No sales', value: '' }]);
+    });
+  });
+
+  describe('Numbering', () => {
+    it('pads Z numbers to six digits', () => {
+      expect(zReportNumber(1)).toBe('Z-000001');
+      expect(zReportNumber(1234567)).toBe('Z-1234567');
+    });
+  });
+
+  describe('Layout', () => {
+    it('prints every section on one roll-width page', () => {
+      const report = buildTillReport(header, data);
+      const layout = layoutTillReport(report, 'Asia/Qatar', measurer);
+      const texts = layout.pages[0].ops.flatMap((op) => (op.type === 'text' ? [op.text] : []));
+
+      expect(layout.pages).toHaveLength(1);
+      expect(layout.title).toBe('Z report Z-000012 · Till 1');
+      expect(texts).toContain('Z REPORT Z-000012');
+      for (const section of tillReportSections(report)) {
+        expect(texts).toContain(section.heading);
+      }
+      expect(texts).toContain('QAR 306.00');
+    });
+
+    it('marks an X report as a reading that resets nothing', () => {
+      const report = buildTillReport({ ...header, kind: 'x', number: null, register: null }, data);
+      const texts = layoutTillReport(report, 'Asia/Qatar', measurer).pages[0].ops.flatMap((op) => (op.type === 'text' ? [op.text] : []));
+      expect(texts).toContain('X REPORT');
+      expect(texts).toContain('All registers');
+    });
+  });
+});
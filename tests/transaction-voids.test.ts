@@ -0,0 +1,131 @@
+/**
+ * Test Suite for Voiding Sales
+ *
+ * Covers what a void checks on the locked sale, including returns already
+ * recorded against it and its manager approval, and that the sale, its stock
+ * and the catalogue totals change in one database transaction. The database is a stand-in that
+ * answers reads with the rows given for each table.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { products, returns, transactionItems, transactions } from '../shared/schema';
+import * as inventoryStorage from '../server/modules/inventory/storage';
+import { voidTransaction } from '../server/modules/transactions/storage';
+
+// Rows each table answers with, the locks taken and the updates made
+const fake = vi.hoisted(() => ({
+  rows: new Map<unknown, unknown[]>(),
+  locks: [] as string[],
+  updates: [] as Array<{ table: unknown; values: Record<string, unknown> }>,
+  tx: {} as Record<string, unknown>,
+}));
+vi.mock('../server/db', () => {
+  const query = (rows: () => unknown[]): any => {
+    const builder: any = {
+      where: () => builder,
+      limit: () => builder,
+      for: (mode: string) => {
+        fake.locks.push(mode);
+        return builder;
+      },
+      returning: async () => rows(),
+      then: (resolve: (value: unknown) => void, reject: (error: unknown) => void) =>
+        Promise.resolve(rows()).then(resolve, reject),
+    };
+    return builder;
+  };
+  fake.tx = {
+    select: () => ({ from: (table: unknown) => query(() => fake.rows.get(table) ?? []) }),
+    update: (table: unknown) => ({
+      set: (values: Record<string, unknown>) => {
+        fake.updates.push({ table, values });
+        return query(() => (fake.rows.get(table) ?? []).map((row) => ({ ...(row as object), ...values })));
+      },
+    }),
+  };
+  return { db: { transaction: async (work: (tx: unknown) => unknown) => work(fake.tx) }, pool: {} };
+});
+vi.mock('../server/modules/inventory/storage', () => ({ applyStockMovements: vi.fn() }));
+
+const applyStockMovements = vi.mocked(inventoryStorage.applyStockMovements);
+
+const voidData = { reason: 'Rang up twice', voidedBy: 3, voidedAt: new Date() };
+
+describe('Voiding Sales', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    fake.locks = [];
+    fake.updates = [];
+    fake.rows = new Map<unknown, unknown[]>([
+      [transactions, [{ id: 9, storeId: 2, status: 'completed', total: '30.00', createdAt: new Date() }]],
+      [transactionItems, [
+        { id: 1, transactionId: 9, productId: 10, quantity: '2', unitFactor: '1' },
+        { id: 2, transactionId: 9, productId: 11, quantity: '1', unitFactor: '6' },
+        { id: 3, transactionId: 9, productId: null, quantity: '1', unitFactor: '1' },
+      ]],
+    ]);
+    applyStockMovements.mockResolvedValue([]);
+  });
+
+  it('locks the sale and puts its stock back in the same transaction', async () => {
+    const result = await voidTransaction(9, voidData);
+
+    expect(result).toMatchObject({ success: true, voidedTransaction: { id: 9, status: 'voided' } });
+    expect(fake.locks).toEqual(['update']);
+    expect(applyStockMovements).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ storeId: 2, productId: 10, movementType: 'void', quantity: 2, sourceId: 9 }),
+        expect.objectContaining({ storeId: 2, productId: 11, movementType: 'void', quantity: 6, sourceId: 9 }),
+      ],
+      { executor: fake.tx },
+    );
+    expect(fake.updates.filter((update) => update.table === products)).toHaveLength(2);
+  });
+
+  it('fails the whole void when the stock cannot be put back', async () => {
+    applyStockMovements.mockRejectedValue(new Error('lot missing'));
+
+    await expect(voidTransaction(9, voidData)).rejects.toThrow('lot missing');
+    expect(fake.updates.filter((update) => update.table === products)).toHaveLength(0);
+  });
+
+  it('refuses sales that are already voided or refunded', async () => {
+    fake.rows.set(transactions, [{ id: 9, storeId: 2, status: 'voided', createdAt: new Date() }]);
+    expect(await voidTransaction(9, voidData)).toEqual({ success: false, message: 'Transaction already voided' });
+
+    fake.rows.set(transactions, [{ id: 9, storeId: 2, status: 'refunded', createdAt: new Date() }]);
+    expect(await voidTransaction(9, voidData)).toEqual({ success: false, message: 'Cannot void a refunded transaction' });
+    expect(fake.updates).toHaveLength(0);
+  });
+
+  it('refuses a sale with returns recorded against it', async () => {
+    fake.rows.set(returns, [{ id: 4 }]);
+
+    expect(await voidTransaction(9, voidData)).toEqual({
+      success: false,
+      message: 'Items on this sale have been returned; refund the rest instead of voiding it',
+    });
+    expect(fake.updates).toHaveLength(0);
+    expect(applyStockMovements).not.toHaveBeenCalled();
+  });
+
+  it('asks for approval inside the transaction once the checks pass', async () => {
+    const authorize = vi.fn().mockResolvedValue({ message: 'Void needs manager approval', code: 'APPROVAL_REQUIRED', details: { amount: 30 } });
+
+    const result = await voidTransaction(9, { ...voidData, authorize });
+
+    expect(authorize).toHaveBeenCalledWith({ storeId: 2, transactionId: 9, total: 30 }, fake.tx);
+    expect(result).toEqual({
+      success: false,
+      message: 'Void needs manager approval',
+      code: 'APPROVAL_REQUIRED',
+      details: { amount: 30 },
+    });
+    expect(fake.updates).toHaveLength(0);
+
+    fake.rows.set(transactions, [{ id: 9, storeId: 2, status: 'voided', createdAt: new Date() }]);
+    authorize.mockClear();
+    await voidTransaction(9, { ...voidData, authorize });
+    expect(authorize).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Test Suite for Units of Measure
+ *
+ * Covers resolving the unit a quantity was given in, converting to the base
+ * unit stock is kept in, decimal quantities for weighed goods, unit prices,
+ * the product units form, and conversions on supplier invoices and returns.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  baseUnitOf,
+  checkQuantity,
+  formatQuantity,
+  lineBaseQuantity,
+  resolveUnit,
+  toBaseQuantity,
+  unitPrice,
+  type UnitDefinition,
+} from '../shared/units';
+import { productUnitsSchema } from '../server/modules/inventory/units';
+import { matchInvoice } from '../server/modules/purchasing/purchasing';
+import { planReturn } from '../server/modules/returns/calculations';
+
+const cola = { baseUnit: 'pcs', baseUnitDecimal: false };
+const colaUnits: UnitDefinition[] = [
+  { code: 'ctn', name: 'Carton of 24', factor: '24.0000', allowsDecimal: false, price: null, isPurchaseUnit: true, isSalesUnit: true },
+  { code: 'pallet', factor: '1440.0000', allowsDecimal: false, isPurchaseUnit: true, isSalesUnit: false },
+];
+
+const tomatoes = { baseUnit: 'g', baseUnitDecimal: false };
+const tomatoUnits: UnitDefinition[] = [
+  { code: 'kg', factor: '1000.0000', allowsDecimal: true, price: '7.50', isPurchaseUnit: true, isSalesUnit: true },
+];
+
+describe('Units of Measure', () => {
+  describe('Resolving units', () => {
+    it('reads blank codes, the base code and spellings of pieces as the base unit', () => {
+      expect(resolveUnit(cola, colaUnits, null)).toEqual(baseUnitOf(cola));
+      expect(resolveUnit(cola, colaUnits, ' PCS ')?.factor).toBe(1);
+      expect(resolveUnit(cola, colaUnits, 'Each')?.code).toBeNull();
+      expect(resolveUnit(tomatoes, tomatoUnits, 'each')).toBeNull();
+    });
+
+    it('finds the product\'s other units by code', () => {
+      expect(resolveUnit(cola, colaUnits, 'CTN')).toEqual({
+        code: 'ctn',
+        label: 'Carton of 24',
+        factor: 24,
+        allowsDecimal: false,
+        price: null,
+      });
+      expect(resolveUnit(cola, colaUnits, 'box')).toBeNull();
+    });
+
+    it('only sells and buys in the units meant for it', () => {
+      expect(resolveUnit(cola, colaUnits, 'pallet', 'purchase')?.factor).toBe(1440);
+      expect(resolveUnit(cola, colaUnits, 'pallet', 'sale')).toBeNull();
+      expect(resolveUnit(cola, colaUnits, 'ctn', 'sale')?.factor).toBe(24);
+    });
+  });
+
+  describe('Quantities', () => {
+    it('converts to base units at three places', () => {
+      expect(toBaseQuantity(3, 24)).toBe(72);
+      expect(toBaseQuantity('0.125')).toBe(0.125);
+      expect(toBaseQuantity('0.755', '1000')).toBe(755);
+      expect(toBaseQuantity('abc', 24)).toBe(0);
+      expect(lineBaseQuantity({ quantity: '1.250', unitFactor: '1000.0000' })).toBe(1250);
+      expect(lineBaseQuantity({ quantity: '2' })).toBe(2);
+    });
+
+    it('takes part units only where the unit allows them', () => {
+      const kg = resolveUnit(tomatoes, tomatoUnits, 'kg')!;
+      const ctn = resolveUnit(cola, colaUnits, 'ctn')!;
+      expect(checkQuantity(0.755, kg)).toBeNull();
+      expect(checkQuantity(1.5, ctn)).toBe('Quantities in Carton of 24 must be whole numbers');
+      expect(checkQuantity(0.7555, kg)).toBe('Quantities can have at most 3 decimal places');
+      expect(checkQuantity(0, kg)).toBe('Quantity must be more than zero');
+    });
+
+    it('prices a unit at its own price or the base price times its size', () => {
+      expect(unitPrice('1.25', resolveUnit(cola, colaUnits, 'ctn')!)).toBe(30);
+      expect(unitPrice('0.01', resolveUnit(tomatoes, tomatoUnits, 'kg')!)).toBe(7.5);
+      expect(unitPrice('1.25', baseUnitOf(cola))).toBe(1.25);
+    });
+
+    it('shows whole numbers without decimals', () => {
+      expect(formatQuantity('2.000', 'ctn')).toBe('2 ctn');
+      expect(formatQuantity(0.75, 'kg')).toBe('0.75 kg');
+      expect(formatQuantity('3')).toBe('3');
+    });
+  });
+
+  describe('Product units form', () => {
+    it('lower-cases codes and fills in defaults', () => {
+      const parsed = productUnitsSchema.parse({ units: [{ code: ' CTN ', factor: '24' }] });
+      expect(parsed).toEqual({
+        baseUnit: 'pcs',
+        baseUnitDecimal: false,
+        units: [{ code: 'ctn', factor: 24, allowsDecimal: false, isPurchaseUnit: true, isSalesUnit: false }],
+      });
+    });
+
+    it('refuses repeated codes and the base unit as another unit', () => {
+      const repeated = productUnitsSchema.safeParse({ units: [{ code: 'ctn', factor: 24 }, { code: 'CTN', factor: 12 }] });
+      expect(repeated.success).toBe(false);
+      expect(repeated.error?.errors[0]?.message).toBe('ctn is listed more than once');
+
+      const base = productUnitsSchema.safeParse({ baseUnit: 'g', units: [{ code: 'g', factor: 1 }] });
+      expect(base.error?.errors[0]?.message).toBe('g is already the base unit');
+      expect(productUnitsSchema.safeParse({ units: [{ code: 'ctn', factor: 0 }] }).success).toBe(false);
+    });
+  });
+
+  describe('Supplier invoices', () => {
+    it('matches singles billed against an order in cartons', () => {
+      const match = matchInvoice(
+        [{ id: 1, productId: 7, quantityOrdered: '2.00', quantityReceived: '2.00', unitCost: '24.0000', unitFactor: '24.0000' }],
+        [{ productId: 7, productName: 'Cola', quantity: '48', unitFactor: '1', unitCost: '1.00', totalCost: '48.00' }],
+      );
+      expect(match.status).toBe('matched');
+      expect(match.lines[0]).toMatchObject({ invoiced: 2, invoiceUnitCost: 24 });
+    });
+  });
+
+  describe('Returns', () => {
+    it('takes back part of a weighed line', () => {
+      const result = planReturn({
+        transactionTotal: 15,
+        soldLines: [{ id: 1, productId: 3, quantity: '2.000', allowsDecimal: true, total: '15.00' }],
+        returned: new Map(),
+        lines: [{ transactionItemId: 1, quantity: 0.5, disposition: 'restock' }],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.plan.lines[0]).toMatchObject({ quantity: 0.5, refundAmount: 3.75 });
+    });
+  });
+});
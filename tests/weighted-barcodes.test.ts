@@ -0,0 +1,220 @@
+/**
+ * Test Suite for Weighted Barcodes
+ *
+ * Covers reading a store's scale label rules, EAN-13 check digits, taking
+ * the PLU and the embedded weight or price out of a label, what a label
+ * puts in the cart for products weighed in kilos, in grams or sold by piece,
+ * and the product routes that keep each PLU to one product.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import express from 'express';
+import {
+  NEW_WEIGHTED_BARCODE_RULE,
+  checkWeightedBarcodeRule,
+  ean13CheckDigit,
+  hasValidEan13CheckDigit,
+  normalisePlu,
+  parseWeightedBarcode,
+  readBarcodeSettings,
+  scannedLine,
+  type WeightedBarcodeRule,
+} from '../shared/barcodes';
+
+// The routes run against a stubbed storage layer
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+vi.mock('../server/storage', () => ({
+  storage: {
+    getProduct: vi.fn(),
+    getProductByBarcode: vi.fn(),
+    getProductByPlu: vi.fn(),
+    getPluOwner: vi.fn(),
+    getProductUnits: vi.fn(),
+    getStore: vi.fn(),
+    getStoreSpecificPrice: vi.fn(),
+    getUserStoreAssignments: vi.fn(),
+    createProduct: vi.fn(),
+    updateProduct: vi.fn(),
+  },
+}));
+vi.stubEnv('OPENAI_API_KEY', 'test');
+
+const weightRule: WeightedBarcodeRule = { ...NEW_WEIGHTED_BARCODE_RULE };
+const priceRule: WeightedBarcodeRule = { ...NEW_WEIGHTED_BARCODE_RULE, prefix: '21', valueType: 'price', decimals: 2 };
+
+const cheese = { name: 'Cheddar', price: '0.05', baseUnit: 'g', baseUnitDecimal: false };
+const apples = { name: 'Apples', price: '6.00', baseUnit: 'kg', baseUnitDecimal: true };
+const cake = { name: 'Cake', price: '12.00', baseUnit: 'pcs', baseUnitDecimal: false };
+
+describe('Weighted Barcodes', () => {
+  describe('Store rules', () => {
+    it('reads the rules a store keeps and leaves out broken ones', () => {
+      expect(readBarcodeSettings(null)).toEqual({ weighted: [] });
+      const settings = readBarcodeSettings({
+        barcodes: {
+          weighted: [
+            weightRule,
+            { ...priceRule, validateCheckDigit: undefined },
+            { ...weightRule, prefix: '2a' },
+            { ...weightRule, pluDigits: 6, valueDigits: 6 },
+          ],
+        },
+      });
+      expect(settings.weighted).toEqual([weightRule, priceRule]);
+    });
+
+    it('explains why a rule cannot read a label', () => {
+      expect(checkWeightedBarcodeRule(weightRule)).toBeNull();
+      expect(checkWeightedBarcodeRule({ ...weightRule, prefix: '' })).toBe('The prefix must be one to three digits');
+      expect(checkWeightedBarcodeRule({ ...weightRule, decimals: 4 })).toBe('Decimal places must be between 0 and 3');
+      expect(checkWeightedBarcodeRule({ ...weightRule, pluDigits: 6, valueDigits: 5 })).toBe('The prefix, PLU and value do not fit in 12 digits');
+    });
+  });
+
+  describe('Check digits', () => {
+    it('works out EAN-13 check digits', () => {
+      expect(ean13CheckDigit('400638133393')).toBe(1);
+      expect(hasValidEan13CheckDigit('4006381333931')).toBe(true);
+      expect(hasValidEan13CheckDigit('4006381333932')).toBe(false);
+      expect(hasValidEan13CheckDigit('400638133393')).toBe(false);
+    });
+
+    it('compares PLUs as numbers', () => {
+      expect(normalisePlu('00042')).toBe('42');
+      expect(normalisePlu('00000')).toBe('0');
+    });
+  });
+
+  describe('Reading labels', () => {
+    it('takes the PLU and weight out of a weight label', () => {
+      expect(parseWeightedBarcode('2000042012502', [weightRule])).toEqual({ rule: weightRule, plu: '42', value: 1.25 });
+    });
+
+    it('picks the rule by prefix and reads prices', () => {
+      expect(parseWeightedBarcode('2100042007505', [weightRule, priceRule])).toMatchObject({ plu: '42', value: 7.5 });
+    });
+
+    it('skips digits between the PLU and the value', () => {
+      const rule = { ...priceRule, prefix: '22', valueDigits: 4 };
+      expect(parseWeightedBarcode('2200042707501', [rule])).toMatchObject({ plu: '42', value: 7.5 });
+    });
+
+    it('refuses wrong check digits, other prefixes and other lengths', () => {
+      expect(parseWeightedBarcode('2000042012503', [weightRule])).toBeNull();
+      expect(parseWeightedBarcode('2000042012503', [{ ...weightRule, validateCheckDigit: false }])).not.toBeNull();
+      expect(parseWeightedBarcode('4006381333931', [weightRule])).toBeNull();
+      expect(parseWeightedBarcode('200004201250', [weightRule])).toBeNull();
+    });
+  });
+
+  describe('Cart lines', () => {
+    const weightScan = parseWeightedBarcode('2000042012502', [weightRule])!;
+    const priceScan = parseWeightedBarcode('2100042007505', [priceRule])!;
+
+    it('weighs products kept in kilos or sold in a kilo unit', () => {
+      expect(scannedLine(apples, [], weightScan)).toEqual({
+        success: true,
+        line: { unit: { code: null, label: 'kg', factor: 1, allowsDecimal: true, price: null }, quantity: 1.25, price: null, total: null },
+      });
+      const kilo = { code: 'kg', factor: '1000', allowsDecimal: true, price: null, isSalesUnit: true };
+      const result = scannedLine(cheese, [kilo], weightScan);
+      expect(result.success && result.line.unit.code).toBe('kg');
+      expect(result.success && result.line.quantity).toBe(1.25);
+    });
+
+    it('counts products kept in grams in whole grams', () => {
+      expect(scannedLine(cheese, [], weightScan)).toMatchObject({ success: true, line: { quantity: 1250, price: null } });
+      expect(scannedLine(cheese, [], priceScan)).toMatchObject({ success: true, line: { quantity: 150 } });
+    });
+
+    it('turns a price label into the weight it buys, charged at the label price', () => {
+      expect(scannedLine(apples, [], priceScan)).toMatchObject({ success: true, line: { quantity: 1.25, price: null, total: 7.5 } });
+      // 7.50 at 7.00/kg is 1.071 kg, which would ring up as 7.497
+      expect(scannedLine({ ...apples, price: '7.00' }, [], priceScan)).toMatchObject({ success: true, line: { quantity: 1.071, total: 7.5 } });
+    });
+
+    it('charges the label price for one item not sold by weight', () => {
+      expect(scannedLine(cake, [], priceScan)).toMatchObject({ success: true, line: { quantity: 1, price: 7.5, total: 7.5 } });
+      expect(scannedLine(cake, [], weightScan)).toEqual({ success: false, message: 'Cake is not sold by weight' });
+    });
+  });
+
+  describe('Product routes', () => {
+    let app: express.Express;
+    let storage: Record<string, ReturnType<typeof vi.fn>>;
+    const manager = { id: 2, role: 'manager' };
+
+    beforeAll(async () => {
+      const { registerInventoryRoutes } = await import('../server/modules/inventory/routes');
+      app = express();
+      registerInventoryRoutes(app);
+    });
+
+    beforeEach(async () => {
+      vi.resetAllMocks();
+      storage = (await import('../server/storage')).storage as unknown as typeof storage;
+      storage.getStore.mockResolvedValue({ id: 1, managerId: null, settings: { barcodes: { weighted: [weightRule] } } });
+      storage.getUserStoreAssignments.mockResolvedValue([]);
+      storage.getProduct.mockResolvedValue({ id: 9, name: 'Cheddar', stock: 0 });
+      storage.getPluOwner.mockResolvedValue(undefined);
+      storage.getProductUnits.mockResolvedValue({ units: [] });
+    });
+
+    // Runs a route's middleware chain and returns what it answered
+    const call = async (method: 'get' | 'post' | 'patch', path: string, req: Record<string, unknown>) => {
+      const layer = (app as any)._router.stack.find((entry: any) => entry.route?.path === path && entry.route.methods[method]);
+      const res = { statusCode: 200, body: undefined as any, status: vi.fn(), json: vi.fn() };
+      res.status.mockImplementation((code: number) => {
+        res.statusCode = code;
+        return res;
+      });
+      res.json.mockImplementation((body: unknown) => {
+        res.body = body;
+        return res;
+      });
+      const request = { params: {}, query: {}, body: {}, user: manager, isAuthenticated: () => true, ...req };
+      for (const { handle } of layer.route.stack) {
+        let advanced = false;
+        await handle(request, res, () => { advanced = true; });
+        if (!advanced) break;
+      }
+      return res;
+    };
+
+    it('refuses a PLU another product already has, leading zeros or not', async () => {
+      storage.getPluOwner.mockResolvedValue({ id: 3, name: 'Apples' });
+
+      const created = await call('post', '/api/products', {
+        body: { sku: 'CHED', name: 'Cheddar', description: 'Mature', price: '5.00', cost: '3.00', barcode: '5000001', plu: '0042' },
+      });
+      expect(created.statusCode).toBe(409);
+      expect(created.body.message).toBe('PLU 0042 already belongs to Apples');
+      expect(storage.createProduct).not.toHaveBeenCalled();
+
+      const updated = await call('patch', '/api/products/:id', { params: { id: '9' }, body: { plu: '42' } });
+      expect(updated.statusCode).toBe(409);
+      expect(storage.getPluOwner).toHaveBeenLastCalledWith('42', 9);
+      expect(storage.updateProduct).not.toHaveBeenCalled();
+    });
+
+    it('only reads a scale label as a product the scanning store stocks', async () => {
+      storage.getProductByPlu.mockResolvedValue(undefined);
+
+      const scanned = await call('get', '/api/products/barcode/:barcode', { params: { barcode: '2000042012502' }, query: { storeId: '1' } });
+
+      expect(scanned.statusCode).toBe(404);
+      expect(storage.getProductByPlu).toHaveBeenCalledWith('42', 1);
+    });
+
+    it('works out a price label at the price the scanning store sells at', async () => {
+      storage.getStore.mockResolvedValue({ id: 1, managerId: null, settings: { barcodes: { weighted: [priceRule] } } });
+      storage.getProductByPlu.mockResolvedValue({ id: 9, ...apples });
+      storage.getStoreSpecificPrice.mockResolvedValue('5.00');
+
+      const scanned = await call('get', '/api/products/barcode/:barcode', { params: { barcode: '2100042007505' }, query: { storeId: '1' } });
+
+      expect(storage.getStoreSpecificPrice).toHaveBeenCalledWith(1, 9);
+      expect(scanned.body).toMatchObject({ id: 9, price: '5.00', scan: { plu: '42', quantity: 1.5, total: 7.5 } });
+    });
+  });
+});